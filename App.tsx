@@ -1,29 +1,62 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { isTauri } from '@tauri-apps/api/core';
+import { getCurrentWindow } from '@tauri-apps/api/window';
 import Toolbar from './components/Toolbar';
 import Sidebar from './components/Sidebar';
 import Editor from './components/Editor';
 import TOCModal from './components/TOCModal';
 import PageNumberModal from './components/PageNumberModal';
 import ZoomControls from './components/ZoomControls';
-import { DocumentState, SelectionState, ImageProperties, TOCEntry, TOCSettings, HRProperties, PageAnchor, StructureEntry } from './types';
-import { DEFAULT_CSS, DEFAULT_HTML, PAGE_FORMATS, FONTS } from './constants';
-import { getSystemFonts, FontDefinition } from './utils/fontUtils';
+import { DocumentState, SelectionState, ImageProperties, TOCEntry, TOCSettings, HRProperties, PageAnchor, StructureEntry, PageNumberSettings, ProjectSettings, PaginationRules, GutterMode, MasterPage, NamedStyle, SpellcheckSettings, Theme } from './types';
+import { DEFAULT_CSS, DEFAULT_HTML, PAGE_FORMATS, FONTS, DEFAULT_PAGINATION_RULES, DEFAULT_MASTER_PAGES, DEFAULT_NAMED_STYLES, DEFAULT_THEME, BUILT_IN_DICTIONARIES, DEFAULT_SPELLCHECK_SETTINGS } from './constants';
+import { getSystemFonts, FontDefinition, StoredFont, loadFontsFromStorage, loadFontsFromDb, saveFontToDb, loadAllCustomFonts } from './utils/fontUtils';
 import { scanStructure } from './utils/structureScanner';
 import { PatternTracker, findSimilarElements, getElementSignature, PatternMatch, ActionType } from './utils/patternDetector';
 import PatternModal from './components/PatternModal';
 import ExportModal from './components/ExportModal';
 import SettingsModal from './components/SettingsModal';
 import AutoLogModal from './components/AutoLogModal';
-import { ensureContentIsPaginated, reflowPages, reflowPagesUntilStable } from './utils/pagination';
+import PaginationModal from './components/PaginationModal';
+import RecoveryModal from './components/RecoveryModal';
+import PreflightPanel from './components/PreflightPanel';
+import MergeModal, { MergeOptions } from './components/MergeModal';
+import TemplateGallery from './components/TemplateGallery';
+import MasterPagesModal from './components/MasterPagesModal';
+import StyleSheetsPanel from './components/StyleSheetsPanel';
+import ThemeModal from './components/ThemeModal';
+import FindReplacePanel, { FindState } from './components/FindReplacePanel';
+import SpellcheckPanel from './components/SpellcheckPanel';
+import HistoryPanel from './components/HistoryPanel';
+import { addReflowListener, ensureContentIsPaginated, reflowPages, reflowPagesUntilStable } from './utils/pagination';
 import { initAutoLog, downloadAutoLog, clearAutoLog } from './utils/autoLog';
+import { AUTOSAVE_INTERVAL_MS, AutosaveReason, AutosaveSnapshot, createSessionId, deleteSnapshots, getRecoverableSnapshots, getSnapshot, listSnapshots, markSessionsClosed, saveSnapshot } from './utils/autosave';
+import { buildProjectBundle, readProjectBundle, isProjectFileName, PROJECT_FILE_EXTENSION } from './utils/projectFile';
+import { checkGutter, formatGutterRange, KDP_MAX_PAGES } from './utils/gutter';
+import { PreflightFinding, runPreflight } from './utils/preflight';
+import { DocxImportResult, importDocx } from './utils/docxImport';
+import { writeDocx } from './utils/docxWriter';
+import { writeEpub } from './utils/epubWriter';
+import { isMarkdownFileName, markdownFromWorkspace, markdownToHtml } from './utils/markdown';
+import { PdfOutlineItem, writePdf } from './utils/pdfWriter';
+import { applyLayoutOverride, lengthInInches } from './utils/pageLayout';
+import { fixClippedContainers, parseHtmlImport, scopeImportedCss, unwrapSingleContainer } from './utils/htmlImport';
+import { saveFile } from './utils/saveFile';
+import { findPlaceholders, MergeDataset, mergeAllRecordsHtml, mergeRecordHtml, recordFileName } from './utils/dataMerge';
+import { createZip } from './utils/zip';
+import { createTemplatePages, deleteTemplate, listTemplates, PageTemplate, saveTemplate, templateHtmlFromPages } from './utils/pageTemplates';
+import { computePageFields, DEFAULT_PAGE_NUMBER_FORMAT, FIELD_TEMPLATE_ATTRIBUTE, refreshFieldElements, resolvePageFields, RunningHeading } from './utils/pageFields';
+import { getNumberingSections, HIDE_PAGE_NUMBER_ATTRIBUTE, PageNumber, refreshTocPageNumbers, resolvePageNumbers, tocPageLabels } from './utils/pageNumbering';
+import { applyCharacterStyle, applyStyleSheetCss, clearCharacterStyles, getElementStyleId, getStyleBlocks, removeStyle, replaceStyleUsage, setParagraphStyle } from './utils/styleSheets';
+import { buildSearchPattern, clearFindHighlights, FindMatch, FindOptions, findMatches, highlightMatches, MAX_FIND_MATCHES, replaceAllMatches, replaceMatch, replacementFor } from './utils/findReplace';
+import { applyThemeCss, resetThemeOverrides, themedRuleHtml, themeJson } from './utils/themes';
+import { findSpellIssues, loadDictionariesFromDb, loadSpellChecker, readDictionaryFiles, saveDictionaryToDb, SPELLCHECK_DELAY_MS, SpellChecker, SpellIssue } from './utils/spellcheck';
+import { appendHistoryEntry, createHistoryEntry, entryDocState, formatHistoryLabel, getSelectionBookmark, HistoryEntry, HistoryPosition, isSameHtml, restoreSelectionBookmark } from './utils/history';
+import { assignMaster, masterArtCss, NO_PAGE_OVERRIDES, PageMasterOverrides, readPageOverrides, syncMasterPages, writePageOverrides } from './utils/masterPages';
 
 declare global {
     interface Window {
         html2pdf: any;
         html2canvas: (element: HTMLElement, options?: any) => Promise<HTMLCanvasElement>;
-        htmlDocx: {
-            asBlob: (html: string, options?: Record<string, unknown>) => Blob;
-        };
     }
 }
 
@@ -62,219 +95,29 @@ type StyleClipboard =
         image: Record<string, string>;
     };
 
-const LAYOUT_MARKER_START = '/* SPYWRITER_LAYOUT_OVERRIDE_START */';
-const LAYOUT_MARKER_END = '/* SPYWRITER_LAYOUT_OVERRIDE_END */';
-
-const applyLayoutOverride = (
-    cssContent: string,
-    width: string,
-    height: string,
+// Page numbers sit inside the margin; if they don't fit there, reserve extra padding
+// through CSS variables consumed by the layout override. `positions` are those used by the
+// numbering sections, so a document numbered both at the top and bottom reserves both.
+const applyPageNumberReserves = (
+    workspace: HTMLElement,
+    fontSize: string,
+    positions: Array<'top' | 'bottom'>,
+    margin: number,
     margins: { top: number; bottom: number; left: number; right: number }
 ) => {
-    const newCssBlock = `
-${LAYOUT_MARKER_START}
-@page {
-    size: ${width} ${height};
-    margin: 0; /* Use padding on .page instead for better control */
-}
-.editor-workspace .page {
-    width: ${width} !important;
-    height: ${height} !important;
-    min-height: ${height} !important;
-    max-height: ${height} !important;
-    padding: calc(${margins.top}in + var(--header-reserve, 0in)) ${margins.right}in calc(${margins.bottom}in + var(--footer-reserve, 0in)) ${margins.left}in !important;
-    overflow: hidden !important;
-}
-${LAYOUT_MARKER_END}
-`;
-
-    const regex = new RegExp(`\\/\\* SPYWRITER_LAYOUT_OVERRIDE_START \\\*\\/[\\s\\S]*?\\/\\* SPYWRITER_LAYOUT_OVERRIDE_END \\\*\\/`, 'g');
-    if (regex.test(cssContent)) {
-        return cssContent.replace(regex, newCssBlock.trim());
-    }
-    return `${cssContent}\n${newCssBlock.trim()}`.trim();
-};
-
-const normalizeSizeValue = (value: string) => {
-    const trimmed = value.trim();
-    if (!trimmed) return '';
-    if (/^\d+(\.\d+)?$/.test(trimmed)) return `${trimmed}px`;
-    return trimmed;
-};
-
-const PAGE_SIZE_KEYWORDS: Record<string, { width: string; height: string }> = {
-    letter: { width: '8.5in', height: '11in' },
-    legal: { width: '8.5in', height: '14in' },
-    tabloid: { width: '11in', height: '17in' },
-    a4: { width: '210mm', height: '297mm' },
-    a5: { width: '148mm', height: '210mm' }
-};
-
-const parsePageSize = (rawValue: string) => {
-    const normalized = rawValue.trim().toLowerCase();
-    if (!normalized) return null;
-
-    const tokens = normalized.split(/\s+/).filter(Boolean);
-    const keyword = tokens.find(token => PAGE_SIZE_KEYWORDS[token]);
-    const isLandscape = tokens.includes('landscape');
-    const isPortrait = tokens.includes('portrait');
-
-    if (keyword) {
-        const size = PAGE_SIZE_KEYWORDS[keyword];
-        if (isLandscape) return { width: size.height, height: size.width };
-        if (isPortrait) return size;
-        return size;
-    }
-
-    if (tokens.length >= 2) {
-        const width = normalizeSizeValue(tokens[0]);
-        const height = normalizeSizeValue(tokens[1]);
-        if (width && height) return { width, height };
-    }
-
-    return null;
-};
-
-const detectPageSizeFromCss = (css: string) => {
-    const pageMatch = css.match(/@page\s*{[^}]*size\s*:\s*([^;]+);/i);
-    if (pageMatch && pageMatch[1]) {
-        const parsed = parsePageSize(pageMatch[1]);
-        if (parsed) return parsed;
-    }
-
-    const pageBlockMatch = css.match(/\.page\s*{[^}]*}/i);
-    if (pageBlockMatch) {
-        const block = pageBlockMatch[0];
-        const widthMatch = block.match(/width\s*:\s*([^;]+);/i);
-        const heightMatch = block.match(/height\s*:\s*([^;]+);/i);
-        if (widthMatch && heightMatch) {
-            const width = normalizeSizeValue(widthMatch[1]);
-            const height = normalizeSizeValue(heightMatch[1]);
-            if (width && height) return { width, height };
-        }
-    }
-
-    return null;
-};
-
-const detectPageSizeFromElement = (pageEl: HTMLElement | null) => {
-    if (!pageEl) return null;
-    const width = pageEl.style.width ? normalizeSizeValue(pageEl.style.width) : '';
-    const height = pageEl.style.height ? normalizeSizeValue(pageEl.style.height) : '';
-    if (width && height) return { width, height };
-    return null;
-};
-
-const scopeImportedCss = (css: string, scopeSelector = '.editor-workspace') => {
-    if (!css.trim()) return '';
-    const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, '');
-    const blocks: string[] = [];
-    let start = 0;
-    let depth = 0;
-    for (let i = 0; i < withoutComments.length; i += 1) {
-        const ch = withoutComments[i];
-        if (ch === '{') depth += 1;
-        if (ch === '}') {
-            depth -= 1;
-            if (depth === 0) {
-                const block = withoutComments.slice(start, i + 1).trim();
-                if (block) blocks.push(block);
-                start = i + 1;
-            }
-        }
-    }
-
-    const baseScope = `${scopeSelector} .page`;
-    const prefixSelector = (selector: string) => {
-        const trimmed = selector.trim();
-        if (!trimmed) return '';
-        if (trimmed.startsWith(baseScope) || trimmed.startsWith(scopeSelector)) return trimmed;
-        if (trimmed.startsWith(':root')) return scopeSelector;
-        if (/^(html|body)\b/.test(trimmed)) {
-            return trimmed.replace(/^(html|body)\b/, baseScope);
-        }
-        if (trimmed.startsWith('.page')) return `${scopeSelector} ${trimmed}`;
-        if (trimmed.startsWith('*')) return `${baseScope} ${trimmed}`;
-        if (trimmed.startsWith(':')) return `${baseScope}${trimmed}`;
-        return `${baseScope} ${trimmed}`;
-    };
-
-    const scopedBlocks = blocks.map(block => {
-        if (block.startsWith('@font-face') || block.startsWith('@keyframes')) return block;
-        if (block.startsWith('@page')) return '';
-        if (block.startsWith('@import')) return block;
-        if (block.startsWith('@media') || block.startsWith('@supports') || block.startsWith('@layer')) {
-            const open = block.indexOf('{');
-            const head = block.slice(0, open + 1);
-            const inner = block.slice(open + 1, -1);
-            const scopedInner = scopeImportedCss(inner, scopeSelector);
-            return `${head}${scopedInner}}`;
-        }
-
-        const open = block.indexOf('{');
-        if (open === -1) return block;
-        const selectors = block.slice(0, open).trim();
-        let body = block.slice(open + 1, -1).trim();
-        const scopedSelectors = selectors
-            .split(',')
-            .map(prefixSelector)
-            .filter(Boolean)
-            .join(', ');
-        if (!scopedSelectors) return '';
-
-        // If the imported CSS targets the page container, strip out fixed dimensions
-        // because we want our `applyLayoutOverride` to control the physical page size.
-        if (scopedSelectors.includes('.page')) {
-            body = body.replace(/width\s*:\s*[^;]+;?/gi, '')
-                .replace(/height\s*:\s*[^;]+;?/gi, '')
-                .replace(/min-height\s*:\s*[^;]+;?/gi, '')
-                .replace(/max-height\s*:\s*[^;]+;?/gi, '');
-        }
-
-        return `${scopedSelectors} { ${body} }`;
-    });
-
-    return scopedBlocks.filter(Boolean).join('\n');
-};
-
-const unwrapSingleContainer = (page: HTMLElement) => {
-    if (page.children.length !== 1) return;
-    const child = page.children[0] as HTMLElement;
-    if (!child || child.classList.contains('page-footer')) return;
-    if (child.classList.contains('page')) return;
-    if (child.children.length === 0) return;
-
-    while (child.firstChild) {
-        page.insertBefore(child.firstChild, child);
-    }
-    child.remove();
-};
-
-
-const fixClippedContainers = (page: HTMLElement) => {
-    const candidates = page.querySelectorAll('div, section, article, main, ul, ol');
-    candidates.forEach(node => {
-        const el = node as HTMLElement;
-        if (!el.isConnected) return;
-        if (el.classList.contains('page')) return;
-        if (el.classList.contains('page-footer')) return;
-
-        const computed = window.getComputedStyle(el);
-        const overflowY = computed.overflowY || computed.overflow;
-        const overflowX = computed.overflowX || computed.overflow;
-        const isClipping = ['hidden', 'clip', 'scroll', 'auto'].includes(overflowY)
-            || ['hidden', 'clip', 'scroll', 'auto'].includes(overflowX);
-
-        if (!isClipping) return;
-
-        if (el.scrollHeight > el.clientHeight + 2 || el.scrollWidth > el.clientWidth + 2) {
-            el.style.overflow = 'visible';
-            el.style.overflowX = 'visible';
-            el.style.overflowY = 'visible';
-            el.style.height = 'auto';
-            el.style.maxHeight = 'none';
-        }
-    });
+    const sizePt = Number.parseFloat(fontSize);
+    const lineHeightPt = (Number.isFinite(sizePt) ? sizePt : 12) * 1.2;
+    const footerHeightIn = lineHeightPt / 72;
+    const bottomGapIn = margins.bottom - margin;
+    const topGapIn = margins.top - margin;
+    const footerReserveIn = positions.includes('bottom')
+        ? Math.max(0, footerHeightIn - bottomGapIn)
+        : 0;
+    const headerReserveIn = positions.includes('top')
+        ? Math.max(0, footerHeightIn - topGapIn)
+        : 0;
+    workspace.style.setProperty('--footer-reserve', `${footerReserveIn}in`);
+    workspace.style.setProperty('--header-reserve', `${headerReserveIn}in`);
 };
 
 const buildSelectionStateFromElement = (element: HTMLElement): SelectionState => {
@@ -381,35 +224,20 @@ const App: React.FC = () => {
         pre?: Record<string, string>;
     }>({});
 
-    // Load available system fonts on mount and when web fonts are ready
-    useEffect(() => {
-        const openFontDb = () => new Promise<IDBDatabase>((resolve, reject) => {
-            const request = indexedDB.open('spywriter-fonts', 1);
-            request.onupgradeneeded = () => {
-                const db = request.result;
-                if (!db.objectStoreNames.contains('fonts')) {
-                    db.createObjectStore('fonts', { keyPath: 'name' });
-                }
-            };
-            request.onsuccess = () => resolve(request.result);
-            request.onerror = () => reject(request.error);
+    const registerCustomFont = useCallback((font: StoredFont) => {
+        const fontFace = new FontFace(font.name, `url(${font.dataUrl})`);
+        return fontFace.load().then(() => {
+            document.fonts.add(fontFace);
+            setAvailableFonts(prev => {
+                const exists = prev.some(f => f.name.toLowerCase() === font.name.toLowerCase());
+                if (exists) return prev;
+                return [{ name: font.name, value: `'${font.name}', sans-serif`, available: true }, ...prev];
+            });
         });
+    }, []);
 
-        const loadFontsFromDb = async () => {
-            try {
-                const db = await openFontDb();
-                const tx = db.transaction('fonts', 'readonly');
-                const store = tx.objectStore('fonts');
-                const getAll = store.getAll();
-                return await new Promise<Array<{ name: string; dataUrl: string }>>((resolve) => {
-                    getAll.onsuccess = () => resolve(getAll.result || []);
-                    getAll.onerror = () => resolve([]);
-                });
-            } catch {
-                return [];
-            }
-        };
-
+    // Load available system fonts on mount and when web fonts are ready
+    useEffect(() => {
         const loadFonts = async () => {
             const fonts = await getSystemFonts();
             setAvailableFonts(fonts);
@@ -426,37 +254,13 @@ const App: React.FC = () => {
         if (storedKey) setOpenAiApiKey(storedKey);
 
         // Restore custom fonts (localStorage + IndexedDB)
-        const storedFonts = localStorage.getItem('custom_fonts');
-        if (storedFonts) {
-            try {
-                const fonts = JSON.parse(storedFonts) as Array<{ name: string; dataUrl: string; }>
-                fonts.forEach(font => {
-                    const fontFace = new FontFace(font.name, `url(${font.dataUrl})`);
-                    fontFace.load().then(() => {
-                        document.fonts.add(fontFace);
-                        setAvailableFonts(prev => {
-                            const exists = prev.some(f => f.name.toLowerCase() === font.name.toLowerCase());
-                            if (exists) return prev;
-                            return [{ name: font.name, value: `'${font.name}', sans-serif`, available: true }, ...prev];
-                        });
-                    });
-                });
-            } catch (e) {
-                // ignore invalid storage
-            }
-        }
+        loadFontsFromStorage().forEach(font => {
+            registerCustomFont(font).catch(() => { /* ignore invalid storage */ });
+        });
 
         loadFontsFromDb().then(fonts => {
             fonts.forEach(font => {
-                const fontFace = new FontFace(font.name, `url(${font.dataUrl})`);
-                fontFace.load().then(() => {
-                    document.fonts.add(fontFace);
-                    setAvailableFonts(prev => {
-                        const exists = prev.some(f => f.name.toLowerCase() === font.name.toLowerCase());
-                        if (exists) return prev;
-                        return [{ name: font.name, value: `'${font.name}', sans-serif`, available: true }, ...prev];
-                    });
-                });
+                registerCustomFont(font).catch(() => { /* ignore broken font data */ });
             });
         });
     }, []);
@@ -501,22 +305,7 @@ const App: React.FC = () => {
                 savedToStorage = false;
             }
 
-            try {
-                const dbRequest = indexedDB.open('spywriter-fonts', 1);
-                dbRequest.onupgradeneeded = () => {
-                    const db = dbRequest.result;
-                    if (!db.objectStoreNames.contains('fonts')) {
-                        db.createObjectStore('fonts', { keyPath: 'name' });
-                    }
-                };
-                dbRequest.onsuccess = () => {
-                    const db = dbRequest.result;
-                    const tx = db.transaction('fonts', 'readwrite');
-                    tx.objectStore('fonts').put({ name: fontName, dataUrl });
-                };
-            } catch {
-                // ignore db errors
-            }
+            saveFontToDb({ name: fontName, dataUrl });
 
             setFontUploadMessage(savedToStorage ? `Font loaded: ${fontName}` : `Font loaded (stored in DB): ${fontName}`);
             window.setTimeout(() => setFontUploadMessage(''), 2500);
@@ -528,14 +317,16 @@ const App: React.FC = () => {
     };
 
     // History State
-    const [history, setHistory] = useState<DocumentState[]>([{
+    const [history, setHistory] = useState<HistoryEntry[]>(() => [createHistoryEntry({
         htmlContent: DEFAULT_HTML,
         cssContent: DEFAULT_CSS,
         fileName: 'untitled_mission.html'
-    }]);
+    }, 'New document', null)]);
     const [historyIndex, setHistoryIndex] = useState(0);
     const historyRef = useRef(history);
     const historyIndexRef = useRef(historyIndex);
+    const pendingTypingRef = useRef<DocumentState | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
     const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const marginReflowTimeoutRef = useRef<number | null>(null);
     const structureScanTimeoutRef = useRef<number | null>(null);
@@ -602,6 +393,15 @@ const App: React.FC = () => {
     const [pageFormatId, setPageFormatId] = useState<string>('letter');
     const [customPageSize, setCustomPageSize] = useState<{ width: string, height: string }>({ width: '8.5in', height: '11in' });
     const [pageMargins, setPageMargins] = useState<{ top: number, bottom: number, left: number, right: number }>({ top: 0.5, bottom: 0.5, left: 0.45, right: 0.5 });
+    const [mirrorMargins, setMirrorMargins] = useState(false);
+    const [bleed, setBleed] = useState(0);
+    const [isPreflightOpen, setIsPreflightOpen] = useState(false);
+    const [preflightFindings, setPreflightFindings] = useState<PreflightFinding[]>([]);
+    const [preflightCheckedAt, setPreflightCheckedAt] = useState<number | null>(null);
+    const [gutterMode, setGutterMode] = useState<GutterMode>('warn');
+    const [gutterNotice, setGutterNotice] = useState<{ kind: 'warn' | 'switched' | 'limit'; message: string; requiredGutter: number | null } | null>(null);
+    const lastGutterRangeRef = useRef<number | null>(null);
+    const dismissedGutterRangeRef = useRef<number | null>(null);
     const [showMarginGuides, setShowMarginGuides] = useState(false);
     const [showSmartGuides, setShowSmartGuides] = useState(false);
 
@@ -612,6 +412,8 @@ const App: React.FC = () => {
     const [isTOCModalOpen, setIsTOCModalOpen] = useState(false);
     const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
     const [isAutoLogModalOpen, setIsAutoLogModalOpen] = useState(false);
+    const [isRecoveryModalOpen, setIsRecoveryModalOpen] = useState(false);
+    const [recoverySnapshots, setRecoverySnapshots] = useState<AutosaveSnapshot[]>([]);
     const [openAiApiKey, setOpenAiApiKey] = useState('');
     const [fontUploadMessage, setFontUploadMessage] = useState('');
     const [aiMessages, setAiMessages] = useState<{ role: 'user' | 'assistant' | 'system'; content: string }[]>([
@@ -624,6 +426,39 @@ const App: React.FC = () => {
     const [aiLoading, setAiLoading] = useState(false);
     const [isPageNumberModalOpen, setIsPageNumberModalOpen] = useState(false);
     const [pageAnchors, setPageAnchors] = useState<PageAnchor[]>([]);
+    const [isCurrentPageNumberHidden, setIsCurrentPageNumberHidden] = useState(false);
+    const [pageNumberSettings, setPageNumberSettings] = useState<PageNumberSettings | null>(null);
+    const [tocSettings, setTocSettings] = useState<TOCSettings | null>(null);
+    const [paginationRules, setPaginationRules] = useState<PaginationRules>(DEFAULT_PAGINATION_RULES);
+    // Read by the reflows started from handlers and timers, so they always use the current rules
+    const paginationRulesRef = useRef(paginationRules);
+    paginationRulesRef.current = paginationRules;
+    const [isPaginationModalOpen, setIsPaginationModalOpen] = useState(false);
+    const [mergePlaceholders, setMergePlaceholders] = useState<string[] | null>(null);
+    const [isTemplateGalleryOpen, setIsTemplateGalleryOpen] = useState(false);
+    const [userTemplates, setUserTemplates] = useState<PageTemplate[]>([]);
+    const [masterPages, setMasterPages] = useState<MasterPage[]>(DEFAULT_MASTER_PAGES);
+    // Current page's own assignment and overrides, read when the master pages dialog opens
+    const [masterPageInfo, setMasterPageInfo] = useState<{ master: string | null; overrides: PageMasterOverrides } | null>(null);
+    const [namedStyles, setNamedStyles] = useState<NamedStyle[]>(DEFAULT_NAMED_STYLES);
+    const [isStyleSheetsOpen, setIsStyleSheetsOpen] = useState(false);
+    const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+    const [isThemeModalOpen, setIsThemeModalOpen] = useState(false);
+    const [isFindOpen, setIsFindOpen] = useState(false);
+    const [findState, setFindState] = useState<FindState>({ count: 0, index: -1, error: '', message: '' });
+    // Live ranges of the current search; they follow edits until a re-render replaces the nodes
+    const findMatchesRef = useRef<FindMatch[]>([]);
+    const findQueryRef = useRef<{ query: string; options: FindOptions } | null>(null);
+    const [spellcheckSettings, setSpellcheckSettings] = useState<SpellcheckSettings>(DEFAULT_SPELLCHECK_SETTINGS);
+    const [spellChecker, setSpellChecker] = useState<SpellChecker | null>(null);
+    const [spellcheckError, setSpellcheckError] = useState('');
+    const [spellIssues, setSpellIssues] = useState<SpellIssue[]>([]);
+    const [spellCheckedAt, setSpellCheckedAt] = useState<number | null>(null);
+    // Words and phrases ignored for this session only (the document dictionary is saved)
+    const [ignoredSpelling, setIgnoredSpelling] = useState<string[]>([]);
+    const [installedDictionaries, setInstalledDictionaries] = useState<Array<{ id: string; name: string }>>([]);
+    const [dictionaryRevision, setDictionaryRevision] = useState(0);
+    const [isSpellcheckOpen, setIsSpellcheckOpen] = useState(false);
 
     const [showFrameTools, setShowFrameTools] = useState(false);
     const [isExportModalOpen, setIsExportModalOpen] = useState(false);
@@ -679,6 +514,8 @@ const App: React.FC = () => {
     // --- HISTORY MANAGEMENT (Undo/Redo) ---
 
     const latestDocStateRef = useRef(docState);
+    const autosaveSessionIdRef = useRef(createSessionId());
+    const latestSnapshotIdRef = useRef('');
 
     useEffect(() => {
         latestDocStateRef.current = docState;
@@ -694,81 +531,118 @@ const App: React.FC = () => {
 
     useEffect(() => {
         const cleanup = initAutoLog({
-            getContext: () => ({ fileName: latestDocStateRef.current?.fileName })
+            getContext: () => ({
+                fileName: latestDocStateRef.current?.fileName,
+                snapshotId: latestSnapshotIdRef.current
+            })
         });
         return () => {
             cleanup();
         };
     }, []);
 
-    const resetHistory = useCallback((nextState: DocumentState) => {
+    const resetHistory = useCallback((nextState: DocumentState, label: string) => {
         if (debounceTimeoutRef.current) {
             clearTimeout(debounceTimeoutRef.current);
         }
-        setHistory([nextState]);
-        historyRef.current = [nextState];
+        pendingTypingRef.current = null;
+        const entries = [createHistoryEntry(nextState, label, null)];
+        setHistory(entries);
+        historyRef.current = entries;
         setHistoryIndex(0);
         historyIndexRef.current = 0;
     }, []);
 
-    const pushHistoryState = useCallback((newState: DocumentState, options?: { skipIfSameHtml?: string }) => {
-        setHistory(prevHistory => {
-            const baseIndex = Math.min(historyIndexRef.current, prevHistory.length - 1);
-            const newHistory = prevHistory.slice(0, baseIndex + 1);
-            if (options?.skipIfSameHtml) {
-                const last = newHistory[newHistory.length - 1];
-                if (last && last.htmlContent === options.skipIfSameHtml) {
-                    return prevHistory;
-                }
-            }
-            newHistory.push(newState);
-            if (newHistory.length > 50) newHistory.shift();
-            const newIndex = newHistory.length - 1;
-            historyIndexRef.current = newIndex;
-            historyRef.current = newHistory;
-            setHistoryIndex(newIndex);
-            return newHistory;
-        });
+    // Where the user is, so that undoing the step brings them back to it
+    const captureHistoryPosition = (): HistoryPosition => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        return {
+            selection: workspace ? getSelectionBookmark(workspace) : null,
+            scrollTop: editorContainerRef.current?.scrollTop ?? 0
+        };
+    };
+
+    const pushHistoryState = useCallback((newState: DocumentState, label: string, options?: { skipIfSameHtml?: string }) => {
+        const entries = historyRef.current;
+        const baseIndex = Math.min(historyIndexRef.current, entries.length - 1);
+        const base = entries[baseIndex] ?? null;
+        if (options?.skipIfSameHtml && base && isSameHtml(base, options.skipIfSameHtml)) {
+            return;
+        }
+        const entry = createHistoryEntry(newState, label, base, captureHistoryPosition());
+        const next = appendHistoryEntry(entries, baseIndex, entry);
+        historyRef.current = next.entries;
+        historyIndexRef.current = next.index;
+        setHistory(next.entries);
+        setHistoryIndex(next.index);
     }, []);
 
-    // Unified function to update state and manage history
-    const updateDocState = (newState: DocumentState, saveToHistory: boolean = false) => {
+    // Unified function to update state and manage history; pass a label ("Insert TOC") to save a step
+    const updateDocState = (newState: DocumentState, historyLabel: string | false = false) => {
         setDocState(newState);
 
-        if (saveToHistory) {
+        if (historyLabel) {
             // Clear any pending debounce since we are forcing a save
             if (debounceTimeoutRef.current) {
                 clearTimeout(debounceTimeoutRef.current);
             }
-            pushHistoryState(newState);
+            pendingTypingRef.current = null;
+            pushHistoryState(newState, historyLabel);
         }
     };
 
+    // Saves typing still waiting for its debounce, so undo starts from what is on screen
+    const flushPendingHistory = () => {
+        const pending = pendingTypingRef.current;
+        if (!pending) return;
+        if (debounceTimeoutRef.current) {
+            clearTimeout(debounceTimeoutRef.current);
+        }
+        pendingTypingRef.current = null;
+        pushHistoryState(pending, 'Typing', { skipIfSameHtml: pending.htmlContent });
+    };
 
-    const handleUndo = () => {
+    const goToHistoryEntry = (targetIndex: number) => {
+        flushPendingHistory();
+        const entries = historyRef.current;
         const currentIndex = historyIndexRef.current;
-        if (currentIndex > 0) {
-            const newIndex = currentIndex - 1;
-            historyIndexRef.current = newIndex;
-            setHistoryIndex(newIndex);
-            const nextState = historyRef.current[newIndex];
-            if (nextState) {
-                setDocState(nextState);
+        const target = entries[targetIndex];
+        if (!target || targetIndex === currentIndex) return;
+        historyIndexRef.current = targetIndex;
+        setHistoryIndex(targetIndex);
+        setDocState(entryDocState(target));
+
+        // Undoing returns to where the last undone step was made; redoing, to where the step was made
+        const anchor = targetIndex < currentIndex ? entries[targetIndex + 1] : target;
+        requestAnimationFrame(() => requestAnimationFrame(() => {
+            const container = editorContainerRef.current;
+            if (container) container.scrollTop = anchor.scrollTop;
+            const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+            if (workspace && anchor.selection) {
+                suppressSelectionRef.current = true;
+                restoreSelectionBookmark(workspace, anchor.selection);
+                if (container) container.scrollTop = anchor.scrollTop;
             }
+        }));
+    };
+
+    const handleJumpToHistory = (entryId: number) => {
+        flushPendingHistory();
+        const index = historyRef.current.findIndex(entry => entry.id === entryId);
+        if (index >= 0) goToHistoryEntry(index);
+    };
+
+    const handleUndo = () => {
+        flushPendingHistory();
+        if (historyIndexRef.current > 0) {
+            goToHistoryEntry(historyIndexRef.current - 1);
         }
     };
 
     const handleRedo = () => {
-        const currentIndex = historyIndexRef.current;
-        const maxIndex = historyRef.current.length - 1;
-        if (currentIndex < maxIndex) {
-            const newIndex = currentIndex + 1;
-            historyIndexRef.current = newIndex;
-            setHistoryIndex(newIndex);
-            const nextState = historyRef.current[newIndex];
-            if (nextState) {
-                setDocState(nextState);
-            }
+        flushPendingHistory();
+        if (historyIndexRef.current < historyRef.current.length - 1) {
+            goToHistoryEntry(historyIndexRef.current + 1);
         }
     };
 
@@ -787,14 +661,18 @@ const App: React.FC = () => {
                 e.preventDefault();
                 handleRedo();
             }
+            if ((e.metaKey || e.ctrlKey) && (e.key === 'f' || e.key === 'h')) {
+                e.preventDefault();
+                setIsFindOpen(true);
+            }
         };
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [historyIndex, history]);
 
-    // Helper for text input (debounced history)
-    const handleContentChange = (html: string) => {
+    // Helper for editor changes: labeled ones are saved as a step at once, typing after 1s
+    const handleContentChange = (html: string, historyLabel?: string) => {
         const selection = window.getSelection();
         if (selection && selection.rangeCount > 0) {
             const node = selection.getRangeAt(0).commonAncestorContainer;
@@ -804,6 +682,11 @@ const App: React.FC = () => {
             }
         }
         const newState = { ...docState, htmlContent: html };
+        if (historyLabel) {
+            flushPendingHistory();
+            updateDocState(newState, historyLabel);
+            return;
+        }
         setDocState(newState); // Immediate update for UI
 
         // Debounce history save
@@ -811,15 +694,17 @@ const App: React.FC = () => {
             clearTimeout(debounceTimeoutRef.current);
         }
 
+        pendingTypingRef.current = newState;
         debounceTimeoutRef.current = setTimeout(() => {
-            pushHistoryState(newState, { skipIfSameHtml: html });
+            pendingTypingRef.current = null;
+            pushHistoryState(newState, 'Typing', { skipIfSameHtml: html });
         }, 1000); // Wait 1s after typing stops
     };
 
-    const updateDocStatePreserveScroll = (html: string) => {
+    const updateDocStatePreserveScroll = (html: string, historyLabel: string) => {
         const container = editorContainerRef.current;
         const prevScroll = container ? container.scrollTop : 0;
-        updateDocState({ ...docState, htmlContent: html }, true);
+        updateDocState({ ...docState, htmlContent: html }, historyLabel);
         if (container) {
             requestAnimationFrame(() => {
                 container.scrollTop = prevScroll;
@@ -894,61 +779,417 @@ const App: React.FC = () => {
         };
     }, [docState.htmlContent, isSidebarOpen, selectionMode.active, autoStructureEnabled]);
 
+    // Re-run the flow when the widow/orphan and keep-with-next rules change.
+    useEffect(() => {
+        const workspace = document.querySelector('.editor-workspace');
+        if (workspace) {
+            reflowPagesUntilStable(workspace as HTMLElement, { pullUp: true, rules: paginationRules });
+        }
+    }, [paginationRules]);
+
+    // Master pages and page fields are drawn into the live pages: refresh after edits, after
+    // every reflow pass that moved content and when a master, the Structure or the numbering
+    // changes. Debounced, so a reflow cascade refreshes once.
+    const runningFieldsTimeoutRef = useRef<number | null>(null);
+    const refreshRunningFieldsRef = useRef<() => void>(() => undefined);
+    const scheduleRunningFieldsRefresh = useCallback(() => {
+        if (runningFieldsTimeoutRef.current) window.clearTimeout(runningFieldsTimeoutRef.current);
+        runningFieldsTimeoutRef.current = window.setTimeout(() => {
+            runningFieldsTimeoutRef.current = null;
+            refreshRunningFieldsRef.current();
+        }, 300);
+    }, []);
+
+    useEffect(() => {
+        scheduleRunningFieldsRefresh();
+    }, [docState.htmlContent, docState.fileName, pageCount, masterPages, structureEntries, pageNumberSettings, isPageNumberModalOpen, scheduleRunningFieldsRefresh]);
+
+    useEffect(() => {
+        const removeListener = addReflowListener(editor => {
+            if (editor === document.querySelector('.editor-workspace')) scheduleRunningFieldsRefresh();
+        });
+        return () => {
+            removeListener();
+            if (runningFieldsTimeoutRef.current) window.clearTimeout(runningFieldsTimeoutRef.current);
+        };
+    }, [scheduleRunningFieldsRefresh]);
+
+    const handleSavePaginationRules = (rules: PaginationRules) => {
+        setPaginationRules(rules);
+        setIsPaginationModalOpen(false);
+    };
+
+    // --- PROJECT FILES (.iwp) ---
+
+    const collectProjectSettings = (): ProjectSettings => ({
+        pageFormatId,
+        customPageSize,
+        pageMargins,
+        mirrorMargins,
+        bleed,
+        structureEntries,
+        savedHeadingStyles,
+        manualHeadingSignatures,
+        tocSettings,
+        pageNumberSettings,
+        paginationRules,
+        gutterMode,
+        masterPages,
+        namedStyles,
+        theme,
+        spellcheck: spellcheckSettings
+    });
+
+    const applyProjectSettings = (settings: ProjectSettings) => {
+        setPageFormatId(settings.pageFormatId);
+        setCustomPageSize(settings.customPageSize);
+        setPageMargins(settings.pageMargins);
+        setMirrorMargins(settings.mirrorMargins ?? false);
+        setBleed(settings.bleed ?? 0);
+        setStructureEntries(settings.structureEntries);
+        setSavedHeadingStyles(settings.savedHeadingStyles);
+        setManualHeadingSignatures(settings.manualHeadingSignatures);
+        setManualHeadingCounts({
+            h1: settings.structureEntries.filter(entry => entry.type === 'h1' && entry.status === 'approved').length,
+            h2: settings.structureEntries.filter(entry => entry.type === 'h2' && entry.status === 'approved').length,
+            h3: settings.structureEntries.filter(entry => entry.type === 'h3' && entry.status === 'approved').length
+        });
+        setTocSettings(settings.tocSettings);
+        setPageNumberSettings(settings.pageNumberSettings);
+        // Autosave snapshots written before the rules existed don't carry them
+        setPaginationRules(settings.paginationRules ?? DEFAULT_PAGINATION_RULES);
+        setGutterMode(settings.gutterMode ?? 'warn');
+        setMasterPages(settings.masterPages ?? DEFAULT_MASTER_PAGES);
+        setNamedStyles(settings.namedStyles ?? DEFAULT_NAMED_STYLES);
+        setTheme(settings.theme ?? DEFAULT_THEME);
+        setSpellcheckSettings(settings.spellcheck ?? DEFAULT_SPELLCHECK_SETTINGS);
+        setIgnoredSpelling([]);
+        lastGutterRangeRef.current = null;
+        dismissedGutterRangeRef.current = null;
+
+        // The footer/header reserves live on the workspace element, not in the saved HTML.
+        requestAnimationFrame(() => {
+            const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+            if (!workspace) return;
+            const numbers = settings.pageNumberSettings;
+            if (numbers) {
+                const positions = getNumberingSections(numbers).map(section => section.position);
+                applyPageNumberReserves(workspace, numbers.fontSize, positions, numbers.margin, settings.pageMargins);
+            } else {
+                workspace.style.setProperty('--footer-reserve', '0in');
+                workspace.style.setProperty('--header-reserve', '0in');
+            }
+        });
+    };
+
+    const restoreSession = (nextDocState: DocumentState, settings: ProjectSettings) => {
+        applyProjectSettings(settings);
+        updateDocState(nextDocState, 'Restore session');
+    };
+
+    const openProjectFile = async (file: File) => {
+        try {
+            const bundle = await readProjectBundle(await file.arrayBuffer());
+            await Promise.all(bundle.fonts.map(font => {
+                saveFontToDb(font);
+                return registerCustomFont(font).catch(() => undefined);
+            }));
+            restoreSession(bundle.docState, bundle.settings);
+        } catch (err) {
+            console.error(err);
+            alert(err instanceof Error ? err.message : 'Unable to open the project file.');
+        }
+    };
+
+    // --- AUTOSAVE & RECOVERY ---
+
+    const projectSettingsRef = useRef<ProjectSettings>(collectProjectSettings());
+    projectSettingsRef.current = collectProjectSettings();
+    const lastAutosaveKeyRef = useRef('');
+    const autosaveInFlightRef = useRef(false);
+    const lastProjectSaveRef = useRef(0);
+
+    const getAutosaveKey = (state: DocumentState, settings: ProjectSettings) => {
+        return `${state.fileName}\n${state.cssContent}\n${state.htmlContent}\n${JSON.stringify(settings)}`;
+    };
+
+    const runAutosave = useCallback(async (reason: AutosaveReason) => {
+        if (autosaveInFlightRef.current) return;
+        const state = latestDocStateRef.current;
+        const settings = projectSettingsRef.current;
+        const key = getAutosaveKey(state, settings);
+        if (key === lastAutosaveKeyRef.current) return;
+
+        autosaveInFlightRef.current = true;
+        try {
+            const snapshot = await saveSnapshot({
+                sessionId: autosaveSessionIdRef.current,
+                reason,
+                docState: state,
+                settings
+            });
+            if (snapshot) {
+                lastAutosaveKeyRef.current = key;
+                latestSnapshotIdRef.current = snapshot.id;
+            }
+        } finally {
+            autosaveInFlightRef.current = false;
+        }
+    }, []);
+
+    useEffect(() => {
+        // The untouched start-up document is not worth a snapshot
+        lastAutosaveKeyRef.current = getAutosaveKey(latestDocStateRef.current, projectSettingsRef.current);
+
+        listSnapshots().then(snapshots => {
+            const recoverable = getRecoverableSnapshots(snapshots, autosaveSessionIdRef.current);
+            if (recoverable.length > 0) {
+                setRecoverySnapshots(recoverable);
+                setIsRecoveryModalOpen(true);
+            }
+        });
+
+        const timer = window.setInterval(() => {
+            runAutosave('interval');
+        }, AUTOSAVE_INTERVAL_MS);
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') runAutosave('hidden');
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        // Quitting the desktop window is the only clean exit: what was saved as a project needs
+        // no prompt, later edits get a last snapshot. A reload or a closed browser tab records nothing.
+        const closeListener = isTauri()
+            ? getCurrentWindow().onCloseRequested(async () => {
+                await runAutosave('hidden');
+                markSessionsClosed([autosaveSessionIdRef.current], lastProjectSaveRef.current);
+            }).catch(() => null)
+            : null;
+        return () => {
+            window.clearInterval(timer);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            closeListener?.then(unlisten => unlisten?.());
+        };
+    }, [runAutosave]);
+
+    // Once offered, the snapshots of an earlier session stay in Settings > Recover autosave
+    // but no longer open the prompt at start-up
+    const closeRecovery = () => {
+        markSessionsClosed(recoverySnapshots
+            .map(snapshot => snapshot.sessionId)
+            .filter(sessionId => sessionId !== autosaveSessionIdRef.current));
+        setIsRecoveryModalOpen(false);
+    };
+
+    const handleOpenRecovery = async () => {
+        const snapshots = await listSnapshots();
+        if (snapshots.length === 0) {
+            alert('No autosaved snapshots on this device yet.');
+            return;
+        }
+        setRecoverySnapshots(snapshots);
+        setIsRecoveryModalOpen(true);
+    };
+
+    const handleRestoreSnapshot = (snapshot: AutosaveSnapshot) => {
+        closeRecovery();
+        restoreSession(snapshot.docState, snapshot.settings);
+    };
+
+    const handleRestoreSnapshotById = async (snapshotId: string) => {
+        const snapshot = await getSnapshot(snapshotId);
+        if (!snapshot) {
+            alert('That snapshot is no longer available.');
+            return;
+        }
+        setIsAutoLogModalOpen(false);
+        handleRestoreSnapshot(snapshot);
+    };
+
+    const handleDiscardSnapshots = async () => {
+        await deleteSnapshots(recoverySnapshots.map(snapshot => snapshot.id));
+        closeRecovery();
+        setRecoverySnapshots([]);
+    };
+
+    // Splits freshly imported content over correctly sized pages once fonts are ready, rebuilds
+    // the Structure entries from approved headings and saves the result as one history step.
+    const paginateImportedDocument = (newState: DocumentState, beforeSave?: (workspace: HTMLElement) => void) => {
+        const finalizeImport = () => {
+            const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+            if (!workspace) {
+                updateDocState(newState, 'Import document');
+                return;
+            }
+            const changed = ensureContentIsPaginated(workspace);
+            const pages = Array.from(workspace.querySelectorAll('.page')) as HTMLElement[];
+            pages.forEach(page => {
+                // Remove legacy data-page-break attribute from page divs
+                // (these come from old HTML imports with CSS page-break rules).
+                page.removeAttribute('data-page-break');
+                // Remove data-user-page-break from the PAGE DIV itself
+                // (the pullUp logic only checks child elements via getPageBreakMarker).
+                // But DO NOT remove the hidden child marker divs — those represent
+                // user-intentional page breaks that must be preserved across save/reopen.
+                page.removeAttribute('data-user-page-break');
+                unwrapSingleContainer(page);
+                fixClippedContainers(page);
+            });
+            // Use reflowPagesUntilStable for full convergence, not single pass.
+            // Use onDone callback because reflowPagesUntilStable is async (uses rAF).
+            reflowPagesUntilStable(workspace, {
+                rules: paginationRulesRef.current,
+                onDone: () => {
+                    // Rebuild structure entries from saved data-structure-status attributes
+                    const rebuiltEntries: StructureEntry[] = [];
+                    const allPages = Array.from(workspace!.querySelectorAll('.page'));
+                    workspace!.querySelectorAll('[data-structure-status="approved"]').forEach(el => {
+                        const htmlEl = el as HTMLElement;
+                        const tag = htmlEl.tagName.toLowerCase();
+                        if (!['h1', 'h2', 'h3'].includes(tag)) return;
+
+                        const elId = htmlEl.id || `struct-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+                        if (!htmlEl.id) htmlEl.id = elId;
+
+                        const page = htmlEl.closest('.page');
+                        let pageNum = 1;
+                        allPages.forEach((p, idx) => { if (p === page) pageNum = idx + 1; });
+
+                        rebuiltEntries.push({
+                            id: elId,
+                            elementId: elId,
+                            text: htmlEl.innerText.substring(0, 50),
+                            page: pageNum,
+                            type: tag,
+                            status: 'approved'
+                        });
+                    });
+
+                    if (rebuiltEntries.length > 0) {
+                        setStructureEntries(rebuiltEntries);
+                    }
+
+                    beforeSave?.(workspace!);
+                    updateDocState({ ...newState, htmlContent: workspace!.innerHTML }, 'Import document');
+                }
+            });
+        };
+
+        const fontReady = (document.fonts && document.fonts.ready) ? document.fonts.ready : Promise.resolve();
+        fontReady.then(() => {
+            requestAnimationFrame(() => {
+                window.setTimeout(finalizeImport, 0);
+            });
+        });
+    };
+
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = Array.from(e.target.files || []) as File[];
         if (files.length === 0) return;
 
+        // 0. Native project bundles restore the whole session, not just the markup
+        const projectFile = files.find(f => isProjectFileName(f.name));
+        if (projectFile) {
+            e.target.value = '';
+            await openProjectFile(projectFile);
+            return;
+        }
+
         // 1. Find the main document file
-        const docFile = files.find(f => f.name.endsWith('.html') || f.name.endsWith('.htm') || f.name.endsWith('.docx'));
+        const docFile = files.find(f => f.name.endsWith('.html') || f.name.endsWith('.htm') || f.name.endsWith('.docx') || isMarkdownFileName(f.name));
         if (!docFile) {
-            alert("Please select an HTML or DOCX file.");
+            alert("Please select an HTML, DOCX, Markdown or project (.iwp) file.");
             return;
         }
 
-        // 2. Process based on type
-        if (docFile.name.endsWith('.docx')) {
-            // ... (Existing Mammoth Logic)
+        // Companion images (Markdown and HTML link them by file name): filename -> DataURL
+        const imageMap = new Map<string, string>();
+        const imageFiles = files.filter(f => f.type.startsWith('image/'));
+
+        await Promise.all(imageFiles.map(file => new Promise<void>((resolve) => {
             const reader = new FileReader();
-            reader.onload = (event) => {
-                const arrayBuffer = event.target?.result as ArrayBuffer;
-                if (arrayBuffer) {
-                    // @ts-ignore
-                    if (window.mammoth) {
-                        // @ts-ignore
-                        window.mammoth.convertToHtml({ arrayBuffer: arrayBuffer })
-                            .then((result: any) => {
-                                const html = result.value;
-                                const bodyContent = `<div class="page">${html}</div>`;
-                                const newState = {
-                                    htmlContent: bodyContent,
-                                    cssContent: DEFAULT_CSS,
-                                    fileName: docFile.name
-                                };
-                                updateDocState(newState, true);
-                            })
-                            .catch((err: any) => { console.error(err); alert("Error converting Word document."); });
-                    }
+            reader.onload = (evt) => {
+                if (evt.target?.result) {
+                    imageMap.set(file.name, evt.target.result as string);
                 }
+                resolve();
             };
-            reader.readAsArrayBuffer(docFile);
+            reader.readAsDataURL(file);
+        })));
+
+        // 2. Process based on type
+        if (docFile.name.endsWith('.docx')) {
+            let imported: DocxImportResult;
+            try {
+                imported = await importDocx(await docFile.arrayBuffer());
+            } catch (err) {
+                console.error(err);
+                alert("Error converting Word document.");
+                return;
+            }
+
+            const activeFormat = Object.values(PAGE_FORMATS).find(f => f.id === pageFormatId);
+            const targetSize = imported.pageSize || (pageFormatId === 'custom'
+                ? customPageSize
+                : { width: activeFormat?.width || '8.5in', height: activeFormat?.height || '11in' });
+            const margins = imported.margins || pageMargins;
+            const mirrored = imported.pageSize ? imported.mirrored : mirrorMargins;
+
+            if (imported.pageSize) {
+                // Prefer a named format (KDP trims included) when Word's page matches one
+                const width = lengthInInches(targetSize.width, 8.5);
+                const height = lengthInInches(targetSize.height, 11);
+                const matching = Object.values(PAGE_FORMATS).find(f => f.id !== 'custom'
+                    && Math.abs(lengthInInches(f.width, 0) - width) < 0.02
+                    && Math.abs(lengthInInches(f.height, 0) - height) < 0.02);
+                setPageFormatId(matching ? matching.id : 'custom');
+                if (!matching) setCustomPageSize(targetSize);
+                setPageMargins(margins);
+                setMirrorMargins(mirrored);
+            }
+            setSavedHeadingStyles(prev => ({ ...prev, ...imported.headingStyles }));
+
+            let finalCss = `${DEFAULT_CSS}\n${scopeImportedCss(imported.css, '.editor-workspace')}`.trim();
+            finalCss = applyLayoutOverride(finalCss, targetSize.width, targetSize.height, margins, { mirrored, bleed });
+
+            const newState = {
+                htmlContent: imported.html,
+                cssContent: finalCss,
+                fileName: docFile.name
+            };
+            updateDocState(newState, false);
+
+            const numbers = imported.pageNumbers;
+            paginateImportedDocument(newState, () => {
+                if (!numbers) return;
+                updatePageNumbers({ ...numbers }, margins);
+                setPageNumberSettings({ ...numbers });
+            });
+
+            if (imported.warnings.length > 0) {
+                alert(imported.warnings.join('\n'));
+            }
+        }
+        else if (isMarkdownFileName(docFile.name)) {
+            const html = markdownToHtml(await docFile.text(), imageMap);
+
+            const activeFormat = Object.values(PAGE_FORMATS).find(f => f.id === pageFormatId);
+            const targetSize = pageFormatId === 'custom'
+                ? customPageSize
+                : { width: activeFormat?.width || '8.5in', height: activeFormat?.height || '11in' };
+            const finalCss = applyLayoutOverride(DEFAULT_CSS.trim(), targetSize.width, targetSize.height, pageMargins, { mirrored: mirrorMargins, bleed });
+
+            const newState = {
+                htmlContent: html,
+                cssContent: finalCss,
+                fileName: docFile.name
+            };
+            updateDocState(newState, false);
+            paginateImportedDocument(newState);
         }
         else {
             // 3. HTML Handling with "Smart Asset Linking"
 
-            // A. Load all companion images into a map: filename -> DataURL
-            const imageMap = new Map<string, string>();
-            const imageFiles = files.filter(f => f.type.startsWith('image/'));
-
-            await Promise.all(imageFiles.map(file => new Promise<void>((resolve) => {
-                const reader = new FileReader();
-                reader.onload = (evt) => {
-                    if (evt.target?.result) {
-                        imageMap.set(file.name, evt.target.result as string);
-                    }
-                    resolve();
-                };
-                reader.readAsDataURL(file);
-            })));
+            // A. Companion images were loaded above (filename -> DataURL)
 
             // B. Load any companion CSS files: filename -> CSS text
             const cssMap = new Map<string, string>();
@@ -965,115 +1206,22 @@ const App: React.FC = () => {
                 reader.readAsText(file);
             })));
 
-            // C. Read and parse HTML
+            // C. Read and parse HTML (CSS collection, image linking, width cleanup)
             const reader = new FileReader();
             reader.onload = (event) => {
                 const text = event.target?.result as string;
                 if (text) {
-                    const parser = new DOMParser();
-                    const doc = parser.parseFromString(text, 'text/html');
-
-                    // Extract and Clean CSS (inline <style>)
-                    const styleTags = doc.querySelectorAll('style');
-                    let inlineCss = '';
-                    styleTags.forEach(tag => {
-                        const css = tag.innerHTML;
-                        inlineCss += css + '\n';
-                        tag.remove();
-                    });
-
-                    // Extract linked CSS <link rel="stylesheet">
-                    const linkTags = Array.from(doc.querySelectorAll('link[rel="stylesheet"]')) as HTMLLinkElement[];
-                    let linkedCss = '';
-                    linkTags.forEach(link => {
-                        const href = link.getAttribute('href') || '';
-                        const rawFilename = href.split(/[\\/]/).pop();
-                        const decodedFilename = rawFilename ? decodeURIComponent(rawFilename) : '';
-
-                        if (decodedFilename && cssMap.has(decodedFilename)) {
-                            linkedCss += (cssMap.get(decodedFilename) || '') + '\n';
-                            link.remove();
-                            return;
-                        }
-
-                        if (href.startsWith('http://') || href.startsWith('https://') || href.startsWith('//')) {
-                            linkedCss += `@import url("${href}");\n`;
-                            link.remove();
-                        }
-                    });
-
-                    // D. Auto-link Images
-                    const images = doc.querySelectorAll('img');
-                    let linkedCount = 0;
-                    images.forEach(img => {
-                        const src = img.getAttribute('src');
-                        if (src) {
-                            // Extract just the filename from path (e.g., /Users/me/img.png -> img.png)
-                            // Handle both forward and backslashes
-                            const rawFilename = src.split(/[\\/]/).pop();
-                            // Also try decoding URI (e.g. Screenshot%20(7).png)
-                            const decodedFilename = rawFilename ? decodeURIComponent(rawFilename) : '';
-
-                            if (decodedFilename && imageMap.has(decodedFilename)) {
-                                img.src = imageMap.get(decodedFilename)!;
-                                linkedCount++;
-                            }
-                        }
-                    });
-
-                    // E. Sanitize fixed widths that cause margin overflow
-                    doc.body.querySelectorAll('*').forEach(el => {
-                        const htmlEl = el as HTMLElement;
-                        // Avoid stripping widths from small structural elements if they are reasonable,
-                        // but generally we want imported text/div boxes to reflow.
-                        if (htmlEl.style.width && htmlEl.style.width.includes('px')) {
-                            const w = parseFloat(htmlEl.style.width);
-                            if (w > 500) { // If it's a huge hardcoded width, it'll break our pages
-                                htmlEl.style.maxWidth = '100%';
-                                htmlEl.style.width = 'auto'; // Let it reflow
-                            }
-                        }
-
-                        // Sanitize non-breaking whitespaces that force text overflow
-                        if (htmlEl.style.whiteSpace === 'nowrap' || htmlEl.style.whiteSpace === 'pre') {
-                            htmlEl.style.whiteSpace = 'normal';
-                        }
-
-                        // Remove hardcoded min-widths on text spans which prevent wrapping
-                        if (htmlEl.style.minWidth && (htmlEl.tagName === 'SPAN' || htmlEl.tagName === 'P' || htmlEl.tagName === 'DIV')) {
-                            htmlEl.style.minWidth = '';
-                        }
-                    });
-
-                    let bodyContent = doc.body.innerHTML;
-
-                    // Wrap in page if needed
-                    const tempDiv = document.createElement('div');
-                    tempDiv.innerHTML = bodyContent;
-
-                    // Only remove contenteditable="false" attributes that block editing
-                    tempDiv.querySelectorAll('[contenteditable="false"]').forEach(el => {
-                        el.removeAttribute('contenteditable');
-                    });
-
-                    bodyContent = tempDiv.innerHTML;
-
-                    if (!tempDiv.querySelector('.page')) {
-                        bodyContent = `<div class="page">${bodyContent}</div>`;
-                    }
-
-                    const rawImportedCss = `${linkedCss}\n${inlineCss}`.trim();
-                    const detectedSize = detectPageSizeFromElement(tempDiv.querySelector('.page'))
-                        || detectPageSizeFromCss(rawImportedCss);
+                    const imported = parseHtmlImport(text, { images: imageMap, stylesheets: cssMap });
+                    const detectedSize = imported.pageSize;
                     const activeFormat = Object.values(PAGE_FORMATS).find(f => f.id === pageFormatId);
                     const fallbackSize = pageFormatId === 'custom'
                         ? customPageSize
                         : { width: activeFormat?.width || '8.5in', height: activeFormat?.height || '11in' };
                     const targetSize = detectedSize || fallbackSize;
 
-                    const scopedImportedCss = scopeImportedCss(rawImportedCss, '.editor-workspace');
+                    const scopedImportedCss = scopeImportedCss(imported.css, '.editor-workspace');
                     let finalCss = `${DEFAULT_CSS}\n${scopedImportedCss}`.trim();
-                    finalCss = applyLayoutOverride(finalCss, targetSize.width, targetSize.height, pageMargins);
+                    finalCss = applyLayoutOverride(finalCss, targetSize.width, targetSize.height, pageMargins, { mirrored: mirrorMargins, bleed });
 
                     if (detectedSize) {
                         setPageFormatId('custom');
@@ -1081,81 +1229,18 @@ const App: React.FC = () => {
                     }
 
                     const newState = {
-                        htmlContent: bodyContent,
+                        htmlContent: imported.html,
                         cssContent: finalCss,
                         fileName: docFile.name
                     };
 
                     updateDocState(newState, false);
 
-                    const finalizeImport = () => {
-                        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
-                        if (!workspace) {
-                            updateDocState(newState, true);
-                            return;
-                        }
-                        const changed = ensureContentIsPaginated(workspace);
-                        const pages = Array.from(workspace.querySelectorAll('.page')) as HTMLElement[];
-                        pages.forEach(page => {
-                            // Remove legacy data-page-break attribute from page divs
-                            // (these come from old HTML imports with CSS page-break rules).
-                            page.removeAttribute('data-page-break');
-                            // Remove data-user-page-break from the PAGE DIV itself
-                            // (the pullUp logic only checks child elements via getPageBreakMarker).
-                            // But DO NOT remove the hidden child marker divs — those represent
-                            // user-intentional page breaks that must be preserved across save/reopen.
-                            page.removeAttribute('data-user-page-break');
-                            unwrapSingleContainer(page);
-                            fixClippedContainers(page);
-                        });
-                        // Use reflowPagesUntilStable for full convergence, not single pass.
-                        // Use onDone callback because reflowPagesUntilStable is async (uses rAF).
-                        reflowPagesUntilStable(workspace, {
-                            onDone: () => {
-                                // Rebuild structure entries from saved data-structure-status attributes
-                                const rebuiltEntries: StructureEntry[] = [];
-                                const allPages = Array.from(workspace!.querySelectorAll('.page'));
-                                workspace!.querySelectorAll('[data-structure-status="approved"]').forEach(el => {
-                                    const htmlEl = el as HTMLElement;
-                                    const tag = htmlEl.tagName.toLowerCase();
-                                    if (!['h1', 'h2', 'h3'].includes(tag)) return;
-
-                                    const elId = htmlEl.id || `struct-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
-                                    if (!htmlEl.id) htmlEl.id = elId;
-
-                                    const page = htmlEl.closest('.page');
-                                    let pageNum = 1;
-                                    allPages.forEach((p, idx) => { if (p === page) pageNum = idx + 1; });
-
-                                    rebuiltEntries.push({
-                                        id: elId,
-                                        elementId: elId,
-                                        text: htmlEl.innerText.substring(0, 50),
-                                        page: pageNum,
-                                        type: tag,
-                                        status: 'approved'
-                                    });
-                                });
-
-                                if (rebuiltEntries.length > 0) {
-                                    setStructureEntries(rebuiltEntries);
-                                }
-
-                                updateDocState({ ...newState, htmlContent: workspace!.innerHTML }, true);
-                            }
-                        });
-                    };
-
-                    const fontReady = (document.fonts && document.fonts.ready) ? document.fonts.ready : Promise.resolve();
-                    fontReady.then(() => {
-                        requestAnimationFrame(() => {
-                            window.setTimeout(finalizeImport, 0);
-                        });
-                    });
+                    paginateImportedDocument(newState);
 
                     if (imageFiles.length > 0) {
-                        if (linkedCount > 0) {
-                            console.log(`Linked ${linkedCount} images from selection.`);
+                        if (imported.linkedImages > 0) {
+                            console.log(`Linked ${imported.linkedImages} images from selection.`);
                         } else {
                             // If user selected images but none matched, warn them
                             alert("Images were selected but didn't match the filenames in the HTML. Please ensure filenames (e.g., 'image.png') match exactly.");
@@ -1503,7 +1588,7 @@ const App: React.FC = () => {
 
         const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
         if (workspace) {
-            updateDocStatePreserveScroll(workspace.innerHTML);
+            updateDocStatePreserveScroll(workspace.innerHTML, 'Paste style');
         }
     };
 
@@ -1535,7 +1620,7 @@ const App: React.FC = () => {
 
         const workspace = document.querySelector('.editor-workspace');
         if (workspace) {
-            updateDocStatePreserveScroll(workspace.innerHTML);
+            updateDocStatePreserveScroll(workspace.innerHTML, 'Paste image style');
         }
 
         if (selectedImage) {
@@ -1578,8 +1663,8 @@ const App: React.FC = () => {
             }
         });
 
-        reflowPages(workspace);
-        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+        reflowPages(workspace, { rules: paginationRulesRef.current });
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Apply AI edits');
     };
 
     const handleAiSend = async () => {
@@ -1727,8 +1812,8 @@ const App: React.FC = () => {
         selection?.removeAllRanges();
         selection?.addRange(range);
 
-        reflowPages(workspace as HTMLElement);
-        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+        reflowPages(workspace as HTMLElement, { rules: paginationRulesRef.current });
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Insert text layer');
         handleTextLayerSelect(textLayer);
     };
 
@@ -1970,7 +2055,7 @@ const App: React.FC = () => {
 
         const workspace = document.querySelector('.editor-workspace');
         if (workspace) {
-            updateDocStatePreserveScroll(workspace.innerHTML);
+            updateDocStatePreserveScroll(workspace.innerHTML, 'Distribute objects');
         }
     };
 
@@ -2064,7 +2149,7 @@ const App: React.FC = () => {
 
         const workspace = document.querySelector('.editor-workspace');
         if (workspace) {
-            updateDocStatePreserveScroll(workspace.innerHTML);
+            updateDocStatePreserveScroll(workspace.innerHTML, 'Align objects');
         }
     };
 
@@ -2110,7 +2195,7 @@ const App: React.FC = () => {
             const footers = workspace.querySelectorAll('.page-footer');
             footers.forEach(f => f.remove());
             setSelectedFooter(null);
-            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Remove footer');
         }
     };
 
@@ -2126,7 +2211,7 @@ const App: React.FC = () => {
         return true;
     };
 
-    const applyStyleToMultiSelection = (styles: Record<string, string>) => {
+    const applyStyleToMultiSelection = (styles: Record<string, string>, label: string) => {
         if (multiSelectedElements.length === 0) return false;
         multiSelectedElements.forEach(id => {
             const el = document.getElementById(id);
@@ -2137,7 +2222,7 @@ const App: React.FC = () => {
         });
         const workspace = document.querySelector('.editor-workspace');
         if (workspace) {
-            updateDocStatePreserveScroll(workspace.innerHTML);
+            updateDocStatePreserveScroll(workspace.innerHTML, label);
         }
         return true;
     };
@@ -2154,7 +2239,7 @@ const App: React.FC = () => {
 
         const signature = baseSignature || getHeadingStyleSignature(heading);
         applyHeadingStructureToElement(heading, tag);
-        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, `Add ${tag.toUpperCase()} to structure`);
 
         const prevSig = manualHeadingSignatures[tag];
         const prevCount = manualHeadingCounts[tag];
@@ -2191,7 +2276,7 @@ const App: React.FC = () => {
 
         if (multiSelectedElements.length > 0) {
             if (command === 'fontName' && value) {
-                if (applyStyleToMultiSelection({ 'font-family': value })) return;
+                if (applyStyleToMultiSelection({ 'font-family': value }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'fontSize') {
                 const sizeValue = value || '16pt';
@@ -2208,59 +2293,59 @@ const App: React.FC = () => {
                     textTargets.forEach(el => el.style.setProperty('font-size', sizeFinal, 'important'));
                     const workspace = document.querySelector('.editor-workspace');
                     if (workspace) {
-                        updateDocStatePreserveScroll(workspace.innerHTML);
+                        updateDocStatePreserveScroll(workspace.innerHTML, formatHistoryLabel(command, value));
                     }
                     setSelectionState(prev => ({ ...prev, fontSize: sizeValue.replace('pt', '').replace('px', '') }));
                     return;
                 }
             }
             if (command === 'foreColor' && value) {
-                if (applyStyleToMultiSelection({ 'color': value })) return;
+                if (applyStyleToMultiSelection({ 'color': value }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'lineHeight' && value) {
-                if (applyStyleToMultiSelection({ 'line-height': value })) return;
+                if (applyStyleToMultiSelection({ 'line-height': value }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'letterSpacing' && value) {
-                if (applyStyleToMultiSelection({ 'letter-spacing': value })) {
+                if (applyStyleToMultiSelection({ 'letter-spacing': value }, formatHistoryLabel(command, value))) {
                     setSelectionState(prev => ({ ...prev, letterSpacing: value || 'normal' }));
                     return;
                 }
             }
             if (command === 'textTransform' && value) {
-                if (applyStyleToMultiSelection({ 'text-transform': value })) return;
+                if (applyStyleToMultiSelection({ 'text-transform': value }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'bold') {
                 const next = selectionState.bold ? 'normal' : 'bold';
-                if (applyStyleToMultiSelection({ 'font-weight': next })) {
+                if (applyStyleToMultiSelection({ 'font-weight': next }, formatHistoryLabel(command, value))) {
                     setSelectionState(prev => ({ ...prev, bold: !prev.bold }));
                     return;
                 }
             }
             if (command === 'italic') {
                 const next = selectionState.italic ? 'normal' : 'italic';
-                if (applyStyleToMultiSelection({ 'font-style': next })) {
+                if (applyStyleToMultiSelection({ 'font-style': next }, formatHistoryLabel(command, value))) {
                     setSelectionState(prev => ({ ...prev, italic: !prev.italic }));
                     return;
                 }
             }
             if (command === 'underline') {
                 const next = selectionState.underline ? 'none' : 'underline';
-                if (applyStyleToMultiSelection({ 'text-decoration': next })) {
+                if (applyStyleToMultiSelection({ 'text-decoration': next }, formatHistoryLabel(command, value))) {
                     setSelectionState(prev => ({ ...prev, underline: !prev.underline }));
                     return;
                 }
             }
             if (command === 'justifyLeft') {
-                if (applyStyleToMultiSelection({ 'text-align': 'left' })) return;
+                if (applyStyleToMultiSelection({ 'text-align': 'left' }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'justifyCenter') {
-                if (applyStyleToMultiSelection({ 'text-align': 'center' })) return;
+                if (applyStyleToMultiSelection({ 'text-align': 'center' }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'justifyRight') {
-                if (applyStyleToMultiSelection({ 'text-align': 'right' })) return;
+                if (applyStyleToMultiSelection({ 'text-align': 'right' }, formatHistoryLabel(command, value))) return;
             }
             if (command === 'justifyFull') {
-                if (applyStyleToMultiSelection({ 'text-align': 'justify' })) return;
+                if (applyStyleToMultiSelection({ 'text-align': 'justify' }, formatHistoryLabel(command, value))) return;
             }
         }
 
@@ -2316,7 +2401,17 @@ const App: React.FC = () => {
                 }
             });
 
-            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+            // Numbering sections place their numbers on every refresh: keep them in step
+            const footerAlign = ({ justifyLeft: 'left', justifyCenter: 'center', justifyRight: 'right' } as Record<string, 'left' | 'center' | 'right'>)[command];
+            if (footerAlign && pageNumberSettings) {
+                setPageNumberSettings({
+                    ...pageNumberSettings,
+                    align: footerAlign,
+                    sections: pageNumberSettings.sections?.map(section => ({ ...section, align: footerAlign }))
+                });
+            }
+
+            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, formatHistoryLabel(command, value));
             return;
         }
 
@@ -2341,7 +2436,7 @@ const App: React.FC = () => {
                             if (oldStyle) newEl.setAttribute('style', oldStyle);
                             div.replaceWith(newEl);
                         });
-                        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, formatHistoryLabel(command, value));
                         return;
                     }
                 }
@@ -2403,7 +2498,7 @@ const App: React.FC = () => {
                 // Force history update
                 const workspace = document.querySelector('.editor-workspace');
                 if (workspace) {
-                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, formatHistoryLabel(command, value));
                 }
             }
             return;
@@ -2461,7 +2556,7 @@ const App: React.FC = () => {
 
             setSelectionState(prev => ({ ...prev, fontSize: sizeValue.replace('pt', '').replace('px', '') }));
             if (workspace) {
-                updateDocStatePreserveScroll(workspace.innerHTML);
+                updateDocStatePreserveScroll(workspace.innerHTML, formatHistoryLabel(command, value));
             }
             return;
         }
@@ -2486,7 +2581,7 @@ const App: React.FC = () => {
                 selection.addRange(newRange);
 
                 if (workspace) {
-                    updateDocStatePreserveScroll(workspace.innerHTML);
+                    updateDocStatePreserveScroll(workspace.innerHTML, formatHistoryLabel(command, value));
                 }
                 setSelectionState(prev => ({ ...prev, letterSpacing: value || 'normal' }));
                 return;
@@ -2515,7 +2610,7 @@ const App: React.FC = () => {
                 targetBlock.style.letterSpacing = value || 'normal';
                 setSelectionState(prev => ({ ...prev, letterSpacing: value || 'normal' }));
                 if (workspace) {
-                    updateDocStatePreserveScroll(workspace.innerHTML);
+                    updateDocStatePreserveScroll(workspace.innerHTML, formatHistoryLabel(command, value));
                 }
             }
             return;
@@ -2532,7 +2627,7 @@ const App: React.FC = () => {
                     targetBlock.style.textTransform = value || 'none';
                     const workspace = document.querySelector('.editor-workspace');
                     if (workspace) {
-                        updateDocStatePreserveScroll(workspace.innerHTML);
+                        updateDocStatePreserveScroll(workspace.innerHTML, formatHistoryLabel(command, value));
                     }
                     return;
                 }
@@ -2620,7 +2715,7 @@ const App: React.FC = () => {
             // Save state
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
-                updateDocStatePreserveScroll(workspace.innerHTML);
+                updateDocStatePreserveScroll(workspace.innerHTML, formatHistoryLabel(command, value));
             }
         } else if (formatBlockTag) {
             addHeadingToStructure(formatBlockTag, formatBlockSignature || undefined);
@@ -2789,7 +2884,7 @@ const App: React.FC = () => {
 
         if (!styledElement) {
             if (htmlModified && workspace) {
-                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, `Update ${normalizedSelector?.toUpperCase() ?? 'heading'} style`);
             }
             console.log(`[Style] Updated style for ${selector} (shape/HR only)`);
             return;
@@ -2847,7 +2942,7 @@ const App: React.FC = () => {
             ...docState,
             htmlContent: nextHtml,
             cssContent: docState.cssContent + '\n' + newRule
-        }, true);
+        }, `Update ${selector} style`);
 
         console.log(`[Style] Updated style for ${selector}`);
     };
@@ -2897,7 +2992,7 @@ const App: React.FC = () => {
                 // Force history update and exit
                 const workspace = document.querySelector('.editor-workspace');
                 if (workspace) {
-                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Change shape style');
                 }
                 return;
             }
@@ -2975,7 +3070,7 @@ const App: React.FC = () => {
                 // Force history update
                 const workspace = document.querySelector('.editor-workspace');
                 if (workspace) {
-                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Wrap in box');
                 }
                 return;
             }
@@ -3035,7 +3130,7 @@ const App: React.FC = () => {
 
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
-                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Align shape');
             }
 
             delete pendingStyles.textAlign;
@@ -3115,7 +3210,7 @@ const App: React.FC = () => {
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
                 const newState = { ...docState, htmlContent: workspace.innerHTML };
-                updateDocState(newState, true);
+                updateDocState(newState, 'Change block style');
             }
         }, 500);
     };
@@ -3125,9 +3220,8 @@ const App: React.FC = () => {
         const editor = document.querySelector('.editor-workspace') as HTMLElement;
         editor?.focus();
 
-        // Insert an explicitly styled HR to avoid it being invisible due to default CSS
-        const hrHtml = '<hr style="width: 100%; border-top: 2px solid #000; border-bottom: none; border-left: none; border-right: none; height: 0px; background-color: transparent; margin: 20px auto;" />';
-        document.execCommand('insertHTML', false, hrHtml);
+        // Insert an explicitly styled HR in the theme's default look, so it is never invisible
+        document.execCommand('insertHTML', false, themedRuleHtml(theme));
         // History saved by content change debounce
     };
 
@@ -3192,8 +3286,8 @@ const App: React.FC = () => {
                 selection.addRange(rangeNew);
                 const workspace = document.querySelector('.editor-workspace');
                 if (workspace) {
-                    try { reflowPages(workspace as HTMLElement); } catch (e) { /* non-fatal */ }
-                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                    try { reflowPages(workspace as HTMLElement, { rules: paginationRulesRef.current }); } catch (e) { /* non-fatal */ }
+                    updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Insert page break');
                 }
                 return;
             }
@@ -3344,11 +3438,11 @@ const App: React.FC = () => {
         const workspace = document.querySelector('.editor-workspace');
         if (workspace) {
             try {
-                reflowPages(workspace as HTMLElement);
+                reflowPages(workspace as HTMLElement, { rules: paginationRulesRef.current });
             } catch (e) {
                 console.warn('[handlePageBreak] reflowPages error (non-fatal):', e);
             }
-            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Insert page break');
         }
     };
 
@@ -3358,6 +3452,7 @@ const App: React.FC = () => {
         if (!workspace) return;
 
         const tocId = `toc-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+        setTocSettings(settings);
 
         const tocEntries: TOCEntry[] = [];
         const include = {
@@ -3410,6 +3505,7 @@ const App: React.FC = () => {
         }
 
         tocEntries.sort((a, b) => a.page - b.page);
+        const pageLabels = getTocPageLabels(Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[]);
 
         const tocBg = settings.style === 'modern' ? '#f8f9fa' : 'transparent';
         const leaderStyle = settings.style === 'dotted'
@@ -3433,7 +3529,7 @@ const App: React.FC = () => {
                     </a>
                 </span>
                 <span class="toc-leader-cell" aria-hidden="true" style="${leaderStyle}"></span>
-                <span class="toc-page-cell" style="flex:0 0 auto; min-width:4ch; text-align:right; white-space:nowrap; padding-left:8px; background:${tocBg};">${entry.page}</span>
+                <span class="toc-page-cell" style="flex:0 0 auto; min-width:4ch; text-align:right; white-space:nowrap; padding-left:8px; background:${tocBg};">${pageLabels[entry.page - 1] ?? entry.page}</span>
             </div>
           `;
         });
@@ -3462,8 +3558,8 @@ const App: React.FC = () => {
             }
         }
 
-        reflowPages(workspace, { pullUp: true });
-        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+        reflowPages(workspace, { pullUp: true, rules: paginationRulesRef.current });
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Insert TOC');
         setIsTOCModalOpen(false);
     };
 
@@ -3508,6 +3604,7 @@ const App: React.FC = () => {
 
         if (tocEntries.length === 0) return;
         tocEntries.sort((a, b) => a.page - b.page);
+        const pageLabels = getTocPageLabels(Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[]);
 
         const dotSpacingAttr = container.getAttribute('data-toc-dot-spacing');
         const dotSpacing = dotSpacingAttr ? Number(dotSpacingAttr) : 6;
@@ -3531,7 +3628,7 @@ const App: React.FC = () => {
                   </a>
               </span>
               <span class="toc-leader-cell" aria-hidden="true" style="${leaderStyle}"></span>
-              <span class="toc-page-cell" style="flex:0 0 auto; min-width:4ch; text-align:right; white-space:nowrap; padding-left:8px; background:${tocBg};">${entry.page}</span>
+              <span class="toc-page-cell" style="flex:0 0 auto; min-width:4ch; text-align:right; white-space:nowrap; padding-left:8px; background:${tocBg};">${pageLabels[entry.page - 1] ?? entry.page}</span>
           </div>
         `;
         }).join('');
@@ -3552,19 +3649,19 @@ const App: React.FC = () => {
             }
         }
 
-        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Refresh TOC');
     };
 
     const handleRemoveTOC = () => {
         const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
         if (workspace) {
             workspace.querySelectorAll('.toc-container, table.toc-table, table[data-toc-table="true"]').forEach(el => el.remove());
-            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Remove TOC');
         } else {
             const parser = new DOMParser();
             const doc = parser.parseFromString(docState.htmlContent, 'text/html');
             doc.querySelectorAll('.toc-container, table.toc-table, table[data-toc-table="true"]').forEach(el => el.remove());
-            updateDocState({ ...docState, htmlContent: doc.body.innerHTML }, true);
+            updateDocState({ ...docState, htmlContent: doc.body.innerHTML }, 'Remove TOC');
         }
         setIsTOCModalOpen(false);
     };
@@ -3598,44 +3695,94 @@ const App: React.FC = () => {
         });
 
         setPageAnchors(anchors);
+        setIsCurrentPageNumberHidden(Boolean(workspace.querySelectorAll(':scope > .page')[currentPage]?.hasAttribute(HIDE_PAGE_NUMBER_ATTRIBUTE)));
         setIsPageNumberModalOpen(true);
     };
 
-    const updatePageNumbers = (startAnchorId: string, font: string, fontSize: string, position: 'top' | 'bottom', align: 'left' | 'center' | 'right', margin: number) => {
+    // Chapters (h1) and sections (h2) for running heads: the Structure entries, or the document's
+    // own headings while the Structure is still empty.
+    const getRunningHeadings = (workspace: HTMLElement): RunningHeading[] => {
+        const entries = structureEntries.filter(entry => entry.status !== 'rejected');
+        if (entries.length === 0) {
+            return (Array.from(workspace.querySelectorAll('.page h1[id], .page h2[id]')) as HTMLElement[]).map(el => ({
+                elementId: el.id,
+                level: el.tagName === 'H1' ? 1 : 2,
+                text: (el.textContent || '').trim()
+            }));
+        }
+        return entries.flatMap(entry => {
+            const level = ['h1', 'h2'].findIndex(tag => entry.type.includes(tag)) + 1;
+            if (level === 0) return [];
+            const text = entry.text || workspace.querySelector(`#${CSS.escape(entry.elementId)}`)?.textContent || '';
+            return [{ elementId: entry.elementId, level: level as 1 | 2, text: text.trim() }];
+        });
+    };
+
+    // Number of every page under some page number settings (the applied ones by default)
+    const getPageNumbers = (workspace: HTMLElement, pages: HTMLElement[], settings = pageNumberSettings): PageNumber[] => {
+        const chapterIds = new Set(getRunningHeadings(workspace).filter(heading => heading.level === 1).map(heading => heading.elementId));
+        return resolvePageNumbers(pages, getNumberingSections(settings), chapterIds);
+    };
+
+    const getPageFields = (workspace: HTMLElement, pages: HTMLElement[], numbers = getPageNumbers(workspace, pages)) => (
+        computePageFields(pages, {
+            title: docState.fileName.replace(/\.[^.]+$/, ''),
+            headings: getRunningHeadings(workspace),
+            numbers
+        })
+    );
+
+    // TOC page references, formatted like the page numbers
+    const getTocPageLabels = (pages: HTMLElement[]) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        return workspace ? tocPageLabels(getPageNumbers(workspace, pages)) : pages.map((_page, index) => String(index + 1));
+    };
+
+    // Moves a page number to its section's edge and alignment, and records the numbering on it
+    // for exports (DOCX turns each section into a Word section with its own number format).
+    const placePageFooter = (footer: HTMLElement, number: PageNumber, margin: number) => {
+        const section = number.section!;
+        footer.style.textAlign = section.align;
+        if (section.position === 'top') {
+            footer.style.top = `${margin}in`;
+            footer.style.bottom = 'auto';
+        } else {
+            footer.style.bottom = `${margin}in`;
+            footer.style.top = 'auto';
+        }
+
+        if (section.align === 'left') {
+            footer.style.paddingLeft = '0.6in';
+            footer.style.paddingRight = '0';
+        } else if (section.align === 'right') {
+            footer.style.paddingRight = '0.6in';
+            footer.style.paddingLeft = '0';
+        } else {
+            footer.style.padding = '0';
+        }
+
+        footer.setAttribute('data-numbering', section.id);
+        footer.setAttribute('data-number-style', section.style);
+        footer.setAttribute('data-number-value', String(number.value));
+        if (section.prefix) footer.setAttribute('data-number-prefix', section.prefix);
+        else footer.removeAttribute('data-number-prefix');
+    };
+
+    // `hideCurrentPage` (when given) turns the number of the current page off or back on.
+    const updatePageNumbers = (settings: PageNumberSettings, margins = pageMargins, hideCurrentPage?: boolean) => {
         const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
         if (!workspace) return;
 
-        const pages = workspace.querySelectorAll('.page');
-        let startPageIndex = 0;
-
-        if (startAnchorId !== 'DOC_START') {
-            const anchorEl = document.getElementById(startAnchorId);
-            if (anchorEl) {
-                const pageEl = anchorEl.closest('.page');
-                if (pageEl) {
-                    for (let i = 0; i < pages.length; i++) {
-                        if (pages[i] === pageEl) {
-                            startPageIndex = i;
-                            break;
-                        }
-                    }
-                }
-            }
+        const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+        if (hideCurrentPage !== undefined && pages[currentPage]) {
+            pages[currentPage].toggleAttribute(HIDE_PAGE_NUMBER_ATTRIBUTE, hideCurrentPage);
         }
+        const { font, fontSize, margin, format = DEFAULT_PAGE_NUMBER_FORMAT } = settings;
+        const numbers = getPageNumbers(workspace, pages, settings);
+        const fields = getPageFields(workspace, pages, numbers);
 
-        const sizePt = Number.parseFloat(fontSize);
-        const lineHeightPt = (Number.isFinite(sizePt) ? sizePt : 12) * 1.2;
-        const footerHeightIn = lineHeightPt / 72;
-        const bottomGapIn = pageMargins.bottom - margin;
-        const topGapIn = pageMargins.top - margin;
-        const footerReserveIn = position === 'bottom'
-            ? Math.max(0, footerHeightIn - bottomGapIn)
-            : 0;
-        const headerReserveIn = position === 'top'
-            ? Math.max(0, footerHeightIn - topGapIn)
-            : 0;
-        workspace.style.setProperty('--footer-reserve', `${footerReserveIn}in`);
-        workspace.style.setProperty('--header-reserve', `${headerReserveIn}in`);
+        const positions = getNumberingSections(settings).map(section => section.position);
+        applyPageNumberReserves(workspace, fontSize, positions, margin, margins);
 
         pages.forEach((page, index) => {
             const existingFooter = page.querySelector('.page-footer');
@@ -3643,64 +3790,100 @@ const App: React.FC = () => {
                 existingFooter.remove();
             }
 
-            if (index >= startPageIndex) {
+            if (numbers[index].section && !numbers[index].hidden) {
                 const footer = document.createElement('div');
                 footer.className = 'page-footer';
                 footer.style.fontFamily = font;
                 footer.style.fontSize = `${fontSize}pt`;
-                footer.style.textAlign = align;
                 footer.style.position = 'absolute';
                 footer.style.left = '0';
                 footer.style.width = '100%';
                 footer.style.pointerEvents = 'none';
                 footer.style.zIndex = '10';
+                placePageFooter(footer, numbers[index], margin);
 
-                if (position === 'top') {
-                    footer.style.top = `${margin}in`;
-                    footer.style.bottom = 'auto';
-                } else {
-                    footer.style.bottom = `${margin}in`;
-                    footer.style.top = 'auto';
-                }
-
-                if (align === 'left') {
-                    footer.style.paddingLeft = '0.6in';
-                    footer.style.paddingRight = '0';
-                } else if (align === 'right') {
-                    footer.style.paddingRight = '0.6in';
-                    footer.style.paddingLeft = '0';
-                } else {
-                    footer.style.padding = '0';
-                }
-
-                footer.textContent = (index - startPageIndex + 1).toString();
+                footer.setAttribute(FIELD_TEMPLATE_ATTRIBUTE, format);
+                footer.textContent = resolvePageFields(format, fields[index]);
                 footer.setAttribute('contenteditable', 'false');
                 page.appendChild(footer);
             }
         });
+        refreshTocPageNumbers(workspace, tocPageLabels(numbers));
 
         return workspace.innerHTML;
     };
 
-    const handlePageNumberPreview = (startAnchorId: string, font: string, fontSize: string, position: 'top' | 'bottom', align: 'left' | 'center' | 'right', margin: number) => {
-        const updatedHtml = updatePageNumbers(startAnchorId, font, fontSize, position, align, margin);
+    const handlePageNumberPreview = (settings: PageNumberSettings, hideCurrentPage: boolean) => {
+        const updatedHtml = updatePageNumbers(settings, pageMargins, hideCurrentPage);
         if (updatedHtml) {
             setDocState(prev => ({ ...prev, htmlContent: updatedHtml }));
         }
     };
 
-    const handleInsertPageNumbers = (startAnchorId: string, font: string, fontSize: string, position: 'top' | 'bottom', align: 'left' | 'center' | 'right', margin: number) => {
-        const updatedHtml = updatePageNumbers(startAnchorId, font, fontSize, position, align, margin);
+    const handleInsertPageNumbers = (settings: PageNumberSettings, hideCurrentPage: boolean) => {
+        const updatedHtml = updatePageNumbers(settings, pageMargins, hideCurrentPage);
+        setPageNumberSettings(settings);
         if (updatedHtml) {
-            updateDocState({ ...docState, htmlContent: updatedHtml }, true);
+            updateDocState({ ...docState, htmlContent: updatedHtml }, 'Insert page numbers');
         }
         setIsPageNumberModalOpen(false);
     };
 
-    const updatePageCSS = (width: string, height: string, margins: { top: number, bottom: number, left: number, right: number }) => {
+    // Re-evaluates master pages, page fields, page numbers and TOC page references on the live
+    // pages (see scheduleRunningFieldsRefresh). Pages that gain a number get a copy of an existing
+    // one, so restyled numbers stay restyled; it then moves to its own section's edge.
+    const refreshRunningFields = () => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        // The page number dialog previews its own numbering until it is applied
+        if (!workspace || isPageNumberModalOpen) return;
+        const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+        const numbers = getPageNumbers(workspace, pages);
+        const fields = getPageFields(workspace, pages, numbers);
+        let changed = false;
+
+        const sample = workspace.querySelector(':scope > .page > .page-footer');
+        if (pageNumberSettings && sample) {
+            // Numbers inserted before formats existed count like "{page}"
+            workspace.querySelectorAll(`:scope > .page > .page-footer:not([${FIELD_TEMPLATE_ATTRIBUTE}])`).forEach(footer => {
+                footer.setAttribute(FIELD_TEMPLATE_ATTRIBUTE, DEFAULT_PAGE_NUMBER_FORMAT);
+            });
+            pages.forEach((page, index) => {
+                const number = numbers[index];
+                let footer = page.querySelector(':scope > .page-footer') as HTMLElement | null;
+                if (!number.section || number.hidden) {
+                    if (footer) {
+                        footer.remove();
+                        changed = true;
+                    }
+                    return;
+                }
+                if (!footer) {
+                    footer = page.appendChild(sample.cloneNode(true)) as HTMLElement;
+                    changed = true;
+                }
+                const before = footer.outerHTML;
+                placePageFooter(footer, number, pageNumberSettings.margin);
+                if (footer.outerHTML !== before) changed = true;
+            });
+        }
+
+        if (syncMasterPages(workspace, masterPages, fields)) changed = true;
+        if (refreshFieldElements(pages, fields)) changed = true;
+        if (refreshTocPageNumbers(workspace, tocPageLabels(numbers))) changed = true;
+        if (changed) updateDocState({ ...latestDocStateRef.current, htmlContent: workspace.innerHTML }, false);
+    };
+    refreshRunningFieldsRef.current = refreshRunningFields;
+
+    const updatePageCSS = (
+        width: string,
+        height: string,
+        margins: { top: number, bottom: number, left: number, right: number },
+        layout: { mirrored?: boolean; bleed?: number } = {}
+    ) => {
+        const { mirrored = mirrorMargins, bleed: bleedIn = bleed } = layout;
         // Use functional update so rapid dragging always has the latest CSS content, avoiding stale closure bugs
         setDocState(prev => {
-            const updatedCss = applyLayoutOverride(prev.cssContent, width, height, margins);
+            const updatedCss = applyLayoutOverride(prev.cssContent, width, height, margins, { mirrored, bleed: bleedIn });
             return { ...prev, cssContent: updatedCss };
         });
 
@@ -3710,12 +3893,12 @@ const App: React.FC = () => {
         marginReflowTimeoutRef.current = window.setTimeout(() => {
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
-                reflowPagesUntilStable(workspace as HTMLElement, { pullUp: true });
+                reflowPagesUntilStable(workspace as HTMLElement, { pullUp: true, rules: paginationRulesRef.current });
             }
             // Save to history once drag is completed (or paused) rather than 60 times a second
             setDocState(prev => {
                 if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
-                pushHistoryState(prev);
+                pushHistoryState(prev, 'Change margins');
                 return prev;
             });
         }, 300);
@@ -3727,13 +3910,17 @@ const App: React.FC = () => {
         const format = Object.values(PAGE_FORMATS).find(f => f.id === formatId);
         if (!format) return;
 
-        // Update margins to format defaults
-        setPageMargins(format.margins);
+        // Update margins to format defaults; in auto mode the gutter keeps following the page count
+        const { requiredGutter } = checkGutter(pageCount, format.margins.left);
+        const margins = gutterMode === 'auto' && requiredGutter !== null
+            ? { ...format.margins, left: requiredGutter }
+            : format.margins;
+        setPageMargins(margins);
 
         if (formatId === 'custom') {
-            updatePageCSS(customPageSize.width, customPageSize.height, format.margins);
+            updatePageCSS(customPageSize.width, customPageSize.height, margins);
         } else {
-            updatePageCSS(format.width, format.height, format.margins);
+            updatePageCSS(format.width, format.height, margins);
         }
     };
 
@@ -3762,6 +3949,97 @@ const App: React.FC = () => {
         });
     };
 
+    const handleToggleMirrorMargins = () => {
+        const next = !mirrorMargins;
+        setMirrorMargins(next);
+
+        const format = Object.values(PAGE_FORMATS).find(f => f.id === pageFormatId);
+        const width = pageFormatId === 'custom' ? customPageSize.width : (format?.width || '8.5in');
+        const height = pageFormatId === 'custom' ? customPageSize.height : (format?.height || '11in');
+        updatePageCSS(width, height, pageMargins, { mirrored: next });
+    };
+
+    const handleBleedChange = (value: number) => {
+        const next = Math.max(0, value);
+        setBleed(next);
+
+        const format = Object.values(PAGE_FORMATS).find(f => f.id === pageFormatId);
+        const width = pageFormatId === 'custom' ? customPageSize.width : (format?.width || '8.5in');
+        const height = pageFormatId === 'custom' ? customPageSize.height : (format?.height || '11in');
+        updatePageCSS(width, height, pageMargins, { bleed: next });
+    };
+
+    // --- KDP gutter by page count ---
+
+    // Runs once the page count settles after reflow; `left` is the gutter (inside margin).
+    useEffect(() => {
+        if (gutterMode === 'off') {
+            setGutterNotice(null);
+            return;
+        }
+        const timer = window.setTimeout(() => {
+            const check = checkGutter(pageCount, pageMargins.left);
+            const crossed = lastGutterRangeRef.current !== check.rangeIndex;
+            lastGutterRangeRef.current = check.rangeIndex;
+
+            if (check.tooManyPages) {
+                if (dismissedGutterRangeRef.current === check.rangeIndex) return;
+                setGutterNotice({
+                    kind: 'limit',
+                    message: `${pageCount} pages is over the KDP paperback limit of ${KDP_MAX_PAGES}.`,
+                    requiredGutter: null
+                });
+                return;
+            }
+            if (!check.range || check.requiredGutter === null) return;
+
+            if (gutterMode === 'auto') {
+                if (crossed && Math.abs(check.requiredGutter - pageMargins.left) > 0.001) {
+                    handleMarginChange('left', check.requiredGutter);
+                    setGutterNotice({
+                        kind: 'switched',
+                        message: `Gutter set to ${check.requiredGutter}" for ${formatGutterRange(check.range)}.`,
+                        requiredGutter: check.requiredGutter
+                    });
+                    window.setTimeout(() => setGutterNotice(prev => (prev?.kind === 'switched' ? null : prev)), 4000);
+                } else if (crossed) {
+                    setGutterNotice(null);
+                }
+                return;
+            }
+
+            if (check.tooSmall && dismissedGutterRangeRef.current !== check.rangeIndex) {
+                setGutterNotice({
+                    kind: 'warn',
+                    message: `${pageCount} pages needs a gutter of at least ${check.requiredGutter}" (${formatGutterRange(check.range)}); it is ${pageMargins.left}".`,
+                    requiredGutter: check.requiredGutter
+                });
+            } else {
+                setGutterNotice(null);
+            }
+        }, 800);
+        return () => window.clearTimeout(timer);
+    }, [pageCount, pageMargins.left, gutterMode]);
+
+    const handleGutterModeChange = (mode: GutterMode) => {
+        setGutterMode(mode);
+        // Re-evaluate from scratch so switching to auto applies the gutter right away
+        lastGutterRangeRef.current = null;
+        dismissedGutterRangeRef.current = null;
+    };
+
+    const handleApplyGutterNotice = () => {
+        if (gutterNotice?.requiredGutter != null) {
+            handleMarginChange('left', gutterNotice.requiredGutter);
+        }
+        setGutterNotice(null);
+    };
+
+    const handleDismissGutterNotice = () => {
+        dismissedGutterRangeRef.current = lastGutterRangeRef.current;
+        setGutterNotice(null);
+    };
+
     // --- HR (Horizontal Rule) Selection & Logic ---
     const handleHRSelect = (hr: HTMLHRElement | null) => {
         if (selectedHR && selectedHR !== hr) {
@@ -3878,7 +4156,7 @@ const App: React.FC = () => {
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
                 const newState = { ...docState, htmlContent: workspace.innerHTML };
-                updateDocState(newState, true);
+                updateDocState(newState, 'Change rule');
             }
         }, 500);
     };
@@ -3901,7 +4179,7 @@ const App: React.FC = () => {
             // Save history after crop
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
-                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Crop image');
             }
         }
     };
@@ -3999,7 +4277,7 @@ const App: React.FC = () => {
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
                 const newState = { ...docState, htmlContent: workspace.innerHTML };
-                updateDocState(newState, true);
+                updateDocState(newState, 'Change image');
             }
         }, 500);
     };
@@ -4034,8 +4312,8 @@ const App: React.FC = () => {
 
         const workspace = document.querySelector('.editor-workspace') as HTMLElement;
         if (workspace) {
-            reflowPages(workspace);
-            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+            reflowPages(workspace, { rules: paginationRulesRef.current });
+            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, actionType === 'remove-structure' ? 'Remove from structure' : `${actionType} pattern`);
         }
 
         patternTrackerRef.current.clear();
@@ -4047,7 +4325,7 @@ const App: React.FC = () => {
         if (patternModal.actionType === 'remove-structure') {
             const workspace = document.querySelector('.editor-workspace') as HTMLElement;
             if (workspace) {
-                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Remove from structure');
             }
         }
 
@@ -4091,10 +4369,13 @@ const App: React.FC = () => {
     <title>${fileName}</title>
     <style>
 ${docState.cssContent}
+${masterArtCss(masterPages)}
     </style>
 </head>
 <body>
+<div class="editor-workspace">
 ${workspace.innerHTML}
+</div>
 </body>
 </html>`;
 
@@ -4109,15 +4390,74 @@ ${workspace.innerHTML}
         URL.revokeObjectURL(url);
     };
 
-    const handleDownloadAutoLog = () => {
-        downloadAutoLog();
-    };
+    const handleExportProject = async (fileName: string) => {
+        const tempDiv = document.createElement('div');
+        tempDiv.innerHTML = docState.htmlContent;
+        tempDiv.querySelectorAll('[data-selected]').forEach(el => el.removeAttribute('data-selected'));
+        tempDiv.querySelectorAll('[data-multi-selected]').forEach(el => el.removeAttribute('data-multi-selected'));
+
+        // Only bundle the custom fonts the document actually references
+        const referenced = `${tempDiv.innerHTML}\n${docState.cssContent}`;
+        const fonts = (await loadAllCustomFonts()).filter(font => referenced.includes(font.name));
+
+        const blob = buildProjectBundle({
+            docState: {
+                htmlContent: tempDiv.innerHTML,
+                cssContent: docState.cssContent,
+                fileName: `${fileName}${PROJECT_FILE_EXTENSION}`
+            },
+            settings: collectProjectSettings(),
+            fonts
+        });
+
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${fileName}${PROJECT_FILE_EXTENSION}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        lastProjectSaveRef.current = Date.now();
+    };
+
+    const handleDownloadAutoLog = () => {
+        downloadAutoLog();
+    };
+
+    const handleClearAutoLog = () => {
+        clearAutoLog();
+    };
+
+    // Bookmarks follow the same Structure entries as the TOC
+    const buildPdfOutline = (workspace: HTMLElement): PdfOutlineItem[] => structureEntries
+        .filter(entry => entry.status !== 'rejected')
+        .flatMap(entry => {
+            const level = ['h1', 'h2', 'h3'].findIndex(tag => entry.type.includes(tag)) + 1;
+            const element = workspace.querySelector(`#${CSS.escape(entry.elementId)}`) as HTMLElement | null;
+            if (level === 0 || !element) return [];
+            return [{ title: entry.text || element.textContent || 'Untitled Section', level, element }];
+        });
+
+    const pdfRasterizer = () => (window.html2canvas
+        ? (el: HTMLElement) => window.html2canvas(el, { backgroundColor: null, scale: 3, logging: false }).catch(() => null)
+        : undefined);
+
+    const handleExportPDF = async (fileName: string) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+
+        const referenced = `${docState.htmlContent}\n${docState.cssContent}`;
+        const fonts = (await loadAllCustomFonts()).filter(font => referenced.includes(font.name));
 
-    const handleClearAutoLog = () => {
-        clearAutoLog();
+        const bytes = await writePdf(workspace, { title: fileName, bleed, outline: buildPdfOutline(workspace), fonts, rasterize: pdfRasterizer() });
+        const saved = await saveFile(`${fileName}.pdf`, bytes, 'application/pdf');
+        if (saved.location === 'downloads') {
+            alert(`Saved "${saved.fileName}" to your Downloads folder.`);
+        }
     };
 
-    const handleExportPDF = async (fileName: string) => {
+    const handlePrint = async (fileName: string) => {
         const tempDiv = document.createElement('div');
         tempDiv.innerHTML = docState.htmlContent;
 
@@ -4164,7 +4504,7 @@ ${workspace.innerHTML}
         const doc = iframe.contentWindow?.document;
         if (!doc || !iframe.contentWindow) {
             iframe.remove();
-            alert('Unable to prepare PDF print frame.');
+            alert('Unable to prepare the print frame.');
             return;
         }
 
@@ -4203,7 +4543,9 @@ ${printOverrides}
   </style>
 </head>
 <body>
+<div class="editor-workspace">
 ${tempDiv.innerHTML}
+</div>
 </body>
 </html>
     `);
@@ -4290,275 +4632,235 @@ ${tempDiv.innerHTML}
     };
 
     const handleExportDOCX = async (fileName: string) => {
-        if (!window.html2canvas || !window.htmlDocx) {
-            alert('DOCX export requires html2canvas and html-docx-js to be loaded.');
-            return;
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+
+        const format = Object.values(PAGE_FORMATS).find(f => f.id === pageFormatId);
+        const width = pageFormatId === 'custom' ? customPageSize.width : (format?.width || '8.5in');
+        const height = pageFormatId === 'custom' ? customPageSize.height : (format?.height || '11in');
+
+        const bytes = await writeDocx(workspace, {
+            title: fileName,
+            page: {
+                width: lengthInInches(width, 8.5),
+                height: lengthInInches(height, 11),
+                margins: pageMargins,
+                mirrored: mirrorMargins,
+                bleed
+            },
+            keepHeadingsWithNext: paginationRules.keepHeadingsWithNext,
+            pageNumbers: pageNumberSettings ? getPageNumbers(workspace, Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[]) : undefined
+        });
+        const saved = await saveFile(`${fileName}.docx`, bytes, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+        if (saved.location === 'downloads') {
+            alert(`Saved "${saved.fileName}" to your Downloads folder.`);
         }
+    };
 
-        // Helper: px to pt
-        const pxToPt = (px: string): string => {
-            const num = parseFloat(px);
-            return isNaN(num) ? px : `${Math.round(num * 0.75)}pt`;
-        };
+    const handleExportEPUB = async (fileName: string, options: { convertPracticeLines: boolean }) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
 
-        // Render element as image using html2canvas
-        const renderElementAsImage = async (el: HTMLElement): Promise<string> => {
-            try {
-                const scale = 2;
-                const canvas = await window.html2canvas(el, {
-                    scale,
-                    useCORS: true,
-                    allowTaint: true,
-                    backgroundColor: null,
-                    logging: false,
-                    windowWidth: el.scrollWidth + 50,
-                    windowHeight: el.scrollHeight + 50
-                });
-                const imgData = canvas.toDataURL('image/png', 1.0);
-                const width = Math.min(Math.round(el.offsetWidth * scale), 800);
-                const height = Math.round(canvas.height * (width / canvas.width));
-                return `<p style="margin: 8pt 0; text-align: center;"><img src="${imgData}" width="${width}" height="${height}" style="max-width: 100%;"></p>`;
-            } catch (e) {
-                console.error('Error rendering element as image:', e);
-                return `<p style="margin: 8pt 0;">${el.textContent || ''}</p>`;
-            }
-        };
+        const referenced = `${docState.htmlContent}\n${docState.cssContent}`;
+        const fonts = (await loadAllCustomFonts()).filter(font => referenced.includes(font.name));
 
-        // Check if element should be rendered as image
-        const shouldRenderAsImage = (el: HTMLElement): boolean => {
-            const classList = el.classList;
-            const computed = window.getComputedStyle(el);
-            const hasBackgroundImage = computed.backgroundImage && computed.backgroundImage !== 'none';
+        // Chapters and nav.xhtml follow the same Structure entries as the TOC
+        const headings = structureEntries
+            .filter(entry => entry.status !== 'rejected')
+            .flatMap(entry => {
+                const level = ['h1', 'h2', 'h3'].findIndex(tag => entry.type.includes(tag)) + 1;
+                if (level === 0) return [];
+                return [{ elementId: entry.elementId, level, title: entry.text || 'Untitled Section' }];
+            });
 
-            if (classList.contains('tracing-line') ||
-                classList.contains('writing-lines') ||
-                classList.contains('toc-container')) {
-                return true;
-            }
-            if (el.tagName === 'TABLE') return true;
-            if (hasBackgroundImage) return true;
-            return false;
-        };
+        const bytes = await writeEpub(workspace, {
+            title: fileName,
+            css: docState.cssContent,
+            headings,
+            fonts,
+            convertPracticeLines: options.convertPracticeLines
+        });
+        const saved = await saveFile(`${fileName}.epub`, bytes, 'application/epub+zip');
+        if (saved.location === 'downloads') {
+            alert(`Saved "${saved.fileName}" to your Downloads folder.`);
+        }
+    };
 
-        // Get inline styles for text elements using computed styles
-        const getInlineStyle = (el: HTMLElement): string => {
-            const styles: string[] = [];
-            const style = el.style;
-            const computed = window.getComputedStyle(el);
-
-            const color = style.color || computed.color;
-            const backgroundColor = style.backgroundColor || computed.backgroundColor;
-            const fontFamily = style.fontFamily || computed.fontFamily;
-            const fontSize = style.fontSize || computed.fontSize;
-            const fontWeight = style.fontWeight || computed.fontWeight;
-            const fontStyle = style.fontStyle || computed.fontStyle;
-            const textDecoration = style.textDecoration || computed.textDecoration;
-            const textAlign = style.textAlign || computed.textAlign;
-            const lineHeight = style.lineHeight || computed.lineHeight;
-            const letterSpacing = style.letterSpacing || computed.letterSpacing;
-            const borderRadius = style.borderRadius || computed.borderRadius;
-            const border = style.border || computed.border;
-            const paddingTop = style.paddingTop || computed.paddingTop;
-            const paddingRight = style.paddingRight || computed.paddingRight;
-            const paddingBottom = style.paddingBottom || computed.paddingBottom;
-            const paddingLeft = style.paddingLeft || computed.paddingLeft;
-            const marginTop = style.marginTop || computed.marginTop;
-            const marginBottom = style.marginBottom || computed.marginBottom;
-
-            if (color) styles.push(`color: ${color}`);
-            if (backgroundColor && backgroundColor !== 'transparent' && backgroundColor !== 'rgba(0, 0, 0, 0)') {
-                styles.push(`background-color: ${backgroundColor}`);
-            }
-            if (fontFamily) styles.push(`font-family: ${fontFamily}`);
-            if (fontSize) styles.push(`font-size: ${pxToPt(fontSize)}`);
-            if (fontWeight && fontWeight !== '400') styles.push(`font-weight: ${fontWeight}`);
-            if (fontStyle && fontStyle !== 'normal') styles.push(`font-style: ${fontStyle}`);
-            if (textDecoration && textDecoration !== 'none') styles.push(`text-decoration: ${textDecoration}`);
-            if (textAlign && textAlign !== 'start') styles.push(`text-align: ${textAlign}`);
-            if (lineHeight && lineHeight !== 'normal') styles.push(`line-height: ${lineHeight}`);
-            if (letterSpacing && letterSpacing !== 'normal') styles.push(`letter-spacing: ${letterSpacing}`);
-            if (borderRadius && borderRadius !== '0px') styles.push(`border-radius: ${borderRadius}`);
-            if (border && border !== 'none') styles.push(`border: ${border}`);
-            if (paddingTop || paddingRight || paddingBottom || paddingLeft) {
-                styles.push(`padding: ${pxToPt(paddingTop)} ${pxToPt(paddingRight)} ${pxToPt(paddingBottom)} ${pxToPt(paddingLeft)}`);
-            }
-            if (marginTop && marginTop !== '0px') styles.push(`margin-top: ${pxToPt(marginTop)}`);
-            if (marginBottom && marginBottom !== '0px') styles.push(`margin-bottom: ${pxToPt(marginBottom)}`);
-
-            return styles.length > 0 ? styles.join('; ') : '';
-        };
+    const handleExportMarkdown = async (fileName: string) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
 
-        // Process element recursively
-        const processElement = async (el: Node): Promise<string> => {
-            if (el.nodeType === Node.TEXT_NODE) {
-                return el.textContent || '';
-            }
-            if (!(el instanceof HTMLElement)) return '';
+        const { markdown, unsupported } = markdownFromWorkspace(workspace);
+        const saved = await saveFile(`${fileName}.md`, new TextEncoder().encode(markdown), 'text/markdown');
+        const notices = saved.location === 'downloads' ? [`Saved "${saved.fileName}" to your Downloads folder.`] : [];
+        if (unsupported.length > 0) {
+            notices.push(`Markdown has no equivalent for:\n${unsupported.map(line => `• ${line}`).join('\n')}`);
+        }
+        if (notices.length > 0) alert(notices.join('\n\n'));
+    };
 
-            const tagName = el.tagName.toLowerCase();
-            if (tagName === 'style' || tagName === 'script' || tagName === 'head' || tagName === 'meta') return '';
+    // --- DATA MERGE ---
 
-            if (shouldRenderAsImage(el)) {
-                return await renderElementAsImage(el);
-            }
+    const mergeBaseName = docState.fileName.replace(/\.(html?|docx?|epub|md|markdown|iwp)$/i, '') || 'document';
 
-            // Handle images - apply filters (brightness/contrast/saturate)
-            if (tagName === 'img') {
-                const img = el as HTMLImageElement;
-                let src = img.src || img.getAttribute('src') || '';
-                if (!src) return '';
+    const handleOpenDataMerge = () => {
+        const tempDiv = document.createElement('div');
+        tempDiv.innerHTML = docState.htmlContent;
+        setMergePlaceholders(findPlaceholders(tempDiv));
+    };
 
-                const computed = window.getComputedStyle(img);
-                const filter = img.style.filter || computed.filter || '';
+    // Lays merged pages out in a hidden workspace next to the editor (same document CSS and
+    // pagination rules) and resolves once reflowPagesUntilStable has settled.
+    const paginateOffscreen = async (html: string): Promise<HTMLElement> => {
+        const staging = document.createElement('div');
+        staging.className = 'editor-workspace';
+        staging.setAttribute('aria-hidden', 'true');
+        staging.style.cssText = 'position: fixed; left: -100000px; top: 0; pointer-events: none;';
+        staging.innerHTML = html;
+        document.body.appendChild(staging);
+
+        await Promise.all(Array.from(staging.querySelectorAll('img')).map(img => img.decode().catch(() => undefined)));
+        await document.fonts.ready;
+
+        ensureContentIsPaginated(staging);
+        staging.querySelectorAll(':scope > .page').forEach(page => fixClippedContainers(page as HTMLElement));
+        await new Promise<void>(resolve => reflowPagesUntilStable(staging, { onDone: resolve, rules: paginationRulesRef.current }));
+        syncMasterPages(staging, masterPages);
+        return staging;
+    };
 
-                try {
-                    if (img.complete && img.naturalWidth > 0) {
-                        const canvas = document.createElement('canvas');
-                        canvas.width = img.naturalWidth;
-                        canvas.height = img.naturalHeight;
-                        const ctx = canvas.getContext('2d');
-                        if (ctx) {
-                            if (filter && filter !== 'none') {
-                                ctx.filter = filter;
-                            }
-                            ctx.drawImage(img, 0, 0);
-                            src = canvas.toDataURL('image/png');
-                        }
-                    }
-                } catch (e) { }
-
-                const width = img.offsetWidth || img.naturalWidth || 300;
-                const height = img.offsetHeight || img.naturalHeight || 'auto';
-                return `<p style="text-align: center; margin: 10pt 0;"><img src="${src}" width="${width}" height="${height}" style="max-width: 100%;"></p>`;
-            }
-
-            if (tagName === 'hr') {
-                return `<hr style="border: none; border-top: 1.5pt solid #000; margin: 12pt 0;">`;
-            }
-
-            let childrenHtml = '';
-            for (const child of Array.from(el.childNodes)) {
-                childrenHtml += await processElement(child);
-            }
-
-            if (el.classList.contains('page')) {
-                return childrenHtml;
-            }
-
-            if (el.classList.contains('page-footer')) {
-                return `<p style="text-align: center; font-size: 10pt; margin-top: 16pt; color: #666;">${childrenHtml}</p>`;
-            }
-
-            const inlineStyle = getInlineStyle(el);
-            const styleAttr = inlineStyle ? ` style="${inlineStyle}"` : '';
-
-            switch (tagName) {
-                case 'h1':
-                    return `<h1${styleAttr}><strong>${childrenHtml}</strong></h1>`;
-                case 'h2':
-                    return `<h2${styleAttr}><strong>${childrenHtml}</strong></h2>`;
-                case 'h3':
-                    return `<h3${styleAttr}><strong>${childrenHtml}</strong></h3>`;
-                case 'p':
-                    return `<p${styleAttr}>${childrenHtml}</p>`;
-                case 'ul':
-                    return `<ul style="margin: 10pt 0 10pt 20pt;">${childrenHtml}</ul>`;
-                case 'ol':
-                    return `<ol style="margin: 10pt 0 10pt 20pt;">${childrenHtml}</ol>`;
-                case 'li':
-                    return `<li${styleAttr}>${childrenHtml}</li>`;
-                case 'strong':
-                case 'b':
-                    return `<b>${childrenHtml}</b>`;
-                case 'em':
-                case 'i':
-                    return `<i>${childrenHtml}</i>`;
-                case 'u':
-                    return `<u>${childrenHtml}</u>`;
-                case 'br':
-                    return '<br>';
-                case 'span':
-                case 'div':
-                    if (childrenHtml.trim()) {
-                        return `<${tagName}${styleAttr}>${childrenHtml}</${tagName}>`;
-                    }
-                    return childrenHtml;
-                default:
-                    return childrenHtml;
+    const handleDataMerge = async (dataset: MergeDataset, options: MergeOptions, onProgress: (done: number, total: number) => void) => {
+        const tempDiv = document.createElement('div');
+        tempDiv.innerHTML = docState.htmlContent;
+        tempDiv.querySelectorAll('[data-selected]').forEach(el => el.removeAttribute('data-selected'));
+        tempDiv.querySelectorAll('[data-multi-selected]').forEach(el => el.removeAttribute('data-multi-selected'));
+        const template = tempDiv.innerHTML;
+        const total = dataset.records.length;
+
+        if (options.mode === 'sections') {
+            // Undo returns to the template: the merged pages are saved as one history step
+            const newState = { ...docState, htmlContent: mergeAllRecordsHtml(template, dataset.records) };
+            onProgress(total, total);
+            updateDocState(newState, false);
+            paginateImportedDocument(newState);
+            return;
+        }
+
+        const referenced = `${docState.htmlContent}\n${docState.cssContent}`;
+        const fonts = (await loadAllCustomFonts()).filter(font => referenced.includes(font.name));
+        const usedNames = new Set<string>();
+        const entries = [];
+        for (let index = 0; index < total; index++) {
+            const record = dataset.records[index];
+            const name = recordFileName(options.fileNamePattern, record, index, usedNames);
+            const staging = await paginateOffscreen(mergeRecordHtml(template, record));
+            try {
+                const bytes = await writePdf(staging, { title: name, bleed, outline: buildPdfOutline(staging), fonts, rasterize: pdfRasterizer() });
+                entries.push({ path: `${name}.pdf`, data: bytes });
+            } finally {
+                staging.remove();
             }
-        };
+            onProgress(index + 1, total);
+        }
 
-        // Create a temporary container and render the content
-        const tempContainer = document.createElement('div');
-        tempContainer.innerHTML = docState.htmlContent;
-        tempContainer.style.position = 'absolute';
-        tempContainer.style.left = '-9999px';
-        tempContainer.style.top = '0';
-        tempContainer.style.width = '816px'; // Approx 8.5in at 96dpi
-        tempContainer.style.background = 'white';
-        document.body.appendChild(tempContainer);
-
-        if (document.fonts && document.fonts.ready) {
-            await document.fonts.ready;
-        }
-
-        const images = tempContainer.querySelectorAll('img');
-        await Promise.all(Array.from(images).map(img => {
-            if ((img as HTMLImageElement).complete) return Promise.resolve();
-            return new Promise(resolve => {
-                img.onload = resolve;
-                img.onerror = resolve;
-            });
-        }));
+        const saved = await saveFile(`${mergeBaseName} (merged).zip`, createZip(entries), 'application/zip');
+        if (saved.location === 'downloads') {
+            alert(`Saved "${saved.fileName}" to your Downloads folder.`);
+        }
+    };
 
-        const pages = tempContainer.querySelectorAll('.page');
-        let contentHtml = '';
+    // --- PAGE TEMPLATES ---
 
-        for (let i = 0; i < pages.length; i++) {
-            if (i > 0) {
-                contentHtml += `<br clear="all" style="page-break-before: always;">`;
-            }
-            contentHtml += await processElement(pages[i]);
+    const handleOpenTemplateGallery = async () => {
+        setIsTemplateGalleryOpen(true);
+        setUserTemplates(await listTemplates());
+    };
+
+    const handleSaveTemplate = async (name: string, fromPage: number, toPage: number) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        const pages = (Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[]).slice(fromPage - 1, toPage);
+        if (pages.length === 0) throw new Error('Those pages do not exist.');
+
+        let thumbnail = '';
+        if (window.html2canvas) {
+            const canvas = await window.html2canvas(pages[0], { backgroundColor: '#ffffff', scale: 0.3, logging: false }).catch(() => null);
+            thumbnail = canvas ? canvas.toDataURL('image/jpeg', 0.8) : '';
         }
+        await saveTemplate({ name, html: templateHtmlFromPages(pages), pageCount: pages.length, thumbnail });
+        setUserTemplates(await listTemplates());
+    };
 
-        document.body.removeChild(tempContainer);
+    const handleDeleteTemplate = async (template: PageTemplate) => {
+        if (!confirm(`Delete the template "${template.name}"?`)) return;
+        await deleteTemplate(template.id);
+        setUserTemplates(await listTemplates());
+    };
 
-        const htmlContent = `<!DOCTYPE html>
-<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">
-<head>
-<meta http-equiv="Content-Type" content="text/html; charset=utf-8">
-<meta name="ProgId" content="Word.Document">
-<!--[if gte mso 9]>
-<xml>
-<w:WordDocument>
-<w:View>Print</w:View>
-<w:Zoom>100</w:Zoom>
-</w:WordDocument>
-</xml>
-<![endif]-->
-<style>
-@page { size: 8.5in 11in; margin: 0.6in; }
-body { font-size: 12pt; margin: 0; padding: 0; line-height: 1.5; }
-h1, h2, h3, p, div, span { display: block; }
-ul, ol { margin-left: 24pt; }
-img { max-width: 100%; height: auto; }
-.page { page-break-after: always; }
-</style>
-</head>
-<body>
-${contentHtml}
-</body>
-</html>`;
+    const handleInsertTemplate = (template: PageTemplate) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        const existing = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+        const anchor = existing[Math.min(currentPage, existing.length - 1)] ?? null;
+        const following = anchor ? anchor.nextElementSibling : null;
+
+        const pages = createTemplatePages(template);
+        pages.forEach(page => workspace.insertBefore(page, following));
+        // The page after the template keeps its own start, so reflow cannot pull it into the template
+        if (following instanceof HTMLElement && following.classList.contains('page') && !following.querySelector(':scope > [data-user-page-break="true"]')) {
+            const marker = document.createElement('div');
+            marker.setAttribute('data-user-page-break', 'true');
+            marker.style.cssText = 'display:none;height:0;overflow:hidden;';
+            following.insertBefore(marker, following.firstChild);
+        }
 
-        const docxBlob = window.htmlDocx.asBlob(htmlContent);
-        const url = URL.createObjectURL(docxBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${fileName}.docx`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        try { reflowPages(workspace, { rules: paginationRulesRef.current }); } catch (e) { /* non-fatal */ }
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Insert template');
+        const firstIndex = Array.from(workspace.querySelectorAll(':scope > .page')).indexOf(pages[0]);
+        if (firstIndex >= 0) requestAnimationFrame(() => scrollToPage(firstIndex));
+    };
+
+    // --- MASTER PAGES ---
+
+    const getWorkspacePages = () => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        return workspace ? Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[] : [];
+    };
+
+    const handleOpenMasterPages = () => {
+        const page = getWorkspacePages()[currentPage];
+        setMasterPageInfo({
+            master: page?.getAttribute('data-master') ?? null,
+            overrides: page ? readPageOverrides(page) : NO_PAGE_OVERRIDES
+        });
+    };
+
+    const handleSaveMasterPages = (masters: MasterPage[]) => {
+        setMasterPages(masters);
+        setMasterPageInfo(null);
+    };
+
+    const handleAssignMaster = (masters: MasterPage[], masterId: string | null, fromPage: number, toPage: number) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        setMasterPages(masters);
+        assignMaster(workspace, masterId, fromPage - 1, toPage - 1);
+        syncMasterPages(workspace, masters);
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Assign master page');
+        if (currentPage >= fromPage - 1 && currentPage <= toPage - 1) {
+            setMasterPageInfo(prev => (prev ? { ...prev, master: masterId } : prev));
+        }
+    };
+
+    const handleSavePageOverrides = (masters: MasterPage[], overrides: PageMasterOverrides) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        const page = getWorkspacePages()[currentPage];
+        if (!workspace || !page) return;
+        setMasterPages(masters);
+        writePageOverrides(page, overrides);
+        syncMasterPages(workspace, masters);
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Change page overrides');
+        setMasterPageInfo(prev => (prev ? { ...prev, overrides } : prev));
     };
 
     const scrollToPage = (pageIndex: number) => {
@@ -4737,7 +5039,7 @@ ${contentHtml}
         if (domModified || newEntries.length > 0) {
             const workspace = document.querySelector('.editor-workspace');
             if (workspace) {
-                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+                updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Add selection to structure');
             }
         }
 
@@ -4753,7 +5055,10 @@ ${contentHtml}
         const element = workspace?.querySelector(`#${CSS.escape(elementId)}`) as HTMLElement | null
             || document.getElementById(elementId);
         if (!element) return;
+        navigateToElement(element);
+    };
 
+    const navigateToElement = (element: HTMLElement) => {
         const container = editorContainerRef.current;
         const page = element.closest('.page') as HTMLElement | null;
         if (page) {
@@ -4784,6 +5089,363 @@ ${contentHtml}
         }, 1500);
     };
 
+    // --- Print preflight ---
+    const handleRunPreflight = () => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        setPreflightFindings(runPreflight(workspace, { bleed }));
+        setPreflightCheckedAt(Date.now());
+        setIsPreflightOpen(true);
+    };
+
+    const handleSelectPreflightFinding = (finding: PreflightFinding) => {
+        // Reflow may have replaced the element since the check ran; fall back to its page
+        if (finding.element?.isConnected) {
+            navigateToElement(finding.element);
+        } else if (finding.pageIndex !== null) {
+            scrollToPage(finding.pageIndex);
+        }
+    };
+
+    // --- Style sheets ---
+    // After a change that moves text on many pages (style sheet, theme, replace all). Style
+    // rules live in the document CSS and only apply once it has rendered, hence the frame wait.
+    const reflowAfterBulkChange = () => {
+        requestAnimationFrame(() => {
+            const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+            if (!workspace) return;
+            reflowPagesUntilStable(workspace, {
+                rules: paginationRulesRef.current,
+                pullUp: true,
+                onDone: () => updateDocState({ ...latestDocStateRef.current, htmlContent: workspace.innerHTML }, false)
+            });
+        });
+    };
+
+    const commitNamedStyles = (styles: NamedStyle[], workspace: HTMLElement) => {
+        setNamedStyles(styles);
+        updateDocState({
+            ...docState,
+            htmlContent: workspace.innerHTML,
+            cssContent: applyStyleSheetCss(docState.cssContent, styles)
+        }, 'Change style sheet');
+        reflowAfterBulkChange();
+    };
+
+    const handleSaveNamedStyles = (styles: NamedStyle[]) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (workspace) commitNamedStyles(styles, workspace);
+    };
+
+    const handleDeleteNamedStyle = (id: string) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        const style = namedStyles.find(item => item.id === id);
+        if (!workspace || !style) return;
+        replaceStyleUsage(workspace, id, style.basedOn);
+        commitNamedStyles(removeStyle(namedStyles, id), workspace);
+    };
+
+    const handleApplyNamedStyle = (kind: NamedStyle['kind'], id: string | null) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        restoreSelection();
+        const selection = window.getSelection();
+        const range = selection && selection.rangeCount > 0 && workspace.contains(selection.getRangeAt(0).commonAncestorContainer)
+            ? selection.getRangeAt(0)
+            : null;
+
+        if (kind === 'paragraph') {
+            const blocks = range ? getStyleBlocks(range, workspace) : [];
+            const fallback = activeBlock?.isConnected ? activeBlock.closest('p, h1, h2, h3, h4, h5, h6, li, blockquote, pre') as HTMLElement | null : null;
+            const targets = blocks.length > 0 ? blocks : fallback ? [fallback] : [];
+            if (targets.length === 0) {
+                alert('Place the cursor in a paragraph first.');
+                return;
+            }
+            targets.forEach(block => setParagraphStyle(block, namedStyles, id));
+        } else if (id) {
+            if (!range || range.collapsed) {
+                alert('Select some text first.');
+                return;
+            }
+            const spans = applyCharacterStyle(range, workspace, namedStyles, id);
+            if (spans.length > 0 && selection) {
+                const styled = document.createRange();
+                styled.setStartBefore(spans[0]);
+                styled.setEndAfter(spans[spans.length - 1]);
+                selection.removeAllRanges();
+                selection.addRange(styled);
+            }
+        } else if (!range || !clearCharacterStyles(range, workspace)) {
+            return;
+        }
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Apply style');
+        reflowAfterBulkChange();
+    };
+
+    // --- Find and replace ---
+    const revealFindMatch = (match: Pick<FindMatch, 'range' | 'pageIndex'>) => {
+        setCurrentPage(match.pageIndex);
+        const element = match.range.startContainer.parentElement;
+        if (element) {
+            element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        } else {
+            scrollToPage(match.pageIndex);
+        }
+    };
+
+    /**
+     * Runs the search. A new search starts at the first match on or after the current page;
+     * `keepIndex` re-runs the same search after the document changed and stays in place.
+     */
+    const runFind = (query: string, options: FindOptions, keepIndex = false, message = '') => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        findQueryRef.current = query ? { query, options } : null;
+        if (!workspace || !query) {
+            findMatchesRef.current = [];
+            clearFindHighlights();
+            setFindState({ count: 0, index: -1, error: '', message });
+            return;
+        }
+        let matches: FindMatch[];
+        try {
+            matches = findMatches(workspace, buildSearchPattern(query, options));
+        } catch (err) {
+            findMatchesRef.current = [];
+            clearFindHighlights();
+            setFindState({ count: 0, index: -1, error: err instanceof Error ? err.message : String(err), message: '' });
+            return;
+        }
+        findMatchesRef.current = matches;
+        let index = -1;
+        if (matches.length > 0) {
+            index = keepIndex
+                ? Math.min(Math.max(findState.index, 0), matches.length - 1)
+                : Math.max(0, matches.findIndex(match => match.pageIndex >= currentPage));
+        }
+        highlightMatches(matches, index);
+        setFindState({ count: matches.length, index, error: '', message });
+        if (!keepIndex && index >= 0) revealFindMatch(matches[index]);
+    };
+
+    // A reflow or re-render may have moved the text out from under the ranges
+    const ensureFreshMatches = () => {
+        const search = findQueryRef.current;
+        if (!search) return false;
+        const stale = findMatchesRef.current.some(match => !match.range.startContainer.isConnected || match.range.toString() !== match.text);
+        if (stale) runFind(search.query, search.options, true);
+        return stale;
+    };
+
+    const handleFindStep = (direction: 1 | -1) => {
+        if (ensureFreshMatches()) return;
+        const matches = findMatchesRef.current;
+        if (matches.length === 0) return;
+        const index = (findState.index + direction + matches.length) % matches.length;
+        highlightMatches(matches, index);
+        setFindState(prev => ({ ...prev, index, message: '' }));
+        revealFindMatch(matches[index]);
+    };
+
+    const GENERATED_MATCH_MESSAGE = 'Page numbers and master page text are edited in Page Numbers and Master Pages.';
+
+    // One history step for the replacement, then the text that grew or shrank is reflowed
+    const commitFindChange = (historyLabel: string, message: string) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        const search = findQueryRef.current;
+        if (!workspace || !search) return;
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, historyLabel);
+        runFind(search.query, search.options, true, message);
+        reflowAfterBulkChange();
+    };
+
+    const handleReplace = (replacement: string) => {
+        const search = findQueryRef.current;
+        if (!search || ensureFreshMatches()) return;
+        const match = findMatchesRef.current[findState.index];
+        if (!match) return;
+        if (match.generated) {
+            setFindState(prev => ({ ...prev, message: GENERATED_MATCH_MESSAGE }));
+            return;
+        }
+        if (!replaceMatch(match, replacementFor(match, replacement, search.options))) {
+            runFind(search.query, search.options, true, 'This match changed; search updated.');
+            return;
+        }
+        commitFindChange('Replace', '');
+        const next = findMatchesRef.current[Math.min(findState.index, findMatchesRef.current.length - 1)];
+        if (next) revealFindMatch(next);
+    };
+
+    const handleReplaceAll = (replacement: string) => {
+        const search = findQueryRef.current;
+        if (!search) return;
+        ensureFreshMatches();
+        const matches = findMatchesRef.current;
+        const generated = matches.filter(match => match.generated).length;
+        const replaced = replaceAllMatches(matches, replacement, search.options);
+        if (replaced === 0) {
+            if (generated > 0) setFindState(prev => ({ ...prev, message: GENERATED_MATCH_MESSAGE }));
+            return;
+        }
+        // The search stops at MAX_FIND_MATCHES; running it again could also find the new text
+        const capped = matches.length >= MAX_FIND_MATCHES ? ` The search stops at ${MAX_FIND_MATCHES} matches: press All again for the rest.` : '';
+        const skipped = generated > 0 ? ` ${generated} in page numbers or master pages left as they are.` : '';
+        commitFindChange('Replace all', `Replaced ${replaced} match${replaced === 1 ? '' : 'es'}.${capped}${skipped}`);
+    };
+
+    const handleCloseFind = () => {
+        setIsFindOpen(false);
+        findMatchesRef.current = [];
+        findQueryRef.current = null;
+        clearFindHighlights();
+        setFindState({ count: 0, index: -1, error: '', message: '' });
+    };
+
+    // Edits, undo and reflow replace text nodes; keep the highlights on the text
+    useEffect(() => {
+        if (isFindOpen) ensureFreshMatches();
+    }, [docState.htmlContent]);
+
+    // --- Spelling and grammar ---
+    const isSpellcheckActive = spellcheckSettings.enabled || isSpellcheckOpen;
+
+    useEffect(() => {
+        loadDictionariesFromDb().then(dictionaries => {
+            setInstalledDictionaries(dictionaries.map(({ id, name }) => ({ id, name })));
+        });
+    }, []);
+
+    // The dictionary is read once per language (and again after installing one)
+    useEffect(() => {
+        if (!isSpellcheckActive) return;
+        if (spellChecker?.language === spellcheckSettings.language) return;
+        let cancelled = false;
+        loadSpellChecker(spellcheckSettings.language)
+            .then(checker => {
+                if (cancelled) return;
+                setSpellChecker(checker);
+                setSpellcheckError('');
+            })
+            .catch(err => {
+                if (cancelled) return;
+                setSpellChecker(null);
+                setSpellcheckError(err instanceof Error ? err.message : String(err));
+            });
+        return () => { cancelled = true; };
+    }, [isSpellcheckActive, spellcheckSettings.language, dictionaryRevision]);
+
+    const runSpellcheck = () => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace || !spellChecker || spellChecker.language !== spellcheckSettings.language) {
+            setSpellIssues([]);
+            return;
+        }
+        setSpellIssues(findSpellIssues(workspace, spellChecker, spellcheckSettings.customWords, ignoredSpelling));
+        setSpellCheckedAt(Date.now());
+    };
+
+    // Edits, undo and reflow replace text nodes; check again once typing pauses
+    useEffect(() => {
+        if (!isSpellcheckActive) {
+            setSpellIssues([]);
+            return;
+        }
+        const timer = setTimeout(runSpellcheck, SPELLCHECK_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [docState.htmlContent, isSpellcheckActive, spellChecker, spellcheckSettings, ignoredSpelling]);
+
+    const handleSpellcheckSettingsChange = (changes: Partial<SpellcheckSettings>) => {
+        setSpellcheckSettings(prev => ({ ...prev, ...changes }));
+    };
+
+    const handleSelectSpellIssue = (issue: SpellIssue) => {
+        if (!issue.range.startContainer.isConnected) {
+            runSpellcheck();
+            return;
+        }
+        revealFindMatch(issue);
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(issue.range.cloneRange());
+    };
+
+    const getSpellSuggestions = (issue: SpellIssue) => spellChecker?.suggest(issue.text) ?? [];
+
+    const handleSpellReplace = (issue: SpellIssue, text: string) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        if (!replaceMatch(issue, text)) {
+            runSpellcheck();
+            return;
+        }
+        updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Fix spelling');
+        reflowAfterBulkChange();
+    };
+
+    const handleAddSpellingWord = (word: string) => {
+        const normalized = word.replace(/’/g, "'");
+        if (spellcheckSettings.customWords.includes(normalized)) return;
+        handleSpellcheckSettingsChange({
+            customWords: [...spellcheckSettings.customWords, normalized].sort((a, b) => a.localeCompare(b))
+        });
+    };
+
+    const handleRemoveSpellingWord = (word: string) => {
+        handleSpellcheckSettingsChange({ customWords: spellcheckSettings.customWords.filter(item => item !== word) });
+    };
+
+    const handleIgnoreSpelling = (issue: SpellIssue) => {
+        setIgnoredSpelling(prev => [...prev, issue.text]);
+    };
+
+    const handleInstallDictionary = async (files: File[]) => {
+        try {
+            const dictionary = await readDictionaryFiles(files);
+            await saveDictionaryToDb(dictionary);
+            setInstalledDictionaries(prev => [...prev.filter(item => item.id !== dictionary.id), { id: dictionary.id, name: dictionary.name }]);
+            setSpellChecker(null);
+            setDictionaryRevision(prev => prev + 1);
+            handleSpellcheckSettingsChange({ language: dictionary.id });
+        } catch (err) {
+            console.error(err);
+            alert(err instanceof Error ? err.message : 'Unable to install the dictionary.');
+        }
+    };
+
+    const spellcheckLanguages = [
+        ...BUILT_IN_DICTIONARIES,
+        ...installedDictionaries.filter(installed => !BUILT_IN_DICTIONARIES.some(builtIn => builtIn.id === installed.id))
+    ];
+
+    // --- Theme ---
+    const handleApplyTheme = (nextTheme: Theme, resetOverrides: boolean) => {
+        const workspace = document.querySelector('.editor-workspace') as HTMLElement | null;
+        if (!workspace) return;
+        if (resetOverrides) resetThemeOverrides(workspace, nextTheme);
+        setTheme(nextTheme);
+        setIsThemeModalOpen(false);
+        updateDocState({
+            ...docState,
+            htmlContent: workspace.innerHTML,
+            cssContent: applyThemeCss(docState.cssContent, nextTheme)
+        }, 'Apply theme');
+        reflowAfterBulkChange();
+    };
+
+    const handleExportTheme = async (exported: Theme) => {
+        const baseName = exported.name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'theme';
+        const saved = await saveFile(`${baseName}.theme.json`, new TextEncoder().encode(themeJson(exported)), 'application/json');
+        if (saved.location === 'downloads') alert(`Saved "${saved.fileName}" to your Downloads folder.`);
+    };
+
+    const activeParagraphStyle = getElementStyleId(activeBlock?.closest('[class*="ps-"]') ?? null, 'paragraph');
+    const activeCharacterStyle = (() => {
+        const node = selectionState.range?.startContainer;
+        const element = node ? (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement) : null;
+        return getElementStyleId(element?.closest('[class*="cs-"]') ?? null, 'character');
+    })();
+
     const handleUpdateEntryStatus = (id: string, status: 'approved' | 'rejected') => {
         // 1. Update local list state for immediate UI feedback
         setStructureEntries(prev => prev.map(e => e.id === id ? { ...e, status } : e));
@@ -4851,7 +5513,7 @@ ${contentHtml}
             // Fallback: If no patterns found or it's an approval, trigger standard save
             const workspaceToSave = document.querySelector('.editor-workspace');
             if (workspaceToSave) {
-                updateDocState({ ...docState, htmlContent: workspaceToSave.innerHTML }, true);
+                updateDocState({ ...docState, htmlContent: workspaceToSave.innerHTML }, status === 'approved' ? 'Approve structure entry' : 'Reject structure entry');
             }
         }
     };
@@ -4862,14 +5524,14 @@ ${contentHtml}
             workspace.querySelectorAll('h1, h2, h3, [data-structure-status]').forEach(el => {
                 (el as HTMLElement).setAttribute('data-structure-status', 'rejected');
             });
-            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, true);
+            updateDocState({ ...docState, htmlContent: workspace.innerHTML }, 'Clear structure');
         } else {
             const parser = new DOMParser();
             const doc = parser.parseFromString(docState.htmlContent, 'text/html');
             doc.querySelectorAll('h1, h2, h3, [data-structure-status]').forEach(el => {
                 (el as HTMLElement).setAttribute('data-structure-status', 'rejected');
             });
-            updateDocState({ ...docState, htmlContent: doc.body.innerHTML }, true);
+            updateDocState({ ...docState, htmlContent: doc.body.innerHTML }, 'Clear structure');
         }
 
         setStructureEntries(prev => prev.map(entry => ({ ...entry, status: 'rejected' })));
@@ -4936,11 +5598,17 @@ ${contentHtml}
                 onRedo={handleRedo}
                 canUndo={historyIndex > 0}
                 canRedo={historyIndex < history.length - 1}
+                undoLabel={history[historyIndex]?.label}
+                redoLabel={history[historyIndex + 1]?.label}
                 availableFonts={availableFonts}
                 pageMargins={pageMargins}
                 onMarginChange={handleMarginChange}
                 showMarginGuides={showMarginGuides}
                 onToggleMarginGuides={() => setShowMarginGuides(!showMarginGuides)}
+                mirrorMargins={mirrorMargins}
+                onToggleMirrorMargins={handleToggleMirrorMargins}
+                bleed={bleed}
+                onBleedChange={handleBleedChange}
                 showSmartGuides={showSmartGuides}
                 onToggleSmartGuides={() => setShowSmartGuides(!showSmartGuides)}
                 onOpenSettings={() => setIsSettingsModalOpen(true)}
@@ -4948,6 +5616,111 @@ ${contentHtml}
                 onAddFont={handleAddFont}
                 onCaptureSelection={handleCaptureSelection}
                 onOpenLogs={() => setIsAutoLogModalOpen(true)}
+                onOpenRecovery={handleOpenRecovery}
+                onOpenPaginationRules={() => setIsPaginationModalOpen(true)}
+                gutterMode={gutterMode}
+                onGutterModeChange={handleGutterModeChange}
+                onOpenPreflight={handleRunPreflight}
+                onOpenDataMerge={handleOpenDataMerge}
+                onOpenTemplates={handleOpenTemplateGallery}
+                onOpenMasterPages={handleOpenMasterPages}
+                onOpenStyleSheets={() => setIsStyleSheetsOpen(true)}
+                onOpenThemes={() => setIsThemeModalOpen(true)}
+                onOpenFind={() => setIsFindOpen(true)}
+                onOpenSpellcheck={() => setIsSpellcheckOpen(true)}
+                onOpenHistory={() => setIsHistoryOpen(true)}
+            />
+
+            <ThemeModal
+                isOpen={isThemeModalOpen}
+                theme={theme}
+                fonts={availableFonts}
+                onApply={handleApplyTheme}
+                onExport={handleExportTheme}
+                onClose={() => setIsThemeModalOpen(false)}
+            />
+
+            <MasterPagesModal
+                isOpen={masterPageInfo !== null}
+                masters={masterPages}
+                fonts={availableFonts}
+                currentPage={currentPage}
+                pageCount={pageCount}
+                pageMaster={masterPageInfo?.master ?? null}
+                pageOverrides={masterPageInfo?.overrides ?? NO_PAGE_OVERRIDES}
+                onSave={handleSaveMasterPages}
+                onAssign={handleAssignMaster}
+                onSaveOverrides={handleSavePageOverrides}
+                onClose={() => setMasterPageInfo(null)}
+            />
+
+            <TemplateGallery
+                isOpen={isTemplateGalleryOpen}
+                templates={userTemplates}
+                currentPage={currentPage}
+                pageCount={pageCount}
+                onInsert={handleInsertTemplate}
+                onSave={handleSaveTemplate}
+                onDelete={handleDeleteTemplate}
+                onClose={() => setIsTemplateGalleryOpen(false)}
+            />
+
+            <PreflightPanel
+                isOpen={isPreflightOpen}
+                findings={preflightFindings}
+                checkedAt={preflightCheckedAt}
+                onSelect={handleSelectPreflightFinding}
+                onRerun={handleRunPreflight}
+                onClose={() => setIsPreflightOpen(false)}
+            />
+
+            <FindReplacePanel
+                isOpen={isFindOpen}
+                state={findState}
+                onSearch={(query, options) => runFind(query, options)}
+                onStep={handleFindStep}
+                onReplace={handleReplace}
+                onReplaceAll={handleReplaceAll}
+                onClose={handleCloseFind}
+            />
+
+            <SpellcheckPanel
+                isOpen={isSpellcheckOpen}
+                issues={spellIssues}
+                checkedAt={spellCheckedAt}
+                settings={spellcheckSettings}
+                languages={spellcheckLanguages}
+                isReady={!!spellChecker && spellChecker.language === spellcheckSettings.language}
+                error={spellcheckError}
+                getSuggestions={getSpellSuggestions}
+                onSelect={handleSelectSpellIssue}
+                onReplace={handleSpellReplace}
+                onAddWord={handleAddSpellingWord}
+                onRemoveWord={handleRemoveSpellingWord}
+                onIgnore={handleIgnoreSpelling}
+                onSettingsChange={handleSpellcheckSettingsChange}
+                onInstallDictionary={handleInstallDictionary}
+                onRecheck={runSpellcheck}
+                onClose={() => setIsSpellcheckOpen(false)}
+            />
+
+            <HistoryPanel
+                isOpen={isHistoryOpen}
+                entries={history}
+                currentIndex={historyIndex}
+                onJump={handleJumpToHistory}
+                onClose={() => setIsHistoryOpen(false)}
+            />
+
+            <StyleSheetsPanel
+                isOpen={isStyleSheetsOpen}
+                styles={namedStyles}
+                activeParagraphStyle={activeParagraphStyle}
+                activeCharacterStyle={activeCharacterStyle}
+                onApply={handleApplyNamedStyle}
+                onSave={handleSaveNamedStyles}
+                onDelete={handleDeleteNamedStyle}
+                onClose={() => setIsStyleSheetsOpen(false)}
             />
 
             {fontUploadMessage && (
@@ -4956,6 +5729,21 @@ ${contentHtml}
                 </div>
             )}
 
+            {gutterNotice && (
+                <div className={`fixed top-20 left-1/2 -translate-x-1/2 z-50 bg-white border ${gutterNotice.kind === 'switched' ? 'border-brand-200' : 'border-amber-300'} text-xs text-gray-700 px-3 py-2 rounded shadow-lg flex items-center gap-3`}>
+                    <span>{gutterNotice.message}</span>
+                    {gutterNotice.kind === 'warn' && (
+                        <button
+                            onClick={handleApplyGutterNotice}
+                            className="px-2 py-1 text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold"
+                        >
+                            Apply
+                        </button>
+                    )}
+                    <button onClick={handleDismissGutterNotice} className="text-gray-400 hover:text-gray-600">×</button>
+                </div>
+            )}
+
             <div className="app-main flex flex-1 overflow-hidden">
                 <Sidebar
                     isSidebarOpen={isSidebarOpen}
@@ -5012,9 +5800,13 @@ ${contentHtml}
                         onInsertImage={handleInsertImage}
                         onInsertTextLayerAt={handleInsertTextLayerAt}
                         onRefreshTOC={handleRefreshTOC}
+                        getTocPageLabels={getTocPageLabels}
                         showMarginGuides={showMarginGuides}
                         showSmartGuides={showSmartGuides}
                         pageMargins={pageMargins}
+                        mirrorMargins={mirrorMargins}
+                        bleed={bleed}
+                        paginationRules={paginationRules}
                         onMarginChange={handleMarginChange}
                         selectionMode={selectionMode}
                         onBlockSelection={handleBlockSelection}
@@ -5033,6 +5825,11 @@ ${contentHtml}
                         onCopyStyle={handleCopyStyle}
                         onPasteStyle={handlePasteStyle}
                         hasStyleClipboard={!!styleClipboard}
+                        spellIssues={isSpellcheckActive && spellChecker ? spellIssues : null}
+                        getSpellSuggestions={getSpellSuggestions}
+                        onSpellReplace={handleSpellReplace}
+                        onSpellAddWord={handleAddSpellingWord}
+                        onSpellIgnore={handleIgnoreSpelling}
                     />
                     <ZoomControls
                         zoom={zoom}
@@ -5062,6 +5859,30 @@ ${contentHtml}
                 onClose={() => setIsAutoLogModalOpen(false)}
                 onDownload={handleDownloadAutoLog}
                 onClear={handleClearAutoLog}
+                onRestoreSnapshot={handleRestoreSnapshotById}
+            />
+
+            <MergeModal
+                isOpen={mergePlaceholders !== null}
+                placeholders={mergePlaceholders ?? []}
+                defaultFileName={mergeBaseName}
+                onClose={() => setMergePlaceholders(null)}
+                onMerge={handleDataMerge}
+            />
+
+            <PaginationModal
+                isOpen={isPaginationModalOpen}
+                rules={paginationRules}
+                onClose={() => setIsPaginationModalOpen(false)}
+                onSave={handleSavePaginationRules}
+            />
+
+            <RecoveryModal
+                isOpen={isRecoveryModalOpen}
+                snapshots={recoverySnapshots}
+                onRestore={handleRestoreSnapshot}
+                onDiscardAll={handleDiscardSnapshots}
+                onClose={closeRecovery}
             />
 
             <PageNumberModal
@@ -5070,6 +5891,9 @@ ${contentHtml}
                 onApply={handleInsertPageNumbers}
                 onPreview={handlePageNumberPreview}
                 anchors={pageAnchors}
+                settings={pageNumberSettings}
+                currentPage={currentPage}
+                currentPageHidden={isCurrentPageNumberHidden}
             />
 
             <PatternModal
@@ -5085,8 +5909,12 @@ ${contentHtml}
                 currentFileName={docState.fileName}
                 onClose={() => setIsExportModalOpen(false)}
                 onExportPDF={handleExportPDF}
+                onPrint={handlePrint}
                 onExportHTML={handleExportHTML}
                 onExportDOCX={handleExportDOCX}
+                onExportEPUB={handleExportEPUB}
+                onExportMarkdown={handleExportMarkdown}
+                onExportProject={handleExportProject}
             />
         </div>
     );
@@ -6,6 +6,7 @@ interface AutoLogModalProps {
   onClose: () => void;
   onDownload: () => void;
   onClear: () => void;
+  onRestoreSnapshot?: (snapshotId: string) => void;
 }
 
 const formatTime = (ts: number) => {
@@ -16,7 +17,7 @@ const formatTime = (ts: number) => {
   }
 };
 
-const AutoLogModal: React.FC<AutoLogModalProps> = ({ isOpen, onClose, onDownload, onClear }) => {
+const AutoLogModal: React.FC<AutoLogModalProps> = ({ isOpen, onClose, onDownload, onClear, onRestoreSnapshot }) => {
   const [logs, setLogs] = useState<AutoLogEntry[]>([]);
   const [filter, setFilter] = useState('');
 
@@ -103,6 +104,19 @@ const AutoLogModal: React.FC<AutoLogModalProps> = ({ isOpen, onClose, onDownload
                       {entry.extra?.fileName ? `file: ${entry.extra.fileName}` : ''}{entry.extra?.fileName && entry.url ? ' · ' : ''}{entry.url ? `url: ${entry.url}` : ''}
                     </div>
                   )}
+                  {entry.extra?.snapshotId && (
+                    <div className="text-[11px] text-gray-500 mt-2 flex items-center gap-2">
+                      <span>snapshot: {entry.extra.snapshotId}</span>
+                      {onRestoreSnapshot && (
+                        <button
+                          onClick={() => onRestoreSnapshot(String(entry.extra?.snapshotId))}
+                          className="px-2 py-0.5 text-[11px] text-violet-700 border border-violet-200 rounded hover:bg-violet-50"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                  )}
                   {entry.stack && (
                     <pre className="text-[11px] text-gray-600 mt-2 whitespace-pre-wrap">{entry.stack}</pre>
                   )}
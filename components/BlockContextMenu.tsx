@@ -6,6 +6,11 @@ interface BlockContextMenuProps {
   x: number;
   y: number;
   onClose: () => void;
+  spellIssueMessage?: string;
+  spellSuggestions?: string[]; // set when the click was on a spelling or grammar issue
+  onSpellSuggestion?: (text: string) => void;
+  onAddToDictionary?: () => void;
+  onIgnoreSpelling?: () => void;
   onCopy: () => void;
   onCut: () => void;
   onPaste: () => void;
@@ -47,6 +52,11 @@ const BlockContextMenu: React.FC<BlockContextMenuProps> = ({
   x,
   y,
   onClose,
+  spellIssueMessage,
+  spellSuggestions,
+  onSpellSuggestion,
+  onAddToDictionary,
+  onIgnoreSpelling,
   onCopy,
   onCut,
   onPaste,
@@ -121,6 +131,44 @@ const BlockContextMenu: React.FC<BlockContextMenuProps> = ({
           e.stopPropagation();
         }}
       >
+        {/* Spelling and grammar fixes */}
+        {spellSuggestions && (
+          <>
+            {spellIssueMessage && (
+              <div className="px-3 py-1 text-[11px] text-gray-400 max-w-[260px] truncate">{spellIssueMessage}</div>
+            )}
+            {spellSuggestions.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => { onSpellSuggestion?.(suggestion); onClose(); }}
+                className="w-full px-3 py-2 text-left text-sm font-semibold hover:bg-brand-50 hover:text-brand-700 flex items-center gap-2 pointer-events-auto"
+              >
+                {suggestion.trim() ? suggestion : suggestion ? 'Single space' : 'Remove'}
+              </button>
+            ))}
+            {spellSuggestions.length === 0 && (
+              <div className="px-3 py-2 text-sm text-gray-400">No suggestions</div>
+            )}
+            {onAddToDictionary && (
+              <button
+                onClick={() => { onAddToDictionary(); onClose(); }}
+                className="w-full px-3 py-2 text-left text-sm hover:bg-brand-50 hover:text-brand-700 flex items-center gap-2 pointer-events-auto"
+              >
+                Add to document dictionary
+              </button>
+            )}
+            {onIgnoreSpelling && (
+              <button
+                onClick={() => { onIgnoreSpelling(); onClose(); }}
+                className="w-full px-3 py-2 text-left text-sm hover:bg-brand-50 hover:text-brand-700 flex items-center gap-2 pointer-events-auto"
+              >
+                Ignore
+              </button>
+            )}
+            <div className="border-t border-gray-100 my-1" />
+          </>
+        )}
+
         {/* Clipboard actions */}
         <button
           onClick={() => { onCopy(); onClose(); }}
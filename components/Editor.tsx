@@ -1,5 +1,5 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { SelectionState, ImageProperties, HRProperties, StructureEntry } from '../types';
+import { SelectionState, ImageProperties, HRProperties, StructureEntry, PaginationRules } from '../types';
 import ImageOverlay from './ImageOverlay';
 import { reflowPages, reflowPagesUntilStable } from '../utils/pagination';
 import { mergeAdjacentTables, mergeSplitTableParts } from '../utils/tableMerge';
@@ -12,11 +12,12 @@ import QRCodeModal from './QRCodeModal';
 import LinkToolbar from './LinkToolbar';
 import TableTocModal from './TableTocModal';
 import { PatternTracker, findSimilarElements, getElementSignature, PatternMatch, ActionType } from '../utils/patternDetector';
+import { SpellIssue, clearSpellHighlights, highlightSpellIssues, issueAtPoint } from '../utils/spellcheck';
 
 interface EditorProps {
     htmlContent: string;
     cssContent: string;
-    onContentChange: (html: string) => void;
+    onContentChange: (html: string, historyLabel?: string) => void; // labeled changes are saved as an undo step at once
     onSelectionChange: (state: SelectionState, activeBlock: HTMLElement | null) => void;
     onBlockClick?: (block: HTMLElement | null) => void;
     onImageSelect: (img: HTMLImageElement | null) => void;
@@ -29,6 +30,7 @@ interface EditorProps {
     selectedFooter: HTMLElement | null;
     onFooterSelect: (footer: HTMLElement | null) => void;
     onRefreshTOC: (tocId?: string) => void;
+    getTocPageLabels?: (pages: HTMLElement[]) => string[]; // page references as numbered; default: page positions
     imageProperties: ImageProperties;
     onCropComplete: (newSrc: string, width: number, height: number) => void;
     onCancelCrop: () => void;
@@ -48,6 +50,9 @@ interface EditorProps {
     showMarginGuides: boolean;
     showSmartGuides: boolean;
     pageMargins: { top: number, bottom: number, left: number, right: number };
+    mirrorMargins: boolean;
+    bleed: number;
+    paginationRules: PaginationRules; // widow/orphan and keep-with-next rules for every reflow
     onMarginChange: (key: 'top' | 'bottom' | 'left' | 'right', value: number) => void;
     selectionMode?: { active: boolean; level: string | null; selectedIds: string[] };
     onBlockSelection?: (id: string) => void;
@@ -57,6 +62,11 @@ interface EditorProps {
     onCopyStyle: () => void;
     onPasteStyle: () => void;
     hasStyleClipboard: boolean;
+    spellIssues?: SpellIssue[] | null; // underlined, with their fixes on right click; null = checking off
+    getSpellSuggestions?: (issue: SpellIssue) => string[];
+    onSpellReplace?: (issue: SpellIssue, text: string) => void;
+    onSpellAddWord?: (word: string) => void;
+    onSpellIgnore?: (issue: SpellIssue) => void;
 }
 
 // Helper to convert RGB/RGBA to Hex
@@ -313,12 +323,16 @@ const Editor: React.FC<EditorProps> = ({
     selectedFooter,
     onFooterSelect,
     onRefreshTOC,
+    getTocPageLabels,
     containerRef,
     selectedImage,
     selectedTextLayer,
     showMarginGuides,
     showSmartGuides,
     pageMargins,
+    mirrorMargins,
+    bleed,
+    paginationRules,
     onMarginChange,
     selectionMode,
     onBlockSelection,
@@ -343,11 +357,21 @@ const Editor: React.FC<EditorProps> = ({
     viewMode,
     onCopyStyle,
     onPasteStyle,
-    hasStyleClipboard
+    hasStyleClipboard,
+    spellIssues = null,
+    getSpellSuggestions,
+    onSpellReplace,
+    onSpellAddWord,
+    onSpellIgnore
 }) => {
     const contentRef = useRef<HTMLDivElement>(null);
+    // Read from handlers registered once, so they always use the latest numbering
+    const tocPageLabelsRef = useRef(getTocPageLabels);
+    tocPageLabelsRef.current = getTocPageLabels;
+    const paginationRulesRef = useRef(paginationRules);
+    paginationRulesRef.current = paginationRules;
     const [pageRects, setPageRects] = useState<{ top: number; left: number; width: number; height: number }[]>([]);
-    const [contextMenu, setContextMenu] = useState<{ x: number; y: number; block: HTMLElement | null; linkUrl?: string } | null>(null);
+    const [contextMenu, setContextMenu] = useState<{ x: number; y: number; block: HTMLElement | null; linkUrl?: string; spellIssue?: SpellIssue | null } | null>(null);
     const [activeBlock, setActiveBlock] = useState<HTMLElement | null>(null);
     const [qrModal, setQrModal] = useState<{ isOpen: boolean; url: string }>({ isOpen: false, url: '' });
     const [activeLink, setActiveLink] = useState<{ url: string; x: number; y: number; element: HTMLAnchorElement } | null>(null);
@@ -433,8 +457,11 @@ const Editor: React.FC<EditorProps> = ({
         return contains || null;
     };
 
+    const getTocPageLabel = (page: number, labels?: string[]) => labels?.[page - 1] ?? String(page);
+
     const updateTocTablePageNumbers = (workspace: HTMLElement) => {
         const pages = Array.from(workspace.querySelectorAll('.page')) as HTMLElement[];
+        const labels = tocPageLabelsRef.current?.(pages);
         const tables = Array.from(workspace.querySelectorAll('table.toc-table, table[data-toc-table="true"]')) as HTMLTableElement[];
 
         tables.forEach(table => {
@@ -448,7 +475,7 @@ const Editor: React.FC<EditorProps> = ({
                 const cells = Array.from(row.querySelectorAll('th, td')) as HTMLElement[];
                 if (cells.length === 0) return;
                 const pageCell = cells[cells.length - 1];
-                pageCell.textContent = String(page);
+                pageCell.textContent = getTocPageLabel(page, labels);
                 pageCell.setAttribute('data-toc-page', 'true');
             });
         });
@@ -511,6 +538,7 @@ const Editor: React.FC<EditorProps> = ({
         if (!table) return;
 
         const pages = Array.from(workspace.querySelectorAll('.page')) as HTMLElement[];
+        const labels = tocPageLabelsRef.current?.(pages);
         const tableRows = Array.from(table.querySelectorAll('tr')) as HTMLTableRowElement[];
 
         rows.forEach(row => {
@@ -545,13 +573,13 @@ const Editor: React.FC<EditorProps> = ({
             }
 
             const page = getPageIndexForElement(target, pages);
-            pageCell.textContent = String(page);
+            pageCell.textContent = getTocPageLabel(page, labels);
             pageCell.setAttribute('data-toc-page', 'true');
         });
 
         updateTocTablePageNumbers(workspace);
-        reflowPages(workspace);
-        onContentChange(workspace.innerHTML);
+        reflowPages(workspace, { rules: paginationRulesRef.current });
+        onContentChange(workspace.innerHTML, 'Refresh TOC');
     };
 
     // Pattern detection
@@ -590,6 +618,13 @@ const Editor: React.FC<EditorProps> = ({
         }
     }, [htmlContent, selectionMode]);
 
+    // Spelling squiggles; the ranges follow edits to their text until the next check
+    useEffect(() => {
+        if (!spellIssues) return;
+        highlightSpellIssues(spellIssues);
+        return clearSpellHighlights;
+    }, [spellIssues]);
+
     // Measure pages for overlays
     useEffect(() => {
         if (!showMarginGuides || !contentRef.current || !containerRef.current) return;
@@ -622,7 +657,7 @@ const Editor: React.FC<EditorProps> = ({
             observer.disconnect();
             window.removeEventListener('resize', updateRects);
         };
-    }, [htmlContent, showMarginGuides, containerRef, zoom, cssContent]);
+    }, [htmlContent, showMarginGuides, containerRef, zoom, cssContent, viewMode]);
 
     const handleSelectionChange = useCallback(() => {
         if (suppressSelectionRef?.current) return;
@@ -906,8 +941,10 @@ const Editor: React.FC<EditorProps> = ({
             if (!page) return;
             const pageRect = page.getBoundingClientRect();
             const scale = pageRect.width / page.offsetWidth || 1;
-            const leftBound = pageRect.left + pageMargins.left * PPI * scale;
-            const rightBound = pageRect.right - pageMargins.right * PPI * scale;
+            // Padding already reflects mirrored margins and bleed for this page
+            const pageStyle = window.getComputedStyle(page);
+            const leftBound = pageRect.left + (parseFloat(pageStyle.paddingLeft) || 0) * scale;
+            const rightBound = pageRect.right - (parseFloat(pageStyle.paddingRight) || 0) * scale;
 
             const rect = el.getBoundingClientRect();
             if (rect.width <= 0 || rect.height <= 0) return;
@@ -983,7 +1020,7 @@ const Editor: React.FC<EditorProps> = ({
                 marginCheckRafRef.current = null;
             }
         };
-    }, [updateMarginOverflows, htmlContent, zoom, pageMargins]);
+    }, [updateMarginOverflows, htmlContent, zoom, pageMargins, cssContent]);
 
     // True if caret is at position 0 inside block (ignoring empty text nodes, <br>, zero-width spaces)
     const isAtBlockStart = (range: Range, block: HTMLElement): boolean => {
@@ -1185,8 +1222,8 @@ const Editor: React.FC<EditorProps> = ({
                 onHRSelect(null);
                 onFooterSelect(null);
                 if (contentRef.current) {
-                    reflowPagesUntilStable(contentRef.current);
-                    onContentChange(contentRef.current.innerHTML);
+                    reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+                    onContentChange(contentRef.current.innerHTML, 'Delete');
                 }
                 return;
             }
@@ -1208,8 +1245,8 @@ const Editor: React.FC<EditorProps> = ({
                     const childMarker = breakPage.querySelector(':scope > [data-user-page-break="true"]');
                     if (childMarker) childMarker.remove();
                     if (contentRef.current) {
-                        reflowPagesUntilStable(contentRef.current);
-                        onContentChange(contentRef.current.innerHTML);
+                        reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+                        onContentChange(contentRef.current.innerHTML, 'Remove page break');
                     }
                     return;
                 }
@@ -1241,8 +1278,8 @@ const Editor: React.FC<EditorProps> = ({
                 newRange.collapse(true);
                 selection.removeAllRanges();
                 selection.addRange(newRange);
-                reflowPages(contentRef.current);
-                onContentChange(contentRef.current.innerHTML);
+                reflowPages(contentRef.current, { rules: paginationRulesRef.current });
+                onContentChange(contentRef.current.innerHTML, 'Insert paragraph');
             }
         }
     };
@@ -1258,6 +1295,7 @@ const Editor: React.FC<EditorProps> = ({
             if (!contentRef.current) return;
             const restoreSelection = preserveSelection(contentRef.current);
             reflowPagesUntilStable(contentRef.current, {
+                rules: paginationRulesRef.current,
                 onDone: () => {
                     restoreSelection();
                     lastUserEditAtRef.current = Date.now();
@@ -1385,8 +1423,8 @@ const Editor: React.FC<EditorProps> = ({
                     if (imgUrl) {
                         document.execCommand('insertImage', false, imgUrl);
                         if (contentRef.current) {
-                            reflowPages(contentRef.current);
-                            onContentChange(contentRef.current.innerHTML);
+                            reflowPages(contentRef.current, { rules: paginationRulesRef.current });
+                            onContentChange(contentRef.current.innerHTML, 'Insert image');
                         }
                     }
                 };
@@ -1461,7 +1499,8 @@ const Editor: React.FC<EditorProps> = ({
         }
 
         setActiveBlock(block);
-        setContextMenu({ x: e.clientX, y: e.clientY, block, linkUrl });
+        const spellIssue = spellIssues ? issueAtPoint(spellIssues, e.clientX, e.clientY) : null;
+        setContextMenu({ x: e.clientX, y: e.clientY, block, linkUrl, spellIssue });
     };
 
     const handleToggleMarginOverride = useCallback((block: HTMLElement | null) => {
@@ -1472,7 +1511,7 @@ const Editor: React.FC<EditorProps> = ({
             block.setAttribute('data-ignore-margins', 'true');
         }
         if (contentRef.current) {
-            onContentChange(contentRef.current.innerHTML);
+            onContentChange(contentRef.current.innerHTML, 'Toggle margin override');
         }
         updateMarginOverflows();
     }, [onContentChange, updateMarginOverflows]);
@@ -1500,8 +1539,8 @@ const Editor: React.FC<EditorProps> = ({
             }
         }
         if (contentRef.current) {
-            reflowPages(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPages(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Insert');
         }
     };
 
@@ -1541,8 +1580,8 @@ const Editor: React.FC<EditorProps> = ({
         const prev = activeBlock.previousElementSibling;
         activeBlock.parentNode?.insertBefore(activeBlock, prev);
         if (contentRef.current) {
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Move up');
         }
     };
 
@@ -1551,8 +1590,8 @@ const Editor: React.FC<EditorProps> = ({
         const next = activeBlock.nextElementSibling;
         activeBlock.parentNode?.insertBefore(next, activeBlock);
         if (contentRef.current) {
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Move down');
         }
     };
 
@@ -1631,8 +1670,8 @@ const Editor: React.FC<EditorProps> = ({
             }
         }
         if (merged) {
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Merge tables');
         }
     };
 
@@ -1673,8 +1712,8 @@ const Editor: React.FC<EditorProps> = ({
         const merged = mergeWorksheets(target, source);
         if (merged) {
             setActiveBlock(target);
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Merge worksheets');
         }
     };
 
@@ -1741,8 +1780,8 @@ const Editor: React.FC<EditorProps> = ({
             onClearMultiSelect();
             target.setAttribute('data-selected', 'true');
             setActiveBlock(target);
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Merge selection');
         }
     };
 
@@ -1753,7 +1792,7 @@ const Editor: React.FC<EditorProps> = ({
         contextMenu.block.style.position = contextMenu.block.style.position || 'relative'; // Ensure z-index works
 
         if (contentRef.current) {
-            onContentChange(contentRef.current.innerHTML);
+            onContentChange(contentRef.current.innerHTML, 'Send backward');
         }
         setContextMenu(null);
     };
@@ -1765,7 +1804,7 @@ const Editor: React.FC<EditorProps> = ({
         contextMenu.block.style.position = contextMenu.block.style.position || 'relative';
 
         if (contentRef.current) {
-            onContentChange(contentRef.current.innerHTML);
+            onContentChange(contentRef.current.innerHTML, 'Bring forward');
         }
         setContextMenu(null);
     };
@@ -1801,8 +1840,8 @@ const Editor: React.FC<EditorProps> = ({
         activeBlock.remove();
         setActiveBlock(null);
         if (contentRef.current) {
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Delete block');
         }
     };
 
@@ -1814,8 +1853,8 @@ const Editor: React.FC<EditorProps> = ({
         }
         activeBlock.parentNode?.insertBefore(clone, activeBlock.nextSibling);
         if (contentRef.current) {
-            reflowPages(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPages(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Duplicate block');
         }
     };
 
@@ -1827,8 +1866,8 @@ const Editor: React.FC<EditorProps> = ({
     const handleCut = () => {
         document.execCommand('cut');
         if (contentRef.current) {
-            reflowPagesUntilStable(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, 'Cut');
         }
     };
 
@@ -1837,8 +1876,8 @@ const Editor: React.FC<EditorProps> = ({
             const clipboardData = await navigator.clipboard.readText();
             document.execCommand('insertText', false, clipboardData);
             if (contentRef.current) {
-                reflowPages(contentRef.current);
-                onContentChange(contentRef.current.innerHTML);
+                reflowPages(contentRef.current, { rules: paginationRulesRef.current });
+                onContentChange(contentRef.current.innerHTML, 'Paste');
             }
         } catch {
             document.execCommand('paste');
@@ -1927,8 +1966,8 @@ const Editor: React.FC<EditorProps> = ({
         });
 
         if (contentRef.current) {
-            reflowPages(contentRef.current);
-            onContentChange(contentRef.current.innerHTML);
+            reflowPages(contentRef.current, { rules: paginationRulesRef.current });
+            onContentChange(contentRef.current.innerHTML, `Apply ${actionType} pattern`);
         }
 
         patternTrackerRef.current.clear();
@@ -2290,6 +2329,7 @@ const Editor: React.FC<EditorProps> = ({
                         if (!isFloatingText) {
                             const _editor = contentRef.current;
                             reflowPagesUntilStable(_editor, {
+                                rules: paginationRulesRef.current,
                                 onDone: () => {
                                     restoreSelection();
                                     updateTocTablePageNumbers(_editor);
@@ -2378,6 +2418,19 @@ const Editor: React.FC<EditorProps> = ({
         transformOrigin: 'top center',
     };
 
+    // Margins as seen from the page box edges: swapped on mirrored versos, plus the bleed
+    const getPhysicalMargins = (isVerso: boolean) => {
+        const swap = mirrorMargins && isVerso;
+        const left = swap ? pageMargins.right : pageMargins.left;
+        const right = swap ? pageMargins.left : pageMargins.right;
+        return {
+            top: pageMargins.top + bleed,
+            bottom: pageMargins.bottom + bleed,
+            left: left + (isVerso ? bleed : 0),
+            right: right + (isVerso ? 0 : bleed)
+        };
+    };
+
     const workspaceClasses = viewMode === 'double'
         ? 'editor-workspace flex flex-row flex-wrap justify-center gap-4 outline-none relative'
         : 'editor-workspace w-full flex flex-col items-center outline-none relative';
@@ -2534,6 +2587,22 @@ const Editor: React.FC<EditorProps> = ({
                 margin-bottom: 0 !important;
             }
             ` : ''}
+            ${viewMode === 'double' && mirrorMargins ? `
+            /* Facing pages: page 1 is a recto on its own, then verso/recto pairs meet at the spine */
+            .editor-workspace {
+                display: grid !important;
+                grid-template-columns: repeat(2, max-content) !important;
+                justify-content: center !important;
+                column-gap: 0 !important;
+                row-gap: 1.5rem !important;
+            }
+            .editor-workspace .page {
+                margin: 0 !important;
+            }
+            .editor-workspace .page:nth-child(1 of .page) {
+                grid-column: 2;
+            }
+            ` : ''}
         `}</style>
 
             {isTextLayerMode && (
@@ -2545,6 +2614,7 @@ const Editor: React.FC<EditorProps> = ({
                 className={`${workspaceClasses} ${selectionMode?.active ? 'cursor-crosshair' : ''} ${isTextLayerMode ? 'text-layer-mode' : ''} ${tableTocModal.isOpen ? 'toc-modal-open' : ''}`}
                 style={zoomStyle}
                 contentEditable={!imageProperties.isCropping && !selectionMode?.active}
+                spellCheck={!spellIssues}
                 suppressContentEditableWarning={true}
                 onMouseDown={(e) => {
                     if (e.metaKey && e.button === 0 && !isTextLayerMode && !imageProperties.isCropping && !selectionMode?.active) {
@@ -2644,7 +2714,7 @@ const Editor: React.FC<EditorProps> = ({
                     // Recovery: move any orphaned elements back inside pages.
                     if (contentRef.current) {
                         scheduleReflow();
-                        onContentChange(contentRef.current.innerHTML);
+                        onContentChange(contentRef.current.innerHTML, 'Move');
                     }
                     // Allow image file drops only if target is inside a .page
                     const dropTarget = e.target as HTMLElement;
@@ -2740,8 +2810,20 @@ const Editor: React.FC<EditorProps> = ({
                                 className="absolute pointer-events-none"
                                 style={{ top: rect.top, left: rect.left, width: rect.width, height: rect.height }}
                             >
-                                <PageRuler width={rect.width} height={rect.height} margins={pageMargins} />
-                                <MarginGuides width={rect.width} height={rect.height} margins={pageMargins} onMarginChange={onMarginChange} />
+                                <PageRuler
+                                    width={rect.width}
+                                    height={rect.height}
+                                    margins={getPhysicalMargins(i % 2 === 1)}
+                                />
+                                <MarginGuides
+                                    width={rect.width}
+                                    height={rect.height}
+                                    margins={pageMargins}
+                                    onMarginChange={onMarginChange}
+                                    mirrored={mirrorMargins}
+                                    isVerso={i % 2 === 1}
+                                    bleed={bleed}
+                                />
                             </div>
                         ))}
                     </div>
@@ -2778,10 +2860,11 @@ const Editor: React.FC<EditorProps> = ({
                     onCancelCrop={onCancelCrop}
                     multiSelectedElements={multiSelectedElements}
                     pageMargins={pageMargins}
+                    bleed={bleed}
                     onResize={() => {
                         if (contentRef.current) {
-                            reflowPagesUntilStable(contentRef.current);
-                            onContentChange(contentRef.current.innerHTML);
+                            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+                            onContentChange(contentRef.current.innerHTML, 'Resize image');
                         }
                     }}
                 />
@@ -2797,10 +2880,11 @@ const Editor: React.FC<EditorProps> = ({
                     onCancelCrop={() => { }}
                     multiSelectedElements={multiSelectedElements}
                     pageMargins={pageMargins}
+                    bleed={bleed}
                     onResize={() => {
                         if (contentRef.current) {
-                            reflowPagesUntilStable(contentRef.current);
-                            onContentChange(contentRef.current.innerHTML);
+                            reflowPagesUntilStable(contentRef.current, { rules: paginationRulesRef.current });
+                            onContentChange(contentRef.current.innerHTML, 'Resize text layer');
                         }
                     }}
                 />
@@ -2811,6 +2895,11 @@ const Editor: React.FC<EditorProps> = ({
                     x={contextMenu.x}
                     y={contextMenu.y}
                     onClose={() => setContextMenu(null)}
+                    spellIssueMessage={contextMenu.spellIssue?.message}
+                    spellSuggestions={contextMenu.spellIssue ? (contextMenu.spellIssue.suggestions ?? getSpellSuggestions?.(contextMenu.spellIssue) ?? []) : undefined}
+                    onSpellSuggestion={contextMenu.spellIssue && onSpellReplace ? (text) => onSpellReplace(contextMenu.spellIssue!, text) : undefined}
+                    onAddToDictionary={contextMenu.spellIssue?.kind === 'spelling' && onSpellAddWord ? () => onSpellAddWord(contextMenu.spellIssue!.text) : undefined}
+                    onIgnoreSpelling={contextMenu.spellIssue && onSpellIgnore ? () => onSpellIgnore(contextMenu.spellIssue!) : undefined}
                     onCopy={handleCopy}
                     onCut={handleCut}
                     onPaste={handlePaste}
@@ -2858,7 +2947,8 @@ const Editor: React.FC<EditorProps> = ({
                         if (contentRef.current) {
                             const _editor = contentRef.current;
                             reflowPagesUntilStable(_editor, {
-                                onDone: () => { onContentChange(_editor.innerHTML); }
+                                rules: paginationRulesRef.current,
+                                onDone: () => { onContentChange(_editor.innerHTML, 'Move'); }
                             });
                         }
                         setActiveBlock(null);
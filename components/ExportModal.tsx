@@ -5,8 +5,12 @@ interface ExportModalProps {
   currentFileName: string;
   onClose: () => void;
   onExportPDF: (fileName: string) => void;
+  onPrint: (fileName: string) => void;
   onExportHTML: (fileName: string) => void;
   onExportDOCX: (fileName: string) => void;
+  onExportEPUB: (fileName: string, options: { convertPracticeLines: boolean }) => void;
+  onExportMarkdown: (fileName: string) => void;
+  onExportProject: (fileName: string) => void;
 }
 
 const ExportModal: React.FC<ExportModalProps> = ({
@@ -14,12 +18,17 @@ const ExportModal: React.FC<ExportModalProps> = ({
   currentFileName,
   onClose,
   onExportPDF,
+  onPrint,
   onExportHTML,
-  onExportDOCX
+  onExportDOCX,
+  onExportEPUB,
+  onExportMarkdown,
+  onExportProject
 }) => {
-  const baseName = currentFileName.replace(/\.(html?|docx?)$/i, '');
+  const baseName = currentFileName.replace(/\.(html?|docx?|epub|md|markdown|iwp)$/i, '');
   const [fileName, setFileName] = useState(baseName);
-  const [format, setFormat] = useState<'pdf' | 'html' | 'docx'>('pdf');
+  const [format, setFormat] = useState<'pdf' | 'print' | 'html' | 'docx' | 'epub' | 'markdown' | 'project'>('pdf');
+  const [convertPracticeLines, setConvertPracticeLines] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
 
   if (!isOpen) return null;
@@ -33,17 +42,29 @@ const ExportModal: React.FC<ExportModalProps> = ({
         case 'pdf':
           await onExportPDF(finalName);
           break;
+        case 'print':
+          await onPrint(finalName);
+          break;
         case 'html':
           onExportHTML(finalName);
           break;
         case 'docx':
           await onExportDOCX(finalName);
           break;
+        case 'epub':
+          await onExportEPUB(finalName, { convertPracticeLines });
+          break;
+        case 'markdown':
+          await onExportMarkdown(finalName);
+          break;
+        case 'project':
+          await onExportProject(finalName);
+          break;
       }
       onClose();
     } catch (error) {
       console.error('Export failed:', error);
-      alert('Export failed. Please try again.');
+      alert(error instanceof Error ? error.message : 'Export failed. Please try again.');
     } finally {
       setIsExporting(false);
     }
@@ -88,7 +109,20 @@ const ExportModal: React.FC<ExportModalProps> = ({
               >
                 <div className="text-3xl">📄</div>
                 <div className="text-sm font-semibold">PDF</div>
-                <div className="text-xs text-gray-500">Print</div>
+                <div className="text-xs text-gray-500">Print-ready</div>
+              </button>
+
+              <button
+                onClick={() => setFormat('print')}
+                className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                  format === 'print'
+                    ? 'border-violet-500 bg-violet-50 text-violet-700'
+                    : 'border-gray-200 hover:border-violet-300 hover:bg-violet-50/30'
+                }`}
+              >
+                <div className="text-3xl">🖨️</div>
+                <div className="text-sm font-semibold">Print</div>
+                <div className="text-xs text-gray-500">Dialog</div>
               </button>
               
               <button
@@ -116,21 +150,84 @@ const ExportModal: React.FC<ExportModalProps> = ({
                 <div className="text-sm font-semibold">DOCX</div>
                 <div className="text-xs text-gray-500">Word</div>
               </button>
+
+              <button
+                onClick={() => setFormat('epub')}
+                className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                  format === 'epub'
+                    ? 'border-violet-500 bg-violet-50 text-violet-700'
+                    : 'border-gray-200 hover:border-violet-300 hover:bg-violet-50/30'
+                }`}
+              >
+                <div className="text-3xl">📚</div>
+                <div className="text-sm font-semibold">EPUB</div>
+                <div className="text-xs text-gray-500">Ebook</div>
+              </button>
+
+              <button
+                onClick={() => setFormat('markdown')}
+                className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                  format === 'markdown'
+                    ? 'border-violet-500 bg-violet-50 text-violet-700'
+                    : 'border-gray-200 hover:border-violet-300 hover:bg-violet-50/30'
+                }`}
+              >
+                <div className="text-3xl">Ⓜ️</div>
+                <div className="text-sm font-semibold">Markdown</div>
+                <div className="text-xs text-gray-500">.md</div>
+              </button>
+
+              <button
+                onClick={() => setFormat('project')}
+                className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                  format === 'project'
+                    ? 'border-violet-500 bg-violet-50 text-violet-700'
+                    : 'border-gray-200 hover:border-violet-300 hover:bg-violet-50/30'
+                }`}
+              >
+                <div className="text-3xl">💾</div>
+                <div className="text-sm font-semibold">Project</div>
+                <div className="text-xs text-gray-500">.iwp</div>
+              </button>
             </div>
           </div>
 
           {/* Info */}
           <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-600">
             {format === 'pdf' && (
-              <>📄 The PDF keeps layout, images, and formatting exactly as shown.</>
+              <>📄 The PDF is written directly at the exact page size, with embedded custom fonts, selectable text and bookmarks from the Structure panel.</>
+            )}
+            {format === 'print' && (
+              <>🖨️ Opens the system print dialog to print on paper or save with your own printer settings.</>
             )}
             {format === 'html' && (
               <>🌐 HTML preserves all content and can be reopened in Instant Writer Pro.</>
             )}
             {format === 'docx' && (
-              <>📝 DOCX can be opened in Microsoft Word, Google Docs, and other editors.</>
+              <>📝 A native Word document: headings, lists, tables, shapes and page setup stay editable in Word, Google Docs and LibreOffice.</>
+            )}
+            {format === 'epub' && (
+              <>📚 A reflowable EPUB 3 ebook: chapters start at each H1 in the Structure panel, with a table of contents, embedded images and custom fonts. Page numbers and page breaks are left out.</>
+            )}
+            {format === 'markdown' && (
+              <>Ⓜ️ Plain-text Markdown with headings, emphasis, lists, tables, images, code and page breaks. Shapes, text layers and QR codes have no Markdown syntax: you get a report of what was simplified.</>
+            )}
+            {format === 'project' && (
+              <>💾 The project file keeps page setup, structure, TOC, page numbers, images and custom fonts, and reopens exactly where you left off.</>
             )}
           </div>
+
+          {format === 'epub' && (
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={convertPracticeLines}
+                onChange={(e) => setConvertPracticeLines(e.target.checked)}
+                className="mt-0.5 accent-violet-600"
+              />
+              <span>Convert writing & tracing lines for e-readers (ruled space with a note, plain tracing text)</span>
+            </label>
+          )}
         </div>
 
         <div className="p-6 border-t bg-gray-50 flex justify-center gap-4 rounded-b-xl">
@@ -155,7 +252,7 @@ const ExportModal: React.FC<ExportModalProps> = ({
                 Exporting...
               </>
             ) : (
-              <>Download {format.toUpperCase()}</>
+              <>{format === 'print' ? 'Print' : `Download ${format === 'project' ? 'project' : format === 'markdown' ? 'Markdown' : format.toUpperCase()}`}</>
             )}
           </button>
         </div>
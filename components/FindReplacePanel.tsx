@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { FindOptions, MAX_FIND_MATCHES } from '../utils/findReplace';
+
+export interface FindState {
+  count: number;
+  index: number; // -1 = no current match
+  error: string;
+  message: string;
+}
+
+interface FindReplacePanelProps {
+  isOpen: boolean;
+  state: FindState;
+  onSearch: (query: string, options: FindOptions) => void;
+  onStep: (direction: 1 | -1) => void;
+  onReplace: (replacement: string) => void;
+  onReplaceAll: (replacement: string) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: Array<{ key: keyof FindOptions; label: string; title: string }> = [
+  { key: 'matchCase', label: 'Aa', title: 'Match case' },
+  { key: 'wholeWord', label: 'W', title: 'Whole word' },
+  { key: 'regex', label: '.*', title: 'Regular expression ($1… in the replacement)' }
+];
+
+const SEARCH_DELAY_MS = 200;
+
+// Floating, non-modal like the preflight panel, so the document stays editable while searching.
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ isOpen, state, onSearch, onStep, onReplace, onReplaceAll, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>({ matchCase: false, wholeWord: false, regex: false });
+  const queryInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (isOpen) queryInputRef.current?.select();
+  }, [isOpen]);
+
+  // Not keyed on onSearch: it is a new function on every App render
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setTimeout(() => onSearch(query, options), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isOpen, query, options]);
+
+  if (!isOpen) return null;
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onStep(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const status = state.error
+    || state.message
+    || (!query ? '' : state.count === 0 ? 'No matches' : `${state.index + 1} of ${state.count}${state.count >= MAX_FIND_MATCHES ? '+' : ''}`);
+
+  return (
+    <div className="fixed top-24 right-6 z-[150] bg-white rounded-lg shadow-xl border border-gray-200 w-[380px] max-w-[90vw] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="font-bold text-sm text-gray-800">Find and replace</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+      </div>
+
+      <div className="p-3 space-y-2">
+        <div className="flex items-center gap-1">
+          <input
+            ref={queryInputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleQueryKeyDown}
+            placeholder="Find"
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500"
+          />
+          {OPTIONS.map(option => (
+            <button
+              key={option.key}
+              onClick={() => setOptions(prev => ({ ...prev, [option.key]: !prev[option.key] }))}
+              title={option.title}
+              className={`w-7 h-7 text-[11px] font-mono rounded border ${options[option.key] ? 'bg-violet-600 text-white border-violet-600' : 'text-gray-600 border-gray-300 hover:bg-brand-50'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+            placeholder="Replace with"
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500"
+          />
+          <button
+            onClick={() => onReplace(replacement)}
+            disabled={state.index < 0}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-brand-50 disabled:opacity-40"
+          >
+            Replace
+          </button>
+          <button
+            onClick={() => onReplaceAll(replacement)}
+            disabled={state.count === 0}
+            className="px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold disabled:opacity-40"
+          >
+            All
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className={`text-[11px] ${state.error ? 'text-red-600' : 'text-gray-500'}`}>{status}</span>
+          <div className="flex gap-1">
+            <button onClick={() => onStep(-1)} disabled={state.count === 0} title="Previous (Shift+Enter)" className="p-1 rounded border border-gray-300 hover:bg-brand-50 disabled:opacity-40">
+              <ChevronUp size={12} />
+            </button>
+            <button onClick={() => onStep(1)} disabled={state.count === 0} title="Next (Enter)" className="p-1 rounded border border-gray-300 hover:bg-brand-50 disabled:opacity-40">
+              <ChevronDown size={12} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FindReplacePanel;
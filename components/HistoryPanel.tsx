@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry, historyBytes } from '../utils/history';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onJump: (entryId: number) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => (bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`);
+
+// Floating, non-modal like the preflight panel: jumping keeps the later steps, so it can be redone.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, entries, currentIndex, onJump, onClose }) => {
+  const currentRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    if (isOpen) currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isOpen, currentIndex, entries.length]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed top-24 right-6 z-[150] bg-white rounded-lg shadow-xl border border-gray-200 w-[320px] max-w-[90vw] max-h-[70vh] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-sm text-gray-800">History</h3>
+          <div className="text-[11px] text-gray-500">Click a step to go back or forward to it</div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-2">
+        {entries.map((entry, index) => (
+          <button
+            key={entry.id}
+            ref={index === currentIndex ? currentRef : undefined}
+            onClick={() => onJump(entry.id)}
+            className={`w-full text-left flex items-baseline justify-between gap-2 px-2 py-1.5 rounded text-xs ${
+              index === currentIndex
+                ? 'bg-violet-600 text-white font-semibold'
+                : index > currentIndex
+                  ? 'text-gray-400 italic hover:bg-gray-50'
+                  : 'text-gray-700 hover:bg-brand-50'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className={`text-[10px] shrink-0 ${index === currentIndex ? 'text-violet-100' : 'text-gray-400'}`}>
+              {new Date(entry.timestamp).toLocaleTimeString()}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="border-t border-gray-200 px-3 py-2 text-[11px] text-gray-500">
+        {entries.length} step{entries.length === 1 ? '' : 's'} · {formatSize(historyBytes(entries))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -10,6 +10,7 @@ interface ImageOverlayProps {
   onResize?: () => void;
   multiSelectedElements?: string[];
   pageMargins?: { top: number; bottom: number; left: number; right: number };
+  bleed?: number; // inches; elements that ignore margins snap to the bleed edge
 }
 
 const ImageOverlay: React.FC<ImageOverlayProps> = ({ 
@@ -21,24 +22,33 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({
   onCancelCrop,
   onResize,
   multiSelectedElements,
-  pageMargins
+  pageMargins,
+  bleed = 0
 }) => {
   const isImage = image.tagName === 'IMG';
   const [rect, setRect] = useState<DOMRect | null>(null);
   const [cropRect, setCropRect] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
   const [guides, setGuides] = useState<{ type: 'horizontal' | 'vertical', x?: number, y?: number, length?: number }[]>([]);
   const [lockAspect, setLockAspect] = useState(true);
-  const PPI = 96;
 
+  // The page padding already carries mirrored margins and bleed for this page
   const getMarginBounds = (page: HTMLElement | null) => {
     if (!page || !pageMargins) return null;
     const pageRect = page.getBoundingClientRect();
     const scale = pageRect.width / page.offsetWidth || 1;
+    const pageStyle = window.getComputedStyle(page);
     return {
-        left: pageRect.left + pageMargins.left * PPI * scale,
-        right: pageRect.right - pageMargins.right * PPI * scale
+        left: pageRect.left + (parseFloat(pageStyle.paddingLeft) || 0) * scale,
+        right: pageRect.right - (parseFloat(pageStyle.paddingRight) || 0) * scale
     };
   };
+
+  // With bleed the page box edges are the bleed edges; full-bleed art snaps to them
+  const BLEED_SNAP_THRESHOLD = 8;
+  const snapToEdge = (value: number, edges: number[]) => {
+    const edge = edges.find(target => Math.abs(value - target) < BLEED_SNAP_THRESHOLD);
+    return edge === undefined ? value : edge;
+  };
   
   // Sync overlay position with image
   const updatePosition = () => {
@@ -264,6 +274,9 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({
     const startTop = parseFloat(image.style.top) || 0;
     const allowOverflow = (image as HTMLElement).getAttribute('data-ignore-margins') === 'true';
     const bounds = allowOverflow ? null : getMarginBounds((image as HTMLElement).closest('.page') as HTMLElement | null);
+    const bleedBox = allowOverflow && bleed > 0
+        ? ((image as HTMLElement).closest('.page') as HTMLElement | null)?.getBoundingClientRect() ?? null
+        : null;
 
     image.style.setProperty('max-width', 'none', 'important');
     image.style.setProperty('max-height', 'none', 'important');
@@ -294,9 +307,19 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({
         if (hasS) newHeight = startHeight + dy;
         else if (hasN) newHeight = startHeight - dy;
 
+        if (bleedBox) {
+            if (hasE) newWidth = snapToEdge(startRect.left + newWidth, [bleedBox.right]) - startRect.left;
+            if (hasS) newHeight = snapToEdge(startRect.top + newHeight, [bleedBox.bottom]) - startRect.top;
+            // Only floating elements move their left/top edge when resized from W/N
+            if (image.classList.contains('floating-text')) {
+                if (hasW) newWidth = startRect.right - snapToEdge(startRect.right - newWidth, [bleedBox.left]);
+                if (hasN) newHeight = startRect.bottom - snapToEdge(startRect.bottom - newHeight, [bleedBox.top]);
+            }
+        }
+
         if (image.classList.contains('floating-text')) {
-            if (hasW) newLeft = startLeft + dx;
-            if (hasN) newTop = startTop + dy;
+            if (hasW) newLeft = startLeft + (startWidth - newWidth);
+            if (hasN) newTop = startTop + (startHeight - newHeight);
         }
 
         const minSize = 20;
@@ -407,10 +430,17 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({
     let containerRect: DOMRect | null = null;
     let initialRect: DOMRect | null = null;
     
-    if (showSmartGuides && containerRef.current) {
+    const snapToBleed = bleed > 0 && allowOverflow;
+
+    if ((showSmartGuides || snapToBleed) && containerRef.current) {
         initialRect = image.getBoundingClientRect();
         const page = image.closest('.page');
-        if (page) {
+        if (page && snapToBleed) {
+            const pageRect = page.getBoundingClientRect();
+            snapTargets.x.push(pageRect.left, pageRect.right);
+            snapTargets.y.push(pageRect.top, pageRect.bottom);
+        }
+        if (page && showSmartGuides) {
             const pageRect = page.getBoundingClientRect();
             // Page Edges & Center
             snapTargets.x.push(pageRect.left + pageRect.width / 2); // Center
@@ -451,10 +481,10 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({
           const newLeft = moveEvent.clientX - pageRect.left - offsetX;
           const newTop = moveEvent.clientY - pageRect.top - offsetY;
           let nextLeft = newLeft;
-          if (!allowOverflow && pageMargins) {
-            const scale = pageRect.width / overPage.offsetWidth || 1;
-            const minLeft = pageMargins.left * PPI * scale;
-            const maxLeft = pageRect.width - pageMargins.right * PPI * scale - elementRect.width;
+          const overBounds = allowOverflow ? null : getMarginBounds(overPage);
+          if (overBounds) {
+            const minLeft = overBounds.left - pageRect.left;
+            const maxLeft = overBounds.right - pageRect.left - elementRect.width;
             nextLeft = Math.max(minLeft, Math.min(maxLeft, newLeft));
           }
           image.style.left = `${nextLeft}px`;
@@ -487,7 +517,7 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({
       const activeGuides: typeof guides = [];
       const THRESHOLD = 5;
       
-      if (showSmartGuides && initialRect && containerRect && containerRef.current) {
+      if ((showSmartGuides || snapToBleed) && initialRect && containerRect && containerRef.current) {
           // Calculate current projected edges
           const curLeft = initialRect.left + dx;
           const curRight = initialRect.right + dx;
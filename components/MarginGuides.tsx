@@ -1,13 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { KDP_MIN_OUTSIDE_MARGIN } from '../constants';
 
 interface MarginGuidesProps {
     margins: { top: number, bottom: number, left: number, right: number };
     onMarginChange: (key: 'top' | 'bottom' | 'left' | 'right', value: number) => void;
     width: number; // in pixels
     height: number; // in pixels
+    mirrored?: boolean; // left = inside (gutter), right = outside
+    isVerso?: boolean; // even page of a spread: inside margin on the right
+    bleed?: number; // inches on the top, bottom and outside edge; margins are measured from the trim
 }
 
-const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, width, height }) => {
+const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, width, height, mirrored = false, isVerso = false, bleed = 0 }) => {
     const [dragging, setDragging] = useState<'top' | 'bottom' | 'left' | 'right' | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -16,6 +20,30 @@ const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, wi
 
     const toCm = (inches: number) => (inches * 2.54).toFixed(2);
 
+    // On a verso the physical left line edits the outside margin and the right line the gutter
+    const swapSides = mirrored && isVerso;
+    const marginKeyFor = (side: 'top' | 'bottom' | 'left' | 'right') => {
+        if (!swapSides) return side;
+        if (side === 'left') return 'right';
+        if (side === 'right') return 'left';
+        return side;
+    };
+    const sideLabel = (side: 'left' | 'right') => {
+        if (!mirrored) return '';
+        return marginKeyFor(side) === 'left' ? 'Inside ' : 'Outside ';
+    };
+    const leftMargin = margins[marginKeyFor('left')];
+    const rightMargin = margins[marginKeyFor('right')];
+
+    // Trim box inside the page box: bleed is on the outside edge (right on rectos, left on versos)
+    const bleedPx = bleed * PPI;
+    const trimLeft = isVerso ? bleedPx : 0;
+    const trimRight = width - (isVerso ? 0 : bleedPx);
+    const trimTop = bleedPx;
+    const trimBottom = height - bleedPx;
+    const trimWidth = trimRight - trimLeft;
+    const trimHeight = trimBottom - trimTop;
+
     const handleMouseDown = (e: React.MouseEvent, type: 'top' | 'bottom' | 'left' | 'right') => {
         e.preventDefault();
         e.stopPropagation();
@@ -33,30 +61,30 @@ const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, wi
             // Calculations relative to the page container
             if (dragging === 'top') {
                 const relativeY = e.clientY - rect.top;
-                newValue = relativeY / PPI;
+                newValue = (relativeY - trimTop) / PPI;
             } else if (dragging === 'bottom') {
                 const relativeY = e.clientY - rect.top;
-                newValue = (height - relativeY) / PPI;
+                newValue = (trimBottom - relativeY) / PPI;
             } else if (dragging === 'left') {
                 const relativeX = e.clientX - rect.left;
-                newValue = relativeX / PPI;
+                newValue = (relativeX - trimLeft) / PPI;
             } else if (dragging === 'right') {
                 const relativeX = e.clientX - rect.left;
-                newValue = (width - relativeX) / PPI;
+                newValue = (trimRight - relativeX) / PPI;
             }
 
-            // Clamping (0 to reasonable max, e.g., half page width/height)
+            // Clamping (0 to reasonable max, e.g., half trim width/height)
             if (newValue < 0) newValue = 0;
             if (dragging === 'left' || dragging === 'right') {
-                if (newValue > (width / PPI) / 2 - 0.5) newValue = (width / PPI) / 2 - 0.5;
+                if (newValue > (trimWidth / PPI) / 2 - 0.5) newValue = (trimWidth / PPI) / 2 - 0.5;
             } else {
-                if (newValue > (height / PPI) / 2 - 0.5) newValue = (height / PPI) / 2 - 0.5;
+                if (newValue > (trimHeight / PPI) / 2 - 0.5) newValue = (trimHeight / PPI) / 2 - 0.5;
             }
 
             // Round to nearest 0.125 (1/8 inch) for cleanliness
             newValue = Math.round(newValue * 8) / 8;
 
-            onMarginChange(dragging, newValue);
+            onMarginChange(marginKeyFor(dragging), newValue);
         };
 
         const handleMouseUp = () => {
@@ -70,13 +98,14 @@ const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, wi
             document.removeEventListener('mousemove', handleMouseMove);
             document.removeEventListener('mouseup', handleMouseUp);
         };
-    }, [dragging, height, width, onMarginChange]);
+    }, [dragging, height, width, onMarginChange, swapSides, trimLeft, trimRight, trimTop, trimBottom]);
 
     // Positions in pixels
-    const topPx = margins.top * PPI;
-    const bottomPx = height - (margins.bottom * PPI);
-    const leftPx = margins.left * PPI;
-    const rightPx = width - (margins.right * PPI);
+    const topPx = trimTop + margins.top * PPI;
+    const bottomPx = trimBottom - (margins.bottom * PPI);
+    const leftPx = trimLeft + leftMargin * PPI;
+    const rightPx = trimRight - (rightMargin * PPI);
+    const safePx = KDP_MIN_OUTSIDE_MARGIN * PPI;
 
     const LineStyle = "absolute bg-brand-500 z-50 transition-none";
     const TooltipStyle = "absolute bg-gray-800 text-white text-[10px] px-2 py-1 rounded shadow-lg pointer-events-none transform -translate-x-1/2 whitespace-nowrap z-[60]";
@@ -107,7 +136,7 @@ const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, wi
             />
             {dragging === 'left' && (
                 <div className={TooltipStyle} style={{ top: '50%', left: leftPx - 40 }}>
-                    {margins.left.toFixed(2)}" ({toCm(margins.left)} cm)
+                    {sideLabel('left')}{leftMargin.toFixed(2)}" ({toCm(leftMargin)} cm)
                 </div>
             )}
 
@@ -119,7 +148,7 @@ const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, wi
             />
             {dragging === 'right' && (
                 <div className={TooltipStyle} style={{ top: '50%', left: rightPx + 40 }}>
-                    {margins.right.toFixed(2)}" ({toCm(margins.right)} cm)
+                    {sideLabel('right')}{rightMargin.toFixed(2)}" ({toCm(rightMargin)} cm)
                 </div>
             )}
 
@@ -134,16 +163,33 @@ const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, onMarginChange, wi
                 onMouseDown={(e) => handleMouseDown(e, 'bottom')}
             />
             {dragging === 'bottom' && (
-                <div className={TooltipStyle} style={{ bottom: (margins.bottom * PPI) + 10, left: '50%' }}>
+                <div className={TooltipStyle} style={{ bottom: (height - bottomPx) + 10, left: '50%' }}>
                     {margins.bottom.toFixed(2)}" ({toCm(margins.bottom)} cm)
                 </div>
             )}
 
             {/* Visual Margin Area (Grayed out) - Optional, mimicking Word */}
             <div className="absolute top-0 left-0 right-0 bg-gray-500/10 pointer-events-none" style={{ height: topPx }} />
-            <div className="absolute bottom-0 left-0 right-0 bg-gray-500/10 pointer-events-none" style={{ height: margins.bottom * PPI }} />
+            <div className="absolute bottom-0 left-0 right-0 bg-gray-500/10 pointer-events-none" style={{ height: height - bottomPx }} />
             <div className="absolute top-0 bottom-0 left-0 bg-gray-500/10 pointer-events-none" style={{ width: leftPx }} />
-            <div className="absolute top-0 bottom-0 right-0 bg-gray-500/10 pointer-events-none" style={{ width: margins.right * PPI }} />
+            <div className="absolute top-0 bottom-0 right-0 bg-gray-500/10 pointer-events-none" style={{ width: width - rightPx }} />
+
+            {bleed > 0 && (
+                <>
+                    {/* Trim line: everything outside it is cut off after printing */}
+                    <div
+                        className="absolute border border-dashed border-red-500 pointer-events-none z-40"
+                        style={{ left: trimLeft, top: trimTop, width: trimWidth, height: trimHeight }}
+                        title="Trim"
+                    />
+                    {/* Safe zone: keep text and important artwork inside it */}
+                    <div
+                        className="absolute border border-dashed border-emerald-500 pointer-events-none z-40"
+                        style={{ left: trimLeft + safePx, top: trimTop + safePx, width: trimWidth - safePx * 2, height: trimHeight - safePx * 2 }}
+                        title="Safe zone"
+                    />
+                </>
+            )}
         </div>
     );
 };
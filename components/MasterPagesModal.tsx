@@ -0,0 +1,405 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MasterPage, MasterRunningText } from '../types';
+import { FontDefinition } from '../utils/fontUtils';
+import { createMasterId, MasterPart, NO_MASTER, PageMasterOverrides } from '../utils/masterPages';
+import { PAGE_FIELDS } from '../utils/pageFields';
+
+interface MasterPagesModalProps {
+  isOpen: boolean;
+  masters: MasterPage[];
+  fonts: FontDefinition[];
+  currentPage: number; // 0-based
+  pageCount: number;
+  pageMaster: string | null; // data-master of the current page; null = follows the page before
+  pageOverrides: PageMasterOverrides;
+  onSave: (masters: MasterPage[]) => void;
+  onAssign: (masters: MasterPage[], masterId: string | null, fromPage: number, toPage: number) => void;
+  onSaveOverrides: (masters: MasterPage[], overrides: PageMasterOverrides) => void;
+  onClose: () => void;
+}
+
+const INHERIT = '__inherit__';
+const PARTS: Array<{ part: MasterPart; label: string }> = [
+  { part: 'header', label: 'Header' },
+  { part: 'footer', label: 'Footer' },
+  { part: 'border', label: 'Border' },
+  { part: 'background', label: 'Background' }
+];
+
+const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500';
+const labelClass = 'block text-[10px] uppercase font-bold text-gray-400 mb-1';
+
+const clampPage = (value: number, pageCount: number) => Math.min(Math.max(1, pageCount), Math.max(1, Math.round(value) || 1));
+
+const blankMaster = (name: string): MasterPage => ({
+  id: createMasterId(),
+  name,
+  header: { text: '', align: 'center', fontFamily: '', fontSize: 9, offset: 0.4 },
+  footer: { text: '', align: 'center', fontFamily: '', fontSize: 9, offset: 0.4 },
+  border: { style: 'none', width: 1, color: '#000000', radius: 0, inset: 0.25 },
+  background: { color: '', image: '', opacity: 1, fit: 'cover' },
+  followedBy: null
+});
+
+const MasterPagesModal: React.FC<MasterPagesModalProps> = ({
+  isOpen, masters, fonts, currentPage, pageCount, pageMaster, pageOverrides, onSave, onAssign, onSaveOverrides, onClose
+}) => {
+  const [draft, setDraft] = useState<MasterPage[]>(masters);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [assignId, setAssignId] = useState(INHERIT);
+  const [fromPage, setFromPage] = useState(1);
+  const [toPage, setToPage] = useState(1);
+  const [overrides, setOverrides] = useState<PageMasterOverrides>(pageOverrides);
+  const imageInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(masters);
+    setSelectedId(prev => (prev && masters.some(master => master.id === prev) ? prev : masters[0]?.id ?? null));
+    setAssignId(pageMaster ?? INHERIT);
+    setFromPage(currentPage + 1);
+    setToPage(currentPage + 1);
+    setOverrides(pageOverrides);
+  }, [isOpen, masters, currentPage, pageMaster, pageOverrides]);
+
+  if (!isOpen) return null;
+
+  const selected = draft.find(master => master.id === selectedId) ?? null;
+
+  const updateSelected = (changes: Partial<MasterPage>) => {
+    setDraft(prev => prev.map(master => (master.id === selectedId ? { ...master, ...changes } : master)));
+  };
+
+  const handleAdd = () => {
+    const master = blankMaster(`Master ${draft.length + 1}`);
+    setDraft(prev => [...prev, master]);
+    setSelectedId(master.id);
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const copy = { ...selected, id: createMasterId(), name: `${selected.name} copy` };
+    setDraft(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!confirm(`Delete the master "${selected.name}"? Pages using it lose its header, footer and art.`)) return;
+    const remaining = draft
+      .filter(master => master.id !== selected.id)
+      .map(master => (master.followedBy === selected.id ? { ...master, followedBy: null } : master));
+    setDraft(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected) return;
+    const reader = new FileReader();
+    reader.onload = () => updateSelected({ background: { ...selected.background, image: String(reader.result || '') } });
+    reader.readAsDataURL(file);
+  };
+
+  const toggleHidden = (part: MasterPart, hidden: boolean) => {
+    setOverrides(prev => ({
+      ...prev,
+      hide: hidden ? [...prev.hide.filter(item => item !== part), part] : prev.hide.filter(item => item !== part)
+    }));
+  };
+
+  const renderRunningText = (kind: 'header' | 'footer', label: string) => {
+    if (!selected) return null;
+    const line = selected[kind];
+    const update = (changes: Partial<MasterRunningText>) => updateSelected({ [kind]: { ...line, ...changes } });
+    return (
+      <div className="space-y-1">
+        <label className={labelClass}>{label}</label>
+        <input
+          type="text"
+          value={line.text}
+          onChange={(e) => update({ text: e.target.value })}
+          placeholder="None"
+          className={inputClass}
+        />
+        <div className="grid grid-cols-4 gap-1">
+          <select value={line.align} onChange={(e) => update({ align: e.target.value as MasterRunningText['align'] })} className={inputClass}>
+            <option value="left">Left</option>
+            <option value="center">Center</option>
+            <option value="right">Right</option>
+          </select>
+          <select value={line.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={inputClass}>
+            <option value="">Document font</option>
+            {fonts.filter(font => font.value !== 'inherit').map(font => (
+              <option key={font.name} value={font.value}>{font.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={5}
+            max={48}
+            value={line.fontSize}
+            onChange={(e) => update({ fontSize: Math.max(5, Number(e.target.value) || 9) })}
+            title="Size (pt)"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={line.offset}
+            onChange={(e) => update({ offset: Math.max(0, Number(e.target.value) || 0) })}
+            title={`Distance from the ${kind === 'header' ? 'top' : 'bottom'} edge (in)`}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-xl w-[720px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="font-bold text-lg text-gray-800">Master pages</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+
+        <div className="flex-1 overflow-auto flex">
+          <div className="w-48 border-r border-gray-200 p-3 space-y-1 shrink-0">
+            {draft.map(master => (
+              <button
+                key={master.id}
+                onClick={() => setSelectedId(master.id)}
+                className={`w-full text-left px-2 py-1.5 rounded text-xs truncate ${master.id === selectedId ? 'bg-brand-50 text-brand-600 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {master.name || 'Untitled'}
+              </button>
+            ))}
+            <div className="flex gap-1 pt-2">
+              <button onClick={handleAdd} className="flex-1 px-1 py-1 text-[11px] border border-gray-300 rounded hover:bg-brand-50">New</button>
+              <button onClick={handleDuplicate} disabled={!selected} className="flex-1 px-1 py-1 text-[11px] border border-gray-300 rounded hover:bg-brand-50 disabled:opacity-50">Copy</button>
+              <button onClick={handleDelete} disabled={!selected} className="flex-1 px-1 py-1 text-[11px] border border-gray-300 rounded hover:text-red-600 disabled:opacity-50">Delete</button>
+            </div>
+          </div>
+
+          <div className="flex-1 p-4 space-y-4 min-w-0">
+            {selected ? (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input type="text" value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Following pages use</label>
+                    <select
+                      value={selected.followedBy ?? ''}
+                      onChange={(e) => updateSelected({ followedBy: e.target.value || null })}
+                      className={inputClass}
+                    >
+                      <option value="">This master</option>
+                      {draft.filter(master => master.id !== selected.id).map(master => (
+                        <option key={master.id} value={master.id}>{master.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {renderRunningText('header', 'Running header')}
+                {renderRunningText('footer', 'Running footer')}
+                <div className="text-[11px] text-gray-500">Align, font, size (pt) and distance from the trim edge (in). Fields: {PAGE_FIELDS.map(field => `{${field.token}}`).join(' ')}.</div>
+
+                <div>
+                  <label className={labelClass}>Border</label>
+                  <div className="grid grid-cols-5 gap-1">
+                    <select
+                      value={selected.border.style}
+                      onChange={(e) => updateSelected({ border: { ...selected.border, style: e.target.value as MasterPage['border']['style'] } })}
+                      className={inputClass}
+                    >
+                      <option value="none">None</option>
+                      <option value="solid">Solid</option>
+                      <option value="dashed">Dashed</option>
+                      <option value="dotted">Dotted</option>
+                      <option value="double">Double</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={selected.border.width}
+                      onChange={(e) => updateSelected({ border: { ...selected.border, width: Math.max(1, Number(e.target.value) || 1) } })}
+                      title="Width (px)"
+                      className={inputClass}
+                    />
+                    <input
+                      type="color"
+                      value={selected.border.color}
+                      onChange={(e) => updateSelected({ border: { ...selected.border, color: e.target.value } })}
+                      title="Color"
+                      className="w-full h-[26px] border border-gray-300 rounded"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={selected.border.radius}
+                      onChange={(e) => updateSelected({ border: { ...selected.border, radius: Math.max(0, Number(e.target.value) || 0) } })}
+                      title="Corner radius (px)"
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      value={selected.border.inset}
+                      onChange={(e) => updateSelected({ border: { ...selected.border, inset: Math.max(0, Number(e.target.value) || 0) } })}
+                      title="Distance from the trim edge (in)"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Background</label>
+                  <div className="flex items-center gap-2 text-xs text-gray-600">
+                    <input
+                      type="color"
+                      value={selected.background.color || '#ffffff'}
+                      onChange={(e) => updateSelected({ background: { ...selected.background, color: e.target.value } })}
+                      title="Color"
+                      className="w-10 h-[26px] border border-gray-300 rounded"
+                    />
+                    {selected.background.color && (
+                      <button onClick={() => updateSelected({ background: { ...selected.background, color: '' } })} className="text-[11px] text-gray-500 hover:text-red-600">No color</button>
+                    )}
+                    <button onClick={() => imageInputRef.current?.click()} className="px-2 py-1 text-[11px] border border-gray-300 rounded hover:bg-brand-50">
+                      {selected.background.image ? 'Replace image…' : 'Image…'}
+                    </button>
+                    {selected.background.image && (
+                      <button onClick={() => updateSelected({ background: { ...selected.background, image: '' } })} className="text-[11px] text-gray-500 hover:text-red-600">Remove image</button>
+                    )}
+                    <input ref={imageInputRef} type="file" accept="image/*" onChange={handleImage} className="hidden" />
+                    <select
+                      value={selected.background.fit}
+                      onChange={(e) => updateSelected({ background: { ...selected.background, fit: e.target.value as MasterPage['background']['fit'] } })}
+                      className="border border-gray-300 rounded px-2 py-1 text-xs"
+                    >
+                      <option value="cover">Fill page</option>
+                      <option value="contain">Fit inside</option>
+                    </select>
+                    <span className="ml-auto">Opacity</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={selected.background.opacity}
+                      onChange={(e) => updateSelected({ background: { ...selected.background, opacity: Number(e.target.value) } })}
+                      className="w-20"
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="text-xs text-gray-500">No masters yet. Click New to create one.</div>
+            )}
+
+            <div className="border-t border-gray-200 pt-3 space-y-2">
+              <label className={labelClass}>Apply to pages</label>
+              <div className="flex items-center gap-2 text-xs text-gray-600">
+                <select value={assignId} onChange={(e) => setAssignId(e.target.value)} className="border border-gray-300 rounded px-2 py-1 text-xs">
+                  <option value={INHERIT}>Follow previous page</option>
+                  <option value={NO_MASTER}>No master</option>
+                  {draft.map(master => <option key={master.id} value={master.id}>{master.name}</option>)}
+                </select>
+                <span>pages</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={fromPage}
+                  onChange={(e) => setFromPage(clampPage(Number(e.target.value), pageCount))}
+                  className="w-14 border border-gray-300 rounded px-2 py-1 text-xs"
+                />
+                <span>to</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={toPage}
+                  onChange={(e) => setToPage(clampPage(Number(e.target.value), pageCount))}
+                  className="w-14 border border-gray-300 rounded px-2 py-1 text-xs"
+                />
+                <button onClick={() => { setFromPage(1); setToPage(Math.max(1, pageCount)); }} className="text-[11px] text-brand-600 hover:underline">All</button>
+                <button
+                  onClick={() => onAssign(draft, assignId === INHERIT ? null : assignId, Math.min(fromPage, toPage), Math.max(fromPage, toPage))}
+                  className="ml-auto px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold"
+                >
+                  Apply
+                </button>
+              </div>
+              <div className="text-[11px] text-gray-500">Pages that follow the previous page continue with its "following pages" master, including pages added as the text grows.</div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-3 space-y-2">
+              <label className={labelClass}>Page {currentPage + 1} overrides</label>
+              <div className="flex items-center gap-3 text-xs text-gray-700">
+                <span className="text-gray-500">Hide</span>
+                {PARTS.map(({ part, label }) => (
+                  <label key={part} className="flex items-center gap-1">
+                    <input type="checkbox" checked={overrides.hide.includes(part)} onChange={(e) => toggleHidden(part, e.target.checked)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={overrides.header ?? ''}
+                  onChange={(e) => setOverrides(prev => ({ ...prev, header: e.target.value || null }))}
+                  placeholder="Header text from the master"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={overrides.footer ?? ''}
+                  onChange={(e) => setOverrides(prev => ({ ...prev, footer: e.target.value || null }))}
+                  placeholder="Footer text from the master"
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex">
+                <button
+                  onClick={() => onSaveOverrides(draft, overrides)}
+                  className="ml-auto px-2 py-1 text-xs border border-gray-300 rounded hover:bg-brand-50"
+                >
+                  Apply to page {currentPage + 1}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-brand-50 hover:text-brand-600 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 text-sm text-white bg-violet-600 hover:bg-violet-700 rounded shadow-md font-semibold"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MasterPagesModal;
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { findMissingFields, lookupField, MergeDataset, parseMergeData } from '../utils/dataMerge';
+
+export type MergeMode = 'sections' | 'documents';
+
+export interface MergeOptions {
+  mode: MergeMode;
+  fileNamePattern: string; // per-record file names, e.g. "Worksheet {{name}}"
+}
+
+interface MergeModalProps {
+  isOpen: boolean;
+  placeholders: string[];
+  defaultFileName: string;
+  onClose: () => void;
+  onMerge: (dataset: MergeDataset, options: MergeOptions, onProgress: (done: number, total: number) => void) => Promise<void>;
+}
+
+const PREVIEW_ROWS = 3;
+
+const MergeModal: React.FC<MergeModalProps> = ({ isOpen, placeholders, defaultFileName, onClose, onMerge }) => {
+  const [dataset, setDataset] = useState<MergeDataset | null>(null);
+  const [dataFileName, setDataFileName] = useState('');
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<MergeMode>('sections');
+  const [fileNamePattern, setFileNamePattern] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setProgress(null);
+      setFileNamePattern(placeholders.length > 0 ? `${defaultFileName} {{${placeholders[0]}}}` : defaultFileName);
+    }
+  }, [isOpen, placeholders, defaultFileName]);
+
+  if (!isOpen) return null;
+
+  const handleDataFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDataset(parseMergeData(await file.text(), file.name));
+      setDataFileName(file.name);
+      setError('');
+    } catch (err) {
+      setDataset(null);
+      setDataFileName(file.name);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!dataset) return;
+    setProgress({ done: 0, total: dataset.records.length });
+    try {
+      await onMerge(dataset, { mode, fileNamePattern }, (done, total) => setProgress({ done, total }));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const missing = dataset ? findMissingFields(placeholders, dataset) : [];
+  const busy = progress !== null;
+  const previewFields = placeholders.filter(name => !missing.includes(name));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-xl w-[560px] max-w-[90vw]">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="font-bold text-lg text-gray-800">Data merge</h3>
+          <button onClick={onClose} disabled={busy} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4">
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Placeholders in this document</div>
+            {placeholders.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {placeholders.map(name => (
+                  <code
+                    key={name}
+                    className={`text-[11px] px-1.5 py-0.5 rounded border ${missing.includes(name) ? 'border-amber-300 bg-amber-50 text-amber-700' : 'border-gray-200 bg-gray-50 text-gray-700'}`}
+                  >
+                    {`{{${name}}}`}
+                  </code>
+                ))}
+              </div>
+            ) : (
+              <div className="text-[11px] text-gray-500">
+                None yet. Type placeholders such as <code>{'{{name}}'}</code> in the text, text layers, links or QR code URLs.
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={busy}
+                className="px-3 py-2 text-sm border border-gray-300 rounded hover:bg-brand-50"
+              >
+                Choose CSV or JSON…
+              </button>
+              <span className="text-xs text-gray-500 truncate">{dataFileName || 'No data file loaded'}</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.json"
+                onChange={handleDataFile}
+                className="hidden"
+              />
+            </div>
+            {dataset && (
+              <div className="text-[11px] text-gray-500 mt-2">
+                {dataset.records.length} record{dataset.records.length === 1 ? '' : 's'} · fields: {dataset.fields.join(', ')}
+              </div>
+            )}
+            {missing.length > 0 && (
+              <div className="text-[11px] text-amber-700 mt-1">
+                No column for {missing.map(name => `{{${name}}}`).join(', ')}; these stay as typed.
+              </div>
+            )}
+          </div>
+
+          {dataset && previewFields.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded">
+              <table className="text-[11px] w-full">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    {previewFields.map(name => <th key={name} className="px-2 py-1 text-left font-semibold">{name}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataset.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      {previewFields.map(name => (
+                        <td key={name} className="px-2 py-1 text-gray-700 max-w-[160px] truncate">{lookupField(record, name)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input type="radio" className="mt-1" checked={mode === 'sections'} onChange={() => setMode('sections')} disabled={busy} />
+              <span>
+                One document, a section per record
+                <span className="block text-[11px] text-gray-500">Replaces the pages in the editor (undo restores the template). Each record starts on a new page.</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input type="radio" className="mt-1" checked={mode === 'documents'} onChange={() => setMode('documents')} disabled={busy} />
+              <span>
+                One PDF per record
+                <span className="block text-[11px] text-gray-500">Saved together in a .zip; the editor keeps the template.</span>
+              </span>
+            </label>
+            {mode === 'documents' && (
+              <div className="pl-6">
+                <label className="block text-xs text-gray-600 mb-1">File name</label>
+                <input
+                  type="text"
+                  value={fileNamePattern}
+                  onChange={(e) => setFileNamePattern(e.target.value)}
+                  disabled={busy}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                />
+              </div>
+            )}
+          </div>
+
+          {error && <div className="text-xs text-red-600">{error}</div>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end gap-3">
+          {progress && (
+            <span className="text-xs text-gray-500 mr-auto">Merging {progress.done} of {progress.total}…</span>
+          )}
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-brand-50 hover:text-brand-600 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={busy || !dataset || placeholders.length === 0}
+            className="px-4 py-2 text-sm text-white bg-violet-600 hover:bg-violet-700 rounded shadow-md font-semibold disabled:opacity-50"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeModal;
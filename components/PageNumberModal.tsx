@@ -1,109 +1,280 @@
 import React, { useState, useEffect } from 'react';
-import { X, ArrowUpFromLine, ArrowDownFromLine, AlignLeft, AlignCenter, AlignRight, MoveVertical } from 'lucide-react';
-import { PageAnchor } from '../types';
+import { X, ArrowUpFromLine, ArrowDownFromLine, AlignLeft, AlignCenter, AlignRight, MoveVertical, Plus, Trash2 } from 'lucide-react';
+import { NumberingSection, PageAnchor, PageNumberSettings, PageNumberStyle } from '../types';
+import { DEFAULT_PAGE_NUMBER_FORMAT, PAGE_FIELDS } from '../utils/pageFields';
+import { createNumberingSection, formatPageNumber, getNumberingSections, PAGE_NUMBER_STYLES } from '../utils/pageNumbering';
 
 interface PageNumberModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onApply: (startAnchorId: string, font: string, fontSize: string, position: 'top' | 'bottom', align: 'left' | 'center' | 'right', margin: number) => void;
-  onPreview: (startAnchorId: string, font: string, fontSize: string, position: 'top' | 'bottom', align: 'left' | 'center' | 'right', margin: number) => void;
+  onApply: (settings: PageNumberSettings, hideCurrentPage: boolean) => void;
+  onPreview: (settings: PageNumberSettings, hideCurrentPage: boolean) => void;
   anchors: PageAnchor[];
+  settings: PageNumberSettings | null; // applied settings, loaded when the dialog opens
+  currentPage: number; // 0-based
+  currentPageHidden: boolean;
 }
 
-const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onApply, onPreview, anchors }) => {
-  const [selectedAnchorId, setSelectedAnchorId] = useState<string>('');
+const anchorLabel = (anchor: PageAnchor) => (
+  anchor.tagName === 'DOC_START' ? 'Beginning of Document' : `${anchor.tagName.toUpperCase()} - ${anchor.text.substring(0, 30)}${anchor.text.length > 30 ? '...' : ''}`
+);
+
+const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onApply, onPreview, anchors, settings, currentPage, currentPageHidden }) => {
+  const [sections, setSections] = useState<NumberingSection[]>([]);
+  const [selectedSectionId, setSelectedSectionId] = useState<string>('');
   const [font, setFont] = useState('Arial, sans-serif');
   const [fontSize, setFontSize] = useState('12');
-  const [position, setPosition] = useState<'top' | 'bottom'>('bottom');
-  const [align, setAlign] = useState<'left' | 'center' | 'right'>('center');
   const [margin, setMargin] = useState(0.4);
+  const [format, setFormat] = useState(DEFAULT_PAGE_NUMBER_FORMAT);
+  const [hideCurrentPage, setHideCurrentPage] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
-        if (anchors.length > 0 && !selectedAnchorId) {
-            setSelectedAnchorId(anchors[0].id);
+        const initial = settings
+            ? getNumberingSections(settings)
+            : [createNumberingSection(anchors[0]?.id ?? 'DOC_START')];
+        setSections(initial);
+        setSelectedSectionId(initial[0].id);
+        if (settings) {
+            setFont(settings.font);
+            setFontSize(settings.fontSize);
+            setMargin(settings.margin);
+            setFormat(settings.format ?? DEFAULT_PAGE_NUMBER_FORMAT);
         }
+        setHideCurrentPage(currentPageHidden);
     }
-  }, [isOpen, anchors]);
+  }, [isOpen]);
+
+  const buildSettings = (): PageNumberSettings => ({
+      startAnchorId: sections[0].anchorId,
+      font,
+      fontSize,
+      position: sections[0].position,
+      align: sections[0].align,
+      margin,
+      format,
+      sections
+  });
 
   // Real-time preview whenever any property changes
   useEffect(() => {
-      if (isOpen && selectedAnchorId) {
-          onPreview(selectedAnchorId, font, fontSize, position, align, margin);
+      if (isOpen && sections.length > 0) {
+          onPreview(buildSettings(), hideCurrentPage);
       }
-  }, [selectedAnchorId, font, fontSize, position, align, margin]);
+  }, [sections, font, fontSize, margin, format, hideCurrentPage]);
 
   if (!isOpen) return null;
 
+  // Sections are kept in document order, like the numbering reads them
+  const anchorIndex = (anchorId: string) => anchors.findIndex(anchor => anchor.id === anchorId);
+  const sortSections = (list: NumberingSection[]) => [...list].sort((a, b) => anchorIndex(a.anchorId) - anchorIndex(b.anchorId));
+
+  const section = sections.find(item => item.id === selectedSectionId) ?? sections[0];
+  const updateSection = (changes: Partial<NumberingSection>) => {
+      setSections(prev => sortSections(prev.map(item => (item.id === section.id ? { ...item, ...changes } : item))));
+  };
+
+  const handleAddSection = () => {
+      const last = sections[sections.length - 1];
+      const used = new Set(sections.map(item => item.anchorId));
+      const next = anchors.find((anchor, index) => index > anchorIndex(last.anchorId) && !used.has(anchor.id))
+          ?? anchors.find(anchor => !used.has(anchor.id));
+      if (!next) {
+          alert('Every heading already starts a numbering section.');
+          return;
+      }
+      const added = createNumberingSection(next.id, { position: last.position, align: last.align });
+      setSections(prev => sortSections([...prev, added]));
+      setSelectedSectionId(added.id);
+  };
+
+  const handleRemoveSection = () => {
+      const rest = sections.filter(item => item.id !== section.id);
+      setSections(rest);
+      setSelectedSectionId(rest[0].id);
+  };
+
+  const sampleNumbers = (item: NumberingSection) => {
+      const first = item.start ?? 1;
+      return [first, first + 1, first + 2].map(value => `${item.prefix}${formatPageNumber(value, item.style)}`).join(', ');
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm">
-      <div className="bg-white rounded-lg shadow-xl w-96 border border-gray-200">
+      <div className="bg-white rounded-lg shadow-xl w-[28rem] max-h-[90vh] flex flex-col border border-gray-200">
         <div className="flex items-center justify-between p-4 border-b border-gray-100">
           <h3 className="font-bold text-gray-800">Page Numbering Settings</h3>
           <button onClick={onClose} className="text-brand-600 hover:text-brand-700 transition-colors">
             <X size={20} />
           </button>
         </div>
-        
-        <div className="p-6 space-y-5">
+
+        {section && (
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {/* Numbering sections */}
+          <div>
+            <div className="flex justify-between items-center mb-1">
+                <label className="text-sm font-medium text-gray-700">Numbering sections:</label>
+                <div className="flex gap-1">
+                    <button
+                      onClick={handleAddSection}
+                      className="p-1 rounded text-brand-600 hover:bg-brand-50"
+                      title="Add a section"
+                    >
+                        <Plus size={16} />
+                    </button>
+                    <button
+                      onClick={handleRemoveSection}
+                      disabled={sections.length < 2}
+                      className="p-1 rounded text-brand-600 hover:bg-brand-50 disabled:opacity-40 disabled:hover:bg-transparent"
+                      title="Remove this section"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            </div>
+            <div className="border border-gray-200 rounded divide-y divide-gray-100">
+              {sections.map(item => {
+                  const anchor = anchors.find(candidate => candidate.id === item.anchorId);
+                  return (
+                    <button
+                      key={item.id}
+                      onClick={() => setSelectedSectionId(item.id)}
+                      className={`w-full flex justify-between gap-2 px-3 py-1.5 text-left text-xs ${item.id === section.id ? 'bg-brand-50 text-brand-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                    >
+                        <span className="truncate">{anchor ? anchorLabel(anchor) : 'Missing heading'}</span>
+                        <span className="flex-none text-gray-500">{item.start === null ? 'continues' : sampleNumbers(item)}</span>
+                    </button>
+                  );
+              })}
+            </div>
+          </div>
+
           {/* Start Point Selection */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Start numbering from:</label>
-            <select 
-              value={selectedAnchorId}
-              onChange={(e) => setSelectedAnchorId(e.target.value)}
+            <label className="block text-sm font-medium text-gray-700 mb-1">Section starts at:</label>
+            <select
+              value={section.anchorId}
+              onChange={(e) => updateSection({ anchorId: e.target.value })}
               className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
             >
+               {anchorIndex(section.anchorId) === -1 && <option value={section.anchorId}>Missing heading</option>}
                {anchors.map(anchor => (
                    <option key={anchor.id} value={anchor.id}>
-                       {anchor.tagName === 'DOC_START' ? 'Beginning of Document' : `${anchor.tagName.toUpperCase()} - ${anchor.text.substring(0, 30)}${anchor.text.length > 30 ? '...' : ''}`}
+                       {anchorLabel(anchor)}
                    </option>
                ))}
             </select>
           </div>
 
+          <div className="grid grid-cols-3 gap-3">
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Style:</label>
+                  <select
+                    value={section.style}
+                    onChange={(e) => updateSection({ style: e.target.value as PageNumberStyle })}
+                    className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-brand-500"
+                  >
+                      {PAGE_NUMBER_STYLES.map(style => (
+                          <option key={style.id} value={style.id}>{style.label}</option>
+                      ))}
+                  </select>
+              </div>
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Start at:</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={section.start ?? ''}
+                    disabled={section.start === null}
+                    onChange={(e) => updateSection({ start: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-brand-500 disabled:bg-gray-100"
+                  />
+              </div>
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Prefix:</label>
+                  <input
+                    type="text"
+                    value={section.prefix}
+                    placeholder="A-"
+                    onChange={(e) => updateSection({ prefix: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-brand-500"
+                  />
+              </div>
+          </div>
+
+          <div className="space-y-1">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={section.start === null}
+                    onChange={(e) => updateSection({ start: e.target.checked ? null : 1 })}
+                    className="accent-brand-600"
+                  />
+                  Continue from the previous section
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={section.hideOnOpeners}
+                    onChange={(e) => updateSection({ hideOnOpeners: e.target.checked })}
+                    className="accent-brand-600"
+                  />
+                  No number on chapter openers
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={section.hideOnBlank}
+                    onChange={(e) => updateSection({ hideOnBlank: e.target.checked })}
+                    className="accent-brand-600"
+                  />
+                  No number on blank pages
+              </label>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
               {/* Position Controls */}
               <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Position:</label>
                   <div className="flex border border-brand-200 rounded overflow-hidden">
-                      <button 
-                        onClick={() => setPosition('top')}
-                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${position === 'top' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
+                      <button
+                        onClick={() => updateSection({ position: 'top' })}
+                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${section.position === 'top' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
                       >
                           <ArrowUpFromLine size={18} />
                       </button>
                       <div className="w-px bg-brand-200"></div>
-                      <button 
-                        onClick={() => setPosition('bottom')}
-                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${position === 'bottom' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
+                      <button
+                        onClick={() => updateSection({ position: 'bottom' })}
+                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${section.position === 'bottom' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
                       >
                           <ArrowDownFromLine size={18} />
                       </button>
                   </div>
               </div>
-              
+
               {/* Alignment Controls */}
               <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Alignment:</label>
                   <div className="flex border border-brand-200 rounded overflow-hidden">
-                      <button 
-                        onClick={() => setAlign('left')}
-                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${align === 'left' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
+                      <button
+                        onClick={() => updateSection({ align: 'left' })}
+                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${section.align === 'left' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
                       >
                           <AlignLeft size={18} />
                       </button>
                       <div className="w-px bg-brand-200"></div>
-                      <button 
-                        onClick={() => setAlign('center')}
-                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${align === 'center' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
+                      <button
+                        onClick={() => updateSection({ align: 'center' })}
+                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${section.align === 'center' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
                       >
                           <AlignCenter size={18} />
                       </button>
                       <div className="w-px bg-brand-200"></div>
-                      <button 
-                        onClick={() => setAlign('right')}
-                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${align === 'right' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
+                      <button
+                        onClick={() => updateSection({ align: 'right' })}
+                        className={`flex-1 flex justify-center py-2 text-brand-600 hover:text-brand-700 ${section.align === 'right' ? 'bg-brand-100 text-brand-700' : 'bg-white hover:bg-brand-50'}`}
                       >
                           <AlignRight size={18} />
                       </button>
@@ -111,6 +282,41 @@ const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onAp
               </div>
           </div>
 
+          <div className="border-t border-gray-100 pt-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={hideCurrentPage}
+                    onChange={(e) => setHideCurrentPage(e.target.checked)}
+                    className="accent-brand-600"
+                  />
+                  No number on this page (page {currentPage + 1})
+              </label>
+          </div>
+
+          {/* Format with fields */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format (all sections):</label>
+            <input
+              type="text"
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
+            />
+            <div className="flex flex-wrap gap-1 mt-1">
+              {PAGE_FIELDS.map(field => (
+                <button
+                  key={field.token}
+                  onClick={() => setFormat(prev => `${prev}{${field.token}}`)}
+                  className="text-[10px] px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 text-gray-600 hover:bg-brand-50"
+                  title={field.label}
+                >
+                  {`{${field.token}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Margin Adjustment (Inches) */}
           <div>
             <div className="flex justify-between items-center mb-1">
@@ -119,9 +325,9 @@ const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onAp
                 </label>
                 <span className="text-xs font-bold text-brand-600 bg-brand-50 px-2 py-0.5 rounded">{margin.toFixed(2)} in</span>
             </div>
-            <input 
+            <input
               type="range" min="0.1" max="2.0" step="0.05"
-              value={margin} 
+              value={margin}
               onChange={(e) => setMargin(parseFloat(e.target.value))}
               className="w-full accent-brand-600 h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer"
             />
@@ -136,7 +342,7 @@ const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onAp
           <div className="flex gap-4">
             <div className="flex-[2]">
                 <label className="block text-sm font-medium text-gray-700 mb-1 text-[11px] uppercase tracking-wider">Font:</label>
-                <select 
+                <select
                 value={font}
                 onChange={(e) => setFont(e.target.value)}
                 className="w-full border border-gray-300 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-brand-500"
@@ -150,7 +356,7 @@ const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onAp
             </div>
             <div className="flex-1">
                 <label className="block text-sm font-medium text-gray-700 mb-1 text-[11px] uppercase tracking-wider">Size:</label>
-                <select 
+                <select
                 value={fontSize}
                 onChange={(e) => setFontSize(e.target.value)}
                 className="w-full border border-gray-300 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-brand-500"
@@ -165,16 +371,18 @@ const PageNumberModal: React.FC<PageNumberModalProps> = ({ isOpen, onClose, onAp
           </div>
 
         </div>
+        )}
 
         <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-2 rounded-b-lg">
-          <button 
+          <button
             onClick={onClose}
             className="px-4 py-2 text-sm font-medium text-brand-700 bg-brand-50 hover:bg-brand-100 rounded transition-colors"
           >
             Cancel
           </button>
-          <button 
-            onClick={() => onApply(selectedAnchorId, font, fontSize, position, align, margin)}
+          <button
+            onClick={() => onApply(buildSettings(), hideCurrentPage)}
+            disabled={sections.length === 0}
             className="px-6 py-2 text-sm font-bold text-white bg-[#8d55f1] hover:bg-[#7539d3] rounded shadow-md transition-all active:scale-95"
           >
             Finish
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { PaginationRules } from '../types';
+
+interface PaginationModalProps {
+  isOpen: boolean;
+  rules: PaginationRules;
+  onClose: () => void;
+  onSave: (rules: PaginationRules) => void;
+}
+
+const clampLines = (value: number) => Math.min(10, Math.max(1, Math.round(value) || 1));
+
+const PaginationModal: React.FC<PaginationModalProps> = ({ isOpen, rules, onClose, onSave }) => {
+  const [draft, setDraft] = useState<PaginationRules>(rules);
+
+  useEffect(() => {
+    if (isOpen) setDraft(rules);
+  }, [rules, isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-xl w-[460px] max-w-[90vw]">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="font-bold text-lg text-gray-800">Text flow</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Orphans</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={draft.orphans}
+                onChange={(e) => setDraft(prev => ({ ...prev, orphans: clampLines(Number(e.target.value)) }))}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+              <div className="text-[11px] text-gray-500 mt-1">Min. lines left at the bottom of a page</div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Widows</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={draft.widows}
+                onChange={(e) => setDraft(prev => ({ ...prev, widows: clampLines(Number(e.target.value)) }))}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+              <div className="text-[11px] text-gray-500 mt-1">Min. lines carried to the next page</div>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.keepHeadingsWithNext}
+              onChange={(e) => setDraft(prev => ({ ...prev, keepHeadingsWithNext: e.target.checked }))}
+            />
+            Keep headings with the next paragraph
+          </label>
+
+          <div className="text-[11px] text-gray-500">
+            Values set in the document's own CSS (<code>orphans</code>, <code>widows</code>, <code>break-after: avoid</code>) take precedence per element.
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-brand-50 hover:text-brand-600 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 text-sm text-white bg-violet-600 hover:bg-violet-700 rounded shadow-md font-semibold"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaginationModal;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { PreflightFinding } from '../utils/preflight';
+
+interface PreflightPanelProps {
+  isOpen: boolean;
+  findings: PreflightFinding[];
+  checkedAt: number | null;
+  onSelect: (finding: PreflightFinding) => void;
+  onRerun: () => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<PreflightFinding['severity'], string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-amber-100 text-amber-700'
+};
+
+// Floating, non-modal: the document stays usable while jumping between findings.
+const PreflightPanel: React.FC<PreflightPanelProps> = ({ isOpen, findings, checkedAt, onSelect, onRerun, onClose }) => {
+  if (!isOpen) return null;
+
+  const errorCount = findings.filter(finding => finding.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  return (
+    <div className="fixed top-24 right-6 z-[150] bg-white rounded-lg shadow-xl border border-gray-200 w-[380px] max-w-[90vw] max-h-[70vh] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-sm text-gray-800">Print preflight</h3>
+          <div className="text-[11px] text-gray-500">
+            {findings.length === 0
+              ? 'No problems found'
+              : `${errorCount} error${errorCount === 1 ? '' : 's'} · ${warningCount} warning${warningCount === 1 ? '' : 's'}`}
+            {checkedAt && ` · ${new Date(checkedAt).toLocaleTimeString()}`}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onRerun}
+            className="px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold"
+          >
+            Run again
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-2 space-y-1">
+        {findings.map(finding => (
+          <button
+            key={finding.id}
+            onClick={() => onSelect(finding)}
+            className="w-full text-left flex items-start gap-2 px-2 py-2 rounded hover:bg-brand-50"
+          >
+            <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded shrink-0 ${SEVERITY_STYLES[finding.severity]}`}>
+              {finding.severity}
+            </span>
+            <span className="text-xs text-gray-700">{finding.message}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PreflightPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AutosaveSnapshot } from '../utils/autosave';
+
+interface RecoveryModalProps {
+  isOpen: boolean;
+  snapshots: AutosaveSnapshot[];
+  onRestore: (snapshot: AutosaveSnapshot) => void;
+  onDiscardAll: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => {
+  try {
+    return new Date(ts).toLocaleString();
+  } catch {
+    return String(ts);
+  }
+};
+
+const countWords = (html: string) => {
+  const text = html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ');
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  return words.length;
+};
+
+const RecoveryModal: React.FC<RecoveryModalProps> = ({ isOpen, snapshots, onRestore, onDiscardAll, onClose }) => {
+  if (!isOpen || snapshots.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-xl w-[620px] max-w-[95vw] max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h3 className="font-bold text-lg text-gray-800">Recover unsaved work</h3>
+            <div className="text-[11px] text-gray-500">Autosaved on this device before the app was last closed</div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-3">
+          {snapshots.map(snapshot => (
+            <div key={snapshot.id} className="border border-gray-200 rounded-md p-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="text-sm font-semibold text-gray-800 truncate">{snapshot.fileName}</div>
+                <div className="text-[11px] text-gray-500 mt-1">
+                  {formatTime(snapshot.savedAt)} · {countWords(snapshot.docState.htmlContent)} words · {snapshot.settings.pageFormatId}
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(snapshot)}
+                className="px-3 py-2 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded shadow-md font-semibold shrink-0"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between gap-3">
+          <button
+            onClick={onDiscardAll}
+            className="px-3 py-2 text-xs text-red-600 border border-red-200 rounded hover:bg-red-50"
+          >
+            Discard all
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-brand-50 hover:text-brand-600 rounded"
+          >
+            Not now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryModal;
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { SpellcheckSettings } from '../types';
+import { SpellIssue } from '../utils/spellcheck';
+
+interface SpellcheckPanelProps {
+  isOpen: boolean;
+  issues: SpellIssue[];
+  checkedAt: number | null;
+  settings: SpellcheckSettings;
+  languages: Array<{ id: string; name: string }>;
+  isReady: boolean; // the dictionary is loaded
+  error: string;
+  getSuggestions: (issue: SpellIssue) => string[];
+  onSelect: (issue: SpellIssue) => void;
+  onReplace: (issue: SpellIssue, text: string) => void;
+  onAddWord: (word: string) => void;
+  onRemoveWord: (word: string) => void;
+  onIgnore: (issue: SpellIssue) => void;
+  onSettingsChange: (changes: Partial<SpellcheckSettings>) => void;
+  onInstallDictionary: (files: File[]) => void;
+  onRecheck: () => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<SpellIssue['kind'], string> = {
+  spelling: 'text-red-600 decoration-red-400',
+  grammar: 'text-blue-600 decoration-blue-400'
+};
+
+const fixLabel = (text: string) => (text.trim() ? text : text ? 'Single space' : 'Remove');
+
+// Floating, non-modal like the preflight panel: the report follows the document as it is fixed.
+const SpellcheckPanel: React.FC<SpellcheckPanelProps> = ({
+  isOpen, issues, checkedAt, settings, languages, isReady, error, getSuggestions,
+  onSelect, onReplace, onAddWord, onRemoveWord, onIgnore, onSettingsChange, onInstallDictionary, onRecheck, onClose
+}) => {
+  const [selected, setSelected] = useState<SpellIssue | null>(null);
+  const [newWord, setNewWord] = useState('');
+  const [showWords, setShowWords] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  if (!isOpen) return null;
+
+  const spellingCount = issues.filter(issue => issue.kind === 'spelling').length;
+  const grammarCount = issues.length - spellingCount;
+  const pages = Array.from(new Set<number>(issues.map(issue => issue.pageIndex)));
+  const current = selected && issues.includes(selected) ? selected : null;
+
+  const handleInstall = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onInstallDictionary(files);
+  };
+
+  const handleAddWord = () => {
+    const word = newWord.trim();
+    if (!word) return;
+    onAddWord(word);
+    setNewWord('');
+  };
+
+  return (
+    <div className="fixed top-24 right-6 z-[150] bg-white rounded-lg shadow-xl border border-gray-200 w-[380px] max-w-[90vw] max-h-[70vh] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-sm text-gray-800">Spelling and grammar</h3>
+          <div className="text-[11px] text-gray-500">
+            {!isReady
+              ? 'No dictionary loaded'
+              : issues.length === 0
+                ? 'No issues found'
+                : `${spellingCount} spelling · ${grammarCount} grammar`}
+            {isReady && checkedAt && ` · ${new Date(checkedAt).toLocaleTimeString()}`}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onRecheck}
+            disabled={!isReady}
+            className="px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold disabled:opacity-40"
+          >
+            Check whole book
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+      </div>
+
+      <div className="px-3 py-2 border-b border-gray-100 space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={settings.language}
+            onChange={(e) => onSettingsChange({ language: e.target.value })}
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500"
+          >
+            {languages.map(language => (
+              <option key={language.id} value={language.id}>{language.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Install a Hunspell dictionary (.aff and .dic)"
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-brand-50"
+          >
+            Install…
+          </button>
+          <input ref={fileInputRef} type="file" multiple accept=".aff,.dic" onChange={handleInstall} className="hidden" />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => onSettingsChange({ enabled: e.target.checked })} />
+          Underline issues while typing
+        </label>
+        {error && <div className="text-[11px] text-red-600">{error}</div>}
+      </div>
+
+      <div className="flex-1 overflow-auto p-2">
+        {pages.map(pageIndex => (
+          <div key={pageIndex} className="mb-2">
+            <div className="px-2 py-1 text-[10px] uppercase font-bold text-gray-400">Page {pageIndex + 1}</div>
+            {issues.filter(issue => issue.pageIndex === pageIndex).map((issue, index) => (
+              <div key={`${pageIndex}-${index}`} className={`rounded ${issue === current ? 'bg-brand-50' : ''}`}>
+                <button
+                  onClick={() => { setSelected(issue); onSelect(issue); }}
+                  className="w-full text-left flex items-baseline gap-2 px-2 py-1.5 rounded hover:bg-brand-50"
+                >
+                  <span className={`text-xs font-semibold underline decoration-wavy shrink-0 max-w-[120px] truncate ${KIND_STYLES[issue.kind]}`}>
+                    {issue.text.trim() || '␣'}
+                  </span>
+                  <span className="text-[11px] text-gray-500 truncate">{issue.message}</span>
+                </button>
+                {issue === current && (
+                  <div className="flex flex-wrap gap-1 px-2 pb-2">
+                    {(issue.suggestions ?? getSuggestions(issue)).map(suggestion => (
+                      <button
+                        key={suggestion}
+                        onClick={() => onReplace(issue, suggestion)}
+                        className="px-2 py-0.5 text-[11px] text-violet-700 border border-violet-200 rounded hover:bg-violet-50"
+                      >
+                        {fixLabel(suggestion)}
+                      </button>
+                    ))}
+                    {issue.kind === 'spelling' && (
+                      <button
+                        onClick={() => onAddWord(issue.text)}
+                        className="px-2 py-0.5 text-[11px] text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+                      >
+                        Add to dictionary
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onIgnore(issue)}
+                      className="px-2 py-0.5 text-[11px] text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+                    >
+                      Ignore
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+        {isReady && issues.length === 0 && <div className="px-2 py-3 text-xs text-gray-400">Nothing to fix.</div>}
+      </div>
+
+      <div className="border-t border-gray-200 px-3 py-2">
+        <button onClick={() => setShowWords(!showWords)} className="text-xs font-semibold text-gray-600 hover:text-gray-800">
+          {showWords ? '▾' : '▸'} Document dictionary ({settings.customWords.length})
+        </button>
+        {showWords && (
+          <div className="mt-2 space-y-2">
+            <div className="flex gap-1">
+              <input
+                value={newWord}
+                onChange={(e) => setNewWord(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddWord(); }}
+                placeholder="Add a word"
+                className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+              <button onClick={handleAddWord} className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-brand-50">Add</button>
+            </div>
+            <div className="flex flex-wrap gap-1 max-h-24 overflow-auto">
+              {settings.customWords.map(word => (
+                <span key={word} className="flex items-center gap-1 px-2 py-0.5 text-[11px] bg-gray-100 text-gray-700 rounded">
+                  {word}
+                  <button onClick={() => onRemoveWord(word)} className="text-gray-400 hover:text-red-600">×</button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpellcheckPanel;
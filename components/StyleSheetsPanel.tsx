@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { NamedStyle } from '../types';
+import { STYLE_PROPERTIES, createStyleId, getBasedOnChoices, resolveStyleProperties } from '../utils/styleSheets';
+
+interface StyleSheetsPanelProps {
+  isOpen: boolean;
+  styles: NamedStyle[];
+  activeParagraphStyle: string | null;
+  activeCharacterStyle: string | null;
+  onApply: (kind: NamedStyle['kind'], id: string | null) => void;
+  onSave: (styles: NamedStyle[]) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const TABS: Array<{ kind: NamedStyle['kind']; label: string }> = [
+  { kind: 'paragraph', label: 'Paragraph' },
+  { kind: 'character', label: 'Character' }
+];
+
+// Floating, non-modal like the preflight panel: styles are applied to the current selection,
+// so buttons keep the editor's selection (mousedown is not allowed to take focus).
+const StyleSheetsPanel: React.FC<StyleSheetsPanelProps> = ({
+  isOpen, styles, activeParagraphStyle, activeCharacterStyle, onApply, onSave, onDelete, onClose
+}) => {
+  const [kind, setKind] = useState<NamedStyle['kind']>('paragraph');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NamedStyle | null>(null);
+
+  const selected = styles.find(style => style.id === selectedId) ?? null;
+
+  if (!isOpen) return null;
+
+  const visible = styles.filter(style => style.kind === kind);
+  const active = kind === 'paragraph' ? activeParagraphStyle : activeCharacterStyle;
+  const isNew = draft !== null && !styles.some(style => style.id === draft.id);
+  const inherited = draft?.basedOn ? resolveStyleProperties(styles, draft.basedOn) : {};
+  const keepSelection = (event: React.MouseEvent) => event.preventDefault();
+
+  const select = (style: NamedStyle | null) => {
+    setSelectedId(style?.id ?? null);
+    setDraft(style ? { ...style, properties: { ...style.properties } } : null);
+  };
+
+  const handleNew = () => {
+    const base = selected?.kind === kind ? selected.id : null;
+    const name = 'New style';
+    setSelectedId(null);
+    setDraft({ id: createStyleId(kind, name, styles), name, kind, basedOn: base, properties: {} });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      alert('Give the style a name.');
+      return;
+    }
+    if (styles.some(style => style.id !== draft.id && style.name.toLowerCase() === name.toLowerCase())) {
+      alert(`A style named "${name}" already exists.`);
+      return;
+    }
+    const properties = Object.fromEntries(Object.entries<string>(draft.properties).filter(([, value]) => value.trim()));
+    // A new style's class name comes from the name it is created with
+    const saved = { ...draft, id: isNew ? createStyleId(kind, name, styles) : draft.id, name, properties };
+    onSave(isNew ? [...styles, saved] : styles.map(style => (style.id === saved.id ? saved : style)));
+    select(saved);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!confirm(`Delete the style "${selected.name}"? Text using it switches to the style it is based on.`)) return;
+    onDelete(selected.id);
+    select(null);
+  };
+
+  const setProperty = (name: string, value: string) => {
+    if (draft) setDraft({ ...draft, properties: { ...draft.properties, [name]: value } });
+  };
+
+  return (
+    <div className="fixed top-24 right-6 z-[150] bg-white rounded-lg shadow-xl border border-gray-200 w-[380px] max-w-[90vw] max-h-[70vh] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-sm text-gray-800">Style sheets</h3>
+          <div className="text-[11px] text-gray-500">Styles are applied as classes; editing one updates all its text</div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+      </div>
+
+      <div className="flex border-b border-gray-200 text-xs">
+        {TABS.map(tab => (
+          <button
+            key={tab.kind}
+            onClick={() => { setKind(tab.kind); select(null); }}
+            className={`flex-1 py-2 font-semibold ${kind === tab.kind ? 'text-violet-700 border-b-2 border-violet-600' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <div className="p-2 space-y-1">
+          {visible.map(style => (
+            <div
+              key={style.id}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer ${style.id === selectedId ? 'bg-violet-50' : 'hover:bg-gray-50'}`}
+              onClick={() => select(style)}
+            >
+              <span className="flex-1 text-xs text-gray-700 truncate">
+                {style.name}
+                {style.id === active && <span className="ml-2 text-[10px] uppercase font-bold text-violet-600">current</span>}
+              </span>
+              <button
+                onMouseDown={keepSelection}
+                onClick={(event) => { event.stopPropagation(); onApply(kind, style.id); }}
+                className="px-2 py-0.5 text-[11px] text-violet-700 border border-violet-200 rounded hover:bg-violet-50"
+              >
+                Apply
+              </button>
+            </div>
+          ))}
+          {visible.length === 0 && <div className="px-2 py-3 text-xs text-gray-400">No {kind} styles yet.</div>}
+        </div>
+
+        <div className="flex items-center gap-2 px-3 pb-2">
+          <button onClick={handleNew} className="px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold">New</button>
+          <button onClick={handleDelete} disabled={!selected} className="px-2 py-1 text-xs text-red-600 border border-red-200 rounded hover:bg-red-50 disabled:opacity-40">Delete</button>
+          <button
+            onMouseDown={keepSelection}
+            onClick={() => onApply(kind, null)}
+            className="ml-auto px-2 py-1 text-xs text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+          >
+            Clear from selection
+          </button>
+        </div>
+
+        {draft && (
+          <div className="border-t border-gray-200 p-3 space-y-2">
+            <label className="block text-[11px] text-gray-500">
+              Name
+              <input
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                className="mt-0.5 w-full border border-gray-300 rounded px-2 py-1 text-xs text-gray-800"
+              />
+            </label>
+            <label className="block text-[11px] text-gray-500">
+              Based on
+              <select
+                value={draft.basedOn ?? ''}
+                onChange={(event) => setDraft({ ...draft, basedOn: event.target.value || null })}
+                className="mt-0.5 w-full border border-gray-300 rounded px-2 py-1 text-xs text-gray-800"
+              >
+                <option value="">None</option>
+                {getBasedOnChoices(styles, draft).map(style => (
+                  <option key={style.id} value={style.id}>{style.name}</option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {STYLE_PROPERTIES.filter(property => kind === 'paragraph' || !property.paragraphOnly).map(property => (
+                <label key={property.name} className="block text-[11px] text-gray-500">
+                  {property.label}
+                  <input
+                    value={draft.properties[property.name] ?? ''}
+                    placeholder={inherited[property.name] ?? property.placeholder}
+                    onChange={(event) => setProperty(property.name, event.target.value)}
+                    className="mt-0.5 w-full border border-gray-300 rounded px-2 py-1 text-xs text-gray-800 placeholder:text-gray-300"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2 pt-1">
+              <button
+                onClick={() => select(selected)}
+                className="px-2 py-1 text-xs text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+              >
+                {isNew ? 'Cancel' : 'Revert'}
+              </button>
+              <button onClick={handleSave} className="px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold">
+                {isNew ? 'Create' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StyleSheetsPanel;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { BUILT_IN_TEMPLATES, PageTemplate } from '../utils/pageTemplates';
+
+interface TemplateGalleryProps {
+  isOpen: boolean;
+  templates: PageTemplate[];
+  currentPage: number; // 0-based, the page templates are inserted after
+  pageCount: number;
+  onInsert: (template: PageTemplate) => void;
+  onSave: (name: string, fromPage: number, toPage: number) => Promise<void>;
+  onDelete: (template: PageTemplate) => void;
+  onClose: () => void;
+}
+
+const clampPage = (value: number, pageCount: number) => Math.min(Math.max(1, pageCount), Math.max(1, Math.round(value) || 1));
+
+// Floating, non-modal like the preflight panel: scroll to a page, then save or insert.
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ isOpen, templates, currentPage, pageCount, onInsert, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [fromPage, setFromPage] = useState(1);
+  const [toPage, setToPage] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setFromPage(currentPage + 1);
+      setToPage(currentPage + 1);
+      setError('');
+    }
+  }, [isOpen, currentPage]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Give the template a name.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(name.trim(), Math.min(fromPage, toPage), Math.max(fromPage, toPage));
+      setName('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCard = (template: PageTemplate) => (
+    <div key={template.id} className="group relative border border-gray-200 rounded hover:border-brand-500 bg-white">
+      <button
+        onClick={() => onInsert(template)}
+        className="w-full text-left"
+        title={`Insert after page ${currentPage + 1}`}
+      >
+        <div className="h-28 bg-gray-50 flex items-center justify-center overflow-hidden rounded-t">
+          {template.thumbnail
+            ? <img src={template.thumbnail} alt="" className="max-h-full max-w-full object-contain" />
+            : <span className="text-3xl">{template.icon || '📄'}</span>}
+        </div>
+        <div className="px-2 py-1.5">
+          <div className="text-xs font-semibold text-gray-700 truncate">{template.name}</div>
+          <div className="text-[10px] text-gray-400">
+            {template.builtIn ? 'Built-in' : `${template.pageCount} page${template.pageCount === 1 ? '' : 's'}`}
+          </div>
+        </div>
+      </button>
+      {!template.builtIn && (
+        <button
+          onClick={() => onDelete(template)}
+          className="absolute top-1 right-1 hidden group-hover:block text-[10px] px-1.5 py-0.5 rounded bg-white/90 border border-gray-200 text-gray-500 hover:text-red-600"
+          title="Delete template"
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed top-24 right-6 z-[150] bg-white rounded-lg shadow-xl border border-gray-200 w-[420px] max-w-[90vw] max-h-[75vh] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-sm text-gray-800">Page templates</h3>
+          <div className="text-[11px] text-gray-500">Click a template to insert it after page {currentPage + 1}</div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-gray-200 space-y-2">
+        <div className="text-[10px] uppercase font-bold text-gray-400">Save pages as template</div>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Template name"
+          className="w-full border border-gray-300 rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500"
+        />
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <span>Pages</span>
+          <input
+            type="number"
+            min={1}
+            max={pageCount}
+            value={fromPage}
+            onChange={(e) => setFromPage(clampPage(Number(e.target.value), pageCount))}
+            className="w-16 border border-gray-300 rounded px-2 py-1 text-xs"
+          />
+          <span>to</span>
+          <input
+            type="number"
+            min={1}
+            max={pageCount}
+            value={toPage}
+            onChange={(e) => setToPage(clampPage(Number(e.target.value), pageCount))}
+            className="w-16 border border-gray-300 rounded px-2 py-1 text-xs"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="ml-auto px-2 py-1 text-xs text-white bg-violet-600 hover:bg-violet-700 rounded font-semibold disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+        {error && <div className="text-[11px] text-red-600">{error}</div>}
+      </div>
+
+      <div className="flex-1 overflow-auto p-3 space-y-3">
+        {templates.length > 0 && (
+          <div>
+            <div className="text-[10px] uppercase font-bold text-gray-400 mb-1">My templates</div>
+            <div className="grid grid-cols-3 gap-2">{templates.map(renderCard)}</div>
+          </div>
+        )}
+        <div>
+          <div className="text-[10px] uppercase font-bold text-gray-400 mb-1">Built-in</div>
+          <div className="grid grid-cols-3 gap-2">{BUILT_IN_TEMPLATES.map(renderCard)}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateGallery;
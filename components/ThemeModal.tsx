@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BorderSettings, HRProperties, Theme, ThemePalette } from '../types';
+import { BUILT_IN_THEMES } from '../constants';
+import { FontDefinition } from '../utils/fontUtils';
+import { parseThemeJson } from '../utils/themes';
+
+interface ThemeModalProps {
+  isOpen: boolean;
+  theme: Theme; // the document's current theme
+  fonts: FontDefinition[];
+  onApply: (theme: Theme, resetOverrides: boolean) => void;
+  onExport: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+const PALETTE_FIELDS: Array<{ key: keyof ThemePalette; label: string }> = [
+  { key: 'text', label: 'Body text' },
+  { key: 'heading', label: 'Headings' },
+  { key: 'accent', label: 'Guide lines' },
+  { key: 'highlight', label: 'Clouds' }
+];
+
+const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500';
+const labelClass = 'block text-[10px] uppercase font-bold text-gray-400 mb-1';
+
+const isBuiltIn = (theme: Theme) => BUILT_IN_THEMES.some(builtIn => builtIn.id === theme.id);
+
+const ThemeModal: React.FC<ThemeModalProps> = ({ isOpen, theme, fonts, onApply, onExport, onClose }) => {
+  const [themes, setThemes] = useState<Theme[]>(BUILT_IN_THEMES);
+  const [selectedId, setSelectedId] = useState(theme.id);
+  const [resetOverrides, setResetOverrides] = useState(true);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Built-ins plus the document's own theme when it was edited or imported
+  useEffect(() => {
+    if (!isOpen) return;
+    setThemes(isBuiltIn(theme) ? BUILT_IN_THEMES.map(builtIn => (builtIn.id === theme.id ? theme : builtIn)) : [...BUILT_IN_THEMES, theme]);
+    setSelectedId(theme.id);
+    setError('');
+  }, [isOpen, theme]);
+
+  if (!isOpen) return null;
+
+  const selected = themes.find(item => item.id === selectedId) ?? themes[0];
+
+  const updateSelected = (changes: Partial<Theme>) => {
+    setThemes(prev => prev.map(item => (item.id === selected.id ? { ...item, ...changes } : item)));
+  };
+  const updatePalette = (changes: Partial<ThemePalette>) => updateSelected({ palette: { ...selected.palette, ...changes } });
+  const updateBorder = (changes: Partial<BorderSettings>) => updateSelected({ border: { ...selected.border, ...changes } });
+  const updateRule = (changes: Partial<HRProperties>) => updateSelected({ hr: { ...selected.hr, ...changes } });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseThemeJson(await file.text());
+      setThemes(prev => [...prev, imported]);
+      setSelectedId(imported.id);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const fontSelect = (value: string, onChange: (value: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {!fonts.some(font => font.value === value) && <option value={value}>{value}</option>}
+      {fonts.filter(font => font.value !== 'inherit').map(font => (
+        <option key={font.name} value={font.value}>{font.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-xl w-[720px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="font-bold text-lg text-gray-800">Theme</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">×</button>
+        </div>
+
+        <div className="flex-1 overflow-auto flex">
+          <div className="w-48 border-r border-gray-200 p-3 space-y-1 shrink-0">
+            {themes.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setSelectedId(item.id)}
+                className={`w-full text-left px-2 py-1.5 rounded text-xs ${item.id === selected.id ? 'bg-brand-50 text-brand-600 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                <span className="block truncate">{item.name || 'Untitled'}{item.id === theme.id ? ' (current)' : ''}</span>
+                <span className="flex gap-1 mt-1">
+                  {[item.palette.heading, item.palette.text, item.palette.accent, item.border.borderColor, item.border.backgroundColor].map((color, index) => (
+                    <span key={index} className="w-3 h-3 rounded-sm border border-gray-200" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+              </button>
+            ))}
+            <div className="flex gap-1 pt-2">
+              <button onClick={() => fileInputRef.current?.click()} className="flex-1 px-1 py-1 text-[11px] border border-gray-300 rounded hover:bg-brand-50">Import…</button>
+              <button onClick={() => onExport(selected)} className="flex-1 px-1 py-1 text-[11px] border border-gray-300 rounded hover:bg-brand-50">Export</button>
+            </div>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            {error && <div className="text-[11px] text-red-600 pt-1">{error}</div>}
+          </div>
+
+          <div className="flex-1 p-4 space-y-4 min-w-0">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input type="text" value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Heading font</label>
+                {fontSelect(selected.fonts.heading, heading => updateSelected({ fonts: { ...selected.fonts, heading } }))}
+                <div className="mt-1 text-lg truncate" style={{ fontFamily: selected.fonts.heading, color: selected.palette.heading }}>Chapter One</div>
+              </div>
+              <div>
+                <label className={labelClass}>Body font</label>
+                {fontSelect(selected.fonts.body, body => updateSelected({ fonts: { ...selected.fonts, body } }))}
+                <div className="mt-1 text-xs truncate" style={{ fontFamily: selected.fonts.body, color: selected.palette.text }}>The quick brown fox jumps over the lazy dog.</div>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Palette</label>
+              <div className="grid grid-cols-4 gap-2">
+                {PALETTE_FIELDS.map(field => (
+                  <label key={field.key} className="text-[11px] text-gray-600 flex items-center gap-1">
+                    <input type="color" value={selected.palette[field.key]} onChange={(e) => updatePalette({ [field.key]: e.target.value })} className="w-6 h-6 p-0 border-0" />
+                    {field.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Shapes and boxes</label>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="text-[11px] text-gray-600 flex items-center gap-1">
+                  <input type="color" value={selected.border.borderColor} onChange={(e) => updateBorder({ borderColor: e.target.value })} className="w-6 h-6 p-0 border-0" />
+                  Border
+                </label>
+                <label className="text-[11px] text-gray-600 flex items-center gap-1">
+                  <input type="color" value={selected.border.backgroundColor} onChange={(e) => updateBorder({ backgroundColor: e.target.value })} className="w-6 h-6 p-0 border-0" />
+                  Fill
+                </label>
+                <select value={selected.border.borderStyle} onChange={(e) => updateBorder({ borderStyle: e.target.value as BorderSettings['borderStyle'] })} className={inputClass}>
+                  <option value="solid">Solid</option>
+                  <option value="dashed">Dashed</option>
+                  <option value="dotted">Dotted</option>
+                  <option value="double">Double</option>
+                  <option value="none">None</option>
+                </select>
+                <input type="number" min={0} max={20} value={selected.border.borderWidth} onChange={(e) => updateBorder({ borderWidth: Math.max(0, Number(e.target.value) || 0) })} title="Thickness (px)" className={inputClass} />
+                <input type="number" min={0} max={50} value={selected.border.borderRadius} onChange={(e) => updateBorder({ borderRadius: Math.max(0, Number(e.target.value) || 0) })} title="Roundness of boxes (px)" className={inputClass} />
+                <input type="number" min={0} max={60} value={selected.border.padding} onChange={(e) => updateBorder({ padding: Math.max(0, Number(e.target.value) || 0) })} title="Padding of boxes (px)" className={inputClass} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Horizontal rules</label>
+              <div className="grid grid-cols-4 gap-2">
+                <label className="text-[11px] text-gray-600 flex items-center gap-1">
+                  <input type="color" value={selected.hr.color} onChange={(e) => updateRule({ color: e.target.value })} className="w-6 h-6 p-0 border-0" />
+                  Color
+                </label>
+                <select value={selected.hr.style} onChange={(e) => updateRule({ style: e.target.value as HRProperties['style'] })} className={inputClass}>
+                  <option value="solid">Solid</option>
+                  <option value="dashed">Dashed</option>
+                  <option value="dotted">Dotted</option>
+                  <option value="tapered">Tapered</option>
+                </select>
+                <input type="number" min={1} max={20} value={selected.hr.height} onChange={(e) => updateRule({ height: Math.max(1, Number(e.target.value) || 1) })} title="Thickness (px)" className={inputClass} />
+                <input type="number" min={10} max={100} value={selected.hr.width} onChange={(e) => updateRule({ width: Math.min(100, Math.max(10, Number(e.target.value) || 100)) })} title="Width (%)" className={inputClass} />
+              </div>
+            </div>
+
+            <label className="flex items-start gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={resetOverrides} onChange={(e) => setResetOverrides(e.target.checked)} className="mt-0.5" />
+              <span>Also replace fonts and colors set on single elements, and restyle every horizontal rule</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-brand-50 hover:text-brand-600 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(selected, resetOverrides)}
+            className="px-4 py-2 text-sm text-white bg-violet-600 hover:bg-violet-700 rounded shadow-md font-semibold"
+          >
+            Apply to document
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeModal;
@@ -5,11 +5,11 @@ import {
     ArrowBigUpDash, List, PanelLeft, PanelRight, Crop, FilePlus,
     Square, Minus, PaintBucket, Minimize, MoveHorizontal, Shapes, Hash,
     RotateCcw, RotateCw, RefreshCw, LayoutTemplate, ChevronDown,
-    ArrowUpDown, Type, Ruler, ListOrdered, TableOfContents, Plus, FileText
+    ArrowUpDown, Type, Ruler, ListOrdered, TableOfContents, Plus, FileText, BookOpen, Braces, LayoutGrid, PanelsTopBottom, Palette, Search, SpellCheck, History
 } from 'lucide-react';
 import { createPortal } from 'react-dom';
-import { SelectionState, ImageProperties, HRProperties } from '../types';
-import { PAGE_FORMATS } from '../constants';
+import { SelectionState, ImageProperties, HRProperties, GutterMode } from '../types';
+import { PAGE_FORMATS, TRIM_SIZES, KDP_BLEED } from '../constants';
 import { FontDefinition } from '../utils/fontUtils';
 
 interface ToolbarProps {
@@ -47,9 +47,15 @@ interface ToolbarProps {
     onRedo: () => void;
     canUndo: boolean;
     canRedo: boolean;
+    undoLabel?: string; // the step undo/redo would revert or repeat
+    redoLabel?: string;
     availableFonts: FontDefinition[];
     showMarginGuides: boolean;
     onToggleMarginGuides: () => void;
+    mirrorMargins: boolean;
+    onToggleMirrorMargins: () => void;
+    bleed: number;
+    onBleedChange: (bleed: number) => void;
     showSmartGuides: boolean;
     onToggleSmartGuides: () => void;
     onOpenSettings: () => void;
@@ -57,6 +63,19 @@ interface ToolbarProps {
     onAddFont: (e: React.ChangeEvent<HTMLInputElement>) => void;
     onCaptureSelection: () => void;
     onOpenLogs: () => void;
+    onOpenRecovery: () => void;
+    onOpenPaginationRules: () => void;
+    gutterMode: GutterMode;
+    onGutterModeChange: (mode: GutterMode) => void;
+    onOpenPreflight: () => void;
+    onOpenDataMerge: () => void;
+    onOpenTemplates: () => void;
+    onOpenMasterPages: () => void;
+    onOpenStyleSheets: () => void;
+    onOpenThemes: () => void;
+    onOpenFind: () => void;
+    onOpenSpellcheck: () => void;
+    onOpenHistory: () => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -94,16 +113,35 @@ const Toolbar: React.FC<ToolbarProps> = ({
     onRedo,
     canUndo,
     canRedo,
+    undoLabel,
+    redoLabel,
     availableFonts,
     showMarginGuides,
     onToggleMarginGuides,
+    mirrorMargins,
+    onToggleMirrorMargins,
+    bleed,
+    onBleedChange,
     showSmartGuides,
     onToggleSmartGuides,
     onOpenSettings,
     onReloadFonts,
     onAddFont,
     onCaptureSelection,
-    onOpenLogs
+    onOpenLogs,
+    onOpenRecovery,
+    onOpenPaginationRules,
+    gutterMode,
+    onGutterModeChange,
+    onOpenPreflight,
+    onOpenDataMerge,
+    onOpenTemplates,
+    onOpenMasterPages,
+    onOpenStyleSheets,
+    onOpenThemes,
+    onOpenFind,
+    onOpenSpellcheck,
+    onOpenHistory
 }) => {
     const [isStyleMenuOpen, setIsStyleMenuOpen] = useState(false);
     const [isLineHeightMenuOpen, setIsLineHeightMenuOpen] = useState(false);
@@ -398,12 +436,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
                         {/* Undo / Redo */}
                         <div className="flex items-center space-x-0.5 border-r border-gray-200 pr-1.5">
-                            <button onClick={onUndo} disabled={!canUndo} className={ButtonClass(false, !canUndo)} title="Undo (Ctrl+Z)">
+                            <button onClick={onUndo} disabled={!canUndo} className={ButtonClass(false, !canUndo)} title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}>
                                 <RotateCcw size={18} />
                             </button>
-                            <button onClick={onRedo} disabled={!canRedo} className={ButtonClass(false, !canRedo)} title="Redo (Ctrl+Y)">
+                            <button onClick={onRedo} disabled={!canRedo} className={ButtonClass(false, !canRedo)} title={redoLabel ? `Redo ${redoLabel} (Ctrl+Y)` : 'Redo (Ctrl+Y)'}>
                                 <RotateCw size={18} />
                             </button>
+                            <button onClick={onOpenHistory} className={ButtonClass(false)} title="History">
+                                <History size={18} />
+                            </button>
                         </div>
 
                         <div className="flex items-center space-x-0.5 border-r border-gray-200 pr-1.5 mr-1.5">
@@ -418,7 +459,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
                                 ref={fileUploadRef}
                                 type="file"
                                 multiple
-                                accept=".html,.htm,.docx,image/*"
+                                accept=".html,.htm,.docx,.md,.markdown,.iwp,image/*"
                                 onChange={onFileUpload}
                                 className="hidden"
                             />
@@ -449,12 +490,30 @@ const Toolbar: React.FC<ToolbarProps> = ({
                             <button onClick={onOpenPageNumberModal} className={ButtonClass(false)} title="Insert Page Numbers">
                                 <Hash size={18} />
                             </button>
+                            <button onClick={onOpenTemplates} className={ButtonClass(false)} title="Page Templates">
+                                <LayoutGrid size={18} />
+                            </button>
+                            <button onClick={onOpenMasterPages} className={ButtonClass(false)} title="Master Pages">
+                                <PanelsTopBottom size={18} />
+                            </button>
+                            <button onClick={onOpenThemes} className={ButtonClass(false)} title="Theme (colors, fonts, shapes, rules)">
+                                <Palette size={18} />
+                            </button>
+                            <button onClick={onOpenFind} className={ButtonClass(false)} title="Find and Replace (Ctrl+F)">
+                                <Search size={18} />
+                            </button>
+                            <button onClick={onOpenSpellcheck} className={ButtonClass(false)} title="Spelling and Grammar">
+                                <SpellCheck size={18} />
+                            </button>
                             <button onClick={onInsertHorizontalRule} className={ButtonClass(false)} title="Insert Horizontal Line">
                                 <Minus size={18} />
                             </button>
                             <button onClick={onInsertTextLayer} className={ButtonClass(isTextLayerMode)} title="Insert Text Layer">
                                 <FileText size={18} />
                             </button>
+                            <button onClick={onOpenDataMerge} className={ButtonClass(false)} title="Data Merge ({{field}} placeholders from CSV/JSON)">
+                                <Braces size={18} />
+                            </button>
                             <button
                                 onClick={onToggleFrameTools}
                                 className={ButtonClass(showFrameTools)}
@@ -483,6 +542,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
                                     >
                                         <Ruler size={12} />
                                     </button>
+                                    <button
+                                        onClick={onToggleMirrorMargins}
+                                        className={`${ButtonClass(mirrorMargins)} !p-1`}
+                                        title="Mirror margins (facing pages: left margin is the inside gutter)"
+                                    >
+                                        <BookOpen size={12} />
+                                    </button>
                                 </div>
                             </div>
                             <select
@@ -490,12 +556,28 @@ const Toolbar: React.FC<ToolbarProps> = ({
                                 onChange={(e) => onPageSizeChange(e.target.value)}
                                 value={pageFormatId}
                             >
-                                <option value={PAGE_FORMATS.LETTER.id}>8.5x11 (110–150)</option>
-                                <option value={PAGE_FORMATS.LETTER_THICK.id}>8.5x11 (151–200)</option>
-                                <option value={PAGE_FORMATS.TRADE.id}>6x9 (110–150)</option>
-                                <option value={PAGE_FORMATS.TRADE_THICK.id}>6x9 (151–200)</option>
+                                <optgroup label="Presets">
+                                    <option value={PAGE_FORMATS.LETTER.id}>8.5x11 (110–150)</option>
+                                    <option value={PAGE_FORMATS.LETTER_THICK.id}>8.5x11 (151–200)</option>
+                                    <option value={PAGE_FORMATS.TRADE.id}>6x9 (110–150)</option>
+                                    <option value={PAGE_FORMATS.TRADE_THICK.id}>6x9 (151–200)</option>
+                                </optgroup>
+                                <optgroup label="KDP trim sizes">
+                                    {TRIM_SIZES.map(trim => (
+                                        <option key={trim.id} value={trim.id}>{trim.name}</option>
+                                    ))}
+                                </optgroup>
                                 <option value={PAGE_FORMATS.CUSTOM.id}>Custom</option>
                             </select>
+                            <select
+                                className="h-6 border border-gray-300 rounded px-1 text-[10px] text-gray-700 focus:outline-none focus:border-brand-500 bg-white w-20"
+                                onChange={(e) => onBleedChange(Number(e.target.value))}
+                                value={bleed}
+                                title="Bleed: extra paper on the top, bottom and outside edge, trimmed after printing"
+                            >
+                                <option value={0}>No bleed</option>
+                                <option value={KDP_BLEED}>Bleed {KDP_BLEED}"</option>
+                            </select>
 
                             {pageFormatId === 'custom' && (
                                 <div className="flex items-center gap-1">
@@ -574,6 +656,16 @@ const Toolbar: React.FC<ToolbarProps> = ({
                                                 </button>
                                             </div>
                                         ))}
+                                        <button
+                                            onMouseDown={(e) => e.preventDefault()}
+                                            onClick={() => {
+                                                onOpenStyleSheets();
+                                                setIsStyleMenuOpen(false);
+                                            }}
+                                            className="mt-1 border-t border-gray-100 text-left text-xs text-brand-600 hover:bg-brand-50 rounded px-2 py-1.5"
+                                        >
+                                            Style sheets…
+                                        </button>
                                     </div>
                                 )}
                             </div>
@@ -905,6 +997,38 @@ const Toolbar: React.FC<ToolbarProps> = ({
                                 >
                                     API Key
                                 </button>
+                                <button
+                                    onClick={() => {
+                                        onOpenPaginationRules();
+                                        setIsSettingsMenuOpen(false);
+                                    }}
+                                    className="w-full text-left text-xs px-2 py-2 rounded hover:bg-brand-50 text-gray-700"
+                                >
+                                    Widows, orphans & headings
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        onOpenPreflight();
+                                        setIsSettingsMenuOpen(false);
+                                    }}
+                                    className="w-full text-left text-xs px-2 py-2 rounded hover:bg-brand-50 text-gray-700"
+                                >
+                                    Print preflight
+                                </button>
+                                <div className="px-2 py-2">
+                                    <div className="text-xs text-gray-700 mb-1">Gutter by page count</div>
+                                    <div className="flex gap-1">
+                                        {(['off', 'warn', 'auto'] as GutterMode[]).map(mode => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => onGutterModeChange(mode)}
+                                                className={`flex-1 text-[11px] px-2 py-1 rounded border capitalize ${gutterMode === mode ? 'border-brand-500 bg-brand-50 text-brand-600 font-semibold' : 'border-gray-200 text-gray-600 hover:bg-brand-50'}`}
+                                            >
+                                                {mode}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
                                 <div className="h-px bg-gray-100 my-2"></div>
                                 <div className="text-[10px] uppercase font-bold text-gray-400 px-2 py-1 bg-gray-50 mb-1 rounded">
                                     Logs
@@ -918,6 +1042,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
                                 >
                                     Open error log
                                 </button>
+                                <button
+                                    onClick={() => {
+                                        onOpenRecovery();
+                                        setIsSettingsMenuOpen(false);
+                                    }}
+                                    className="w-full text-left text-xs px-2 py-2 rounded hover:bg-brand-50 text-gray-700"
+                                >
+                                    Recover autosave
+                                </button>
                             </>
                             ,
                             6,
@@ -1,3 +1,4 @@
+import { GutterRange, MasterPage, MasterRunningText, NamedStyle, PaginationRules, SpellcheckSettings, Theme, TrimSize } from './types';
 
 export const DEFAULT_CSS = `
 @page {
@@ -408,6 +409,48 @@ export const DEFAULT_HTML = `
 </div>
 `;
 
+// KDP paperback minimum inside margin (gutter) by page count, in inches.
+export const KDP_GUTTER_TABLE: GutterRange[] = [
+  { minPages: 24, maxPages: 150, gutter: 0.375 },
+  { minPages: 151, maxPages: 300, gutter: 0.5 },
+  { minPages: 301, maxPages: 500, gutter: 0.625 },
+  { minPages: 501, maxPages: 700, gutter: 0.75 },
+  { minPages: 701, maxPages: 828, gutter: 0.875 }
+];
+
+// Outside, top and bottom margins KDP accepts without bleed.
+export const KDP_MIN_OUTSIDE_MARGIN = 0.25;
+
+// KDP bleed: extra paper on the top, bottom and outside edge that is trimmed off.
+export const KDP_BLEED = 0.125;
+
+export const TRIM_SIZES: TrimSize[] = [
+  { id: 'trim-5x8', name: '5" x 8"', width: '5in', height: '8in' },
+  { id: 'trim-5.06x7.81', name: '5.06" x 7.81"', width: '5.06in', height: '7.81in' },
+  { id: 'trim-5.25x8', name: '5.25" x 8"', width: '5.25in', height: '8in' },
+  { id: 'trim-5.5x8.5', name: '5.5" x 8.5"', width: '5.5in', height: '8.5in' },
+  { id: 'trim-6x9', name: '6" x 9"', width: '6in', height: '9in' },
+  { id: 'trim-6.14x9.21', name: '6.14" x 9.21"', width: '6.14in', height: '9.21in' },
+  { id: 'trim-6.69x9.61', name: '6.69" x 9.61"', width: '6.69in', height: '9.61in' },
+  { id: 'trim-7x10', name: '7" x 10"', width: '7in', height: '10in' },
+  { id: 'trim-7.44x9.69', name: '7.44" x 9.69"', width: '7.44in', height: '9.69in' },
+  { id: 'trim-7.5x9.25', name: '7.5" x 9.25"', width: '7.5in', height: '9.25in' },
+  { id: 'trim-8x10', name: '8" x 10"', width: '8in', height: '10in' },
+  { id: 'trim-8.25x6', name: '8.25" x 6"', width: '8.25in', height: '6in' },
+  { id: 'trim-8.25x8.25', name: '8.25" x 8.25"', width: '8.25in', height: '8.25in' },
+  { id: 'trim-8.5x8.5', name: '8.5" x 8.5"', width: '8.5in', height: '8.5in' },
+  { id: 'trim-8.25x11', name: '8.25" x 11"', width: '8.25in', height: '11in' },
+  { id: 'trim-8.5x11', name: '8.5" x 11"', width: '8.5in', height: '11in' },
+  { id: 'trim-a5', name: 'A5 (5.83" x 8.27")', width: '5.83in', height: '8.27in' },
+  { id: 'trim-a4', name: 'A4 (8.27" x 11.69")', width: '8.27in', height: '11.69in' }
+];
+
+// Catalog trims start with the thinnest-book gutter; the gutter follows the page count from there.
+const TRIM_FORMATS = Object.fromEntries(TRIM_SIZES.map(trim => [trim.id, {
+  ...trim,
+  margins: { top: 0.5, bottom: 0.5, left: KDP_GUTTER_TABLE[0].gutter, right: 0.5 }
+}]));
+
 // Official margin values based on page count
 // Pages 110-150: gutter (inside) values
 // Pages 151-200: larger gutter values
@@ -451,8 +494,139 @@ export const PAGE_FORMATS = {
     width: '8.5in',
     height: '11in',
     margins: { top: 0.5, bottom: 0.5, left: 0.5, right: 0.5 }
-  }
+  },
+  ...TRIM_FORMATS
 };  
+export const DEFAULT_PAGINATION_RULES: PaginationRules = {
+  orphans: 2,
+  widows: 2,
+  keepHeadingsWithNext: true
+};
+
+const runningLine = (text: string, align: MasterRunningText['align']): MasterRunningText => ({
+  text,
+  align,
+  fontFamily: '',
+  fontSize: 9,
+  offset: 0.4
+});
+
+const NO_BORDER: MasterPage['border'] = { style: 'none', width: 1, color: '#000000', radius: 0, inset: 0.25 };
+const NO_BACKGROUND: MasterPage['background'] = { color: '', image: '', opacity: 1, fit: 'cover' };
+
+// Starting set for new projects: a chapter opener flowing into alternating body pages.
+// Nothing is drawn until a page is assigned one of them.
+export const DEFAULT_MASTER_PAGES: MasterPage[] = [
+  {
+    id: 'master-chapter-opener',
+    name: 'Chapter opener',
+    header: runningLine('', 'center'),
+    footer: runningLine('', 'center'),
+    border: { style: 'double', width: 4, color: '#000000', radius: 0, inset: 0.3 },
+    background: NO_BACKGROUND,
+    followedBy: 'master-body-left'
+  },
+  {
+    id: 'master-body-left',
+    name: 'Body left',
+    header: runningLine('Book title', 'left'),
+    footer: runningLine('', 'left'),
+    border: NO_BORDER,
+    background: NO_BACKGROUND,
+    followedBy: 'master-body-right'
+  },
+  {
+    id: 'master-body-right',
+    name: 'Body right',
+    header: runningLine('Chapter title', 'right'),
+    footer: runningLine('', 'right'),
+    border: NO_BORDER,
+    background: NO_BACKGROUND,
+    followedBy: 'master-body-left'
+  }
+];
+
+// Starting style sheet for new projects: a Body root with worksheet styles based on it.
+export const DEFAULT_NAMED_STYLES: NamedStyle[] = [
+  { id: 'ps-body', name: 'Body', kind: 'paragraph', basedOn: null, properties: {} },
+  {
+    id: 'ps-instruction',
+    name: 'Instruction',
+    kind: 'paragraph',
+    basedOn: 'ps-body',
+    properties: { 'font-style': 'italic', color: '#4b5563', 'margin-bottom': '8px' }
+  },
+  {
+    id: 'ps-answer-key',
+    name: 'Answer key',
+    kind: 'paragraph',
+    basedOn: 'ps-body',
+    properties: { color: '#1d4ed8', 'background-color': '#eff6ff', 'font-size': '0.9em' }
+  },
+  { id: 'cs-vocabulary-word', name: 'Vocabulary word', kind: 'character', basedOn: null, properties: { 'font-weight': 'bold', color: '#7c3aed' } }
+];
+
+// Built-in themes. Classic matches DEFAULT_CSS, so it is what a new project looks like.
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: 'theme-classic',
+    name: 'Classic',
+    palette: { text: '#000000', heading: '#000000', accent: '#8d55f1', highlight: '#efe5ff' },
+    fonts: { heading: "'Black Ops One', cursive", body: "'Roboto', sans-serif" },
+    border: { borderWidth: 2, borderColor: '#000000', borderRadius: 0, backgroundColor: '#ffffff', padding: 15, borderStyle: 'solid' },
+    hr: { color: '#000000', height: 2, width: 100, alignment: 'center', style: 'solid' }
+  },
+  {
+    id: 'theme-storybook',
+    name: 'Storybook',
+    palette: { text: '#3b2f2f', heading: '#9a3412', accent: '#ea580c', highlight: '#ffedd5' },
+    fonts: { heading: "'Lobster', cursive", body: 'Georgia, serif' },
+    border: { borderWidth: 3, borderColor: '#9a3412', borderRadius: 16, backgroundColor: '#fff7ed', padding: 16, borderStyle: 'solid' },
+    hr: { color: '#ea580c', height: 4, width: 60, alignment: 'center', style: 'tapered' }
+  },
+  {
+    id: 'theme-modern',
+    name: 'Modern',
+    palette: { text: '#1f2937', heading: '#0f172a', accent: '#0ea5e9', highlight: '#e0f2fe' },
+    fonts: { heading: "'Montserrat', sans-serif", body: "'Open Sans', sans-serif" },
+    border: { borderWidth: 1, borderColor: '#0ea5e9', borderRadius: 8, backgroundColor: '#f0f9ff', padding: 14, borderStyle: 'solid' },
+    hr: { color: '#94a3b8', height: 1, width: 100, alignment: 'center', style: 'solid' }
+  },
+  {
+    id: 'theme-notebook',
+    name: 'Notebook',
+    palette: { text: '#1e293b', heading: '#1d4ed8', accent: '#2563eb', highlight: '#dbeafe' },
+    fonts: { heading: "'Comic Sans MS', cursive, sans-serif", body: 'Verdana, Geneva, sans-serif' },
+    border: { borderWidth: 2, borderColor: '#1d4ed8', borderRadius: 4, backgroundColor: '#ffffff', padding: 12, borderStyle: 'dashed' },
+    hr: { color: '#1d4ed8', height: 2, width: 100, alignment: 'center', style: 'dashed' }
+  }
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+// Hunspell dictionaries looked up in public/dictionaries (<id>.aff and <id>.dic)
+export const BUILT_IN_DICTIONARIES: Array<{ id: string; name: string }> = [
+  { id: 'en_US', name: 'English (US)' },
+  { id: 'en_GB', name: 'English (UK)' },
+  { id: 'it_IT', name: 'Italiano' }
+];
+
+export const DEFAULT_SPELLCHECK_SETTINGS: SpellcheckSettings = { enabled: true, language: 'en_US', customWords: [] };
+
+// Web fonts index.html loads from Google Fonts. PDF export embeds the same faces from their
+// @fontsource npm packages, served at /fonts/ (vite.config.ts); `subsets` in lookup order.
+export const BUNDLED_FONTS: Array<{ family: string; package: string; weights: number[]; italic: boolean; subsets: string[] }> = [
+  { family: 'Black Ops One', package: 'black-ops-one', weights: [400], italic: false, subsets: ['latin', 'latin-ext', 'cyrillic-ext', 'vietnamese'] },
+  { family: 'Courier Prime', package: 'courier-prime', weights: [400, 700], italic: true, subsets: ['latin', 'latin-ext'] },
+  { family: 'Inter', package: 'inter', weights: [400, 500, 600, 700], italic: false, subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese'] },
+  { family: 'Lobster', package: 'lobster', weights: [400], italic: false, subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'vietnamese'] },
+  { family: 'Roboto', package: 'roboto', weights: [400, 700], italic: true, subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese', 'math', 'symbols'] }
+];
+
+export const bundledFontFile = (font: typeof BUNDLED_FONTS[number], subset: string, weight: number, italic: boolean) => (
+  `${font.package}-${subset}-${weight}-${italic ? 'italic' : 'normal'}.woff`
+);
+
   export const FONTS = [
     { name: 'Default', value: 'inherit' },
     // App Specific
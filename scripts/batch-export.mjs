@@ -0,0 +1,425 @@
+// Batch export: runs a folder of HTML books through the same import, pagination and export
+// steps as the app, headlessly, and writes HTML / PDF / DOCX files plus summary.json.
+//
+//   npm run batch-export -- --format 6x9 --out dist books/
+//   node scripts/batch-export.mjs --format letter --margins 0.5,0.5,0.75,0.5 --mirror \
+//       --outputs html,docx,pdf book-01.html book-02.html
+//
+// Options:
+//   --format <id>          page format id from constants.ts (letter, 6x9, trim-8.5x11, ...; "custom" needs --size)
+//   --size <W>x<H>         custom trim size, e.g. 7inx10in or 178mmx254mm
+//   --margins <t,b,l,r>    margins in inches (default: the format's margins); l is the gutter with --mirror
+//   --mirror               mirrored margins
+//   --bleed <in>           bleed in inches (default 0)
+//   --outputs <list>       any of html,docx,pdf (default html,docx)
+//   --out <dir>            output folder (default ./batch-output)
+//   --font-size <pt>       body text size used to estimate line breaks without Chrome (default 12)
+//   --line-height <ratio>  body line height for the same estimate (default 1.5)
+//   --chrome <path>        Chrome/Chromium used to print PDFs (default: $CHROME_PATH or a known install)
+//
+// jsdom has no layout: pages are first cut with the fixed-metrics measurer
+// (utils/paginationMeasurer.ts), an estimate built from the font size and line height above.
+// With --outputs pdf, Chrome (required for it) then paginates the book again with its real
+// layout, the domMeasurer of the app, and every output, page count and overflow check in
+// summary.json comes from that layout. Without it, open the book in the app for the exact
+// page breaks before sending a file to print.
+//
+// PDFs differ from the app: utils/pdfWriter.ts places text at the positions of a real browser
+// layout, which jsdom does not have, so here headless Chrome prints the paginated HTML instead.
+// A book fails (and the run exits 1) when any requested output cannot be written.
+
+import { parseArgs } from 'node:util';
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { JSDOM } from 'jsdom';
+import { build, createServer } from 'vite';
+
+const USAGE = 'Usage: node scripts/batch-export.mjs --format <id> [--size WxH] [--margins t,b,l,r] [--mirror] [--bleed in] [--outputs html,docx,pdf] [--out dir] <book.html | folder>...';
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: 'string' },
+    size: { type: 'string' },
+    margins: { type: 'string' },
+    mirror: { type: 'boolean', default: false },
+    bleed: { type: 'string', default: '0' },
+    outputs: { type: 'string', default: 'html,docx' },
+    out: { type: 'string', default: 'batch-output' },
+    'font-size': { type: 'string', default: '12' },
+    'line-height': { type: 'string', default: '1.5' },
+    chrome: { type: 'string' },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+});
+
+const fail = (message) => {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(1);
+};
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (!args.format) fail('Missing --format.');
+if (positionals.length === 0) fail('No input files or folders.');
+
+const outputs = args.outputs.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+const unknownOutput = outputs.find(name => !['html', 'docx', 'pdf'].includes(name));
+if (unknownOutput) fail(`Unknown output "${unknownOutput}".`);
+
+// --- Modules (Vite transpiles the TypeScript sources, as in the regression suite) ---
+
+const server = await createServer({
+  root: resolve(process.cwd()),
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+const { DEFAULT_CSS, PAGE_FORMATS, DEFAULT_PAGINATION_RULES } = await server.ssrLoadModule('/constants.ts');
+const { parseHtmlImport, scopeImportedCss, unwrapSingleContainer, fixClippedContainers } = await server.ssrLoadModule('/utils/htmlImport.ts');
+const { applyLayoutOverride, lengthInInches } = await server.ssrLoadModule('/utils/pageLayout.ts');
+const { ensureContentIsPaginated, paginateDocument, createFixedMetricsMeasurer, isPageOverflowing } = await server.ssrLoadModule('/utils/pagination.ts');
+const { writeDocx } = await server.ssrLoadModule('/utils/docxWriter.ts');
+await server.close();
+
+// --- Page setup ---
+
+const format = Object.values(PAGE_FORMATS).find(f => f.id === args.format);
+if (!format) fail(`Unknown format "${args.format}". Known: ${Object.values(PAGE_FORMATS).map(f => f.id).join(', ')}.`);
+
+let size = { width: format.width, height: format.height };
+if (args.size) {
+  const [width, height] = args.size.toLowerCase().split('x');
+  if (!width || !height) fail(`Bad --size "${args.size}".`);
+  size = { width, height };
+} else if (format.id === 'custom') {
+  fail('The custom format needs --size.');
+}
+const widthIn = lengthInInches(size.width, NaN);
+const heightIn = lengthInInches(size.height, NaN);
+if (!Number.isFinite(widthIn) || !Number.isFinite(heightIn)) fail(`Page size ${size.width} x ${size.height} must use in, cm, mm, px or pt.`);
+
+let margins = format.margins || { top: 0.5, bottom: 0.5, left: 0.5, right: 0.5 };
+if (args.margins) {
+  const [top, bottom, left, right] = args.margins.split(',').map(Number);
+  if (![top, bottom, left, right].every(Number.isFinite)) fail(`Bad --margins "${args.margins}" (expected top,bottom,left,right in inches).`);
+  margins = { top, bottom, left, right };
+}
+const bleed = Number(args.bleed) || 0;
+const mirrored = args.mirror;
+
+// Same metrics for every page: the text block of the trim size, body text at --font-size.
+const fontSizePx = (Number(args['font-size']) || 12) * 96 / 72;
+const metrics = {
+  pageHeight: (heightIn + bleed * 2) * 96,
+  paddingTop: (margins.top + bleed) * 96,
+  paddingBottom: (margins.bottom + bleed) * 96,
+  lineHeight: fontSizePx * (Number(args['line-height']) || 1.5),
+  // Average glyph width of a text face is about half the font size
+  charsPerLine: Math.max(1, Math.floor(((widthIn - margins.left - margins.right) * 96) / (fontSizePx * 0.5)))
+};
+
+// --- Inputs ---
+
+const IMAGE_TYPES = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif', '.webp': 'image/webp', '.svg': 'image/svg+xml' };
+
+const collectBooks = async (paths) => {
+  const books = [];
+  for (const path of paths) {
+    const info = await stat(path).catch(() => null);
+    if (!info) fail(`Not found: ${path}`);
+    if (info.isDirectory()) {
+      const names = (await readdir(path)).filter(name => /\.html?$/i.test(name)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+      books.push(...names.map(name => join(path, name)));
+    } else {
+      books.push(path);
+    }
+  }
+  return books;
+};
+
+// Companion files next to the book, referenced by relative path or bare file name (like the
+// files picked together with an HTML file in the Open dialog).
+const readCompanions = async (bookPath, text) => {
+  const images = new Map();
+  const stylesheets = new Map();
+  const folder = dirname(bookPath);
+  const references = [...text.matchAll(/(?:src|href)\s*=\s*["']([^"'#?]+)["']/gi)].map(match => match[1]);
+  for (const reference of new Set(references)) {
+    if (/^(data:|https?:|\/\/)/i.test(reference)) continue;
+    const decoded = decodeURIComponent(reference);
+    const candidates = [resolve(folder, decoded), join(folder, basename(decoded))];
+    const file = candidates.find(candidate => existsSync(candidate));
+    if (!file) continue;
+    const extension = extname(file).toLowerCase();
+    if (IMAGE_TYPES[extension]) {
+      images.set(basename(decoded), `data:${IMAGE_TYPES[extension]};base64,${(await readFile(file)).toString('base64')}`);
+    } else if (extension === '.css') {
+      stylesheets.set(basename(decoded), await readFile(file, 'utf8'));
+    }
+  }
+  return { images, stylesheets };
+};
+
+// --- DOM globals for the app modules ---
+
+// Every DOM interface the modules may test with instanceof (HTMLInputElement, HTMLAnchorElement…)
+const DOM_INTERFACE = /^(HTML\w*Element|SVG\w*Element|Node|Element|Text|Comment|DocumentFragment|Range|NodeFilter|TreeWalker|DOMParser|XMLSerializer|Image)$/;
+
+const useWindow = (window) => {
+  globalThis.window = window;
+  globalThis.document = window.document;
+  globalThis.getComputedStyle = window.getComputedStyle.bind(window);
+  for (const key of Object.getOwnPropertyNames(window)) {
+    if (DOM_INTERFACE.test(key)) globalThis[key] = window[key];
+  }
+  globalThis.CSS = window.CSS || { escape: (value) => String(value).replace(/[^\w-]/g, char => `\\${char}`) };
+};
+
+// Same document shell as Export > HTML, plus the print rules of Export > Print for Chrome.
+const PRINT_CSS = `
+@media print {
+  @page { margin: 0; }
+  html, body { margin: 0; padding: 0; background: white; }
+  .page { margin: 0 auto !important; box-shadow: none !important; break-after: page; break-inside: avoid; }
+  .page:last-child { break-after: auto; }
+  * { -webkit-print-color-adjust: exact !important; print-color-adjust: exact !important; }
+}`;
+
+const htmlDocument = (title, css, body, extraCss = '', scripts = '') => `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title.replace(/</g, '&lt;')}</title>
+    <style>
+${css}${extraCss}
+    </style>${scripts}
+</head>
+<body>
+<div class="editor-workspace">
+${body}
+</div>
+</body>
+</html>`;
+
+const findChrome = () => {
+  const candidates = [
+    args.chrome,
+    process.env.CHROME_PATH,
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    '/usr/bin/google-chrome',
+    '/usr/bin/chromium',
+    '/usr/bin/chromium-browser',
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe'
+  ];
+  return candidates.find(candidate => candidate && existsSync(candidate)) || null;
+};
+
+// Both runs give web fonts and images the same time to load, so the pages Chrome measured are
+// the pages it prints
+const CHROME_FLAGS = ['--headless=new', '--disable-gpu', '--run-all-compositor-stages-before-draw', '--virtual-time-budget=30000'];
+
+const printPdf = (chrome, htmlPath, pdfPath) => new Promise((resolvePrint, reject) => {
+  execFile(chrome, [
+    ...CHROME_FLAGS, '--no-pdf-header-footer', `--print-to-pdf=${pdfPath}`, pathToFileURL(htmlPath).href
+  ], { timeout: 120000 }, (error) => (error ? reject(error) : resolvePrint()));
+});
+
+// The page's DOM once its scripts have run
+const dumpDom = (chrome, htmlPath) => new Promise((resolveDump, reject) => {
+  execFile(chrome, [...CHROME_FLAGS, '--dump-dom', pathToFileURL(htmlPath).href], {
+    timeout: 300000,
+    maxBuffer: 1024 * 1024 * 1024 // books carry their images as data URLs
+  }, (error, stdout) => (error ? reject(error) : resolveDump(stdout)));
+});
+
+// --- Layout in Chrome ---
+
+// utils/pagination.ts as a browser script; it exposes the module as `BatchPagination`
+const bundlePagination = async () => {
+  const result = await build({
+    root: resolve(process.cwd()),
+    configFile: false,
+    logLevel: 'error',
+    publicDir: false,
+    build: { write: false, minify: false, lib: { entry: resolve('utils/pagination.ts'), formats: ['iife'], name: 'BatchPagination' } }
+  });
+  const [chunk] = (Array.isArray(result) ? result : [result]).flatMap(output => output.output);
+  return chunk.code.replace(/<\/script/gi, '<\\/script');
+};
+
+const LAYOUT_ATTRIBUTE = 'data-batch-layout';
+
+// Paginates the workspace once fonts and images are in, as the app does after an import, and
+// leaves the result on the workspace for the DOM dump
+const layoutScripts = (bundle) => `
+    <script>${bundle}</script>
+    <script>
+window.addEventListener('load', async () => {
+  const workspace = document.querySelector('.editor-workspace');
+  try {
+    await document.fonts.ready;
+    const { paginateDocument, isPageOverflowing, domMeasurer } = BatchPagination;
+    const result = paginateDocument(workspace, { measurer: domMeasurer, rules: ${JSON.stringify(DEFAULT_PAGINATION_RULES)} });
+    const pages = Array.from(workspace.querySelectorAll('.page'));
+    const overflowingPages = pages.flatMap((page, index) => (isPageOverflowing(page, domMeasurer) ? [index + 1] : []));
+    workspace.setAttribute('${LAYOUT_ATTRIBUTE}', JSON.stringify({ ...result, overflowingPages }));
+  } catch (error) {
+    workspace.setAttribute('${LAYOUT_ATTRIBUTE}', JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+  }
+});
+    </script>`;
+
+// Has Chrome paginate the book in `htmlPath` (written with layoutScripts) and moves its pages
+// into `workspace`
+const layOutInChrome = async (chrome, htmlPath, workspace) => {
+  let dump;
+  try {
+    dump = await dumpDom(chrome, resolve(htmlPath));
+  } catch (error) {
+    throw new Error(`Pagination in Chrome failed: ${error.message}`);
+  }
+  const laidOut = new workspace.ownerDocument.defaultView.DOMParser().parseFromString(dump, 'text/html').querySelector('.editor-workspace');
+  const report = laidOut?.getAttribute(LAYOUT_ATTRIBUTE);
+  if (!report) throw new Error('Pagination in Chrome did not finish.');
+  const layout = JSON.parse(report);
+  if (layout.error) throw new Error(`Pagination in Chrome failed: ${layout.error}`);
+  workspace.innerHTML = laidOut.innerHTML;
+  return layout;
+};
+
+// --- One book ---
+
+const exportBook = async (bookPath, outDir, chrome) => {
+  const name = basename(bookPath).replace(/\.html?$/i, '');
+  const warnings = [];
+  const text = await readFile(bookPath, 'utf8');
+
+  const dom = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', { pretendToBeVisual: true });
+  useWindow(dom.window);
+
+  // Import, as in App's HTML branch (the requested format wins over a size the file declares)
+  const imported = parseHtmlImport(text, await readCompanions(bookPath, text));
+  if (imported.pageSize && (Math.abs(lengthInInches(imported.pageSize.width, widthIn) - widthIn) > 0.02
+    || Math.abs(lengthInInches(imported.pageSize.height, heightIn) - heightIn) > 0.02)) {
+    warnings.push(`The file declares a ${imported.pageSize.width} x ${imported.pageSize.height} page; exported at ${size.width} x ${size.height}.`);
+  }
+  let css = `${DEFAULT_CSS}\n${scopeImportedCss(imported.css, '.editor-workspace')}`.trim();
+  css = applyLayoutOverride(css, size.width, size.height, margins, { mirrored, bleed });
+
+  const document = dom.window.document;
+  const style = document.createElement('style');
+  // jsdom's style resolver throws on @page rules; only the written files need them
+  style.textContent = css.replace(/@page\s*\{[^}]*\}/g, '');
+  document.head.appendChild(style);
+  const workspace = document.createElement('div');
+  workspace.className = 'editor-workspace';
+  workspace.innerHTML = imported.html;
+  document.body.appendChild(workspace);
+
+  // Pagination, as in paginateImportedDocument: the estimate first, then Chrome's layout
+  ensureContentIsPaginated(workspace);
+  workspace.querySelectorAll('.page').forEach(page => {
+    page.removeAttribute('data-page-break');
+    page.removeAttribute('data-user-page-break');
+    unwrapSingleContainer(page);
+    fixClippedContainers(page);
+  });
+  const measurer = createFixedMetricsMeasurer(metrics);
+  let layout = paginateDocument(workspace, { measurer, rules: DEFAULT_PAGINATION_RULES });
+  const htmlPath = join(outDir, `${name}.html`);
+  if (chrome) {
+    await writeFile(htmlPath, htmlDocument(name, css, workspace.innerHTML, '', layoutScripts(paginationBundle)));
+    layout = await layOutInChrome(chrome, htmlPath, workspace);
+  } else {
+    const pages = Array.from(workspace.querySelectorAll('.page'));
+    layout.overflowingPages = pages.flatMap((page, index) => (isPageOverflowing(page, measurer) ? [index + 1] : []));
+  }
+  const { pageCount, passes, overflowingPages } = layout;
+  if (!layout.stable) warnings.push(`Pagination did not settle after ${passes} passes.`);
+  if (overflowingPages.length > 0) {
+    warnings.push(`Content overflows page${overflowingPages.length === 1 ? '' : 's'} ${overflowingPages.join(', ')} (a block taller than the text area cannot be split).`);
+  }
+  const unsizedImages = workspace.querySelectorAll('img:not([width]):not([height])').length;
+  if (unsizedImages > 0 && outputs.includes('docx')) {
+    warnings.push(`${unsizedImages} image${unsizedImages === 1 ? '' : 's'} without width/height attributes: sized by estimate in the DOCX.`);
+  }
+
+  // Exports
+  const files = {};
+  if (outputs.includes('html') || outputs.includes('pdf')) {
+    await writeFile(htmlPath, htmlDocument(name, css, workspace.innerHTML, outputs.includes('pdf') ? PRINT_CSS : ''));
+    if (outputs.includes('html')) files.html = htmlPath;
+  }
+  if (outputs.includes('docx')) {
+    const bytes = await writeDocx(workspace, {
+      title: name,
+      page: { width: widthIn, height: heightIn, margins, mirrored, bleed },
+      keepHeadingsWithNext: DEFAULT_PAGINATION_RULES.keepHeadingsWithNext
+    });
+    files.docx = join(outDir, `${name}.docx`);
+    await writeFile(files.docx, bytes);
+  }
+  if (outputs.includes('pdf')) {
+    const pdfPath = join(outDir, `${name}.pdf`);
+    try {
+      await printPdf(chrome, resolve(htmlPath), resolve(pdfPath));
+    } catch (error) {
+      throw new Error(`PDF failed: ${error.message}`);
+    }
+    files.pdf = pdfPath;
+  }
+
+  dom.window.close();
+  return { book: bookPath, pages: pageCount, passes, overflowingPages, files, warnings };
+};
+
+// --- Run ---
+
+const books = await collectBooks(positionals);
+if (books.length === 0) fail('No .html files found.');
+const outDir = resolve(args.out);
+if (books.some(book => resolve(dirname(book)) === outDir)) fail('--out must be a different folder than the books (HTML output would overwrite them).');
+await mkdir(outDir, { recursive: true });
+const chrome = outputs.includes('pdf') ? findChrome() : null;
+if (outputs.includes('pdf') && !chrome) fail('PDF output needs Chrome/Chromium (use --chrome or CHROME_PATH).');
+const paginationBundle = chrome ? await bundlePagination() : null;
+
+const summary = {
+  format: format.id,
+  size,
+  margins,
+  mirrored,
+  bleed,
+  layout: chrome ? 'Chrome' : 'estimated (fixed metrics)',
+  metrics: chrome ? undefined : metrics,
+  generatedAt: new Date().toISOString(),
+  books: []
+};
+
+let failed = 0;
+for (const book of books) {
+  try {
+    const entry = await exportBook(book, outDir, chrome);
+    summary.books.push(entry);
+    console.log(`${entry.warnings.length ? '!' : '✓'} ${basename(book)}: ${entry.pages} pages${entry.warnings.length ? ` (${entry.warnings.length} warning${entry.warnings.length === 1 ? '' : 's'})` : ''}`);
+    entry.warnings.forEach(warning => console.log(`    ${warning}`));
+  } catch (error) {
+    failed++;
+    summary.books.push({ book, error: error.message });
+    console.error(`✗ ${basename(book)}: ${error.message}`);
+  }
+}
+
+await writeFile(join(outDir, 'summary.json'), `${JSON.stringify(summary, null, 2)}\n`);
+console.log(`\n${books.length - failed}/${books.length} books exported to ${outDir} (summary.json)`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,94 @@
+// Pagination regression suite: runs the real reflow code (utils/pagination.ts) in jsdom
+// with the fixed-metrics measurer and checks page counts and split points of every fixture
+// in tests/pagination/fixtures.mjs.
+//
+//   npm test
+//   node scripts/pagination-regression.mjs
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolve } from 'node:path';
+import { JSDOM } from 'jsdom';
+import { createServer } from 'vite';
+import { fixtures, METRICS } from '../tests/pagination/fixtures.mjs';
+
+const root = resolve(process.cwd());
+
+// Vite transpiles the TypeScript modules on the fly; no app config or plugins are needed.
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+const { paginateDocument, createFixedMetricsMeasurer } = await server.ssrLoadModule('/utils/pagination.ts');
+await server.close();
+
+const summarize = (workspace) => {
+  const pages = Array.from(workspace.querySelectorAll('.page'));
+  const blocks = {};
+  const chars = {};
+  pages.forEach((page, index) => {
+    page.querySelectorAll('[data-fixture]').forEach(el => {
+      const name = el.getAttribute('data-fixture');
+      (blocks[name] ||= []).push(index + 1);
+      (chars[name] ||= []).push(el.textContent.length);
+    });
+  });
+  return { pages: pages.length, blocks, chars };
+};
+
+for (const fixture of fixtures) {
+  test(fixture.name, () => {
+    const dom = new JSDOM(`<!DOCTYPE html><head><style>${fixture.css || ''}</style></head><body><div class="editor-workspace">${fixture.html}</div></body>`);
+    const workspace = dom.window.document.querySelector('.editor-workspace');
+    const measurer = createFixedMetricsMeasurer(fixture.metrics || METRICS);
+
+    const result = paginateDocument(workspace, { measurer, rules: fixture.rules });
+    assert.ok(result.stable, `pagination did not settle after ${result.passes} passes`);
+
+    const actual = summarize(workspace);
+    assert.equal(actual.pages, fixture.expect.pages, 'page count');
+    Object.entries(fixture.expect.blocks || {}).forEach(([name, pagesOfBlock]) => {
+      assert.deepEqual(actual.blocks[name] || [], pagesOfBlock, `pages of "${name}"`);
+    });
+    Object.entries(fixture.expect.chars || {}).forEach(([name, lengths]) => {
+      assert.deepEqual(actual.chars[name] || [], lengths, `split points of "${name}"`);
+    });
+
+    // A second run over a settled document must be a no-op.
+    const before = workspace.innerHTML;
+    paginateDocument(workspace, { measurer, rules: fixture.rules });
+    assert.equal(workspace.innerHTML, before, 'pagination is not idempotent');
+  });
+}
+
+test('break rules apply only to the run that passes them', () => {
+  const run = (rules) => {
+    const dom = new JSDOM(`<!DOCTYPE html><body><div class="editor-workspace"><div class="page"><p>${'x'.repeat(90)}</p></div></div></body>`);
+    const workspace = dom.window.document.querySelector('.editor-workspace');
+    paginateDocument(workspace, { measurer: createFixedMetricsMeasurer(METRICS), rules });
+    return Array.from(workspace.querySelectorAll('p'), p => p.textContent.length);
+  };
+  assert.deepEqual(run({ orphans: 1, widows: 1, keepHeadingsWithNext: true }), [80, 10]);
+  assert.deepEqual(run(undefined), [70, 20]);
+});
+
+test('the fixed-metrics layout is reused until the page changes', async () => {
+  const dom = new JSDOM('<!DOCTYPE html><body><div class="page"><p>0123456789012345</p></div></body>');
+  const page = dom.window.document.querySelector('.page');
+  const paragraph = page.querySelector('p');
+  const measurer = createFixedMetricsMeasurer(METRICS);
+  const box = measurer.getBlockBox(paragraph, page);
+  assert.equal(box.height, 40);
+  assert.equal(measurer.getBlockBox(paragraph, page), box, 'layout was computed again');
+
+  paragraph.textContent = 'x'.repeat(50);
+  assert.equal(measurer.getBlockBox(paragraph, page).height, 100);
+  // Changes whose records reach the observer callback before the next measurement
+  paragraph.style.marginTop = '10px';
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(measurer.getBlockBox(paragraph, page).top, METRICS.paddingTop + 10);
+});
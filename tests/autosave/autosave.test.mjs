@@ -0,0 +1,41 @@
+// Which autosave snapshots the start-up recovery prompt offers (utils/autosave.ts).
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import { loadModules } from '../harness.mjs';
+
+const [{ getRecoverableSnapshots, markSessionsClosed }] = await loadModules('/utils/autosave.ts');
+
+const snapshot = (sessionId, savedAt) => ({ id: `${sessionId}-${savedAt}`, sessionId, savedAt });
+const offered = (snapshots, current = 'now') => getRecoverableSnapshots(snapshots, current).map(item => item.id);
+
+beforeEach(() => {
+  globalThis.localStorage = new JSDOM('', { url: 'http://localhost/' }).window.localStorage;
+});
+
+test('a reload or crash leaves every snapshot of the session to offer', () => {
+  assert.deepEqual(offered([snapshot('a', 100), snapshot('a', 200), snapshot('now', 300)]), ['a-100', 'a-200']);
+});
+
+test('after a quit only the snapshots written since the last project save are offered', () => {
+  const snapshots = [snapshot('saved', 100), snapshot('unsaved', 100), snapshot('unsaved', 300)];
+  markSessionsClosed(['saved'], 150);
+  markSessionsClosed(['unsaved'], 200);
+  assert.deepEqual(offered(snapshots), ['unsaved-300']);
+});
+
+test('snapshots already offered are not offered again', () => {
+  const snapshots = [snapshot('a', 100), snapshot('b', 100)];
+  markSessionsClosed(['a']);
+  assert.deepEqual(offered(snapshots), ['b-100']);
+  // A later quit time does not bring them back
+  markSessionsClosed(['a'], 50);
+  assert.deepEqual(offered(snapshots), ['b-100']);
+});
+
+test('sessions without snapshots are forgotten', () => {
+  markSessionsClosed(['gone', 'kept'], 10);
+  offered([snapshot('kept', 5)]);
+  assert.deepEqual(JSON.parse(localStorage.getItem('spywriter-closed-sessions')), { kept: 10 });
+});
@@ -0,0 +1,45 @@
+// Batch export (scripts/batch-export.mjs) of tests/batch-export/book.html, run as a command.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { JSDOM } from 'jsdom';
+import { loadModules } from '../harness.mjs';
+
+const [{ readZip }] = await loadModules('/utils/zip.ts');
+
+test('batch export writes a well-formed DOCX and summary', async () => {
+  const outDir = await mkdtemp(join(tmpdir(), 'batch-export-'));
+  try {
+    await promisify(execFile)(process.execPath, [
+      'scripts/batch-export.mjs', '--format', '6x9', '--outputs', 'docx', '--out', outDir, 'tests/batch-export/book.html'
+    ], { timeout: 120000 });
+    const files = await readZip(await readFile(join(outDir, 'book.docx')));
+    const parts = [...files.keys()].filter(path => /\.(xml|rels)$/.test(path));
+    assert.ok(parts.includes('word/document.xml'), 'word/document.xml is missing');
+
+    const { DOMParser } = new JSDOM('').window;
+    const decoder = new TextDecoder();
+    parts.forEach(path => {
+      const xml = new DOMParser().parseFromString(decoder.decode(files.get(path)), 'application/xml');
+      assert.equal(xml.getElementsByTagName('parsererror').length, 0, `${path} is not well-formed XML`);
+    });
+    const body = decoder.decode(files.get('word/document.xml'));
+    ['Chapter One', 'Second item with', 'Value', '&lt;not a tag&gt;'].forEach(text => {
+      assert.ok(body.includes(text), `document.xml lacks "${text}"`);
+    });
+
+    // Without PDF output there is no Chrome, and the summary says the pages are estimated
+    const summary = JSON.parse(await readFile(join(outDir, 'summary.json'), 'utf8'));
+    assert.equal(summary.layout, 'estimated (fixed metrics)');
+    assert.equal(summary.books.length, 1);
+    assert.ok(summary.books[0].pages >= 1);
+    assert.deepEqual(summary.books[0].overflowingPages, []);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,61 @@
+// Data merge datasets and field lookup (utils/dataMerge.ts).
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules } from '../harness.mjs';
+
+const [{ parseMergeData, lookupField, fillPlaceholders, findMissingFields }] = await loadModules('/utils/dataMerge.ts');
+
+test('the most frequent separator of the header row is the delimiter', () => {
+  assert.deepEqual(parseMergeData('name,city\nAda,London\n', 'a.csv').records, [{ name: 'Ada', city: 'London' }]);
+  assert.deepEqual(parseMergeData('name;city;note\nAda;Londra;a, b\n', 'a.csv').records, [{ name: 'Ada', city: 'Londra', note: 'a, b' }]);
+  assert.deepEqual(parseMergeData('name\tcity\nAda\tLondon', 'a.txt').records, [{ name: 'Ada', city: 'London' }]);
+  // Separators inside quotes do not count
+  assert.deepEqual(parseMergeData('"a,b,c";d\n1;2', 'a.csv').fields, ['a,b,c', 'd']);
+});
+
+test('.tsv files always split on tabs', () => {
+  assert.deepEqual(parseMergeData('a,b\tc\n1,2\t3', 'a.tsv').records, [{ 'a,b': '1,2', c: '3' }]);
+});
+
+test('quoted fields hold separators, doubled quotes and line breaks', () => {
+  const { records } = parseMergeData('name,quote\r\n"Smith, Ada","She said ""hi""\nand left"\r\n', 'a.csv');
+  assert.deepEqual(records, [{ name: 'Smith, Ada', quote: 'She said "hi"\nand left' }]);
+});
+
+test('BOM, blank rows, short rows and unnamed columns', () => {
+  const { fields, records } = parseMergeData('\uFEFFname,,age\n\nAda\n \nBob,x,40\n', 'a.csv');
+  assert.deepEqual(fields, ['name', 'column2', 'age']);
+  assert.deepEqual(records, [{ name: 'Ada', column2: '', age: '' }, { name: 'Bob', column2: 'x', age: '40' }]);
+});
+
+test('a file without records is rejected', () => {
+  assert.throws(() => parseMergeData('name,city\n', 'a.csv'), /no records/);
+  assert.throws(() => parseMergeData('', 'a.csv'), /no header row/);
+  assert.throws(() => parseMergeData('{"a": 1}', 'a.json'), /array of records/);
+});
+
+test('JSON records: wrapper objects, nested fields and lists', () => {
+  const { fields, records } = parseMergeData(JSON.stringify({
+    records: [{ student: { name: 'Ada', grade: 5 }, words: ['one', 'two'], note: null }, 'skipped']
+  }), 'data.json');
+  assert.deepEqual(fields, ['student.name', 'student.grade', 'words', 'note']);
+  assert.deepEqual(records, [{ 'student.name': 'Ada', 'student.grade': '5', words: 'one, two', note: '' }]);
+});
+
+test('fields match exactly, then ignoring case and spaces', () => {
+  const record = { Name: 'Ada', ' City ': 'London' };
+  assert.equal(lookupField(record, 'Name'), 'Ada');
+  assert.equal(lookupField(record, 'name'), 'Ada');
+  assert.equal(lookupField(record, 'city'), 'London');
+  assert.equal(lookupField(record, 'age'), undefined);
+});
+
+test('inherited object keys are not fields', () => {
+  const record = { name: 'Ada' };
+  for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+    assert.equal(lookupField(record, name), undefined, name);
+  }
+  assert.equal(fillPlaceholders('{{ name }} {{constructor}} {{toString}}', record), 'Ada {{constructor}} {{toString}}');
+  assert.deepEqual(findMissingFields(['name', 'constructor', 'valueOf'], { fields: ['name'], records: [record] }), ['constructor', 'valueOf']);
+});
@@ -0,0 +1,83 @@
+// Word import (utils/docxImport.ts) of a small hand-built .docx package.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ importDocx }, { createZip }] = await loadModules('/utils/docxImport.ts', '/utils/zip.ts');
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const DRAWING = 'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+  + ' xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PNG = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg=='), c => c.charCodeAt(0));
+
+const paragraph = (text, pPr = '') => `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const picture = '<w:p><w:r><w:drawing><wp:inline><wp:extent cx="952500" cy="476250"/><wp:docPr id="1" name="Picture 1" descr="A dot"/>'
+  + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:blipFill><a:blip r:embed="rId10"/></pic:blipFill></pic:pic>'
+  + '</a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>';
+const pageField = '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>'
+  + '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+const docx = ({ body, header = null, image = true }) => createZip([
+  { path: 'word/document.xml', data: `<?xml version="1.0"?><w:document ${W} ${DRAWING}><w:body>${body}</w:body></w:document>` },
+  {
+    path: 'word/_rels/document.xml.rels',
+    data: `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rId10" Type="${REL}/image" Target="media/image1.png"/>`
+      + `<Relationship Id="rId20" Type="${REL}/header" Target="header1.xml"/></Relationships>`
+  },
+  ...(image ? [{ path: 'word/media/image1.png', data: PNG }] : []),
+  ...(header ? [{ path: 'word/header1.xml', data: `<?xml version="1.0"?><w:hdr ${W}>${header}</w:hdr>` }] : [])
+]);
+
+const SECTION = '<w:sectPr><w:headerReference w:type="default" r:id="rId20"/><w:pgSz w:w="8640" w:h="12960"/>'
+  + '<w:pgMar w:top="720" w:right="720" w:bottom="1080" w:left="864" w:header="360" w:footer="360" w:gutter="144"/></w:sectPr>';
+
+// The importer parses XML with the page's DOMParser
+useDocument();
+
+const pagesOf = (html) => Array.from(useDocument(html).querySelectorAll('body > .page'));
+
+test('a page break starts a new page and the image is embedded', async () => {
+  const result = await importDocx(docx({
+    body: paragraph('Before the break') + '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' + paragraph('After the break') + picture + SECTION
+  }));
+  const pages = pagesOf(result.html);
+  assert.equal(pages.length, 2);
+  assert.equal(pages[0].textContent, 'Before the break');
+  assert.equal(pages[1].getAttribute('data-user-page-break'), 'true');
+  assert.match(pages[1].textContent, /After the break/);
+  const img = pages[1].querySelector('img');
+  assert.ok(img.getAttribute('src').startsWith('data:image/png;base64,'));
+  assert.equal(img.getAttribute('alt'), 'A dot');
+  assert.equal(img.style.width, '100px');
+  assert.deepEqual(result.warnings, []);
+});
+
+test('page size and margins come from the section, the gutter added to the inside margin', async () => {
+  const result = await importDocx(docx({ body: paragraph('Text') + SECTION }));
+  assert.deepEqual(result.pageSize, { width: '6in', height: '9in' });
+  assert.deepEqual(result.margins, { top: 0.5, bottom: 0.75, left: 0.7, right: 0.5 });
+  assert.equal(result.mirrored, false);
+});
+
+test('a header PAGE field becomes the page numbers, other header text is reported', async () => {
+  const result = await importDocx(docx({
+    body: paragraph('Text') + SECTION,
+    header: `<w:p><w:pPr><w:jc w:val="right"/></w:pPr><w:r><w:t xml:space="preserve">Running head </w:t></w:r>${pageField}</w:p>`
+  }));
+  assert.equal(result.pageNumbers.position, 'top');
+  assert.equal(result.pageNumbers.align, 'right');
+  assert.equal(result.pageNumbers.startAnchorId, 'DOC_START');
+  assert.equal(result.pageNumbers.margin, 0.25);
+  assert.deepEqual(result.warnings, ['Header and footer text other than page numbers was not imported.']);
+});
+
+test('missing images are reported and a file without a document body is refused', async () => {
+  const result = await importDocx(docx({ body: picture + SECTION, image: false }));
+  assert.equal(pagesOf(result.html)[0].querySelector('img'), null);
+  assert.deepEqual(result.warnings, ['1 image could not be read from the document.']);
+
+  await assert.rejects(importDocx(createZip([{ path: 'word/styles.xml', data: '<styles/>' }])), /no Word document body/);
+});
@@ -0,0 +1,78 @@
+// DOCX export (utils/docxWriter.ts): package parts and page setup over a jsdom workspace.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ writeDocx }, { readZip, zipEntryText }, { PAGE_FORMATS }, { lengthInInches }] = await loadModules(
+  '/utils/docxWriter.ts', '/utils/zip.ts', '/constants.ts', '/utils/pageLayout.ts'
+);
+
+const workspace = (pages) => {
+  const document = useDocument(`<div class="editor-workspace">${pages.map(page => `<div class="page">${page}</div>`).join('')}</div>`);
+  return document.querySelector('.editor-workspace');
+};
+
+// The page setup the app builds from a page format (App.tsx handleExportDOCX)
+const pageSetup = (format, mirrored = false) => ({
+  width: lengthInInches(format.width, 8.5),
+  height: lengthInInches(format.height, 11),
+  margins: format.margins,
+  mirrored
+});
+
+const exportParts = async (pages, options) => {
+  const files = await readZip(await writeDocx(workspace(pages), { title: 'Book', page: pageSetup(PAGE_FORMATS.TRADE), ...options }));
+  const xml = (path) => {
+    const text = zipEntryText(files, path);
+    return text === null ? null : new window.DOMParser().parseFromString(text, 'application/xml');
+  };
+  return { files, xml };
+};
+
+test('every part of the package is well-formed and declared', async () => {
+  const { files, xml } = await exportParts(['<h1>Chapter One</h1><p>Text &amp; <b>bold</b></p><ul><li>Item</li></ul>']);
+  ['[Content_Types].xml', '_rels/.rels', 'docProps/core.xml', 'docProps/app.xml', 'word/document.xml', 'word/styles.xml',
+    'word/numbering.xml', 'word/settings.xml', 'word/_rels/document.xml.rels'].forEach(path => assert.ok(files.has(path), `${path} is missing`));
+  [...files.keys()].filter(path => /\.(xml|rels)$/.test(path)).forEach(path => {
+    assert.equal(xml(path).getElementsByTagName('parsererror').length, 0, `${path} is not well-formed XML`);
+  });
+
+  const overrides = Array.from(xml('[Content_Types].xml').getElementsByTagName('Override')).map(el => el.getAttribute('PartName'));
+  ['/word/document.xml', '/word/styles.xml', '/word/numbering.xml', '/word/settings.xml'].forEach(part => assert.ok(overrides.includes(part), part));
+  const targets = Array.from(xml('word/_rels/document.xml.rels').getElementsByTagName('Relationship')).map(el => el.getAttribute('Target'));
+  assert.deepEqual(['styles.xml', 'numbering.xml', 'settings.xml'].filter(target => !targets.includes(target)), []);
+
+  const body = zipEntryText(files, 'word/document.xml');
+  assert.match(body, /<w:pStyle w:val="Heading1"\/>.*Chapter One/);
+  assert.match(body, /<w:numPr>/);
+  assert.ok(body.includes('Text &amp; '));
+});
+
+test('page size and margins come from the page format', async () => {
+  const format = PAGE_FORMATS.TRADE;
+  const { xml } = await exportParts(['<p>One</p>'], { page: pageSetup(format, true) });
+  const doc = xml('word/document.xml');
+  const attr = (el, name) => Number(el.getAttribute(`w:${name}`));
+  const pgSz = doc.getElementsByTagName('w:pgSz')[0];
+  assert.equal(attr(pgSz, 'w'), Math.round(lengthInInches(format.width, 0) * 1440));
+  assert.equal(attr(pgSz, 'h'), Math.round(lengthInInches(format.height, 0) * 1440));
+  const pgMar = doc.getElementsByTagName('w:pgMar')[0];
+  ['top', 'bottom', 'left', 'right'].forEach(side => assert.equal(attr(pgMar, side), Math.round(format.margins[side] * 1440), side));
+  assert.equal(xml('word/settings.xml').getElementsByTagName('w:mirrorMargins').length, 1);
+});
+
+test('user page breaks become hard breaks and text drops XML-invalid characters', async () => {
+  const { files, xml } = await exportParts([
+    '<p>First page</p>',
+    '<div data-user-page-break="true" style="display:none"></div><p>Pasted\u0001 text\u000b</p>'
+  ], { title: 'Title\u0007' });
+  const body = zipEntryText(files, 'word/document.xml');
+  assert.match(body, /<w:br w:type="page"\/>|<w:pageBreakBefore\/>/);
+  assert.ok(body.includes('Pasted text'));
+  assert.equal(xml('docProps/core.xml').getElementsByTagName('dc:title')[0].textContent, 'Title');
+});
+
+test('an empty workspace is refused', async () => {
+  await assert.rejects(writeDocx(workspace([]), { title: 'Book', page: pageSetup(PAGE_FORMATS.LETTER) }), /no pages/);
+});
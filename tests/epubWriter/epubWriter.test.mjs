@@ -0,0 +1,84 @@
+// EPUB export (utils/epubWriter.ts): chapter files, navigation and package over a jsdom workspace.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ writeEpub }, { readZip, zipEntryText }] = await loadModules('/utils/epubWriter.ts', '/utils/zip.ts');
+
+const workspace = (pages) => {
+  const document = useDocument(`<div class="editor-workspace">${pages.map(page => `<div class="page">${page}</div>`).join('')}</div>`);
+  return document.querySelector('.editor-workspace');
+};
+
+const HEADINGS = [
+  { elementId: 'ch1', level: 1, title: 'Chapter One' },
+  { elementId: 'ch1-a', level: 2, title: 'A Section' },
+  { elementId: 'ch2', level: 1, title: 'Chapter Two' }
+];
+
+const exportBook = async (pages, options = {}) => {
+  const files = await readZip(await writeEpub(workspace(pages), { title: 'Book', language: 'en', css: '', headings: HEADINGS, ...options }));
+  const xml = (path) => new window.DOMParser().parseFromString(zipEntryText(files, path), 'application/xml');
+  return { files, xml };
+};
+
+const BOOK = [
+  '<p>Title page</p><h1 id="ch1">Chapter One</h1><p>First text</p>',
+  '<h2 id="ch1-a">A Section</h2><p>More text</p><p><a href="#ch2">See chapter two</a></p>',
+  '<h1 id="ch2">Chapter Two</h1><p>Last text</p>'
+];
+
+test('the book is cut into chapter files at the h1 entries', async () => {
+  const { files, xml } = await exportBook(BOOK);
+  assert.equal(zipEntryText(files, 'mimetype'), 'application/epub+zip');
+  assert.equal([...files.keys()][0], 'mimetype');
+  const chapters = [...files.keys()].filter(path => /^OEBPS\/text\/chapter-/.test(path));
+  assert.deepEqual(chapters, ['OEBPS/text/chapter-001.xhtml', 'OEBPS/text/chapter-002.xhtml', 'OEBPS/text/chapter-003.xhtml']);
+
+  const bodyText = (path) => xml(path).getElementsByTagName('body')[0].textContent.replace(/\s+/g, ' ').trim();
+  assert.equal(bodyText(chapters[0]), 'Title page');
+  assert.equal(bodyText(chapters[1]), 'Chapter One First text A Section More text See chapter two');
+  assert.equal(bodyText(chapters[2]), 'Chapter Two Last text');
+  assert.equal(xml(chapters[0]).getElementsByTagName('body')[0].getAttribute('epub:type'), 'frontmatter');
+  assert.equal(xml(chapters[1]).getElementsByTagName('a')[0].getAttribute('href'), 'chapter-003.xhtml#ch2');
+
+  const spine = Array.from(xml('OEBPS/content.opf').getElementsByTagName('itemref')).map(item => item.getAttribute('idref'));
+  assert.deepEqual(spine, ['chapter-1', 'chapter-2', 'chapter-3']);
+});
+
+test('nav.xhtml nests the Structure entries and links into their chapters', async () => {
+  const { xml } = await exportBook(BOOK);
+  const nav = xml('OEBPS/text/nav.xhtml');
+  const toc = Array.from(nav.getElementsByTagName('nav')).find(el => el.getAttribute('epub:type') === 'toc');
+  const top = Array.from(toc.getElementsByTagName('ol')[0].children);
+  assert.deepEqual(top.map(li => li.getElementsByTagName('a')[0].getAttribute('href')), ['chapter-002.xhtml#ch1', 'chapter-003.xhtml#ch2']);
+  const nested = top[0].getElementsByTagName('ol')[0].getElementsByTagName('a')[0];
+  assert.equal(nested.getAttribute('href'), 'chapter-002.xhtml#ch1-a');
+  assert.equal(nested.textContent, 'A Section');
+
+  const navItem = Array.from(xml('OEBPS/content.opf').getElementsByTagName('item')).find(item => item.getAttribute('id') === 'nav');
+  assert.equal(navItem.getAttribute('properties'), 'nav');
+});
+
+test('split paragraphs are joined and page breaks dropped', async () => {
+  const { files } = await exportBook([
+    '<h1 id="ch1">Chapter One</h1><p>The first half</p>',
+    '<div data-user-page-break="true" style="display:none"></div><p>and the second half.</p>'
+  ], { headings: HEADINGS.slice(0, 1) });
+  const chapter = zipEntryText(files, 'OEBPS/text/chapter-001.xhtml');
+  assert.equal(chapter.match(/<p\b/g).length, 1);
+  assert.ok(!chapter.includes('data-user-page-break'));
+});
+
+test('text pasted with control characters still gives well-formed XML', async () => {
+  const { files, xml } = await exportBook(['<h1 id="ch1">Chapter\u0001 One</h1><p>Pasted\u000b text\u001f</p>'], {
+    title: 'Book\u0007',
+    headings: [{ elementId: 'ch1', level: 1, title: 'Chapter\u0001 One' }]
+  });
+  [...files.keys()].filter(path => /\.(xhtml|opf|xml)$/.test(path)).forEach(path => {
+    assert.equal(xml(path).getElementsByTagName('parsererror').length, 0, `${path} is not well-formed XML`);
+  });
+  assert.equal(xml('OEBPS/content.opf').getElementsByTagName('dc:title')[0].textContent, 'Book');
+  assert.match(zipEntryText(files, 'OEBPS/text/chapter-001.xhtml'), /<title>Chapter One<\/title>[\s\S]*Pasted text/);
+});
@@ -0,0 +1,93 @@
+// Find and replace (utils/findReplace.ts) over a jsdom workspace.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ buildSearchPattern, findMatches, replaceAllMatches, replaceMatch, replacementFor }] = await loadModules('/utils/findReplace.ts');
+
+const PLAIN = { matchCase: false, wholeWord: false, regex: false };
+const REGEX = { matchCase: true, wholeWord: false, regex: true };
+
+const workspace = (pages) => {
+  const document = useDocument(`<div class="editor-workspace">${pages.map(page => `<div class="page">${page}</div>`).join('')}</div>`);
+  return document.querySelector('.editor-workspace');
+};
+
+const search = (root, query, options) => findMatches(root, buildSearchPattern(query, options));
+
+test('a match crosses inline formatting and reports its page', () => {
+  const root = workspace(['<p>nothing here</p>', '<p>hello <b>wor</b>ld</p>']);
+  const matches = search(root, 'hello world', PLAIN);
+  assert.equal(matches.length, 1);
+  assert.equal(matches[0].pageIndex, 1);
+  assert.equal(matches[0].range.toString(), 'hello world');
+});
+
+test('matches do not join text of different blocks', () => {
+  const root = workspace(['<p>foo</p><p>bar</p>']);
+  assert.equal(search(root, 'foobar', PLAIN).length, 0);
+});
+
+test('match case and whole word', () => {
+  const root = workspace(['<p>Cat catalog cat città</p>']);
+  assert.equal(search(root, 'cat', PLAIN).length, 3);
+  assert.equal(search(root, 'cat', { ...PLAIN, matchCase: true }).length, 2);
+  assert.equal(search(root, 'cat', { ...PLAIN, wholeWord: true }).length, 2);
+  assert.equal(search(root, 'citt', { ...PLAIN, wholeWord: true }).length, 0);
+});
+
+test('text layers, table cells and footers are searched', () => {
+  const root = workspace(['<div class="floating-text">x1</div><table><tr><td>x2</td></tr></table><div class="page-footer">x3</div>']);
+  assert.deepEqual(search(root, 'x\\d', REGEX).map(match => match.text), ['x1', 'x2', 'x3']);
+});
+
+test('generated footer text is found but flagged', () => {
+  const root = workspace(['<p>Page</p><div class="page-footer" data-fields="1"><span>Page 1</span></div><div class="master-layer"><p>Page title</p></div>']);
+  const matches = search(root, 'Page', PLAIN);
+  assert.deepEqual(matches.map(match => match.generated), [false, true, true]);
+  assert.equal(replaceAllMatches(matches, 'Sheet', PLAIN), 1);
+  assert.equal(root.querySelector('p').textContent, 'Sheet');
+  assert.equal(root.querySelector('[data-fields]').textContent, 'Page 1');
+});
+
+test('replacing a match spread over nodes keeps the first node formatting', () => {
+  const root = workspace(['<p>say <b>hel</b>lo there</p>']);
+  const [match] = search(root, 'hello', PLAIN);
+  assert.ok(replaceMatch(match, 'bye'));
+  assert.equal(root.querySelector('p').innerHTML, 'say <b>bye</b> there');
+});
+
+test('a match whose text changed is not replaced', () => {
+  const root = workspace(['<p>hello</p>']);
+  const [match] = search(root, 'hello', PLAIN);
+  root.querySelector('p').firstChild.data = 'jello';
+  assert.equal(replaceMatch(match, 'bye'), false);
+});
+
+test('regex replacements expand groups from the match in context', () => {
+  const root = workspace(['<p>Mr. Smith met Smith and ann@example.</p>']);
+  const lookbehind = search(root, '(?<=Mr\\. )Smith', REGEX);
+  assert.equal(lookbehind.length, 1);
+  assert.equal(replacementFor(lookbehind[0], 'Jones', REGEX), 'Jones');
+
+  const [email] = search(root, '(?<user>\\w+)@(\\w+)', REGEX);
+  assert.equal(replacementFor(email, '$2 at $1', REGEX), 'example at ann');
+  assert.equal(replacementFor(email, '$<user>!', REGEX), 'ann!');
+  assert.equal(replacementFor(email, '[$&] $$1 $10', REGEX), '[ann@example] $1 ann0');
+  assert.equal(replacementFor(email, "$`|$'", REGEX), 'Mr. Smith met Smith and |.');
+  assert.equal(replacementFor(email, '$3 $<none>', REGEX), '$3 ');
+});
+
+test('replace all works last to first and counts each replacement', () => {
+  const root = workspace(['<p>a-b a-b</p>', '<p>a-<i>b</i></p>']);
+  const matches = search(root, '(a)-(b)', REGEX);
+  assert.equal(replaceAllMatches(matches, '$2+$1', REGEX), 3);
+  assert.deepEqual(Array.from(root.querySelectorAll('p'), p => p.textContent), ['b+a b+a', 'b+a']);
+});
+
+test('plain replacements are taken literally', () => {
+  const root = workspace(['<p>cost</p>']);
+  const [match] = search(root, 'cost', PLAIN);
+  assert.equal(replacementFor(match, '$1 $&', PLAIN), '$1 $&');
+});
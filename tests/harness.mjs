@@ -0,0 +1,38 @@
+// Shared setup for the unit tests under tests/: the TypeScript modules are transpiled by Vite
+// (as in scripts/pagination-regression.mjs) and run against a jsdom document.
+
+import { resolve } from 'node:path';
+import { JSDOM } from 'jsdom';
+import { createServer } from 'vite';
+
+/** Loads app modules by path from the repo root, e.g. loadModules('/utils/zip.ts'). */
+export const loadModules = async (...paths) => {
+  const server = await createServer({
+    root: resolve(process.cwd()),
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false, watch: null },
+    optimizeDeps: { noDiscovery: true, include: [] }
+  });
+  try {
+    return await Promise.all(paths.map(path => server.ssrLoadModule(path)));
+  } finally {
+    await server.close();
+  }
+};
+
+// Every DOM interface the modules may test with instanceof (as in scripts/batch-export.mjs)
+const DOM_INTERFACE = /^(HTML\w*Element|SVG\w*Element|Node|Element|Text|Comment|DocumentFragment|Range|NodeFilter|TreeWalker|DOMParser|XMLSerializer|Image)$/;
+
+/** A fresh jsdom document holding `body`, installed as the global window/document. */
+export const useDocument = (body = '') => {
+  const { window } = new JSDOM(`<!DOCTYPE html><html><head></head><body>${body}</body></html>`);
+  globalThis.window = window;
+  globalThis.document = window.document;
+  for (const key of Object.getOwnPropertyNames(window)) {
+    if (DOM_INTERFACE.test(key)) globalThis[key] = window[key];
+  }
+  globalThis.CSS = window.CSS || { escape: (value) => String(value).replace(/[^\w-]/g, char => `\\${char}`) };
+  return window.document;
+};
@@ -0,0 +1,130 @@
+// Undo history (utils/history.ts): chunked entries, trimming and selection bookmarks.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{
+  createHistoryEntry, entryDocState, isSameHtml, historyBytes, appendHistoryEntry,
+  getSelectionBookmark, restoreSelectionBookmark, formatHistoryLabel, MAX_HISTORY_ENTRIES, MAX_HISTORY_BYTES
+}] = await loadModules('/utils/history.ts');
+
+const book = (pages) => pages.map(page => `<div class="page">${page}</div>`).join('');
+const state = (htmlContent, cssContent = 'p { margin: 0; }') => ({ htmlContent, cssContent, fileName: 'book.html' });
+const entry = (html, previous = null) => createHistoryEntry(state(html), 'Edit', previous);
+
+test('an entry keeps one chunk per page and one per image', () => {
+  const html = `<style></style>${book(['<p>one</p>', '<p>two<img src="data:image/png;base64,AAAA">after</p>'])}`;
+  const first = entry(html);
+  assert.deepEqual(first.chunks, [
+    '<style></style>',
+    '<div class="page"><p>one</p></div>',
+    '<div class="page"><p>two',
+    '<img src="data:image/png;base64,AAAA">',
+    'after</p></div>'
+  ]);
+  assert.deepEqual(entryDocState(first), state(html));
+  assert.ok(isSameHtml(first, html));
+  assert.ok(!isSameHtml(first, html.replace('one', 'uno')));
+});
+
+test('pages split into chunks whatever the order of their attributes', () => {
+  const html = [
+    '<div data-page-id="1" class="page"><p>one</p><div class="page-footer">1</div></div>',
+    '<div style="height: 9in" class="page chapter-start"><p>two</p></div>',
+    "<div id=\"p3\" class='pages-note page'><p>three</p></div>",
+    '<div class="pages"><p>not a page</p></div>'
+  ].join('');
+  assert.deepEqual(entry(html).chunks, [
+    '<div data-page-id="1" class="page"><p>one</p><div class="page-footer">1</div></div>',
+    '<div style="height: 9in" class="page chapter-start"><p>two</p></div>',
+    "<div id=\"p3\" class='pages-note page'><p>three</p></div><div class=\"pages\"><p>not a page</p></div>"
+  ]);
+});
+
+test('unchanged pages and style sheets are counted once', () => {
+  const pages = Array.from({ length: 50 }, (_, index) => `<p>${'text '.repeat(100)}${index}</p>`);
+  const first = entry(book(pages));
+  const edited = [...pages];
+  edited[10] = '<p>changed</p>';
+  const second = entry(book(edited), first);
+  assert.equal(second.chunks.filter(chunk => first.chunks.includes(chunk)).length, 49);
+  assert.equal(second.cssContent, first.cssContent);
+  const changed = second.chunks[10].length * 2;
+  assert.equal(historyBytes([first, second]), historyBytes([first]) + changed);
+});
+
+test('appending drops the redo branch', () => {
+  const entries = ['a', 'b', 'c', 'd'].map(text => entry(book([text])));
+  const next = entry(book(['e']));
+  const result = appendHistoryEntry(entries, 1, next);
+  assert.deepEqual(result.entries.map(item => item.id), [entries[0].id, entries[1].id, next.id]);
+  assert.equal(result.index, 2);
+});
+
+test('the oldest entries are dropped past the entry cap', () => {
+  let entries = [];
+  let index = -1;
+  for (let count = 0; count < MAX_HISTORY_ENTRIES + 5; count++) {
+    ({ entries, index } = appendHistoryEntry(entries, index, entry(book([`page ${count}`]))));
+  }
+  assert.equal(entries.length, MAX_HISTORY_ENTRIES);
+  assert.equal(index, MAX_HISTORY_ENTRIES - 1);
+  assert.equal(entries[0].chunks[0], '<div class="page">page 5</div>');
+});
+
+test('the oldest entries are dropped past the byte cap, keeping two', () => {
+  // Each entry holds a quarter of the budget (two bytes per character)
+  const big = (fill) => entry(book([fill.repeat(MAX_HISTORY_BYTES / 8)]));
+  let result = { entries: [], index: -1 };
+  for (const fill of ['a', 'b', 'c', 'd']) result = appendHistoryEntry(result.entries, result.index, big(fill));
+  assert.equal(result.entries.length, 3);
+  assert.ok(historyBytes(result.entries) <= MAX_HISTORY_BYTES);
+
+  // A page shared by every entry counts once: a quarter of the budget, plus an eighth per entry
+  const shared = 'f'.repeat(MAX_HISTORY_BYTES / 8);
+  result = { entries: [], index: -1 };
+  for (const fill of ['a', 'b', 'c', 'd', 'e', 'g']) {
+    result = appendHistoryEntry(result.entries, result.index, entry(book([shared, fill.repeat(MAX_HISTORY_BYTES / 16)])));
+  }
+  assert.equal(result.entries.length, 5);
+  assert.equal(historyBytes(result.entries), historyBytes(result.entries.slice(1)) + result.entries[0].chunks[1].length * 2);
+
+  const huge = entry(book(['e'.repeat(MAX_HISTORY_BYTES)]));
+  result = appendHistoryEntry(result.entries, result.index, huge);
+  assert.equal(result.entries.length, 2);
+  assert.equal(result.entries[1], huge);
+});
+
+test('selection bookmarks are text offsets across nodes', () => {
+  const document = useDocument('<div id="root"><p>Big <b>world</b></p><p>Second</p></div>');
+  const root = document.getElementById('root');
+  const range = document.createRange();
+  range.setStart(root.querySelector('b').firstChild, 2);
+  range.setEnd(root.lastChild.firstChild, 3);
+  window.getSelection().addRange(range);
+  const bookmark = getSelectionBookmark(root);
+  assert.deepEqual(bookmark, { start: 6, end: 12 });
+
+  window.getSelection().removeAllRanges();
+  restoreSelectionBookmark(root, bookmark);
+  assert.equal(window.getSelection().toString(), 'rldSec');
+  // Offsets past the end are clamped to the text that is left
+  restoreSelectionBookmark(root, { start: 20, end: 40 });
+  assert.equal(window.getSelection().getRangeAt(0).startOffset, 'Second'.length);
+});
+
+test('a selection outside the root has no bookmark', () => {
+  const document = useDocument('<div id="root"><p>inside</p></div><p id="out">outside</p>');
+  const range = document.createRange();
+  range.selectNodeContents(document.getElementById('out'));
+  window.getSelection().addRange(range);
+  assert.equal(getSelectionBookmark(document.getElementById('root')), null);
+});
+
+test('labels for toolbar formatting', () => {
+  assert.equal(formatHistoryLabel('bold'), 'Bold');
+  assert.equal(formatHistoryLabel('formatBlock', '<h2>'), 'Apply H2');
+  assert.equal(formatHistoryLabel('formatBlock', 'P'), 'Apply paragraph');
+  assert.equal(formatHistoryLabel('unknownCommand'), 'Format');
+});
@@ -0,0 +1,97 @@
+// Markdown import and export (utils/markdown.ts): page markup, link safety and the round trip.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ markdownToHtml, markdownFromWorkspace }] = await loadModules('/utils/markdown.ts');
+
+const workspace = (html) => useDocument(`<div class="editor-workspace">${html}</div>`).querySelector('.editor-workspace');
+
+const linksOf = (markdown) => Array.from(workspace(markdownToHtml(markdown)).querySelectorAll('a')).map(a => a.getAttribute('href'));
+
+test('blocks become page markup with approved headings and one page per page break', () => {
+  const html = markdownToHtml('# Title\n\nSome *text* and **bold**.\n\n<!-- pagebreak -->\n\n## Part\n\n- one\n- two\n\n| A | B |\n|---|--:|\n| 1 | 2 |\n');
+  const pages = Array.from(workspace(html).querySelectorAll(':scope > .page'));
+  assert.equal(pages.length, 2);
+  assert.equal(pages[1].getAttribute('data-user-page-break'), 'true');
+  assert.equal(pages[0].querySelector('h1').outerHTML, '<h1 id="md-heading-1" data-structure-status="approved">Title</h1>');
+  assert.equal(pages[0].querySelector('p').innerHTML, 'Some <em>text</em> and <strong>bold</strong>.');
+  assert.equal(pages[1].querySelector('h2').id, 'md-heading-2');
+  assert.equal(pages[1].querySelector('ul').outerHTML, '<ul><li>one</li><li>two</li></ul>');
+  assert.equal(pages[1].querySelector('tbody td:last-child').style.textAlign, 'right');
+});
+
+test('only web, mail, in-book and relative links are kept', () => {
+  assert.deepEqual(linksOf([
+    '[a](https://example.com/a) [b](http://example.com) [c](mailto:me@example.com) [d](#chapter-2) [e](notes/page.md)',
+    '[f](javascript:alert(1)) [g](JavaScript:alert(1)) [h](<java\tscript:alert(1)>) [i](data:text/html,<script>x</script>) [j](vbscript:x)',
+    '',
+    '[k][ref]',
+    '',
+    '[ref]: javascript:alert(2)'
+  ].join('\n')), ['https://example.com/a', 'http://example.com', 'mailto:me@example.com', '#chapter-2', 'notes/page.md']);
+
+  const paragraph = workspace(markdownToHtml('Click [here](javascript:alert(1)) now')).querySelector('p');
+  assert.equal(paragraph.innerHTML, 'Click here now');
+});
+
+test('link URLs may hold balanced parentheses', () => {
+  assert.deepEqual(
+    linksOf('[Foo](https://en.wikipedia.org/wiki/Foo_(bar)) and [nested](https://example.com/a_(b_(c))) and [x](<https://example.com/a b>)'),
+    ['https://en.wikipedia.org/wiki/Foo_(bar)', 'https://example.com/a_(b_(c))', 'https://example.com/a b']
+  );
+  const paragraph = workspace(markdownToHtml('([wrapped](https://example.com/x)) and [title](https://example.com/y "A title")')).querySelector('p');
+  assert.equal(paragraph.innerHTML, '(<a href="https://example.com/x">wrapped</a>) and <a href="https://example.com/y" title="A title">title</a>');
+});
+
+test('Markdown survives an import and export round trip', () => {
+  const markdown = [
+    '# Chapter One',
+    '',
+    'Plain text with *italic*, **bold**, ~~struck~~ and `code`.',
+    '',
+    'A [link](https://en.wikipedia.org/wiki/Foo_(bar)) and an escaped \\* star.',
+    '',
+    '- first',
+    '- second',
+    '',
+    '1. one',
+    '2. two',
+    '',
+    '> Quoted',
+    '',
+    '| Name | Value |',
+    '| --- | ---: |',
+    '| a | 1 |',
+    '',
+    '<!-- pagebreak -->',
+    '',
+    '## Section',
+    '',
+    '```js',
+    'const x = 1;',
+    '```',
+    ''
+  ].join('\n');
+  const result = markdownFromWorkspace(workspace(markdownToHtml(markdown)));
+  assert.equal(result.markdown, markdown);
+  assert.deepEqual(result.unsupported, []);
+});
+
+test('constructs without Markdown syntax are reported once per kind', () => {
+  const result = markdownFromWorkspace(workspace([
+    '<div class="page"><p>Intro</p><div class="shape-circle"><p>In a circle</p></div><div class="shape-pill"><p>In a pill</p></div>',
+    '<div class="floating-text"><p>Layer</p></div><div class="writing-lines"></div>',
+    '<img class="qr-code" src="data:image/png;base64,AA==" data-original-url="https://example.com" alt="QR">',
+    '<table><tr><td colspan="2">Merged</td></tr><tr><td>a</td><td>b</td></tr></table></div>'
+  ].join('')));
+  assert.deepEqual(result.unsupported, [
+    '2 shapes (text kept as paragraphs)',
+    '1 text layer (text kept as paragraphs, position lost)',
+    '1 writing-lines block (left out)',
+    '1 QR code (exported as a link to its URL)',
+    '1 merged table cell (split into single cells)'
+  ]);
+  assert.match(result.markdown, /^Intro\n\nIn a circle\n\nIn a pill\n\nLayer\n\n\[QR code: https:\/\/example\.com\]\(https:\/\/example\.com\)\n\n\| Merged \|   \|/);
+});
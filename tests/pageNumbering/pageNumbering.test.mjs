@@ -0,0 +1,91 @@
+// Numbering sections (utils/pageNumbering.ts): styles, restarts, continuation and suppression.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ formatPageNumber, resolvePageNumbers, getNumberingSections, tocPageLabels, HIDE_PAGE_NUMBER_ATTRIBUTE }] = await loadModules('/utils/pageNumbering.ts');
+
+const section = (anchorId, options = {}) => ({
+  id: `numbering-${anchorId}`,
+  anchorId,
+  style: 'arabic',
+  start: 1,
+  prefix: '',
+  position: 'bottom',
+  align: 'center',
+  hideOnOpeners: false,
+  hideOnBlank: false,
+  ...options
+});
+
+const pages = (contents) => {
+  const document = useDocument(contents.map(content => `<div class="page">${content}</div>`).join(''));
+  return Array.from(document.querySelectorAll('.page'));
+};
+
+const labels = (numbers) => numbers.map(number => (number.hidden ? `(${number.label})` : number.label));
+
+test('roman numerals', () => {
+  assert.deepEqual([1, 4, 9, 14, 40, 90, 400, 1994].map(value => formatPageNumber(value, 'roman-lower')),
+    ['i', 'iv', 'ix', 'xiv', 'xl', 'xc', 'cd', 'mcmxciv']);
+  assert.equal(formatPageNumber(12, 'roman-upper'), 'XII');
+});
+
+test('letters repeat past z', () => {
+  assert.deepEqual([1, 2, 26, 27, 28, 53].map(value => formatPageNumber(value, 'alpha-lower')), ['a', 'b', 'z', 'aa', 'bb', 'aaa']);
+  assert.equal(formatPageNumber(3, 'alpha-upper'), 'C');
+});
+
+test('values below 1 stay arabic', () => {
+  assert.equal(formatPageNumber(0, 'roman-lower'), '0');
+  assert.equal(formatPageNumber(-2, 'alpha-upper'), '-2');
+});
+
+test('without settings the whole document counts from 1', () => {
+  const numbers = resolvePageNumbers(pages(['a', 'b', 'c']), getNumberingSections(null), new Set());
+  assert.deepEqual(labels(numbers), ['1', '2', '3']);
+});
+
+test('pages before the first section are unnumbered', () => {
+  const list = pages(['cover', '<h1 id="ch1">One</h1>', 'text']);
+  const numbers = resolvePageNumbers(list, [section('ch1')], new Set());
+  assert.deepEqual(labels(numbers), ['', '1', '2']);
+  assert.equal(numbers[0].section, null);
+  assert.deepEqual(tocPageLabels(numbers), ['1', '1', '2']);
+});
+
+test('front matter in roman, body restarting at 1, appendix with a prefix', () => {
+  const list = pages(['title', 'preface', '<h1 id="body">One</h1>', 'text', '<h1 id="appx">Appendix</h1>', 'more']);
+  const numbers = resolvePageNumbers(list, [
+    section('DOC_START', { style: 'roman-lower' }),
+    section('body'),
+    section('appx', { prefix: 'A-' })
+  ], new Set());
+  assert.deepEqual(labels(numbers), ['i', 'ii', '1', '2', 'A-1', 'A-2']);
+});
+
+test('a section without a start continues the count', () => {
+  const list = pages(['<h1 id="a">A</h1>', 'x', '<h1 id="b">B</h1>', 'y']);
+  const numbers = resolvePageNumbers(list, [section('a', { start: 5 }), section('b', { start: null, style: 'roman-upper' })], new Set());
+  assert.deepEqual(labels(numbers), ['5', '6', 'VII', 'VIII']);
+});
+
+test('missing anchors are skipped and the later of two sections on a page wins', () => {
+  const list = pages(['<h1 id="a">A</h1><h2 id="b">B</h2>', 'x']);
+  const numbers = resolvePageNumbers(list, [section('gone', { start: 40 }), section('a'), section('b', { start: 10 })], new Set());
+  assert.deepEqual(labels(numbers), ['10', '11']);
+});
+
+test('suppressed pages keep their value', () => {
+  const list = pages(['<h1 id="c1">One</h1>', '<p>text</p>', '<p> </p>', '<p>text</p>', '<h1 id="c2">Two</h1>']);
+  list[3].setAttribute(HIDE_PAGE_NUMBER_ATTRIBUTE, 'true');
+  const numbers = resolvePageNumbers(list, [section('DOC_START', { hideOnOpeners: true, hideOnBlank: true })], new Set(['c1', 'c2']));
+  assert.deepEqual(labels(numbers), ['(1)', '2', '(3)', '(4)', '(5)']);
+});
+
+test('a page holding only its footer counts as blank', () => {
+  const list = pages(['<p>text</p>', '<div class="page-footer">2</div>']);
+  const numbers = resolvePageNumbers(list, [section('DOC_START', { hideOnBlank: true })], new Set());
+  assert.deepEqual(labels(numbers), ['1', '(2)']);
+});
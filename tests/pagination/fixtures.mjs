@@ -0,0 +1,175 @@
+// Regression fixtures for the headless pagination engine (utils/pagination.ts).
+//
+// Every fixture is laid out with the same fixed metrics: a 200px page with 20px top and
+// bottom padding leaves 160px of content, i.e. 8 lines of 20px, and text wraps every 10
+// characters. Expectations:
+//   pages  - final page count
+//   blocks - for each data-fixture name, the page number (1-based) of every fragment
+//            carrying that name, in document order. Split fragments keep the attribute.
+//   chars  - optional text length of each fragment, pinning the exact split points.
+// `rules` overrides the default break rules (orphans 2, widows 2, headings kept with next);
+// `css` goes into a <style> element in the document head.
+
+export const METRICS = {
+  pageHeight: 200,
+  paddingTop: 20,
+  paddingBottom: 20,
+  lineHeight: 20,
+  charsPerLine: 10
+};
+
+const text = (length, seed = 'abcdefghij') => seed.repeat(Math.ceil(length / seed.length)).slice(0, length);
+
+const block = (tag, name, length, style = '') => `<${tag} data-fixture="${name}"${style ? ` style="${style}"` : ''}>${text(length)}</${tag}>`;
+const p = (name, length, style = '') => block('p', name, length, style);
+const h = (level, name, length) => block(`h${level}`, name, length);
+
+export const fixtures = [
+  {
+    name: 'short document stays on one page',
+    html: `<div class="page">${p('a', 20)}${p('b', 30)}</div>`,
+    expect: { pages: 1, blocks: { a: [1], b: [1] } }
+  },
+  {
+    name: 'block that does not fit moves whole to the next page',
+    html: `<div class="page">${p('a', 60)}${p('b', 40)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [2] }, chars: { b: [40] } }
+  },
+  {
+    name: 'bottom margin counts toward the used height',
+    html: `<div class="page">${p('a', 60, 'margin-bottom: 40px')}${p('b', 10)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [2] } }
+  },
+  {
+    name: 'paragraph taller than a page splits on line boundaries',
+    html: `<div class="page">${p('a', 200)}</div>`,
+    expect: { pages: 3, blocks: { a: [1, 2, 3] }, chars: { a: [80, 80, 40] } }
+  },
+  {
+    name: 'oversized container splits between its children',
+    html: `<div class="page"><div data-fixture="box">${Array.from({ length: 12 }, () => p('item', 10)).join('')}</div></div>`,
+    expect: {
+      pages: 2,
+      blocks: {
+        box: [1, 2],
+        item: [1, 1, 1, 1, 1, 1, 1, 1, 2, 2, 2, 2]
+      }
+    }
+  },
+  {
+    name: 'tables are never split',
+    html: `<div class="page">${p('a', 50)}<table data-fixture="t" style="height: 100px"><tbody><tr><td>cell</td></tr></tbody></table></div>`,
+    expect: { pages: 2, blocks: { a: [1], t: [2] } }
+  },
+  {
+    name: 'footer lowers the usable page bottom',
+    html: `<div class="page">${p('a', 40)}${p('b', 20)}<div class="page-footer" style="position: absolute; top: 120px">1</div></div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [2] } }
+  },
+  {
+    name: 'content is pushed down through several pages',
+    html: `<div class="page">${p('a', 70)}${p('b', 70)}${p('c', 70)}</div>`,
+    expect: { pages: 3, blocks: { a: [1], b: [2], c: [3] } }
+  },
+  {
+    name: 'pull-up merges short pages and drops the empty ones',
+    html: `<div class="page">${p('a', 20)}</div><div class="page">${p('b', 20)}</div><div class="page">${p('c', 20)}</div>`,
+    expect: { pages: 1, blocks: { a: [1], b: [1], c: [1] } }
+  },
+  {
+    name: 'pull-up only moves blocks that fit whole',
+    html: `<div class="page">${p('a', 70)}</div><div class="page">${p('b', 20)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [2] } }
+  },
+  {
+    name: 'user page break is never pulled across',
+    html: `<div class="page">${p('a', 10)}</div><div class="page"><div data-user-page-break="true"></div>${p('b', 10)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [2] } }
+  },
+  {
+    name: 'orphans: a split never leaves a single line at the page bottom',
+    html: `<div class="page">${p('a', 70)}${p('b', 300)}</div>`,
+    expect: { pages: 5, blocks: { a: [1], b: [2, 3, 4, 5] }, chars: { b: [80, 80, 80, 60] } }
+  },
+  {
+    name: 'widows: a split never carries a single line to the next page',
+    html: `<div class="page">${p('a', 90)}</div>`,
+    expect: { pages: 2, blocks: { a: [1, 2] }, chars: { a: [70, 20] } }
+  },
+  {
+    name: 'widows set in the document CSS win over the default',
+    html: `<div class="page">${p('a', 90, 'widows: 3')}</div>`,
+    expect: { pages: 2, blocks: { a: [1, 2] }, chars: { a: [60, 30] } }
+  },
+  {
+    name: 'a paragraph that declares widows splits across the page instead of moving whole',
+    html: `<div class="page">${p('a', 30)}${p('b', 80, 'widows: 3')}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [1, 2] }, chars: { b: [50, 30] } }
+  },
+  {
+    name: 'widows: 3 moves an extra line to the next page',
+    html: `<div class="page">${p('a', 40)}${p('b', 60, 'widows: 3')}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [1, 2] }, chars: { b: [30, 30] } }
+  },
+  {
+    name: 'orphans declared in an imported style sheet make a paragraph breakable',
+    css: '.editor-workspace p.chapter { orphans: 3; }',
+    html: `<div class="page">${p('a', 50)}<p data-fixture="b" class="chapter">${text(50)}</p><p data-fixture="c" class="chapter">${text(20)}</p></div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [1, 2], c: [2] }, chars: { b: [30, 20] } }
+  },
+  {
+    name: 'an explicit widows: 2 is not replaced by the app rule',
+    html: `<div class="page">${p('a', 90, 'widows: 2')}</div>`,
+    rules: { orphans: 2, widows: 4, keepHeadingsWithNext: true },
+    expect: { pages: 2, blocks: { a: [1, 2] }, chars: { a: [70, 20] } }
+  },
+  {
+    name: 'break-inside: avoid wins over declared line rules',
+    html: `<div class="page">${p('a', 30)}${p('b', 80, 'widows: 3; break-inside: avoid')}</div>`,
+    expect: { pages: 2, blocks: { a: [1], b: [2] }, chars: { b: [80] } }
+  },
+  {
+    name: 'line rules can be relaxed to split at the page bottom',
+    html: `<div class="page">${p('a', 90)}</div>`,
+    rules: { orphans: 1, widows: 1, keepHeadingsWithNext: true },
+    expect: { pages: 2, blocks: { a: [1, 2] }, chars: { a: [80, 10] } }
+  },
+  {
+    name: 'heading moves with the paragraph that follows it',
+    html: `<div class="page">${p('a', 60)}${h(2, 'h', 10)}${p('b', 30)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], h: [2], b: [2] } }
+  },
+  {
+    name: 'heading may end a page when keep-with-next is off',
+    html: `<div class="page">${p('a', 60)}${h(2, 'h', 10)}${p('b', 30)}</div>`,
+    rules: { orphans: 2, widows: 2, keepHeadingsWithNext: false },
+    expect: { pages: 2, blocks: { a: [1], h: [1], b: [2] } }
+  },
+  {
+    name: 'break-after: avoid keeps any block with the next one',
+    html: `<div class="page">${p('a', 60)}${p('lead', 10, 'break-after: avoid')}${p('b', 30)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], lead: [2], b: [2] } }
+  },
+  {
+    name: 'pull-up does not strand a heading without its paragraph',
+    html: `<div class="page">${p('a', 50)}</div><div class="page">${h(2, 'h', 10)}${p('b', 40)}</div>`,
+    expect: { pages: 2, blocks: { a: [1], h: [2], b: [2] } }
+  },
+  {
+    name: 'container split moves a trailing heading to the next page',
+    html: `<div class="page"><div data-fixture="box">${Array.from({ length: 7 }, () => p('item', 10)).join('')}${h(3, 'h', 10)}${Array.from({ length: 5 }, () => p('item', 10)).join('')}</div></div>`,
+    expect: {
+      pages: 2,
+      blocks: {
+        box: [1, 2],
+        h: [2],
+        item: [1, 1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 2]
+      }
+    }
+  },
+  {
+    name: 'orphan content outside pages is wrapped into a page first',
+    html: `${p('a', 30)}<div class="page">${p('b', 30)}</div>`,
+    expect: { pages: 1, blocks: { a: [1], b: [1] } }
+  }
+];
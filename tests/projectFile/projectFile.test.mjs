@@ -0,0 +1,110 @@
+// Project bundles (utils/projectFile.ts): packing, reopening and schema migration.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules } from '../harness.mjs';
+
+const [project, { createZip, readZip, zipEntryText }, constants] = await loadModules('/utils/projectFile.ts', '/utils/zip.ts', '/constants.ts');
+const { buildProjectBundle, readProjectBundle, migrateManifest, DEFAULT_PROJECT_SETTINGS, PROJECT_FORMAT_ID, PROJECT_SCHEMA_VERSION } = project;
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const GIF = 'data:image/gif;base64,R0lGODlhAQABAAAAACw=';
+const FONT = 'data:font/ttf;base64,AAEAAAALAIAAAwAw';
+
+const reopen = async (bundle) => readProjectBundle(await buildProjectBundle(bundle).arrayBuffer());
+
+test('a project reopens with its document, images, settings and fonts', async () => {
+  const htmlContent = [
+    `<div class="page"><img src="${PNG}"><img src='${PNG}'>`,
+    `<div style="background-image: url(&quot;${GIF}&quot;)"></div>`,
+    `<p>See assets/asset-1.png and ${GIF} in the manual.</p></div>`
+  ].join('');
+  const cssContent = `.cover { background: url(${GIF}); }`;
+  const settings = { ...DEFAULT_PROJECT_SETTINGS, pageFormatId: 'trim-6x9', bleed: 0.125, spellcheck: { enabled: false, language: 'it_IT', customWords: ['Zanzibar'] } };
+
+  const bundle = await reopen({ docState: { htmlContent, cssContent, fileName: 'book.html' }, settings, fonts: [{ name: 'Hand Font', dataUrl: FONT }] });
+  assert.equal(bundle.docState.htmlContent, htmlContent);
+  assert.equal(bundle.docState.cssContent, cssContent);
+  assert.equal(bundle.docState.fileName, 'book.html');
+  assert.deepEqual(bundle.settings, settings);
+  assert.deepEqual(bundle.fonts, [{ name: 'Hand Font', dataUrl: FONT }]);
+});
+
+test('images are stored once as files in the bundle', async () => {
+  const blob = buildProjectBundle({
+    docState: { htmlContent: `<img src="${PNG}"><img src="${PNG}">`, cssContent: '', fileName: 'a.html' },
+    settings: DEFAULT_PROJECT_SETTINGS,
+    fonts: []
+  });
+  const files = await readZip(await blob.arrayBuffer());
+  assert.equal(zipEntryText(files, 'document.html'), '<img src="assets/asset-1.png"><img src="assets/asset-1.png">');
+  assert.deepEqual(JSON.parse(zipEntryText(files, 'manifest.json')).assets, [{ path: 'assets/asset-1.png', mimeType: 'image/png' }]);
+});
+
+test('a v1 project migrates to the current schema', async () => {
+  const manifest = {
+    format: PROJECT_FORMAT_ID,
+    schemaVersion: 1,
+    fileName: 'old.html',
+    document: { html: 'document.html', css: 'styles.css' },
+    settings: { pageFormatId: 'letter-thick', pageMargins: { top: 0.6, bottom: 0.6, left: 0.5, right: 0.5 }, structureEntries: [] },
+    assets: [],
+    fonts: []
+  };
+  const zip = createZip([
+    { path: 'manifest.json', data: JSON.stringify(manifest) },
+    { path: 'document.html', data: '<div class="page"><p>Old</p></div>' },
+    { path: 'styles.css', data: 'p { margin: 0; }' }
+  ]);
+  const bundle = await readProjectBundle(zip);
+  assert.equal(bundle.docState.htmlContent, '<div class="page"><p>Old</p></div>');
+  assert.equal(bundle.settings.pageFormatId, 'letter-thick');
+  assert.deepEqual(bundle.settings.pageMargins, { top: 0.6, bottom: 0.6, left: 0.5, right: 0.5 });
+  assert.equal(bundle.settings.mirrorMargins, false);
+  assert.deepEqual(bundle.settings.paginationRules, constants.DEFAULT_PAGINATION_RULES);
+  assert.equal(bundle.settings.gutterMode, 'warn');
+  assert.equal(bundle.settings.bleed, 0);
+  assert.deepEqual(bundle.settings.masterPages, constants.DEFAULT_MASTER_PAGES);
+  assert.deepEqual(bundle.settings.namedStyles, constants.DEFAULT_NAMED_STYLES);
+  assert.deepEqual(bundle.settings.theme, constants.DEFAULT_THEME);
+  assert.deepEqual(bundle.settings.spellcheck, constants.DEFAULT_SPELLCHECK_SETTINGS);
+  assert.equal(migrateManifest(manifest).schemaVersion, PROJECT_SCHEMA_VERSION);
+});
+
+test('manifest values of the wrong type fall back to the defaults', () => {
+  const manifest = migrateManifest({
+    format: PROJECT_FORMAT_ID,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    fileName: 42,
+    document: 'document.html',
+    settings: {
+      pageMargins: 'wide',
+      customPageSize: { width: 6, height: '9in' },
+      bleed: '0.125',
+      tocSettings: 'yes',
+      savedHeadingStyles: { h1: { fontSize: '24pt' } },
+      spellcheck: { enabled: 'no', customWords: ['one', 2, null, 'three'] },
+      structureEntries: { length: 1 }
+    },
+    assets: [{ path: 'assets/asset-1.png', mimeType: 'image/png' }, { path: 3 }, 'assets/x.png'],
+    fonts: [{ path: 'fonts/1.ttf', mimeType: 'font/ttf' }]
+  });
+  assert.equal(manifest.fileName, 'untitled_mission.html');
+  assert.deepEqual(manifest.document, { html: 'document.html', css: 'styles.css' });
+  assert.deepEqual(manifest.settings.pageMargins, DEFAULT_PROJECT_SETTINGS.pageMargins);
+  assert.deepEqual(manifest.settings.customPageSize, { width: DEFAULT_PROJECT_SETTINGS.customPageSize.width, height: '9in' });
+  assert.equal(manifest.settings.bleed, 0);
+  assert.equal(manifest.settings.tocSettings, null);
+  assert.deepEqual(manifest.settings.savedHeadingStyles, { h1: { fontSize: '24pt' } });
+  assert.deepEqual(manifest.settings.spellcheck, { enabled: true, language: 'en_US', customWords: ['one', 'three'] });
+  assert.deepEqual(manifest.settings.structureEntries, []);
+  assert.deepEqual(manifest.assets, [{ path: 'assets/asset-1.png', mimeType: 'image/png' }]);
+  assert.deepEqual(manifest.fonts, []);
+});
+
+test('files that are not projects are rejected', async () => {
+  assert.throws(() => migrateManifest(null), /not an Instant Writer project/);
+  assert.throws(() => migrateManifest([]), /not an Instant Writer project/);
+  assert.throws(() => migrateManifest({ format: PROJECT_FORMAT_ID, schemaVersion: PROJECT_SCHEMA_VERSION + 1 }), /newer version/);
+  await assert.rejects(readProjectBundle(createZip([{ path: 'manifest.json', data: '{' }])), /not valid JSON/);
+});
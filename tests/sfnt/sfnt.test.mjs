@@ -0,0 +1,97 @@
+// Font parsing and glyph subsets for PDF embedding (utils/sfnt.ts), on a bundled web font.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { loadModules } from '../harness.mjs';
+
+const [{ parseSfnt }] = await loadModules('/utils/sfnt.ts');
+
+const woff = new Uint8Array(await readFile(resolve('node_modules/@fontsource/roboto/files/roboto-latin-400-normal.woff')));
+const roboto = await parseSfnt(woff, 'Roboto');
+
+const viewOf = (data) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+const tableOffset = (data, name) => {
+  const view = viewOf(data);
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const entry = 12 + i * 16;
+    if (String.fromCharCode(...data.subarray(entry, entry + 4)) === name) return view.getUint32(entry + 8);
+  }
+  return -1;
+};
+
+// Byte range of a glyph's outline in glyf
+const glyphRange = (data, glyph) => {
+  const view = viewOf(data);
+  const longLoca = view.getInt16(tableOffset(data, 'head') + 50) === 1;
+  const loca = tableOffset(data, 'loca');
+  const at = (id) => (longLoca ? view.getUint32(loca + id * 4) : view.getUint16(loca + id * 2) * 2);
+  const glyf = tableOffset(data, 'glyf');
+  return [glyf + at(glyph), glyf + at(glyph + 1)];
+};
+
+const fileChecksum = (data) => {
+  const padded = new Uint8Array((data.length + 3) & ~3);
+  padded.set(data);
+  const view = viewOf(padded);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + view.getUint32(i)) >>> 0;
+  return sum;
+};
+
+const glyphsOf = (text) => Array.from(text, ch => roboto.glyphForCodePoint(ch.codePointAt(0)));
+
+test('a WOFF font unpacks to a TrueType font with its metrics', () => {
+  assert.equal(roboto.isCff, false);
+  assert.match(roboto.postScriptName, /^Roboto/);
+  assert.equal(roboto.unitsPerEm, 2048);
+  assert.ok(roboto.ascent > 0 && roboto.descent > 0);
+  assert.notEqual(roboto.glyphForCodePoint(0x41), 0);
+  assert.equal(roboto.glyphForCodePoint(0x4e00), 0);
+  assert.ok(roboto.advanceWidth(roboto.glyphForCodePoint(0x41)) > 0);
+  assert.equal(fileChecksum(roboto.data), 0xb1b0afba);
+});
+
+test('a subset keeps the outlines of the used glyphs only, with ids and metrics unchanged', async () => {
+  const used = glyphsOf('Hé ');
+  const data = roboto.subset(used);
+  assert.ok(data.length < roboto.data.length / 4, `${data.length} bytes`);
+  assert.equal(fileChecksum(data), 0xb1b0afba);
+
+  const subset = await parseSfnt(data, 'Roboto');
+  assert.equal(subset.numGlyphs, roboto.numGlyphs);
+  for (const ch of 'HéZ') {
+    const glyph = roboto.glyphForCodePoint(ch.codePointAt(0));
+    assert.equal(subset.glyphForCodePoint(ch.codePointAt(0)), glyph);
+    assert.equal(subset.advanceWidth(glyph), roboto.advanceWidth(glyph));
+  }
+
+  used.forEach(glyph => {
+    const [start, end] = glyphRange(data, glyph);
+    const [originalStart, originalEnd] = glyphRange(roboto.data, glyph);
+    assert.deepEqual(data.subarray(start, start + (originalEnd - originalStart)), roboto.data.subarray(originalStart, originalEnd));
+    assert.ok(end - start >= originalEnd - originalStart);
+  });
+  const [start, end] = glyphRange(data, roboto.glyphForCodePoint(0x5a));
+  assert.equal(end - start, 0, 'Z is dropped');
+});
+
+test('components of composite glyphs stay in the subset', () => {
+  // Accented letters are composites of a base letter and an accent in Roboto
+  const glyph = roboto.glyphForCodePoint('é'.codePointAt(0));
+  const [originalStart] = glyphRange(roboto.data, glyph);
+  assert.ok(viewOf(roboto.data).getInt16(originalStart) < 0, 'é is a composite glyph');
+
+  const data = roboto.subset([glyph]);
+  const view = viewOf(data);
+  let offset = glyphRange(data, glyph)[0] + 10;
+  let flags;
+  do {
+    flags = view.getUint16(offset);
+    const [start, end] = glyphRange(data, view.getUint16(offset + 2));
+    assert.ok(end > start, `component ${view.getUint16(offset + 2)} is kept`);
+    offset += 4 + (flags & 1 ? 4 : 2) + (flags & 8 ? 2 : flags & 0x40 ? 4 : flags & 0x80 ? 8 : 0);
+  } while (flags & 0x20);
+});
@@ -0,0 +1,62 @@
+// Spelling checks (utils/spellcheck.ts) with a tiny Hunspell dictionary and a jsdom workspace.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules, useDocument } from '../harness.mjs';
+
+const [{ createSpellChecker, findSpellIssues, decodeDictionary, MAX_SUGGESTIONS }] = await loadModules('/utils/spellcheck.ts');
+
+const AFF = [
+  'SET UTF-8',
+  'TRY esianrtolcdugmphbyfvkwzxjq',
+  'REP 1',
+  'REP f ph',
+  'PFX U Y 1',
+  'PFX U 0 un .',
+  'SFX S Y 2',
+  'SFX S 0 s [^y]',
+  'SFX S y ies [^aeiou]y',
+  'FORBIDDENWORD !',
+  ''
+].join('\n');
+const DIC = ['8', 'the', 'cat/S', 'city/S', 'happy/U', 'phone/S', 'walk/S', 'tech', 'irregardless/!', ''].join('\n');
+
+const checker = createSpellChecker('en_US', AFF, DIC);
+
+const workspace = (pages) => {
+  const document = useDocument(`<div class="editor-workspace">${pages.map(page => `<div class="page">${page}</div>`).join('')}</div>`);
+  return document.querySelector('.editor-workspace');
+};
+
+test('words are checked through their prefix and suffix rules', () => {
+  ['the', 'cats', 'cities', 'unhappy', 'walks', 'The', 'CATS'].forEach(word => assert.ok(checker.check(word), word));
+  ['citys', 'unwalk', 'happys', 'irregardless', 'dog'].forEach(word => assert.ok(!checker.check(word), word));
+});
+
+test('suggestions put REP entries first and keep the typed case', () => {
+  assert.equal(checker.suggest('fone')[0], 'phone');
+  assert.equal(checker.suggest('teh')[0], 'the', 'a swap is the closest edit');
+  assert.equal(checker.suggest('Cta')[0], 'Cat');
+  const shouted = checker.suggest('WALKK');
+  assert.ok(shouted.includes('WALK') && shouted.every(word => word === word.toUpperCase()), shouted.join());
+  assert.ok(checker.suggest('thecat').includes('the cat'));
+  assert.deepEqual(checker.suggest('xqzzv'), []);
+  assert.ok(checker.suggest('cas').length <= MAX_SUGGESTIONS);
+});
+
+test('words of the custom dictionary and ignored words are not reported', () => {
+  const root = workspace(['<p>The cat met Zanzibar and zorblat.</p>', '<p>Zanzibar walks with the Zorblat.</p>']);
+  const spelling = (custom, ignored) => findSpellIssues(root, checker, custom, ignored)
+    .filter(issue => issue.kind === 'spelling')
+    .map(issue => `${issue.pageIndex}:${issue.text}`);
+  assert.deepEqual(spelling([], []), ['0:met', '0:Zanzibar', '0:and', '0:zorblat', '1:Zanzibar', '1:with', '1:Zorblat']);
+  // A lowercase entry also covers the capitalized word, not the other way round
+  assert.deepEqual(spelling(['met', 'and', 'with', 'Zanzibar', 'zorblat'], []), []);
+  assert.deepEqual(spelling(['met', 'and', 'with', 'Zorblat'], ['Zanzibar']), ['0:zorblat']);
+});
+
+test('a file that is not a .dic word list is refused', () => {
+  const bytes = (text) => new TextEncoder().encode(text).buffer;
+  assert.deepEqual(decodeDictionary(bytes(AFF), bytes(DIC)), { aff: AFF, dic: DIC });
+  assert.throws(() => decodeDictionary(bytes(AFF), bytes('<html>Not found</html>')), /Not a Hunspell dictionary/);
+});
@@ -83,6 +83,37 @@ export interface BorderSettings {
   borderStyle: 'solid' | 'dashed' | 'dotted' | 'double' | 'none';
 }
 
+// Running header or footer line of a master page.
+export interface MasterRunningText {
+  text: string; // '' = none
+  align: 'left' | 'center' | 'right';
+  fontFamily: string; // '' = document font
+  fontSize: number; // pt
+  offset: number; // inches from the trim edge (top for headers, bottom for footers)
+}
+
+// Recurring page furniture shared by every page that references the master via data-master.
+export interface MasterPage {
+  id: string;
+  name: string;
+  header: MasterRunningText;
+  footer: MasterRunningText;
+  border: {
+    style: 'solid' | 'dashed' | 'dotted' | 'double' | 'none';
+    width: number; // px
+    color: string;
+    radius: number; // px
+    inset: number; // inches from the trim edge
+  };
+  background: {
+    color: string; // '' = none
+    image: string; // data URL, '' = none
+    opacity: number; // 0-1
+    fit: 'cover' | 'contain';
+  };
+  followedBy: string | null; // master for the pages that flow on from this one; null = same master
+}
+
 export interface PageAnchor {
   id: string;
   text: string;
@@ -100,3 +131,124 @@ export interface StructureEntry {
   status: StructureStatus;
   context?: string; // Snippet of text for context
 }
+
+export interface PageMargins {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export type PageNumberStyle = 'arabic' | 'roman-lower' | 'roman-upper' | 'alpha-lower' | 'alpha-upper';
+
+// A run of pages numbered one way (front matter i, ii…; body 1, 2…; appendix A-1…).
+// It starts on the page holding `anchorId` and lasts until the next section starts.
+export interface NumberingSection {
+  id: string;
+  anchorId: string; // heading id, or 'DOC_START'
+  style: PageNumberStyle;
+  start: number | null; // restart value; null continues from the previous section
+  prefix: string; // e.g. "A-"
+  position: 'top' | 'bottom';
+  align: 'left' | 'center' | 'right';
+  hideOnOpeners: boolean; // no number on pages where a chapter (h1) starts
+  hideOnBlank: boolean; // no number on empty pages
+}
+
+export interface PageNumberSettings {
+  startAnchorId: string; // first section's anchor
+  font: string;
+  fontSize: string;
+  position: 'top' | 'bottom'; // first section's position
+  align: 'left' | 'center' | 'right'; // first section's alignment
+  margin: number;
+  format?: string; // field template, e.g. "Page {page} of {pages}"; default "{page}"
+  sections?: NumberingSection[]; // absent in settings saved before sections: one arabic section
+}
+
+// Line-level break rules applied by the pagination engine.
+// CSS `orphans` / `widows` set in the document override these defaults per element.
+export interface PaginationRules {
+  orphans: number; // minimum lines left at the bottom of a page when a paragraph splits
+  widows: number; // minimum lines carried over to the top of the next page
+  keepHeadingsWithNext: boolean; // a heading never ends a page while content follows it
+}
+
+// How the app reacts when the page count crosses a KDP gutter threshold.
+export type GutterMode = 'off' | 'warn' | 'auto';
+
+export interface GutterRange {
+  minPages: number;
+  maxPages: number;
+  gutter: number; // minimum inside margin in inches
+}
+
+export interface TrimSize {
+  id: string;
+  name: string;
+  width: string;
+  height: string;
+}
+
+export type HeadingStyleMap = {
+  h1?: Record<string, string>;
+  h2?: Record<string, string>;
+  h3?: Record<string, string>;
+  p?: Record<string, string>;
+  blockquote?: Record<string, string>;
+  pre?: Record<string, string>;
+};
+
+// Named style applied by class: a paragraph style to whole blocks, a character style to a
+// span of text. The id doubles as the class name (`ps-…` / `cs-…`), so renaming keeps it.
+export interface NamedStyle {
+  id: string;
+  name: string;
+  kind: 'paragraph' | 'character';
+  basedOn: string | null; // id of a style of the same kind
+  properties: Record<string, string>; // CSS set by this style; the rest comes from basedOn
+}
+
+// Document-wide look: colors, the heading/body font pair and the defaults for boxed shapes
+// and rules. Written into the document CSS as variables by utils/themes.ts.
+export interface ThemePalette {
+  text: string;
+  heading: string;
+  accent: string; // guide lines of tracing and writing lines
+  highlight: string; // cloud shapes
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  palette: ThemePalette;
+  fonts: { heading: string; body: string }; // CSS font-family values
+  border: BorderSettings; // shapes and boxes; the colors become --shape-border / --shape-bg
+  hr: HRProperties; // new horizontal rules
+}
+
+// Everything outside DocumentState that a project file must carry to restore a session.
+export interface SpellcheckSettings {
+  enabled: boolean; // underline issues while editing
+  language: string; // Hunspell dictionary id, e.g. 'en_US'
+  customWords: string[]; // the document's own dictionary
+}
+
+export interface ProjectSettings {
+  pageFormatId: string;
+  customPageSize: { width: string; height: string };
+  pageMargins: PageMargins;
+  mirrorMargins: boolean;
+  bleed: number; // inches added on the top, bottom and outside edge; 0 = no bleed
+  structureEntries: StructureEntry[];
+  savedHeadingStyles: HeadingStyleMap;
+  manualHeadingSignatures: { h1?: string; h2?: string; h3?: string };
+  tocSettings: TOCSettings | null;
+  pageNumberSettings: PageNumberSettings | null;
+  paginationRules: PaginationRules;
+  gutterMode: GutterMode;
+  masterPages: MasterPage[];
+  namedStyles: NamedStyle[];
+  theme: Theme;
+  spellcheck: SpellcheckSettings;
+}
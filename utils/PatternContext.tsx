@@ -2,6 +2,7 @@ import React, { createContext, useContext, useRef, useState, useCallback, ReactN
 import { PatternTracker, findSimilarElements, getElementSignature, PatternMatch, ActionType } from './patternDetector';
 import PatternModal from '../components/PatternModal';
 import { reflowPages } from './pagination';
+import { PaginationRules } from '../types';
 
 interface PatternContextType {
   trackAction: (type: ActionType, element: HTMLElement, command?: string, value?: string) => void;
@@ -22,12 +23,14 @@ interface PatternProviderProps {
   children: ReactNode;
   workspaceSelector: string;
   onContentChange: (html: string) => void;
+  paginationRules?: PaginationRules;
 }
 
 export const PatternProvider: React.FC<PatternProviderProps> = ({ 
   children, 
   workspaceSelector,
-  onContentChange 
+  onContentChange,
+  paginationRules
 }) => {
   const trackerRef = useRef(new PatternTracker());
   const pendingApplyFnRef = useRef<((el: HTMLElement) => void) | null>(null);
@@ -89,7 +92,7 @@ export const PatternProvider: React.FC<PatternProviderProps> = ({
     
     const workspace = document.querySelector(workspaceSelector) as HTMLElement;
     if (workspace) {
-      reflowPages(workspace);
+      reflowPages(workspace, { rules: paginationRules });
       onContentChange(workspace.innerHTML);
     }
     
@@ -14,6 +14,8 @@ export type AutoLogEntry = {
 
 type AutoLogContext = {
   fileName?: string;
+  // Id of the most recent autosave snapshot, so a crash entry points at recoverable state
+  snapshotId?: string;
 };
 
 type AutoLogOptions = {
@@ -75,6 +77,7 @@ const buildExtra = (getContext?: () => AutoLogContext): Record<string, string> =
   const context = getContext ? getContext() : {};
   return {
     fileName: context.fileName || '',
+    snapshotId: context.snapshotId || '',
     userAgent: navigator.userAgent,
     url: window.location.href
   };
@@ -0,0 +1,163 @@
+// utils/autosave.ts
+//
+// Periodic snapshots of the open document in IndexedDB, so a refresh or crash can be
+// recovered on the next start. Each app start gets its own session id. A session that is
+// quit from the desktop window, or whose snapshots were already offered, records the time
+// up to which its work is safe (the last project save, or the prompt); the recovery prompt
+// offers the snapshots of earlier sessions written after that time. A reload or crash records
+// nothing, so its snapshots are offered.
+
+import { DocumentState, ProjectSettings } from '../types';
+
+export type AutosaveReason = 'interval' | 'hidden' | 'manual';
+
+export interface AutosaveSnapshot {
+    id: string;
+    sessionId: string;
+    savedAt: number;
+    reason: AutosaveReason;
+    fileName: string;
+    docState: DocumentState;
+    settings: ProjectSettings;
+}
+
+const AUTOSAVE_DB_NAME = 'spywriter-autosave';
+const SNAPSHOT_STORE = 'snapshots';
+const MAX_SNAPSHOTS = 10;
+
+const CLOSED_SESSIONS_KEY = 'spywriter-closed-sessions';
+
+export const AUTOSAVE_INTERVAL_MS = 30000;
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const openAutosaveDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(AUTOSAVE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+            db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const listSnapshots = async (): Promise<AutosaveSnapshot[]> => {
+    try {
+        const db = await openAutosaveDb();
+        const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+        const getAll = tx.objectStore(SNAPSHOT_STORE).getAll();
+        const snapshots = await new Promise<AutosaveSnapshot[]>((resolve) => {
+            getAll.onsuccess = () => resolve(getAll.result || []);
+            getAll.onerror = () => resolve([]);
+        });
+        return snapshots.sort((a, b) => b.savedAt - a.savedAt);
+    } catch {
+        return [];
+    }
+};
+
+export const getSnapshot = async (id: string): Promise<AutosaveSnapshot | null> => {
+    try {
+        const db = await openAutosaveDb();
+        const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+        const request = tx.objectStore(SNAPSHOT_STORE).get(id);
+        return await new Promise<AutosaveSnapshot | null>((resolve) => {
+            request.onsuccess = () => resolve(request.result || null);
+            request.onerror = () => resolve(null);
+        });
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Stores a snapshot and prunes the oldest ones beyond MAX_SNAPSHOTS.
+ * Resolves with the stored snapshot, or null when IndexedDB is unavailable.
+ */
+export const saveSnapshot = async (
+    data: Omit<AutosaveSnapshot, 'id' | 'savedAt' | 'fileName'>
+): Promise<AutosaveSnapshot | null> => {
+    const snapshot: AutosaveSnapshot = {
+        ...data,
+        id: `snap-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        savedAt: Date.now(),
+        fileName: data.docState.fileName
+    };
+    try {
+        const existing = await listSnapshots();
+        const stale = existing.slice(MAX_SNAPSHOTS - 1);
+        const db = await openAutosaveDb();
+        const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+        const store = tx.objectStore(SNAPSHOT_STORE);
+        store.put(snapshot);
+        stale.forEach(old => store.delete(old.id));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+        return snapshot;
+    } catch {
+        return null;
+    }
+};
+
+export const deleteSnapshots = async (ids?: string[]) => {
+    try {
+        const db = await openAutosaveDb();
+        const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+        const store = tx.objectStore(SNAPSHOT_STORE);
+        if (ids) {
+            ids.forEach(id => store.delete(id));
+        } else {
+            store.clear();
+        }
+    } catch {
+        // ignore db errors
+    }
+};
+
+// Session id -> time up to which that session's work needs no recovery
+type ClosedSessions = Record<string, number>;
+
+const readClosedSessions = (): ClosedSessions => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(CLOSED_SESSIONS_KEY) || '{}');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+        return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+    } catch {
+        return {};
+    }
+};
+
+const writeClosedSessions = (sessions: ClosedSessions) => {
+    try {
+        localStorage.setItem(CLOSED_SESSIONS_KEY, JSON.stringify(sessions));
+    } catch {
+        // ignore storage errors
+    }
+};
+
+/**
+ * Records that the snapshots these sessions wrote up to `safeUntil` need no recovery prompt:
+ * on quit, the time of the last project save; once offered, the time of the prompt.
+ */
+export const markSessionsClosed = (sessionIds: string[], safeUntil = Date.now()) => {
+    const closed = readClosedSessions();
+    sessionIds.forEach(id => { closed[id] = Math.max(closed[id] ?? 0, safeUntil); });
+    writeClosedSessions(closed);
+};
+
+/**
+ * Snapshots to offer at start-up: those of earlier sessions written after the session was
+ * last known to be safe (all of them after a reload or crash). Sessions whose snapshots have
+ * all been pruned are forgotten.
+ */
+export const getRecoverableSnapshots = (snapshots: AutosaveSnapshot[], currentSessionId: string) => {
+    const sessions = new Set(snapshots.map(snapshot => snapshot.sessionId));
+    const closed = Object.fromEntries(Object.entries(readClosedSessions()).filter(([id]) => sessions.has(id)));
+    writeClosedSessions(closed);
+    return snapshots.filter(snapshot => snapshot.sessionId !== currentSessionId && snapshot.savedAt > (closed[snapshot.sessionId] ?? 0));
+};
@@ -0,0 +1,298 @@
+// utils/dataMerge.ts
+//
+// Data merge: `{{field}}` placeholders in text, text layers, link targets and QR code URLs
+// are filled from the records of a CSV or JSON dataset. The template is the paginated page
+// markup; merging returns markup again, so the caller repaginates it like an import (the
+// merged values rarely have the template's length). QR codes are redrawn for their merged
+// URL with the QR modal's default look.
+
+import qrcode from 'qrcode-generator';
+
+export type MergeRecord = Record<string, string>;
+
+export interface MergeDataset {
+    fields: string[];
+    records: MergeRecord[];
+}
+
+export const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const isMergeDataFileName = (name: string) => /\.(csv|tsv|txt|json)$/i.test(name);
+
+const USER_PAGE_BREAK_MARKER = '<div data-user-page-break="true" style="display:none;height:0;overflow:hidden;"></div>';
+
+// --- Datasets ---
+
+// Spreadsheets export with commas, semicolons (European locales) or tabs: the separator
+// that appears most often in the header row outside quotes wins.
+const detectDelimiter = (text: string) => {
+    const counts = new Map<string, number>([[',', 0], [';', 0], ['\t', 0]]);
+    let quoted = false;
+    for (const char of text) {
+        if (char === '"') quoted = !quoted;
+        else if (!quoted && (char === '\n' || char === '\r')) break;
+        else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+    }
+    const [best, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    return count > 0 ? best : ',';
+};
+
+// RFC 4180 rows: quoted fields may hold separators, doubled quotes and line breaks.
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.length === 0) {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field.length > 0 || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim().length > 0));
+};
+
+const parseCsv = (text: string, delimiter?: string): MergeDataset => {
+    const rows = parseCsvRows(text, delimiter ?? detectDelimiter(text));
+    if (rows.length === 0) throw new Error('The file has no header row.');
+    const fields = rows[0].map((name, index) => name.trim() || `column${index + 1}`);
+    const records = rows.slice(1).map(cells => {
+        const record: MergeRecord = {};
+        fields.forEach((field, index) => { record[field] = cells[index] ?? ''; });
+        return record;
+    });
+    return { fields, records };
+};
+
+// Nested objects become dotted fields ({{student.name}}); arrays such as word lists are
+// joined with commas.
+const flattenValue = (value: unknown, prefix: string, record: MergeRecord) => {
+    if (value === null || value === undefined) {
+        record[prefix] = '';
+    } else if (Array.isArray(value)) {
+        record[prefix] = value.map(item => (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item))).join(', ');
+    } else if (typeof value === 'object') {
+        Object.entries(value as Record<string, unknown>).forEach(([key, nested]) => {
+            flattenValue(nested, prefix ? `${prefix}.${key}` : key, record);
+        });
+    } else {
+        record[prefix] = String(value);
+    }
+};
+
+const parseJson = (text: string): MergeDataset => {
+    const data = JSON.parse(text) as unknown;
+    // Either an array of records or an object holding one ({"records": [...]}).
+    const list = Array.isArray(data)
+        ? data
+        : (data && typeof data === 'object' ? Object.values(data as Record<string, unknown>).find(Array.isArray) : undefined);
+    if (!list) throw new Error('Expected an array of records.');
+    const fields: string[] = [];
+    const records = (list as unknown[])
+        .filter(item => item !== null && typeof item === 'object' && !Array.isArray(item))
+        .map(item => {
+            const record: MergeRecord = {};
+            flattenValue(item, '', record);
+            Object.keys(record).forEach(field => { if (!fields.includes(field)) fields.push(field); });
+            return record;
+        });
+    return { fields, records };
+};
+
+/** Reads a CSV/TSV or JSON dataset; the first CSV row names the fields. */
+export const parseMergeData = (text: string, fileName: string): MergeDataset => {
+    const content = text.replace(/^\uFEFF/, '');
+    const dataset = /\.json$/i.test(fileName)
+        ? parseJson(content)
+        : parseCsv(content, /\.tsv$/i.test(fileName) ? '\t' : undefined);
+    if (dataset.records.length === 0) throw new Error('The file has no records.');
+    return dataset;
+};
+
+// Field names match exactly first, then ignoring case and surrounding spaces.
+export const lookupField = (record: MergeRecord, name: string): string | undefined => {
+    if (Object.hasOwn(record, name)) return record[name];
+    const wanted = name.trim().toLowerCase();
+    const key = Object.keys(record).find(field => field.trim().toLowerCase() === wanted);
+    return key === undefined ? undefined : record[key];
+};
+
+/** Replaces the placeholders in `text`; fields the record lacks stay as typed. */
+export const fillPlaceholders = (text: string, record: MergeRecord) => (
+    text.replace(PLACEHOLDER_PATTERN, (match, name: string) => lookupField(record, name) ?? match)
+);
+
+// --- Templates ---
+
+const textNodesOf = (root: HTMLElement) => {
+    const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const nodes: Text[] = [];
+    while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+    return nodes;
+};
+
+const mergeableAttributes = (root: HTMLElement) => [
+    ...Array.from(root.querySelectorAll('a[href]')).map(el => ({ el, name: 'href' })),
+    ...Array.from(root.querySelectorAll('img[alt]')).map(el => ({ el, name: 'alt' })),
+    ...Array.from(root.querySelectorAll('img.qr-code[data-original-url]')).map(el => ({ el, name: 'data-original-url' }))
+];
+
+/**
+ * Field names used in the template, in order of first use. A placeholder must be typed in
+ * one run of text: `{{na<b>me</b>}}` is not recognised.
+ */
+export const findPlaceholders = (root: HTMLElement): string[] => {
+    root.normalize();
+    const names: string[] = [];
+    const collect = (text: string | null) => {
+        for (const match of (text || '').matchAll(PLACEHOLDER_PATTERN)) {
+            if (!names.includes(match[1])) names.push(match[1]);
+        }
+    };
+    textNodesOf(root).forEach(node => collect(node.nodeValue));
+    mergeableAttributes(root).forEach(({ el, name }) => collect(el.getAttribute(name)));
+    return names;
+};
+
+/** Placeholders no dataset field answers to; they are left in the merged pages as typed. */
+export const findMissingFields = (placeholders: string[], dataset: MergeDataset) => {
+    const probe: MergeRecord = {};
+    dataset.fields.forEach(field => { probe[field] = ''; });
+    return placeholders.filter(name => lookupField(probe, name) === undefined);
+};
+
+// react-qrcode-logo encodes its value as UTF-8 bytes; qrcode-generator expects one char per byte.
+const toByteString = (value: string) => Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join('');
+
+/** Draws a QR code like the QR modal's defaults: 250px, 10px quiet zone, black on white. */
+export const renderQrCode = (value: string, size = 250, quietZone = 10): string => {
+    const code = qrcode(0, 'M');
+    code.addData(toByteString(value));
+    code.make();
+    const count = code.getModuleCount();
+    const canvas = document.createElement('canvas');
+    canvas.width = size + quietZone * 2;
+    canvas.height = size + quietZone * 2;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('QR codes cannot be drawn in this window.');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    const cell = size / count;
+    for (let row = 0; row < count; row++) {
+        for (let col = 0; col < count; col++) {
+            if (!code.isDark(row, col)) continue;
+            // Whole-pixel edges so neighbouring modules do not leave hairline gaps
+            const x = Math.round(quietZone + col * cell);
+            const y = Math.round(quietZone + row * cell);
+            ctx.fillRect(x, y, Math.round(quietZone + (col + 1) * cell) - x, Math.round(quietZone + (row + 1) * cell) - y);
+        }
+    }
+    return canvas.toDataURL('image/png');
+};
+
+/** Fills one record into the pages under `root` (modified in place). */
+export const mergeRecordInto = (root: HTMLElement, record: MergeRecord) => {
+    root.normalize();
+    textNodesOf(root).forEach(node => {
+        const text = node.nodeValue || '';
+        if (text.includes('{{')) node.nodeValue = fillPlaceholders(text, record);
+    });
+    mergeableAttributes(root).forEach(({ el, name }) => {
+        const value = el.getAttribute(name) || '';
+        if (!value.includes('{{')) return;
+        const merged = fillPlaceholders(value, record);
+        el.setAttribute(name, merged);
+        if (name === 'data-original-url') el.setAttribute('src', renderQrCode(merged));
+    });
+};
+
+/** The template pages with one record filled in, as workspace markup. */
+export const mergeRecordHtml = (templateHtml: string, record: MergeRecord): string => {
+    const root = document.createElement('div');
+    root.innerHTML = templateHtml;
+    mergeRecordInto(root, record);
+    return root.innerHTML;
+};
+
+// Copies after the first get their ids suffixed so anchors, TOC links and Structure entries
+// keep pointing inside their own section.
+const suffixIds = (root: HTMLElement, suffix: string) => {
+    const renamed = new Map<string, string>();
+    root.querySelectorAll('[id]').forEach(el => {
+        const id = el.id;
+        renamed.set(id, `${id}${suffix}`);
+        el.id = `${id}${suffix}`;
+    });
+    if (renamed.size === 0) return;
+    root.querySelectorAll('a[href^="#"]').forEach(link => {
+        const id = link.getAttribute('href')!.slice(1);
+        const target = renamed.get(id);
+        if (!target) return;
+        link.setAttribute('href', `#${target}`);
+        // TOC rows also scroll through an inline getElementById('<id>') handler
+        const onclick = link.getAttribute('onclick');
+        if (onclick) link.setAttribute('onclick', onclick.split(`'${id}'`).join(`'${target}'`));
+    });
+};
+
+/**
+ * One document with a section per record. Every section after the first starts on a new
+ * page through a user page break, so reflow never pulls it up under the previous record.
+ */
+export const mergeAllRecordsHtml = (templateHtml: string, records: MergeRecord[]): string => (
+    records.map((record, index) => {
+        const root = document.createElement('div');
+        root.innerHTML = templateHtml;
+        mergeRecordInto(root, record);
+        if (index > 0) {
+            suffixIds(root, `-r${index + 1}`);
+            const firstPage = root.querySelector(':scope > .page');
+            if (firstPage && !firstPage.querySelector(':scope > [data-user-page-break="true"]')) {
+                firstPage.insertAdjacentHTML('afterbegin', USER_PAGE_BREAK_MARKER);
+            }
+        }
+        return root.innerHTML;
+    }).join('\n')
+);
+
+/**
+ * File name for a record's own document: the pattern's placeholders filled in and characters
+ * file systems reject replaced. `used` keeps names unique within one run.
+ */
+export const recordFileName = (pattern: string, record: MergeRecord, index: number, used: Set<string>) => {
+    const base = fillPlaceholders(pattern, record)
+        .replace(PLACEHOLDER_PATTERN, '')
+        .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^[-. ]+|[-. ]+$/g, '') || `record-${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+};
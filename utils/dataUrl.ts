@@ -0,0 +1,42 @@
+// utils/dataUrl.ts
+//
+// Byte access for sources referenced by the document (images, fonts) when a writer needs to
+// embed them: data URLs are decoded in place, anything else is fetched.
+
+const encoder = new TextEncoder();
+
+export const decodeDataUrl = (dataUrl: string): Uint8Array | null => {
+    const comma = dataUrl.indexOf(',');
+    if (!dataUrl.startsWith('data:') || comma === -1) return null;
+    const meta = dataUrl.slice(0, comma);
+    const payload = dataUrl.slice(comma + 1);
+    if (!meta.endsWith(';base64')) return encoder.encode(decodeURIComponent(payload));
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+export const dataUrlMimeType = (dataUrl: string) => (
+    dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream'
+);
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Null when the source cannot be read (network error, CORS); callers fall back to a canvas.
+export const loadUrlBytes = async (src: string): Promise<Uint8Array | null> => {
+    if (src.startsWith('data:')) return decodeDataUrl(src);
+    try {
+        const response = await fetch(src);
+        return response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
+    } catch {
+        return null;
+    }
+};
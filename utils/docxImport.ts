@@ -0,0 +1,1030 @@
+// utils/docxImport.ts
+//
+// Reads a .docx package straight from its WordprocessingML parts instead of going through
+// mammoth: page size and margins (first section), paragraph and character styles, heading
+// styles (returned so the editor can save them as its heading styles), numbered and bulleted
+// lists, tables with merged cells and borders, embedded images, text-box shapes, explicit
+// page and section breaks, and page-number fields in headers/footers.
+//
+// The result is one .page per explicit break; the caller runs the paginator to spread the
+// content over correctly sized pages.
+
+import { PageMargins } from '../types';
+import { readZip, zipEntryText } from './zip';
+import { bytesToDataUrl } from './dataUrl';
+
+export type ImportedHeadingStyles = Partial<Record<'h1' | 'h2' | 'h3' | 'p', Record<string, string>>>;
+
+export interface ImportedPageNumbers {
+    startAnchorId: string; // 'DOC_START' or the id of the first block of the numbered section
+    font: string;
+    fontSize: string; // points
+    position: 'top' | 'bottom';
+    align: 'left' | 'center' | 'right';
+    margin: number; // inches from the page edge
+}
+
+export interface DocxImportResult {
+    html: string;
+    css: string; // unscoped rules for the document's Normal and Heading styles
+    pageSize: { width: string; height: string } | null;
+    margins: PageMargins | null; // inches; left is the gutter (inside) margin when mirrored
+    mirrored: boolean;
+    headingStyles: ImportedHeadingStyles;
+    pageNumbers: ImportedPageNumbers | null;
+    warnings: string[];
+}
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const IMAGE_MIME: Record<string, string> = {
+    png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+    bmp: 'image/bmp', svg: 'image/svg+xml', webp: 'image/webp', tif: 'image/tiff', tiff: 'image/tiff'
+};
+
+const BORDER_STYLES: Record<string, string> = {
+    single: 'solid', thick: 'solid', dashed: 'dashed', dashSmallGap: 'dashed', dotted: 'dotted',
+    dotDash: 'dashed', dotDotDash: 'dotted', double: 'double', triple: 'double',
+    threeDEngrave: 'groove', threeDEmboss: 'ridge', inset: 'inset', outset: 'outset'
+};
+
+const HIGHLIGHTS: Record<string, string> = {
+    yellow: '#ffff00', green: '#00ff00', cyan: '#00ffff', magenta: '#ff00ff', blue: '#0000ff', red: '#ff0000',
+    darkBlue: '#000080', darkCyan: '#008080', darkGreen: '#008000', darkMagenta: '#800080', darkRed: '#800000',
+    darkYellow: '#808000', darkGray: '#808080', lightGray: '#c0c0c0', black: '#000000', white: '#ffffff'
+};
+
+const LIST_STYLE_TYPES: Record<string, string> = {
+    decimal: 'decimal', decimalZero: 'decimal-leading-zero', lowerLetter: 'lower-alpha', upperLetter: 'upper-alpha',
+    lowerRoman: 'lower-roman', upperRoman: 'upper-roman', none: 'none'
+};
+
+const SHAPE_CLASSES: Record<string, string> = {
+    ellipse: 'shape-circle',
+    wedgeRoundRectCallout: 'shape-speech',
+    wedgeRectCallout: 'shape-speech',
+    wedgeEllipseCallout: 'shape-speech',
+    cloud: 'shape-cloud',
+    cloudCallout: 'shape-cloud'
+};
+
+// --- XML helpers ---
+
+const elementChildren = (el: Element | null | undefined, localName?: string) => (
+    el ? Array.from(el.children).filter(child => !localName || child.localName === localName) : []
+);
+const firstChild = (el: Element | null | undefined, localName: string) => elementChildren(el, localName)[0] || null;
+const wAttr = (el: Element | null | undefined, name: string) => (el ? el.getAttributeNS(NS_W, name) || el.getAttribute(`w:${name}`) : null);
+const wNumber = (el: Element | null | undefined, name: string) => {
+    const value = wAttr(el, name);
+    return value === null ? undefined : Number.parseFloat(value);
+};
+// Toggle properties (<w:b/>, <w:b w:val="0"/>)
+const wToggle = (el: Element | null) => {
+    if (!el) return undefined;
+    const value = wAttr(el, 'val');
+    return value === null || !['0', 'false', 'off'].includes(value);
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const pt = (value: number) => `${Number(value.toFixed(2))}pt`;
+const twipsToPt = (twips: number) => twips / 20;
+const emuToPx = (emu: number) => Math.round(emu / 9525);
+const inches = (twips: number) => Number((twips / 1440).toFixed(3));
+const styleAttr = (css: Record<string, string>) => {
+    const text = Object.entries(css).map(([key, value]) => `${key}: ${value}`).join('; ');
+    return text ? ` style="${escapeHtml(text)}"` : '';
+};
+
+const fontStack = (name: string) => {
+    const generic = /times|georgia|garamond|cambria|serif|book|palatino|baskerville|caslon/i.test(name) && !/sans/i.test(name)
+        ? 'serif'
+        : /courier|mono|consol/i.test(name) ? 'monospace' : 'sans-serif';
+    return `'${name.replace(/'/g, "\\'")}', ${generic}`;
+};
+
+// --- Styles ---
+
+interface RunStyle {
+    font?: string;
+    size?: number; // points
+    bold?: boolean;
+    italic?: boolean;
+    caps?: boolean;
+    smallCaps?: boolean;
+    strike?: boolean;
+    underline?: boolean;
+    color?: string;
+    letterSpacing?: number; // points
+    highlight?: string;
+    vertAlign?: 'super' | 'sub';
+}
+
+interface ParagraphStyle {
+    align?: string;
+    before?: number; // points
+    after?: number;
+    lineHeight?: string;
+    indentLeft?: number;
+    indentRight?: number;
+    textIndent?: number;
+    borders?: Partial<Record<'top' | 'left' | 'bottom' | 'right', string>>;
+    borderSpace?: Partial<Record<'top' | 'left' | 'bottom' | 'right', number>>;
+    shading?: string;
+    pageBreakBefore?: boolean;
+    outlineLevel?: number;
+    numId?: string;
+    ilvl?: number;
+}
+
+interface ResolvedStyle {
+    paragraph: ParagraphStyle;
+    run: RunStyle;
+    name: string;
+}
+
+const merge = <T extends object>(...layers: Array<T | undefined>): T => {
+    const out = {} as T;
+    layers.forEach(layer => {
+        if (!layer) return;
+        Object.entries(layer).forEach(([key, value]) => {
+            if (value !== undefined) (out as Record<string, unknown>)[key] = value;
+        });
+    });
+    return out;
+};
+
+const colorValue = (value: string | null) => (value && value !== 'auto' && /^[0-9a-f]{6}$/i.test(value) ? `#${value.toLowerCase()}` : undefined);
+
+const borderCss = (el: Element | null): string | undefined => {
+    if (!el) return undefined;
+    const val = wAttr(el, 'val') || 'single';
+    if (val === 'none' || val === 'nil') return 'none';
+    const width = Math.max(0.5, (wNumber(el, 'sz') || 4) / 8);
+    return `${pt(width)} ${BORDER_STYLES[val] || 'solid'} ${colorValue(wAttr(el, 'color')) || '#000000'}`;
+};
+
+const shadingColor = (el: Element | null) => {
+    const fill = colorValue(wAttr(el, 'fill'));
+    return fill && fill !== '#ffffff' ? fill : undefined;
+};
+
+const createStyleSheet = (stylesXml: Document | null, themeXml: Document | null) => {
+    const themeFonts = { major: '', minor: '' };
+    if (themeXml) {
+        const major = themeXml.getElementsByTagNameNS('*', 'majorFont')[0];
+        const minor = themeXml.getElementsByTagNameNS('*', 'minorFont')[0];
+        themeFonts.major = firstChild(major, 'latin')?.getAttribute('typeface') || '';
+        themeFonts.minor = firstChild(minor, 'latin')?.getAttribute('typeface') || '';
+    }
+
+    const readRun = (rPr: Element | null): RunStyle => {
+        if (!rPr) return {};
+        const fonts = firstChild(rPr, 'rFonts');
+        const theme = wAttr(fonts, 'asciiTheme');
+        const font = wAttr(fonts, 'ascii') || wAttr(fonts, 'hAnsi')
+            || (theme ? (theme.startsWith('major') ? themeFonts.major : themeFonts.minor) : null);
+        const size = wNumber(firstChild(rPr, 'sz'), 'val');
+        const underline = firstChild(rPr, 'u');
+        const spacing = wNumber(firstChild(rPr, 'spacing'), 'val');
+        const vertAlign = wAttr(firstChild(rPr, 'vertAlign'), 'val');
+        const highlight = wAttr(firstChild(rPr, 'highlight'), 'val');
+        return {
+            font: font || undefined,
+            size: size !== undefined ? size / 2 : undefined,
+            bold: wToggle(firstChild(rPr, 'b')),
+            italic: wToggle(firstChild(rPr, 'i')),
+            caps: wToggle(firstChild(rPr, 'caps')),
+            smallCaps: wToggle(firstChild(rPr, 'smallCaps')),
+            strike: wToggle(firstChild(rPr, 'strike')) ?? wToggle(firstChild(rPr, 'dstrike')),
+            underline: underline ? wAttr(underline, 'val') !== 'none' : undefined,
+            color: colorValue(wAttr(firstChild(rPr, 'color'), 'val')),
+            letterSpacing: spacing !== undefined ? twipsToPt(spacing) : undefined,
+            highlight: (highlight && HIGHLIGHTS[highlight]) || shadingColor(firstChild(rPr, 'shd')),
+            vertAlign: vertAlign === 'superscript' ? 'super' : vertAlign === 'subscript' ? 'sub' : undefined
+        };
+    };
+
+    const readParagraph = (pPr: Element | null): ParagraphStyle => {
+        if (!pPr) return {};
+        const jc = wAttr(firstChild(pPr, 'jc'), 'val');
+        const spacing = firstChild(pPr, 'spacing');
+        const ind = firstChild(pPr, 'ind');
+        const numPr = firstChild(pPr, 'numPr');
+        const line = wNumber(spacing, 'line');
+        const lineRule = wAttr(spacing, 'lineRule');
+        const firstLine = wNumber(ind, 'firstLine');
+        const hanging = wNumber(ind, 'hanging');
+        const before = wNumber(spacing, 'before');
+        const after = wNumber(spacing, 'after');
+        const left = wNumber(ind, 'left') ?? wNumber(ind, 'start');
+        const right = wNumber(ind, 'right') ?? wNumber(ind, 'end');
+        const pBdr = firstChild(pPr, 'pBdr');
+        const sides = ['top', 'left', 'bottom', 'right'] as const;
+        const borders: ParagraphStyle['borders'] = {};
+        const borderSpace: ParagraphStyle['borderSpace'] = {};
+        sides.forEach(side => {
+            const border = firstChild(pBdr, side) || (side === 'left' ? firstChild(pBdr, 'start') : side === 'right' ? firstChild(pBdr, 'end') : null);
+            const css = borderCss(border);
+            if (css) {
+                borders[side] = css;
+                borderSpace[side] = wNumber(border, 'space') || 0;
+            }
+        });
+        const outline = wNumber(firstChild(pPr, 'outlineLvl'), 'val');
+        return {
+            align: jc === 'center' ? 'center' : jc === 'right' || jc === 'end' ? 'right' : jc === 'both' || jc === 'distribute' ? 'justify' : jc ? 'left' : undefined,
+            before: before !== undefined ? twipsToPt(before) : undefined,
+            after: after !== undefined ? twipsToPt(after) : undefined,
+            lineHeight: line === undefined ? undefined : (!lineRule || lineRule === 'auto') ? String(Number((line / 240).toFixed(2))) : pt(twipsToPt(line)),
+            indentLeft: left !== undefined ? twipsToPt(left) : undefined,
+            indentRight: right !== undefined ? twipsToPt(right) : undefined,
+            textIndent: hanging !== undefined ? -twipsToPt(hanging) : firstLine !== undefined ? twipsToPt(firstLine) : undefined,
+            borders: pBdr ? borders : undefined,
+            borderSpace: pBdr ? borderSpace : undefined,
+            shading: shadingColor(firstChild(pPr, 'shd')),
+            pageBreakBefore: wToggle(firstChild(pPr, 'pageBreakBefore')),
+            outlineLevel: outline !== undefined && outline < 9 ? outline : undefined,
+            numId: wAttr(firstChild(numPr, 'numId'), 'val') || undefined,
+            ilvl: numPr ? wNumber(firstChild(numPr, 'ilvl'), 'val') || 0 : undefined
+        };
+    };
+
+    const styleElements = new Map<string, Element>();
+    let defaultParagraphId = '';
+    let defaultTableId = '';
+    elementChildren(stylesXml?.documentElement, 'style').forEach(style => {
+        const id = wAttr(style, 'styleId');
+        if (!id) return;
+        styleElements.set(id, style);
+        if (wAttr(style, 'default') === '1' && wAttr(style, 'type') === 'paragraph') defaultParagraphId = id;
+        if (wAttr(style, 'default') === '1' && wAttr(style, 'type') === 'table') defaultTableId = id;
+    });
+
+    const docDefaults = firstChild(stylesXml?.documentElement, 'docDefaults');
+    const defaults: ResolvedStyle = {
+        paragraph: readParagraph(firstChild(firstChild(docDefaults, 'pPrDefault'), 'pPr')),
+        run: merge<RunStyle>({ font: themeFonts.minor || 'Calibri', size: 10 }, readRun(firstChild(firstChild(docDefaults, 'rPrDefault'), 'rPr'))),
+        name: ''
+    };
+
+    const cache = new Map<string, ResolvedStyle>();
+    const resolve = (id: string | null | undefined, depth = 0): ResolvedStyle => {
+        if (!id || depth > 20) return { paragraph: {}, run: {}, name: '' };
+        const cached = cache.get(id);
+        if (cached) return cached;
+        const style = styleElements.get(id);
+        if (!style) return { paragraph: {}, run: {}, name: '' };
+        const parent = resolve(wAttr(firstChild(style, 'basedOn'), 'val'), depth + 1);
+        const resolved: ResolvedStyle = {
+            paragraph: merge(parent.paragraph, readParagraph(firstChild(style, 'pPr'))),
+            run: merge(parent.run, readRun(firstChild(style, 'rPr'))),
+            name: wAttr(firstChild(style, 'name'), 'val') || id
+        };
+        cache.set(id, resolved);
+        return resolved;
+    };
+
+    // Table style borders, cell margins and shading
+    const tableStyle = (id: string | null) => {
+        const style = styleElements.get(id || defaultTableId);
+        const chain: Element[] = [];
+        for (let current = style; current && chain.length < 20; current = styleElements.get(wAttr(firstChild(current, 'basedOn'), 'val') || '')) {
+            chain.unshift(current);
+        }
+        return chain.map(el => firstChild(el, 'tblPr')).filter((el): el is Element => Boolean(el));
+    };
+
+    return {
+        defaults,
+        defaultParagraphId,
+        readRun,
+        readParagraph,
+        resolve,
+        tableStyle,
+        paragraphStyle: (id: string | null) => resolve(id || defaultParagraphId)
+    };
+};
+
+type StyleSheet = ReturnType<typeof createStyleSheet>;
+
+const runCss = (run: RunStyle): Record<string, string> => ({
+    'font-family': fontStack(run.font || 'Calibri'),
+    'font-size': pt(run.size || 10),
+    'font-weight': run.bold ? '700' : '400',
+    'font-style': run.italic ? 'italic' : 'normal',
+    'text-transform': run.caps ? 'uppercase' : 'none',
+    'font-variant': run.smallCaps ? 'small-caps' : 'normal',
+    'text-decoration': [run.underline ? 'underline' : '', run.strike ? 'line-through' : ''].filter(Boolean).join(' ') || 'none',
+    color: run.color || '#000000',
+    'letter-spacing': run.letterSpacing ? pt(run.letterSpacing) : 'normal',
+    ...(run.highlight ? { 'background-color': run.highlight } : {})
+});
+
+const paragraphCss = (paragraph: ParagraphStyle, complete: boolean): Record<string, string> => {
+    const css: Record<string, string> = {};
+    const set = (key: string, value: string | undefined, fallback: string) => {
+        if (value !== undefined) css[key] = value;
+        else if (complete) css[key] = fallback;
+    };
+    set('text-align', paragraph.align, 'left');
+    set('margin-top', paragraph.before !== undefined ? pt(paragraph.before) : undefined, '0pt');
+    set('margin-bottom', paragraph.after !== undefined ? pt(paragraph.after) : undefined, '0pt');
+    set('line-height', paragraph.lineHeight, 'normal');
+    if (paragraph.indentLeft) css['margin-left'] = pt(paragraph.indentLeft);
+    if (paragraph.indentRight) css['margin-right'] = pt(paragraph.indentRight);
+    if (paragraph.textIndent) css['text-indent'] = pt(paragraph.textIndent);
+    if (paragraph.borders) {
+        Object.entries(paragraph.borders).forEach(([side, value]) => {
+            css[`border-${side}`] = value;
+            const space = paragraph.borderSpace?.[side as 'top'];
+            if (value !== 'none' && space) css[`padding-${side}`] = pt(space);
+        });
+    }
+    if (paragraph.shading) css['background-color'] = paragraph.shading;
+    return css;
+};
+
+// Same keys as the editor's captured heading styles, so they can be saved and re-applied
+const headingRecord = (style: ResolvedStyle): Record<string, string> => {
+    const run = runCss(style.run);
+    const paragraph = paragraphCss(style.paragraph, true);
+    return {
+        'font-family': run['font-family'],
+        'font-size': run['font-size'],
+        'font-weight': run['font-weight'],
+        'font-style': run['font-style'],
+        color: run.color,
+        'text-transform': run['text-transform'],
+        'text-align': paragraph['text-align'],
+        'line-height': paragraph['line-height'],
+        'letter-spacing': run['letter-spacing'],
+        'text-decoration': run['text-decoration'],
+        'margin-top': paragraph['margin-top'],
+        'margin-bottom': paragraph['margin-bottom']
+    };
+};
+
+// --- Numbering ---
+
+interface ListLevel {
+    ordered: boolean;
+    listStyleType: string;
+    start: number;
+}
+
+const createNumbering = (numberingXml: Document | null) => {
+    const abstracts = new Map<string, Map<number, ListLevel>>();
+    elementChildren(numberingXml?.documentElement, 'abstractNum').forEach(abstract => {
+        const levels = new Map<number, ListLevel>();
+        elementChildren(abstract, 'lvl').forEach(lvl => {
+            const format = wAttr(firstChild(lvl, 'numFmt'), 'val') || 'decimal';
+            const text = wAttr(firstChild(lvl, 'lvlText'), 'val') || '';
+            levels.set(wNumber(lvl, 'ilvl') || 0, {
+                ordered: format !== 'bullet',
+                listStyleType: format === 'bullet' ? (text === 'o' || text === '◦' ? 'circle' : text === '▪' || text === '' ? 'square' : 'disc') : LIST_STYLE_TYPES[format] || 'decimal',
+                start: wNumber(firstChild(lvl, 'start'), 'val') ?? 1
+            });
+        });
+        abstracts.set(wAttr(abstract, 'abstractNumId') || '', levels);
+    });
+
+    const nums = new Map<string, { levels: Map<number, ListLevel>; overrides: Map<number, number> }>();
+    elementChildren(numberingXml?.documentElement, 'num').forEach(num => {
+        const overrides = new Map<number, number>();
+        elementChildren(num, 'lvlOverride').forEach(override => {
+            const start = wNumber(firstChild(override, 'startOverride'), 'val');
+            if (start !== undefined) overrides.set(wNumber(override, 'ilvl') || 0, start);
+        });
+        nums.set(wAttr(num, 'numId') || '', {
+            levels: abstracts.get(wAttr(firstChild(num, 'abstractNumId'), 'val') || '') || new Map(),
+            overrides
+        });
+    });
+
+    return (numId: string, ilvl: number): ListLevel | null => {
+        const num = nums.get(numId);
+        if (!num || numId === '0') return null;
+        const level = num.levels.get(ilvl) || { ordered: false, listStyleType: 'disc', start: 1 };
+        return { ...level, start: num.overrides.get(ilvl) ?? level.start };
+    };
+};
+
+// --- Document conversion ---
+
+interface Block {
+    html: string;
+    list?: { numId: string; ilvl: number; level: ListLevel; css: Record<string, string>; inner: string };
+    pageBreakBefore?: boolean;
+    sectionEnd?: Element; // sectPr closing the section at this block
+}
+
+interface Relationship {
+    target: string;
+    external: boolean;
+}
+
+const readRelationships = (xml: string | null): Map<string, Relationship> => {
+    const rels = new Map<string, Relationship>();
+    if (!xml) return rels;
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    Array.from(doc.getElementsByTagNameNS('*', 'Relationship')).forEach(rel => {
+        rels.set(rel.getAttribute('Id') || '', {
+            target: rel.getAttribute('Target') || '',
+            external: rel.getAttribute('TargetMode') === 'External'
+        });
+    });
+    return rels;
+};
+
+const packagePath = (base: string, target: string) => {
+    if (target.startsWith('/')) return target.slice(1);
+    const parts = `${base}/${target}`.split('/');
+    const out: string[] = [];
+    parts.forEach(part => {
+        if (part === '..') out.pop();
+        else if (part && part !== '.') out.push(part);
+    });
+    return out.join('/');
+};
+
+const pageBreakPage = '<div class="page" data-user-page-break="true"><div data-user-page-break="true" style="display:none;height:0;overflow:hidden;"></div>';
+
+/**
+ * Converts a .docx file to editor HTML plus the page setup and styles it declares.
+ * Throws when the file is not a readable Word package.
+ */
+export const importDocx = async (data: ArrayBuffer | Uint8Array): Promise<DocxImportResult> => {
+    const files = await readZip(data);
+    const parse = (path: string) => {
+        const text = zipEntryText(files, path);
+        return text ? new DOMParser().parseFromString(text, 'application/xml') : null;
+    };
+    const documentXml = parse('word/document.xml');
+    const body = documentXml ? firstChild(documentXml.documentElement, 'body') : null;
+    if (!documentXml || !body) throw new Error('This file has no Word document body.');
+
+    const warnings: string[] = [];
+    const styles = createStyleSheet(parse('word/styles.xml'), parse('word/theme/theme1.xml'));
+    const listLevel = createNumbering(parse('word/numbering.xml'));
+    const relationships = readRelationships(zipEntryText(files, 'word/_rels/document.xml.rels'));
+    const settingsXml = parse('word/settings.xml');
+    const mirrored = Boolean(settingsXml && firstChild(settingsXml.documentElement, 'mirrorMargins'));
+
+    let missingImages = 0;
+    let nextHeadingId = 1;
+    const imageUrls = new Map<string, string | null>();
+    const imageUrl = (relId: string | null) => {
+        if (!relId) return null;
+        if (imageUrls.has(relId)) return imageUrls.get(relId) || null;
+        const rel = relationships.get(relId);
+        const path = rel && !rel.external ? packagePath('word', rel.target) : '';
+        const bytes = path ? files.get(path) : undefined;
+        const mime = IMAGE_MIME[(path.split('.').pop() || '').toLowerCase()];
+        const url = bytes && mime ? bytesToDataUrl(bytes, mime) : null;
+        if (!url) missingImages++;
+        imageUrls.set(relId, url);
+        return url;
+    };
+
+    // --- Runs ---
+
+    // Complex fields (TOC, PAGEREF, HYPERLINK...) keep only their displayed result
+    const fieldStack: Array<'code' | 'result'> = [];
+    const inFieldCode = () => fieldStack.includes('code');
+
+    const runHtml = (text: string, run: RunStyle, base: RunStyle) => {
+        if (!text) return '';
+        const own = runCss(run);
+        const inherited = runCss(base);
+        let html = escapeHtml(text);
+        const css: Record<string, string> = {};
+        Object.entries(own).forEach(([key, value]) => {
+            if (inherited[key] === value) return;
+            // Plain emphasis becomes the same tags the editor's toolbar produces
+            if (key === 'font-weight' && run.bold && !base.bold) return;
+            if (key === 'font-style' && run.italic && !base.italic) return;
+            if (key === 'text-decoration' && !base.underline && !base.strike) return;
+            css[key] = value;
+        });
+        if (run.bold && !base.bold) html = `<b>${html}</b>`;
+        if (run.italic && !base.italic) html = `<i>${html}</i>`;
+        if (run.underline && !base.underline && !base.strike) html = `<u>${html}</u>`;
+        if (run.strike && !base.strike && !base.underline) html = `<s>${html}</s>`;
+        if (run.vertAlign) html = `<${run.vertAlign === 'super' ? 'sup' : 'sub'}>${html}</${run.vertAlign === 'super' ? 'sup' : 'sub'}>`;
+        return Object.keys(css).length > 0 ? `<span${styleAttr(css)}>${html}</span>` : html;
+    };
+
+    const pictureHtml = (container: Element) => {
+        const blip = container.getElementsByTagNameNS('*', 'blip')[0];
+        const url = imageUrl(blip?.getAttributeNS(NS_R, 'embed') || blip?.getAttribute('r:embed') || null);
+        if (!url) return '';
+        const extent = firstChild(container, 'extent');
+        const width = emuToPx(Number(extent?.getAttribute('cx') || 0));
+        const height = emuToPx(Number(extent?.getAttribute('cy') || 0));
+        const alt = firstChild(container, 'docPr')?.getAttribute('descr') || '';
+        const css: Record<string, string> = {};
+        if (width) css.width = `${width}px`;
+        if (height) css.height = 'auto';
+        if (container.localName === 'anchor') {
+            // Floating pictures keep their side when Word aligned them to one
+            const align = firstChild(firstChild(container, 'positionH'), 'align')?.textContent;
+            const wraps = ['wrapSquare', 'wrapTight', 'wrapThrough'].some(name => firstChild(container, name));
+            if (wraps && (align === 'left' || align === 'right')) {
+                css.float = align;
+                css.margin = align === 'left' ? '0 12px 8px 0' : '0 0 8px 12px';
+            } else {
+                css.display = 'block';
+                css.margin = '0 auto';
+            }
+        }
+        return `<img src="${url}" alt="${escapeHtml(alt)}"${styleAttr(css)}>`;
+    };
+
+    // Word shapes with a text box become the editor's shape containers
+    const shapeHtml = (container: Element): string | null => {
+        const shape = container.getElementsByTagNameNS('*', 'wsp')[0];
+        const textBox = shape ? shape.getElementsByTagNameNS('*', 'txbxContent')[0] : null;
+        if (!shape || !textBox) return null;
+        const geometry = shape.getElementsByTagNameNS('*', 'prstGeom')[0]?.getAttribute('prst') || 'rect';
+        const adjust = Number((shape.getElementsByTagNameNS('*', 'gd')[0]?.getAttribute('fmla') || '').replace('val ', '')) || 0;
+        const className = SHAPE_CLASSES[geometry] || (geometry === 'roundRect' && adjust >= 40000 ? 'shape-pill' : 'shape-rectangle');
+        const extent = firstChild(container, 'extent');
+        const spPr = firstChild(shape, 'spPr');
+        const fill = firstChild(firstChild(spPr, 'solidFill'), 'srgbClr')?.getAttribute('val');
+        const line = firstChild(spPr, 'ln');
+        const lineColor = firstChild(firstChild(line, 'solidFill'), 'srgbClr')?.getAttribute('val');
+        const css: Record<string, string> = {
+            width: `${emuToPx(Number(extent?.getAttribute('cx') || 0))}px`,
+            'min-height': `${emuToPx(Number(extent?.getAttribute('cy') || 0))}px`
+        };
+        if (fill) css['background-color'] = `#${fill.toLowerCase()}`;
+        if (line && firstChild(line, 'noFill')) css.border = 'none';
+        else if (lineColor) css.border = `${Math.max(1, emuToPx(Number(line?.getAttribute('w') || 9525)))}px solid #${lineColor.toLowerCase()}`;
+        return `<div class="${className}"${styleAttr(css)}>${renderBlocks(convertBlocks(textBox))}</div>`;
+    };
+
+    interface ParagraphParts {
+        segments: string[]; // paragraph content split at explicit page breaks
+        after: string[]; // block content (shapes) that cannot sit inside a paragraph
+        bookmarks: string[];
+    }
+
+    const collectRuns = (el: Element, base: RunStyle, paragraphRun: RunStyle, parts: ParagraphParts, link: string | null) => {
+        const append = (html: string) => {
+            if (!html) return;
+            parts.segments[parts.segments.length - 1] += link ? `<a href="${escapeHtml(link)}">${html}</a>` : html;
+        };
+        elementChildren(el).forEach(node => {
+            switch (node.localName) {
+                case 'r': {
+                    const rPr = firstChild(node, 'rPr');
+                    const charStyle = styles.resolve(wAttr(firstChild(rPr, 'rStyle'), 'val')).run;
+                    const run = merge(paragraphRun, charStyle, styles.readRun(rPr));
+                    elementChildren(node).forEach(item => {
+                        switch (item.localName) {
+                            case 'fldChar': {
+                                const type = wAttr(item, 'fldCharType');
+                                if (type === 'begin') fieldStack.push('code');
+                                else if (type === 'separate' && fieldStack.length > 0) fieldStack[fieldStack.length - 1] = 'result';
+                                else if (type === 'end') fieldStack.pop();
+                                break;
+                            }
+                            case 't':
+                                if (!inFieldCode()) append(runHtml(item.textContent || '', run, base));
+                                break;
+                            case 'tab':
+                                if (!inFieldCode()) append(runHtml(' ', run, base));
+                                break;
+                            case 'noBreakHyphen':
+                                append(runHtml('‑', run, base));
+                                break;
+                            case 'softHyphen':
+                                append('&shy;');
+                                break;
+                            case 'sym': {
+                                const code = Number.parseInt(wAttr(item, 'char') || '', 16);
+                                if (code) append(runHtml(String.fromCharCode(code > 0xf000 ? code - 0xf000 : code), run, base));
+                                break;
+                            }
+                            case 'cr':
+                                append('<br>');
+                                break;
+                            case 'br':
+                                if (inFieldCode()) break;
+                                if (wAttr(item, 'type') === 'page') parts.segments.push('');
+                                else if (wAttr(item, 'type') !== 'column') append('<br>');
+                                break;
+                            case 'drawing': {
+                                const container = firstChild(item, 'inline') || firstChild(item, 'anchor');
+                                if (!container) break;
+                                const shape = shapeHtml(container);
+                                if (shape !== null) parts.after.push(shape);
+                                else append(pictureHtml(container));
+                                break;
+                            }
+                            case 'pict': {
+                                const image = item.getElementsByTagNameNS('*', 'imagedata')[0];
+                                const url = imageUrl(image?.getAttributeNS(NS_R, 'id') || image?.getAttribute('r:id') || null);
+                                if (url) append(`<img src="${url}" alt="">`);
+                                break;
+                            }
+                            case 'AlternateContent': {
+                                // Prefer the modern choice (DrawingML) over the VML fallback
+                                const choice = firstChild(item, 'Choice') || firstChild(item, 'Fallback');
+                                if (choice) collectRuns(wrapRun(choice, rPr), base, paragraphRun, parts, link);
+                                break;
+                            }
+                        }
+                    });
+                    break;
+                }
+                case 'hyperlink': {
+                    const rel = relationships.get(node.getAttributeNS(NS_R, 'id') || node.getAttribute('r:id') || '');
+                    const anchor = wAttr(node, 'anchor');
+                    collectRuns(node, base, paragraphRun, parts, rel ? rel.target : anchor ? `#${anchor}` : link);
+                    break;
+                }
+                case 'fldSimple':
+                case 'smartTag':
+                case 'ins':
+                case 'customXml':
+                    collectRuns(node, base, paragraphRun, parts, link);
+                    break;
+                case 'sdt':
+                    collectRuns(firstChild(node, 'sdtContent') || node, base, paragraphRun, parts, link);
+                    break;
+                case 'bookmarkStart': {
+                    const name = wAttr(node, 'name');
+                    if (name && name !== '_GoBack') parts.bookmarks.push(name);
+                    break;
+                }
+            }
+        });
+    };
+
+    // mc:Choice holds the drawing itself; wrap it in a run so the run walker sees it.
+    const wrapRun = (choice: Element, rPr: Element | null) => {
+        const run = choice.ownerDocument.createElementNS(NS_W, 'w:r');
+        if (rPr) run.appendChild(rPr.cloneNode(true));
+        elementChildren(choice).forEach(child => run.appendChild(child.cloneNode(true)));
+        const holder = choice.ownerDocument.createElementNS(NS_W, 'w:p');
+        holder.appendChild(run);
+        return holder;
+    };
+
+    const convertParagraph = (p: Element): Block[] => {
+        const pPr = firstChild(p, 'pPr');
+        const styleId = wAttr(firstChild(pPr, 'pStyle'), 'val') || styles.defaultParagraphId;
+        const style = styles.paragraphStyle(styleId);
+        const direct = styles.readParagraph(pPr);
+        const paragraph = merge(style.paragraph, direct);
+        const run = merge(styles.defaults.run, style.run);
+
+        const headingMatch = style.name.match(/^heading\s*([1-6])$/i);
+        const level = headingMatch ? Number(headingMatch[1])
+            : /^title$/i.test(style.name) ? 1
+                : paragraph.outlineLevel !== undefined && paragraph.outlineLevel < 6 ? paragraph.outlineLevel + 1 : 0;
+        const tag = level ? `h${level}` : 'p';
+        // Normal and Heading styles live in the stylesheet; other styles travel inline
+        const inStylesheet = styleId === styles.defaultParagraphId || Boolean(headingMatch);
+        const css = inStylesheet ? paragraphCss(direct, false) : { ...runCss(run), ...paragraphCss(paragraph, false) };
+
+        const parts: ParagraphParts = { segments: [''], after: [], bookmarks: [] };
+        collectRuns(p, run, run, parts, null);
+
+        const numId = paragraph.numId;
+        const list = numId ? listLevel(numId, paragraph.ilvl || 0) : null;
+        const blocks: Block[] = [];
+        parts.segments.forEach((inner, index) => {
+            const attributes: string[] = [];
+            if (index === 0 && parts.bookmarks.length > 0) attributes.push(`id="${escapeHtml(parts.bookmarks[0])}"`);
+            if (level >= 1 && level <= 3) {
+                if (index === 0 && parts.bookmarks.length === 0) attributes.push(`id="docx-heading-${nextHeadingId++}"`);
+                attributes.push('data-structure-status="approved"');
+            }
+            const anchors = index === 0 ? parts.bookmarks.slice(1).map(name => `<a id="${escapeHtml(name)}"></a>`).join('') : '';
+            // A paragraph that only carries a page break (or a shape) leaves no empty line behind
+            if (!inner && !anchors && (parts.segments.length > 1 || parts.after.length > 0)) {
+                blocks.push({ html: '', pageBreakBefore: index > 0 });
+                return;
+            }
+            const content = `${anchors}${inner}` || '<br>';
+            const listCss = { ...css };
+            delete listCss['margin-left'];
+            delete listCss['text-indent'];
+            blocks.push({
+                html: `<${tag}${attributes.length ? ` ${attributes.join(' ')}` : ''}${styleAttr(css)}>${content}</${tag}>`,
+                list: list && tag === 'p' ? { numId: numId || '', ilvl: paragraph.ilvl || 0, level: list, css: listCss, inner: content } : undefined,
+                pageBreakBefore: index > 0 || (index === 0 && paragraph.pageBreakBefore)
+            });
+        });
+        parts.after.forEach(html => blocks.push({ html }));
+        const sectPr = firstChild(pPr, 'sectPr');
+        if (sectPr) blocks[blocks.length - 1].sectionEnd = sectPr;
+        return blocks;
+    };
+
+    const convertTable = (tbl: Element): string => {
+        const tblPr = firstChild(tbl, 'tblPr');
+        const styleLayers = [...styles.tableStyle(wAttr(firstChild(tblPr, 'tblStyle'), 'val')), ...(tblPr ? [tblPr] : [])];
+        const tableBorders: Record<string, string | undefined> = {};
+        const cellMargins: Record<string, number> = { top: 0, bottom: 0, left: 5.4, right: 5.4 };
+        styleLayers.forEach(layer => {
+            const borders = firstChild(layer, 'tblBorders');
+            ['top', 'left', 'bottom', 'right', 'insideH', 'insideV', 'start', 'end'].forEach(side => {
+                const css = borderCss(firstChild(borders, side));
+                const key = side === 'start' ? 'left' : side === 'end' ? 'right' : side;
+                if (css) tableBorders[key] = css;
+            });
+            const margins = firstChild(layer, 'tblCellMar');
+            ['top', 'left', 'bottom', 'right'].forEach(side => {
+                const width = wNumber(firstChild(margins, side), 'w');
+                if (width !== undefined) cellMargins[side] = twipsToPt(width);
+            });
+        });
+
+        const tableCss: Record<string, string> = { 'border-collapse': 'collapse' };
+        const tblW = firstChild(tblPr, 'tblW');
+        const widthType = wAttr(tblW, 'type');
+        const width = wNumber(tblW, 'w') || 0;
+        if (widthType === 'dxa' && width) tableCss.width = pt(twipsToPt(width));
+        else if (widthType === 'pct' && width) tableCss.width = `${Number((width / 50).toFixed(1))}%`;
+        else tableCss.width = '100%';
+        if (wAttr(firstChild(tblPr, 'jc'), 'val') === 'center') tableCss.margin = '0 auto';
+
+        // Lay cells on the grid to turn vMerge runs into rowspans
+        const rows = elementChildren(tbl, 'tr');
+        interface Cell { tc: Element; column: number; span: number; rowSpan: number; merged: boolean }
+        const grid: Cell[][] = rows.map(tr => {
+            let column = wNumber(firstChild(firstChild(tr, 'trPr'), 'gridBefore'), 'val') || 0;
+            return elementChildren(tr, 'tc').map(tc => {
+                const tcPr = firstChild(tc, 'tcPr');
+                const span = wNumber(firstChild(tcPr, 'gridSpan'), 'val') || 1;
+                const vMerge = firstChild(tcPr, 'vMerge');
+                const cell = { tc, column, span, rowSpan: 1, merged: Boolean(vMerge) && wAttr(vMerge, 'val') !== 'restart' };
+                column += span;
+                return cell;
+            });
+        });
+        grid.forEach((row, rowIndex) => row.forEach(cell => {
+            if (!cell.merged) return;
+            for (let above = rowIndex - 1; above >= 0; above--) {
+                const origin = grid[above].find(candidate => candidate.column === cell.column && !candidate.merged);
+                if (origin) {
+                    origin.rowSpan++;
+                    break;
+                }
+                if (!grid[above].some(candidate => candidate.column === cell.column)) break;
+            }
+        }));
+        const columnCount = Math.max(1, ...grid.map(row => row.reduce((end, cell) => Math.max(end, cell.column + cell.span), 0)));
+
+        const cellHtml = (cell: Cell, rowIndex: number, header: boolean) => {
+            const tcPr = firstChild(cell.tc, 'tcPr');
+            const css: Record<string, string> = {};
+            const own = firstChild(tcPr, 'tcBorders');
+            const lastRow = rowIndex + cell.rowSpan >= rows.length;
+            const sides: Record<string, string | undefined> = {
+                top: rowIndex === 0 ? tableBorders.top : tableBorders.insideH,
+                bottom: lastRow ? tableBorders.bottom : tableBorders.insideH,
+                left: cell.column === 0 ? tableBorders.left : tableBorders.insideV,
+                right: cell.column + cell.span >= columnCount ? tableBorders.right : tableBorders.insideV
+            };
+            ['top', 'left', 'bottom', 'right'].forEach(side => {
+                const value = borderCss(firstChild(own, side) || firstChild(own, side === 'left' ? 'start' : side === 'right' ? 'end' : side)) || sides[side];
+                if (value) css[`border-${side}`] = value;
+            });
+            const shading = shadingColor(firstChild(tcPr, 'shd'));
+            if (shading) css['background-color'] = shading;
+            const margins = { ...cellMargins };
+            const tcMar = firstChild(tcPr, 'tcMar');
+            ['top', 'left', 'bottom', 'right'].forEach(side => {
+                const value = wNumber(firstChild(tcMar, side), 'w');
+                if (value !== undefined) margins[side] = twipsToPt(value);
+            });
+            css.padding = `${pt(margins.top)} ${pt(margins.right)} ${pt(margins.bottom)} ${pt(margins.left)}`;
+            const vAlign = wAttr(firstChild(tcPr, 'vAlign'), 'val');
+            css['vertical-align'] = vAlign === 'center' ? 'middle' : vAlign === 'bottom' ? 'bottom' : 'top';
+            const tcW = firstChild(tcPr, 'tcW');
+            if (wAttr(tcW, 'type') === 'dxa' && wNumber(tcW, 'w')) css.width = pt(twipsToPt(wNumber(tcW, 'w') || 0));
+            const tag = header ? 'th' : 'td';
+            const spans = `${cell.span > 1 ? ` colspan="${cell.span}"` : ''}${cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : ''}`;
+            return `<${tag}${spans}${styleAttr(css)}>${renderBlocks(convertBlocks(cell.tc))}</${tag}>`;
+        };
+
+        let headerRows = 0;
+        while (headerRows < rows.length && wToggle(firstChild(firstChild(rows[headerRows], 'trPr'), 'tblHeader'))) headerRows++;
+        const rowHtml = (rowIndex: number) => {
+            const height = wNumber(firstChild(firstChild(rows[rowIndex], 'trPr'), 'trHeight'), 'val');
+            const cells = grid[rowIndex].filter(cell => !cell.merged).map(cell => cellHtml(cell, rowIndex, rowIndex < headerRows)).join('');
+            return `<tr${height ? styleAttr({ height: pt(twipsToPt(height)) }) : ''}>${cells}</tr>`;
+        };
+        const head = headerRows > 0 ? `<thead>${rows.slice(0, headerRows).map((_, i) => rowHtml(i)).join('')}</thead>` : '';
+        const bodyRows = rows.slice(headerRows).map((_, i) => rowHtml(i + headerRows)).join('');
+        return `<table${styleAttr(tableCss)}>${head}<tbody>${bodyRows}</tbody></table>`;
+    };
+
+    const convertBlocks = (container: Element): Block[] => {
+        const blocks: Block[] = [];
+        elementChildren(container).forEach(node => {
+            switch (node.localName) {
+                case 'p':
+                    blocks.push(...convertParagraph(node));
+                    break;
+                case 'tbl':
+                    blocks.push({ html: convertTable(node) });
+                    break;
+                case 'sdt':
+                    blocks.push(...convertBlocks(firstChild(node, 'sdtContent') || node));
+                    break;
+                case 'customXml':
+                case 'ins':
+                    blocks.push(...convertBlocks(node));
+                    break;
+            }
+        });
+        return blocks;
+    };
+
+    // Consecutive numbered paragraphs become nested <ul>/<ol>; a list that resumes after
+    // other content continues its count.
+    const counters = new Map<string, number>();
+    const renderBlocks = (blocks: Block[]) => {
+        let html = '';
+        const open: Array<{ numId: string; tag: string; listStyleType: string; itemOpen: boolean }> = [];
+        const closeTo = (depth: number) => {
+            while (open.length > depth) {
+                const list = open.pop()!;
+                html += `${list.itemOpen ? '</li>' : ''}</${list.tag}>`;
+            }
+        };
+        blocks.forEach(block => {
+            if (!block.list) {
+                closeTo(0);
+                html += block.html;
+                return;
+            }
+            const { numId, ilvl, level } = block.list;
+            closeTo(ilvl + 1);
+            const top = open[ilvl];
+            if (top && (top.numId !== numId || top.listStyleType !== level.listStyleType)) closeTo(ilvl);
+            while (open.length < ilvl + 1) {
+                const depth = open.length;
+                const parent = open[depth - 1];
+                if (parent && !parent.itemOpen) {
+                    html += '<li style="list-style: none">';
+                    parent.itemOpen = true;
+                }
+                const listLevelInfo = depth === ilvl ? level : listLevel(numId, depth) || level;
+                const tag = listLevelInfo.ordered ? 'ol' : 'ul';
+                const key = `${numId}:${depth}`;
+                const start = listLevelInfo.start + (counters.get(key) || 0);
+                html += `<${tag}${tag === 'ol' && start !== 1 ? ` start="${start}"` : ''} style="list-style-type: ${listLevelInfo.listStyleType}">`;
+                open.push({ numId, tag, listStyleType: listLevelInfo.listStyleType, itemOpen: false });
+            }
+            const list = open[ilvl];
+            if (list.itemOpen) html += '</li>';
+            html += `<li${styleAttr(block.list.css)}>${block.list.inner}`;
+            list.itemOpen = true;
+            const key = `${numId}:${ilvl}`;
+            counters.set(key, (counters.get(key) || 0) + 1);
+            // Word restarts deeper levels after an item of a shallower one
+            for (let deeper = ilvl + 1; deeper < 9; deeper++) counters.delete(`${numId}:${deeper}`);
+        });
+        closeTo(0);
+        return html;
+    };
+
+    // --- Sections, page setup, headers and footers ---
+
+    const blocks = convertBlocks(body);
+    const bodySection = firstChild(body, 'sectPr');
+    const sections = [...blocks.filter(block => block.sectionEnd).map(block => block.sectionEnd!), ...(bodySection ? [bodySection] : [])];
+    const firstSection = sections[0] || null;
+
+    const pgSz = firstChild(firstSection, 'pgSz');
+    const pgMar = firstChild(firstSection, 'pgMar');
+    const pageWidth = wNumber(pgSz, 'w');
+    const pageHeight = wNumber(pgSz, 'h');
+    const pageSize = pageWidth && pageHeight ? { width: `${inches(pageWidth)}in`, height: `${inches(pageHeight)}in` } : null;
+    const margins = pgMar ? {
+        top: inches(Math.abs(wNumber(pgMar, 'top') || 0)),
+        bottom: inches(Math.abs(wNumber(pgMar, 'bottom') || 0)),
+        left: inches((wNumber(pgMar, 'left') || 0) + (wNumber(pgMar, 'gutter') || 0)),
+        right: inches(wNumber(pgMar, 'right') || 0)
+    } : null;
+
+    // The first section whose header or footer carries a PAGE field starts the page numbers
+    let pageNumbers: ImportedPageNumbers | null = null;
+    let numberedSection = -1;
+    let droppedHeaderText = false;
+    const inherited: Record<'header' | 'footer', string | null> = { header: null, footer: null };
+    sections.forEach((section, sectionIndex) => {
+        (['header', 'footer'] as const).forEach(kind => {
+            const reference = elementChildren(section, `${kind}Reference`).find(ref => wAttr(ref, 'type') === 'default');
+            const relId = reference ? reference.getAttributeNS(NS_R, 'id') || reference.getAttribute('r:id') : null;
+            if (relId) inherited[kind] = relId;
+            const rel = inherited[kind] ? relationships.get(inherited[kind]!) : undefined;
+            const part = rel ? parse(packagePath('word', rel.target)) : null;
+            if (!part) return;
+            const instructions = [
+                ...Array.from(part.getElementsByTagNameNS(NS_W, 'instrText')).map(el => el.textContent || ''),
+                ...Array.from(part.getElementsByTagNameNS(NS_W, 'fldSimple')).map(el => wAttr(el, 'instr') || '')
+            ];
+            const hasPageField = instructions.some(text => /^\s*PAGE\b/i.test(text));
+            const visibleText = Array.from(part.getElementsByTagNameNS(NS_W, 't')).map(el => el.textContent || '').join('').replace(/[\d\s]/g, '');
+            if (visibleText) droppedHeaderText = true;
+            if (!hasPageField || pageNumbers) return;
+
+            const fieldParagraph = Array.from(part.getElementsByTagNameNS(NS_W, 'p')).find(p => (
+                Array.from(p.getElementsByTagNameNS(NS_W, 'instrText')).some(el => /^\s*PAGE\b/i.test(el.textContent || ''))
+                || Array.from(p.getElementsByTagNameNS(NS_W, 'fldSimple')).some(el => /^\s*PAGE\b/i.test(wAttr(el, 'instr') || ''))
+            ));
+            const pPr = firstChild(fieldParagraph, 'pPr');
+            const style = styles.paragraphStyle(wAttr(firstChild(pPr, 'pStyle'), 'val'));
+            const align = merge(style.paragraph, styles.readParagraph(pPr)).align;
+            const firstRun = fieldParagraph?.getElementsByTagNameNS(NS_W, 'r')[0];
+            const run = merge(styles.defaults.run, style.run, styles.readRun(firstChild(firstRun, 'rPr')));
+            const distance = wNumber(firstChild(section, 'pgMar'), kind) ?? 720;
+            numberedSection = sectionIndex;
+            pageNumbers = {
+                startAnchorId: 'DOC_START',
+                font: fontStack(run.font || 'Calibri'),
+                fontSize: String(run.size || 10),
+                position: kind === 'header' ? 'top' : 'bottom',
+                align: align === 'center' ? 'center' : align === 'right' ? 'right' : 'left',
+                margin: inches(distance)
+            };
+        });
+    });
+    if (droppedHeaderText) warnings.push('Header and footer text other than page numbers was not imported.');
+    if (missingImages > 0) warnings.push(`${missingImages} image${missingImages === 1 ? '' : 's'} could not be read from the document.`);
+
+    // --- Assemble the pages ---
+
+    const pages: string[] = [];
+    let current: Block[] = [];
+    let sectionIndex = 0;
+    let startAnchorId: string | null = null;
+    const flush = () => {
+        pages.push(renderBlocks(current));
+        current = [];
+    };
+    blocks.forEach(block => {
+        if (block.pageBreakBefore && (current.length > 0 || pages.length > 0)) flush();
+        if (sectionIndex === numberedSection && numberedSection > 0 && startAnchorId === null) {
+            const idMatch = block.html.match(/^<\w+[^>]*\sid="([^"]+)"/);
+            startAnchorId = idMatch ? idMatch[1] : `docx-section-${sectionIndex + 1}`;
+            if (!idMatch) {
+                block.html = block.html.replace(/^<(\w+)/, `<$1 id="${startAnchorId}"`);
+                if (block.list) block.list.inner = `<a id="${startAnchorId}"></a>${block.list.inner}`;
+            }
+        }
+        current.push(block);
+        if (block.sectionEnd) {
+            sectionIndex++;
+            // The next section says how it starts; only continuous sections share a page
+            const nextType = wAttr(firstChild(sections[sectionIndex], 'type'), 'val') || 'nextPage';
+            if (nextType !== 'continuous') flush();
+        }
+    });
+    if (current.length > 0 || pages.length === 0) flush();
+    if (pageNumbers && startAnchorId) (pageNumbers as ImportedPageNumbers).startAnchorId = startAnchorId;
+
+    const html = pages.map((content, index) => `${index === 0 ? '<div class="page">' : pageBreakPage}${content}</div>`).join('');
+
+    // Stylesheet: Normal for body text, Heading 1-6 for headings
+    const normal = styles.paragraphStyle(styles.defaultParagraphId);
+    const normalRun = merge(styles.defaults.run, normal.run);
+    const normalCss = { ...runCss(normalRun), ...paragraphCss(merge(styles.defaults.paragraph, normal.paragraph), true) };
+    const headingStyles: ImportedHeadingStyles = { p: normalCss };
+    const rules = [`p, li, td, th { ${Object.entries(normalCss).map(([key, value]) => `${key}: ${value};`).join(' ')} }`];
+    for (let level = 1; level <= 6; level++) {
+        const id = Array.from(documentXml.getElementsByTagNameNS(NS_W, 'pStyle'))
+            .map(el => wAttr(el, 'val') || '')
+            .find(candidate => new RegExp(`^heading\\s*${level}$`, 'i').test(styles.resolve(candidate).name));
+        if (!id) continue;
+        const resolved = styles.resolve(id);
+        const record = headingRecord({ ...resolved, run: merge(styles.defaults.run, resolved.run) });
+        if (level <= 3) headingStyles[`h${level}` as 'h1'] = record;
+        rules.push(`h${level} { ${Object.entries(record).map(([key, value]) => `${key}: ${value};`).join(' ')} }`);
+    }
+
+    return {
+        html,
+        css: rules.join('\n'),
+        pageSize,
+        margins,
+        mirrored,
+        headingStyles,
+        pageNumbers,
+        warnings
+    };
+};
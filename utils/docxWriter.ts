@@ -0,0 +1,1347 @@
+// utils/docxWriter.ts
+//
+// Native DOCX export: walks the paginated workspace and writes real WordprocessingML instead
+// of HTML or screenshots. Headings map to Heading 1-6 styles, lists to numbering.xml, tables
+// to Word tables (spans, borders, shading), boxed blocks (.mission-box, .shape-rectangle) to
+// paragraph borders, round shapes to DrawingML shapes with text boxes, text layers and
+// absolutely placed images to page-anchored objects, TOC rows to tab-leader paragraphs with
+// PAGEREF fields. Page size, margins and page numbers come from the active page setup.
+//
+// Word paginates on its own: only user page breaks (and the sections that start each page
+// numbering section) become hard breaks, and paragraphs the paginator split across pages are
+// joined.
+
+import { createZip, ZipEntry } from './zip';
+import { escapeXml } from './xml';
+import { loadUrlBytes } from './dataUrl';
+import { isSplitContinuation } from './pagination';
+import { DEFAULT_PAGE_NUMBER_FORMAT, FIELD_TEMPLATE_ATTRIBUTE, formatFieldDate, splitPageFields } from './pageFields';
+import { formatPageNumber, PageNumber } from './pageNumbering';
+import { PageNumberStyle } from '../types';
+
+export interface DocxPageSetup {
+    width: number; // trim size in inches
+    height: number;
+    margins: { top: number; bottom: number; left: number; right: number }; // inches; left is the gutter when mirrored
+    mirrored?: boolean;
+    bleed?: number; // inches; on screen only, removed from anchored object positions
+}
+
+export interface DocxWriteOptions {
+    title: string;
+    page: DocxPageSetup;
+    keepHeadingsWithNext?: boolean;
+    pageNumbers?: PageNumber[]; // numbering of every page; read from the page numbers when absent
+}
+
+const APP_NAME = 'Instant Writer Pro';
+
+// Editor chrome that may sit inside a page but is never part of the document
+const SKIP_SELECTOR = '.image-overlay, .resize-handle, .drag-handle, .text-mode-badge, .marquee, .context-menu, .page-ruler, .margin-guides, .toc-actions, .page-footer, .master-layer';
+
+const FLOW_SHAPES: Record<string, string> = {
+    'shape-circle': 'ellipse',
+    'shape-pill': 'roundRect',
+    'shape-speech': 'wedgeRoundRectCallout',
+    'shape-cloud': 'cloud'
+};
+
+const BOX_CLASSES = ['mission-box', 'shape-rectangle'];
+
+const GENERIC_FONTS: Record<string, string> = {
+    serif: 'Times New Roman',
+    'sans-serif': 'Arial',
+    monospace: 'Courier New',
+    cursive: 'Comic Sans MS',
+    fantasy: 'Impact',
+    'system-ui': 'Segoe UI'
+};
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const DOCUMENT_NAMESPACES = `xmlns:w="${NS_W}" xmlns:r="${NS_R}"`
+    + ' xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"'
+    + ' xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+    + ' xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"'
+    + ' xmlns:wps="http://schemas.microsoft.com/office/word/2010/wordprocessingShape"'
+    + ' xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006"';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// --- Units and values ---
+
+const twips = (px: number) => Math.round(px * 15);
+const emu = (px: number) => Math.max(0, Math.round(px * 9525));
+const halfPoints = (px: number) => Math.max(2, Math.round(px * 1.5));
+const inchTwips = (inches: number) => Math.round(inches * 1440);
+
+const toHex = (value: string): string | null => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+    if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+    if (parts.length > 3 && parts[3] === 0) return null;
+    return parts.slice(0, 3).map(part => Math.round(part).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+const primaryFont = (fontFamily: string) => {
+    const first = (fontFamily.split(',')[0] || '').replace(/['"]/g, '').trim();
+    return GENERIC_FONTS[first.toLowerCase()] || first || 'Arial';
+};
+
+const BORDER_STYLES: Record<string, string> = {
+    solid: 'single', dashed: 'dashed', dotted: 'dotted', double: 'double',
+    groove: 'threeDEngrave', ridge: 'threeDEmboss', inset: 'inset', outset: 'outset'
+};
+
+// One side of a CSS border as a WordprocessingML border element (w:top, w:left, ...).
+const borderXml = (tag: string, style: CSSStyleDeclaration, side: 'top' | 'right' | 'bottom' | 'left', spacePx = 0) => {
+    const width = parseFloat(style.getPropertyValue(`border-${side}-width`)) || 0;
+    const lineStyle = BORDER_STYLES[style.getPropertyValue(`border-${side}-style`)];
+    const color = toHex(style.getPropertyValue(`border-${side}-color`));
+    if (width <= 0 || !lineStyle || !color) return '';
+    // Border size is in eighths of a point (2-96), spacing in points (0-31)
+    const size = Math.min(96, Math.max(2, Math.round(width * 6)));
+    const space = Math.min(31, Math.round(spacePx * 0.75));
+    return `<w:${tag} w:val="${lineStyle}" w:sz="${size}" w:space="${space}" w:color="${color}"/>`;
+};
+
+// --- Packaging ---
+
+interface Relationship {
+    id: string;
+    type: string;
+    target: string;
+    external?: boolean;
+}
+
+interface MediaFile {
+    path: string;
+    data: Uint8Array;
+}
+
+const detectImageType = (bytes: Uint8Array): 'png' | 'jpeg' | 'gif' | null => {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+    if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'gif';
+    return null;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Uint8Array | null>(resolve => {
+    try {
+        canvas.toBlob(async blob => resolve(blob ? new Uint8Array(await blob.arrayBuffer()) : null), 'image/png');
+    } catch {
+        resolve(null); // tainted by a cross-origin image
+    }
+});
+
+const svgToPng = async (svg: SVGSVGElement, width: number, height: number): Promise<Uint8Array | null> => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    const image = new Image();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve();
+            image.onerror = () => reject(new Error('SVG could not be rendered'));
+            image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+        });
+    } catch {
+        return null;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * 3));
+    canvas.height = Math.max(1, Math.round(height * 3));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvasToPng(canvas);
+};
+
+// --- Paragraph and run properties ---
+
+interface ParagraphProps {
+    style?: string;
+    keepNext?: boolean;
+    pageBreakBefore?: boolean;
+    numPr?: string;
+    borders?: string; // contents of w:pBdr
+    shading?: string;
+    tabs?: string;
+    spacing?: string;
+    indent?: string;
+    align?: string;
+    sectPr?: string;
+}
+
+// Children of w:pPr must follow the schema order.
+const paragraphPropsXml = (props: ParagraphProps) => {
+    const parts = [
+        props.style ? `<w:pStyle w:val="${props.style}"/>` : '',
+        props.keepNext ? '<w:keepNext/>' : '',
+        props.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+        props.numPr || '',
+        props.borders ? `<w:pBdr>${props.borders}</w:pBdr>` : '',
+        props.shading || '',
+        props.tabs ? `<w:tabs>${props.tabs}</w:tabs>` : '',
+        props.spacing || '',
+        props.indent || '',
+        props.align ? `<w:jc w:val="${props.align}"/>` : '',
+        props.sectPr || ''
+    ].join('');
+    return parts ? `<w:pPr>${parts}</w:pPr>` : '';
+};
+
+const ALIGNMENTS: Record<string, string> = { center: 'center', right: 'right', end: 'right', justify: 'both', '-webkit-center': 'center' };
+
+interface RunItem {
+    kind: 'text' | 'break' | 'xml';
+    text?: string;
+    xml?: string;
+    rPr: string;
+    link: string | null; // opening w:hyperlink attributes
+    preserve?: boolean; // white-space: pre / pre-wrap
+}
+
+interface ParagraphBlock {
+    kind: 'p';
+    props: ParagraphProps;
+    items: RunItem[];
+    source: HTMLElement | null;
+    bookmark?: string;
+}
+
+interface RawBlock {
+    kind: 'raw';
+    xml: string;
+}
+
+type Block = ParagraphBlock | RawBlock;
+
+interface Frame {
+    left: number; // page-relative px of the text column
+    right: number;
+}
+
+interface WalkContext {
+    page: HTMLElement;
+    pageIndex: number;
+    frame: Frame;
+    boxBorders: string | null; // pBdr contents inherited from a boxed container
+    boxShading: string | null;
+    listLevel: number;
+    numPr: string | null; // claimed by the next paragraph (the first line of a list item)
+    inTextBox: boolean;
+}
+
+const createDocxWriter = (workspace: HTMLElement, options: DocxWriteOptions) => {
+    const relationships: Relationship[] = [];
+    const media: MediaFile[] = [];
+    const mediaBySource = new Map<string, string | null>();
+    const abstractNums: string[] = [];
+    const abstractByFormat = new Map<string, number>();
+    const nums: string[] = [];
+    const bookmarks = new Map<string, string>();
+    const runPropsCache = new Map<Element, string>();
+    const pendingAnchors: string[] = [];
+    let nextBookmarkId = 0;
+    let nextDrawingId = 1;
+
+    const addRelationship = (type: string, target: string, external = false) => {
+        const id = `rId${relationships.length + 1}`;
+        relationships.push({ id, type: `${REL_TYPE}/${type}`, target, external });
+        return id;
+    };
+
+    // Every element some link points at gets a bookmark
+    workspace.querySelectorAll('a[href^="#"], tr[data-toc-target]').forEach(el => {
+        const id = el.getAttribute('data-toc-target') || decodeURIComponent((el.getAttribute('href') || '').slice(1));
+        if (id && !bookmarks.has(id)) bookmarks.set(id, `_Ref${bookmarks.size + 1}`);
+    });
+
+    // --- Geometry ---
+
+    const pageOrigin = (page: HTMLElement) => {
+        const rect = page.getBoundingClientRect();
+        return { rect, scale: rect.width / page.offsetWidth || 1 };
+    };
+
+    // Headless runs (batch export in jsdom) have no layout: use the sizes the markup declares,
+    // with the page's content width for anything that does not declare one.
+    const declaredRect = (el: HTMLElement) => {
+        const { width, margins } = options.page;
+        const contentWidth = (width - margins.left - margins.right) * 96;
+        const px = (value: string, attribute: string | null) => (
+            value.trim().endsWith('px') ? parseFloat(value) : Number(attribute) || 0
+        );
+        const declaredWidth = px(el.style.width, el.getAttribute('width'));
+        const declaredHeight = px(el.style.height, el.getAttribute('height'));
+        // Images without a declared or natural size get a 4:3 box rather than none
+        const isImage = el instanceof HTMLImageElement;
+        const ratio = isImage ? (el.naturalWidth ? el.naturalHeight / el.naturalWidth : 0.75) : 0;
+        const boxWidth = Math.min(declaredWidth || contentWidth, contentWidth);
+        return {
+            left: px(el.style.left, null),
+            top: px(el.style.top, null),
+            width: boxWidth,
+            height: declaredHeight || (ratio ? boxWidth * ratio : 0)
+        };
+    };
+
+    const relativeRect = (el: Element, ctx: WalkContext) => {
+        const { rect: origin, scale } = pageOrigin(ctx.page);
+        const rect = el.getBoundingClientRect();
+        if (origin.width === 0 && origin.height === 0) return declaredRect(el as HTMLElement);
+        return {
+            left: (rect.left - origin.left) / scale,
+            top: (rect.top - origin.top) / scale,
+            width: rect.width / scale,
+            height: rect.height / scale
+        };
+    };
+
+    const contentFrame = (el: HTMLElement, ctx: WalkContext): Frame => {
+        const style = window.getComputedStyle(el);
+        const box = relativeRect(el, ctx);
+        return {
+            left: box.left + (parseFloat(style.borderLeftWidth) || 0) + (parseFloat(style.paddingLeft) || 0),
+            right: box.left + box.width - (parseFloat(style.borderRightWidth) || 0) - (parseFloat(style.paddingRight) || 0)
+        };
+    };
+
+    // --- Numbering ---
+
+    const LIST_FORMATS: Record<string, { numFmt: string; text: (level: number) => string }> = {
+        disc: { numFmt: 'bullet', text: () => '•' },
+        circle: { numFmt: 'bullet', text: () => '◦' },
+        square: { numFmt: 'bullet', text: () => '▪' },
+        none: { numFmt: 'none', text: () => '' },
+        decimal: { numFmt: 'decimal', text: level => `%${level + 1}.` },
+        'decimal-leading-zero': { numFmt: 'decimalZero', text: level => `%${level + 1}.` },
+        'lower-alpha': { numFmt: 'lowerLetter', text: level => `%${level + 1}.` },
+        'lower-latin': { numFmt: 'lowerLetter', text: level => `%${level + 1}.` },
+        'upper-alpha': { numFmt: 'upperLetter', text: level => `%${level + 1}.` },
+        'upper-latin': { numFmt: 'upperLetter', text: level => `%${level + 1}.` },
+        'lower-roman': { numFmt: 'lowerRoman', text: level => `%${level + 1}.` },
+        'upper-roman': { numFmt: 'upperRoman', text: level => `%${level + 1}.` }
+    };
+
+    const createNum = (listStyleType: string, level: number, start: number) => {
+        const formatKey = LIST_FORMATS[listStyleType] ? listStyleType : 'disc';
+        let abstractId = abstractByFormat.get(formatKey);
+        if (abstractId === undefined) {
+            abstractId = abstractNums.length;
+            abstractByFormat.set(formatKey, abstractId);
+            const format = LIST_FORMATS[formatKey];
+            const levels = Array.from({ length: 9 }, (_, ilvl) => `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/>`
+                + `<w:numFmt w:val="${format.numFmt}"/><w:lvlText w:val="${escapeXml(format.text(ilvl))}"/><w:lvlJc w:val="left"/>`
+                + `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`).join('');
+            abstractNums.push(`<w:abstractNum w:abstractNumId="${abstractId}"><w:multiLevelType w:val="multilevel"/>${levels}</w:abstractNum>`);
+        }
+        const numId = nums.length + 1;
+        // Each list restarts its own count, like separate <ol> elements do
+        nums.push(`<w:num w:numId="${numId}"><w:abstractNumId w:val="${abstractId}"/>`
+            + `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`);
+        return numId;
+    };
+
+    // --- Runs ---
+
+    const runProps = (el: Element, block: Element): string => {
+        const cached = runPropsCache.get(el);
+        if (cached !== undefined) return cached;
+        const style = window.getComputedStyle(el);
+        const font = escapeXml(primaryFont(style.fontFamily));
+        const bold = (parseInt(style.fontWeight, 10) || 400) >= 600;
+        const italic = style.fontStyle === 'italic' || style.fontStyle.startsWith('oblique');
+        const color = toHex(style.color);
+        const letterSpacing = parseFloat(style.letterSpacing) || 0;
+        const size = halfPoints(parseFloat(style.fontSize) || 16);
+
+        // Decorations, highlights and inline boxes (span shapes) come from ancestors up to the block
+        const decorations = new Set<string>();
+        let shading: string | null = null;
+        let border = '';
+        for (let node: Element | null = el; node; node = node.parentElement) {
+            const nodeStyle = node === el ? style : window.getComputedStyle(node);
+            nodeStyle.textDecorationLine.split(' ').forEach(line => decorations.add(line));
+            if (node === block) break;
+            if (!shading) {
+                const fill = toHex(nodeStyle.backgroundColor);
+                if (fill) shading = `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>`;
+            }
+            if (!border) border = borderXml('bdr', nodeStyle, 'top', parseFloat(nodeStyle.paddingLeft) || 0);
+        }
+
+        const verticalAlign = style.verticalAlign === 'super' ? 'superscript' : style.verticalAlign === 'sub' ? 'subscript' : null;
+        const rPr = [
+            `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/>`,
+            bold ? '<w:b/><w:bCs/>' : '',
+            italic ? '<w:i/><w:iCs/>' : '',
+            style.textTransform === 'uppercase' ? '<w:caps/>' : '',
+            style.fontVariant.includes('small-caps') ? '<w:smallCaps/>' : '',
+            decorations.has('line-through') ? '<w:strike/>' : '',
+            color ? `<w:color w:val="${color}"/>` : '',
+            letterSpacing ? `<w:spacing w:val="${twips(letterSpacing)}"/>` : '',
+            `<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`,
+            decorations.has('underline') ? '<w:u w:val="single"/>' : '',
+            border,
+            shading || '',
+            verticalAlign ? `<w:vertAlign w:val="${verticalAlign}"/>` : ''
+        ].join('');
+        runPropsCache.set(el, rPr);
+        return rPr;
+    };
+
+    const textRun = (text: string, rPr: string, preserve = false) => {
+        const props = rPr ? `<w:rPr>${rPr}</w:rPr>` : '';
+        if (!preserve) return `<w:r>${props}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+        const body = text.split('\n').map(line => line.split('\t')
+            .map(part => (part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ''))
+            .join('<w:tab/>')).join('<w:br/>');
+        return `<w:r>${props}${body}</w:r>`;
+    };
+
+    const fieldRuns = (instruction: string, cached: string, rPr: string) => {
+        const props = rPr ? `<w:rPr>${rPr}</w:rPr>` : '';
+        return `<w:r>${props}<w:fldChar w:fldCharType="begin"/></w:r>`
+            + `<w:r>${props}<w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>`
+            + `<w:r>${props}<w:fldChar w:fldCharType="separate"/></w:r>`
+            + textRun(cached, rPr)
+            + `<w:r>${props}<w:fldChar w:fldCharType="end"/></w:r>`;
+    };
+
+    // Collapses white space the way CSS does for normal text and trims the paragraph ends.
+    const normalizeItems = (items: RunItem[]) => {
+        let previousEndsWithSpace = true;
+        items.forEach(item => {
+            if (item.kind === 'break') {
+                previousEndsWithSpace = true;
+                return;
+            }
+            if (item.kind !== 'text' || item.preserve) {
+                previousEndsWithSpace = false;
+                return;
+            }
+            let text = (item.text || '').replace(/[ \t\n\r]+/g, ' ');
+            if (previousEndsWithSpace) text = text.replace(/^ /, '');
+            item.text = text;
+            if (text) previousEndsWithSpace = text.endsWith(' ');
+        });
+        for (let i = items.length - 1; i >= 0; i--) {
+            const item = items[i];
+            if (item.kind !== 'text' || item.preserve) break;
+            item.text = (item.text || '').replace(/ $/, '');
+            if (item.text) break;
+        }
+        return items.filter(item => item.kind !== 'text' || item.text);
+    };
+
+    const runsXml = (items: RunItem[], baseRPr: string) => {
+        let out = '';
+        let openLink: string | null = null;
+        let pending: { text: string; rPr: string; preserve: boolean } | null = null;
+        const flushText = () => {
+            if (pending) out += textRun(pending.text, pending.rPr === baseRPr ? '' : pending.rPr, pending.preserve);
+            pending = null;
+        };
+        items.forEach(item => {
+            if (item.link !== openLink) {
+                flushText();
+                if (openLink) out += '</w:hyperlink>';
+                if (item.link) out += `<w:hyperlink ${item.link}>`;
+                openLink = item.link;
+            }
+            if (item.kind === 'text') {
+                const preserve = Boolean(item.preserve);
+                if (pending && pending.rPr === item.rPr && pending.preserve === preserve) {
+                    pending.text += item.text;
+                } else {
+                    flushText();
+                    pending = { text: item.text || '', rPr: item.rPr, preserve };
+                }
+                return;
+            }
+            flushText();
+            out += item.kind === 'break' ? '<w:r><w:br/></w:r>' : item.xml;
+        });
+        flushText();
+        if (openLink) out += '</w:hyperlink>';
+        return out;
+    };
+
+    // --- Images and drawings ---
+
+    const addMedia = async (key: string, load: () => Promise<{ data: Uint8Array; ext: string } | null>) => {
+        if (mediaBySource.has(key)) return mediaBySource.get(key) || null;
+        const file = await load();
+        let relId: string | null = null;
+        if (file) {
+            const path = `media/image${media.length + 1}.${file.ext}`;
+            media.push({ path, data: file.data });
+            relId = addRelationship('image', path);
+        }
+        mediaBySource.set(key, relId);
+        return relId;
+    };
+
+    const imageRelationship = (img: HTMLImageElement) => {
+        const src = img.currentSrc || img.src;
+        const filter = window.getComputedStyle(img).filter;
+        const hasFilter = Boolean(filter) && filter !== 'none';
+        return addMedia(`${src}|${hasFilter ? filter : ''}`, async () => {
+            if (!hasFilter) {
+                const bytes = await loadUrlBytes(src);
+                const type = bytes ? detectImageType(bytes) : null;
+                if (bytes && type) return { data: bytes, ext: type };
+            }
+            // Other formats, and images with brightness/contrast filters, are baked into a PNG
+            if (!img.naturalWidth) return null;
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const context = canvas.getContext('2d');
+            if (!context) return null;
+            if (hasFilter) context.filter = filter;
+            context.drawImage(img, 0, 0);
+            const png = await canvasToPng(canvas);
+            return png ? { data: png, ext: 'png' } : null;
+        });
+    };
+
+    const pictureGraphic = (relId: string, width: number, height: number, id: number, description: string) => (
+        '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>'
+        + `<pic:nvPicPr><pic:cNvPr id="${id}" name="Picture ${id}" descr="${escapeXml(description)}"/><pic:cNvPicPr/></pic:nvPicPr>`
+        + `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${emu(width)}" cy="${emu(height)}"/></a:xfrm>`
+        + '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic>'
+    );
+
+    const inlineDrawing = (graphic: string, width: number, height: number, id: number, name: string) => (
+        `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${emu(width)}" cy="${emu(height)}"/>`
+        + `<wp:effectExtent l="0" t="0" r="0" b="0"/><wp:docPr id="${id}" name="${name} ${id}"/>`
+        + `<wp:cNvGraphicFramePr/>${graphic}</wp:inline></w:drawing></w:r>`
+    );
+
+    // Absolutely placed objects keep their position on the page (trim box, bleed removed).
+    const anchoredDrawing = (graphic: string, box: { left: number; top: number; width: number; height: number }, id: number, name: string, ctx: WalkContext, behind: boolean) => {
+        const bleedPx = (options.page.bleed || 0) * 96;
+        const trimLeft = ctx.pageIndex % 2 === 1 ? bleedPx : 0;
+        return `<w:r><w:drawing><wp:anchor distT="0" distB="0" distL="0" distR="0" simplePos="0" relativeHeight="${id + 2}" behindDoc="${behind ? 1 : 0}" locked="0" layoutInCell="1" allowOverlap="1">`
+            + '<wp:simplePos x="0" y="0"/>'
+            + `<wp:positionH relativeFrom="page"><wp:posOffset>${Math.round((box.left - trimLeft) * 9525)}</wp:posOffset></wp:positionH>`
+            + `<wp:positionV relativeFrom="page"><wp:posOffset>${Math.round((box.top - bleedPx) * 9525)}</wp:posOffset></wp:positionV>`
+            + `<wp:extent cx="${emu(box.width)}" cy="${emu(box.height)}"/><wp:effectExtent l="0" t="0" r="0" b="0"/><wp:wrapNone/>`
+            + `<wp:docPr id="${id}" name="${name} ${id}"/><wp:cNvGraphicFramePr/>${graphic}</wp:anchor></w:drawing></w:r>`;
+    };
+
+    const shapeGraphic = (el: HTMLElement, geometry: string, width: number, height: number, content: string, isTextBox: boolean) => {
+        const style = window.getComputedStyle(el);
+        const fill = toHex(style.backgroundColor);
+        const lineColor = toHex(style.borderTopColor);
+        const lineWidth = style.borderTopStyle !== 'none' ? parseFloat(style.borderTopWidth) || 0 : 0;
+        const adjust = geometry === 'roundRect' ? '<a:gd name="adj" fmla="val 50000"/>' : '';
+        const inset = (side: 'Top' | 'Right' | 'Bottom' | 'Left') => emu(parseFloat(style.getPropertyValue(`padding-${side.toLowerCase()}`)) || 0);
+        const anchor = style.alignItems === 'center' || geometry !== 'rect' ? 'ctr' : 't';
+        return '<a:graphic><a:graphicData uri="http://schemas.microsoft.com/office/word/2010/wordprocessingShape"><wps:wsp>'
+            + `<wps:cNvSpPr${isTextBox ? ' txBox="1"' : ''}/>`
+            + `<wps:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${emu(width)}" cy="${emu(height)}"/></a:xfrm>`
+            + `<a:prstGeom prst="${geometry}"><a:avLst>${adjust}</a:avLst></a:prstGeom>`
+            + (fill ? `<a:solidFill><a:srgbClr val="${fill}"/></a:solidFill>` : '<a:noFill/>')
+            + (lineWidth > 0 && lineColor ? `<a:ln w="${emu(lineWidth)}"><a:solidFill><a:srgbClr val="${lineColor}"/></a:solidFill></a:ln>` : '<a:ln><a:noFill/></a:ln>')
+            + `</wps:spPr><wps:txbx><w:txbxContent>${content || '<w:p/>'}</w:txbxContent></wps:txbx>`
+            + `<wps:bodyPr rot="0" vert="horz" wrap="square" lIns="${inset('Left')}" tIns="${inset('Top')}" rIns="${inset('Right')}" bIns="${inset('Bottom')}" anchor="${anchor}"><a:noAutofit/></wps:bodyPr>`
+            + '</wps:wsp></a:graphicData></a:graphic>';
+    };
+
+    // DrawingML shapes are Word 2010+; older readers skip them instead of failing
+    const requiresShapes = (run: string) => `<w:r><mc:AlternateContent><mc:Choice Requires="wps">${run.replace(/^<w:r>|<\/w:r>$/g, '')}</mc:Choice></mc:AlternateContent></w:r>`;
+
+    // --- Blocks ---
+
+    const paragraphStyleFor = (el: HTMLElement) => {
+        const match = el.tagName.match(/^H([1-6])$/);
+        return match ? `Heading${match[1]}` : undefined;
+    };
+
+    const blockProps = (el: HTMLElement, ctx: WalkContext, withSpacing: boolean): ParagraphProps => {
+        const style = window.getComputedStyle(el);
+        const frame = contentFrame(el, ctx);
+        const left = Math.max(0, frame.left - ctx.frame.left);
+        const right = Math.max(0, ctx.frame.right - frame.right);
+        const textIndent = parseFloat(style.textIndent) || 0;
+        let indent = '';
+        if (left || right || textIndent) {
+            indent = `<w:ind w:left="${twips(left)}" w:right="${twips(right)}"`
+                + `${textIndent > 0 ? ` w:firstLine="${twips(textIndent)}"` : textIndent < 0 ? ` w:hanging="${twips(-textIndent)}"` : ''}/>`;
+        }
+
+        const spacingParts: string[] = [];
+        if (withSpacing) {
+            spacingParts.push(`w:before="${twips(parseFloat(style.marginTop) || 0)}"`, `w:after="${twips(parseFloat(style.marginBottom) || 0)}"`);
+        }
+        const lineHeight = parseFloat(style.lineHeight);
+        if (!Number.isNaN(lineHeight)) spacingParts.push(`w:line="${twips(lineHeight)}" w:lineRule="atLeast"`);
+
+        const ownBorders = ['top', 'left', 'bottom', 'right']
+            .map(side => borderXml(side, style, side as 'top' | 'left' | 'bottom' | 'right', parseFloat(style.getPropertyValue(`padding-${side}`)) || 0))
+            .join('');
+        const ownFill = toHex(style.backgroundColor);
+
+        return {
+            style: paragraphStyleFor(el),
+            keepNext: style.breakAfter === 'avoid' || style.pageBreakAfter === 'avoid',
+            pageBreakBefore: style.breakBefore === 'page' || style.pageBreakBefore === 'always',
+            borders: ownBorders || ctx.boxBorders || undefined,
+            shading: ownFill ? `<w:shd w:val="clear" w:color="auto" w:fill="${ownFill}"/>` : ctx.boxShading || undefined,
+            spacing: spacingParts.length > 0 ? `<w:spacing ${spacingParts.join(' ')}/>` : undefined,
+            indent: indent || undefined,
+            align: ALIGNMENTS[style.textAlign]
+        };
+    };
+
+    const claimAnchors = (): RunItem[] => pendingAnchors.splice(0).map(xml => ({ kind: 'xml', xml, rPr: '', link: null }));
+
+    const collectInline = async (node: Node, block: HTMLElement, ctx: WalkContext, items: RunItem[], link: string | null): Promise<void> => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            const parent = node.parentElement;
+            if (!parent) return;
+            const whiteSpace = window.getComputedStyle(parent).whiteSpace;
+            items.push({ kind: 'text', text: (node as Text).data, rPr: runProps(parent, block), link, preserve: whiteSpace.startsWith('pre') || whiteSpace === 'break-spaces' });
+            return;
+        }
+        if (!(node instanceof Element) || node.matches(SKIP_SELECTOR)) return;
+        const style = window.getComputedStyle(node);
+        if (style.display === 'none') return;
+
+        if (node instanceof HTMLElement && (style.position === 'absolute' || style.position === 'fixed')) {
+            await addFloating(node, ctx);
+            return;
+        }
+        if (node.tagName === 'BR') {
+            items.push({ kind: 'break', rPr: '', link });
+            return;
+        }
+        if (node instanceof HTMLImageElement || node instanceof SVGSVGElement || node instanceof HTMLCanvasElement) {
+            const xml = await pictureRun(node, ctx);
+            if (xml) items.push({ kind: 'xml', xml, rPr: '', link });
+            return;
+        }
+        if (node instanceof HTMLTextAreaElement || node instanceof HTMLInputElement) {
+            items.push({ kind: 'text', text: node.value, rPr: runProps(node, block), link, preserve: true });
+            return;
+        }
+
+        let childLink = link;
+        if (node instanceof HTMLAnchorElement && node.hasAttribute('href')) {
+            const href = node.getAttribute('href') || '';
+            const bookmark = href.startsWith('#') ? bookmarks.get(decodeURIComponent(href.slice(1))) : undefined;
+            if (bookmark) childLink = `w:anchor="${bookmark}" w:history="1"`;
+            else if (/^(https?:|mailto:)/i.test(href)) childLink = `r:id="${addRelationship('hyperlink', escapeXml(node.href), true)}" w:history="1"`;
+        }
+
+        const bookmark = node.id && node !== block ? bookmarks.get(node.id) : undefined;
+        const bookmarkId = bookmark ? nextBookmarkId++ : -1;
+        if (bookmark) items.push({ kind: 'xml', xml: `<w:bookmarkStart w:id="${bookmarkId}" w:name="${bookmark}"/>`, rPr: '', link: null });
+        for (const child of Array.from(node.childNodes)) await collectInline(child, block, ctx, items, childLink);
+        if (bookmark) items.push({ kind: 'xml', xml: `<w:bookmarkEnd w:id="${bookmarkId}"/>`, rPr: '', link: null });
+    };
+
+    const pictureRun = async (el: HTMLImageElement | SVGSVGElement | HTMLCanvasElement, ctx: WalkContext, anchored = false): Promise<string | null> => {
+        const box = relativeRect(el, ctx);
+        if (box.width <= 0 || box.height <= 0) return null;
+        let relId: string | null = null;
+        let description = '';
+        if (el instanceof HTMLImageElement) {
+            relId = await imageRelationship(el);
+            description = el.alt || '';
+        } else if (el instanceof SVGSVGElement) {
+            relId = await addMedia(`svg-${nextDrawingId}`, async () => {
+                const png = await svgToPng(el, box.width, box.height);
+                return png ? { data: png, ext: 'png' } : null;
+            });
+        } else {
+            relId = await addMedia(`canvas-${nextDrawingId}`, async () => {
+                const png = await canvasToPng(el);
+                return png ? { data: png, ext: 'png' } : null;
+            });
+        }
+        if (!relId) return null;
+        const id = nextDrawingId++;
+        const graphic = pictureGraphic(relId, box.width, box.height, id, description);
+        if (!anchored) return inlineDrawing(graphic, box.width, box.height, id, 'Picture');
+        const zIndex = parseInt(window.getComputedStyle(el).zIndex, 10);
+        return anchoredDrawing(graphic, box, id, 'Picture', ctx, zIndex < 0);
+    };
+
+    // Text layers and freely placed images: anchored to the page, carried by the next paragraph.
+    const addFloating = async (el: HTMLElement, ctx: WalkContext) => {
+        if (el instanceof HTMLImageElement) {
+            const run = await pictureRun(el, ctx, true);
+            if (run) pendingAnchors.push(run);
+            return;
+        }
+        const box = relativeRect(el, ctx);
+        if (box.width <= 0 || box.height <= 0 || ctx.inTextBox) return;
+        const inner: Block[] = [];
+        await walkChildren(el, { ...ctx, frame: contentFrame(el, ctx), boxBorders: null, boxShading: null, numPr: null, inTextBox: true }, inner);
+        const id = nextDrawingId++;
+        const zIndex = parseInt(window.getComputedStyle(el).zIndex, 10);
+        const graphic = shapeGraphic(el, 'rect', box.width, box.height, blocksXml(inner), true);
+        pendingAnchors.push(requiresShapes(anchoredDrawing(graphic, box, id, 'Text Box', ctx, zIndex < 0)));
+    };
+
+    const emitParagraph = async (styleEl: HTMLElement, nodes: Node[], ctx: WalkContext, out: Block[], asBlock: boolean) => {
+        const items: RunItem[] = [];
+        for (const node of nodes) await collectInline(node, styleEl, ctx, items, null);
+        const normalized = normalizeItems(items);
+        const anchors = claimAnchors();
+        if (normalized.length === 0 && anchors.length === 0 && !asBlock) return;
+
+        const props = blockProps(styleEl, ctx, asBlock);
+        if (!asBlock) props.style = undefined;
+        if (ctx.numPr) {
+            // The numbering level carries the list indent
+            props.numPr = ctx.numPr;
+            props.indent = undefined;
+            ctx.numPr = null;
+        }
+        out.push({
+            kind: 'p',
+            props,
+            items: [...anchors, ...normalized],
+            source: asBlock ? styleEl : null,
+            bookmark: asBlock && styleEl.id ? bookmarks.get(styleEl.id) : undefined
+        });
+    };
+
+    const isBlockLevel = (el: Element, style: CSSStyleDeclaration) => (
+        ['block', 'flex', 'grid', 'list-item', 'table', 'flow-root'].includes(style.display)
+        || ['TABLE', 'UL', 'OL', 'HR'].includes(el.tagName)
+        || style.position === 'absolute' || style.position === 'fixed'
+    );
+
+    const walkChildren = async (parent: HTMLElement, ctx: WalkContext, out: Block[]) => {
+        let inline: Node[] = [];
+        const flush = async () => {
+            if (inline.length > 0) await emitParagraph(parent, inline, ctx, out, false);
+            inline = [];
+        };
+        for (const child of Array.from(parent.childNodes)) {
+            if (child.nodeType === Node.TEXT_NODE) {
+                inline.push(child);
+                continue;
+            }
+            if (!(child instanceof Element) || child.matches(SKIP_SELECTOR)) continue;
+            const style = window.getComputedStyle(child);
+            if (style.display === 'none') continue;
+            if (child instanceof HTMLElement && isBlockLevel(child, style)) {
+                await flush();
+                await walkBlock(child, ctx, out);
+            } else {
+                inline.push(child);
+            }
+        }
+        await flush();
+    };
+
+    const hasBlockChildren = (el: HTMLElement) => Array.from(el.children).some(child => (
+        !child.matches(SKIP_SELECTOR) && isBlockLevel(child, window.getComputedStyle(child))
+    ));
+
+    const walkList = async (list: HTMLElement, ctx: WalkContext, out: Block[], continueNumId: number | null) => {
+        const style = window.getComputedStyle(list);
+        const level = Math.min(8, ctx.listLevel);
+        const start = list.tagName === 'OL' ? parseInt(list.getAttribute('start') || '1', 10) || 1 : 1;
+        const numId = continueNumId ?? createNum(style.listStyleType, level, start);
+        for (const child of Array.from(list.children)) {
+            if (!(child instanceof HTMLElement) || window.getComputedStyle(child).display === 'none') continue;
+            const itemCtx: WalkContext = { ...ctx, listLevel: level + 1, numPr: null };
+            if (child.tagName === 'LI') {
+                itemCtx.numPr = `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`;
+            }
+            await walkBlock(child, itemCtx, out);
+        }
+        return numId;
+    };
+
+    const walkTocRow = (row: HTMLElement, ctx: WalkContext, out: Block[]) => {
+        const anchor = row.querySelector('a[href^="#"]');
+        const bookmark = anchor ? bookmarks.get(decodeURIComponent((anchor.getAttribute('href') || '').slice(1))) : undefined;
+        const titleEl = (row.querySelector('.toc-text') || anchor || row) as HTMLElement;
+        const pageText = (row.querySelector('.toc-page-cell')?.textContent || '').trim();
+        const level = row.classList.contains('toc-h3') ? 3 : row.classList.contains('toc-h2') ? 2 : 1;
+        const container = row.closest('.toc-container');
+        const leader = container?.classList.contains('toc-style-dotted') ? 'dot' : container?.classList.contains('toc-style-modern') ? 'underscore' : 'none';
+        const rPr = runProps(titleEl, row);
+        const tabPosition = twips(Math.max(0, ctx.frame.right - ctx.frame.left));
+        const props = blockProps(row, ctx, true);
+        props.style = `TOC${level}`;
+        props.tabs = `<w:tab w:val="right" w:leader="${leader}" w:pos="${tabPosition}"/>`;
+        const title = textRun((titleEl.textContent || '').replace(/\s+/g, ' ').trim(), rPr);
+        const page = bookmark ? fieldRuns(`PAGEREF ${bookmark} \\h`, pageText, rPr) : textRun(pageText, rPr);
+        const body = `${title}<w:r><w:tab/></w:r>${page}`;
+        out.push({
+            kind: 'p',
+            props,
+            items: [...claimAnchors(), { kind: 'xml', xml: bookmark ? `<w:hyperlink w:anchor="${bookmark}" w:history="1">${body}</w:hyperlink>` : body, rPr: '', link: null }],
+            source: null
+        });
+    };
+
+    const walkTable = async (table: HTMLTableElement, ctx: WalkContext, out: Block[]) => {
+        const rows = Array.from(table.rows);
+        const occupied: boolean[][] = rows.map(() => []);
+        const widths: Array<number | null> = [];
+        const placed: Array<Array<{ cell: HTMLTableCellElement; column: number; span: number; rowSpan: number }>> = rows.map(() => []);
+
+        rows.forEach((row, rowIndex) => {
+            let column = 0;
+            Array.from(row.cells).forEach(cell => {
+                while (occupied[rowIndex][column]) column++;
+                const span = Math.max(1, cell.colSpan || 1);
+                const rowSpan = Math.max(1, Math.min(cell.rowSpan || 1, rows.length - rowIndex));
+                for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+                    for (let c = column; c < column + span; c++) occupied[r][c] = true;
+                }
+                if (span === 1 && widths[column] == null) widths[column] = relativeRect(cell, ctx).width;
+                placed[rowIndex].push({ cell, column, span, rowSpan });
+                column += span;
+            });
+        });
+
+        const columnCount = Math.max(1, ...occupied.map(row => row.length));
+        const tableBox = relativeRect(table, ctx);
+        const known = widths.reduce<number>((sum, width) => sum + (width || 0), 0);
+        const unknown = Array.from({ length: columnCount }, (_, i) => widths[i]).filter(width => width == null).length;
+        const fallback = unknown > 0 ? Math.max(20, (tableBox.width - known) / unknown) : 0;
+        const grid = Array.from({ length: columnCount }, (_, i) => widths[i] ?? fallback);
+
+        const frameWidth = ctx.frame.right - ctx.frame.left;
+        const centered = tableBox.width < frameWidth - 2
+            && Math.abs((tableBox.left + tableBox.width / 2) - (ctx.frame.left + frameWidth / 2)) < 2;
+        const indent = Math.max(0, tableBox.left - ctx.frame.left);
+
+        let xml = `<w:tbl><w:tblPr><w:tblW w:w="${twips(tableBox.width)}" w:type="dxa"/>`
+            + (centered ? '<w:jc w:val="center"/>' : '')
+            + (!centered && indent > 1 ? `<w:tblInd w:w="${twips(indent)}" w:type="dxa"/>` : '')
+            + '<w:tblLayout w:type="fixed"/><w:tblCellMar><w:left w:w="0" w:type="dxa"/><w:right w:w="0" w:type="dxa"/></w:tblCellMar>'
+            + `</w:tblPr><w:tblGrid>${grid.map(width => `<w:gridCol w:w="${twips(width)}"/>`).join('')}</w:tblGrid>`;
+
+        for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+            const row = rows[rowIndex];
+            const isHeader = row.parentElement?.tagName === 'THEAD';
+            xml += `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}`;
+            let column = 0;
+            const cells = placed[rowIndex];
+            let cellIndex = 0;
+            while (column < columnCount) {
+                const entry = cells[cellIndex];
+                if (entry && entry.column === column) {
+                    xml += await cellXml(entry.cell, entry.span, entry.rowSpan > 1 ? 'restart' : null, grid, column, ctx, row);
+                    column += entry.span;
+                    cellIndex++;
+                    continue;
+                }
+                // Covered by a row span from above: continue the vertical merge
+                const origin = placed.slice(0, rowIndex).flat().find(p => p.column === column && rows.indexOf(p.cell.parentElement as HTMLTableRowElement) + p.rowSpan > rowIndex);
+                if (origin) {
+                    xml += await cellXml(origin.cell, origin.span, 'continue', grid, column, ctx, row);
+                    column += origin.span;
+                } else {
+                    xml += `<w:tc><w:tcPr><w:tcW w:w="${twips(grid[column])}" w:type="dxa"/></w:tcPr><w:p/></w:tc>`;
+                    column++;
+                }
+            }
+            xml += '</w:tr>';
+        }
+        xml += '</w:tbl>';
+        out.push({ kind: 'raw', xml });
+    };
+
+    const cellXml = async (cell: HTMLTableCellElement, span: number, merge: 'restart' | 'continue' | null, grid: number[], column: number, ctx: WalkContext, row: HTMLTableRowElement) => {
+        const style = window.getComputedStyle(cell);
+        const width = grid.slice(column, column + span).reduce((sum, value) => sum + value, 0);
+        const borders = (['top', 'left', 'bottom', 'right'] as const).map(side => borderXml(side, style, side)).join('');
+        const fill = toHex(style.backgroundColor);
+        const padding = (side: 'top' | 'left' | 'bottom' | 'right') => twips(parseFloat(style.getPropertyValue(`padding-${side}`)) || 0);
+        const vAlign = style.verticalAlign === 'middle' ? 'center' : style.verticalAlign === 'bottom' ? 'bottom' : null;
+        const tcPr = `<w:tcPr><w:tcW w:w="${twips(width)}" w:type="dxa"/>`
+            + (span > 1 ? `<w:gridSpan w:val="${span}"/>` : '')
+            + (merge === 'restart' ? '<w:vMerge w:val="restart"/>' : merge === 'continue' ? '<w:vMerge/>' : '')
+            + (borders ? `<w:tcBorders>${borders}</w:tcBorders>` : '')
+            + (fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : '')
+            + `<w:tcMar><w:top w:w="${padding('top')}" w:type="dxa"/><w:left w:w="${padding('left')}" w:type="dxa"/>`
+            + `<w:bottom w:w="${padding('bottom')}" w:type="dxa"/><w:right w:w="${padding('right')}" w:type="dxa"/></w:tcMar>`
+            + (vAlign ? `<w:vAlign w:val="${vAlign}"/>` : '')
+            + '</w:tcPr>';
+        if (merge === 'continue') return `<w:tc>${tcPr}<w:p/></w:tc>`;
+
+        const inner: Block[] = [];
+        const cellCtx: WalkContext = { ...ctx, frame: contentFrame(cell, ctx), boxBorders: null, boxShading: null, numPr: null, listLevel: 0 };
+        const targetId = row.getAttribute('data-toc-target');
+        const bookmark = targetId ? bookmarks.get(targetId) : undefined;
+        if (bookmark && cell.hasAttribute('data-toc-page')) {
+            // Page column of a TOC table: a PAGEREF field Word can update
+            const rPr = runProps(cell, cell);
+            const props = blockProps(cell, cellCtx, false);
+            inner.push({ kind: 'p', props, items: [{ kind: 'xml', xml: fieldRuns(`PAGEREF ${bookmark} \\h`, (cell.textContent || '').trim(), rPr), rPr: '', link: null }], source: null });
+        } else {
+            await walkChildren(cell, cellCtx, inner);
+        }
+        const content = blocksXml(inner);
+        return `<w:tc>${tcPr}${content && inner[inner.length - 1].kind === 'p' ? content : `${content}<w:p/>`}</w:tc>`;
+    };
+
+    // Handwriting practice: ruled lines as empty paragraphs with a bottom border at the line pitch.
+    const walkWritingLines = (el: HTMLElement, ctx: WalkContext, out: Block[]) => {
+        const style = window.getComputedStyle(el);
+        const lineHeight = parseFloat(style.lineHeight) || 50;
+        const box = relativeRect(el, ctx);
+        const lineCount = Math.max(1, Math.round(box.height / lineHeight));
+        const text = el instanceof HTMLTextAreaElement ? el.value : (el.textContent || '');
+        const lines = text.split('\n');
+        const rPr = runProps(el, el);
+        for (let i = 0; i < lineCount; i++) {
+            out.push({
+                kind: 'p',
+                props: {
+                    borders: '<w:bottom w:val="single" w:sz="6" w:space="0" w:color="8D55F1"/>',
+                    spacing: `<w:spacing w:before="0" w:after="0" w:line="${twips(lineHeight)}" w:lineRule="exact"/>`
+                },
+                items: [...(i === 0 ? claimAnchors() : []), ...(lines[i] ? [{ kind: 'text' as const, text: lines[i], rPr, link: null, preserve: true }] : [])],
+                source: null
+            });
+        }
+    };
+
+    const walkBlock = async (el: HTMLElement, ctx: WalkContext, out: Block[], continueNumId: number | null = null): Promise<number | null> => {
+        if (el.matches(SKIP_SELECTOR)) return null;
+        // The hidden marker a user page break leaves at the top of its page
+        if (el.getAttribute('data-user-page-break') === 'true') {
+            out.push({ kind: 'raw', xml: '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' });
+            return null;
+        }
+        const style = window.getComputedStyle(el);
+        if (style.display === 'none') return null;
+        if (style.position === 'absolute' || style.position === 'fixed') {
+            await addFloating(el, ctx);
+            return null;
+        }
+        if (el.classList.contains('writing-lines')) {
+            walkWritingLines(el, ctx, out);
+            return null;
+        }
+        if (el.classList.contains('toc-row')) {
+            walkTocRow(el, ctx, out);
+            return null;
+        }
+        if (el instanceof HTMLTableElement) {
+            await walkTable(el, ctx, out);
+            return null;
+        }
+        if (el.tagName === 'UL' || el.tagName === 'OL') {
+            return walkList(el, ctx, out, continueNumId);
+        }
+        if (el.tagName === 'HR') {
+            const props = blockProps(el, ctx, true);
+            const line = borderXml('bottom', style, 'top') || borderXml('bottom', style, 'bottom') || '<w:bottom w:val="single" w:sz="8" w:space="1" w:color="000000"/>';
+            out.push({ kind: 'p', props: { ...props, borders: line, shading: undefined }, items: claimAnchors(), source: null });
+            return null;
+        }
+        if (el instanceof HTMLImageElement || el instanceof HTMLCanvasElement) {
+            const run = await pictureRun(el, ctx);
+            const props = blockProps(el, ctx, true);
+            const box = relativeRect(el, ctx);
+            const frameWidth = ctx.frame.right - ctx.frame.left;
+            if (Math.abs((box.left + box.width / 2) - (ctx.frame.left + frameWidth / 2)) < 2 && box.width < frameWidth - 2) {
+                props.align = 'center';
+                props.indent = undefined;
+            }
+            out.push({ kind: 'p', props, items: [...claimAnchors(), ...(run ? [{ kind: 'xml' as const, xml: run, rPr: '', link: null }] : [])], source: null });
+            return null;
+        }
+
+        const shapeClass = Object.keys(FLOW_SHAPES).find(name => el.classList.contains(name));
+        if (shapeClass && !ctx.inTextBox) {
+            const box = relativeRect(el, ctx);
+            const inner: Block[] = [];
+            await walkChildren(el, { ...ctx, frame: contentFrame(el, ctx), boxBorders: null, boxShading: null, numPr: null, listLevel: 0, inTextBox: true }, inner);
+            const id = nextDrawingId++;
+            const graphic = shapeGraphic(el, FLOW_SHAPES[shapeClass], box.width, box.height, blocksXml(inner), false);
+            const props = blockProps(el, ctx, true);
+            const frameWidth = ctx.frame.right - ctx.frame.left;
+            const centered = Math.abs((box.left + box.width / 2) - (ctx.frame.left + frameWidth / 2)) < 2;
+            out.push({
+                kind: 'p',
+                props: {
+                    ...props,
+                    borders: undefined,
+                    shading: undefined,
+                    indent: centered ? undefined : `<w:ind w:left="${twips(Math.max(0, box.left - ctx.frame.left))}"/>`,
+                    align: centered ? 'center' : undefined
+                },
+                items: [...claimAnchors(), { kind: 'xml', xml: requiresShapes(inlineDrawing(graphic, box.width, box.height, id, 'Shape')), rPr: '', link: null }],
+                source: null
+            });
+            return null;
+        }
+
+        const isBox = BOX_CLASSES.some(name => el.classList.contains(name))
+            || (hasBlockChildren(el) && (['top', 'left', 'bottom', 'right'] as const).some(side => borderXml('top', style, side)));
+        if (isBox || hasBlockChildren(el)) {
+            const childCtx: WalkContext = { ...ctx };
+            if (isBox) {
+                // Consecutive paragraphs with identical borders render as one box in Word
+                childCtx.boxBorders = (['top', 'left', 'bottom', 'right'] as const)
+                    .map(side => borderXml(side, style, side, parseFloat(style.getPropertyValue(`padding-${side}`)) || 0)).join('') || null;
+                const fill = toHex(style.backgroundColor);
+                childCtx.boxShading = fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : null;
+            }
+            const before = out.length;
+            await walkChildren(el, childCtx, out);
+            ctx.numPr = childCtx.numPr;
+            const first = out[before];
+            if (el.id && bookmarks.has(el.id) && first?.kind === 'p' && !first.bookmark) first.bookmark = bookmarks.get(el.id);
+            return null;
+        }
+
+        const isTracing = el.classList.contains('tracing-line');
+        await emitParagraph(el, Array.from(el.childNodes), ctx, out, true);
+        if (isTracing) {
+            // Tracing practice keeps its baseline rule under the dotted letters
+            const last = out[out.length - 1];
+            if (last?.kind === 'p') {
+                const lineHeight = parseFloat(style.lineHeight) || 50;
+                last.props.borders = '<w:bottom w:val="single" w:sz="6" w:space="0" w:color="8D55F1"/>';
+                last.props.spacing = `<w:spacing w:before="0" w:after="${twips(parseFloat(style.marginBottom) || 0)}" w:line="${twips(lineHeight)}" w:lineRule="exact"/>`;
+            }
+        }
+        return null;
+    };
+
+    // --- Serialisation ---
+
+    const styleBaselines = new Map<string, string>();
+
+    const blocksXml = (blocks: Block[]) => blocks.map(block => {
+        if (block.kind === 'raw') return block.xml;
+        const base = styleBaselines.get(block.props.style || 'Normal') || '';
+        let runs = runsXml(block.items, base);
+        if (block.bookmark) {
+            const id = nextBookmarkId++;
+            runs = `<w:bookmarkStart w:id="${id}" w:name="${block.bookmark}"/>${runs}<w:bookmarkEnd w:id="${id}"/>`;
+        }
+        return `<w:p>${paragraphPropsXml(block.props)}${runs}</w:p>`;
+    }).join('');
+
+    const pageChildren = (page: HTMLElement) => Array.from(page.children).filter(child => (
+        !child.matches(SKIP_SELECTOR)
+        && (child.getAttribute('data-user-page-break') === 'true' || window.getComputedStyle(child).display !== 'none')
+    )) as HTMLElement[];
+
+    return {
+        addRelationship,
+        relationships,
+        media,
+        abstractNums,
+        nums,
+        styleBaselines,
+        runProps,
+        blocksXml,
+        emptyContext: (page: HTMLElement, pageIndex: number): WalkContext => {
+            const style = window.getComputedStyle(page);
+            return {
+                page,
+                pageIndex,
+                frame: {
+                    left: parseFloat(style.paddingLeft) || 0,
+                    right: page.offsetWidth - (parseFloat(style.paddingRight) || 0)
+                },
+                boxBorders: null,
+                boxShading: null,
+                listLevel: 0,
+                numPr: null,
+                inTextBox: false
+            };
+        },
+        walkPage: async (page: HTMLElement, pageIndex: number, ctx: WalkContext, out: Block[], previous: { element: HTMLElement | null; numId: number | null }) => {
+            const children = pageChildren(page);
+            for (let i = 0; i < children.length; i++) {
+                const child = children[i];
+                const continued = i === 0 && isSplitContinuation(previous.element, child);
+                const before = out.length;
+                const numId = await walkBlock(child, ctx, out, continued && previous.numId !== null ? previous.numId : null);
+                // Join the second half of a split paragraph onto the first
+                const last = out[before - 1];
+                const first = out[before];
+                if (continued && numId === null && last?.kind === 'p' && first?.kind === 'p' && !first.props.numPr) {
+                    const previousText = previous.element?.textContent || '';
+                    const needsSpace = /\s$/.test(previousText) || /^\s/.test(child.textContent || '');
+                    last.items.push(...(needsSpace ? [{ kind: 'text' as const, text: ' ', rPr: last.items[last.items.length - 1]?.rPr || '', link: null, preserve: true }] : []), ...first.items);
+                    out.splice(before, 1);
+                }
+                previous.element = child;
+                previous.numId = numId;
+            }
+            // Anchored objects on a page with no paragraph after them
+            if (pendingAnchors.length > 0) out.push({ kind: 'p', props: {}, items: claimAnchors(), source: null });
+        }
+    };
+};
+
+// --- Static parts ---
+
+const stylesXml = (baselines: Map<string, string>, options: DocxWriteOptions) => {
+    const keepNext = options.keepHeadingsWithNext !== false ? '<w:keepNext/>' : '';
+    const headings = [1, 2, 3, 4, 5, 6].map(level => {
+        const rPr = baselines.get(`Heading${level}`) || `<w:b/><w:sz w:val="${[32, 26, 24, 22, 20, 20][level - 1]}"/>`;
+        return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/>`
+            + `<w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr>${keepNext}<w:keepLines/><w:outlineLvl w:val="${level - 1}"/></w:pPr>`
+            + `<w:rPr>${rPr}</w:rPr></w:style>`;
+    }).join('');
+    const tocStyles = [1, 2, 3].map(level => `<w:style w:type="paragraph" w:styleId="TOC${level}"><w:name w:val="toc ${level}"/>`
+        + `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/><w:pPr><w:spacing w:after="120"/></w:pPr></w:style>`).join('');
+    return `${XML_HEADER}<w:styles xmlns:w="${NS_W}">`
+        + `<w:docDefaults><w:rPrDefault><w:rPr>${baselines.get('Normal') || ''}</w:rPr></w:rPrDefault>`
+        + '<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+        + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:widowControl/></w:pPr><w:rPr>${baselines.get('Normal') || ''}</w:rPr></w:style>`
+        + headings + tocStyles
+        + '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>'
+        + '</w:styles>';
+};
+
+// Page numbering of one page as the DOCX writer needs it
+interface DocxPageNumber {
+    sectionId: string | null; // null: before the numbering starts
+    style: PageNumberStyle;
+    value: number;
+    prefix: string;
+    hidden: boolean; // no page number shown on the page
+}
+
+const WORD_NUMBER_FORMATS: Record<PageNumberStyle, string> = {
+    arabic: 'decimal',
+    'roman-lower': 'lowerRoman',
+    'roman-upper': 'upperRoman',
+    'alpha-lower': 'lowerLetter',
+    'alpha-upper': 'upperLetter'
+};
+
+/**
+ * Numbering of every page: from the app's numbering when given, otherwise from the page
+ * numbers on the pages (`data-numbering`, `data-number-*`). A page without a page number
+ * shows none; read from the pages alone, it belongs to the section of the page before. When
+ * no page has a number the document is written unnumbered.
+ */
+const readPageNumbers = (pages: HTMLElement[], given?: PageNumber[]): DocxPageNumber[] => {
+    const unnumbered: DocxPageNumber = { sectionId: null, style: 'arabic', value: 0, prefix: '', hidden: true };
+    const footers = pages.map(page => page.querySelector(':scope > .page-footer'));
+    if (!footers.some(Boolean)) return pages.map(() => unnumbered);
+    if (given && given.length === pages.length) {
+        return given.map((number, index) => (number.section ? {
+            sectionId: number.section.id,
+            style: number.section.style,
+            value: number.value,
+            prefix: number.section.prefix,
+            hidden: number.hidden || !footers[index]
+        } : unnumbered));
+    }
+    let last: DocxPageNumber | null = null;
+    return footers.map(footer => {
+        if (!footer) return last ? (last = { ...last, value: last.value + 1, hidden: true }) : unnumbered;
+        last = {
+            sectionId: footer.getAttribute('data-numbering') || 'numbering',
+            style: (footer.getAttribute('data-number-style') || 'arabic') as PageNumberStyle,
+            value: Number(footer.getAttribute('data-number-value')) || (last ? last.value + 1 : 1),
+            prefix: footer.getAttribute('data-number-prefix') || '',
+            hidden: false
+        };
+        return last;
+    });
+};
+
+interface HeaderFooterPart {
+    kind: 'header' | 'footer';
+    path: string; // under word/
+    xml: string;
+}
+
+const contentTypesXml = (media: MediaFile[], parts: HeaderFooterPart[]) => {
+    const extensions = Array.from(new Set(media.map(file => file.path.split('.').pop() || '')));
+    return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + extensions.map(ext => `<Default Extension="${ext}" ContentType="image/${ext}"/>`).join('')
+        + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+        + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+        + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+        + '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>'
+        + parts.map(part => `<Override PartName="/word/${part.path}" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${part.kind}+xml"/>`).join('')
+        + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+        + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+        + '</Types>';
+};
+
+const relationshipsXml = (relationships: Relationship[]) => `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + relationships.map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"${rel.external ? ' TargetMode="External"' : ''}/>`).join('')
+    + '</Relationships>';
+
+/**
+ * Writes the paginated workspace as a DOCX package. Reads layout and computed styles from the
+ * live DOM, so call it after reflow has settled.
+ */
+export const writeDocx = async (workspace: HTMLElement, options: DocxWriteOptions): Promise<Uint8Array> => {
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    if (pages.length === 0) throw new Error('There are no pages to export.');
+
+    const writer = createDocxWriter(workspace, options);
+    writer.addRelationship('styles', 'styles.xml');
+    writer.addRelationship('numbering', 'numbering.xml');
+    writer.addRelationship('settings', 'settings.xml');
+
+    // Style baselines: runs that match their paragraph style carry no direct formatting
+    const firstParagraph = workspace.querySelector('.page p') || pages[0];
+    writer.styleBaselines.set('Normal', writer.runProps(firstParagraph, firstParagraph));
+    [1, 2, 3, 4, 5, 6].forEach(level => {
+        const heading = workspace.querySelector(`.page h${level}`);
+        if (heading) writer.styleBaselines.set(`Heading${level}`, writer.runProps(heading, heading));
+    });
+
+    // Each numbering section becomes a Word section with its own number format and start. Pages
+    // without a page number inside a section (suppressed numbers) stay in it; only a section's
+    // first page can hide its number in Word (a blank first-page header and footer).
+    const numbers = readPageNumbers(pages, options.pageNumbers);
+    const groups: Array<{ first: number; number: DocxPageNumber; footerEl: HTMLElement | null }> = [];
+    numbers.forEach((number, index) => {
+        const footerEl = pages[index].querySelector(':scope > .page-footer') as HTMLElement | null;
+        const group = groups[groups.length - 1];
+        if (!group || group.number.sectionId !== number.sectionId) groups.push({ first: index, number, footerEl });
+        else if (!group.footerEl) group.footerEl = footerEl;
+    });
+    const numberedGroups = groups.filter(group => group.number.sectionId !== null).length;
+
+    const parts: HeaderFooterPart[] = [];
+    const addPart = (kind: 'header' | 'footer', content: string) => {
+        const tag = kind === 'header' ? 'hdr' : 'ftr';
+        const path = `${kind}${parts.filter(part => part.kind === kind).length + 1}.xml`;
+        parts.push({ kind, path, xml: `${XML_HEADER}<w:${tag} xmlns:w="${NS_W}">${content}</w:${tag}>` });
+        return writer.addRelationship(kind, path);
+    };
+    // Word carries a section's headers and footers into the next one unless it names its own
+    const blankParts: Partial<Record<'header' | 'footer', string>> = {};
+    const blankPart = (kind: 'header' | 'footer') => (blankParts[kind] ??= addPart(kind, '<w:p/>'));
+
+    const numberPart = (footerEl: HTMLElement, pageIndex: number, number: DocxPageNumber) => {
+        const footerStyle = window.getComputedStyle(footerEl);
+        const page = pages[pageIndex];
+        const pageRect = page.getBoundingClientRect();
+        const scale = pageRect.width / page.offsetWidth || 1;
+        const rect = footerEl.getBoundingClientRect();
+        const bleedPx = (options.page.bleed || 0) * 96;
+        const isHeader = (rect.top - pageRect.top) / scale < page.offsetHeight / 2;
+        const distance = isHeader
+            ? (rect.top - pageRect.top) / scale - bleedPx
+            : (pageRect.bottom - rect.bottom) / scale - bleedPx;
+        const align = ALIGNMENTS[footerStyle.textAlign] || 'left';
+        const rPr = writer.runProps(footerEl, footerEl);
+        const fieldRuns = (instruction: string, placeholder: string) => `<w:r><w:rPr>${rPr}</w:rPr><w:fldChar w:fldCharType="begin"/></w:r>`
+            + `<w:r><w:rPr>${rPr}</w:rPr><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>`
+            + `<w:r><w:rPr>${rPr}</w:rPr><w:fldChar w:fldCharType="separate"/></w:r>`
+            + `<w:r><w:rPr>${rPr}</w:rPr><w:t xml:space="preserve">${escapeXml(placeholder)}</w:t></w:r>`
+            + `<w:r><w:rPr>${rPr}</w:rPr><w:fldChar w:fldCharType="end"/></w:r>`;
+        const textRun = (text: string) => `<w:r><w:rPr>${rPr}</w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+        // Page-number formats become Word fields: with one numbering section the numbered pages
+        // are their own Word section, so {pages} counts that section (with several, the whole
+        // document); running chapter/section titles follow the heading styles.
+        const runs = splitPageFields(footerEl.getAttribute(FIELD_TEMPLATE_ATTRIBUTE) || DEFAULT_PAGE_NUMBER_FORMAT).map(part => {
+            if ('text' in part) return textRun(part.text);
+            switch (part.field) {
+                case 'page': return (number.prefix ? textRun(number.prefix) : '') + fieldRuns('PAGE', formatPageNumber(number.value, number.style));
+                case 'pages': return fieldRuns(numberedGroups > 1 ? 'NUMPAGES' : 'SECTIONPAGES', '1');
+                case 'chapter': return fieldRuns('STYLEREF "heading 1"', '');
+                case 'section': return fieldRuns('STYLEREF "heading 2"', '');
+                case 'title': return textRun(options.title);
+                case 'date': return textRun(formatFieldDate(new Date()));
+            }
+        }).join('');
+        const kind = isHeader ? 'header' : 'footer';
+        return { kind, distance, relId: addPart(kind, `<w:p><w:pPr><w:jc w:val="${align}"/></w:pPr>${runs}</w:p>`) } as const;
+    };
+
+    const { width, height, margins, mirrored } = options.page;
+    const sectionProps = groups.map(group => {
+        const { number, footerEl } = group;
+        const part = number.sectionId !== null && footerEl ? numberPart(footerEl, pages.indexOf(footerEl.parentElement as HTMLElement), number) : null;
+        const references: string[] = [];
+        if (number.sectionId !== null) {
+            (['header', 'footer'] as const).forEach(kind => {
+                const relId = part?.kind === kind ? part.relId : blankPart(kind);
+                references.push(`<w:${kind}Reference w:type="default" r:id="${relId}"/>`);
+                if (number.hidden) references.push(`<w:${kind}Reference w:type="first" r:id="${blankPart(kind)}"/>`);
+            });
+        }
+        const isHeader = part?.kind === 'header';
+        const edge = inchTwips(isHeader ? margins.top : margins.bottom) / 2;
+        const distance = part ? Math.max(0, twips(part.distance)) : edge;
+        return `<w:sectPr>${references.join('')}<w:type w:val="nextPage"/>`
+            + `<w:pgSz w:w="${inchTwips(width)}" w:h="${inchTwips(height)}"/>`
+            + `<w:pgMar w:top="${inchTwips(margins.top)}" w:right="${inchTwips(margins.right)}" w:bottom="${inchTwips(margins.bottom)}" w:left="${inchTwips(margins.left)}"`
+            + ` w:header="${isHeader ? distance : edge}" w:footer="${isHeader ? edge : distance}" w:gutter="0"/>`
+            + (number.sectionId !== null ? `<w:pgNumType w:fmt="${WORD_NUMBER_FORMATS[number.style]}" w:start="${number.value}"/>` : '')
+            + (number.sectionId !== null && number.hidden ? '<w:titlePg/>' : '')
+            + '</w:sectPr>';
+    });
+
+    const blocks: Block[] = [];
+    const previous: { element: HTMLElement | null; numId: number | null } = { element: null, numId: null };
+    let groupIndex = 0;
+    for (let index = 0; index < pages.length; index++) {
+        if (groups[groupIndex + 1]?.first === index) {
+            // Close the previous section on the last paragraph before the new one
+            const closing = sectionProps[groupIndex++];
+            const last = blocks[blocks.length - 1];
+            if (last?.kind === 'p') last.props.sectPr = closing;
+            else blocks.push({ kind: 'p', props: { sectPr: closing }, items: [], source: null });
+            previous.element = null;
+        }
+        const page = pages[index];
+        await writer.walkPage(page, index, writer.emptyContext(page, index), blocks, previous);
+    }
+
+    const body = writer.blocksXml(blocks);
+    const documentXml = `${XML_HEADER}<w:document ${DOCUMENT_NAMESPACES}><w:body>${body}${sectionProps[sectionProps.length - 1]}</w:body></w:document>`;
+
+    const numberingXml = `${XML_HEADER}<w:numbering xmlns:w="${NS_W}">${writer.abstractNums.join('')}${writer.nums.join('')}</w:numbering>`;
+    const settingsXml = `${XML_HEADER}<w:settings xmlns:w="${NS_W}">${mirrored ? '<w:mirrorMargins/>' : ''}`
+        + '<w:defaultTabStop w:val="720"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>';
+
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const coreXml = `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"`
+        + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+        + `<dc:title>${escapeXml(options.title)}</dc:title><dc:creator>${APP_NAME}</dc:creator>`
+        + `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>`
+        + '</cp:coreProperties>';
+    const appXml = `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>${APP_NAME}</Application></Properties>`;
+
+    const entries: ZipEntry[] = [
+        { path: '[Content_Types].xml', data: contentTypesXml(writer.media, parts) },
+        {
+            path: '_rels/.rels',
+            data: relationshipsXml([
+                { id: 'rId1', type: `${REL_TYPE}/officeDocument`, target: 'word/document.xml' },
+                { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+                { id: 'rId3', type: `${REL_TYPE}/extended-properties`, target: 'docProps/app.xml' }
+            ])
+        },
+        { path: 'docProps/core.xml', data: coreXml },
+        { path: 'docProps/app.xml', data: appXml },
+        { path: 'word/document.xml', data: documentXml },
+        { path: 'word/styles.xml', data: stylesXml(writer.styleBaselines, options) },
+        { path: 'word/numbering.xml', data: numberingXml },
+        { path: 'word/settings.xml', data: settingsXml },
+        { path: 'word/_rels/document.xml.rels', data: relationshipsXml(writer.relationships) },
+        ...parts.map(part => ({ path: `word/${part.path}`, data: part.xml })),
+        ...writer.media.map(file => ({ path: `word/${file.path}`, data: file.data }))
+    ];
+    return createZip(entries);
+};
@@ -0,0 +1,435 @@
+// utils/epubWriter.ts
+//
+// EPUB 3 export for the reflowable ebook edition. The paginated workspace is flattened back
+// into one flow (page wrappers, page numbers and page-break markers removed, paragraphs the
+// paginator split joined again), cut into chapter files at the approved h1 Structure entries,
+// and packaged with a nav.xhtml built from the same entries, the document CSS minus the
+// print layout, and the images and custom fonts the book uses.
+//
+// Writing lines and tracing lines only make sense on paper; with `convertPracticeLines` they
+// become static ruled space with a note and plain tracing text that e-readers can show.
+
+import { createZip, ZipEntry } from './zip';
+import { escapeXml, stripInvalidXml } from './xml';
+import { dataUrlMimeType, decodeDataUrl, loadUrlBytes } from './dataUrl';
+import { StoredFont } from './fontUtils';
+import { isSplitContinuation } from './pagination';
+import { FOOTER_SELECTOR } from './paginationMeasurer';
+
+export interface EpubHeading {
+    elementId: string;
+    level: number; // 1-3
+    title: string;
+}
+
+export interface EpubWriteOptions {
+    title: string;
+    language?: string;
+    css: string; // document CSS; the print layout override and page rules are removed
+    headings: EpubHeading[]; // approved Structure entries in document order; h1 starts a chapter
+    fonts?: StoredFont[];
+    convertPracticeLines?: boolean;
+}
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+// Editor chrome and print-only elements; none of it belongs in an ebook
+const STRIP_SELECTOR = [
+    '.image-overlay', '.resize-handle', '.drag-handle', '.text-mode-badge', '.marquee', '.context-menu',
+    '.page-ruler', '.margin-guides', '.toc-actions', '.toc-leader-cell', '.toc-page-cell', '[data-toc-page="true"]',
+    '[data-user-page-break="true"]', '.master-layer', FOOTER_SELECTOR
+].join(', ');
+
+const EDITOR_ATTRIBUTES = ['contenteditable', 'data-selected', 'data-multi-selected', 'draggable', 'spellcheck', 'data-structure-status'];
+
+const IMAGE_TYPES: Record<string, { ext: string; mime: string }> = {
+    png: { ext: 'png', mime: 'image/png' },
+    jpeg: { ext: 'jpg', mime: 'image/jpeg' },
+    gif: { ext: 'gif', mime: 'image/gif' },
+    webp: { ext: 'webp', mime: 'image/webp' },
+    svg: { ext: 'svg', mime: 'image/svg+xml' }
+};
+
+const FONT_TYPES: Record<string, string> = { ttf: 'font/ttf', otf: 'font/otf', woff: 'font/woff', woff2: 'font/woff2' };
+
+const PRACTICE_CSS = `
+.ebook-writing-lines { margin: 0.5em 0 1em; }
+.ebook-practice-note { font-style: italic; font-size: 0.9em; color: #555; margin: 0 0 0.3em; }
+.ebook-rule { border-bottom: 1px solid #8d55f1; height: 2em; }
+.ebook-tracing { font-family: 'Courier Prime', 'Courier New', monospace; color: #7a5bc7; letter-spacing: 0.25em; border-bottom: 1px dashed #b9a7e6; background: none; line-height: 2; }
+img { max-width: 100%; height: auto; }
+`;
+
+const detectImageType = (bytes: Uint8Array) => {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return IMAGE_TYPES.png;
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return IMAGE_TYPES.jpeg;
+    if (bytes[0] === 0x47 && bytes[1] === 0x49) return IMAGE_TYPES.gif;
+    if (bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) return IMAGE_TYPES.webp;
+    const head = new TextDecoder().decode(bytes.subarray(0, 512));
+    if (/<svg[\s>]/i.test(head)) return IMAGE_TYPES.svg;
+    return null;
+};
+
+const fontExtension = (bytes: Uint8Array, mimeType: string) => {
+    const signature = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+    if (signature === 'wOF2') return 'woff2';
+    if (signature === 'wOFF') return 'woff';
+    if (signature === 'OTTO') return 'otf';
+    if (/woff2/.test(mimeType)) return 'woff2';
+    if (/woff/.test(mimeType)) return 'woff';
+    return 'ttf';
+};
+
+// Splits a stylesheet into its top-level blocks (rules and at-rules), minus the page layout override.
+const cssBlocks = (css: string) => {
+    const source = css
+        .replace(/\/\* SPYWRITER_LAYOUT_OVERRIDE_START \*\/[\s\S]*?\/\* SPYWRITER_LAYOUT_OVERRIDE_END \*\//g, '')
+        .replace(/\/\*[\s\S]*?\*\//g, '');
+    const blocks: string[] = [];
+    let start = 0;
+    let depth = 0;
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === '{') depth++;
+        if (source[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                blocks.push(source.slice(start, i + 1).trim());
+                start = i + 1;
+            } else if (depth < 0) {
+                depth = 0;
+                start = i + 1;
+            }
+        } else if (source[i] === ';' && depth === 0) {
+            // @import / @charset statements
+            blocks.push(source.slice(start, i + 1).trim());
+            start = i + 1;
+        }
+    }
+    return blocks.filter(Boolean);
+};
+
+// Document CSS without the print page box: @page rules, .page sizing and editor scoping go.
+const ebookCss = (css: string): string => cssBlocks(css).map(block => {
+    if (/^@(page|import|charset)\b/i.test(block)) return '';
+    if (/^@(media|supports)\b/i.test(block)) {
+        if (/^@media\s+print\b/i.test(block)) return '';
+        const open = block.indexOf('{');
+        const inner = ebookCss(block.slice(open + 1, -1));
+        return inner ? `${block.slice(0, open + 1)}\n${inner}\n}` : '';
+    }
+    if (block.startsWith('@')) return block;
+    const open = block.indexOf('{');
+    if (open === -1) return '';
+    const selectors = block.slice(0, open).split(',')
+        .map(selector => selector.trim()
+            .replace(/^(\.editor-workspace\s+)?\.page(?![\w\-:.#[])\s*>?\s*/, '')
+            .replace(/^\.editor-workspace(?![\w-])\s*/, '')
+            .trim())
+        .filter(selector => selector
+            && !/(^|[\s>+~])\.page(?![\w-])/.test(selector)
+            && !/:nth-child\([^)]*of \.page\)/.test(selector)
+            && !/page-footer|page-number|\.marquee|\.drag-handle|resize-handle|image-overlay|margin-guides|page-ruler/.test(selector));
+    if (selectors.length === 0) return '';
+    return `${selectors.join(', ')} ${block.slice(open)}`;
+}).filter(Boolean).join('\n');
+
+interface Chapter {
+    fileName: string;
+    title: string;
+    nodes: HTMLElement[];
+    isBody: boolean; // false for the front matter before the first chapter heading
+    hasSvg: boolean;
+}
+
+/**
+ * Writes an EPUB 3 package from the paginated workspace. Reads line geometry from the live DOM
+ * (for writing-line replacements), so call it after reflow has settled.
+ */
+export const writeEpub = async (workspace: HTMLElement, options: EpubWriteOptions): Promise<Uint8Array> => {
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    if (pages.length === 0) throw new Error('There are no pages to export.');
+    const language = options.language || document.documentElement.lang || 'en';
+
+    // --- One flow, without pages ---
+
+    const flow: HTMLElement[] = [];
+    let previous: HTMLElement | null = null;
+    pages.forEach(page => {
+        const blocks = Array.from(page.children).filter(child => (
+            !child.matches(STRIP_SELECTOR) && window.getComputedStyle(child).display !== 'none'
+        )) as HTMLElement[];
+        blocks.forEach((el, index) => {
+            const copy = prepareClone(el, options.convertPracticeLines !== false);
+            if (!copy) return;
+            if (index === 0 && flow.length > 0 && isSplitContinuation(previous, el)) {
+                // Second half of a paragraph or list the paginator split: join it back
+                const target = flow[flow.length - 1];
+                const joinWithSpace = !/^(UL|OL)$/.test(el.tagName)
+                    && (/\s$/.test(previous?.textContent || '') || /^\s/.test(el.textContent || ''));
+                if (joinWithSpace) target.appendChild(document.createTextNode(' '));
+                target.append(...Array.from(copy.childNodes));
+            } else {
+                flow.push(copy);
+            }
+            previous = el;
+        });
+    });
+
+    // --- Chapters at the approved h1 entries ---
+
+    const chapterStarts = new Map(options.headings.filter(h => h.level === 1).map(h => [h.elementId, h.title]));
+    const chapters: Chapter[] = [];
+    const newChapter = (title: string, isBody: boolean) => {
+        const chapter: Chapter = { fileName: `chapter-${String(chapters.length + 1).padStart(3, '0')}.xhtml`, title, nodes: [], isBody, hasSvg: false };
+        chapters.push(chapter);
+        return chapter;
+    };
+    let current: Chapter | null = null;
+    flow.forEach(node => {
+        const startId = [node.id, ...Array.from(node.querySelectorAll('[id]')).map(el => el.id)]
+            .find(id => id && chapterStarts.has(id));
+        if (startId) current = newChapter(chapterStarts.get(startId) || options.title, true);
+        if (!current) current = newChapter(options.title, false);
+        current.nodes.push(node);
+    });
+    if (chapters.length === 0) newChapter(options.title, true);
+
+    // Internal links point into whichever chapter now holds their target
+    const fileForId = new Map<string, string>();
+    chapters.forEach(chapter => chapter.nodes.forEach(node => {
+        if (node.id) fileForId.set(node.id, chapter.fileName);
+        node.querySelectorAll('[id]').forEach(el => fileForId.set(el.id, chapter.fileName));
+    }));
+    chapters.forEach(chapter => chapter.nodes.forEach(node => {
+        [node, ...Array.from(node.querySelectorAll('a[href^="#"]'))].forEach(link => {
+            const href = link.getAttribute('href');
+            if (!href || !href.startsWith('#') || link.tagName !== 'A') return;
+            const file = fileForId.get(decodeURIComponent(href.slice(1)));
+            if (!file) link.removeAttribute('href');
+            else if (file !== chapter.fileName) link.setAttribute('href', `${file}${href}`);
+        });
+    }));
+
+    // --- Images ---
+
+    const manifest: Array<{ id: string; href: string; mediaType: string; properties?: string }> = [];
+    const entries: ZipEntry[] = [];
+    const imageBySource = new Map<string, string | null>();
+    for (const chapter of chapters) {
+        for (const node of chapter.nodes) {
+            const images = [...(node instanceof HTMLImageElement ? [node] : []), ...Array.from(node.querySelectorAll('img'))];
+            for (const img of images) {
+                const src = img.getAttribute('src') || '';
+                if (!imageBySource.has(src)) {
+                    const bytes = src ? await loadUrlBytes(src) : null;
+                    const type = bytes ? detectImageType(bytes) : null;
+                    let href: string | null = null;
+                    if (bytes && type) {
+                        href = `images/image-${imageBySource.size + 1}.${type.ext}`;
+                        entries.push({ path: `OEBPS/${href}`, data: bytes });
+                        manifest.push({ id: `image-${imageBySource.size + 1}`, href, mediaType: type.mime });
+                    }
+                    imageBySource.set(src, href);
+                }
+                const href = imageBySource.get(src);
+                if (href) {
+                    img.setAttribute('src', `../${href}`);
+                    if (!img.hasAttribute('alt')) img.setAttribute('alt', '');
+                } else {
+                    // Unreadable (remote, blocked) images keep their description in the text
+                    const alt = img.getAttribute('alt');
+                    if (alt) img.replaceWith(document.createTextNode(alt));
+                    else img.remove();
+                }
+            }
+            if (node.matches('svg') || node.querySelector('svg')) chapter.hasSvg = true;
+        }
+    }
+
+    // --- Fonts and stylesheet ---
+
+    const referenced = `${options.css}\n${flow.map(node => node.outerHTML).join('')}`;
+    const fontFaces: string[] = [];
+    (options.fonts || []).filter(font => referenced.includes(font.name)).forEach((font, index) => {
+        const bytes = decodeDataUrl(font.dataUrl);
+        if (!bytes) return;
+        const ext = fontExtension(bytes, dataUrlMimeType(font.dataUrl));
+        const href = `fonts/font-${index + 1}.${ext}`;
+        entries.push({ path: `OEBPS/${href}`, data: bytes });
+        manifest.push({ id: `font-${index + 1}`, href, mediaType: FONT_TYPES[ext] });
+        fontFaces.push(`@font-face { font-family: '${font.name.replace(/'/g, "\\'")}'; src: url("../${href}"); }`);
+    });
+    const stylesheet = [...fontFaces, ebookCss(options.css), PRACTICE_CSS].join('\n');
+    entries.push({ path: 'OEBPS/styles/book.css', data: stylesheet });
+    manifest.push({ id: 'css', href: 'styles/book.css', mediaType: 'text/css' });
+
+    // --- Chapter documents ---
+
+    const serializer = new XMLSerializer();
+    const xhtmlDocument = (title: string, body: string, bodyType = '') => `${XML_HEADER}<!DOCTYPE html>\n`
+        + `<html xmlns="${XHTML_NS}" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(language)}" xml:lang="${escapeXml(language)}">\n`
+        + `<head><meta charset="UTF-8"/><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="../styles/book.css"/></head>\n`
+        + `<body${bodyType ? ` epub:type="${bodyType}"` : ''}>\n${body}\n</body>\n</html>\n`;
+
+    chapters.forEach((chapter, index) => {
+        // Serialized through one wrapper so the XHTML namespace is declared once, on <html>
+        const wrapper = document.createElement('div');
+        chapter.nodes.forEach(node => wrapper.append(node, '\n'));
+        const body = stripInvalidXml(serializer.serializeToString(wrapper)).replace(/^<div[^>]*>/, '').replace(/<\/div>$/, '').trim();
+        entries.push({ path: `OEBPS/text/${chapter.fileName}`, data: xhtmlDocument(chapter.title, body, chapter.isBody ? 'bodymatter' : 'frontmatter') });
+        manifest.push({ id: `chapter-${index + 1}`, href: `text/${chapter.fileName}`, mediaType: 'application/xhtml+xml', properties: chapter.hasSvg ? 'svg' : undefined });
+    });
+
+    // --- Navigation ---
+
+    const navItems = options.headings.filter(heading => fileForId.has(heading.elementId));
+    let navList = '';
+    let depth = 0;
+    navItems.forEach((heading, index) => {
+        const level = Math.max(1, Math.min(heading.level, depth + 1));
+        if (index === 0) {
+            navList += '<ol>';
+            depth = 1;
+        } else if (level > depth) {
+            navList += '<ol>';
+            depth = level;
+        } else {
+            navList += '</li>';
+            while (depth > level) {
+                navList += '</ol></li>';
+                depth--;
+            }
+        }
+        navList += `<li><a href="${fileForId.get(heading.elementId)}#${escapeXml(heading.elementId)}">${escapeXml(heading.title || 'Untitled Section')}</a>`;
+    });
+    if (navItems.length > 0) {
+        navList += '</li>';
+        while (depth > 1) {
+            navList += '</ol></li>';
+            depth--;
+        }
+        navList += '</ol>';
+    } else {
+        // Without a structure the book still needs a table of contents entry
+        navList = `<ol>${chapters.map(chapter => `<li><a href="${chapter.fileName}">${escapeXml(chapter.title)}</a></li>`).join('')}</ol>`;
+    }
+    const firstBody = chapters.find(chapter => chapter.isBody) || chapters[0];
+    const nav = `<nav epub:type="toc" id="toc"><h1>Contents</h1>${navList}</nav>\n`
+        + `<nav epub:type="landmarks" hidden="hidden"><ol><li><a epub:type="toc" href="nav.xhtml">Contents</a></li>`
+        + `<li><a epub:type="bodymatter" href="${firstBody.fileName}">Start</a></li></ol></nav>`;
+    entries.push({ path: 'OEBPS/text/nav.xhtml', data: xhtmlDocument('Contents', nav) });
+    manifest.push({ id: 'nav', href: 'text/nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' });
+
+    // --- Package ---
+
+    const identifier = `urn:uuid:${crypto.randomUUID()}`;
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const opf = `${XML_HEADER}<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">\n`
+        + '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">'
+        + `<dc:identifier id="book-id">${identifier}</dc:identifier><dc:title>${escapeXml(options.title)}</dc:title>`
+        + `<dc:language>${escapeXml(language)}</dc:language><meta property="dcterms:modified">${modified}</meta>`
+        + '<meta name="generator" content="Instant Writer Pro"/></metadata>\n<manifest>'
+        + manifest.map(item => `<item id="${item.id}" href="${escapeXml(item.href)}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`).join('')
+        + '</manifest>\n<spine>'
+        + chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`).join('')
+        + '</spine>\n</package>\n';
+
+    return createZip([
+        // The mimetype entry must come first and stay uncompressed
+        { path: 'mimetype', data: 'application/epub+zip' },
+        {
+            path: 'META-INF/container.xml',
+            data: `${XML_HEADER}<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles>`
+                + '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>\n'
+        },
+        { path: 'OEBPS/content.opf', data: opf },
+        ...entries
+    ]);
+};
+
+// Static replacement for a practice element: ruled space sized like the printed lines, or
+// the tracing text as a plain styled line.
+const practiceReplacement = (source: HTMLElement, copy: HTMLElement): HTMLElement | null => {
+    if (copy.classList.contains('writing-lines')) {
+        const lineHeight = parseFloat(window.getComputedStyle(source).lineHeight) || 50;
+        const lines = Math.max(1, Math.min(8, Math.round(source.getBoundingClientRect().height / lineHeight)));
+        const text = (source instanceof HTMLTextAreaElement ? source.value : source.textContent || '').trim();
+        const replacement = document.createElement('div');
+        replacement.className = 'ebook-writing-lines';
+        const note = document.createElement('p');
+        note.className = 'ebook-practice-note';
+        note.textContent = '✎ Write your answer on paper or in a notebook.';
+        replacement.appendChild(note);
+        if (text) {
+            const written = document.createElement('p');
+            written.textContent = text;
+            replacement.appendChild(written);
+        }
+        for (let i = 0; i < lines; i++) {
+            const rule = document.createElement('div');
+            rule.className = 'ebook-rule';
+            replacement.appendChild(rule);
+        }
+        return replacement;
+    }
+    if (copy.classList.contains('tracing-line')) {
+        const replacement = document.createElement('p');
+        replacement.className = 'ebook-tracing';
+        replacement.textContent = (copy.textContent || '').trim();
+        return replacement;
+    }
+    return null;
+};
+
+// Deep copy of a page block with editor state, print artifacts and absolute placement removed.
+const prepareClone = (original: HTMLElement, convertPracticeLines: boolean): HTMLElement | null => {
+    let copy = original.cloneNode(true) as HTMLElement;
+
+    // Canvases lose their pixels when cloned; carry them over as images
+    const originalCanvases = Array.from(original.querySelectorAll('canvas'));
+    Array.from(copy.querySelectorAll('canvas')).forEach((canvas, index) => {
+        try {
+            const img = document.createElement('img');
+            img.src = originalCanvases[index].toDataURL('image/png');
+            img.alt = '';
+            canvas.replaceWith(img);
+        } catch {
+            canvas.remove();
+        }
+    });
+
+    if (convertPracticeLines) {
+        // Pair copies with originals (same tree order) to read the rendered line geometry
+        const originals = [original, ...Array.from(original.querySelectorAll('*'))] as HTMLElement[];
+        const copies = [copy, ...Array.from(copy.querySelectorAll('*'))] as HTMLElement[];
+        copies.forEach((el, index) => {
+            const replacement = practiceReplacement(originals[index], el);
+            if (!replacement) return;
+            if (el === copy) copy = replacement;
+            else el.replaceWith(replacement);
+        });
+    }
+
+    copy.querySelectorAll(STRIP_SELECTOR).forEach(el => el.remove());
+    copy.querySelectorAll('script, input, button, select').forEach(el => el.remove());
+    copy.querySelectorAll('textarea').forEach(textarea => {
+        const block = document.createElement('div');
+        block.className = textarea.className;
+        block.textContent = textarea.value || textarea.textContent || '';
+        textarea.replaceWith(block);
+    });
+
+    [copy, ...Array.from(copy.querySelectorAll('*'))].forEach(node => {
+        const el = node as HTMLElement;
+        EDITOR_ATTRIBUTES.forEach(name => el.removeAttribute(name));
+        Array.from(el.attributes).filter(attribute => attribute.name.startsWith('on')).forEach(attribute => el.removeAttribute(attribute.name));
+        if (!el.style) return;
+        // Text layers become ordinary blocks in the flow
+        if (el.style.position === 'absolute' || el.style.position === 'fixed') {
+            ['position', 'left', 'top', 'right', 'bottom', 'z-index', 'transform'].forEach(property => el.style.removeProperty(property));
+        }
+        if (!el.getAttribute('style')) el.removeAttribute('style');
+    });
+    return copy.tagName === 'TEXTAREA' ? null : copy;
+};
@@ -0,0 +1,206 @@
+// utils/findReplace.ts
+//
+// Find and replace over the paginated document. Matching walks the text nodes of every
+// `.page` (body text, text layers, table cells, footers) and joins the nodes of one block,
+// so a match may cross inline formatting ("hello <b>world</b>"). Matches are kept as DOM
+// Ranges and painted with the CSS Custom Highlight API, which leaves the document HTML
+// untouched. Text the app regenerates — master layers (running footers) and field templates
+// such as page numbers — is found like any other, but not replaced: the next refresh would
+// write it back, so it is edited in Master Pages or Page Numbers.
+
+export interface FindOptions {
+    matchCase: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+}
+
+export interface FindMatch {
+    range: Range;
+    pageIndex: number;
+    text: string;
+    result: RegExpExecArray; // the match in its block text, for $1, $<name>…
+    generated: boolean; // in a master layer or a field template
+}
+
+export const MAX_FIND_MATCHES = 5000;
+
+export const FIND_HIGHLIGHT = 'find-match';
+export const FIND_CURRENT_HIGHLIGHT = 'find-current';
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, td, th, dt, dd, pre, blockquote, figcaption, div';
+const GENERATED_SELECTOR = '.master-layer, [data-fields]';
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The search as a global RegExp; an invalid pattern throws the engine's SyntaxError. */
+export const buildSearchPattern = (query: string, options: FindOptions) => {
+    let source = options.regex ? query : escapeRegExp(query);
+    if (options.wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+    return new RegExp(source, `g${options.matchCase ? '' : 'i'}${options.wholeWord ? 'u' : ''}`);
+};
+
+export interface TextRun {
+    block: Element | null;
+    generated: boolean;
+    nodes: Array<{ node: Text; start: number }>;
+    text: string;
+}
+
+/**
+ * Consecutive text nodes of the same block of a page, in document order; generated text
+ * (master layers, field templates) only with `includeGenerated`, in runs of its own.
+ */
+export const collectRuns = (page: HTMLElement, includeGenerated = false): TextRun[] => {
+    const runs: TextRun[] = [];
+    const walker = page.ownerDocument.createTreeWalker(page, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => {
+            const parent = node.parentElement;
+            if (!parent || parent.closest('script, style, textarea') || (!includeGenerated && parent.closest(GENERATED_SELECTOR))) {
+                return NodeFilter.FILTER_REJECT;
+            }
+            return NodeFilter.FILTER_ACCEPT;
+        }
+    });
+    let current: TextRun | null = null;
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const block = node.parentElement!.closest(BLOCK_SELECTOR);
+        const generated = !!node.parentElement!.closest(GENERATED_SELECTOR);
+        if (!current || current.block !== block || current.generated !== generated) {
+            current = { block, generated, nodes: [], text: '' };
+            runs.push(current);
+        }
+        current.nodes.push({ node, start: current.text.length });
+        current.text += node.data;
+    }
+    return runs;
+};
+
+// Offset in the joined run text -> text node and offset; an end offset stays in the node it ends
+const locate = (run: TextRun, offset: number, end: boolean) => {
+    for (let i = run.nodes.length - 1; i >= 0; i--) {
+        const { node, start } = run.nodes[i];
+        if (end ? offset > start : offset >= start) {
+            return { node, offset: offset - start };
+        }
+    }
+    return { node: run.nodes[0].node, offset: 0 };
+};
+
+/** A Range over `[start, end)` of the joined run text. */
+export const runRange = (run: TextRun, start: number, end: number) => {
+    const from = locate(run, start, false);
+    const to = locate(run, end, true);
+    const range = from.node.ownerDocument.createRange();
+    range.setStart(from.node, from.offset);
+    range.setEnd(to.node, to.offset);
+    return range;
+};
+
+/** Every match on the pages of `workspace`, in document order (at most MAX_FIND_MATCHES). */
+export const findMatches = (workspace: HTMLElement, pattern: RegExp): FindMatch[] => {
+    const matches: FindMatch[] = [];
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    pages.forEach((page, pageIndex) => {
+        collectRuns(page, true).forEach(run => {
+            pattern.lastIndex = 0;
+            for (let match = pattern.exec(run.text); match && matches.length < MAX_FIND_MATCHES; match = pattern.exec(run.text)) {
+                if (match[0].length === 0) {
+                    pattern.lastIndex++;
+                    continue;
+                }
+                matches.push({
+                    range: runRange(run, match.index, match.index + match[0].length),
+                    pageIndex,
+                    text: match[0],
+                    result: match,
+                    generated: run.generated
+                });
+            }
+        });
+    });
+    return matches;
+};
+
+/**
+ * Replacement text for one match. With a regex, `$1`…`$99`, `$<name>`, `$&`, `` $` ``, `$'`
+ * and `$$` are expanded from the match as found in its block, as String.replace does (the
+ * pattern is not run again on the bare match, where lookarounds and anchors lose their context).
+ */
+export const replacementFor = (match: FindMatch, replacement: string, options: FindOptions) => {
+    if (!options.regex) return replacement;
+    const { result } = match;
+    const groupCount = result.length - 1;
+    const group = (n: number) => result[n] ?? '';
+    return replacement.replace(/\$(\$|&|`|'|<([^>]*)>|\d{1,2})/g, (token, code: string, name: string | undefined) => {
+        if (code === '$') return '$';
+        if (code === '&') return result[0];
+        if (code === '`') return result.input.slice(0, result.index);
+        if (code === "'") return result.input.slice(result.index + result[0].length);
+        if (name !== undefined) return result.groups ? result.groups[name] ?? '' : token;
+        const n = Number(code);
+        if (n >= 1 && n <= groupCount) return group(n);
+        // "$10" with fewer than ten groups is $1 followed by "0"
+        const first = Number(code[0]);
+        if (code.length === 2 && first >= 1 && first <= groupCount) return group(first) + code[1];
+        return token;
+    });
+};
+
+/**
+ * Replaces the text of a match. The new text goes into the first text node the match
+ * touches (so it takes that node's formatting); the rest of the match is removed from the
+ * following nodes. Returns false when the document changed under the match. Generated
+ * matches are the caller's to skip.
+ */
+export const replaceMatch = (match: Pick<FindMatch, 'range' | 'text'>, text: string) => {
+    const { range } = match;
+    if (range.collapsed || range.toString() !== match.text) return false;
+    const startNode = range.startContainer as Text;
+    const endNode = range.endContainer as Text;
+    if (startNode === endNode) {
+        startNode.replaceData(range.startOffset, range.endOffset - range.startOffset, text);
+        return true;
+    }
+    const endOffset = range.endOffset;
+    const between: Text[] = [];
+    const walker = startNode.ownerDocument.createTreeWalker(range.commonAncestorContainer, NodeFilter.SHOW_TEXT);
+    walker.currentNode = startNode;
+    for (let node = walker.nextNode() as Text | null; node && node !== endNode; node = walker.nextNode() as Text | null) {
+        between.push(node);
+    }
+    startNode.replaceData(range.startOffset, startNode.length - range.startOffset, text);
+    between.forEach(node => node.remove());
+    endNode.deleteData(0, endOffset);
+    return true;
+};
+
+/**
+ * Replaces every match but the generated ones, last first so earlier ranges stay valid.
+ * Returns how many were replaced.
+ */
+export const replaceAllMatches = (matches: FindMatch[], replacement: string, options: FindOptions) => {
+    let replaced = 0;
+    [...matches].reverse().forEach(match => {
+        if (!match.generated && replaceMatch(match, replacementFor(match, replacement, options))) replaced++;
+    });
+    return replaced;
+};
+
+/** Paints the matches and the current one; a no-op where the Highlight API is missing. */
+export const highlightMatches = (matches: FindMatch[], currentIndex: number) => {
+    if (typeof CSS === 'undefined' || !('highlights' in CSS) || typeof Highlight === 'undefined') return;
+    CSS.highlights.set(FIND_HIGHLIGHT, new Highlight(...matches.map(match => match.range)));
+    const current = matches[currentIndex];
+    if (current) {
+        CSS.highlights.set(FIND_CURRENT_HIGHLIGHT, new Highlight(current.range));
+    } else {
+        CSS.highlights.delete(FIND_CURRENT_HIGHLIGHT);
+    }
+};
+
+export const clearFindHighlights = () => {
+    if (typeof CSS === 'undefined' || !('highlights' in CSS)) return;
+    CSS.highlights.delete(FIND_HIGHLIGHT);
+    CSS.highlights.delete(FIND_CURRENT_HIGHLIGHT);
+};
@@ -0,0 +1,214 @@
+// utils/fontFiles.ts
+//
+// Finds the font files behind the CSS font families of the document, for writers that embed
+// fonts (the PDF writer). A family is looked up, in order, among the fonts the user uploaded,
+// the @font-face rules of the page's style sheets, the web fonts bundled with the app
+// (BUNDLED_FONTS) and, where the browser allows it, the installed system fonts.
+
+import { BUNDLED_FONTS, bundledFontFile } from '../constants';
+import { loadUrlBytes } from './dataUrl';
+import { isFontAvailable, StoredFont } from './fontUtils';
+import { parseSfnt, SfntFont } from './sfnt';
+
+/** One face of a family; a face split by unicode-range has one font per file, in lookup order. */
+export interface LoadedFace {
+    family: string;
+    weight: number;
+    italic: boolean;
+    fonts: SfntFont[];
+}
+
+type FontFile = () => Promise<SfntFont | null>;
+
+interface FaceSource {
+    minWeight: number;
+    maxWeight: number;
+    italic: boolean;
+    files: FontFile[];
+}
+
+// Minimal typing of the Local Font Access API (Chromium only)
+interface LocalFontData {
+    family: string;
+    style: string;
+    blob: () => Promise<Blob>;
+}
+
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace', 'ui-rounded', 'math', 'emoji', 'fangsong']);
+
+const parseFont = async (bytes: Uint8Array | null, family: string): Promise<SfntFont | null> => {
+    if (!bytes) return null;
+    try {
+        return await parseSfnt(bytes, family);
+    } catch {
+        return null;
+    }
+};
+
+// The first source of an @font-face `src` list that can be embedded (WOFF 2 cannot)
+const fromUrls = (urls: string[], family: string): FontFile => async () => {
+    for (const url of urls) {
+        const font = await parseFont(await loadUrlBytes(url), family);
+        if (font) return font;
+    }
+    return null;
+};
+
+const parseWeightRange = (value: string): [number, number] => {
+    const weights = value.trim().split(/\s+/).map(part => (part === 'bold' ? 700 : part === 'normal' || part === '' ? 400 : parseInt(part, 10) || 400));
+    return [Math.min(...weights), Math.max(...weights)];
+};
+
+const splitFamilies = (fontFamily: string) => fontFamily.split(',').map(family => family.replace(/['"]/g, '').trim()).filter(Boolean);
+
+const collectFontFaceRules = (rules: CSSRuleList, found: CSSFontFaceRule[]) => {
+    Array.from(rules).forEach(rule => {
+        if (rule instanceof CSSFontFaceRule) found.push(rule);
+        const nested = (rule as CSSGroupingRule).cssRules;
+        if (nested) collectFontFaceRules(nested, found);
+    });
+};
+
+const readFontFaceSources = (family: string): FaceSource[] => {
+    const sources: FaceSource[] = [];
+    Array.from(document.styleSheets).forEach(sheet => {
+        const rules: CSSFontFaceRule[] = [];
+        try {
+            collectFontFaceRules(sheet.cssRules, rules);
+        } catch {
+            return; // cross-origin sheets (Google Fonts) cannot be read
+        }
+        rules.forEach(rule => {
+            if (splitFamilies(rule.style.getPropertyValue('font-family'))[0]?.toLowerCase() !== family.toLowerCase()) return;
+            const base = sheet.href || document.baseURI;
+            const urls = Array.from(rule.style.getPropertyValue('src').matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)(\s*format\(\s*['"]?([\w-]+))?/g))
+                .filter(match => match[4] !== 'woff2')
+                .map(match => new URL(match[2], base).href);
+            if (urls.length === 0) return;
+            const [minWeight, maxWeight] = parseWeightRange(rule.style.getPropertyValue('font-weight'));
+            const italic = /italic|oblique/.test(rule.style.getPropertyValue('font-style'));
+            // Faces split by unicode-range come as several rules with the same descriptors
+            const face = sources.find(source => source.minWeight === minWeight && source.maxWeight === maxWeight && source.italic === italic);
+            if (face) face.files.push(fromUrls(urls, family));
+            else sources.push({ minWeight, maxWeight, italic, files: [fromUrls(urls, family)] });
+        });
+    });
+    return sources;
+};
+
+const readBundledSources = (family: string): FaceSource[] => {
+    const font = BUNDLED_FONTS.find(item => item.family.toLowerCase() === family.toLowerCase());
+    if (!font) return [];
+    return font.weights.flatMap(weight => (font.italic ? [false, true] : [false]).map(italic => ({
+        minWeight: weight,
+        maxWeight: weight,
+        italic,
+        files: font.subsets.map(subset => fromUrls([`/fonts/${bundledFontFile(font, subset, weight, italic)}`], family))
+    })));
+};
+
+const STYLE_WEIGHTS: Array<[RegExp, number]> = [
+    [/thin|hairline/, 100], [/extra ?light|ultra ?light/, 200], [/light/, 300], [/medium/, 500],
+    [/semi ?bold|demi ?bold/, 600], [/extra ?bold|ultra ?bold/, 800], [/black|heavy/, 900], [/bold/, 700]
+];
+
+let localFonts: Promise<LocalFontData[]> | null = null;
+
+const readLocalSources = async (family: string): Promise<FaceSource[]> => {
+    const query = (window as unknown as { queryLocalFonts?: () => Promise<LocalFontData[]> }).queryLocalFonts;
+    if (!query) return [];
+    localFonts ||= query.call(window).catch(() => []);
+    return (await localFonts)
+        .filter(font => font.family.toLowerCase() === family.toLowerCase())
+        .map(font => {
+            const style = font.style.toLowerCase();
+            const weight = STYLE_WEIGHTS.find(([pattern]) => pattern.test(style))?.[1] ?? 400;
+            return {
+                minWeight: weight,
+                maxWeight: weight,
+                italic: /italic|oblique/.test(style),
+                files: [async () => parseFont(new Uint8Array(await (await font.blob()).arrayBuffer()), family)]
+            };
+        });
+};
+
+// CSS font matching, simplified: the requested style first, then the nearest weight (heavier
+// ones first for bold requests, lighter ones first otherwise).
+const matchFace = (sources: FaceSource[], weight: number, italic: boolean): FaceSource => {
+    const sameStyle = sources.filter(source => source.italic === italic);
+    const pool = sameStyle.length > 0 ? sameStyle : sources;
+    const distance = (source: FaceSource) => {
+        if (weight >= source.minWeight && weight <= source.maxWeight) return 0;
+        const gap = weight < source.minWeight ? source.minWeight - weight : weight - source.maxWeight;
+        const preferred = weight >= 500 ? weight < source.minWeight : weight > source.maxWeight;
+        return gap * 2 + (preferred ? 0 : 1);
+    };
+    return pool.reduce((best, source) => (distance(source) < distance(best) ? source : best));
+};
+
+const isGenericFamily = (family: string) => GENERIC_FAMILIES.has(family.toLowerCase());
+
+/**
+ * Loads font faces on demand, caching every file. `loadFace` returns null when the family has
+ * no file that can be embedded.
+ */
+export const createFontFileLoader = (storedFonts: StoredFont[]) => {
+    const sources = new Map<string, Promise<FaceSource[]>>();
+    const faces = new Map<string, Promise<LoadedFace | null>>();
+
+    const findSources = async (family: string): Promise<FaceSource[]> => {
+        const stored = storedFonts.filter(font => font.name.toLowerCase() === family.toLowerCase());
+        if (stored.length > 0) {
+            // Uploaded fonts are declared without descriptors, i.e. as a regular face
+            return [{ minWeight: 400, maxWeight: 400, italic: false, files: stored.map(font => fromUrls([font.dataUrl], family)) }];
+        }
+        const declared = readFontFaceSources(family);
+        if (declared.length > 0) return declared;
+        const bundled = readBundledSources(family);
+        if (bundled.length > 0) return bundled;
+        return readLocalSources(family);
+    };
+
+    const loadFace = (family: string, weight: number, italic: boolean): Promise<LoadedFace | null> => {
+        const key = `${family.toLowerCase()}|${weight}|${italic}`;
+        let face = faces.get(key);
+        if (!face) {
+            face = (async () => {
+                let familySources = sources.get(family.toLowerCase());
+                if (!familySources) {
+                    familySources = findSources(family);
+                    sources.set(family.toLowerCase(), familySources);
+                }
+                const available = await familySources;
+                if (available.length === 0) return null;
+                const source = matchFace(available, weight, italic);
+                const fonts = (await Promise.all(source.files.map(file => file()))).filter((font): font is SfntFont => font !== null);
+                return fonts.length > 0 ? { family, weight: source.maxWeight, italic: source.italic, fonts } : null;
+            })();
+            faces.set(key, face);
+        }
+        return face;
+    };
+
+    /**
+     * The faces a CSS font-family list resolves to, in fallback order. Families the browser
+     * cannot render are skipped, as it skips them; `missing` names the first one it does
+     * render (or the generic default it ends on) when no file for it can be loaded.
+     */
+    const loadStack = async (fontFamily: string, weight: number, italic: boolean): Promise<{ faces: LoadedFace[]; missing: string | null }> => {
+        const loaded: LoadedFace[] = [];
+        for (const family of splitFamilies(fontFamily)) {
+            const face = isGenericFamily(family) ? null : await loadFace(family, weight, italic);
+            if (face) {
+                loaded.push(face);
+                continue;
+            }
+            if (isGenericFamily(family) || isFontAvailable(family)) {
+                return { faces: loaded, missing: loaded.length > 0 ? null : family };
+            }
+        }
+        return { faces: loaded, missing: loaded.length > 0 ? null : splitFamilies(fontFamily)[0] || 'the default font' };
+    };
+
+    return { loadFace, loadStack };
+};
@@ -102,3 +102,72 @@ export const getSystemFonts = async (): Promise<FontDefinition[]> => {
             : isFontAvailable(font.value)
     }));
 };
+
+export interface StoredFont {
+    name: string;
+    dataUrl: string;
+}
+
+const FONT_DB_NAME = 'spywriter-fonts';
+const FONT_STORE = 'fonts';
+const FONT_STORAGE_KEY = 'custom_fonts';
+
+export const openFontDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(FONT_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FONT_STORE)) {
+            db.createObjectStore(FONT_STORE, { keyPath: 'name' });
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const loadFontsFromDb = async (): Promise<StoredFont[]> => {
+    try {
+        const db = await openFontDb();
+        const tx = db.transaction(FONT_STORE, 'readonly');
+        const getAll = tx.objectStore(FONT_STORE).getAll();
+        return await new Promise<StoredFont[]>((resolve) => {
+            getAll.onsuccess = () => resolve(getAll.result || []);
+            getAll.onerror = () => resolve([]);
+        });
+    } catch {
+        return [];
+    }
+};
+
+export const saveFontToDb = async (font: StoredFont) => {
+    try {
+        const db = await openFontDb();
+        const tx = db.transaction(FONT_STORE, 'readwrite');
+        tx.objectStore(FONT_STORE).put(font);
+    } catch {
+        // ignore db errors
+    }
+};
+
+export const loadFontsFromStorage = (): StoredFont[] => {
+    try {
+        const stored = localStorage.getItem(FONT_STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as StoredFont[]) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Returns every custom font known on this device (localStorage first, then IndexedDB),
+ * deduplicated by name.
+ */
+export const loadAllCustomFonts = async (): Promise<StoredFont[]> => {
+    const fonts = [...loadFontsFromStorage(), ...(await loadFontsFromDb())];
+    const seen = new Set<string>();
+    return fonts.filter(font => {
+        const key = font.name.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
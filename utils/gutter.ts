@@ -0,0 +1,49 @@
+// utils/gutter.ts
+//
+// KDP gutter (inside margin) lookup by page count, used to warn or re-apply the gutter
+// when a book grows or shrinks across a threshold.
+
+import { KDP_GUTTER_TABLE } from '../constants';
+import { GutterRange } from '../types';
+
+export const KDP_MAX_PAGES = KDP_GUTTER_TABLE[KDP_GUTTER_TABLE.length - 1].maxPages;
+
+/**
+ * Index of the KDP gutter range for a page count. Books shorter than the first range
+ * use it anyway; -1 means the book is longer than KDP prints.
+ */
+export const getGutterRangeIndex = (pageCount: number): number => {
+    if (pageCount > KDP_MAX_PAGES) return -1;
+    const index = KDP_GUTTER_TABLE.findIndex(range => pageCount <= range.maxPages);
+    return index === -1 ? KDP_GUTTER_TABLE.length - 1 : index;
+};
+
+export const getGutterRange = (pageCount: number): GutterRange | null => {
+    const index = getGutterRangeIndex(pageCount);
+    return index === -1 ? null : KDP_GUTTER_TABLE[index];
+};
+
+export const formatGutterRange = (range: GutterRange) => `${range.minPages}–${range.maxPages} pages`;
+
+export interface GutterCheck {
+    rangeIndex: number;
+    range: GutterRange | null;
+    requiredGutter: number | null;
+    tooSmall: boolean;
+    tooManyPages: boolean;
+}
+
+// Compares the current inside margin with what KDP requires for the page count.
+export const checkGutter = (pageCount: number, currentGutter: number): GutterCheck => {
+    const rangeIndex = getGutterRangeIndex(pageCount);
+    const range = rangeIndex === -1 ? null : KDP_GUTTER_TABLE[rangeIndex];
+    const requiredGutter = range ? range.gutter : null;
+    return {
+        rangeIndex,
+        range,
+        requiredGutter,
+        // Margins are stored with float noise from dragging; compare at 1/1000"
+        tooSmall: requiredGutter !== null && Math.round(currentGutter * 1000) < Math.round(requiredGutter * 1000),
+        tooManyPages: rangeIndex === -1
+    };
+};
@@ -0,0 +1,188 @@
+// utils/history.ts
+//
+// Undo history. Each entry is labeled with the operation that made it ("Insert TOC", "Crop
+// image") and remembers where the user was: the selection, as text offsets in the workspace,
+// and the scroll position. Entries share storage: the HTML is kept as chunks (one per page,
+// with every <img> on its own, since images are usually data URLs), and a chunk equal to
+// one of the previous entry is stored as the very same string. An entry therefore costs the
+// pages it changed rather than the whole book; the oldest entries are dropped past
+// MAX_HISTORY_ENTRIES or MAX_HISTORY_BYTES.
+
+import { DocumentState } from '../types';
+
+export const MAX_HISTORY_ENTRIES = 200;
+export const MAX_HISTORY_BYTES = 64 * 1024 * 1024;
+
+export interface SelectionBookmark {
+    start: number; // offsets in the text of the workspace
+    end: number;
+}
+
+export interface HistoryPosition {
+    selection: SelectionBookmark | null;
+    scrollTop: number;
+}
+
+export interface HistoryEntry extends HistoryPosition {
+    id: number;
+    label: string;
+    timestamp: number;
+    chunks: string[];
+    length: number; // of the joined HTML
+    cssContent: string;
+    fileName: string;
+}
+
+let nextEntryId = 1;
+
+// A page div, whatever the order of its attributes (imported and merged pages may carry data-*
+// or style before class); no capture groups, as split() would return them
+const PAGE_START = /(?=<div\b[^>]*?\sclass\s*=\s*(?:"(?:[^"]*\s)?page(?:\s[^"]*)?"|'(?:[^']*\s)?page(?:\s[^']*)?'|page(?=[\s>])))/i;
+const IMAGE_TAG = /(<img\b[^>]*>)/i;
+
+const splitChunks = (html: string) => html
+    .split(IMAGE_TAG)
+    .flatMap(part => (IMAGE_TAG.test(part) ? [part] : part.split(PAGE_START)))
+    .filter(Boolean);
+
+// split() returns slices that keep the whole document string alive (V8 sliced strings);
+// a chunk kept in the history gets its own copy. The concatenation is flattened into a new
+// string, and the slice of it refers to that copy only.
+const detach = (text: string): string => (` ${text}`).slice(1);
+
+/** An entry for `state`, reusing the unchanged chunks of `previous`. */
+export const createHistoryEntry = (
+    state: DocumentState,
+    label: string,
+    previous: HistoryEntry | null,
+    position: HistoryPosition = { selection: null, scrollTop: 0 }
+): HistoryEntry => {
+    const known = new Map((previous?.chunks ?? []).map(chunk => [chunk, chunk]));
+    return {
+        id: nextEntryId++,
+        label,
+        timestamp: Date.now(),
+        chunks: splitChunks(state.htmlContent).map(chunk => known.get(chunk) ?? detach(chunk)),
+        length: state.htmlContent.length,
+        cssContent: previous?.cssContent === state.cssContent ? previous.cssContent : state.cssContent,
+        fileName: state.fileName,
+        ...position
+    };
+};
+
+export const entryHtml = (entry: HistoryEntry) => entry.chunks.join('');
+
+export const entryDocState = (entry: HistoryEntry): DocumentState => ({
+    htmlContent: entryHtml(entry),
+    cssContent: entry.cssContent,
+    fileName: entry.fileName
+});
+
+export const isSameHtml = (entry: HistoryEntry, html: string) => entry.length === html.length && entryHtml(entry) === html;
+
+const entryStrings = (entry: HistoryEntry) => new Set([...entry.chunks, entry.cssContent]);
+
+// How many entries hold each distinct string, and the memory of those strings
+const countStrings = (entries: HistoryEntry[]) => {
+    const counts = new Map<string, number>();
+    let bytes = 0;
+    entries.forEach(entry => entryStrings(entry).forEach(text => {
+        const count = counts.get(text) ?? 0;
+        if (count === 0) bytes += text.length * 2;
+        counts.set(text, count + 1);
+    }));
+    return { counts, bytes };
+};
+
+/** Memory held by the entries (UTF-16), counting a shared chunk or style sheet once. */
+export const historyBytes = (entries: HistoryEntry[]) => countStrings(entries).bytes;
+
+/** Appends `entry` after `entries[index]` (dropping the redo branch) and trims the oldest. */
+export const appendHistoryEntry = (entries: HistoryEntry[], index: number, entry: HistoryEntry) => {
+    const next = [...entries.slice(0, index + 1), entry];
+    while (next.length > MAX_HISTORY_ENTRIES) next.shift();
+    // Counted once; a dropped entry frees only the strings no other entry shares
+    const { counts, bytes: counted } = countStrings(next);
+    let bytes = counted;
+    while (next.length > 2 && bytes > MAX_HISTORY_BYTES) {
+        entryStrings(next.shift()!).forEach(text => {
+            const count = counts.get(text)! - 1;
+            if (count > 0) {
+                counts.set(text, count);
+            } else {
+                counts.delete(text);
+                bytes -= text.length * 2;
+            }
+        });
+    }
+    return { entries: next, index: next.length - 1 };
+};
+
+// The text nodes of `root` in document order, with the text offset each one starts at
+const textNodes = (root: HTMLElement) => {
+    const nodes: Array<{ node: Text; start: number }> = [];
+    const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    let offset = 0;
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        nodes.push({ node, start: offset });
+        offset += node.length;
+    }
+    return nodes;
+};
+
+export const getSelectionBookmark = (root: HTMLElement): SelectionBookmark | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+    const range = selection.getRangeAt(0);
+    if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+    const offsetOf = (node: Node, offset: number) => {
+        const before = root.ownerDocument.createRange();
+        before.selectNodeContents(root);
+        before.setEnd(node, offset);
+        return before.toString().length;
+    };
+    return { start: offsetOf(range.startContainer, range.startOffset), end: offsetOf(range.endContainer, range.endOffset) };
+};
+
+/** Puts the selection back at the bookmarked text offsets, clamped to the current text. */
+export const restoreSelectionBookmark = (root: HTMLElement, bookmark: SelectionBookmark) => {
+    const nodes = textNodes(root);
+    if (nodes.length === 0) return;
+    const locate = (offset: number) => {
+        const found = [...nodes].reverse().find(item => item.start <= offset) ?? nodes[0];
+        return { node: found.node, offset: Math.min(offset - found.start, found.node.length) };
+    };
+    const start = locate(bookmark.start);
+    const end = locate(Math.max(bookmark.start, bookmark.end));
+    const range = root.ownerDocument.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+    bold: 'Bold',
+    italic: 'Italic',
+    underline: 'Underline',
+    justifyLeft: 'Align left',
+    justifyCenter: 'Center',
+    justifyRight: 'Align right',
+    justifyFull: 'Justify',
+    fontName: 'Change font',
+    fontSize: 'Change font size',
+    foreColor: 'Change text color',
+    lineHeight: 'Change line spacing',
+    letterSpacing: 'Change letter spacing',
+    textTransform: 'Change capitalization'
+};
+
+/** History label for a toolbar formatting command ("Bold", "Apply H2"). */
+export const formatHistoryLabel = (command: string, value?: string) => {
+    if (command === 'formatBlock') {
+        const tag = (value ?? 'p').replace(/[<>]/g, '');
+        return tag.toLowerCase() === 'p' ? 'Apply paragraph' : `Apply ${tag.toUpperCase()}`;
+    }
+    return FORMAT_LABELS[command] ?? 'Format';
+};
@@ -0,0 +1,307 @@
+// utils/htmlImport.ts
+//
+// HTML import steps shared by the Open dialog and the batch CLI: parse the file, collect inline,
+// companion and remote CSS, link companion images by file name, loosen fixed widths, find the
+// page size the document declares, and scope its CSS under the editor workspace.
+
+const normalizeSizeValue = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return '';
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return `${trimmed}px`;
+    return trimmed;
+};
+
+const PAGE_SIZE_KEYWORDS: Record<string, { width: string; height: string }> = {
+    letter: { width: '8.5in', height: '11in' },
+    legal: { width: '8.5in', height: '14in' },
+    tabloid: { width: '11in', height: '17in' },
+    a4: { width: '210mm', height: '297mm' },
+    a5: { width: '148mm', height: '210mm' }
+};
+
+const parsePageSize = (rawValue: string) => {
+    const normalized = rawValue.trim().toLowerCase();
+    if (!normalized) return null;
+
+    const tokens = normalized.split(/\s+/).filter(Boolean);
+    const keyword = tokens.find(token => PAGE_SIZE_KEYWORDS[token]);
+    const isLandscape = tokens.includes('landscape');
+    const isPortrait = tokens.includes('portrait');
+
+    if (keyword) {
+        const size = PAGE_SIZE_KEYWORDS[keyword];
+        if (isLandscape) return { width: size.height, height: size.width };
+        if (isPortrait) return size;
+        return size;
+    }
+
+    if (tokens.length >= 2) {
+        const width = normalizeSizeValue(tokens[0]);
+        const height = normalizeSizeValue(tokens[1]);
+        if (width && height) return { width, height };
+    }
+
+    return null;
+};
+
+export const detectPageSizeFromCss = (css: string) => {
+    const pageMatch = css.match(/@page\s*{[^}]*size\s*:\s*([^;]+);/i);
+    if (pageMatch && pageMatch[1]) {
+        const parsed = parsePageSize(pageMatch[1]);
+        if (parsed) return parsed;
+    }
+
+    const pageBlockMatch = css.match(/\.page\s*{[^}]*}/i);
+    if (pageBlockMatch) {
+        const block = pageBlockMatch[0];
+        const widthMatch = block.match(/width\s*:\s*([^;]+);/i);
+        const heightMatch = block.match(/height\s*:\s*([^;]+);/i);
+        if (widthMatch && heightMatch) {
+            const width = normalizeSizeValue(widthMatch[1]);
+            const height = normalizeSizeValue(heightMatch[1]);
+            if (width && height) return { width, height };
+        }
+    }
+
+    return null;
+};
+
+export const detectPageSizeFromElement = (pageEl: HTMLElement | null) => {
+    if (!pageEl) return null;
+    const width = pageEl.style.width ? normalizeSizeValue(pageEl.style.width) : '';
+    const height = pageEl.style.height ? normalizeSizeValue(pageEl.style.height) : '';
+    if (width && height) return { width, height };
+    return null;
+};
+
+export const scopeImportedCss = (css: string, scopeSelector = '.editor-workspace') => {
+    if (!css.trim()) return '';
+    const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, '');
+    const blocks: string[] = [];
+    let start = 0;
+    let depth = 0;
+    for (let i = 0; i < withoutComments.length; i += 1) {
+        const ch = withoutComments[i];
+        if (ch === '{') depth += 1;
+        if (ch === '}') {
+            depth -= 1;
+            if (depth === 0) {
+                const block = withoutComments.slice(start, i + 1).trim();
+                if (block) blocks.push(block);
+                start = i + 1;
+            }
+        }
+    }
+
+    const baseScope = `${scopeSelector} .page`;
+    const prefixSelector = (selector: string) => {
+        const trimmed = selector.trim();
+        if (!trimmed) return '';
+        if (trimmed.startsWith(baseScope) || trimmed.startsWith(scopeSelector)) return trimmed;
+        if (trimmed.startsWith(':root')) return scopeSelector;
+        if (/^(html|body)\b/.test(trimmed)) {
+            return trimmed.replace(/^(html|body)\b/, baseScope);
+        }
+        if (trimmed.startsWith('.page')) return `${scopeSelector} ${trimmed}`;
+        if (trimmed.startsWith('*')) return `${baseScope} ${trimmed}`;
+        if (trimmed.startsWith(':')) return `${baseScope}${trimmed}`;
+        return `${baseScope} ${trimmed}`;
+    };
+
+    const scopedBlocks = blocks.map(block => {
+        if (block.startsWith('@font-face') || block.startsWith('@keyframes')) return block;
+        if (block.startsWith('@page')) return '';
+        if (block.startsWith('@import')) return block;
+        if (block.startsWith('@media') || block.startsWith('@supports') || block.startsWith('@layer')) {
+            const open = block.indexOf('{');
+            const head = block.slice(0, open + 1);
+            const inner = block.slice(open + 1, -1);
+            const scopedInner = scopeImportedCss(inner, scopeSelector);
+            return `${head}${scopedInner}}`;
+        }
+
+        const open = block.indexOf('{');
+        if (open === -1) return block;
+        const selectors = block.slice(0, open).trim();
+        let body = block.slice(open + 1, -1).trim();
+        const scopedSelectors = selectors
+            .split(',')
+            .map(prefixSelector)
+            .filter(Boolean)
+            .join(', ');
+        if (!scopedSelectors) return '';
+
+        // If the imported CSS targets the page container, strip out fixed dimensions
+        // because we want our `applyLayoutOverride` to control the physical page size.
+        if (scopedSelectors.includes('.page')) {
+            body = body.replace(/width\s*:\s*[^;]+;?/gi, '')
+                .replace(/height\s*:\s*[^;]+;?/gi, '')
+                .replace(/min-height\s*:\s*[^;]+;?/gi, '')
+                .replace(/max-height\s*:\s*[^;]+;?/gi, '');
+        }
+
+        return `${scopedSelectors} { ${body} }`;
+    });
+
+    return scopedBlocks.filter(Boolean).join('\n');
+};
+
+export const unwrapSingleContainer = (page: HTMLElement) => {
+    if (page.children.length !== 1) return;
+    const child = page.children[0] as HTMLElement;
+    if (!child || child.classList.contains('page-footer')) return;
+    if (child.classList.contains('page')) return;
+    if (child.children.length === 0) return;
+
+    while (child.firstChild) {
+        page.insertBefore(child.firstChild, child);
+    }
+    child.remove();
+};
+
+export const fixClippedContainers = (page: HTMLElement) => {
+    const candidates = page.querySelectorAll('div, section, article, main, ul, ol');
+    candidates.forEach(node => {
+        const el = node as HTMLElement;
+        if (!el.isConnected) return;
+        if (el.classList.contains('page')) return;
+        if (el.classList.contains('page-footer')) return;
+
+        const computed = window.getComputedStyle(el);
+        const overflowY = computed.overflowY || computed.overflow;
+        const overflowX = computed.overflowX || computed.overflow;
+        const isClipping = ['hidden', 'clip', 'scroll', 'auto'].includes(overflowY)
+            || ['hidden', 'clip', 'scroll', 'auto'].includes(overflowX);
+
+        if (!isClipping) return;
+
+        if (el.scrollHeight > el.clientHeight + 2 || el.scrollWidth > el.clientWidth + 2) {
+            el.style.overflow = 'visible';
+            el.style.overflowX = 'visible';
+            el.style.overflowY = 'visible';
+            el.style.height = 'auto';
+            el.style.maxHeight = 'none';
+        }
+    });
+};
+
+export interface HtmlImportResult {
+    html: string; // body markup wrapped in at least one `.page`
+    css: string; // inline, companion and remote (@import) CSS, not yet scoped
+    pageSize: { width: string; height: string } | null; // declared by the first page or @page/.page CSS
+    linkedImages: number;
+}
+
+/**
+ * Parses an HTML document for import. `images` maps companion file names to data URLs and
+ * `stylesheets` companion CSS file names to their text; both are matched by bare file name.
+ */
+export const parseHtmlImport = (
+    text: string,
+    companions: { images?: Map<string, string>; stylesheets?: Map<string, string> } = {}
+): HtmlImportResult => {
+    const imageMap = companions.images || new Map<string, string>();
+    const cssMap = companions.stylesheets || new Map<string, string>();
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(text, 'text/html');
+
+    // Extract and Clean CSS (inline <style>)
+    const styleTags = doc.querySelectorAll('style');
+    let inlineCss = '';
+    styleTags.forEach(tag => {
+        const css = tag.innerHTML;
+        inlineCss += css + '\n';
+        tag.remove();
+    });
+
+    // Extract linked CSS <link rel="stylesheet">
+    const linkTags = Array.from(doc.querySelectorAll('link[rel="stylesheet"]')) as HTMLLinkElement[];
+    let linkedCss = '';
+    linkTags.forEach(link => {
+        const href = link.getAttribute('href') || '';
+        const rawFilename = href.split(/[\\/]/).pop();
+        const decodedFilename = rawFilename ? decodeURIComponent(rawFilename) : '';
+
+        if (decodedFilename && cssMap.has(decodedFilename)) {
+            linkedCss += (cssMap.get(decodedFilename) || '') + '\n';
+            link.remove();
+            return;
+        }
+
+        if (href.startsWith('http://') || href.startsWith('https://') || href.startsWith('//')) {
+            linkedCss += `@import url("${href}");\n`;
+            link.remove();
+        }
+    });
+
+    // Auto-link companion images
+    const images = doc.querySelectorAll('img');
+    let linkedCount = 0;
+    images.forEach(img => {
+        const src = img.getAttribute('src');
+        if (src) {
+            // Extract just the filename from path (e.g., /Users/me/img.png -> img.png)
+            // Handle both forward and backslashes
+            const rawFilename = src.split(/[\\/]/).pop();
+            // Also try decoding URI (e.g. Screenshot%20(7).png)
+            const decodedFilename = rawFilename ? decodeURIComponent(rawFilename) : '';
+
+            if (decodedFilename && imageMap.has(decodedFilename)) {
+                img.src = imageMap.get(decodedFilename)!;
+                linkedCount++;
+            }
+        }
+    });
+
+    // Sanitize fixed widths that cause margin overflow
+    doc.body.querySelectorAll('*').forEach(el => {
+        const htmlEl = el as HTMLElement;
+        // Avoid stripping widths from small structural elements if they are reasonable,
+        // but generally we want imported text/div boxes to reflow.
+        if (htmlEl.style.width && htmlEl.style.width.includes('px')) {
+            const w = parseFloat(htmlEl.style.width);
+            if (w > 500) { // If it's a huge hardcoded width, it'll break our pages
+                htmlEl.style.maxWidth = '100%';
+                htmlEl.style.width = 'auto'; // Let it reflow
+            }
+        }
+
+        // Sanitize non-breaking whitespaces that force text overflow
+        if (htmlEl.style.whiteSpace === 'nowrap' || htmlEl.style.whiteSpace === 'pre') {
+            htmlEl.style.whiteSpace = 'normal';
+        }
+
+        // Remove hardcoded min-widths on text spans which prevent wrapping
+        if (htmlEl.style.minWidth && (htmlEl.tagName === 'SPAN' || htmlEl.tagName === 'P' || htmlEl.tagName === 'DIV')) {
+            htmlEl.style.minWidth = '';
+        }
+    });
+
+    let bodyContent = doc.body.innerHTML;
+
+    // Wrap in page if needed
+    const tempDiv = document.createElement('div');
+    tempDiv.innerHTML = bodyContent;
+
+    // Only remove contenteditable="false" attributes that block editing
+    tempDiv.querySelectorAll('[contenteditable="false"]').forEach(el => {
+        el.removeAttribute('contenteditable');
+    });
+
+    // HTML exported by this app wraps the pages in the workspace container
+    tempDiv.querySelectorAll('.editor-workspace').forEach(wrapper => {
+        wrapper.replaceWith(...Array.from(wrapper.childNodes));
+    });
+
+    bodyContent = tempDiv.innerHTML;
+
+    if (!tempDiv.querySelector('.page')) {
+        bodyContent = `<div class="page">${bodyContent}</div>`;
+    }
+
+    const rawImportedCss = `${linkedCss}\n${inlineCss}`.trim();
+    const detectedSize = detectPageSizeFromElement(tempDiv.querySelector('.page'))
+        || detectPageSizeFromCss(rawImportedCss);
+
+    return { html: bodyContent, css: rawImportedCss, pageSize: detectedSize, linkedImages: linkedCount };
+};
@@ -0,0 +1,539 @@
+// utils/markdown.ts
+//
+// Markdown in and out. Import turns a Markdown draft (CommonMark blocks plus GFM tables and
+// strikethrough) into page markup for the paginator: headings h1-h3 come in approved for the
+// Structure panel, and `<!-- pagebreak -->`, `\pagebreak` or `\newpage` lines start a new page
+// the same way a user page break does. Export walks the paginated workspace back into Markdown
+// and reports what Markdown has no syntax for (shapes, text layers, QR codes, practice lines).
+
+import { isSplitContinuation } from './pagination';
+import { FOOTER_SELECTOR } from './paginationMeasurer';
+
+export interface MarkdownExportResult {
+    markdown: string;
+    unsupported: string[]; // one line per construct kind, e.g. "2 shapes (text kept as paragraphs)"
+}
+
+const PAGE_BREAK_LINE = /^\s*(<!--\s*page-?break\s*-->|\\pagebreak|\\newpage)\s*$/i;
+const PAGE_BREAK_BLOCK = '\u0000pagebreak';
+const PAGE_BREAK_PAGE = '<div class="page" data-user-page-break="true"><div data-user-page-break="true" style="display:none;height:0;overflow:hidden;"></div>';
+
+export const isMarkdownFileName = (name: string) => /\.(md|markdown)$/i.test(name);
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// --- Import ---
+
+interface LinkDefinition {
+    href: string;
+    title: string;
+}
+
+interface ImportContext {
+    definitions: Map<string, LinkDefinition>;
+    images: Map<string, string>; // companion file name -> data URL
+    headingCount: number;
+}
+
+const HR_LINE = /^ {0,3}([-*_])( *\1){2,} *$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])( +|\t|$)(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const DEFINITION_LINE = /^ {0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+["'(](.*)["')])?\s*$/;
+// Inline link or image: [label](<url> "title") or [label](url "title"), where a bare url may
+// hold balanced parentheses (two levels deep), as in Wikipedia links.
+const INLINE_LINK = /(!?)\[([^\]]*)\]\(\s*(?:<([^<>\n]*)>|((?:[^\s()<>]|\((?:[^\s()<>]|\([^\s()<>]*\))*\))*))(?:\s+["'(]([^"')]*)["')])?\s*\)/g;
+
+// Links may only point to the web, to mail or inside the book: a `javascript:` (or any other
+// scheme) link in an opened file must not reach the webview. Browsers ignore control
+// characters and spaces inside a scheme, so they are dropped before the check.
+const isSafeHref = (href: string) => {
+    const scheme = href.replace(/[\u0000-\u0020]/g, '').match(/^([a-z][a-z\d+.-]*):/i);
+    return !scheme || /^(https?|mailto)$/i.test(scheme[1]);
+};
+
+const startsBlock = (line: string) => (
+    HR_LINE.test(line) || ATX_HEADING.test(line) || FENCE_OPEN.test(line) || /^ {0,3}>/.test(line)
+    || LIST_ITEM.test(line) || PAGE_BREAK_LINE.test(line)
+);
+
+const splitTableRow = (line: string) => {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+// Image sources that name a companion file resolve to its data URL, like HTML imports.
+const resolveImageSource = (src: string, ctx: ImportContext) => {
+    const fileName = decodeURIComponent(src.split(/[\\/]/).pop() || '');
+    return (fileName && ctx.images.get(fileName)) || src;
+};
+
+// `held` is shared with nested calls (link labels) so placeholders resolve once, at the top.
+const renderInline = (text: string, ctx: ImportContext, held?: string[]): string => {
+    const placeholders = held || [];
+    const hold = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+
+    let source = text
+        // Code spans first: nothing inside them is Markdown
+        .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => hold(`<code>${escapeHtml(code.trim())}</code>`))
+        .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char: string) => hold(escapeHtml(char)))
+        .replace(/<(https?:\/\/[^\s>]+)>/g, (_, url: string) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+
+    const link = (label: string, href: string, title: string | undefined, image: boolean) => {
+        const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+        if (image) return hold(`<img src="${escapeHtml(resolveImageSource(href, ctx))}" alt="${escapeHtml(label)}"${titleAttribute} style="max-width: 100%; height: auto;">`);
+        // Links to other schemes keep their text only
+        if (!isSafeHref(href)) return hold(renderInline(label, ctx, placeholders));
+        return hold(`<a href="${escapeHtml(href)}"${titleAttribute}>${renderInline(label, ctx, placeholders)}</a>`);
+    };
+    const reference = (label: string, id: string, image: boolean, raw: string) => {
+        const definition = ctx.definitions.get((id || label).trim().toLowerCase());
+        return definition ? link(label, definition.href, definition.title, image) : raw;
+    };
+
+    source = source
+        .replace(INLINE_LINK, (_, bang: string, label: string, bracketed: string | undefined, href: string | undefined, title?: string) => (
+            link(label, bracketed ?? href ?? '', title, bang === '!')
+        ))
+        .replace(/(!?)\[([^\]]+)\]\[([^\]]*)\]/g, (raw, bang: string, label: string, id: string) => reference(label, id, bang === '!', raw))
+        .replace(/(!?)\[([^\]]+)\](?![[(:])/g, (raw, bang: string, label: string) => reference(label, '', bang === '!', raw));
+
+    let html = escapeHtml(source)
+        .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g, '<strong><em>$1</em></strong>')
+        .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+        .replace(/(^|[^\w*])\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)/g, '$1<em>$2</em>')
+        .replace(/(^|[^\w_])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+        // Hard breaks: two trailing spaces or a backslash before the newline
+        .replace(/( {2,}|\\)\n/g, '<br>')
+        .replace(/\n/g, ' ');
+
+    if (held) return html;
+    while (/\u0000\d+\u0000/.test(html)) {
+        html = html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => placeholders[Number(index)]);
+    }
+    return html;
+};
+
+const parseList = (lines: string[], start: number, ctx: ImportContext): { html: string; next: number } => {
+    const first = lines[start].match(LIST_ITEM)!;
+    const indent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const items: string[][] = [];
+    let i = start;
+    while (i < lines.length) {
+        const line = lines[i];
+        const match = line.match(LIST_ITEM);
+        if (match && match[1].length === indent && /\d/.test(match[2]) === ordered) {
+            const contentIndent = match[1].length + match[2].length + (match[3].length > 4 ? 1 : Math.max(match[3].length, 1));
+            items.push([match[4]]);
+            i++;
+            // Continuation: indented lines (and blank lines followed by indented lines)
+            while (i < lines.length) {
+                const next = lines[i];
+                if (next.trim() === '') {
+                    const following = lines[i + 1];
+                    if (following !== undefined && following.trim() !== '' && following.search(/\S/) >= contentIndent) {
+                        items[items.length - 1].push('');
+                        i++;
+                        continue;
+                    }
+                    break;
+                }
+                if (next.search(/\S/) >= contentIndent) {
+                    items[items.length - 1].push(next.slice(contentIndent));
+                    i++;
+                } else if (!startsBlock(next) && items[items.length - 1].length === 1) {
+                    items[items.length - 1].push(next.trim()); // lazy continuation
+                    i++;
+                } else {
+                    break;
+                }
+            }
+            // A blank line between items keeps the list going
+            if (lines[i]?.trim() === '' && lines[i + 1]?.match(LIST_ITEM)?.[1].length === indent) i++;
+            continue;
+        }
+        break;
+    }
+    const startNumber = ordered ? parseInt(first[2], 10) : 1;
+    const tag = ordered ? 'ol' : 'ul';
+    const body = items.map(itemLines => {
+        const task = itemLines[0].match(/^\[([ xX])\]\s+(.*)$/);
+        if (task) itemLines[0] = `${task[1] === ' ' ? '☐' : '☑'} ${task[2]}`;
+        const inner = parseBlocks(itemLines, ctx).join('');
+        // Tight items: a single paragraph sits directly in the <li>
+        const single = inner.match(/^<p>([\s\S]*?)<\/p>(<[uo]l[\s\S]*)?$/);
+        return `<li>${single && !single[1].includes('<p>') ? `${single[1]}${single[2] || ''}` : inner}</li>`;
+    }).join('');
+    return { html: `<${tag}${ordered && startNumber !== 1 ? ` start="${startNumber}"` : ''}>${body}</${tag}>`, next: i };
+};
+
+// Returns one HTML string per block; page-break lines come back as PAGE_BREAK_BLOCK.
+const parseBlocks = (lines: string[], ctx: ImportContext): string[] => {
+    const blocks: string[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+        if (PAGE_BREAK_LINE.test(line)) {
+            blocks.push(PAGE_BREAK_BLOCK);
+            i++;
+            continue;
+        }
+        const fence = line.match(FENCE_OPEN);
+        if (fence) {
+            const closing = new RegExp(`^ {0,3}${fence[2][0]}{${fence[2].length},}\\s*$`);
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !closing.test(lines[i])) {
+                code.push(lines[i].slice(Math.min(fence[1].length, lines[i].search(/\S|$/))));
+                i++;
+            }
+            i++;
+            const language = fence[3] ? ` class="language-${escapeHtml(fence[3])}"` : '';
+            blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+        const heading = line.match(ATX_HEADING);
+        if (heading) {
+            blocks.push(headingHtml(heading[1].length, heading[2] || '', ctx));
+            i++;
+            continue;
+        }
+        if (HR_LINE.test(line)) {
+            blocks.push('<hr>');
+            i++;
+            continue;
+        }
+        if (/^ {0,3}>/.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && lines[i].trim() !== '' && (/^ {0,3}>/.test(lines[i]) || !startsBlock(lines[i]))) {
+                quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+                i++;
+            }
+            blocks.push(`<blockquote>${parseBlocks(quoted, ctx).join('')}</blockquote>`);
+            continue;
+        }
+        if (LIST_ITEM.test(line) && LIST_ITEM.exec(line)![1].length < 4) {
+            const list = parseList(lines, i, ctx);
+            blocks.push(list.html);
+            i = list.next;
+            continue;
+        }
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+            const header = splitTableRow(line);
+            const alignments = splitTableRow(lines[i + 1]).map(cell => (
+                cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : ''
+            ));
+            const cell = (tag: string, text: string, index: number) => {
+                const align = alignments[index] ? ` style="text-align: ${alignments[index]};"` : '';
+                return `<${tag}${align}>${renderInline(text, ctx)}</${tag}>`;
+            };
+            i += 2;
+            const rows: string[] = [];
+            while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+                const cells = splitTableRow(lines[i]);
+                rows.push(`<tr>${header.map((_, index) => cell('td', cells[index] || '', index)).join('')}</tr>`);
+                i++;
+            }
+            blocks.push(`<table><thead><tr>${header.map((text, index) => cell('th', text, index)).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+            continue;
+        }
+        // Paragraph, possibly a setext heading
+        const paragraph: string[] = [];
+        let setextLevel = 0;
+        while (i < lines.length && lines[i].trim() !== '') {
+            if (paragraph.length > 0 && /^ {0,3}(=+|-+)\s*$/.test(lines[i])) {
+                setextLevel = lines[i].trim().startsWith('=') ? 1 : 2;
+                i++;
+                break;
+            }
+            if (paragraph.length > 0 && startsBlock(lines[i])) break;
+            paragraph.push(lines[i].replace(/^\s+/, ''));
+            i++;
+        }
+        const text = paragraph.join('\n').replace(/\s+$/, '');
+        blocks.push(setextLevel ? headingHtml(setextLevel, text, ctx) : `<p>${renderInline(text, ctx)}</p>`);
+    }
+    return blocks;
+};
+
+const headingHtml = (level: number, text: string, ctx: ImportContext) => {
+    const content = renderInline(text.trim(), ctx);
+    if (level > 3) return `<h${level}>${content}</h${level}>`;
+    // h1-h3 arrive approved so the Structure panel and TOC pick them up straight away
+    return `<h${level} id="md-heading-${++ctx.headingCount}" data-structure-status="approved">${content}</h${level}>`;
+};
+
+/**
+ * Converts Markdown to page markup: one `.page` per explicit page break (later pages carry the
+ * user page-break marker), ready for ensureContentIsPaginated/reflow.
+ */
+export const markdownToHtml = (markdown: string, images: Map<string, string> = new Map()): string => {
+    const ctx: ImportContext = { definitions: new Map(), images, headingCount: 0 };
+    const lines: string[] = [];
+    let inFence = false;
+    markdown.replace(/^﻿/, '').replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n').forEach(line => {
+        if (FENCE_OPEN.test(line)) inFence = !inFence;
+        // Reference definitions ([id]: url "title") are collected up front and dropped from the flow
+        const definition = inFence ? null : line.match(DEFINITION_LINE);
+        if (definition) {
+            ctx.definitions.set(definition[1].trim().toLowerCase(), { href: definition[2], title: definition[3] || '' });
+            return;
+        }
+        lines.push(line);
+    });
+
+    const pages: string[][] = [[]];
+    parseBlocks(lines, ctx).forEach(block => {
+        if (block === PAGE_BREAK_BLOCK) pages.push([]);
+        else pages[pages.length - 1].push(block);
+    });
+    return pages.map((blocks, index) => `${index === 0 ? '<div class="page">' : PAGE_BREAK_PAGE}${blocks.join('\n')}</div>`).join('\n');
+};
+
+// --- Export ---
+
+const CHROME_SELECTOR = [
+    '.image-overlay', '.resize-handle', '.drag-handle', '.text-mode-badge', '.marquee', '.context-menu',
+    '.page-ruler', '.margin-guides', '.toc-actions', '.master-layer', FOOTER_SELECTOR
+].join(', ');
+const SHAPE_SELECTOR = '.shape-circle, .shape-pill, .shape-speech, .shape-cloud, .shape-rectangle';
+
+interface ExportContext {
+    images: Map<string, string>; // src -> reference id
+    skipped: Map<string, number>;
+}
+
+const UNSUPPORTED_LABELS: Record<string, [string, string]> = {
+    shape: ['shape', 'text kept as paragraphs'],
+    textLayer: ['text layer', 'text kept as paragraphs, position lost'],
+    qrCode: ['QR code', 'exported as a link to its URL'],
+    writingLines: ['writing-lines block', 'left out'],
+    tracingLine: ['tracing line', 'exported as plain text'],
+    toc: ['table of contents', 'left out; regenerate it after import'],
+    canvas: ['drawing', 'left out'],
+    mergedCell: ['merged table cell', 'split into single cells']
+};
+
+const note = (ctx: ExportContext, kind: string) => ctx.skipped.set(kind, (ctx.skipped.get(kind) || 0) + 1);
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>|~])/g, '\\$1');
+
+const inlineMarkdown = (node: Node, ctx: ExportContext): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+    if (!(node instanceof HTMLElement)) return '';
+    if (node.matches(CHROME_SELECTOR)) return '';
+    const tag = node.tagName;
+    if (tag === 'BR') return '\\\n';
+    if (tag === 'IMG') return imageMarkdown(node as HTMLImageElement, ctx);
+    if (tag === 'CANVAS') {
+        note(ctx, 'canvas');
+        return '';
+    }
+    if (tag === 'CODE') return `\`${(node.textContent || '').replace(/`/g, 'ˋ')}\``;
+    const inner = Array.from(node.childNodes).map(child => inlineMarkdown(child, ctx)).join('');
+    if (!inner.trim()) return inner;
+    if (tag === 'A') {
+        const href = node.getAttribute('href');
+        return href ? `[${inner}](${href.replace(/[()\s]/g, encodeURIComponent)})` : inner;
+    }
+    if (tag === 'SUP' || tag === 'SUB') return `<${tag.toLowerCase()}>${inner}</${tag.toLowerCase()}>`;
+
+    const style = node.style;
+    const bold = tag === 'B' || tag === 'STRONG' || style.fontWeight === 'bold' || parseInt(style.fontWeight, 10) >= 600;
+    const italic = tag === 'I' || tag === 'EM' || style.fontStyle === 'italic';
+    const struck = tag === 'S' || tag === 'DEL' || tag === 'STRIKE' || style.textDecoration.includes('line-through');
+    // Italic inside bold uses underscores so `***` never has to be untangled
+    const italicMarker = bold ? '_' : '*';
+    const opening = `${struck ? '~~' : ''}${bold ? '**' : ''}${italic ? italicMarker : ''}`;
+    if (!opening) return inner;
+    // Delimiters must hug the text: keep surrounding spaces outside them
+    const [, lead, core, trail] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    const closing = `${italic ? italicMarker : ''}${bold ? '**' : ''}${struck ? '~~' : ''}`;
+    return `${lead}${opening}${core}${closing}${trail}`;
+};
+
+const imageMarkdown = (img: HTMLImageElement, ctx: ExportContext) => {
+    const alt = escapeMarkdown(img.getAttribute('alt') || '');
+    if (img.classList.contains('qr-code')) {
+        note(ctx, 'qrCode');
+        const url = img.getAttribute('data-original-url');
+        return url ? `[QR code: ${escapeMarkdown(url)}](${url})` : '';
+    }
+    const src = img.getAttribute('src') || '';
+    if (!src) return '';
+    // Data URLs go to reference definitions at the end so the prose stays readable
+    if (src.startsWith('data:')) {
+        if (!ctx.images.has(src)) ctx.images.set(src, `image-${ctx.images.size + 1}`);
+        return `![${alt}][${ctx.images.get(src)}]`;
+    }
+    return `![${alt}](${src.replace(/[()\s]/g, encodeURIComponent)})`;
+};
+
+const prefixLines = (text: string, first: string, rest: string) => text
+    .split('\n')
+    .map((line, index) => {
+        const prefix = index === 0 ? first : rest;
+        return line ? `${prefix}${line}` : prefix.trimEnd();
+    })
+    .join('\n');
+
+// Paragraph text that would read as a heading, list item or quote gets its marker escaped.
+const guardBlockStart = (text: string) => text.replace(/^(#{1,6} |\d+[.)] |[-+] |> )/, '\\$1');
+
+const listMarkdown = (list: HTMLElement, ctx: ExportContext): string => {
+    const ordered = list.tagName === 'OL';
+    let number = parseInt(list.getAttribute('start') || '1', 10) || 1;
+    return Array.from(list.children).filter(child => child.tagName === 'LI').map(item => {
+        const marker = ordered ? `${number++}. ` : '- ';
+        const body = blocksMarkdown(Array.from(item.childNodes), ctx, true).join('\n');
+        return prefixLines(body || '', marker, ' '.repeat(marker.length));
+    }).join('\n');
+};
+
+const tableMarkdown = (table: HTMLTableElement, ctx: ExportContext): string => {
+    const rows = Array.from(table.rows);
+    if (rows.length === 0) return '';
+    const cellText = (cell: HTMLTableCellElement) => {
+        if (cell.colSpan > 1 || cell.rowSpan > 1) note(ctx, 'mergedCell');
+        return inlineMarkdown(cell, ctx).replace(/\\\n/g, '<br>').replace(/\n/g, ' ').trim() || ' ';
+    };
+    const matrix = rows.map(row => Array.from(row.cells).flatMap(cell => [cellText(cell), ...Array(Math.max(0, cell.colSpan - 1)).fill(' ')]));
+    const width = Math.max(...matrix.map(row => row.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, index) => cells[index] ?? ' ').join(' | ')} |`;
+    const alignments = Array.from(rows[0].cells).map(cell => {
+        const align = cell.style.textAlign || cell.getAttribute('align') || '';
+        return align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---';
+    });
+    return [line(matrix[0]), line(Array.from({ length: width }, (_, index) => alignments[index] || '---')), ...matrix.slice(1).map(line)].join('\n');
+};
+
+// Converts block-level nodes to Markdown blocks. Inline runs between blocks become paragraphs.
+const blocksMarkdown = (nodes: Node[], ctx: ExportContext, inListItem = false): string[] => {
+    const blocks: string[] = [];
+    let inline = '';
+    const flush = () => {
+        const text = inline.replace(/[ \t]+\n/g, '\n').trim();
+        if (text) blocks.push(inListItem ? text : guardBlockStart(text));
+        inline = '';
+    };
+    nodes.forEach(node => {
+        if (!(node instanceof HTMLElement)) {
+            inline += inlineMarkdown(node, ctx);
+            return;
+        }
+        const markdown = blockMarkdown(node, ctx);
+        if (markdown === null) {
+            inline += inlineMarkdown(node, ctx);
+            return;
+        }
+        flush();
+        if (markdown) blocks.push(markdown);
+    });
+    flush();
+    return blocks;
+};
+
+// Markdown for a block element, '' for dropped blocks, null for inline content.
+const blockMarkdown = (el: HTMLElement, ctx: ExportContext): string | null => {
+    if (el.matches(CHROME_SELECTOR) || el.getAttribute('data-user-page-break') === 'true') return '';
+    const tag = el.tagName;
+    if (el.classList.contains('toc-container')) {
+        note(ctx, 'toc');
+        return '';
+    }
+    if (el.classList.contains('writing-lines')) {
+        note(ctx, 'writingLines');
+        return '';
+    }
+    if (el.classList.contains('tracing-line')) {
+        note(ctx, 'tracingLine');
+        return escapeMarkdown((el.textContent || '').trim());
+    }
+    if (el.matches(SHAPE_SELECTOR) || el.classList.contains('floating-text')) {
+        note(ctx, el.classList.contains('floating-text') ? 'textLayer' : 'shape');
+        return blocksMarkdown(Array.from(el.childNodes), ctx).join('\n\n');
+    }
+    const heading = tag.match(/^H([1-6])$/);
+    if (heading) return `${'#'.repeat(Number(heading[1]))} ${inlineMarkdown(el, ctx).replace(/\\\n/g, ' ').trim()}`;
+    if (tag === 'UL' || tag === 'OL') return listMarkdown(el, ctx);
+    if (tag === 'TABLE') return tableMarkdown(el as HTMLTableElement, ctx);
+    if (tag === 'HR') return '---';
+    if (tag === 'PRE') {
+        const code = el.querySelector('code');
+        const language = (code?.className.match(/language-(\S+)/) || [])[1] || '';
+        const text = (el.textContent || '').replace(/\n$/, '');
+        const fence = '`'.repeat(Math.max(3, ...(text.match(/`+/g) || []).map(run => run.length + 1)));
+        return `${fence}${language}\n${text}\n${fence}`;
+    }
+    if (tag === 'BLOCKQUOTE') return prefixLines(blocksMarkdown(Array.from(el.childNodes), ctx).join('\n\n'), '> ', '> ');
+    if (tag === 'P') return guardBlockStart(inlineMarkdown(el, ctx).replace(/[ \t]+\n/g, '\n').trim());
+    if (tag === 'CANVAS') {
+        note(ctx, 'canvas');
+        return '';
+    }
+    if (tag === 'IMG' && el.classList.contains('qr-code')) return imageMarkdown(el as HTMLImageElement, ctx);
+    if (['DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'ASIDE', 'MAIN', 'FIGURE', 'FIGCAPTION', 'LI'].includes(tag)) {
+        return blocksMarkdown(Array.from(el.childNodes), ctx).join('\n\n');
+    }
+    return null;
+};
+
+/**
+ * Markdown for the paginated workspace: page wrappers and page numbers disappear, paragraphs the
+ * paginator split are joined, user page breaks become `<!-- pagebreak -->` lines.
+ */
+export const markdownFromWorkspace = (workspace: HTMLElement): MarkdownExportResult => {
+    const ctx: ExportContext = { images: new Map(), skipped: new Map() };
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    const blocks: string[] = [];
+    let previous: HTMLElement | null = null;
+
+    pages.forEach((page, pageIndex) => {
+        const children = Array.from(page.children).filter(child => !child.matches(CHROME_SELECTOR)) as HTMLElement[];
+        if (pageIndex > 0 && children.some(child => child.getAttribute('data-user-page-break') === 'true')) {
+            blocks.push('<!-- pagebreak -->');
+            previous = null;
+        }
+        children.forEach((child, index) => {
+            if (child.getAttribute('data-user-page-break') === 'true') return;
+            const markdown = blocksMarkdown([child], ctx).join('\n\n');
+            if (!markdown) return;
+            if (index === 0 && isSplitContinuation(previous, child) && blocks.length > 0) {
+                // Rest of a paragraph or list the paginator carried to this page
+                const list = child.tagName === 'UL' || child.tagName === 'OL';
+                const joined = list ? `${blocks[blocks.length - 1]}\n${continueNumbering(blocks[blocks.length - 1], markdown, child)}` : `${blocks[blocks.length - 1]} ${markdown}`;
+                blocks[blocks.length - 1] = joined.replace(/ {2,}/g, ' ');
+            } else {
+                blocks.push(markdown);
+            }
+            previous = child;
+        });
+    });
+
+    const definitions = Array.from(ctx.images, ([src, id]) => `[${id}]: ${src}`);
+    const markdown = `${[...blocks, ...(definitions.length ? [definitions.join('\n')] : [])].join('\n\n')}\n`;
+    const unsupported = Array.from(ctx.skipped, ([kind, count]) => {
+        const [label, outcome] = UNSUPPORTED_LABELS[kind];
+        return `${count} ${label}${count === 1 ? '' : 's'} (${outcome})`;
+    });
+    return { markdown, unsupported };
+};
+
+// An ordered list continued on the next page keeps counting from the previous fragment.
+const continueNumbering = (before: string, after: string, list: HTMLElement) => {
+    if (list.tagName !== 'OL') return after;
+    const numbers = before.match(/^\d+(?=\. )/gm);
+    let number = numbers ? Number(numbers[numbers.length - 1]) + 1 : 1;
+    return after.replace(/^\d+(?=\. )/gm, () => String(number++));
+};
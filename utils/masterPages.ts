@@ -0,0 +1,204 @@
+// utils/masterPages.ts
+//
+// Master pages: running headers/footers, decorative borders and background art defined once
+// and drawn on every page that uses the master. A page names its master with `data-master`
+// (an id, or "none"); pages without one continue from the page before, taking that master's
+// `followedBy` (so reflow-created pages alternate Body left / Body right). The resolved
+// master is drawn as a `.master-layer` first child of the page, behind the text and out of
+// the flow; it is regenerated from the master on every sync, so edits to a master reach all
+// of its pages. Per-page overrides live on the page element:
+//   data-master-hide="header footer border background"
+//   data-master-header="…" / data-master-footer="…" (replacement text)
+
+import { MasterPage, MasterRunningText } from '../types';
+import { PageFieldValues, resolvePageFields } from './pageFields';
+
+export const MASTER_LAYER_SELECTOR = '.master-layer';
+export const NO_MASTER = 'none';
+
+export type MasterPart = 'header' | 'footer' | 'border' | 'background';
+
+export interface PageMasterOverrides {
+    hide: MasterPart[];
+    header: string | null;
+    footer: string | null;
+}
+
+export const NO_PAGE_OVERRIDES: PageMasterOverrides = { hide: [], header: null, footer: null };
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeCssUrl = (url: string) => url.replace(/["\\\n]/g, match => `\\${match === '\n' ? 'a ' : match}`);
+
+// Images are large data URLs: pages point at a custom property set on the workspace (like
+// the footer reserves) instead of each carrying a copy in the document markup.
+const masterArtProperty = (id: string) => `--master-art-${id.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+
+const runningText = (
+    kind: 'header' | 'footer',
+    line: MasterRunningText,
+    text: string
+) => {
+    const edge = kind === 'header' ? 'top' : 'bottom';
+    const styles = [
+        'position: absolute',
+        'left: 0',
+        'right: 0',
+        `${edge}: calc(var(--bleed, 0in) + ${line.offset}in)`,
+        // Same left/right margins as the page text, verso rules included
+        'padding-left: inherit',
+        'padding-right: inherit',
+        'box-sizing: border-box',
+        `text-align: ${line.align}`,
+        `font-size: ${line.fontSize}pt`,
+        'line-height: 1.2',
+        'white-space: nowrap',
+        'overflow: hidden',
+        line.fontFamily ? `font-family: ${line.fontFamily}` : ''
+    ].filter(Boolean).join('; ');
+    return `<div class="master-${kind}" style="${escapeHtml(styles)}">${escapeHtml(text)}</div>`;
+};
+
+/**
+ * Markup of the layer a master draws on one page, after applying the page's overrides and
+ * filling in the page's field values (see utils/pageFields.ts).
+ */
+export const renderMasterLayer = (master: MasterPage, overrides: PageMasterOverrides, fields?: PageFieldValues): string => {
+    const parts: string[] = [];
+    const { background, border } = master;
+
+    if (!overrides.hide.includes('background') && (background.color || background.image)) {
+        const styles = [
+            'position: absolute',
+            'inset: 0',
+            background.color ? `background-color: ${background.color}` : '',
+            background.image ? `background-image: var(${masterArtProperty(master.id)})` : '',
+            `background-size: ${background.fit}`,
+            'background-position: center',
+            'background-repeat: no-repeat',
+            `opacity: ${background.opacity}`
+        ].filter(Boolean).join('; ');
+        parts.push(`<div class="master-background" style="${escapeHtml(styles)}"></div>`);
+    }
+
+    if (!overrides.hide.includes('border') && border.style !== 'none' && border.width > 0) {
+        const inset = `calc(var(--bleed, 0in) + ${border.inset}in)`;
+        const styles = [
+            'position: absolute',
+            `top: ${inset}`,
+            `right: ${inset}`,
+            `bottom: ${inset}`,
+            `left: ${inset}`,
+            `border: ${border.width}px ${border.style} ${border.color}`,
+            `border-radius: ${border.radius}px`
+        ].join('; ');
+        parts.push(`<div class="master-border" style="${escapeHtml(styles)}"></div>`);
+    }
+
+    (['header', 'footer'] as const).forEach(kind => {
+        const template = overrides[kind] ?? master[kind].text;
+        const text = fields ? resolvePageFields(template, fields).trim() : template;
+        if (!overrides.hide.includes(kind) && text) parts.push(runningText(kind, master[kind], text));
+    });
+
+    const layerStyles = 'position: absolute; inset: 0; z-index: -1; pointer-events: none; padding-top: 0; padding-bottom: 0; padding-left: inherit; padding-right: inherit; box-sizing: border-box;';
+    return `<div class="master-layer" data-master-id="${escapeHtml(master.id)}" contenteditable="false" aria-hidden="true" style="${layerStyles}">${parts.join('')}</div>`;
+};
+
+export const readPageOverrides = (page: HTMLElement): PageMasterOverrides => ({
+    hide: (page.getAttribute('data-master-hide') || '').split(/\s+/).filter(Boolean) as MasterPart[],
+    header: page.getAttribute('data-master-header'),
+    footer: page.getAttribute('data-master-footer')
+});
+
+export const writePageOverrides = (page: HTMLElement, overrides: PageMasterOverrides) => {
+    const set = (name: string, value: string | null) => {
+        if (value === null || value === '') page.removeAttribute(name);
+        else page.setAttribute(name, value);
+    };
+    set('data-master-hide', overrides.hide.join(' '));
+    set('data-master-header', overrides.header);
+    set('data-master-footer', overrides.footer);
+};
+
+/**
+ * Master id each page ends up with (null = no master): its own `data-master`, otherwise
+ * the `followedBy` of the previous page's master.
+ */
+export const resolvePageMasters = (pages: HTMLElement[], masters: MasterPage[]): Array<MasterPage | null> => {
+    const byId = new Map(masters.map(master => [master.id, master]));
+    let previous: MasterPage | null = null;
+    return pages.map(page => {
+        const own = page.getAttribute('data-master');
+        let resolved: MasterPage | null;
+        if (own === NO_MASTER) resolved = null;
+        else if (own) resolved = byId.get(own) ?? null;
+        else resolved = previous ? (byId.get(previous.followedBy ?? previous.id) ?? previous) : null;
+        previous = resolved;
+        return resolved;
+    });
+};
+
+/**
+ * Redraws the master layer of every page and publishes the masters' background images on the
+ * workspace. `fields` holds each page's field values; without them fields show as typed.
+ * Returns whether any page changed.
+ */
+export const syncMasterPages = (workspace: HTMLElement, masters: MasterPage[], fields?: PageFieldValues[]): boolean => {
+    masters.forEach(master => {
+        const name = masterArtProperty(master.id);
+        if (master.background.image) workspace.style.setProperty(name, `url("${escapeCssUrl(master.background.image)}")`);
+        else workspace.style.removeProperty(name);
+    });
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    const resolved = resolvePageMasters(pages, masters);
+    let changed = false;
+
+    pages.forEach((page, index) => {
+        const master = resolved[index];
+        const layer = page.querySelector(`:scope > ${MASTER_LAYER_SELECTOR}`) as HTMLElement | null;
+        if (!master) {
+            if (layer) {
+                layer.remove();
+                page.style.removeProperty('isolation');
+                changed = true;
+            }
+            return;
+        }
+        const template = page.ownerDocument.createElement('template');
+        template.innerHTML = renderMasterLayer(master, readPageOverrides(page), fields?.[index]);
+        const next = template.content.firstElementChild as HTMLElement;
+        // Compare serialised by the same engine, so escaping differences never count as edits
+        if (layer && layer.outerHTML === next.outerHTML) return;
+        if (layer) layer.replaceWith(next);
+        else page.insertBefore(next, page.firstChild);
+        // The layer sits at z-index -1: the page must be its own stacking context so the art
+        // stays above the page background and below the text.
+        page.style.isolation = 'isolate';
+        changed = true;
+    });
+    return changed;
+};
+
+/** The background-image properties as a stylesheet rule, for exports outside the editor. */
+export const masterArtCss = (masters: MasterPage[]) => {
+    const declarations = masters
+        .filter(master => master.background.image)
+        .map(master => `    ${masterArtProperty(master.id)}: url("${escapeCssUrl(master.background.image)}");`);
+    return declarations.length > 0 ? `.editor-workspace {\n${declarations.join('\n')}\n}` : '';
+};
+
+/** Assigns a master (or "none", or null to inherit) to pages `from`..`to` (0-based, inclusive). */
+export const assignMaster = (workspace: HTMLElement, masterId: string | null, from: number, to: number) => {
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    pages.slice(from, to + 1).forEach(page => {
+        if (masterId === null) page.removeAttribute('data-master');
+        else page.setAttribute('data-master', masterId);
+    });
+};
+
+export const createMasterId = () => `master-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,107 @@
+// utils/pageFields.ts
+//
+// Fields for running heads and page numbers: `{page}`, `{pages}`, `{chapter}`, `{section}`,
+// `{title}` and `{date}` in master header/footer text and in page-number formats ("Page
+// {page} of {pages}"). Values depend on where a page ends up, so they are computed from the
+// paginated workspace and re-applied after every reflow. Elements that show fields keep
+// their template in `data-fields`; single braces keep them apart from `{{merge}}` fields.
+// `{page}` is the page's formatted number from its numbering section (utils/pageNumbering.ts).
+
+import { PageNumber } from './pageNumbering';
+
+export const PAGE_FIELDS = [
+    { token: 'page', label: 'Page number' },
+    { token: 'pages', label: 'Total pages' },
+    { token: 'chapter', label: 'Chapter (h1)' },
+    { token: 'section', label: 'Section (h2)' },
+    { token: 'title', label: 'Document title' },
+    { token: 'date', label: 'Date' }
+] as const;
+
+export type PageFieldName = typeof PAGE_FIELDS[number]['token'];
+export type PageFieldValues = Record<PageFieldName, string>;
+
+export const DEFAULT_PAGE_NUMBER_FORMAT = '{page}';
+export const FIELD_TEMPLATE_ATTRIBUTE = 'data-fields';
+
+const FIELD_PATTERN = /\{(page|pages|chapter|section|title|date)\}/g;
+
+export interface RunningHeading {
+    elementId: string;
+    level: 1 | 2;
+    text: string;
+}
+
+export interface PageFieldOptions {
+    title: string;
+    headings: RunningHeading[]; // chapter (h1) and section (h2) headings, in any order
+    numbers: PageNumber[]; // one per page; unnumbered and suppressed pages have no {page}
+    date?: Date;
+}
+
+export const formatFieldDate = (date: Date) => date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+/** Splits a template into literal text and field names, in order. */
+export const splitPageFields = (template: string): Array<{ text: string } | { field: PageFieldName }> => {
+    const parts: Array<{ text: string } | { field: PageFieldName }> = [];
+    let last = 0;
+    for (const match of template.matchAll(FIELD_PATTERN)) {
+        if (match.index! > last) parts.push({ text: template.slice(last, match.index) });
+        parts.push({ field: match[1] as PageFieldName });
+        last = match.index! + match[0].length;
+    }
+    if (last < template.length) parts.push({ text: template.slice(last) });
+    return parts;
+};
+
+export const resolvePageFields = (template: string, values: PageFieldValues) => (
+    template.replace(FIELD_PATTERN, (_match, name: PageFieldName) => values[name])
+);
+
+/**
+ * Field values for every page. The chapter and section are the last ones that started on or
+ * before the page, so a chapter opener already shows its own title; a new chapter clears the
+ * section.
+ */
+export const computePageFields = (pages: HTMLElement[], options: PageFieldOptions): PageFieldValues[] => {
+    const byId = new Map(options.headings.map(heading => [heading.elementId, heading]));
+    const date = formatFieldDate(options.date ?? new Date());
+    const numbered = options.numbers.filter(number => number.section).length;
+    let chapter = '';
+    let section = '';
+
+    return pages.map((page, index) => {
+        page.querySelectorAll('[id]').forEach(el => {
+            const heading = byId.get(el.id);
+            if (!heading) return;
+            if (heading.level === 1) {
+                chapter = heading.text;
+                section = '';
+            } else {
+                section = heading.text;
+            }
+        });
+        return {
+            page: options.numbers[index]?.hidden ? '' : options.numbers[index]?.label ?? '',
+            pages: String(numbered),
+            chapter,
+            section,
+            title: options.title,
+            date
+        };
+    });
+};
+
+/** Re-fills every `data-fields` element on the pages. Returns whether any text changed. */
+export const refreshFieldElements = (pages: HTMLElement[], values: PageFieldValues[]): boolean => {
+    let changed = false;
+    pages.forEach((page, index) => {
+        page.querySelectorAll(`[${FIELD_TEMPLATE_ATTRIBUTE}]`).forEach(el => {
+            const text = resolvePageFields(el.getAttribute(FIELD_TEMPLATE_ATTRIBUTE) || '', values[index]);
+            if (el.textContent === text) return;
+            el.textContent = text;
+            changed = true;
+        });
+    });
+    return changed;
+};
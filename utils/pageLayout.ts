@@ -0,0 +1,83 @@
+// utils/pageLayout.ts
+//
+// Page box CSS shared by the editor and headless exports: the layout override block that sizes
+// `.page` (trim size, margins, mirrored margins, bleed) and the length helpers it needs.
+
+export const LAYOUT_MARKER_START = '/* SPYWRITER_LAYOUT_OVERRIDE_START */';
+export const LAYOUT_MARKER_END = '/* SPYWRITER_LAYOUT_OVERRIDE_END */';
+
+const LENGTH_UNITS_PER_INCH: Record<string, number> = { in: 1, cm: 2.54, mm: 25.4, px: 96, pt: 72 };
+
+// Grows a CSS length by a number of inches, keeping its unit when it is a plain length.
+export const addInches = (length: string, inches: number) => {
+    if (!inches) return length;
+    const match = length.trim().match(/^(\d+(?:\.\d+)?)(in|cm|mm|px|pt)$/);
+    if (!match) return `calc(${length} + ${inches}in)`;
+    const total = Number.parseFloat(match[1]) + inches * LENGTH_UNITS_PER_INCH[match[2]];
+    return `${Number(total.toFixed(4))}${match[2]}`;
+};
+
+export const toInches = (value: number) => `${Number(value.toFixed(4))}in`;
+
+// Reads a page size such as "6in" or "152.4mm" back as inches.
+export const lengthInInches = (length: string, fallback: number) => {
+    const match = length.trim().match(/^(\d+(?:\.\d+)?)(in|cm|mm|px|pt)$/);
+    return match ? Number.parseFloat(match[1]) / LENGTH_UNITS_PER_INCH[match[2]] : fallback;
+};
+
+// With mirrored margins `left` is the inside (gutter) margin and `right` the outside one.
+// Page 1 is a recto, so even pages are versos and get the two swapped.
+// Bleed grows the page box on the top, bottom and outside edge (right on rectos, left on
+// versos); the trim size stays `width` x `height` and the margins are measured from the trim.
+export const applyLayoutOverride = (
+    cssContent: string,
+    width: string,
+    height: string,
+    margins: { top: number; bottom: number; left: number; right: number },
+    options: { mirrored?: boolean; bleed?: number } = {}
+) => {
+    const { mirrored = false, bleed = 0 } = options;
+    const pageWidth = addInches(width, bleed);
+    const pageHeight = addInches(height, bleed * 2);
+    const versoLeft = mirrored ? margins.right : margins.left;
+    const versoRight = mirrored ? margins.left : margins.right;
+    const versoRule = mirrored || bleed > 0 ? `
+.editor-workspace .page:nth-child(even of .page) {
+    padding-left: ${toInches(versoLeft + bleed)} !important;
+    padding-right: ${toInches(versoRight)} !important;
+}` : '';
+    // Page numbers are positioned from the page box; keep them inside the trim.
+    const bleedRule = bleed > 0 ? `
+.editor-workspace .page > .page-footer {
+    margin: var(--bleed) var(--bleed) var(--bleed) 0 !important;
+    width: auto !important;
+    right: 0 !important;
+}
+.editor-workspace .page:nth-child(even of .page) > .page-footer {
+    margin-left: var(--bleed) !important;
+    margin-right: 0 !important;
+}` : '';
+    const newCssBlock = `
+${LAYOUT_MARKER_START}
+@page {
+    size: ${pageWidth} ${pageHeight};
+    margin: 0; /* Use padding on .page instead for better control */
+}
+.editor-workspace .page {
+    --bleed: ${toInches(bleed)};
+    width: ${pageWidth} !important;
+    height: ${pageHeight} !important;
+    min-height: ${pageHeight} !important;
+    max-height: ${pageHeight} !important;
+    padding: calc(${toInches(margins.top + bleed)} + var(--header-reserve, 0in)) ${toInches(margins.right + bleed)} calc(${toInches(margins.bottom + bleed)} + var(--footer-reserve, 0in)) ${toInches(margins.left)} !important;
+    overflow: hidden !important;
+}${versoRule}${bleedRule}
+${LAYOUT_MARKER_END}
+`;
+
+    const regex = new RegExp(`\\/\\* SPYWRITER_LAYOUT_OVERRIDE_START \\\*\\/[\\s\\S]*?\\/\\* SPYWRITER_LAYOUT_OVERRIDE_END \\\*\\/`, 'g');
+    if (regex.test(cssContent)) {
+        return cssContent.replace(regex, newCssBlock.trim());
+    }
+    return `${cssContent}\n${newCssBlock.trim()}`.trim();
+};
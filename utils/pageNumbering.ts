@@ -0,0 +1,163 @@
+// utils/pageNumbering.ts
+//
+// Numbering sections: the document is numbered in runs of pages, each starting on the page
+// that holds its anchor (front matter i, ii, iii; body restarting at 1; appendices "A-1").
+// A section either restarts at its own value or continues the count of the section before;
+// pages before the first section have no number. A section can suppress its number on
+// chapter openers and blank pages, and any single page can opt out with
+// `data-hide-page-number` on the `.page`. Suppressed pages keep their value, so TOC entries
+// pointing at a chapter opener still show the number the opener would have.
+
+import { NumberingSection, PageNumberSettings, PageNumberStyle } from '../types';
+import { isPageEmpty } from './preflight';
+
+export const PAGE_NUMBER_STYLES: Array<{ id: PageNumberStyle; label: string }> = [
+    { id: 'arabic', label: '1, 2, 3' },
+    { id: 'roman-lower', label: 'i, ii, iii' },
+    { id: 'roman-upper', label: 'I, II, III' },
+    { id: 'alpha-lower', label: 'a, b, c' },
+    { id: 'alpha-upper', label: 'A, B, C' }
+];
+
+export const HIDE_PAGE_NUMBER_ATTRIBUTE = 'data-hide-page-number';
+
+export interface PageNumber {
+    section: NumberingSection | null; // null: before the first section, unnumbered
+    value: number;
+    label: string; // prefix + formatted value; '' without a section
+    hidden: boolean; // the number is suppressed on this page
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+const toRoman = (value: number) => {
+    let rest = value;
+    let result = '';
+    ROMAN_NUMERALS.forEach(([amount, numeral]) => {
+        while (rest >= amount) {
+            result += numeral;
+            rest -= amount;
+        }
+    });
+    return result;
+};
+
+// Letters repeat past z (y, z, aa, bb…), like Word's lowerLetter, so DOCX exports agree
+const toLetters = (value: number) => String.fromCharCode(97 + ((value - 1) % 26)).repeat(Math.ceil(value / 26));
+
+/** A page value in a numbering style; values below 1 have no roman or letter form and stay arabic. */
+export const formatPageNumber = (value: number, style: PageNumberStyle) => {
+    if (value < 1 || style === 'arabic') return String(value);
+    switch (style) {
+        case 'roman-lower': return toRoman(value);
+        case 'roman-upper': return toRoman(value).toUpperCase();
+        case 'alpha-lower': return toLetters(value);
+        case 'alpha-upper': return toLetters(value).toUpperCase();
+    }
+};
+
+export const createNumberingSection = (anchorId: string, from?: Partial<NumberingSection>): NumberingSection => ({
+    style: 'arabic',
+    start: 1,
+    prefix: '',
+    position: 'bottom',
+    align: 'center',
+    hideOnOpeners: false,
+    hideOnBlank: false,
+    ...from,
+    id: `numbering-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    anchorId
+});
+
+/**
+ * The sections of some page number settings. Settings saved before sections existed number
+ * arabic from their start anchor; without settings the whole document counts from 1.
+ */
+export const getNumberingSections = (settings: PageNumberSettings | null): NumberingSection[] => {
+    if (settings?.sections && settings.sections.length > 0) return settings.sections;
+    return [{
+        id: 'numbering-main',
+        anchorId: settings?.startAnchorId ?? 'DOC_START',
+        style: 'arabic',
+        start: 1,
+        prefix: '',
+        position: settings?.position ?? 'bottom',
+        align: settings?.align ?? 'center',
+        hideOnOpeners: false,
+        hideOnBlank: false
+    }];
+};
+
+/**
+ * Number of every page. A section whose anchor is not in the document is skipped; when two
+ * sections start on the same page the later one in the list wins. `chapterIds` are the ids
+ * of the chapter (h1) headings, for `hideOnOpeners`.
+ */
+export const resolvePageNumbers = (pages: HTMLElement[], sections: NumberingSection[], chapterIds: Set<string>): PageNumber[] => {
+    const startsAt = new Map<number, NumberingSection>();
+    sections.forEach(section => {
+        const index = section.anchorId === 'DOC_START'
+            ? 0
+            : pages.findIndex(page => page.querySelector(`#${CSS.escape(section.anchorId)}`));
+        if (index >= 0) startsAt.set(index, section);
+    });
+
+    let section: NumberingSection | null = null;
+    let value = 1;
+    return pages.map((page, index) => {
+        const starting = startsAt.get(index);
+        if (starting) {
+            section = starting;
+            if (starting.start !== null) value = starting.start;
+        }
+        if (!section) return { section: null, value: 0, label: '', hidden: false };
+        const current = value++;
+        const isOpener = section.hideOnOpeners
+            && Array.from(page.querySelectorAll('[id]')).some(el => chapterIds.has(el.id));
+        const hidden = page.hasAttribute(HIDE_PAGE_NUMBER_ATTRIBUTE)
+            || isOpener
+            || (section.hideOnBlank && isPageEmpty(page));
+        return {
+            section,
+            value: current,
+            label: `${section.prefix}${formatPageNumber(current, section.style)}`,
+            hidden
+        };
+    });
+};
+
+/** Page references as the TOC prints them: the page's number, or its position when unnumbered. */
+export const tocPageLabels = (numbers: PageNumber[]) => numbers.map((number, index) => number.label || String(index + 1));
+
+/**
+ * Re-labels the page column of every TOC (generated TOC rows and mapped TOC tables) from
+ * `labels`, one per page. Returns whether any text changed.
+ */
+export const refreshTocPageNumbers = (workspace: HTMLElement, labels: string[]): boolean => {
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    const labelFor = (targetId: string) => {
+        if (!targetId) return null;
+        const target = workspace.querySelector(`#${CSS.escape(targetId)}`);
+        const index = target ? pages.findIndex(page => page.contains(target)) : -1;
+        return index >= 0 ? labels[index] : null;
+    };
+    let changed = false;
+    const write = (cell: Element | null, label: string | null) => {
+        if (!cell || label === null || cell.textContent === label) return;
+        cell.textContent = label;
+        changed = true;
+    };
+
+    workspace.querySelectorAll('.toc-container .toc-row').forEach(row => {
+        const href = row.querySelector('a[href^="#"]')?.getAttribute('href');
+        if (href && href.length > 1) write(row.querySelector('.toc-page-cell'), labelFor(href.slice(1)));
+    });
+    workspace.querySelectorAll('tr[data-toc-target]').forEach(row => {
+        const cell = row.querySelector(':scope > [data-toc-page]');
+        write(cell, labelFor(row.getAttribute('data-toc-target') || ''));
+    });
+    return changed;
+};
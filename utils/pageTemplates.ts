@@ -0,0 +1,226 @@
+// utils/pageTemplates.ts
+//
+// Reusable page templates: any page or range of pages saved under a name (with a small
+// thumbnail) in IndexedDB, plus built-in workbook layouts. Templates store bare page markup;
+// inserting one renames its ids so repeated inserts never collide, and starts every template
+// page with a user page break so reflow keeps each page's layout together.
+
+import { FOOTER_SELECTOR } from './paginationMeasurer';
+
+export interface PageTemplate {
+    id: string;
+    name: string;
+    html: string; // one or more <div class="page"> elements
+    pageCount: number;
+    thumbnail: string; // data URL of the first page, '' for built-ins
+    createdAt: number;
+    builtIn?: boolean;
+    icon?: string; // built-ins show this instead of a thumbnail
+}
+
+const TEMPLATE_DB_NAME = 'spywriter-templates';
+const TEMPLATE_STORE = 'templates';
+
+// Editor chrome and per-document state that must not travel with a template
+const CHROME_SELECTOR = '.image-overlay, .resize-handle, .drag-handle, .text-mode-badge, .marquee, .context-menu, .page-ruler, .margin-guides, .master-layer';
+const STATE_ATTRIBUTES = ['data-selected', 'data-multi-selected'];
+// Master assignments name masters of the source project; inserted pages inherit instead
+const MASTER_ATTRIBUTES = ['data-master', 'data-master-hide', 'data-master-header', 'data-master-footer'];
+
+const USER_PAGE_BREAK_MARKER = '<div data-user-page-break="true" style="display:none;height:0;overflow:hidden;"></div>';
+
+const writingLines = (lines: number) => `<div class="writing-lines" style="height: ${lines * 50}px;"></div>`;
+
+export const BUILT_IN_TEMPLATES: PageTemplate[] = [
+    {
+        id: 'builtin-handwriting',
+        name: 'Handwriting practice',
+        icon: '✍️',
+        pageCount: 1,
+        thumbnail: '',
+        createdAt: 0,
+        builtIn: true,
+        html: `<div class="page">
+    <h2>Handwriting Practice</h2>
+    <p>Trace the grey letters, then write them on your own below.</p>
+    <div class="tracing-line">Aa Aa Aa Aa Aa</div>
+    ${writingLines(2)}
+    <div class="tracing-line">Bb Bb Bb Bb Bb</div>
+    ${writingLines(2)}
+    <div class="tracing-line">Cc Cc Cc Cc Cc</div>
+    ${writingLines(2)}
+    <div class="tracing-line">cat bat hat</div>
+    ${writingLines(2)}
+</div>`
+    },
+    {
+        id: 'builtin-journal',
+        name: 'Lined journal',
+        icon: '📓',
+        pageCount: 1,
+        thumbnail: '',
+        createdAt: 0,
+        builtIn: true,
+        html: `<div class="page">
+    <h2>Journal</h2>
+    <p><strong>Date:</strong> ____________________</p>
+    <p>Today I want to write about…</p>
+    ${writingLines(12)}
+</div>`
+    },
+    {
+        id: 'builtin-mission',
+        name: 'Mission brief',
+        icon: '🕵️',
+        pageCount: 1,
+        thumbnail: '',
+        createdAt: 0,
+        builtIn: true,
+        html: `<div class="page">
+    <h1>MISSION BRIEF</h1>
+    <p><strong>Agent:</strong> ____________________ <strong>Code name:</strong> ____________________</p>
+    <div class="mission-box">
+        <strong>OBJECTIVE:</strong> Describe the mission here.
+    </div>
+    <div class="mission-box">
+        <strong>CLUES:</strong> List what the agent must look for.
+    </div>
+    <p><strong>Your report:</strong></p>
+    ${writingLines(5)}
+</div>`
+    },
+    {
+        id: 'builtin-title',
+        name: 'Title page',
+        icon: '📕',
+        pageCount: 1,
+        thumbnail: '',
+        createdAt: 0,
+        builtIn: true,
+        html: `<div class="page">
+    <div style="height: 2.5in;"></div>
+    <h1 class="book-title">BOOK TITLE</h1>
+    <h3 class="book-subtitle">Subtitle of the book</h3>
+    <hr style="width: 50%; margin: 20px auto; border-top: 2px solid #000;">
+    <p style="text-align: center;">Author Name</p>
+</div>`
+    },
+    {
+        id: 'builtin-copyright',
+        name: 'Copyright page',
+        icon: '©️',
+        pageCount: 1,
+        thumbnail: '',
+        createdAt: 0,
+        builtIn: true,
+        html: `<div class="page">
+    <div style="height: 4.5in;"></div>
+    <p style="font-size: 9pt;">Copyright © ${new Date().getFullYear()} Author Name. All rights reserved.</p>
+    <p style="font-size: 9pt;">No part of this book may be reproduced in any form without written permission from the publisher, except for brief quotations in reviews.</p>
+    <p style="font-size: 9pt;">ISBN: 000-0-00-000000-0</p>
+    <p style="font-size: 9pt;">First edition</p>
+</div>`
+    }
+];
+
+// --- Storage ---
+
+const openTemplateDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(TEMPLATE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+            db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Saved templates, newest first. Resolves with [] when IndexedDB is unavailable. */
+export const listTemplates = async (): Promise<PageTemplate[]> => {
+    try {
+        const db = await openTemplateDb();
+        const tx = db.transaction(TEMPLATE_STORE, 'readonly');
+        const getAll = tx.objectStore(TEMPLATE_STORE).getAll();
+        const templates = await new Promise<PageTemplate[]>((resolve) => {
+            getAll.onsuccess = () => resolve(getAll.result || []);
+            getAll.onerror = () => resolve([]);
+        });
+        return templates.sort((a, b) => b.createdAt - a.createdAt);
+    } catch {
+        return [];
+    }
+};
+
+export const saveTemplate = async (data: Omit<PageTemplate, 'id' | 'createdAt'>): Promise<PageTemplate> => {
+    const template: PageTemplate = {
+        ...data,
+        id: `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        createdAt: Date.now()
+    };
+    const db = await openTemplateDb();
+    const tx = db.transaction(TEMPLATE_STORE, 'readwrite');
+    tx.objectStore(TEMPLATE_STORE).put(template);
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    return template;
+};
+
+export const deleteTemplate = async (id: string) => {
+    try {
+        const db = await openTemplateDb();
+        const tx = db.transaction(TEMPLATE_STORE, 'readwrite');
+        tx.objectStore(TEMPLATE_STORE).delete(id);
+    } catch {
+        // ignore db errors
+    }
+};
+
+// --- Markup ---
+
+/**
+ * Page markup for a template: copies of the given pages without editor chrome, selection
+ * state, page numbers, master art or user page-break markers (inserting adds its own).
+ */
+export const templateHtmlFromPages = (pages: HTMLElement[]): string => pages.map(page => {
+    const copy = page.cloneNode(true) as HTMLElement;
+    copy.querySelectorAll(`${CHROME_SELECTOR}, ${FOOTER_SELECTOR}, :scope > [data-user-page-break="true"]`).forEach(el => el.remove());
+    [copy, ...Array.from(copy.querySelectorAll('*'))].forEach(el => {
+        STATE_ATTRIBUTES.forEach(name => el.removeAttribute(name));
+    });
+    copy.removeAttribute('data-user-page-break');
+    copy.removeAttribute('data-page-break');
+    MASTER_ATTRIBUTES.forEach(name => copy.removeAttribute(name));
+    copy.style.removeProperty('isolation');
+    return copy.outerHTML;
+}).join('\n');
+
+/**
+ * Pages ready to insert: ids renamed (links and TOC handlers follow) and every page marked
+ * as a user page break, so reflow never pulls a template page up into the one before it.
+ */
+export const createTemplatePages = (template: PageTemplate): HTMLElement[] => {
+    const root = document.createElement('div');
+    root.innerHTML = template.html;
+    const stamp = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 5)}`;
+    const renamed = new Map<string, string>();
+    root.querySelectorAll('[id]').forEach(el => {
+        renamed.set(el.id, `${el.id}-${stamp}`);
+        el.id = `${el.id}-${stamp}`;
+    });
+    root.querySelectorAll('a[href^="#"]').forEach(link => {
+        const id = link.getAttribute('href')!.slice(1);
+        const target = renamed.get(id);
+        if (!target) return;
+        link.setAttribute('href', `#${target}`);
+        const onclick = link.getAttribute('onclick');
+        if (onclick) link.setAttribute('onclick', onclick.split(`'${id}'`).join(`'${target}'`));
+    });
+    const pages = Array.from(root.querySelectorAll(':scope > .page')) as HTMLElement[];
+    pages.forEach(page => page.insertAdjacentHTML('afterbegin', USER_PAGE_BREAK_MARKER));
+    return pages;
+};
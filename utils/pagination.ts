@@ -1,14 +1,9 @@
 
 // utils/pagination.ts
 
-/**
- * Get the scale factor applied to an element (e.g., from zoom transform)
- */
-const getScale = (el: HTMLElement): number => {
-    const rect = el.getBoundingClientRect();
-    const h = el.offsetHeight || 1;
-    return rect.height / h || 1;
-};
+import { PaginationMeasurer, domMeasurer, isFooterElement, FOOTER_SELECTOR } from './paginationMeasurer';
+import { PaginationRules } from '../types';
+import { DEFAULT_PAGINATION_RULES } from '../constants';
 
 declare global {
     interface Window {
@@ -17,6 +12,10 @@ declare global {
     }
 }
 
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+const SHOW_TEXT = 0x4;
+
 const initReflowDebug = () => {
     if (!window.__reflowDebug) {
         window.__reflowDebug = [];
@@ -62,119 +61,111 @@ const recordReflowIssue = (entry: Record<string, unknown>) => {
 /**
  * Check if an element is in normal document flow (not absolute/fixed positioned)
  */
-const isFooterElement = (el: HTMLElement): boolean => {
-    if (el.classList.contains('page-footer')) return true;
-    if (el.classList.contains('page-number')) return true;
-    if (el.getAttribute('data-page-footer') === 'true') return true;
-    if (el.getAttribute('data-page-number') === 'true') return true;
-    if (el.tagName.toLowerCase() === 'footer') return true;
-    return false;
-};
-
-const isFlowElement = (el: HTMLElement): boolean => {
+const isFlowElement = (el: HTMLElement, m: PaginationMeasurer): boolean => {
     if (isFooterElement(el)) return false;
     if (el.classList.contains('image-overlay')) return false;
     if (el.classList.contains('resize-handle')) return false;
     if (el.getAttribute('data-page-break') === 'true') return false;
     if (el.getAttribute('data-user-page-break') === 'true') return false;
-    const pos = window.getComputedStyle(el).position;
-    return pos !== 'absolute' && pos !== 'fixed';
+    return !m.isOutOfFlow(el);
+};
+
+const getFlowChildren = (page: HTMLElement, m: PaginationMeasurer): HTMLElement[] => {
+    return (Array.from(page.children) as HTMLElement[]).filter(child => isFlowElement(child, m));
 };
 
-const shouldAvoidBreak = (_el: HTMLElement): boolean => {
-    // ALL elements are kept together as a single block.
-    // If an element doesn't fit on the current page, it moves whole to the next page.
-    // This prevents text blocks, containers, etc. from being split across pages.
-    return true;
+// Told whenever a reflow pass moved content: running heads and page numbers depend on which
+// page things ended up on. Returns the unsubscribe function.
+type ReflowListener = (editor: HTMLElement) => void;
+const reflowListeners = new Set<ReflowListener>();
+
+export const addReflowListener = (listener: ReflowListener) => {
+    reflowListeners.add(listener);
+    return () => { reflowListeners.delete(listener); };
 };
 
-const isHardKeepTogether = (el: HTMLElement): boolean => {
+const isHardKeepTogether = (el: HTMLElement, m: PaginationMeasurer): boolean => {
     const tag = el.tagName.toLowerCase();
     if (tag === 'table' || tag === 'img' || tag === 'hr' || tag === 'textarea') return true;
-    return false;
+    const breakInside = m.getBreakStyle(el).breakInside;
+    return breakInside === 'avoid' || breakInside === 'avoid-page';
+};
+
+const shouldAvoidBreak = (el: HTMLElement, m: PaginationMeasurer): boolean => {
+    // By default elements are kept together as a single block: if one doesn't fit on the
+    // current page, it moves whole to the next page.
+    // A text block whose own CSS declares `orphans` or `widows` opts into line-level breaking,
+    // so it splits at the page bottom wherever those rules allow (see getLineRuleBottom).
+    // Blocks taller than a page split too; the app-wide rules then decide where.
+    if (isHardKeepTogether(el, m) || !isTextSplitTarget(el)) return true;
+    const style = m.getBreakStyle(el);
+    return style.orphans === null && style.widows === null;
 };
 
 /**
- * Checks if the content of a page is overflowing its fixed height.
- * Temporarily removes constraints to measure true content height.
- */
-/**
- * Get the height of an element including its bottom margin (in CSS pixels, scale-corrected).
- * Uses offsetHeight which is scroll-independent.
+ * Keep-with-next: headings (when enabled) and blocks with `break-after: avoid` must not be
+ * the last thing on a page while content follows them.
  */
-const getElementHeightWithMargin = (el: HTMLElement, scale: number = 1): number => {
-    const style = window.getComputedStyle(el);
-    const marginBottom = parseFloat(style.marginBottom) || 0;
-    // offsetHeight is scroll-independent and accounts for borders/padding
-    // but NOT for CSS transforms. We need getBoundingClientRect().height for that.
-    const rect = el.getBoundingClientRect();
-    return rect.height / scale + marginBottom;
+const keepsWithNext = (el: HTMLElement, rules: PaginationRules, m: PaginationMeasurer): boolean => {
+    const breakAfter = m.getBreakStyle(el).breakAfter;
+    if (breakAfter === 'avoid' || breakAfter === 'avoid-page') return true;
+    return rules.keepHeadingsWithNext && /^h[1-6]$/.test(el.tagName.toLowerCase());
 };
 
 /**
- * Get the top position of an element RELATIVE to its containing page.
- * This is scroll-independent because both el and page move together when scrolled.
+ * Applies CSS orphans/widows semantics to a break inside `el` at `pageBottom`: at least
+ * `orphans` lines stay on this page and at least `widows` lines move on. Returns the
+ * page-relative bottom to split at (the bottom of the last line that stays), or null when
+ * no break inside the element satisfies both limits.
  */
-const getElementTopRelPage = (el: HTMLElement, page: HTMLElement): number => {
-    const elRect = el.getBoundingClientRect();
-    const pageRect = page.getBoundingClientRect();
-    const scale = getScale(page);
-    return (elRect.top - pageRect.top) / scale;
+const getLineRuleBottom = (el: HTMLElement, page: HTMLElement, pageBottom: number, rules: PaginationRules, m: PaginationMeasurer): number | null => {
+    const lines = m.getLineBottoms(el, page);
+    if (lines.length === 0) return pageBottom;
+
+    const style = m.getBreakStyle(el);
+    const orphans = Math.max(1, style.orphans ?? rules.orphans);
+    const widows = Math.max(1, style.widows ?? rules.widows);
+
+    let fit = lines.filter(bottom => bottom <= pageBottom).length;
+    if (fit >= lines.length) return pageBottom;
+    if (lines.length - fit < widows) fit = lines.length - widows;
+    if (fit < orphans) return null;
+    return lines[fit - 1];
 };
 
 /**
  * Get the bottom position (+ margin) of an element RELATIVE to its containing page, in CSS pixels.
  * Scroll-independent.
  */
-const getElementBottomRelPage = (el: HTMLElement, page: HTMLElement, scale: number = 1): number => {
-    return getElementTopRelPage(el, page) + getElementHeightWithMargin(el, scale);
-};
-
-const getFooterLimit = (page: HTMLElement): number | null => {
-    const candidates = Array.from(page.querySelectorAll('.page-footer, .page-number, [data-page-footer="true"], [data-page-number="true"], footer')) as HTMLElement[];
-    let limit: number | null = null;
-    candidates.forEach(el => {
-        if (!el.isConnected) return;
-        const rect = el.getBoundingClientRect();
-        if (rect.height <= 0 || rect.width <= 0) return;
-        const style = window.getComputedStyle(el);
-        const isAbsolute = style.position === 'absolute' || style.position === 'fixed';
-        const isNamed = isFooterElement(el);
-        if (!isNamed && !isAbsolute) return;
-        const top = rect.top;
-        if (limit === null || top < limit) {
-            limit = top;
-        }
-    });
-    return limit;
+const getElementBottomRelPage = (el: HTMLElement, page: HTMLElement, m: PaginationMeasurer): number => {
+    const box = m.getBlockBox(el, page);
+    return box.top + box.height + box.marginBottom;
 };
 
-const summarizeFooterCandidates = (page: HTMLElement) => {
-    const candidates = Array.from(page.querySelectorAll('.page-footer, .page-number, [data-page-footer="true"], [data-page-number="true"], footer')) as HTMLElement[];
-    return candidates.map(el => summarizeElement(el));
-};
-
-export const isPageOverflowing = (page: HTMLElement): boolean => {
-    const scale = getScale(page);
-    const computed = window.getComputedStyle(page);
-    const paddingBottom = parseFloat(computed.paddingBottom) || 0;
-    const paddingTop = parseFloat(computed.paddingTop) || 0;
-    const pageRect = page.getBoundingClientRect();
-    const pageHeightCss = pageRect.height / scale;
-
-    // Available height in CSS pixels (excludes padding)
-    let allowedHeightCss = pageHeightCss - paddingTop - paddingBottom;
-
-    // Footer limit: in viewport coords, convert to page-relative CSS px
-    const footerLimit = getFooterLimit(page);
-    if (footerLimit !== null) {
-        const footerRelCss = (footerLimit - pageRect.top) / scale - paddingTop;
-        allowedHeightCss = Math.min(allowedHeightCss, footerRelCss);
+/**
+ * Page geometry in page-relative CSS px. `contentBottom` is the lowest point flow content may
+ * reach: the bottom padding edge, or the top of the footer when one sits higher.
+ */
+const getPageFrame = (page: HTMLElement, m: PaginationMeasurer) => {
+    const box = m.getPageBox(page);
+    let contentAreaHeight = box.height - box.paddingTop - box.paddingBottom;
+    const footerTop = m.getFooterTop(page);
+    if (footerTop !== null) {
+        contentAreaHeight = Math.min(contentAreaHeight, footerTop - box.paddingTop);
     }
+    return {
+        ...box,
+        footerTop,
+        contentAreaHeight,
+        contentBottom: box.paddingTop + contentAreaHeight
+    };
+};
 
-    const contentHeightCss = getContentHeight(page, scale);
+export const isPageOverflowing = (page: HTMLElement, m: PaginationMeasurer = domMeasurer): boolean => {
+    const frame = getPageFrame(page, m);
+    const contentHeightCss = getContentHeight(page, m);
     if (contentHeightCss <= 0) return false;
-    return contentHeightCss > allowedHeightCss + 1;
+    return contentHeightCss > frame.contentAreaHeight + 1;
 };
 
 /**
@@ -182,16 +173,15 @@ export const isPageOverflowing = (page: HTMLElement): boolean => {
  * I.e., how much of the content area is used (0 means completely empty).
  * Scroll-independent.
  */
-const getContentHeight = (page: HTMLElement, scale: number = 1): number => {
-    const children = Array.from(page.children).filter(child => isFlowElement(child as HTMLElement));
+const getContentHeight = (page: HTMLElement, m: PaginationMeasurer): number => {
+    const children = getFlowChildren(page, m);
     if (children.length === 0) return 0;
 
-    const computed = window.getComputedStyle(page);
-    const paddingTop = parseFloat(computed.paddingTop) || 0;
+    const paddingTop = m.getPageBox(page).paddingTop;
 
     let maxBottomRelPage = 0;
     children.forEach(child => {
-        const bottomRelPage = getElementBottomRelPage(child as HTMLElement, page, scale);
+        const bottomRelPage = getElementBottomRelPage(child, page, m);
         if (bottomRelPage > maxBottomRelPage) {
             maxBottomRelPage = bottomRelPage;
         }
@@ -201,28 +191,13 @@ const getContentHeight = (page: HTMLElement, scale: number = 1): number => {
     return Math.max(0, maxBottomRelPage - paddingTop);
 };
 
-const getLastOverflowingFlowChild = (page: HTMLElement, _pageBottom: number, scale: number): HTMLElement | null => {
-    const computed = window.getComputedStyle(page);
-    const paddingTop = parseFloat(computed.paddingTop) || 0;
-    const paddingBottom = parseFloat(computed.paddingBottom) || 0;
-    const pageRect = page.getBoundingClientRect();
-    const pageHeightCss = pageRect.height / scale;
-    let allowedHeightCss = pageHeightCss - paddingTop - paddingBottom;
-
-    const footerLimit = getFooterLimit(page);
-    if (footerLimit !== null) {
-        const footerRelCss = (footerLimit - pageRect.top) / scale - paddingTop;
-        allowedHeightCss = Math.min(allowedHeightCss, footerRelCss);
-    }
-
-    const els = Array.from(page.children).filter(child => isFlowElement(child as HTMLElement)) as HTMLElement[];
+const getLastOverflowingFlowChild = (page: HTMLElement, contentBottom: number, m: PaginationMeasurer): HTMLElement | null => {
+    const els = getFlowChildren(page, m);
     if (els.length === 0) return null;
     let overflowEl: HTMLElement | null = null;
     els.forEach(el => {
         // bottomRelPage is relative to page top (not content area), in CSS px
-        const bottomRelPage = getElementBottomRelPage(el, page, scale);
-        // allowedHeightCss is from page top (not content area) = paddingTop + contentArea
-        if (bottomRelPage > paddingTop + allowedHeightCss + 1) {
+        if (getElementBottomRelPage(el, page, m) > contentBottom + 1) {
             overflowEl = el;
         }
     });
@@ -234,52 +209,16 @@ const getLastOverflowingFlowChild = (page: HTMLElement, _pageBottom: number, sca
  * Returns true if we can likely fit content from the next page.
  * Scroll-independent: uses CSS pixel heights relative to the page.
  */
-export const hasPageSpace = (page: HTMLElement, threshold: number = 20): boolean => {
-    const computed = window.getComputedStyle(page);
-    const paddingTop = parseFloat(computed.paddingTop) || 0;
-    const paddingBottom = parseFloat(computed.paddingBottom) || 0;
-    const pageH = page.offsetHeight; // always correct, scroll-independent
-
-    // Content area in CSS px (no scale needed for offsetHeight — it's already CSS px)
-    let contentAreaH = pageH - paddingTop - paddingBottom;
-
-    // Footer limit using offsetTop (scroll-independent)
-    const footerCandidates = Array.from(page.querySelectorAll('.page-footer, .page-number, [data-page-footer="true"], [data-page-number="true"], footer')) as HTMLElement[];
-    footerCandidates.forEach(el => {
-        if (!el.isConnected) return;
-        if (el.offsetWidth <= 0 || el.offsetHeight <= 0) return;
-        const style = window.getComputedStyle(el);
-        const isAbsolute = style.position === 'absolute' || style.position === 'fixed';
-        const isNamed = isFooterElement(el);
-        if (!isNamed && !isAbsolute) return;
-        // el.offsetTop is relative to the page (offsetParent = page)
-        const footerRelH = el.offsetTop - paddingTop;
-        contentAreaH = Math.min(contentAreaH, Math.max(0, footerRelH));
-    });
-
-    // Content used: find the lowest flow child bottom using offset properties
-    const used = getContentHeightOffset(page);
-    const availableSpace = contentAreaH - used;
+export const hasPageSpace = (page: HTMLElement, threshold: number = 20, m: PaginationMeasurer = domMeasurer): boolean => {
+    const frame = getPageFrame(page, m);
+    const contentAreaH = Math.max(0, frame.contentAreaHeight);
+    const availableSpace = contentAreaH - getContentHeight(page, m);
     return availableSpace > threshold;
 };
 
-/**
- * Get content height using offsetTop/offsetHeight (scroll-independent).
- * Returns how much of the content area is used in CSS px.
- */
-const getContentHeightOffset = (page: HTMLElement): number => {
-    const computed = window.getComputedStyle(page);
-    const paddingTop = parseFloat(computed.paddingTop) || 0;
-    const children = Array.from(page.children).filter(child => isFlowElement(child as HTMLElement)) as HTMLElement[];
-    if (children.length === 0) return 0;
-    let maxBottom = 0;
-    children.forEach(child => {
-        // offsetTop is relative to offsetParent (the page div with position: relative)
-        const mb = parseFloat(window.getComputedStyle(child).marginBottom) || 0;
-        const bottom = child.offsetTop + child.offsetHeight + mb;
-        if (bottom > maxBottom) maxBottom = bottom;
-    });
-    return Math.max(0, maxBottom - paddingTop);
+const summarizeFooterCandidates = (page: HTMLElement) => {
+    const candidates = Array.from(page.querySelectorAll(FOOTER_SELECTOR)) as HTMLElement[];
+    return candidates.map(el => summarizeElement(el));
 };
 
 /**
@@ -297,7 +236,7 @@ export const ensureContentIsPaginated = (editor: HTMLElement) => {
 
     // If absolutely no page exists, create one
     if (!currentPage) {
-        currentPage = document.createElement('div');
+        currentPage = editor.ownerDocument.createElement('div');
         currentPage.className = 'page';
         // Insert at start
         editor.insertBefore(currentPage, editor.firstChild);
@@ -309,7 +248,7 @@ export const ensureContentIsPaginated = (editor: HTMLElement) => {
 
     // We iterate to find nodes that are NOT .page and NOT tool/overlay elements
     children.forEach(node => {
-        if (node.nodeType === Node.ELEMENT_NODE) {
+        if (node.nodeType === ELEMENT_NODE) {
             const el = node as HTMLElement;
             if (el.classList.contains('page')) {
                 currentPage = el; // Update current context
@@ -317,7 +256,7 @@ export const ensureContentIsPaginated = (editor: HTMLElement) => {
                 // It's an orphan element
                 orphans.push(node);
             }
-        } else if (node.nodeType === Node.TEXT_NODE) {
+        } else if (node.nodeType === TEXT_NODE) {
             if (node.textContent?.trim()) {
                 orphans.push(node);
             }
@@ -333,8 +272,8 @@ export const ensureContentIsPaginated = (editor: HTMLElement) => {
 
                 // Safety: if this orphan contains nested .page elements (e.g., imported HTML wrapper),
                 // promote those pages to workspace level first to avoid HierarchyRequestError.
-                if (orphan instanceof HTMLElement && orphan.querySelector('.page')) {
-                    const nestedPages = Array.from(orphan.querySelectorAll('.page')) as HTMLElement[];
+                if (orphan.nodeType === ELEMENT_NODE && (orphan as HTMLElement).querySelector('.page')) {
+                    const nestedPages = Array.from((orphan as HTMLElement).querySelectorAll('.page')) as HTMLElement[];
                     nestedPages.forEach(nestedPage => {
                         // Insert the nested page directly into the workspace before the orphan
                         editor.insertBefore(nestedPage, orphan);
@@ -358,15 +297,16 @@ export const ensureContentIsPaginated = (editor: HTMLElement) => {
 /**
  * Splits a block element (P, DIV, H*, LI) at the point where it overflows the page bottom.
  * Returns the new element containing the overflow content, or null if no split occurred.
+ * `pageBottom` is in page-relative CSS px, like every measurement in this module.
  */
-const splitElement = (element: HTMLElement, pageBottom: number): HTMLElement | null => {
+const splitElement = (element: HTMLElement, page: HTMLElement, pageBottom: number, m: PaginationMeasurer = domMeasurer): HTMLElement | null => {
     // Only split block text elements. Don't split images, tables, or generic wrappers yet.
     // Also check if the element ITSELF is below the page bottom (fully overflowing) - in that case just return it all.
-    const rect = element.getBoundingClientRect();
-    if (rect.top >= pageBottom) {
+    const box = m.getBlockBox(element, page);
+    if (box.top >= pageBottom) {
         return element; // Move the whole thing
     }
-    if (rect.bottom <= pageBottom) {
+    if (box.top + box.height <= pageBottom) {
         return null; // It fits completely
     }
 
@@ -381,12 +321,11 @@ const splitElement = (element: HTMLElement, pageBottom: number): HTMLElement | n
         const node = children[i];
         let nodeBottom = 0;
 
-        if (node.nodeType === Node.ELEMENT_NODE) {
-            nodeBottom = (node as HTMLElement).getBoundingClientRect().bottom;
-        } else if (node.nodeType === Node.TEXT_NODE) {
-            const range = document.createRange();
-            range.selectNode(node);
-            nodeBottom = range.getBoundingClientRect().bottom;
+        if (node.nodeType === ELEMENT_NODE) {
+            const childBox = m.getBlockBox(node as HTMLElement, page);
+            nodeBottom = childBox.top + childBox.height;
+        } else if (node.nodeType === TEXT_NODE) {
+            nodeBottom = m.getTextBottom(node as Text, page);
         }
 
         if (nodeBottom > pageBottom) {
@@ -400,30 +339,16 @@ const splitElement = (element: HTMLElement, pageBottom: number): HTMLElement | n
     const targetNode = children[splitNodeIndex];
 
     // 2. If it's a text node, binary search for the character
-    if (targetNode.nodeType === Node.TEXT_NODE) {
+    if (targetNode.nodeType === TEXT_NODE) {
         const text = targetNode.textContent || '';
         let start = 0;
         let end = text.length;
         let mid = 0;
-        let found = false;
-
-        const range = document.createRange();
 
         while (start < end) {
             mid = Math.floor((start + end) / 2);
-            range.setStart(targetNode, 0);
-            range.setEnd(targetNode, mid);
-            const rect = range.getBoundingClientRect();
-
-            // If the *end* of this range is below the line? 
-            // Actually getBoundingClientRect for a range wraps the whole text.
-            // We want to know if the character at 'mid' is below the line.
-
-            // Better strategy: Check rects of range from 0 to mid.
-            // If rect.bottom > pageBottom, then the split is BEFORE mid.
-            // But this depends on line wrapping.
-
-            if (rect.bottom > pageBottom) {
+            // If the text up to 'mid' already ends below the line, the split is before mid.
+            if (m.getTextBottom(targetNode as Text, page, mid) > pageBottom) {
                 // The text up to 'mid' is ALREADY overflowing. So split must be earlier.
                 end = mid;
             } else {
@@ -443,22 +368,15 @@ const splitElement = (element: HTMLElement, pageBottom: number): HTMLElement | n
 
     // Move content
     // If we split a text node:
-    if (splitOffset >= 0 && targetNode.nodeType === Node.TEXT_NODE) {
+    if (splitOffset >= 0 && targetNode.nodeType === TEXT_NODE) {
         const textNode = targetNode as Text;
         // Split the text node into two
         const remainingText = textNode.splitText(splitOffset);
         newElement.appendChild(remainingText);
     } else {
-        // If we didn't split INSIDE the node (e.g. it was an element), 
-        // we just move this node and all subsequent ones.
-        if (targetNode.nodeType === Node.ELEMENT_NODE && (targetNode as HTMLElement).getBoundingClientRect().top > pageBottom) {
-            // Whole node is below
-            newElement.appendChild(targetNode);
-        } else {
-            // Node straddles? Recursive split? 
-            // For simplicity in this version, if a child ELEMENT straddles, we move the whole child.
-            newElement.appendChild(targetNode);
-        }
+        // If we didn't split INSIDE the node (e.g. it was an element), we just move this node
+        // and all subsequent ones. If a child ELEMENT straddles, we move the whole child.
+        newElement.appendChild(targetNode);
     }
 
     // Move all SUBSEQUENT siblings to the new element
@@ -466,28 +384,30 @@ const splitElement = (element: HTMLElement, pageBottom: number): HTMLElement | n
         newElement.appendChild(children[i]);
     }
 
-    // Cleanup empty text nodes in old element
-    // (Optional but good for cleanliness)
-
     return newElement;
 };
 
 
-/**
- * Get the last flow element (in normal document flow) from a page
- */
-const getLastFlowChild = (page: HTMLElement): HTMLElement | null => {
+const getLastFlowChild = (page: HTMLElement, m: PaginationMeasurer): HTMLElement | null => {
     const els = Array.from(page.children) as HTMLElement[];
     for (let i = els.length - 1; i >= 0; i--) {
-        if (isFlowElement(els[i])) return els[i];
+        if (isFlowElement(els[i], m)) return els[i];
     }
     return null;
 };
 
-const getFirstFlowChild = (page: HTMLElement): HTMLElement | null => {
+const getNextFlowSibling = (el: HTMLElement, m: PaginationMeasurer): HTMLElement | null => {
+    let next = el.nextElementSibling as HTMLElement | null;
+    while (next && !isFlowElement(next, m)) {
+        next = next.nextElementSibling as HTMLElement | null;
+    }
+    return next;
+};
+
+const getFirstFlowChild = (page: HTMLElement, m: PaginationMeasurer): HTMLElement | null => {
     const els = Array.from(page.children) as HTMLElement[];
     for (let i = 0; i < els.length; i++) {
-        if (isFlowElement(els[i])) return els[i];
+        if (isFlowElement(els[i], m)) return els[i];
     }
     return null;
 };
@@ -506,9 +426,9 @@ const isTextSplitTarget = (el: HTMLElement) => {
     return el.matches('p, h1, h2, h3, h4, h5, h6, li, blockquote');
 };
 
-const splitTextBlockByRange = (element: HTMLElement, pageBottom: number): HTMLElement | null => {
+const collectTextNodes = (root: HTMLElement): Text[] => {
     const textNodes: Text[] = [];
-    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    const walker = root.ownerDocument.createTreeWalker(root, SHOW_TEXT);
     let node = walker.nextNode() as Text | null;
     while (node) {
         if (node.textContent && node.textContent.trim().length > 0) {
@@ -516,15 +436,20 @@ const splitTextBlockByRange = (element: HTMLElement, pageBottom: number): HTMLEl
         }
         node = walker.nextNode() as Text | null;
     }
+    return textNodes;
+};
 
+/**
+ * Finds the first text node that crosses `pageBottom` and the last character offset in it
+ * that still fits. Returns null when all text fits.
+ */
+const findTextSplitPoint = (root: HTMLElement, page: HTMLElement, pageBottom: number, m: PaginationMeasurer) => {
+    const textNodes = collectTextNodes(root);
     if (textNodes.length === 0) return null;
 
     let overflowNode: Text | null = null;
     for (const textNode of textNodes) {
-        const range = document.createRange();
-        range.selectNodeContents(textNode);
-        const rect = range.getBoundingClientRect();
-        if (rect.bottom > pageBottom + 1) {
+        if (m.getTextBottom(textNode, page) > pageBottom + 1) {
             overflowNode = textNode;
             break;
         }
@@ -536,14 +461,10 @@ const splitTextBlockByRange = (element: HTMLElement, pageBottom: number): HTMLEl
     let low = 0;
     let high = text.length;
     let best = 0;
-    const range = document.createRange();
 
     while (low <= high) {
         const mid = Math.floor((low + high) / 2);
-        range.setStart(overflowNode, 0);
-        range.setEnd(overflowNode, Math.max(0, mid));
-        const rect = range.getBoundingClientRect();
-        if (rect.bottom <= pageBottom) {
+        if (m.getTextBottom(overflowNode, page, Math.max(0, mid)) <= pageBottom) {
             best = mid;
             low = mid + 1;
         } else {
@@ -551,11 +472,17 @@ const splitTextBlockByRange = (element: HTMLElement, pageBottom: number): HTMLEl
         }
     }
 
-    const splitOffset = Math.max(0, best);
-    const splitRange = document.createRange();
+    return { node: overflowNode, offset: Math.max(0, best) };
+};
+
+/**
+ * Moves everything from the split point to the end of `element` into a shallow clone of it.
+ */
+const extractFromSplitPoint = (element: HTMLElement, splitNode: Text, splitOffset: number): HTMLElement | null => {
+    const splitRange = element.ownerDocument.createRange();
     splitRange.selectNodeContents(element);
     try {
-        splitRange.setStart(overflowNode, splitOffset);
+        splitRange.setStart(splitNode, splitOffset);
     } catch {
         return null;
     }
@@ -574,6 +501,12 @@ const splitTextBlockByRange = (element: HTMLElement, pageBottom: number): HTMLEl
     return newElement;
 };
 
+const splitTextBlockByRange = (element: HTMLElement, page: HTMLElement, pageBottom: number, m: PaginationMeasurer): HTMLElement | null => {
+    const point = findTextSplitPoint(element, page, pageBottom, m);
+    if (!point) return null;
+    return extractFromSplitPoint(element, point.node, point.offset);
+};
+
 const isSplitContainer = (el: HTMLElement) => {
     const tag = el.tagName.toLowerCase();
     if (el.classList.contains('page')) return false;
@@ -582,19 +515,24 @@ const isSplitContainer = (el: HTMLElement) => {
     return ['div', 'section', 'article', 'main', 'ul', 'ol'].includes(tag);
 };
 
-const splitContainerByChildren = (container: HTMLElement, pageBottom: number): HTMLElement | null => {
+const splitContainerByChildren = (container: HTMLElement, page: HTMLElement, pageBottom: number, rules: PaginationRules, m: PaginationMeasurer): HTMLElement | null => {
     const children = Array.from(container.children) as HTMLElement[];
     if (children.length < 2) return null;
 
     let splitIndex = -1;
     for (let i = 0; i < children.length; i++) {
-        const rect = children[i].getBoundingClientRect();
-        if (rect.bottom > pageBottom) {
+        const box = m.getBlockBox(children[i], page);
+        if (box.top + box.height > pageBottom) {
             splitIndex = i;
             break;
         }
     }
 
+    // Don't leave a keep-with-next child (e.g. a heading) as the last one before the break
+    while (splitIndex > 0 && keepsWithNext(children[splitIndex - 1], rules, m)) {
+        splitIndex--;
+    }
+
     if (splitIndex <= 0) return null;
 
     const newContainer = container.cloneNode(false) as HTMLElement;
@@ -607,83 +545,50 @@ const splitContainerByChildren = (container: HTMLElement, pageBottom: number): H
     return newContainer;
 };
 
-const splitContainerByRange = (container: HTMLElement, pageBottom: number): HTMLElement | null => {
-    const textNodes: Text[] = [];
-    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
-    let node = walker.nextNode() as Text | null;
-    while (node) {
-        if (node.textContent && node.textContent.trim().length > 0) {
-            textNodes.push(node);
-        }
-        node = walker.nextNode() as Text | null;
-    }
-
-    if (textNodes.length === 0) return null;
-
-    let overflowNode: Text | null = null;
-    for (const textNode of textNodes) {
-        const range = document.createRange();
-        range.selectNodeContents(textNode);
-        const rect = range.getBoundingClientRect();
-        if (rect.bottom > pageBottom + 1) {
-            overflowNode = textNode;
-            break;
-        }
-    }
-
-    if (!overflowNode) return null;
-
-    const text = overflowNode.textContent || '';
-    let low = 0;
-    let high = text.length;
-    let best = 0;
-    const range = document.createRange();
-
-    while (low <= high) {
-        const mid = Math.floor((low + high) / 2);
-        range.setStart(overflowNode, 0);
-        range.setEnd(overflowNode, Math.max(0, mid));
-        const rect = range.getBoundingClientRect();
-        if (rect.bottom <= pageBottom) {
-            best = mid;
-            low = mid + 1;
-        } else {
-            high = mid - 1;
-        }
-    }
-
-    const splitRange = document.createRange();
-    splitRange.selectNodeContents(container);
-    try {
-        splitRange.setStart(overflowNode, Math.max(0, best));
-    } catch {
-        return null;
-    }
-
-    const fragment = splitRange.extractContents();
-    if (!fragment || fragment.childNodes.length === 0) return null;
-
-    const newContainer = container.cloneNode(false) as HTMLElement;
-    newContainer.removeAttribute('id');
-    newContainer.appendChild(fragment);
-
-    if (!container.textContent?.trim() && container.children.length === 0) {
-        container.remove();
-    }
+const splitContainerByRange = (container: HTMLElement, page: HTMLElement, pageBottom: number, m: PaginationMeasurer): HTMLElement | null => {
+    const point = findTextSplitPoint(container, page, pageBottom, m);
+    if (!point) return null;
+    return extractFromSplitPoint(container, point.node, point.offset);
+};
 
-    return newContainer;
+/**
+ * True when `next` (first block of a page) looks like the rest of `previous` (last block of
+ * the page before) after a split: the paginator's fragments are shallow clones with the same
+ * tag, class and inline style, and the first half stops mid-sentence. Exporters that reflow
+ * the text themselves (DOCX, EPUB) use it to join the halves again.
+ */
+export const isSplitContinuation = (previous: Element | null, next: Element | null): boolean => {
+    if (!previous || !next || previous.tagName !== next.tagName) return false;
+    if (previous.className !== next.className || (previous.getAttribute('style') || '') !== (next.getAttribute('style') || '')) return false;
+    if (/^H[1-6]$/.test(previous.tagName)) return false;
+    if (previous.tagName === 'UL' || previous.tagName === 'OL') return true;
+    const text = (previous.textContent || '').trim();
+    return text.length > 0 && !/[.!?…:;"'”»)\]]$/.test(text) && (next.textContent || '').trim().length > 0;
 };
 
+export interface ReflowOptions {
+    pullUp?: boolean;
+    /** Break rules; DEFAULT_PAGINATION_RULES when omitted. */
+    rules?: PaginationRules;
+    timeBudgetMs?: number;
+    maxIterations?: number;
+    /** Layout source; defaults to the live DOM. */
+    measurer?: PaginationMeasurer;
+}
+
 /**
  * The core reflow logic.
  * CONSERVATIVE: Only moves WHOLE elements to next page when they overflow.
  * Never splits elements, never pulls content up, never removes pages.
  * This preserves the original document structure and spacing.
  */
-export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; timeBudgetMs?: number; maxIterations?: number }): { changed: boolean; budgetExceeded: boolean } => {
+export const reflowPages = (editor: HTMLElement, options?: ReflowOptions): { changed: boolean; budgetExceeded: boolean } => {
     // 1. Sanitize first
     ensureContentIsPaginated(editor);
 
+    const m = options?.measurer ?? domMeasurer;
+    const rules = options?.rules ?? DEFAULT_PAGINATION_RULES;
+    const doc = editor.ownerDocument;
     const pages = Array.from(editor.querySelectorAll('.page')) as HTMLElement[];
     let changesMade = false;
     let iterations = 0;
@@ -693,6 +598,17 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
     const pullUp = options?.pullUp ?? true;
     let budgetExceeded = false;
 
+    const getOrCreateNextPage = (index: number) => {
+        let nextPage = pages[index + 1];
+        if (!nextPage) {
+            nextPage = doc.createElement('div');
+            nextPage.className = 'page';
+            editor.appendChild(nextPage);
+            pages.push(nextPage);
+        }
+        return nextPage;
+    };
+
     for (let i = 0; i < pages.length && iterations < maxIterations; i++) {
         // Time budget check on the outer loop to keep the UI responsive.
         // If we exceed the budget, stop and let reflowPagesUntilStable
@@ -702,55 +618,41 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
             break;
         }
         const page = pages[i];
-        const computed = window.getComputedStyle(page);
-        const scale = getScale(page);
-        const paddingTop = parseFloat(computed.paddingTop) || 0;
-        const paddingBottom = parseFloat(computed.paddingBottom) || 0;
-        const pageRect = page.getBoundingClientRect();
-        const pageHeightCss = pageRect.height / scale;
-        let contentAreaHeightCss = pageHeightCss - paddingTop - paddingBottom;
-        const footerLimit = getFooterLimit(page);
-        // pageBottom is still used by split functions that rely on viewport coords.
-        // We keep it for backward compat with splitContainerByChildren/splitTextBlockByRange.
-        let pageBottom = pageRect.bottom - paddingBottom * scale;
-        if (footerLimit !== null) {
-            pageBottom = Math.min(pageBottom, footerLimit);
-            const footerRelCss = (footerLimit - pageRect.top) / scale - paddingTop;
-            contentAreaHeightCss = Math.min(contentAreaHeightCss, footerRelCss);
-        }
-        const availableHeight = Math.max(0, contentAreaHeightCss);  // CSS px
+        const frame = getPageFrame(page, m);
+        // pageBottom: the lowest page-relative CSS px any flow content may reach.
+        const pageBottom = frame.contentBottom;
+        const availableHeight = Math.max(0, frame.contentAreaHeight);  // CSS px
 
         // Only handle overflow - push elements to next page
-        while (isPageOverflowing(page) && iterations < maxIterations) {
+        while (isPageOverflowing(page, m) && iterations < maxIterations) {
             if (performance.now() - start > timeBudgetMs) {
                 budgetExceeded = true;
                 break;
             }
             iterations++;
 
-            const overflowEl = getLastOverflowingFlowChild(page, pageBottom, scale);
+            const overflowEl = getLastOverflowingFlowChild(page, pageBottom, m);
             if (!overflowEl) break;
             const lastEl = overflowEl;
 
-            let avoidBreak = shouldAvoidBreak(lastEl);
-            const hardKeep = isHardKeepTogether(lastEl);
+            let avoidBreak = shouldAvoidBreak(lastEl, m);
+            const hardKeep = isHardKeepTogether(lastEl, m);
             // Use scroll-independent height for element height check
-            const lastElHeightCss = lastEl.getBoundingClientRect().height / scale;
+            const lastElHeightCss = m.getBlockBox(lastEl, page).height;
             if (avoidBreak && !hardKeep && availableHeight > 0 && lastElHeightCss > availableHeight + 1) {
                 avoidBreak = false;
             }
 
+            // Where a text split may fall once orphans/widows are respected. A block that is
+            // already first on its page has nowhere better to go, so it splits at the bottom.
+            const isFirstFlow = getFirstFlowChild(page, m) === lastEl;
+            const lineBreakBottom = avoidBreak ? null : (getLineRuleBottom(lastEl, page, pageBottom, rules, m) ?? (isFirstFlow ? pageBottom : null));
+
             if (!avoidBreak && isSplitContainer(lastEl)) {
-                const split = splitContainerByChildren(lastEl, pageBottom) || splitContainerByRange(lastEl, pageBottom);
+                const split = splitContainerByChildren(lastEl, page, pageBottom, rules, m)
+                    || (lineBreakBottom !== null ? splitContainerByRange(lastEl, page, lineBreakBottom, m) : null);
                 if (split) {
-                    let nextPage = pages[i + 1];
-                    if (!nextPage) {
-                        nextPage = document.createElement('div');
-                        nextPage.className = 'page';
-                        editor.appendChild(nextPage);
-                        pages.push(nextPage);
-                    }
-
+                    const nextPage = getOrCreateNextPage(i);
                     if (nextPage.firstChild) {
                         nextPage.insertBefore(split, nextPage.firstChild);
                     } else {
@@ -761,17 +663,10 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
                 }
             }
 
-            if (!avoidBreak && isTextSplitTarget(lastEl)) {
-                const split = splitTextBlockByRange(lastEl, pageBottom);
+            if (!avoidBreak && isTextSplitTarget(lastEl) && lineBreakBottom !== null) {
+                const split = splitTextBlockByRange(lastEl, page, lineBreakBottom, m);
                 if (split) {
-                    let nextPage = pages[i + 1];
-                    if (!nextPage) {
-                        nextPage = document.createElement('div');
-                        nextPage.className = 'page';
-                        editor.appendChild(nextPage);
-                        pages.push(nextPage);
-                    }
-
+                    const nextPage = getOrCreateNextPage(i);
                     if (nextPage.firstChild) {
                         nextPage.insertBefore(split, nextPage.firstChild);
                     } else {
@@ -783,20 +678,12 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
             }
 
             // If the element itself is taller than the page, don't keep moving it forever
-            const firstFlow = getFirstFlowChild(page);
-            const isOnlyFlow = firstFlow && firstFlow === lastEl;
-            if (availableHeight > 0 && lastElHeightCss > availableHeight + 1 && isOnlyFlow) {
+            if (availableHeight > 0 && lastElHeightCss > availableHeight + 1 && isFirstFlow) {
                 break;
             }
 
             // Get or create next page
-            let nextPage = pages[i + 1];
-            if (!nextPage) {
-                nextPage = document.createElement('div');
-                nextPage.className = 'page';
-                editor.appendChild(nextPage);
-                pages.push(nextPage);
-            }
+            const nextPage = getOrCreateNextPage(i);
 
             // Move the WHOLE element to the beginning of next page
             const breakMarker = getPageBreakMarker(nextPage);
@@ -810,6 +697,19 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
 
             changesMade = true;
         }
+        // Keep-with-next: push a trailing heading over to the content that follows it.
+        // Never empty the page this way, and never carry it across a user page break.
+        let tail = getLastFlowChild(page, m);
+        while (tail && keepsWithNext(tail, rules, m) && tail !== getFirstFlowChild(page, m) && iterations < maxIterations) {
+            const nextPage = pages[i + 1];
+            const following = nextPage ? getFirstFlowChild(nextPage, m) : null;
+            if (!nextPage || !following || getPageBreakMarker(nextPage)) break;
+            nextPage.insertBefore(tail, following);
+            changesMade = true;
+            iterations++;
+            tail = getLastFlowChild(page, m);
+        }
+
         // IMPORTANT: Do NOT break the for loop here even if budgetExceeded during pushDown.
         // We must still run pullUp for this page and continue to all subsequent pages.
         // budgetExceeded only affects whether we schedule additional rAF passes.
@@ -824,16 +724,13 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
                 continue;
             }
 
-            // Calculate free space ONCE using offset-based measurements (scroll-independent)
-            const pgComp = window.getComputedStyle(page);
-            const pgPtop = parseFloat(pgComp.paddingTop) || 0;
-            const pgPbot = parseFloat(pgComp.paddingBottom) || 0;
-            const pgContentArea = page.offsetHeight - pgPtop - pgPbot;
-            const pgUsed = getContentHeightOffset(page);
-            let pgFree = pgContentArea - pgUsed;
+            // Calculate free space ONCE (scroll-independent). Uses the same footer-aware
+            // content area as the push-down above, otherwise a block could bounce between pages.
+            const pgUsed = getContentHeight(page, m);
+            let pgFree = availableHeight - pgUsed;
 
             while (nextPage && pgFree > 1 && iterations < maxIterations) {
-                const firstEl = getFirstFlowChild(nextPage);
+                const firstEl = getFirstFlowChild(nextPage, m);
                 if (!firstEl) {
                     // nextPage is empty — skip to the next page
                     const nextIdx = pages.indexOf(nextPage);
@@ -844,16 +741,24 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
                     continue;
                 }
 
-                // Measure element height (scroll-independent via offsetHeight)
-                const elH = firstEl.offsetHeight;
-                const elS = window.getComputedStyle(firstEl);
-                const elMt = parseFloat(elS.marginTop) || 0;
-                const elMb = parseFloat(elS.marginBottom) || 0;
-                const elTotal = elH + elMt + elMb;
+                // A keep-with-next block only comes up together with the block that follows it
+                const group = [firstEl];
+                while (keepsWithNext(group[group.length - 1], rules, m)) {
+                    const following = getNextFlowSibling(group[group.length - 1], m);
+                    if (!following) break;
+                    group.push(following);
+                }
+                if (keepsWithNext(group[group.length - 1], rules, m)) break;
+
+                // Measure element height including both margins
+                const elTotal = group.reduce((sum, el) => {
+                    const elBox = m.getBlockBox(el, nextPage!);
+                    return sum + elBox.height + elBox.marginTop + elBox.marginBottom;
+                }, 0);
 
                 if (elTotal <= pgFree + 1) {
                     // Element fits — move it up
-                    page.appendChild(firstEl);
+                    group.forEach(el => page.appendChild(el));
                     pgFree -= elTotal; // Track mathematically, no layout flush needed
                     changesMade = true;
                     iterations++;
@@ -865,8 +770,8 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
             }
         }
 
-        if (isPageOverflowing(page)) {
-            const overflowEl = getLastOverflowingFlowChild(page, pageBottom, scale);
+        if (m === domMeasurer && isPageOverflowing(page, m)) {
+            const overflowEl = getLastOverflowingFlowChild(page, pageBottom, m);
             recordReflowIssue({
                 reason: 'overflow-after-reflow',
                 pageIndex: i,
@@ -876,7 +781,7 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
                     height: Math.round(page.getBoundingClientRect().height)
                 },
                 pageBottom: Math.round(pageBottom),
-                footerLimit: footerLimit !== null ? Math.round(footerLimit) : null,
+                footerLimit: frame.footerTop !== null ? Math.round(frame.footerTop) : null,
                 overflowElement: overflowEl ? summarizeElement(overflowEl) : null,
                 footerCandidates: summarizeFooterCandidates(page)
             });
@@ -892,10 +797,7 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
             const emptyPage = pages[i];
             // Never remove pages with an explicit page-break marker (user-inserted break).
             if (getPageBreakMarker(emptyPage)) continue;
-            const flowKids = Array.from(emptyPage.children).filter(c =>
-                isFlowElement(c as HTMLElement)
-            );
-            if (flowKids.length === 0) {
+            if (getFlowChildren(emptyPage, m).length === 0) {
                 emptyPage.remove();
                 pages.splice(i, 1);
                 changesMade = true;
@@ -903,6 +805,8 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
         }
     }
 
+    if (changesMade) reflowListeners.forEach(listener => listener(editor));
+
     // Return both whether changes were made and whether the budget was exceeded.
     // The caller (reflowPagesUntilStable) uses budgetExceeded to decide whether to
     // schedule another pass even when changesMade is false (so we don't miss work).
@@ -914,11 +818,13 @@ export const reflowPages = (editor: HTMLElement, options?: { pullUp?: boolean; t
  * - Splits oversized flow elements when possible
  * - No time budget, but uses a safety max iteration limit
  */
-export const reflowPagesAggressive = (editor: HTMLElement, options?: { maxIterations?: number }) => {
+export const reflowPagesAggressive = (editor: HTMLElement, options?: { maxIterations?: number; measurer?: PaginationMeasurer; rules?: PaginationRules }) => {
     return reflowPages(editor, {
         pullUp: true,
         timeBudgetMs: 200,
-        maxIterations: options?.maxIterations ?? 5000
+        maxIterations: options?.maxIterations ?? 5000,
+        measurer: options?.measurer,
+        rules: options?.rules
     });
 };
 
@@ -934,18 +840,20 @@ export const reflowPagesAggressive = (editor: HTMLElement, options?: { maxIterat
  */
 export const reflowPagesUntilStable = (
     editor: HTMLElement,
-    options?: { pullUp?: boolean; maxPasses?: number; onDone?: () => void }
+    options?: { pullUp?: boolean; maxPasses?: number; onDone?: () => void; measurer?: PaginationMeasurer; rules?: PaginationRules }
 ) => {
     // 50 passes maximum: each pass can cascade one level of pages.
     // For a document where content needs to rise 40 pages, we need 40 passes.
     const maxPasses = options?.maxPasses ?? 50;
     const pullUp = options?.pullUp ?? true;
     const onDone = options?.onDone;
+    const measurer = options?.measurer;
+    const rules = options?.rules;
 
     // Pass 1: synchronous — process pages with a tight budget for UI responsiveness.
     // 80ms = roughly 1 frame at 60fps. This processes ~20 pages per pass.
     // For the full 170-page document, reflowPagesUntilStable uses rAF passes.
-    const result1 = reflowPages(editor, { pullUp, timeBudgetMs: 80, maxIterations: 3000 });
+    const result1 = reflowPages(editor, { pullUp, timeBudgetMs: 80, maxIterations: 3000, measurer, rules });
 
     if (!result1.changed && !result1.budgetExceeded) {
         onDone?.();
@@ -957,7 +865,7 @@ export const reflowPagesUntilStable = (
     const scheduleNextPass = () => {
         if (pass >= maxPasses) { onDone?.(); return; }
         requestAnimationFrame(() => {
-            const result = reflowPages(editor, { pullUp, timeBudgetMs: 150, maxIterations: 3000 });
+            const result = reflowPages(editor, { pullUp, timeBudgetMs: 150, maxIterations: 3000, measurer, rules });
             pass++;
             if (result.changed || result.budgetExceeded) {
                 scheduleNextPass(); // More work to do
@@ -970,4 +878,33 @@ export const reflowPagesUntilStable = (
     scheduleNextPass();
 };
 
+/**
+ * Synchronous, budget-free pagination for headless use (tests, batch export).
+ * Repeats reflowPages until a pass makes no change or `maxPasses` is reached.
+ */
+export const paginateDocument = (
+    editor: HTMLElement,
+    options?: { pullUp?: boolean; maxPasses?: number; measurer?: PaginationMeasurer; rules?: PaginationRules }
+): { passes: number; stable: boolean; pageCount: number } => {
+    const maxPasses = options?.maxPasses ?? 200;
+    let passes = 0;
+    let stable = false;
+    while (passes < maxPasses) {
+        passes++;
+        const result = reflowPages(editor, {
+            pullUp: options?.pullUp ?? true,
+            timeBudgetMs: Number.POSITIVE_INFINITY,
+            maxIterations: 100000,
+            measurer: options?.measurer,
+            rules: options?.rules
+        });
+        if (!result.changed) {
+            stable = true;
+            break;
+        }
+    }
+    return { passes, stable, pageCount: editor.querySelectorAll('.page').length };
+};
 
+export type { PaginationMeasurer } from './paginationMeasurer';
+export { domMeasurer, createFixedMetricsMeasurer } from './paginationMeasurer';
@@ -0,0 +1,472 @@
+// utils/paginationMeasurer.ts
+//
+// Layout measurements used by the pagination engine. utils/pagination.ts never reads layout
+// itself: it asks a PaginationMeasurer, so the same reflow code runs against the live editor
+// (domMeasurer) or against deterministic metrics in Node/jsdom (createFixedMetricsMeasurer).
+//
+// Every value is in CSS px relative to the top edge of the page element, so results are
+// independent of scroll position and editor zoom.
+
+export interface BlockBox {
+    top: number;
+    height: number;
+    marginTop: number;
+    marginBottom: number;
+}
+
+export interface PageBox {
+    height: number;
+    paddingTop: number;
+    paddingBottom: number;
+}
+
+/**
+ * Break-related CSS of an element. `orphans` / `widows` are null unless the document's CSS
+ * (a style sheet rule matching the element, or its inline style) declares them; the app-wide
+ * pagination rules apply instead.
+ */
+export interface BreakStyle {
+    orphans: number | null;
+    widows: number | null;
+    breakInside: string;
+    breakAfter: string;
+}
+
+export interface PaginationMeasurer {
+    getPageBox(page: HTMLElement): PageBox;
+    getBlockBox(el: HTMLElement, page: HTMLElement): BlockBox;
+    /** Top of the highest footer / page-number element on the page, or null when there is none. */
+    getFooterTop(page: HTMLElement): number | null;
+    /** Bottom of the text from the start of `node` up to `endOffset` (the whole node when omitted). */
+    getTextBottom(node: Text, page: HTMLElement, endOffset?: number): number;
+    /** Bottom edge of every line box of the element's text, top to bottom. */
+    getLineBottoms(el: HTMLElement, page: HTMLElement): number[];
+    getBreakStyle(el: HTMLElement): BreakStyle;
+    isOutOfFlow(el: HTMLElement): boolean;
+}
+
+export const FOOTER_SELECTOR = '.page-footer, .page-number, [data-page-footer="true"], [data-page-number="true"], footer';
+
+export const isFooterElement = (el: HTMLElement): boolean => {
+    if (el.classList.contains('page-footer')) return true;
+    if (el.classList.contains('page-number')) return true;
+    if (el.getAttribute('data-page-footer') === 'true') return true;
+    if (el.getAttribute('data-page-number') === 'true') return true;
+    if (el.tagName.toLowerCase() === 'footer') return true;
+    return false;
+};
+
+// jsdom drops CSS properties it does not know (orphans, widows, break-*), so read the raw attribute.
+const readInlineDeclaration = (el: HTMLElement, property: string): string | null => {
+    const style = el.getAttribute('style') || '';
+    const match = style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i'));
+    return match ? match[1].trim() : null;
+};
+
+const LINE_COUNT_PROPERTIES = ['orphans', 'widows'];
+
+type DeclaringRule = { selector: string; style: CSSStyleDeclaration };
+
+// Style rules (also inside @media / @supports) that set orphans or widows, per sheet. Editing
+// a <style> element replaces its sheet, so the cache never goes stale.
+const declaringRulesCache = new WeakMap<CSSStyleSheet, DeclaringRule[]>();
+
+const collectDeclaringRules = (rules: CSSRuleList, found: DeclaringRule[]) => {
+    Array.from(rules).forEach(rule => {
+        const style = (rule as CSSStyleRule).style;
+        const selector = (rule as CSSStyleRule).selectorText;
+        if (style && selector && LINE_COUNT_PROPERTIES.some(property => style.getPropertyValue(property))) {
+            found.push({ selector, style });
+        }
+        const nested = (rule as CSSGroupingRule).cssRules;
+        if (nested) collectDeclaringRules(nested, found);
+    });
+};
+
+const getDeclaringRules = (sheet: CSSStyleSheet): DeclaringRule[] => {
+    let found = declaringRulesCache.get(sheet);
+    if (!found) {
+        found = [];
+        try {
+            collectDeclaringRules(sheet.cssRules, found);
+        } catch {
+            // Cross-origin sheets cannot be read; they never hold document CSS
+        }
+        declaringRulesCache.set(sheet, found);
+    }
+    return found;
+};
+
+const matchesSelector = (el: HTMLElement, selector: string) => {
+    try {
+        return el.matches(selector);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * The value the document's CSS declares for `property` on `el`: its inline style, else the
+ * last matching style sheet rule, else null. Tells an explicit `orphans: 2` apart from the
+ * initial value, which getComputedStyle cannot.
+ */
+const readDeclaredValue = (el: HTMLElement, property: string): string | null => {
+    const inline = readInlineDeclaration(el, property);
+    if (inline !== null) return inline;
+    let value: string | null = null;
+    Array.from(el.ownerDocument.styleSheets).forEach(sheet => {
+        getDeclaringRules(sheet).forEach(rule => {
+            const declared = rule.style.getPropertyValue(property);
+            if (declared && matchesSelector(el, rule.selector)) value = declared.trim();
+        });
+    });
+    return value;
+};
+
+const parseLineCount = (value: string | null | undefined): number | null => {
+    const count = parseInt(value || '', 10);
+    if (!Number.isFinite(count) || count < 1) return null;
+    return count;
+};
+
+const normalizeBreakValue = (modern: string | null | undefined, legacy: string | null | undefined) => {
+    const value = (modern && modern !== 'auto' ? modern : legacy) || 'auto';
+    return value.trim().toLowerCase();
+};
+
+// --- Live DOM ---
+
+/**
+ * Get the scale factor applied to an element (e.g., from zoom transform)
+ */
+export const getScale = (el: HTMLElement): number => {
+    const rect = el.getBoundingClientRect();
+    const h = el.offsetHeight || 1;
+    return rect.height / h || 1;
+};
+
+export const domMeasurer: PaginationMeasurer = {
+    getPageBox(page) {
+        const computed = window.getComputedStyle(page);
+        return {
+            height: page.getBoundingClientRect().height / getScale(page),
+            paddingTop: parseFloat(computed.paddingTop) || 0,
+            paddingBottom: parseFloat(computed.paddingBottom) || 0
+        };
+    },
+
+    getBlockBox(el, page) {
+        const scale = getScale(page);
+        const rect = el.getBoundingClientRect();
+        const pageRect = page.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        return {
+            top: (rect.top - pageRect.top) / scale,
+            height: rect.height / scale,
+            marginTop: parseFloat(style.marginTop) || 0,
+            marginBottom: parseFloat(style.marginBottom) || 0
+        };
+    },
+
+    getFooterTop(page) {
+        const candidates = Array.from(page.querySelectorAll(FOOTER_SELECTOR)) as HTMLElement[];
+        let limit: number | null = null;
+        candidates.forEach(el => {
+            if (!el.isConnected) return;
+            const rect = el.getBoundingClientRect();
+            if (rect.height <= 0 || rect.width <= 0) return;
+            const style = window.getComputedStyle(el);
+            const isAbsolute = style.position === 'absolute' || style.position === 'fixed';
+            if (!isFooterElement(el) && !isAbsolute) return;
+            if (limit === null || rect.top < limit) {
+                limit = rect.top;
+            }
+        });
+        if (limit === null) return null;
+        return (limit - page.getBoundingClientRect().top) / getScale(page);
+    },
+
+    getTextBottom(node, page, endOffset) {
+        const range = node.ownerDocument.createRange();
+        if (endOffset === undefined) {
+            range.selectNodeContents(node);
+        } else {
+            range.setStart(node, 0);
+            range.setEnd(node, Math.max(0, endOffset));
+        }
+        return (range.getBoundingClientRect().bottom - page.getBoundingClientRect().top) / getScale(page);
+    },
+
+    getLineBottoms(el, page) {
+        // Only text rects: a range over the element would also report the border boxes of
+        // selected child elements, which span several lines.
+        const rects: DOMRect[] = [];
+        const range = el.ownerDocument.createRange();
+        const walker = el.ownerDocument.createTreeWalker(el, 0x4);
+        let node = walker.nextNode();
+        while (node) {
+            if (node.textContent && node.textContent.trim().length > 0) {
+                range.selectNodeContents(node);
+                rects.push(...Array.from(range.getClientRects()).filter(rect => rect.height > 0));
+            }
+            node = walker.nextNode();
+        }
+        rects.sort((a, b) => a.top - b.top);
+        const pageTop = page.getBoundingClientRect().top;
+        const scale = getScale(page);
+
+        // Rects that overlap vertically belong to the same line (inline runs with different fonts).
+        const lines: Array<{ top: number; bottom: number }> = [];
+        rects.forEach(rect => {
+            const current = lines[lines.length - 1];
+            if (current && rect.top < current.bottom - 1) {
+                current.bottom = Math.max(current.bottom, rect.bottom);
+            } else {
+                lines.push({ top: rect.top, bottom: rect.bottom });
+            }
+        });
+        return lines.map(line => (line.bottom - pageTop) / scale);
+    },
+
+    getBreakStyle(el) {
+        const style = window.getComputedStyle(el);
+        return {
+            orphans: readDeclaredValue(el, 'orphans') !== null ? parseLineCount(style.orphans) : null,
+            widows: readDeclaredValue(el, 'widows') !== null ? parseLineCount(style.widows) : null,
+            breakInside: normalizeBreakValue(style.breakInside, style.pageBreakInside),
+            breakAfter: normalizeBreakValue(style.breakAfter, style.pageBreakAfter)
+        };
+    },
+
+    isOutOfFlow(el) {
+        const pos = window.getComputedStyle(el).position;
+        return pos === 'absolute' || pos === 'fixed';
+    }
+};
+
+// --- Fixed metrics (headless) ---
+
+export interface FixedMetrics {
+    pageHeight: number;
+    paddingTop: number;
+    paddingBottom: number;
+    lineHeight: number;
+    /** Characters per line; text wraps at exactly this many characters, ignoring word boundaries. */
+    charsPerLine: number;
+}
+
+interface TextSlot {
+    runTop: number;
+    start: number;
+}
+
+interface FixedLayout {
+    boxes: Map<Element, BlockBox>;
+    texts: Map<Text, TextSlot>;
+}
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'dd', 'dt', 'figure', 'figcaption',
+    'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'img', 'li', 'main', 'nav',
+    'ol', 'p', 'pre', 'section', 'table', 'tbody', 'thead', 'tfoot', 'tr', 'ul'
+]);
+
+const inlinePx = (value: string) => (value.trim().endsWith('px') ? parseFloat(value) || 0 : 0);
+
+const isPositioned = (el: HTMLElement) => el.style.position === 'absolute' || el.style.position === 'fixed';
+
+const takesNoSpace = (el: HTMLElement) => {
+    if (isPositioned(el) || isFooterElement(el)) return true;
+    if (el.getAttribute('data-page-break') === 'true') return true;
+    if (el.getAttribute('data-user-page-break') === 'true') return true;
+    return el.style.display === 'none';
+};
+
+const explicitHeight = (el: HTMLElement) => {
+    return inlinePx(el.style.height) || (el.tagName.toLowerCase() === 'img' ? Number(el.getAttribute('height')) || 0 : 0);
+};
+
+/**
+ * A measurer with a simplified, fully deterministic layout model for tests and headless runs:
+ * block children stack vertically, inline content wraps every `charsPerLine` characters, margins
+ * come only from inline px styles (no collapsing), whitespace-only text takes no room and an
+ * inline px `height` (or an <img height>) fixes a block's size. Positioned elements are read
+ * from their inline `top` / `bottom` styles. Break styles are inline too, except `orphans` /
+ * `widows`, which are also read from the document's style sheets.
+ *
+ * The layout of a page is computed once and reused until something inside the page changes
+ * (a MutationObserver per page; its records are read synchronously before each measurement).
+ */
+export const createFixedMetricsMeasurer = (metrics: FixedMetrics): PaginationMeasurer => {
+    const pageHeightOf = (page: HTMLElement) => inlinePx(page.style.height) || metrics.pageHeight;
+
+    const layoutChildren = (parent: Element, top: number, layout: FixedLayout): number => {
+        let cursor = top;
+        let runTop = top;
+        let runChars = 0;
+        let runHasBreak = false;
+
+        const flushRun = () => {
+            if (runChars > 0 || runHasBreak) {
+                cursor += Math.max(1, Math.ceil(runChars / metrics.charsPerLine)) * metrics.lineHeight;
+            }
+            runTop = cursor;
+            runChars = 0;
+            runHasBreak = false;
+        };
+
+        const addInline = (node: Node) => {
+            if (node.nodeType === 3) {
+                const text = node as Text;
+                layout.texts.set(text, { runTop, start: runChars });
+                if (text.data.trim().length > 0) runChars += text.data.length;
+                return;
+            }
+            if (node.nodeType !== 1) return;
+            const el = node as HTMLElement;
+            if (takesNoSpace(el)) return;
+            if (el.tagName.toLowerCase() === 'br') {
+                runChars = (Math.floor(runChars / metrics.charsPerLine) + 1) * metrics.charsPerLine;
+                runHasBreak = true;
+                return;
+            }
+            Array.from(el.childNodes).forEach(addInline);
+        };
+
+        Array.from(parent.childNodes).forEach(node => {
+            const el = node as HTMLElement;
+            if (node.nodeType !== 1 || !BLOCK_TAGS.has(el.tagName.toLowerCase())) {
+                addInline(node);
+                return;
+            }
+            if (takesNoSpace(el)) {
+                layout.boxes.set(el, { top: cursor, height: 0, marginTop: 0, marginBottom: 0 });
+                return;
+            }
+            flushRun();
+            const marginTop = inlinePx(el.style.marginTop);
+            const marginBottom = inlinePx(el.style.marginBottom);
+            cursor += marginTop;
+            const fixed = explicitHeight(el);
+            const height = fixed || layoutChildren(el, cursor, layout);
+            layout.boxes.set(el, { top: cursor, height, marginTop, marginBottom });
+            cursor += height + marginBottom;
+            runTop = cursor;
+        });
+
+        flushRun();
+        return cursor - top;
+    };
+
+    // `stale` is set when queued records were delivered to the callback instead (between tasks)
+    const cache = new WeakMap<HTMLElement, { layout: FixedLayout; observer: MutationObserver; stale: boolean }>();
+
+    const layoutPage = (page: HTMLElement): FixedLayout => {
+        const cached = cache.get(page);
+        if (cached && cached.observer.takeRecords().length === 0 && !cached.stale) return cached.layout;
+        const layout: FixedLayout = { boxes: new Map(), texts: new Map() };
+        layoutChildren(page, metrics.paddingTop, layout);
+        if (cached) {
+            cached.layout = layout;
+            cached.stale = false;
+            return layout;
+        }
+        const Observer = page.ownerDocument.defaultView?.MutationObserver ?? MutationObserver;
+        const entry = { layout, observer: new Observer(() => { entry.stale = true; }), stale: false };
+        entry.observer.observe(page, { subtree: true, childList: true, characterData: true, attributes: true });
+        cache.set(page, entry);
+        return layout;
+    };
+
+    const textBottom = (slot: TextSlot, length: number) => {
+        const lastChar = slot.start + Math.max(0, length - 1);
+        const line = Math.floor(lastChar / metrics.charsPerLine);
+        return slot.runTop + (line + 1) * metrics.lineHeight;
+    };
+
+    return {
+        getPageBox(page) {
+            return {
+                height: pageHeightOf(page),
+                paddingTop: metrics.paddingTop,
+                paddingBottom: metrics.paddingBottom
+            };
+        },
+
+        getBlockBox(el, page) {
+            const layout = layoutPage(page);
+            const box = layout.boxes.get(el);
+            if (box) return box;
+
+            // Inline element: span the lines of its own text
+            const slots: Array<{ slot: TextSlot; node: Text }> = [];
+            const walker = el.ownerDocument.createTreeWalker(el, 0x4);
+            let node = walker.nextNode() as Text | null;
+            while (node) {
+                const slot = layout.texts.get(node);
+                if (slot) slots.push({ slot, node });
+                node = walker.nextNode() as Text | null;
+            }
+            if (slots.length === 0) return { top: 0, height: 0, marginTop: 0, marginBottom: 0 };
+            const first = slots[0].slot;
+            const last = slots[slots.length - 1];
+            const top = first.runTop + Math.floor(first.start / metrics.charsPerLine) * metrics.lineHeight;
+            return { top, height: textBottom(last.slot, last.node.data.length) - top, marginTop: 0, marginBottom: 0 };
+        },
+
+        getFooterTop(page) {
+            const candidates = Array.from(page.querySelectorAll(FOOTER_SELECTOR)) as HTMLElement[];
+            let limit: number | null = null;
+            candidates.forEach(el => {
+                if (!isFooterElement(el) && !isPositioned(el)) return;
+                let top: number | null = null;
+                if (el.style.top) {
+                    top = inlinePx(el.style.top);
+                } else if (el.style.bottom) {
+                    const height = inlinePx(el.style.height) || metrics.lineHeight;
+                    top = pageHeightOf(page) - inlinePx(el.style.bottom) - height;
+                }
+                if (top !== null && (limit === null || top < limit)) limit = top;
+            });
+            return limit;
+        },
+
+        getTextBottom(node, page, endOffset) {
+            const slot = layoutPage(page).texts.get(node);
+            if (!slot) return 0;
+            return textBottom(slot, endOffset === undefined ? node.data.length : endOffset);
+        },
+
+        getLineBottoms(el, page) {
+            const layout = layoutPage(page);
+            const bottoms = new Set<number>();
+            const walker = el.ownerDocument.createTreeWalker(el, 0x4);
+            let node = walker.nextNode() as Text | null;
+            while (node) {
+                const slot = layout.texts.get(node);
+                if (slot && node.data.trim().length > 0) {
+                    const firstLine = Math.floor(slot.start / metrics.charsPerLine);
+                    const lastLine = Math.floor((slot.start + node.data.length - 1) / metrics.charsPerLine);
+                    for (let line = firstLine; line <= lastLine; line++) {
+                        bottoms.add(slot.runTop + (line + 1) * metrics.lineHeight);
+                    }
+                }
+                node = walker.nextNode() as Text | null;
+            }
+            return Array.from(bottoms).sort((a, b) => a - b);
+        },
+
+        getBreakStyle(el) {
+            return {
+                orphans: parseLineCount(readDeclaredValue(el, 'orphans')),
+                widows: parseLineCount(readDeclaredValue(el, 'widows')),
+                breakInside: normalizeBreakValue(readInlineDeclaration(el, 'break-inside'), readInlineDeclaration(el, 'page-break-inside')),
+                breakAfter: normalizeBreakValue(readInlineDeclaration(el, 'break-after'), readInlineDeclaration(el, 'page-break-after'))
+            };
+        },
+
+        isOutOfFlow(el) {
+            return isPositioned(el);
+        }
+    };
+};
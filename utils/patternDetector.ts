@@ -70,6 +70,8 @@ export const findSimilarElements = (
   allElements.forEach((el) => {
     const htmlEl = el as HTMLElement;
     if (htmlEl === excludeElement) return;
+    // Master page art is redrawn from its master, never part of a pattern
+    if (htmlEl.closest('.master-layer')) return;
     if (!htmlEl.id) {
       htmlEl.id = `pattern-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
     }
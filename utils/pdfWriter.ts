@@ -0,0 +1,1138 @@
+// utils/pdfWriter.ts
+//
+// Direct PDF export: walks the paginated workspace as laid out on screen and writes every
+// page as real PDF content, with no print dialog involved. Text is set one run per line at
+// the browser's word positions, in subsets of the real font files (utils/fontFiles.ts); the
+// export stops when a font cannot be embedded. Images are embedded as-is or as deflated
+// RGB, and backgrounds, borders and rules become vector paths. Elements the writer cannot
+// express (transforms, clip paths, background images) are handed to the optional
+// `rasterize` callback and placed as images.
+// Structure entries become the bookmark outline; TOC rows and `#id` anchors become
+// internal links, other http/mailto anchors URI links.
+
+import { loadUrlBytes } from './dataUrl';
+import { createFontFileLoader, LoadedFace } from './fontFiles';
+import { StoredFont } from './fontUtils';
+import { SfntFont } from './sfnt';
+
+export interface PdfOutlineItem {
+    title: string;
+    level: number; // 1 = top level
+    element: HTMLElement;
+}
+
+export interface PdfWriteOptions {
+    title: string;
+    author?: string;
+    bleed?: number; // inches on the top, bottom and outside edge of every page
+    outline?: PdfOutlineItem[];
+    fonts?: StoredFont[];
+    rasterize?: (element: HTMLElement) => Promise<HTMLCanvasElement | null>;
+}
+
+const PX_TO_PT = 0.75;
+const CSS_PPI = 96;
+const PRODUCER = 'Instant Writer Pro';
+
+// Editor chrome that may sit inside a page but is never part of the document
+const SKIP_SELECTOR = '.image-overlay, .resize-handle, .drag-handle, .text-mode-badge, .marquee, .context-menu, .page-ruler, .margin-guides';
+
+const encoder = new TextEncoder();
+
+// --- Low-level PDF syntax ---
+
+const concatBytes = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        out.set(part, offset);
+        offset += part.length;
+    });
+    return out;
+};
+
+const num = (value: number, digits = 2) => {
+    const fixed = value.toFixed(digits);
+    const trimmed = fixed.includes('.') ? fixed.replace(/0+$/, '').replace(/\.$/, '') : fixed;
+    return trimmed === '-0' ? '0' : trimmed;
+};
+
+const hex4 = (value: number) => value.toString(16).padStart(4, '0');
+
+// Text strings outside content streams (titles, bookmarks) as UTF-16BE with a BOM.
+const pdfTextString = (text: string) => {
+    let out = '<FEFF';
+    for (let i = 0; i < text.length; i++) out += hex4(text.charCodeAt(i));
+    return `${out}>`;
+};
+
+const pdfDate = (date: Date) => {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const streamObject = (dict: string, data: Uint8Array) => concatBytes([
+    encoder.encode(`<< ${dict} /Length ${data.length} >>\nstream\n`),
+    data,
+    encoder.encode('\nendstream')
+]);
+
+const createObjectTable = () => {
+    const objects: Array<Uint8Array | null> = [null]; // object 0 heads the free list
+    const reserve = () => {
+        objects.push(null);
+        return objects.length - 1;
+    };
+    const set = (id: number, body: string | Uint8Array) => {
+        objects[id] = typeof body === 'string' ? encoder.encode(body) : body;
+    };
+    const add = (body: string | Uint8Array) => {
+        const id = reserve();
+        set(id, body);
+        return id;
+    };
+
+    const serialize = (rootId: number, infoId: number) => {
+        const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n%âãÏÓ\n')];
+        let offset = parts[0].length;
+        const offsets: number[] = [];
+        objects.forEach((body, id) => {
+            if (id === 0) return;
+            offsets[id] = offset;
+            const part = concatBytes([encoder.encode(`${id} 0 obj\n`), body || encoder.encode('null'), encoder.encode('\nendobj\n')]);
+            parts.push(part);
+            offset += part.length;
+        });
+
+        const fileId = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+        let xref = `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+        for (let id = 1; id < objects.length; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+        xref += `trailer\n<< /Size ${objects.length} /Root ${rootId} 0 R /Info ${infoId} 0 R /ID [<${fileId}> <${fileId}>] >>\nstartxref\n${offset}\n%%EOF\n`;
+        parts.push(encoder.encode(xref));
+        return concatBytes(parts);
+    };
+
+    return { reserve, set, add, serialize };
+};
+
+type ObjectTable = ReturnType<typeof createObjectTable>;
+
+// --- Colours ---
+
+interface Rgba {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+const parseColor = (value: string): Rgba | null => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+    if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+    return { r: parts[0] / 255, g: parts[1] / 255, b: parts[2] / 255, a: parts.length > 3 ? parts[3] : 1 };
+};
+
+const colorOp = (color: Rgba, stroke = false) => `${num(color.r, 3)} ${num(color.g, 3)} ${num(color.b, 3)} ${stroke ? 'RG' : 'rg'}`;
+
+// --- Fonts ---
+
+interface EmbeddedFont {
+    resourceName: string;
+    sfnt: SfntFont;
+    glyphs: Map<number, string>; // glyph id -> text it stands for, for ToUnicode
+}
+
+// Faces without a bold or italic cut are emboldened and slanted the way browsers synthesize them
+interface FontChoice {
+    font: EmbeddedFont;
+    syntheticBold: boolean;
+    syntheticItalic: boolean;
+}
+
+interface TextSegment {
+    choice: FontChoice;
+    text: string;
+}
+
+const SYNTHETIC_SLANT = 0.25; // about 14°, the CSS default for synthesized oblique
+
+const fontWeight = (style: CSSStyleDeclaration) => parseInt(style.fontWeight, 10) || 400;
+const isItalic = (style: CSSStyleDeclaration) => style.fontStyle === 'italic' || style.fontStyle.startsWith('oblique');
+const fontKey = (style: CSSStyleDeclaration) => `${style.fontFamily}|${fontWeight(style)}|${isItalic(style)}`;
+
+const createMeasureContext = () => {
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available.');
+    return context;
+};
+
+// Six capital letters derived from the index, the tag PDF requires in front of subset names
+const subsetTag = (index: number) => {
+    let tag = '';
+    for (let i = 0, value = index; i < 6; i++, value = Math.floor(value / 26)) tag = String.fromCharCode(65 + (value % 26)) + tag;
+    return tag;
+};
+
+/**
+ * Embedded fonts, keyed by the computed font of each text style. `stacks` holds the faces
+ * every style resolves to (see loadFontStacks); characters none of them has are collected in
+ * `missingCharacters` and drawn with the missing-glyph box.
+ */
+const createFontRegistry = (stacks: Map<string, LoadedFace[]>) => {
+    const embedded = new Map<SfntFont, EmbeddedFont>();
+    const choices = new Map<string, FontChoice[]>();
+    const missingCharacters = new Set<string>();
+
+    const embed = (sfnt: SfntFont): EmbeddedFont => {
+        let font = embedded.get(sfnt);
+        if (!font) {
+            font = { resourceName: `F${embedded.size + 1}`, sfnt, glyphs: new Map() };
+            embedded.set(sfnt, font);
+        }
+        return font;
+    };
+
+    const choicesFor = (style: CSSStyleDeclaration): FontChoice[] => {
+        const key = fontKey(style);
+        let list = choices.get(key);
+        if (!list) {
+            const weight = fontWeight(style);
+            const italic = isItalic(style);
+            list = (stacks.get(key) || []).flatMap(face => face.fonts.map(sfnt => ({
+                font: embed(sfnt),
+                syntheticBold: weight >= 600 && face.weight < 600,
+                syntheticItalic: italic && !face.italic
+            })));
+            choices.set(key, list);
+        }
+        return list;
+    };
+
+    // Splits text into runs of the first font (in fallback order) that has each character
+    const segment = (text: string, style: CSSStyleDeclaration): TextSegment[] => {
+        const list = choicesFor(style);
+        const segments: TextSegment[] = [];
+        if (list.length === 0) return segments;
+        for (const ch of text) {
+            const codePoint = ch.codePointAt(0) || 0;
+            let choice = list.find(item => item.font.sfnt.glyphForCodePoint(codePoint) !== 0);
+            if (!choice) {
+                if (!/\s/.test(ch)) missingCharacters.add(ch);
+                choice = list[0];
+            }
+            const last = segments[segments.length - 1];
+            if (last && last.choice === choice) last.text += ch;
+            else segments.push({ choice, text: ch });
+        }
+        return segments;
+    };
+
+    const covers = (text: string, style: CSSStyleDeclaration) => Array.from(text).every(ch => (
+        choicesFor(style).some(item => item.font.sfnt.glyphForCodePoint(ch.codePointAt(0) || 0) !== 0)
+    ));
+
+    const encode = (font: EmbeddedFont, text: string) => {
+        let out = '<';
+        for (const ch of text) {
+            const glyph = font.sfnt.glyphForCodePoint(ch.codePointAt(0) || 0);
+            if (!font.glyphs.has(glyph)) font.glyphs.set(glyph, ch);
+            out += hex4(glyph);
+        }
+        return `${out}>`;
+    };
+
+    // Advance width in em
+    const measure = (font: EmbeddedFont, text: string) => {
+        let width = 0;
+        for (const ch of text) width += font.sfnt.advanceWidth(font.sfnt.glyphForCodePoint(ch.codePointAt(0) || 0));
+        return width / font.sfnt.unitsPerEm;
+    };
+
+    // Writes a subset of every font that was actually used and returns the /Font resource entries.
+    const write = async (table: ObjectTable): Promise<string> => {
+        const entries: string[] = [];
+        let index = 0;
+
+        for (const { resourceName, sfnt, glyphs } of embedded.values()) {
+            if (glyphs.size === 0) continue;
+            const scale = 1000 / sfnt.unitsPerEm;
+            const fontName = `${subsetTag(index++)}+${sfnt.postScriptName}`;
+            const program = sfnt.subset(glyphs.keys());
+            const fontFileId = table.add(streamObject(
+                sfnt.isCff ? '/Subtype /OpenType /Filter /FlateDecode' : `/Length1 ${program.length} /Filter /FlateDecode`,
+                await deflate(program)
+            ));
+            const flags = 4 | (sfnt.isFixedPitch ? 1 : 0) | (sfnt.italicAngle !== 0 ? 64 : 0);
+            const descriptorId = table.add(`<< /Type /FontDescriptor /FontName /${fontName} /Flags ${flags}`
+                + ` /FontBBox [${sfnt.bbox.map(value => Math.round(value * scale)).join(' ')}] /ItalicAngle ${num(sfnt.italicAngle)}`
+                + ` /Ascent ${Math.round(sfnt.ascent * scale)} /Descent ${Math.round(-sfnt.descent * scale)}`
+                + ` /CapHeight ${Math.round(sfnt.capHeight * scale)} /StemV 80`
+                + ` /${sfnt.isCff ? 'FontFile3' : 'FontFile2'} ${fontFileId} 0 R >>`);
+
+            const used = Array.from(glyphs.keys()).sort((a, b) => a - b);
+            const widths = used.map(glyph => `${glyph} [${Math.round(sfnt.advanceWidth(glyph) * scale)}]`).join(' ');
+            const cidFontId = table.add(`<< /Type /Font /Subtype /${sfnt.isCff ? 'CIDFontType0' : 'CIDFontType2'} /BaseFont /${fontName}`
+                + ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>'
+                + ` /FontDescriptor ${descriptorId} 0 R /W [${widths}]${sfnt.isCff ? '' : ' /CIDToGIDMap /Identity'} >>`);
+
+            // ToUnicode keeps the text searchable and copyable
+            const mappings = used.map(glyph => {
+                let target = '';
+                const text = glyphs.get(glyph) || '';
+                for (let i = 0; i < text.length; i++) target += hex4(text.charCodeAt(i));
+                return `<${hex4(glyph)}> <${target}>`;
+            });
+            let cmap = '/CIDInit /ProcSet findresource begin\n12 dict begin\nbegincmap\n'
+                + '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def\n'
+                + '/CMapName /Adobe-Identity-UCS def\n/CMapType 2 def\n'
+                + '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange\n';
+            for (let i = 0; i < mappings.length; i += 100) {
+                const chunk = mappings.slice(i, i + 100);
+                cmap += `${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar\n`;
+            }
+            cmap += 'endcmap\nCMapName currentdict /CMap defineresource pop\nend\nend';
+            const toUnicodeId = table.add(streamObject('/Filter /FlateDecode', await deflate(encoder.encode(cmap))));
+
+            const fontId = table.add(`<< /Type /Font /Subtype /Type0 /BaseFont /${fontName} /Encoding /Identity-H`
+                + ` /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`);
+            entries.push(`/${resourceName} ${fontId} 0 R`);
+        }
+
+        return entries.join(' ');
+    };
+
+    return { segment, covers, encode, measure, write, missingCharacters };
+};
+
+const fontError = (families: string[], characters: string[]) => {
+    const problems: string[] = [];
+    if (families.length > 0) problems.push(`the font files of ${families.join(', ')} cannot be loaded`);
+    if (characters.length > 0) problems.push(`no embedded font has the characters ${characters.join(' ')}`);
+    return new Error(`The PDF was not saved: ${problems.join(', and ')}. `
+        + 'Upload the fonts (TTF, OTF or WOFF) in the font menu, or choose fonts that are installed with the app.');
+};
+
+const describeFace = (family: string, weight: number, italic: boolean) => {
+    const traits = [weight >= 600 ? 'bold' : '', italic ? 'italic' : ''].filter(Boolean).join(' ');
+    return traits ? `${family} (${traits})` : family;
+};
+
+/**
+ * Loads the faces behind every text style on the pages before anything is drawn, so drawing
+ * stays synchronous. Throws when a family the pages use cannot be embedded.
+ */
+const loadFontStacks = async (pages: HTMLElement[], storedFonts: StoredFont[]) => {
+    const styles = new Map<string, CSSStyleDeclaration>();
+    pages.forEach(page => {
+        [page, ...Array.from(page.querySelectorAll<HTMLElement>('*'))].forEach(el => {
+            if (el.closest(SKIP_SELECTOR)) return;
+            const hasText = el.tagName === 'LI' || Array.from(el.childNodes).some(node => node.nodeType === Node.TEXT_NODE && (node as Text).data.trim());
+            if (!hasText) return;
+            const style = window.getComputedStyle(el);
+            styles.set(fontKey(style), style);
+        });
+    });
+
+    const loader = createFontFileLoader(storedFonts);
+    const stacks = new Map<string, LoadedFace[]>();
+    const missing = new Set<string>();
+    for (const [key, style] of styles) {
+        const { faces, missing: family } = await loader.loadStack(style.fontFamily, fontWeight(style), isItalic(style));
+        if (family) missing.add(describeFace(family, fontWeight(style), isItalic(style)));
+        stacks.set(key, faces);
+    }
+    if (missing.size > 0) throw fontError(Array.from(missing), []);
+    return stacks;
+};
+
+// --- Images ---
+
+interface JpegInfo {
+    width: number;
+    height: number;
+    components: number;
+    adobe: boolean;
+}
+
+const readJpegInfo = (bytes: Uint8Array): JpegInfo | null => {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    let adobe = false;
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (marker === 0xee) adobe = true;
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return {
+                height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+                width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+                components: bytes[offset + 9],
+                adobe
+            };
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+const svgToCanvas = async (svg: SVGSVGElement, width: number, height: number): Promise<HTMLCanvasElement | null> => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    const url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+    const image = new Image();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve();
+            image.onerror = () => reject(new Error('SVG could not be rendered'));
+            image.src = url;
+        });
+    } catch {
+        return null;
+    }
+    const scale = 3; // 288 DPI, enough for line art
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+const createImageRegistry = (table: ObjectTable) => {
+    const entries: string[] = [];
+    const bySource = new Map<string, string | null>();
+    let nextId = 1;
+
+    const register = (id: number) => {
+        const name = `Im${nextId++}`;
+        entries.push(`/${name} ${id} 0 R`);
+        return name;
+    };
+
+    const addPixels = async (source: CanvasImageSource, width: number, height: number): Promise<string | null> => {
+        if (!width || !height) return null;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.drawImage(source, 0, 0, width, height);
+        let pixels: Uint8ClampedArray;
+        try {
+            pixels = context.getImageData(0, 0, width, height).data;
+        } catch {
+            return null; // tainted by a cross-origin image
+        }
+
+        const rgb = new Uint8Array(width * height * 3);
+        const alpha = new Uint8Array(width * height);
+        let hasAlpha = false;
+        for (let i = 0, j = 0; i < pixels.length; i += 4, j++) {
+            rgb[j * 3] = pixels[i];
+            rgb[j * 3 + 1] = pixels[i + 1];
+            rgb[j * 3 + 2] = pixels[i + 2];
+            alpha[j] = pixels[i + 3];
+            if (pixels[i + 3] < 255) hasAlpha = true;
+        }
+
+        let smask = '';
+        if (hasAlpha) {
+            const maskId = table.add(streamObject(
+                `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+                await deflate(alpha)
+            ));
+            smask = ` /SMask ${maskId} 0 R`;
+        }
+        const id = table.add(streamObject(
+            `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode${smask}`,
+            await deflate(rgb)
+        ));
+        return register(id);
+    };
+
+    const addCanvas = (canvas: HTMLCanvasElement) => addPixels(canvas, canvas.width, canvas.height);
+
+    const addImage = async (img: HTMLImageElement): Promise<string | null> => {
+        const src = img.currentSrc || img.src;
+        if (!src || !img.naturalWidth) return null;
+        if (bySource.has(src)) return bySource.get(src) || null;
+
+        let name: string | null = null;
+        const bytes = await loadUrlBytes(src);
+        const jpeg = bytes ? readJpegInfo(bytes) : null;
+        // JPEGs pass through untouched unless the browser rotated them (EXIF orientation)
+        if (bytes && jpeg && jpeg.width === img.naturalWidth && jpeg.height === img.naturalHeight && jpeg.components !== 2) {
+            const colorSpace = jpeg.components === 1 ? '/DeviceGray' : jpeg.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+            const decode = jpeg.components === 4 && jpeg.adobe ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+            const id = table.add(streamObject(
+                `/Type /XObject /Subtype /Image /Width ${jpeg.width} /Height ${jpeg.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`,
+                bytes
+            ));
+            name = register(id);
+        } else {
+            name = await addPixels(img, img.naturalWidth, img.naturalHeight);
+        }
+        bySource.set(src, name);
+        return name;
+    };
+
+    return { addImage, addCanvas, resources: () => entries.join(' ') };
+};
+
+// --- Page content ---
+
+interface Box {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+const LIST_MARKERS: Record<string, string> = { disc: '•', circle: '◦', square: '▪' };
+
+const toRoman = (value: number) => {
+    const numerals: Array<[number, string]> = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+    let out = '';
+    numerals.forEach(([amount, numeral]) => {
+        while (value >= amount) {
+            out += numeral;
+            value -= amount;
+        }
+    });
+    return out;
+};
+
+const toAlpha = (value: number) => {
+    let out = '';
+    while (value > 0) {
+        value--;
+        out = String.fromCharCode(97 + (value % 26)) + out;
+        value = Math.floor(value / 26);
+    }
+    return out;
+};
+
+const getListMarker = (li: HTMLElement, listStyleType: string): string | null => {
+    if (LIST_MARKERS[listStyleType]) return LIST_MARKERS[listStyleType];
+    const list = li.parentElement;
+    const siblings = list ? Array.from(list.children).filter(child => child.tagName === 'LI') : [li];
+    const start = list?.tagName === 'OL' ? parseInt(list.getAttribute('start') || '1', 10) || 1 : 1;
+    const ordinal = start + siblings.indexOf(li);
+    switch (listStyleType) {
+        case 'decimal': return `${ordinal}.`;
+        case 'decimal-leading-zero': return `${String(ordinal).padStart(2, '0')}.`;
+        case 'lower-alpha':
+        case 'lower-latin': return `${toAlpha(ordinal)}.`;
+        case 'upper-alpha':
+        case 'upper-latin': return `${toAlpha(ordinal).toUpperCase()}.`;
+        case 'lower-roman': return `${toRoman(ordinal)}.`;
+        case 'upper-roman': return `${toRoman(ordinal).toUpperCase()}.`;
+        default: return null;
+    }
+};
+
+const applyTextTransform = (text: string, transform: string) => {
+    if (transform === 'uppercase') return text.toUpperCase();
+    if (transform === 'lowercase') return text.toLowerCase();
+    if (transform === 'capitalize') return text.charAt(0).toUpperCase() + text.slice(1);
+    return text;
+};
+
+const needsRaster = (el: HTMLElement, style: CSSStyleDeclaration) => (
+    el.tagName === 'CANVAS'
+    || style.transform !== 'none'
+    || (style.clipPath !== '' && style.clipPath !== 'none')
+    || (style.filter !== '' && style.filter !== 'none')
+    || style.backgroundImage !== 'none'
+);
+
+interface PageContext {
+    page: HTMLElement;
+    origin: DOMRect;
+    scale: number;
+    heightPt: number;
+    ops: string[];
+    fonts: ReturnType<typeof createFontRegistry>;
+    images: ReturnType<typeof createImageRegistry>;
+    alphaState: (alpha: number) => string;
+    baselineRatio: (style: CSSStyleDeclaration) => number;
+    rasterize?: PdfWriteOptions['rasterize'];
+}
+
+const toBox = (rect: DOMRect, context: PageContext): Box => ({
+    left: (rect.left - context.origin.left) / context.scale,
+    top: (rect.top - context.origin.top) / context.scale,
+    width: rect.width / context.scale,
+    height: rect.height / context.scale
+});
+
+const x = (px: number) => num(px * PX_TO_PT);
+const y = (px: number, context: PageContext) => num(context.heightPt - px * PX_TO_PT);
+
+const withAlpha = (context: PageContext, alpha: number, body: string) => (
+    alpha >= 0.999 ? body : `q /${context.alphaState(alpha)} gs ${body} Q`
+);
+
+const rectPath = (box: Box, context: PageContext) => (
+    `${x(box.left)} ${y(box.top + box.height, context)} ${x(box.width)} ${x(box.height)} re`
+);
+
+// Rounded rectangle as four Bézier quarter-circles; used for shapes and rounded boxes.
+const roundedRectPath = (box: Box, radius: number, context: PageContext) => {
+    const r = Math.min(radius, box.width / 2, box.height / 2);
+    const k = r * 0.5523;
+    const left = box.left;
+    const top = box.top;
+    const right = box.left + box.width;
+    const bottom = box.top + box.height;
+    const p = (px: number, py: number) => `${x(px)} ${y(py, context)}`;
+    return [
+        `${p(left + r, top)} m`,
+        `${p(right - r, top)} l`,
+        `${p(right - r + k, top)} ${p(right, top + r - k)} ${p(right, top + r)} c`,
+        `${p(right, bottom - r)} l`,
+        `${p(right, bottom - r + k)} ${p(right - r + k, bottom)} ${p(right - r, bottom)} c`,
+        `${p(left + r, bottom)} l`,
+        `${p(left + r - k, bottom)} ${p(left, bottom - r + k)} ${p(left, bottom - r)} c`,
+        `${p(left, top + r)} l`,
+        `${p(left, top + r - k)} ${p(left + r - k, top)} ${p(left + r, top)} c`,
+        'h'
+    ].join(' ');
+};
+
+const parseRadius = (value: string, box: Box) => {
+    const amount = parseFloat(value) || 0;
+    return value.trim().endsWith('%') ? (amount / 100) * Math.min(box.width, box.height) : amount;
+};
+
+const SIDES = ['Top', 'Right', 'Bottom', 'Left'] as const;
+
+const drawBox = (style: CSSStyleDeclaration, box: Box, opacity: number, context: PageContext) => {
+    const radius = parseRadius(style.borderTopLeftRadius, box);
+    const background = parseColor(style.backgroundColor);
+    if (background && background.a > 0) {
+        const path = radius > 0.5 ? roundedRectPath(box, radius, context) : rectPath(box, context);
+        context.ops.push(withAlpha(context, background.a * opacity, `${colorOp(background)} ${path} f`));
+    }
+
+    const sides = SIDES.map(side => ({
+        side,
+        width: parseFloat(style.getPropertyValue(`border-${side.toLowerCase()}-width`)) || 0,
+        lineStyle: style.getPropertyValue(`border-${side.toLowerCase()}-style`),
+        color: parseColor(style.getPropertyValue(`border-${side.toLowerCase()}-color`))
+    })).filter(side => side.width > 0 && side.lineStyle !== 'none' && side.lineStyle !== 'hidden' && side.color && side.color.a > 0);
+    if (sides.length === 0) return;
+
+    // Uniform rounded borders (circles, pills) are stroked as one path
+    if (radius > 0.5 && sides.length === 4) {
+        const first = sides[0];
+        const inset = first.width / 2;
+        const inner = { left: box.left + inset, top: box.top + inset, width: box.width - first.width, height: box.height - first.width };
+        const dash = first.lineStyle === 'dashed' ? `[${x(first.width * 3)} ${x(first.width * 3)}] 0 d ` : first.lineStyle === 'dotted' ? `1 J [0 ${x(first.width * 2)}] 0 d ` : '';
+        context.ops.push(withAlpha(context, first.color!.a * opacity,
+            `${colorOp(first.color!, true)} ${x(first.width)} w ${dash}${roundedRectPath(inner, radius - inset, context)} S`));
+        return;
+    }
+
+    sides.forEach(({ side, width, lineStyle, color }) => {
+        const horizontal = side === 'Top' || side === 'Bottom';
+        const strip: Box = {
+            left: side === 'Right' ? box.left + box.width - width : box.left,
+            top: side === 'Bottom' ? box.top + box.height - width : box.top,
+            width: horizontal ? box.width : width,
+            height: horizontal ? width : box.height
+        };
+        let body: string;
+        if (lineStyle === 'dashed' || lineStyle === 'dotted') {
+            const dash = lineStyle === 'dashed' ? `[${x(width * 3)} ${x(width * 3)}] 0 d` : `1 J [0 ${x(width * 2)}] 0 d`;
+            const from = horizontal
+                ? `${x(strip.left)} ${y(strip.top + width / 2, context)}`
+                : `${x(strip.left + width / 2)} ${y(strip.top, context)}`;
+            const to = horizontal
+                ? `${x(strip.left + strip.width)} ${y(strip.top + width / 2, context)}`
+                : `${x(strip.left + width / 2)} ${y(strip.top + strip.height, context)}`;
+            body = `${colorOp(color!, true)} ${x(width)} w ${dash} ${from} m ${to} l S`;
+        } else {
+            body = `${colorOp(color!)} ${rectPath(strip, context)} f`;
+        }
+        context.ops.push(withAlpha(context, color!.a * opacity, `q ${body} Q`));
+    });
+};
+
+const drawImage = (name: string, box: Box, opacity: number, context: PageContext) => {
+    context.ops.push(withAlpha(context, opacity,
+        `q ${x(box.width)} 0 0 ${x(box.height)} ${x(box.left)} ${y(box.top + box.height, context)} cm /${name} Do Q`));
+};
+
+// A word, or the part of a word on one line, with the box the browser gave it; spaces have no box
+interface TextPiece {
+    text: string;
+    box: Box | null;
+}
+
+/**
+ * Draws one line of text as a single run with real spaces, so copied text keeps them. The
+ * first word starts at its browser position and every later word is moved to its own with a
+ * TJ offset, so wider spaces (justification) and kerning never shift the layout.
+ */
+const drawRun = (pieces: TextPiece[], style: CSSStyleDeclaration, color: Rgba, opacity: number, context: PageContext) => {
+    const firstWord = pieces.find(piece => piece.box);
+    if (!firstWord?.box) return;
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const fontSizePt = fontSize * PX_TO_PT;
+    const letterSpacing = parseFloat(style.letterSpacing) || 0;
+    const baseline = y(firstWord.box.top + firstWord.box.height * context.baselineRatio(style), context);
+    const advance = (segment: TextSegment) => (
+        context.fonts.measure(segment.choice.font, segment.text) * fontSize + letterSpacing * Array.from(segment.text).length
+    );
+
+    // A leading space (between two text nodes) sits just before the first word
+    let penX = firstWord.box.left;
+    for (const piece of pieces) {
+        if (piece === firstWord) break;
+        context.fonts.segment(piece.text, style).forEach(segment => { penX -= advance(segment); });
+    }
+
+    const ops: string[] = [];
+    let current: FontChoice | null = null;
+    let items: string[] = [];
+    const flush = () => {
+        if (items.length > 0) ops.push(`[${items.join(' ')}] TJ`);
+        items = [];
+    };
+    pieces.forEach(piece => {
+        context.fonts.segment(piece.text, style).forEach((segment, index) => {
+            const target = index === 0 && piece.box ? piece.box.left : penX;
+            if (segment.choice !== current) {
+                flush();
+                current = segment.choice;
+                const { font, syntheticBold, syntheticItalic } = segment.choice;
+                ops.push(`/${font.resourceName} ${num(fontSizePt)} Tf`
+                    + (syntheticBold ? ` ${colorOp(color, true)} 2 Tr ${num(fontSizePt / 24)} w` : ' 0 Tr')
+                    + ` 1 0 ${syntheticItalic ? SYNTHETIC_SLANT : 0} 1 ${x(target)} ${baseline} Tm`);
+            } else if (Math.abs(target - penX) > 0.01) {
+                items.push(num(-((target - penX) / fontSize) * 1000));
+            }
+            items.push(context.fonts.encode(segment.choice.font, segment.text));
+            penX = target + advance(segment);
+        });
+    });
+    flush();
+
+    context.ops.push(withAlpha(context, color.a * opacity,
+        `BT ${colorOp(color)}${letterSpacing ? ` ${num(letterSpacing * PX_TO_PT)} Tc` : ''} ${ops.join(' ')} ET`));
+};
+
+// Underline, overline and line-through propagate from ancestors, so collect them up to the page.
+const getDecorations = (el: HTMLElement, page: HTMLElement) => {
+    const lines: Array<{ kind: string; color: Rgba }> = [];
+    for (let node: HTMLElement | null = el; node && node !== page; node = node.parentElement) {
+        const style = window.getComputedStyle(node);
+        const color = parseColor(style.textDecorationColor) || parseColor(style.color);
+        if (!color) continue;
+        style.textDecorationLine.split(' ').forEach(kind => {
+            if (kind !== 'none' && kind && !lines.some(line => line.kind === kind)) lines.push({ kind, color });
+        });
+    }
+    return lines;
+};
+
+const sameLine = (a: Box, b: Box) => Math.abs(a.top - b.top) < Math.min(a.height, b.height) / 2;
+
+const drawText = (node: Text, context: PageContext, opacity: number) => {
+    const parent = node.parentElement;
+    if (!parent || !node.data.trim()) return;
+    const style = window.getComputedStyle(parent);
+    const color = parseColor(style.color);
+    if (!color || color.a === 0) return;
+
+    const range = document.createRange();
+    const visibleBoxes = (start: number, end: number) => {
+        range.setStart(node, start);
+        range.setEnd(node, end);
+        return Array.from(range.getClientRects()).filter(rect => rect.width > 0).map(rect => toBox(rect, context));
+    };
+
+    // Words grouped into lines; whitespace becomes one space where it is visible on the line
+    const lines: TextPiece[][] = [];
+    let line: TextPiece[] | null = null;
+    let lineBox: Box | null = null;
+    let pendingSpace = false;
+    const tokenPattern = /\S+|\s+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(node.data)) !== null) {
+        const start = match.index;
+        const token = match[0];
+        if (/^\s/.test(token)) {
+            // Only the edges of a text node need a look: a space there joins it to its neighbours
+            const atEdge = start === 0 || start + token.length === node.data.length;
+            if (!atEdge) pendingSpace = true;
+            else if (visibleBoxes(start, start + token.length).some(box => !lineBox || sameLine(box, lineBox))) {
+                if (line) line.push({ text: ' ', box: null });
+                else pendingSpace = true;
+            }
+            continue;
+        }
+
+        // A word broken across lines (break-word, hyphens) becomes one piece per line
+        const boxes = visibleBoxes(start, start + token.length);
+        let pieces: Array<{ text: string; box: Box }> = [];
+        if (boxes.length === 1) {
+            pieces = [{ text: token, box: boxes[0] }];
+        } else if (boxes.length > 1) {
+            let offset = start;
+            for (const ch of token) {
+                const box = visibleBoxes(offset, offset + ch.length)[0];
+                offset += ch.length;
+                if (!box) continue;
+                const last = pieces[pieces.length - 1];
+                if (last && sameLine(last.box, box)) {
+                    last.text += ch;
+                    last.box = { ...last.box, width: box.left + box.width - last.box.left };
+                } else {
+                    pieces.push({ text: ch, box });
+                }
+            }
+        }
+
+        pieces.forEach((piece, index) => {
+            const text = style.textTransform === 'capitalize' && index > 0 ? piece.text : applyTextTransform(piece.text, style.textTransform);
+            if (!line || !lineBox || !sameLine(piece.box, lineBox)) {
+                line = pendingSpace && !line ? [{ text: ' ', box: null }] : [];
+                lines.push(line);
+                lineBox = piece.box;
+            } else if (pendingSpace) {
+                line.push({ text: ' ', box: null });
+            }
+            pendingSpace = false;
+            line.push({ text, box: piece.box });
+        });
+        pendingSpace = false;
+    }
+    lines.forEach(pieces => drawRun(pieces, style, color, opacity, context));
+
+    const decorations = getDecorations(parent, context.page);
+    if (decorations.length === 0) return;
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const thickness = Math.max(fontSize / 16, 0.75);
+    range.selectNodeContents(node);
+    Array.from(range.getClientRects()).filter(rect => rect.width > 0).forEach(rect => {
+        const box = toBox(rect, context);
+        const baseline = box.top + box.height * context.baselineRatio(style);
+        decorations.forEach(({ kind, color: lineColor }) => {
+            const offsetY = kind === 'underline' ? fontSize * 0.12 : kind === 'overline' ? -fontSize * 0.8 : -fontSize * 0.28;
+            const lineY = baseline + offsetY;
+            context.ops.push(withAlpha(context, lineColor.a * opacity,
+                `q ${colorOp(lineColor, true)} ${x(thickness)} w ${x(box.left)} ${y(lineY, context)} m ${x(box.left + box.width)} ${y(lineY, context)} l S Q`));
+        });
+    });
+};
+
+const drawListMarker = (li: HTMLElement, style: CSSStyleDeclaration, opacity: number, context: PageContext) => {
+    if (style.display !== 'list-item') return;
+    const marker = getListMarker(li, style.listStyleType);
+    const color = parseColor(style.color);
+    if (!marker || !color) return;
+    const range = document.createRange();
+    range.selectNodeContents(li);
+    const first = Array.from(range.getClientRects()).find(rect => rect.width > 0);
+    if (!first) return;
+    const firstBox = toBox(first, context);
+    // Markers the fonts lack fall back to a bullet, then a hyphen
+    const text = [marker, '•', '-'].find(candidate => context.fonts.covers(candidate, style)) || marker;
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const width = context.fonts.segment(text, style).reduce((sum, segment) => sum + context.fonts.measure(segment.choice.font, segment.text) * fontSize, 0);
+    const liBox = toBox(li.getBoundingClientRect(), context);
+    const contentLeft = liBox.left + (parseFloat(style.borderLeftWidth) || 0) + (parseFloat(style.paddingLeft) || 0);
+    // Outside markers end half an em before the content edge, inside ones before the text
+    const right = style.listStylePosition === 'inside' ? firstBox.left : contentLeft - fontSize * 0.5;
+    drawRun([{ text, box: { left: right - width, top: firstBox.top, width, height: firstBox.height } }], style, color, opacity, context);
+};
+
+const contentBox = (style: CSSStyleDeclaration, box: Box): Box => {
+    const left = (parseFloat(style.borderLeftWidth) || 0) + (parseFloat(style.paddingLeft) || 0);
+    const top = (parseFloat(style.borderTopWidth) || 0) + (parseFloat(style.paddingTop) || 0);
+    const right = (parseFloat(style.borderRightWidth) || 0) + (parseFloat(style.paddingRight) || 0);
+    const bottom = (parseFloat(style.borderBottomWidth) || 0) + (parseFloat(style.paddingBottom) || 0);
+    return { left: box.left + left, top: box.top + top, width: box.width - left - right, height: box.height - top - bottom };
+};
+
+const drawElement = async (el: Element, context: PageContext, parentOpacity: number): Promise<void> => {
+    if (el.matches(SKIP_SELECTOR)) return;
+    const style = window.getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return;
+    const opacity = parentOpacity * (parseFloat(style.opacity) || 0);
+    if (opacity <= 0) return;
+    const box = toBox(el.getBoundingClientRect(), context);
+
+    if (el instanceof SVGSVGElement) {
+        const canvas = await svgToCanvas(el, box.width, box.height);
+        const name = canvas ? await context.images.addCanvas(canvas) : null;
+        if (name) drawImage(name, box, opacity, context);
+        return;
+    }
+    if (!(el instanceof HTMLElement)) return;
+
+    if (el !== context.page && needsRaster(el, style)) {
+        let canvas: HTMLCanvasElement | null = el instanceof HTMLCanvasElement ? el : null;
+        if (!canvas && context.rasterize) canvas = await context.rasterize(el);
+        const name = canvas ? await context.images.addCanvas(canvas) : null;
+        if (name) {
+            drawImage(name, box, opacity, context);
+            return;
+        }
+        // Without a raster the element still gets its plain boxes and text below
+    }
+
+    if (el === context.page) {
+        // Only the paper colour: the page's own border and shadow are editor decoration
+        const paper = parseColor(style.backgroundColor);
+        if (paper && paper.a > 0) context.ops.push(`${colorOp(paper)} 0 0 ${x(el.offsetWidth)} ${x(el.offsetHeight)} re f`);
+    } else {
+        drawBox(style, box, opacity, context);
+    }
+
+    if (el instanceof HTMLImageElement) {
+        const name = await context.images.addImage(el);
+        if (name) drawImage(name, contentBox(style, box), opacity, context);
+        return;
+    }
+    if (el.tagName === 'TEXTAREA' || el.tagName === 'INPUT') return;
+
+    if (el.tagName === 'LI') drawListMarker(el, style, opacity, context);
+
+    for (const child of Array.from(el.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) drawText(child as Text, context, opacity);
+        else if (child instanceof Element) await drawElement(child, context, opacity);
+    }
+};
+
+// --- Destinations and links ---
+
+interface PageLocation {
+    pageIndex: number;
+    top: number; // px from the top of the page box
+}
+
+const locateElement = (element: Element, pages: HTMLElement[]): PageLocation | null => {
+    const page = element.closest('.page') as HTMLElement | null;
+    const pageIndex = page ? pages.indexOf(page) : -1;
+    if (!page || pageIndex === -1) return null;
+    const pageRect = page.getBoundingClientRect();
+    const scale = pageRect.width / page.offsetWidth || 1;
+    return { pageIndex, top: (element.getBoundingClientRect().top - pageRect.top) / scale };
+};
+
+type Destination = (location: PageLocation) => string;
+
+const pdfLiteralString = (text: string) => `(${text.replace(/[\\()]/g, '\\$&')})`;
+
+interface PageLink {
+    box: Box;
+    target: PageLocation | null;
+    uri: string | null;
+}
+
+const collectLinks = (workspace: HTMLElement, pages: HTMLElement[], context: PageContext): PageLink[] => {
+    const links: PageLink[] = [];
+    const covered = new Set<Element>();
+    const resolveTarget = (id: string | null | undefined) => {
+        const target = id ? workspace.querySelector(`#${CSS.escape(id)}`) : null;
+        return target ? locateElement(target, pages) : null;
+    };
+
+    // TOC rows and mapped TOC table rows are clickable as a whole, page number included
+    context.page.querySelectorAll('.toc-row, tr[data-toc-target]').forEach(row => {
+        const anchor = row.querySelector('a[href^="#"]');
+        const target = resolveTarget(row.getAttribute('data-toc-target') || anchor?.getAttribute('href')?.slice(1));
+        if (!target) return;
+        links.push({ box: toBox(row.getBoundingClientRect(), context), target, uri: null });
+        row.querySelectorAll('a').forEach(a => covered.add(a));
+    });
+
+    context.page.querySelectorAll('a[href]').forEach(element => {
+        if (covered.has(element)) return;
+        const anchor = element as HTMLAnchorElement;
+        const href = anchor.getAttribute('href') || '';
+        const target = href.startsWith('#') ? resolveTarget(decodeURIComponent(href.slice(1))) : null;
+        const uri = /^(https?:|mailto:)/i.test(href) ? anchor.href : null;
+        if (!target && !uri) return;
+        Array.from(anchor.getClientRects())
+            .filter(rect => rect.width > 0 && rect.height > 0)
+            .forEach(rect => links.push({ box: toBox(rect, context), target, uri }));
+    });
+
+    return links;
+};
+
+const writeLinks = (table: ObjectTable, links: PageLink[], destination: Destination, context: PageContext) => (
+    links.map(({ box, target, uri }) => {
+        const rect = `${x(box.left)} ${y(box.top + box.height, context)} ${x(box.left + box.width)} ${y(box.top, context)}`;
+        const action = target ? `/Dest ${destination(target)}` : `/A << /S /URI /URI ${pdfLiteralString(uri || '')} >>`;
+        return table.add(`<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] ${action} >>`);
+    })
+);
+
+// --- Outline ---
+
+interface OutlineNode {
+    title: string;
+    location: PageLocation;
+    children: OutlineNode[];
+}
+
+const buildOutlineTree = (items: PdfOutlineItem[], pages: HTMLElement[]): OutlineNode[] => {
+    const located = items.flatMap(item => {
+        const location = locateElement(item.element, pages);
+        return location ? [{ item, location }] : [];
+    }).sort((a, b) => a.location.pageIndex - b.location.pageIndex || a.location.top - b.location.top);
+
+    const roots: OutlineNode[] = [];
+    const stack: Array<{ level: number; node: OutlineNode }> = [];
+    located.forEach(({ item, location }) => {
+        const node: OutlineNode = { title: item.title.replace(/\s+/g, ' ').trim() || 'Untitled Section', location, children: [] };
+        while (stack.length > 0 && stack[stack.length - 1].level >= item.level) stack.pop();
+        (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+        stack.push({ level: item.level, node });
+    });
+    return roots;
+};
+
+const writeOutline = (table: ObjectTable, roots: OutlineNode[], destination: Destination) => {
+    const outlinesId = table.reserve();
+
+    const writeLevel = (nodes: OutlineNode[], parentId: number): number[] => {
+        const ids = nodes.map(() => table.reserve());
+        nodes.forEach((node, i) => {
+            const childIds = writeLevel(node.children, ids[i]);
+            let dict = `<< /Title ${pdfTextString(node.title)} /Parent ${parentId} 0 R /Dest ${destination(node.location)}`;
+            if (i > 0) dict += ` /Prev ${ids[i - 1]} 0 R`;
+            if (i < ids.length - 1) dict += ` /Next ${ids[i + 1]} 0 R`;
+            // Chapters start collapsed: a negative count lists the children hidden beneath
+            if (childIds.length > 0) dict += ` /First ${childIds[0]} 0 R /Last ${childIds[childIds.length - 1]} 0 R /Count -${childIds.length}`;
+            table.set(ids[i], `${dict} >>`);
+        });
+        return ids;
+    };
+
+    const topIds = writeLevel(roots, outlinesId);
+    table.set(outlinesId, `<< /Type /Outlines /First ${topIds[0]} 0 R /Last ${topIds[topIds.length - 1]} 0 R /Count ${topIds.length} >>`);
+    return outlinesId;
+};
+
+// --- Document ---
+
+/**
+ * Writes the paginated workspace to PDF bytes. Pages are read from the live DOM, so the
+ * result matches the editor exactly; call it after reflow has settled.
+ */
+export const writePdf = async (workspace: HTMLElement, options: PdfWriteOptions): Promise<Uint8Array> => {
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    if (pages.length === 0) throw new Error('There are no pages to export.');
+
+    const table = createObjectTable();
+    const pagesId = table.reserve();
+    const resourcesId = table.reserve();
+    const fonts = createFontRegistry(await loadFontStacks(pages, options.fonts || []));
+    const images = createImageRegistry(table);
+    const bleedPt = (options.bleed ?? 0) * CSS_PPI * PX_TO_PT;
+
+    const alphaStates = new Map<string, string>();
+    const alphaState = (alpha: number) => {
+        const key = num(alpha, 3);
+        let name = alphaStates.get(key);
+        if (!name) {
+            name = `GS${alphaStates.size + 1}`;
+            alphaStates.set(key, name);
+        }
+        return name;
+    };
+
+    const measureContext = createMeasureContext();
+    const baselineRatios = new Map<string, number>();
+    const baselineRatio = (style: CSSStyleDeclaration) => {
+        const key = `${style.fontStyle} ${style.fontWeight} ${style.fontFamily}`;
+        let ratio = baselineRatios.get(key);
+        if (ratio === undefined) {
+            measureContext.font = `${style.fontStyle} ${style.fontWeight} 100px ${style.fontFamily}`;
+            const metrics = measureContext.measureText('Hg');
+            const total = metrics.fontBoundingBoxAscent + metrics.fontBoundingBoxDescent;
+            ratio = total > 0 ? metrics.fontBoundingBoxAscent / total : 0.8;
+            baselineRatios.set(key, ratio);
+        }
+        return ratio;
+    };
+
+    // Reserved up front so links can point at pages that are written later
+    const pageIds = pages.map(() => table.reserve());
+    const destination: Destination = ({ pageIndex, top }) => (
+        `[${pageIds[pageIndex]} 0 R /XYZ 0 ${num((pages[pageIndex].offsetHeight - Math.max(0, top)) * PX_TO_PT)} 0]`
+    );
+
+    for (let index = 0; index < pages.length; index++) {
+        const page = pages[index];
+        const origin = page.getBoundingClientRect();
+        const widthPt = page.offsetWidth * PX_TO_PT;
+        const heightPt = page.offsetHeight * PX_TO_PT;
+        const context: PageContext = {
+            page,
+            origin,
+            scale: origin.width / page.offsetWidth || 1,
+            heightPt,
+            ops: [],
+            fonts,
+            images,
+            alphaState,
+            baselineRatio,
+            rasterize: options.rasterize
+        };
+        await drawElement(page, context, 1);
+        const annotIds = writeLinks(table, collectLinks(workspace, pages, context), destination, context);
+        const annots = annotIds.length > 0 ? ` /Annots [${annotIds.map(id => `${id} 0 R`).join(' ')}]` : '';
+
+        const contentId = table.add(streamObject('/Filter /FlateDecode', await deflate(encoder.encode(context.ops.join('\n')))));
+        let boxes = `/MediaBox [0 0 ${num(widthPt)} ${num(heightPt)}]`;
+        if (bleedPt > 0) {
+            // The bleed sits on the outside edge: right of rectos, left of versos
+            const isVerso = index % 2 === 1;
+            const trimLeft = isVerso ? bleedPt : 0;
+            const trimRight = widthPt - (isVerso ? 0 : bleedPt);
+            boxes += ` /BleedBox [0 0 ${num(widthPt)} ${num(heightPt)}]`
+                + ` /TrimBox [${num(trimLeft)} ${num(bleedPt)} ${num(trimRight)} ${num(heightPt - bleedPt)}]`;
+        }
+        table.set(pageIds[index], `<< /Type /Page /Parent ${pagesId} 0 R ${boxes} /Resources ${resourcesId} 0 R /Contents ${contentId} 0 R${annots} >>`);
+    }
+
+    if (fonts.missingCharacters.size > 0) throw fontError([], Array.from(fonts.missingCharacters));
+
+    table.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+    const fontEntries = await fonts.write(table);
+    const alphaEntries = Array.from(alphaStates.entries())
+        .map(([alpha, name]) => `/${name} ${table.add(`<< /Type /ExtGState /ca ${alpha} /CA ${alpha} >>`)} 0 R`)
+        .join(' ');
+    table.set(resourcesId, `<< /ProcSet [/PDF /Text /ImageB /ImageC] /Font << ${fontEntries} >>`
+        + ` /XObject << ${images.resources()} >> /ExtGState << ${alphaEntries} >> >>`);
+
+    const outlineRoots = buildOutlineTree(options.outline || [], pages);
+    const outlinesId = outlineRoots.length > 0 ? writeOutline(table, outlineRoots, destination) : null;
+
+    const now = pdfDate(new Date());
+    const infoId = table.add(`<< /Title ${pdfTextString(options.title)}`
+        + `${options.author ? ` /Author ${pdfTextString(options.author)}` : ''}`
+        + ` /Creator ${pdfTextString(PRODUCER)} /Producer ${pdfTextString(PRODUCER)}`
+        + ` /CreationDate (${now}) /ModDate (${now}) >>`);
+    const rootId = table.add(`<< /Type /Catalog /Pages ${pagesId} 0 R /ViewerPreferences << /DisplayDocTitle true >>`
+        + `${outlinesId ? ` /Outlines ${outlinesId} 0 R /PageMode /UseOutlines` : ''} >>`);
+
+    return table.serialize(rootId, infoId);
+};
@@ -0,0 +1,227 @@
+// utils/preflight.ts
+//
+// Print preflight: scans the paginated workspace for problems a print service would reject
+// or print badly. Findings keep a reference to the live element so the panel can jump to it;
+// run the check again after editing, references go stale when reflow rebuilds pages.
+
+import { KDP_MIN_OUTSIDE_MARGIN } from '../constants';
+import { isFontAvailable } from './fontUtils';
+import { isPageOverflowing } from './pagination';
+import { isFooterElement } from './paginationMeasurer';
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export type PreflightKind =
+    | 'outside-margins'
+    | 'outside-safe-zone'
+    | 'low-dpi'
+    | 'missing-font'
+    | 'page-overflow'
+    | 'empty-page'
+    | 'odd-page-count';
+
+export interface PreflightFinding {
+    id: string;
+    kind: PreflightKind;
+    severity: PreflightSeverity;
+    message: string;
+    pageIndex: number | null;
+    element: HTMLElement | null;
+}
+
+export interface PreflightOptions {
+    bleed?: number; // inches on the top, bottom and outside edge of every page
+    minDpi?: number;
+}
+
+export const PREFLIGHT_MIN_DPI = 300;
+
+const CSS_PPI = 96;
+
+const TEXT_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, .floating-text';
+const SHAPE_SELECTOR = '.mission-box, .shape-circle, .shape-pill, .shape-speech, .shape-cloud, .shape-rectangle';
+const VISIBLE_CONTENT_SELECTOR = `img, table, hr, svg, canvas, .writing-lines, textarea, ${SHAPE_SELECTOR}`;
+
+const GENERIC_FONT_FAMILIES = new Set([
+    'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui',
+    'ui-serif', 'ui-sans-serif', 'ui-monospace', 'ui-rounded', 'emoji', 'math', 'fangsong',
+    'inherit', 'initial'
+]);
+
+interface Box {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+// Element box in CSS px relative to the page's top-left corner, independent of zoom.
+const getRelativeBox = (el: HTMLElement, page: HTMLElement): Box | null => {
+    const pageRect = page.getBoundingClientRect();
+    const scale = pageRect.width / page.offsetWidth || 1;
+    const rect = el.getBoundingClientRect();
+    if (rect.width <= 0 || rect.height <= 0) return null;
+    return {
+        left: (rect.left - pageRect.left) / scale,
+        top: (rect.top - pageRect.top) / scale,
+        right: (rect.right - pageRect.left) / scale,
+        bottom: (rect.bottom - pageRect.top) / scale
+    };
+};
+
+const getContentBox = (page: HTMLElement): Box => {
+    const style = window.getComputedStyle(page);
+    return {
+        left: parseFloat(style.paddingLeft) || 0,
+        top: parseFloat(style.paddingTop) || 0,
+        right: page.offsetWidth - (parseFloat(style.paddingRight) || 0),
+        bottom: page.offsetHeight - (parseFloat(style.paddingBottom) || 0)
+    };
+};
+
+// Trim box minus the minimum distance KDP wants between live content and the cut.
+const getSafeBox = (page: HTMLElement, pageIndex: number, bleed: number): Box => {
+    const bleedPx = bleed * CSS_PPI;
+    const safePx = KDP_MIN_OUTSIDE_MARGIN * CSS_PPI;
+    const isVerso = pageIndex % 2 === 1;
+    return {
+        left: (isVerso ? bleedPx : 0) + safePx,
+        top: bleedPx + safePx,
+        right: page.offsetWidth - (isVerso ? 0 : bleedPx) - safePx,
+        bottom: page.offsetHeight - bleedPx - safePx
+    };
+};
+
+const isOutside = (box: Box, area: Box) => (
+    box.left < area.left - 1 || box.top < area.top - 1 || box.right > area.right + 1 || box.bottom > area.bottom + 1
+);
+
+const describe = (el: HTMLElement) => {
+    const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text) return `"${text.length > 40 ? `${text.slice(0, 40)}…` : text}"`;
+    if (el.tagName === 'IMG') return 'Image';
+    return `<${el.tagName.toLowerCase()}>`;
+};
+
+// Skip containers whose own text lives in a nested block that is checked on its own.
+const hasOwnText = (el: HTMLElement) => Array.from(el.childNodes).some(
+    node => node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim().length > 0
+);
+
+const getPrimaryFontFamily = (el: HTMLElement) => {
+    const family = window.getComputedStyle(el).fontFamily.split(',')[0] || '';
+    return family.replace(/['"]/g, '').trim();
+};
+
+/** True when a page has no text or visible content besides its footer and master layer. */
+export const isPageEmpty = (page: HTMLElement) => {
+    const hasText = Array.from(page.children).some(child => {
+        if (isFooterElement(child as HTMLElement) || child.classList.contains('master-layer')) return false;
+        return (child.textContent || '').trim().length > 0;
+    });
+    if (hasText) return false;
+    return !Array.from(page.querySelectorAll(VISIBLE_CONTENT_SELECTOR))
+        .some(el => !(el as HTMLElement).closest('.page-footer'));
+};
+
+export const runPreflight = (workspace: HTMLElement, options: PreflightOptions = {}): PreflightFinding[] => {
+    const bleed = options.bleed ?? 0;
+    const minDpi = options.minDpi ?? PREFLIGHT_MIN_DPI;
+    const findings: PreflightFinding[] = [];
+    const checkedFonts = new Set<string>();
+
+    const add = (finding: Omit<PreflightFinding, 'id'>) => {
+        findings.push({ ...finding, id: `preflight-${findings.length}` });
+    };
+
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+
+    pages.forEach((page, pageIndex) => {
+        const pageLabel = `Page ${pageIndex + 1}`;
+
+        if (isPageEmpty(page)) {
+            add({ kind: 'empty-page', severity: 'warning', message: `${pageLabel} is empty.`, pageIndex, element: page });
+            return;
+        }
+
+        if (isPageOverflowing(page)) {
+            add({ kind: 'page-overflow', severity: 'error', message: `${pageLabel}: content overflows the page and will be cut.`, pageIndex, element: page });
+        }
+
+        const contentBox = getContentBox(page);
+        const safeBox = getSafeBox(page, pageIndex, bleed);
+
+        const blocks = Array.from(page.querySelectorAll(`${TEXT_SELECTOR}, ${SHAPE_SELECTOR}`)) as HTMLElement[];
+        blocks.forEach(el => {
+            if (el.closest('.page-footer') || isFooterElement(el)) return;
+            const isShape = el.matches(SHAPE_SELECTOR);
+            if (!isShape && !hasOwnText(el)) return;
+            const box = getRelativeBox(el, page);
+            if (!box) return;
+
+            if (isOutside(box, safeBox)) {
+                add({
+                    kind: 'outside-safe-zone',
+                    severity: 'error',
+                    message: `${pageLabel}: ${isShape ? 'shape' : 'text'} ${describe(el)} is within ${KDP_MIN_OUTSIDE_MARGIN}" of the trim and may be cut.`,
+                    pageIndex,
+                    element: el
+                });
+            } else if (el.getAttribute('data-ignore-margins') !== 'true' && isOutside(box, contentBox)) {
+                add({
+                    kind: 'outside-margins',
+                    severity: 'warning',
+                    message: `${pageLabel}: ${isShape ? 'shape' : 'text'} ${describe(el)} extends into the margins.`,
+                    pageIndex,
+                    element: el
+                });
+            }
+
+            if (!isShape) {
+                const family = getPrimaryFontFamily(el);
+                const key = family.toLowerCase();
+                if (family && !GENERIC_FONT_FAMILIES.has(key) && !checkedFonts.has(key)) {
+                    checkedFonts.add(key);
+                    if (!isFontAvailable(family)) {
+                        add({
+                            kind: 'missing-font',
+                            severity: 'error',
+                            message: `Font "${family}" is not installed or loaded; ${describe(el)} on ${pageLabel.toLowerCase()} will print in a fallback font.`,
+                            pageIndex,
+                            element: el
+                        });
+                    }
+                }
+            }
+        });
+
+        const images = Array.from(page.querySelectorAll('img')) as HTMLImageElement[];
+        images.forEach(img => {
+            if (!img.naturalWidth || !img.offsetWidth) return;
+            // Effective resolution at the placed size: source pixels per printed inch
+            const placedInches = img.offsetWidth / CSS_PPI;
+            const dpi = Math.round(img.naturalWidth / placedInches);
+            if (dpi < minDpi) {
+                add({
+                    kind: 'low-dpi',
+                    severity: dpi < minDpi / 2 ? 'error' : 'warning',
+                    message: `${pageLabel}: image is ${dpi} DPI at its placed size (${img.naturalWidth}px over ${placedInches.toFixed(2)}"), below ${minDpi}.`,
+                    pageIndex,
+                    element: img
+                });
+            }
+        });
+    });
+
+    if (pages.length % 2 === 1) {
+        add({
+            kind: 'odd-page-count',
+            severity: 'warning',
+            message: `The book has ${pages.length} pages; printers add a blank page to make the count even.`,
+            pageIndex: pages.length - 1,
+            element: null
+        });
+    }
+
+    return findings;
+};
@@ -0,0 +1,289 @@
+// utils/projectFile.ts
+//
+// Native project bundle (.iwp): a ZIP holding manifest.json, document.html, styles.css,
+// extracted images under assets/ and custom fonts under fonts/. Unlike the HTML export it
+// carries every piece of editor state needed to reopen the exact session.
+
+import { DocumentState, ProjectSettings } from '../types';
+import { DEFAULT_MASTER_PAGES, DEFAULT_NAMED_STYLES, DEFAULT_PAGINATION_RULES, DEFAULT_SPELLCHECK_SETTINGS, DEFAULT_THEME } from '../constants';
+import { bytesToDataUrl, dataUrlMimeType, decodeDataUrl } from './dataUrl';
+import { createZipBlob, readZip, zipEntryText, ZipEntry } from './zip';
+
+export const PROJECT_FILE_EXTENSION = '.iwp';
+export const PROJECT_FORMAT_ID = 'instant-writer-project';
+export const PROJECT_SCHEMA_VERSION = 9;
+
+export interface ProjectFont {
+    name: string;
+    dataUrl: string;
+}
+
+export interface ProjectManifest {
+    format: typeof PROJECT_FORMAT_ID;
+    schemaVersion: number;
+    savedAt: string;
+    fileName: string;
+    document: { html: string; css: string };
+    settings: ProjectSettings;
+    assets: Array<{ path: string; mimeType: string }>;
+    fonts: Array<{ name: string; path: string; mimeType: string }>;
+}
+
+export interface ProjectBundle {
+    docState: DocumentState;
+    settings: ProjectSettings;
+    fonts: ProjectFont[];
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+    pageFormatId: 'letter',
+    customPageSize: { width: '8.5in', height: '11in' },
+    pageMargins: { top: 0.5, bottom: 0.5, left: 0.45, right: 0.5 },
+    mirrorMargins: false,
+    bleed: 0,
+    structureEntries: [],
+    savedHeadingStyles: {},
+    manualHeadingSignatures: {},
+    tocSettings: null,
+    pageNumberSettings: null,
+    paginationRules: DEFAULT_PAGINATION_RULES,
+    gutterMode: 'warn',
+    masterPages: DEFAULT_MASTER_PAGES,
+    namedStyles: DEFAULT_NAMED_STYLES,
+    theme: DEFAULT_THEME,
+    spellcheck: DEFAULT_SPELLCHECK_SETTINGS
+};
+
+type RawManifest = Record<string, unknown>;
+
+// The keys of a JSON object; anything else has none
+const fieldsOf = (value: unknown): Record<string, unknown> => (
+    value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+);
+
+const withSettings = (manifest: RawManifest, settings: Record<string, unknown>): RawManifest => ({
+    ...manifest,
+    settings: { ...fieldsOf(manifest.settings), ...settings }
+});
+
+/**
+ * Schema migrations keyed by the version they upgrade FROM.
+ * When ProjectSettings or the manifest layout changes, bump PROJECT_SCHEMA_VERSION and
+ * add a step here that fills the new fields for older bundles.
+ */
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+    // v2: widow/orphan and keep-with-next rules
+    1: (manifest) => withSettings(manifest, { paginationRules: { ...DEFAULT_PAGINATION_RULES } }),
+    // v3: facing-page (mirrored) margins
+    2: (manifest) => withSettings(manifest, { mirrorMargins: false }),
+    // v4: gutter follows the page count
+    3: (manifest) => withSettings(manifest, { gutterMode: 'warn' }),
+    // v5: bleed
+    4: (manifest) => withSettings(manifest, { bleed: 0 }),
+    // v6: master pages
+    5: (manifest) => withSettings(manifest, { masterPages: DEFAULT_MASTER_PAGES }),
+    // v7: paragraph and character style sheets
+    6: (manifest) => withSettings(manifest, { namedStyles: DEFAULT_NAMED_STYLES }),
+    // v8: document theme
+    7: (manifest) => withSettings(manifest, { theme: DEFAULT_THEME }),
+    // v9: spelling language and the document's own dictionary
+    8: (manifest) => withSettings(manifest, { spellcheck: { ...DEFAULT_SPELLCHECK_SETTINGS } })
+};
+
+const kindOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+/**
+ * Narrows a value read from the manifest to the shape of `fallback`: scalars must have the
+ * same type, objects are narrowed key by key (keys the fallback does not know are kept, as
+ * in heading style maps), arrays keep the items of the fallback's item type (or, for an empty
+ * fallback, of their first item's). `null` fallbacks accept an object.
+ */
+const narrowTo = <T>(value: unknown, fallback: T): T => {
+    if (fallback === null) {
+        return (kindOf(value) === 'object' ? value : null) as T;
+    }
+    if (Array.isArray(fallback)) {
+        if (!Array.isArray(value)) return fallback;
+        const itemKind = kindOf(fallback.length > 0 ? fallback[0] : value[0]);
+        return value.filter(item => kindOf(item) === itemKind) as T;
+    }
+    if (typeof fallback === 'object') {
+        if (kindOf(value) !== 'object') return fallback;
+        const fields = { ...(value as Record<string, unknown>) };
+        Object.entries(fallback as Record<string, unknown>).forEach(([key, nested]) => {
+            fields[key] = narrowTo(fields[key], nested);
+        });
+        return fields as T;
+    }
+    if (typeof fallback === 'number') {
+        return (typeof value === 'number' && Number.isFinite(value) ? value : fallback) as T;
+    }
+    return (typeof value === typeof fallback ? value : fallback) as T;
+};
+
+const stringField = (value: unknown, fallback: string) => (typeof value === 'string' && value ? value : fallback);
+
+export const migrateManifest = (raw: unknown): ProjectManifest => {
+    let manifest = fieldsOf(raw);
+    if (manifest.format !== PROJECT_FORMAT_ID) {
+        throw new Error('This file is not an Instant Writer project.');
+    }
+    let version = Number(manifest.schemaVersion) || 1;
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (schema ${version}).`);
+    }
+    while (version < PROJECT_SCHEMA_VERSION) {
+        const step = MIGRATIONS[version];
+        if (step) manifest = step(manifest);
+        version += 1;
+    }
+    const paths = fieldsOf(manifest.document);
+    const files = (value: unknown) => (Array.isArray(value) ? value.map(fieldsOf) : [])
+        .filter(file => typeof file.path === 'string' && typeof file.mimeType === 'string');
+    return {
+        format: PROJECT_FORMAT_ID,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        savedAt: stringField(manifest.savedAt, ''),
+        fileName: stringField(manifest.fileName, 'untitled_mission.html'),
+        document: { html: stringField(paths.html, 'document.html'), css: stringField(paths.css, 'styles.css') },
+        settings: narrowTo(manifest.settings, DEFAULT_PROJECT_SETTINGS),
+        assets: files(manifest.assets).map(asset => ({ path: asset.path as string, mimeType: asset.mimeType as string })),
+        fonts: files(manifest.fonts)
+            .filter(font => typeof font.name === 'string')
+            .map(font => ({ name: font.name as string, path: font.path as string, mimeType: font.mimeType as string }))
+    };
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'font/ttf': 'ttf',
+    'font/otf': 'otf',
+    'font/woff': 'woff',
+    'font/woff2': 'woff2',
+    'application/x-font-ttf': 'ttf',
+    'application/font-woff': 'woff'
+};
+
+const extensionForMime = (mimeType: string) => MIME_EXTENSIONS[mimeType] || 'bin';
+
+// Where a document refers to an image or font: an src/href/poster attribute value or a CSS
+// url() argument (quoted, or &quot;-quoted inside a style attribute). Only these are packed
+// and restored, so text that happens to look like a data URL or asset path is left alone.
+const REFERENCE_PREFIX = String.raw`(\b(?:src|href|poster)=["']|url\(\s*(?:["']|&quot;)?)`;
+const DATA_URL_PATTERN = new RegExp(`${REFERENCE_PREFIX}(data:[a-z0-9.+\\-/]+(?:;[a-z0-9\\-=]+)*;base64,[a-z0-9+/=]+)`, 'gi');
+const ASSET_PATH_PATTERN = new RegExp(`${REFERENCE_PREFIX}(assets/[\\w.-]+)`, 'gi');
+
+const extractDataUrls = (
+    source: string,
+    assets: Map<string, { path: string; mimeType: string; bytes: Uint8Array }>
+) => {
+    return source.replace(DATA_URL_PATTERN, (reference, prefix: string, dataUrl: string) => {
+        const existing = assets.get(dataUrl);
+        if (existing) return prefix + existing.path;
+        const bytes = decodeDataUrl(dataUrl);
+        if (!bytes) return reference;
+        const mimeType = dataUrlMimeType(dataUrl);
+        const path = `assets/asset-${assets.size + 1}.${extensionForMime(mimeType)}`;
+        assets.set(dataUrl, { path, mimeType, bytes });
+        return prefix + path;
+    });
+};
+
+const safeFontFileName = (name: string) => name.replace(/[^a-z0-9\-_]+/gi, '_') || 'font';
+
+/**
+ * Packs the document and its editor settings into a project bundle.
+ */
+export const buildProjectBundle = (bundle: ProjectBundle): Blob => {
+    const assets = new Map<string, { path: string; mimeType: string; bytes: Uint8Array }>();
+    const html = extractDataUrls(bundle.docState.htmlContent, assets);
+    const css = extractDataUrls(bundle.docState.cssContent, assets);
+
+    const fontEntries: ZipEntry[] = [];
+    const fontManifest: ProjectManifest['fonts'] = [];
+    bundle.fonts.forEach((font, index) => {
+        const bytes = decodeDataUrl(font.dataUrl);
+        if (!bytes) return;
+        const mimeType = dataUrlMimeType(font.dataUrl);
+        const path = `fonts/${index + 1}-${safeFontFileName(font.name)}.${extensionForMime(mimeType)}`;
+        fontEntries.push({ path, data: bytes });
+        fontManifest.push({ name: font.name, path, mimeType });
+    });
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT_ID,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        fileName: bundle.docState.fileName,
+        document: { html: 'document.html', css: 'styles.css' },
+        settings: bundle.settings,
+        assets: Array.from(assets.values()).map(({ path, mimeType }) => ({ path, mimeType })),
+        fonts: fontManifest
+    };
+
+    const entries: ZipEntry[] = [
+        { path: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+        { path: manifest.document.html, data: html },
+        { path: manifest.document.css, data: css },
+        ...Array.from(assets.values()).map(asset => ({ path: asset.path, data: asset.bytes })),
+        ...fontEntries
+    ];
+
+    return createZipBlob(entries, 'application/x-instant-writer-project');
+};
+
+const restoreAssetPaths = (source: string, assetUrls: Map<string, string>) => source.replace(
+    ASSET_PATH_PATTERN,
+    (reference, prefix: string, path: string) => (assetUrls.has(path) ? prefix + assetUrls.get(path) : reference)
+);
+
+/**
+ * Opens a project bundle and returns the document, settings and fonts it contains.
+ * Older schema versions are migrated to the current one.
+ */
+export const readProjectBundle = async (buffer: ArrayBuffer): Promise<ProjectBundle> => {
+    const files = await readZip(buffer);
+    const manifestText = zipEntryText(files, 'manifest.json');
+    if (!manifestText) {
+        throw new Error('The project file has no manifest.json.');
+    }
+
+    let rawManifest: unknown;
+    try {
+        rawManifest = JSON.parse(manifestText);
+    } catch {
+        throw new Error('The project manifest is not valid JSON.');
+    }
+    const manifest = migrateManifest(rawManifest);
+
+    const assetUrls = new Map<string, string>();
+    manifest.assets.forEach(asset => {
+        const bytes = files.get(asset.path);
+        if (bytes) assetUrls.set(asset.path, bytesToDataUrl(bytes, asset.mimeType));
+    });
+
+    const html = zipEntryText(files, manifest.document.html) || '';
+    const css = zipEntryText(files, manifest.document.css) || '';
+
+    const fonts: ProjectFont[] = [];
+    manifest.fonts.forEach(font => {
+        const bytes = files.get(font.path);
+        if (bytes) fonts.push({ name: font.name, dataUrl: bytesToDataUrl(bytes, font.mimeType) });
+    });
+
+    return {
+        docState: {
+            htmlContent: restoreAssetPaths(html, assetUrls),
+            cssContent: restoreAssetPaths(css, assetUrls),
+            fileName: manifest.fileName
+        },
+        settings: manifest.settings,
+        fonts
+    };
+};
+
+export const isProjectFileName = (name: string) => name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
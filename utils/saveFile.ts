@@ -0,0 +1,47 @@
+// utils/saveFile.ts
+//
+// Saves generated export files. Inside the desktop app the bytes go straight to the user's
+// Downloads folder through the Tauri fs plugin; in the browser build they are offered as a
+// regular download.
+
+import { isTauri } from '@tauri-apps/api/core';
+import { BaseDirectory, exists, writeFile } from '@tauri-apps/plugin-fs';
+
+export interface SavedFile {
+    fileName: string;
+    location: 'downloads' | 'browser';
+}
+
+const downloadInBrowser = (fileName: string, data: Uint8Array, mimeType: string) => {
+    const blob = new Blob([data], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// Never overwrite an earlier export: "Book.pdf" becomes "Book (2).pdf", like a browser would.
+const findFreeName = async (fileName: string) => {
+    const dot = fileName.lastIndexOf('.');
+    const stem = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+    let candidate = fileName;
+    for (let n = 2; await exists(candidate, { baseDir: BaseDirectory.Download }); n++) {
+        candidate = `${stem} (${n})${extension}`;
+    }
+    return candidate;
+};
+
+export const saveFile = async (fileName: string, data: Uint8Array, mimeType: string): Promise<SavedFile> => {
+    if (!isTauri()) {
+        downloadInBrowser(fileName, data, mimeType);
+        return { fileName, location: 'browser' };
+    }
+    const target = await findFreeName(fileName);
+    await writeFile(target, data, { baseDir: BaseDirectory.Download });
+    return { fileName: target, location: 'downloads' };
+};
@@ -0,0 +1,339 @@
+// utils/sfnt.ts
+//
+// Just enough TrueType/OpenType parsing to embed a font in a PDF: the character map,
+// advance widths, vertical metrics and a glyph subset of the outlines. WOFF 1 files are
+// unpacked to plain sfnt first; WOFF 2 needs Brotli, which browsers do not expose, so those
+// fonts are reported as unsupported.
+
+export interface SfntFont {
+    data: Uint8Array; // plain TrueType/OpenType bytes, ready to embed
+    isCff: boolean; // CFF outlines (.otf) rather than TrueType glyphs
+    postScriptName: string;
+    unitsPerEm: number;
+    ascent: number; // font units
+    descent: number; // font units, positive below the baseline
+    capHeight: number;
+    bbox: [number, number, number, number];
+    italicAngle: number;
+    isFixedPitch: boolean;
+    numGlyphs: number;
+    glyphForCodePoint: (codePoint: number) => number;
+    advanceWidth: (glyphId: number) => number; // font units
+    /** Font bytes with only the outlines of these glyphs (glyph ids unchanged); CFF fonts whole. */
+    subset: (glyphIds: Iterable<number>) => Uint8Array;
+}
+
+interface TableRecord {
+    offset: number;
+    length: number;
+}
+
+const tag = (view: DataView, offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+);
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+interface SfntTable {
+    tag: string;
+    data: Uint8Array;
+}
+
+const checksum = (data: Uint8Array) => {
+    let sum = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        sum = (sum + (((data[i] << 24) | ((data[i + 1] || 0) << 16) | ((data[i + 2] || 0) << 8) | (data[i + 3] || 0)) >>> 0)) >>> 0;
+    }
+    return sum;
+};
+
+// Assembles an sfnt file: sorted table directory, 4-byte aligned tables and the head checksum.
+const writeSfnt = (flavor: number, unsorted: SfntTable[]): Uint8Array => {
+    const tables = unsorted.map(table => {
+        if (table.tag !== 'head') return table;
+        // checkSumAdjustment is zero while the checksums are computed
+        const data = table.data.slice();
+        data.fill(0, 8, 12);
+        return { tag: table.tag, data };
+    }).sort((a, b) => (a.tag < b.tag ? -1 : 1));
+    const numTables = tables.length;
+    const headerLength = 12 + numTables * 16;
+    const total = tables.reduce((sum, table) => sum + ((table.data.length + 3) & ~3), headerLength);
+    const out = new Uint8Array(total);
+    const outView = new DataView(out.buffer);
+    let searchRange = 1;
+    let entrySelector = 0;
+    while (searchRange * 2 <= numTables) {
+        searchRange *= 2;
+        entrySelector++;
+    }
+    outView.setUint32(0, flavor);
+    outView.setUint16(4, numTables);
+    outView.setUint16(6, searchRange * 16);
+    outView.setUint16(8, entrySelector);
+    outView.setUint16(10, numTables * 16 - searchRange * 16);
+
+    let offset = headerLength;
+    let headOffset = -1;
+    tables.forEach((table, i) => {
+        const entry = 12 + i * 16;
+        for (let j = 0; j < 4; j++) outView.setUint8(entry + j, table.tag.charCodeAt(j));
+        outView.setUint32(entry + 4, checksum(table.data));
+        outView.setUint32(entry + 8, offset);
+        outView.setUint32(entry + 12, table.data.length);
+        out.set(table.data, offset);
+        if (table.tag === 'head') headOffset = offset;
+        offset += (table.data.length + 3) & ~3;
+    });
+    if (headOffset !== -1) outView.setUint32(headOffset + 8, (0xb1b0afba - checksum(out)) >>> 0);
+    return out;
+};
+
+// WOFF 1 is sfnt with each table optionally zlib-compressed; rebuild the plain file.
+const unpackWoff = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const flavor = view.getUint32(4);
+    const numTables = view.getUint16(12);
+    const tables: SfntTable[] = [];
+    for (let i = 0; i < numTables; i++) {
+        const entry = 44 + i * 20;
+        const offset = view.getUint32(entry + 4);
+        const compLength = view.getUint32(entry + 8);
+        const origLength = view.getUint32(entry + 12);
+        const raw = bytes.subarray(offset, offset + compLength);
+        tables.push({ tag: tag(view, entry), data: compLength < origLength ? await inflate(raw) : raw });
+    }
+
+    return writeSfnt(flavor, tables);
+};
+
+const readTables = (view: DataView): Map<string, TableRecord> => {
+    const tables = new Map<string, TableRecord>();
+    const numTables = view.getUint16(4);
+    for (let i = 0; i < numTables; i++) {
+        const entry = 12 + i * 16;
+        tables.set(tag(view, entry), { offset: view.getUint32(entry + 8), length: view.getUint32(entry + 12) });
+    }
+    return tables;
+};
+
+// Prefers a full-Unicode subtable (format 12) and falls back to the BMP one (format 4).
+const readCmap = (view: DataView, cmapOffset: number): ((codePoint: number) => number) => {
+    const numSubtables = view.getUint16(cmapOffset + 2);
+    let format4 = -1;
+    let format12 = -1;
+    for (let i = 0; i < numSubtables; i++) {
+        const record = cmapOffset + 4 + i * 8;
+        const platformId = view.getUint16(record);
+        const encodingId = view.getUint16(record + 2);
+        const offset = cmapOffset + view.getUint32(record + 4);
+        const isUnicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+        if (!isUnicode) continue;
+        const format = view.getUint16(offset);
+        if (format === 12 && format12 === -1) format12 = offset;
+        if (format === 4 && format4 === -1) format4 = offset;
+    }
+
+    if (format12 !== -1) {
+        const groups = view.getUint32(format12 + 12);
+        return (codePoint: number) => {
+            let lo = 0;
+            let hi = groups - 1;
+            while (lo <= hi) {
+                const mid = (lo + hi) >> 1;
+                const group = format12 + 16 + mid * 12;
+                const start = view.getUint32(group);
+                const end = view.getUint32(group + 4);
+                if (codePoint < start) hi = mid - 1;
+                else if (codePoint > end) lo = mid + 1;
+                else return view.getUint32(group + 8) + codePoint - start;
+            }
+            return 0;
+        };
+    }
+
+    if (format4 !== -1) {
+        const segCount = view.getUint16(format4 + 6) / 2;
+        const endCodes = format4 + 14;
+        const startCodes = endCodes + segCount * 2 + 2;
+        const idDeltas = startCodes + segCount * 2;
+        const idRangeOffsets = idDeltas + segCount * 2;
+        return (codePoint: number) => {
+            if (codePoint > 0xffff) return 0;
+            for (let i = 0; i < segCount; i++) {
+                if (codePoint > view.getUint16(endCodes + i * 2)) continue;
+                const start = view.getUint16(startCodes + i * 2);
+                if (codePoint < start) return 0;
+                const delta = view.getInt16(idDeltas + i * 2);
+                const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+                if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+                const glyphOffset = idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2;
+                const glyph = view.getUint16(glyphOffset);
+                return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+            }
+            return 0;
+        };
+    }
+
+    return () => 0;
+};
+
+const readPostScriptName = (view: DataView, nameOffset: number): string | null => {
+    const count = view.getUint16(nameOffset + 2);
+    const stringsOffset = nameOffset + view.getUint16(nameOffset + 4);
+    for (let i = 0; i < count; i++) {
+        const record = nameOffset + 6 + i * 12;
+        if (view.getUint16(record + 6) !== 6) continue;
+        const platformId = view.getUint16(record);
+        const length = view.getUint16(record + 8);
+        const offset = stringsOffset + view.getUint16(record + 10);
+        let name = '';
+        if (platformId === 3 || platformId === 0) {
+            for (let j = 0; j < length; j += 2) name += String.fromCharCode(view.getUint16(offset + j));
+        } else {
+            for (let j = 0; j < length; j++) name += String.fromCharCode(view.getUint8(offset + j));
+        }
+        if (name) return name;
+    }
+    return null;
+};
+
+// Tables a subset keeps besides the rebuilt glyf/loca: the ones a PDF TrueType program needs,
+// plus the character map and names for tools that inspect embedded fonts. Layout tables
+// (GSUB, GPOS, kern) and signatures would describe glyphs that are no longer there.
+const SUBSET_TABLES = ['head', 'hhea', 'hmtx', 'maxp', 'cmap', 'OS/2', 'name', 'post', 'cvt ', 'fpgm', 'prep', 'gasp'];
+
+const COMPONENT_WORDS = 0x0001;
+const COMPONENT_SCALE = 0x0008;
+const COMPONENT_MORE = 0x0020;
+const COMPONENT_XY_SCALE = 0x0040;
+const COMPONENT_2X2 = 0x0080;
+
+const subsetTrueType = (view: DataView, tables: Map<string, TableRecord>, numGlyphs: number, glyphIds: Iterable<number>): Uint8Array => {
+    const head = tables.get('head')!;
+    const loca = tables.get('loca')!;
+    const glyf = tables.get('glyf')!;
+    const longLoca = view.getInt16(head.offset + 50) === 1;
+    const glyphStart = (id: number) => glyf.offset + (longLoca ? view.getUint32(loca.offset + id * 4) : view.getUint16(loca.offset + id * 2) * 2);
+
+    // Glyph 0 (.notdef) is always kept; composite glyphs pull in their components
+    const keep = new Set<number>();
+    const queue = [0, ...glyphIds];
+    while (queue.length > 0) {
+        const id = queue.pop()!;
+        if (id >= numGlyphs || keep.has(id)) continue;
+        keep.add(id);
+        const start = glyphStart(id);
+        if (glyphStart(id + 1) - start < 10 || view.getInt16(start) >= 0) continue;
+        let offset = start + 10;
+        for (;;) {
+            const flags = view.getUint16(offset);
+            queue.push(view.getUint16(offset + 2));
+            offset += 4 + (flags & COMPONENT_WORDS ? 4 : 2);
+            if (flags & COMPONENT_SCALE) offset += 2;
+            else if (flags & COMPONENT_XY_SCALE) offset += 4;
+            else if (flags & COMPONENT_2X2) offset += 8;
+            if (!(flags & COMPONENT_MORE)) break;
+        }
+    }
+
+    const sizes = Array.from({ length: numGlyphs }, (_, id) => (keep.has(id) ? (glyphStart(id + 1) - glyphStart(id) + 3) & ~3 : 0));
+    const newGlyf = new Uint8Array(sizes.reduce((sum, size) => sum + size, 0));
+    const newLoca = new DataView(new ArrayBuffer((numGlyphs + 1) * 4));
+    let offset = 0;
+    for (let id = 0; id < numGlyphs; id++) {
+        newLoca.setUint32(id * 4, offset);
+        if (sizes[id] > 0) {
+            const start = glyphStart(id);
+            newGlyf.set(new Uint8Array(view.buffer, view.byteOffset + start, glyphStart(id + 1) - start), offset);
+            offset += sizes[id];
+        }
+    }
+    newLoca.setUint32(numGlyphs * 4, offset);
+
+    const bytesOf = (record: TableRecord) => new Uint8Array(view.buffer, view.byteOffset + record.offset, record.length);
+    const kept = SUBSET_TABLES.flatMap(name => {
+        const record = tables.get(name);
+        return record ? [{ tag: name, data: bytesOf(record) }] : [];
+    }).map(table => {
+        if (table.tag !== 'head') return table;
+        const data = table.data.slice();
+        new DataView(data.buffer).setInt16(50, 1); // long loca offsets
+        return { tag: 'head', data };
+    });
+    return writeSfnt(view.getUint32(0), [...kept, { tag: 'loca', data: new Uint8Array(newLoca.buffer) }, { tag: 'glyf', data: newGlyf }]);
+};
+
+/**
+ * Parses a TrueType/OpenType (or WOFF 1) font. Returns null for formats that cannot be
+ * embedded, such as WOFF 2 or font collections.
+ */
+export const parseSfnt = async (input: Uint8Array, fallbackName: string): Promise<SfntFont | null> => {
+    if (input.length < 12) return null;
+    let data = input;
+    const signature = tag(new DataView(input.buffer, input.byteOffset, input.byteLength), 0);
+    if (signature === 'wOFF') data = await unpackWoff(input);
+    else if (signature !== 'OTTO' && signature !== 'true' && !(input[0] === 0 && input[1] === 1 && input[2] === 0 && input[3] === 0)) return null;
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const tables = readTables(view);
+    const head = tables.get('head');
+    const hhea = tables.get('hhea');
+    const hmtx = tables.get('hmtx');
+    const maxp = tables.get('maxp');
+    const cmap = tables.get('cmap');
+    if (!head || !hhea || !hmtx || !maxp || !cmap) return null;
+
+    const unitsPerEm = view.getUint16(head.offset + 18) || 1000;
+    const bbox: [number, number, number, number] = [
+        view.getInt16(head.offset + 36), view.getInt16(head.offset + 38),
+        view.getInt16(head.offset + 40), view.getInt16(head.offset + 42)
+    ];
+    const numGlyphs = view.getUint16(maxp.offset + 4);
+    const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+    let ascent = view.getInt16(hhea.offset + 4);
+    let descent = -view.getInt16(hhea.offset + 6);
+    let capHeight = ascent;
+
+    const os2 = tables.get('OS/2');
+    if (os2) {
+        const fsSelection = view.getUint16(os2.offset + 62);
+        // Bit 7 (USE_TYPO_METRICS) makes browsers lay out with the typographic metrics
+        if (fsSelection & 0x80) {
+            ascent = view.getInt16(os2.offset + 68);
+            descent = -view.getInt16(os2.offset + 70);
+        }
+        if (view.getUint16(os2.offset) >= 2 && os2.length >= 90) capHeight = view.getInt16(os2.offset + 88);
+    }
+
+    const post = tables.get('post');
+    const italicAngle = post ? view.getInt32(post.offset + 4) / 65536 : 0;
+    const isFixedPitch = post ? view.getUint32(post.offset + 12) !== 0 : false;
+    const name = tables.get('name');
+    const rawName = (name && readPostScriptName(view, name.offset)) || fallbackName;
+
+    const lastAdvance = view.getUint16(hmtx.offset + (numberOfHMetrics - 1) * 4);
+    const advanceWidth = (glyphId: number) => (
+        glyphId < numberOfHMetrics ? view.getUint16(hmtx.offset + glyphId * 4) : lastAdvance
+    );
+
+    return {
+        data,
+        isCff: tables.has('CFF '),
+        postScriptName: rawName.replace(/[^A-Za-z0-9_-]/g, '') || 'CustomFont',
+        unitsPerEm,
+        ascent,
+        descent,
+        capHeight,
+        bbox,
+        italicAngle,
+        isFixedPitch,
+        numGlyphs,
+        glyphForCodePoint: readCmap(view, cmap.offset),
+        advanceWidth,
+        subset: glyphIds => (tables.has('glyf') && tables.has('loca') ? subsetTrueType(view, tables, numGlyphs, glyphIds) : data)
+    };
+};
@@ -0,0 +1,550 @@
+// utils/spellcheck.ts
+//
+// Offline spelling and grammar checking. Dictionaries are Hunspell .aff/.dic pairs, the
+// format LibreOffice and most open word lists ship in: the bundled ones are served from
+// public/dictionaries, others can be installed from files and are kept in IndexedDB. A word
+// is checked the way Hunspell does it, by stripping prefix and suffix rules back to a stem
+// of the word list, rather than by expanding every form. Compound rules are not supported.
+// Issues are DOM Ranges on the page text (the runs of utils/findReplace.ts) painted with the
+// CSS Custom Highlight API, so the document HTML is never touched by the checker.
+
+import { BUILT_IN_DICTIONARIES } from '../constants';
+import { collectRuns, runRange } from './findReplace';
+
+export interface SpellChecker {
+    language: string;
+    check: (word: string) => boolean;
+    suggest: (word: string) => string[];
+}
+
+export interface StoredDictionary {
+    id: string; // file name without extension, e.g. 'de_DE'
+    name: string;
+    aff: string;
+    dic: string;
+}
+
+export interface SpellIssue {
+    kind: 'spelling' | 'grammar';
+    range: Range;
+    pageIndex: number;
+    text: string;
+    message: string;
+    suggestions?: string[]; // grammar fixes; spelling suggestions come from the checker on demand
+}
+
+export const MAX_SPELL_ISSUES = 2000;
+export const MAX_SUGGESTIONS = 6;
+export const SPELLCHECK_DELAY_MS = 600; // pause in typing before the book is checked again
+
+export const SPELLING_HIGHLIGHT = 'spelling-error';
+export const GRAMMAR_HIGHLIGHT = 'grammar-error';
+
+interface AffixRule {
+    flag: string;
+    cross: boolean;
+    strip: string;
+    append: string;
+    continuation: string[];
+    condition: RegExp | null;
+}
+
+type FlagMode = 'char' | 'long' | 'num' | 'utf8';
+
+const NO_FLAGS: string[] = [];
+const DEFAULT_TRY = 'esianrtolcdugmphbyfvkwzxjq';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseFlags = (text: string, mode: FlagMode): string[] => {
+    if (!text) return NO_FLAGS;
+    if (mode === 'long') return text.match(/[\s\S]{1,2}/g) ?? NO_FLAGS;
+    if (mode === 'num') return text.split(',').map(flag => flag.trim()).filter(Boolean);
+    return Array.from(text);
+};
+
+// Affix conditions are a tiny regex dialect: literal characters, `.` and `[...]`/`[^...]` sets
+const conditionPattern = (condition: string, suffix: boolean) => {
+    if (!condition || condition === '.') return null;
+    let source = '';
+    for (let i = 0; i < condition.length; i++) {
+        const char = condition[i];
+        const close = char === '[' ? condition.indexOf(']', i) : -1;
+        if (close > i) {
+            const body = condition.slice(i + 1, close);
+            const negate = body.startsWith('^');
+            source += `[${negate ? '^' : ''}${(negate ? body.slice(1) : body).replace(/[\\\]^-]/g, '\\$&')}]`;
+            i = close;
+        } else {
+            source += char === '.' ? '.' : escapeRegExp(char);
+        }
+    }
+    return new RegExp(suffix ? `${source}$` : `^${source}`);
+};
+
+/** Decodes a dictionary pair read from disk, honouring the `SET` encoding of the .aff file. */
+export const decodeDictionary = (aff: ArrayBuffer, dic: ArrayBuffer) => {
+    const declared = /^SET\s+(\S+)/m.exec(new TextDecoder('iso-8859-1').decode(aff))?.[1] ?? 'ISO8859-1';
+    const label = declared.toLowerCase().replace(/^iso8859/, 'iso-8859').replace(/^microsoft-cp/, 'windows-');
+    let decoder: TextDecoder;
+    try {
+        decoder = new TextDecoder(label);
+    } catch {
+        decoder = new TextDecoder('utf-8');
+    }
+    const decoded = { aff: decoder.decode(aff).replace(/^\uFEFF/, ''), dic: decoder.decode(dic).replace(/^\uFEFF/, '') };
+    // A .dic file starts with its word count; anything else (an HTML page, a word list) is not one
+    if (!/^\s*\d+\s/.test(decoded.dic)) {
+        throw new Error('Not a Hunspell dictionary: the .dic file must start with its word count.');
+    }
+    return decoded;
+};
+
+// Italian elides articles and prepositions before vowels (l'albero, dell'anno, un'ape)
+const ELIDED_FORMS: Record<string, string[]> = {
+    it: ['l', 'un', 'dell', 'all', 'dall', 'nell', 'sull', 'coll', 'quest', 'quell', 'bell', 'sant', 'tutt', 'nessun', 'qualcun', 'c', 'd', 'm', 't', 's', 'v', 'n']
+};
+
+const isCapitalized = (word: string) => /^\p{Lu}[^\p{Lu}]*$/u.test(word);
+const isAllCaps = (word: string) => word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase();
+
+/**
+ * Builds a checker from the text of a Hunspell .aff and .dic file. Supported: FLAG, AF, TRY,
+ * REP, PFX/SFX (with conditions, cross products and one level of continuation classes),
+ * NEEDAFFIX, FORBIDDENWORD and ONLYINCOMPOUND.
+ */
+export const createSpellChecker = (language: string, aff: string, dic: string): SpellChecker => {
+    const locale = language.replace('_', '-');
+    const lower = (word: string) => word.toLocaleLowerCase(locale);
+    const capitalize = (word: string) => word.charAt(0).toLocaleUpperCase(locale) + word.slice(1);
+
+    let flagMode: FlagMode = 'char';
+    let tryChars = '';
+    let needAffix: string | null = null;
+    let forbidden: string | null = null;
+    let onlyInCompound: string | null = null;
+    const aliases: string[][] = [];
+    const replacements: Array<[string, string]> = [];
+    const crossProduct = new Map<string, boolean>();
+    const prefixes = new Map<string, AffixRule[]>(); // by first appended character
+    const suffixes = new Map<string, AffixRule[]>(); // by last appended character
+    const readFlags = (text: string) => (aliases.length > 0 && /^\d+$/.test(text) ? aliases[Number(text) - 1] ?? NO_FLAGS : parseFlags(text, flagMode));
+    const singleFlag = (text: string | undefined) => (text ? parseFlags(text, flagMode)[0] ?? null : null);
+
+    aff.split(/\r?\n/).forEach(line => {
+        const parts = line.trim().split(/\s+/);
+        switch (parts[0]) {
+            case 'FLAG':
+                flagMode = parts[1] === 'long' ? 'long' : parts[1] === 'num' ? 'num' : parts[1] === 'UTF-8' ? 'utf8' : 'char';
+                break;
+            case 'AF':
+                if (parts.length === 2 && !/^\d+$/.test(parts[1])) aliases.push(parseFlags(parts[1], flagMode));
+                break;
+            case 'TRY':
+                tryChars = parts[1] ?? '';
+                break;
+            case 'REP':
+                if (parts.length >= 3) replacements.push([parts[1], parts[2].replace(/_/g, ' ')]);
+                break;
+            case 'NEEDAFFIX':
+                needAffix = singleFlag(parts[1]);
+                break;
+            case 'FORBIDDENWORD':
+                forbidden = singleFlag(parts[1]);
+                break;
+            case 'ONLYINCOMPOUND':
+                onlyInCompound = singleFlag(parts[1]);
+                break;
+            case 'PFX':
+            case 'SFX': {
+                const flag = parts[1];
+                if (!flag || parts.length < 4) break;
+                const key = `${parts[0]}${flag}`;
+                if (!crossProduct.has(key)) {
+                    crossProduct.set(key, parts[2] === 'Y');
+                    break;
+                }
+                const [appendText, continuation = ''] = parts[3].split('/');
+                const suffix = parts[0] === 'SFX';
+                const rule: AffixRule = {
+                    flag: singleFlag(flag) ?? flag,
+                    cross: crossProduct.get(key)!,
+                    strip: parts[2] === '0' ? '' : parts[2],
+                    append: appendText === '0' ? '' : appendText,
+                    continuation: readFlags(continuation),
+                    condition: conditionPattern(parts[4] ?? '.', suffix)
+                };
+                const index = suffix ? rule.append.slice(-1) : rule.append.charAt(0);
+                const rules = suffix ? suffixes : prefixes;
+                if (!rules.has(index)) rules.set(index, []);
+                rules.get(index)!.push(rule);
+                break;
+            }
+        }
+    });
+
+    // word -> flags of each homonym
+    const words = new Map<string, string[][]>();
+    dic.split(/\r?\n/).forEach((line, index) => {
+        if (!line || line.startsWith('\t') || line.startsWith('#') || (index === 0 && /^\d+\s*$/.test(line))) return;
+        const entry = line.split('\t')[0].trimEnd();
+        const slash = entry.search(/(?<!\\)\//);
+        const word = (slash < 0 ? entry.split(/\s/)[0] : entry.slice(0, slash)).replace(/\\\//g, '/');
+        const flags = slash < 0 ? NO_FLAGS : readFlags(entry.slice(slash + 1).split(/\s/)[0]);
+        if (!word) return;
+        const homonyms = words.get(word);
+        if (homonyms) homonyms.push(flags);
+        else words.set(word, [flags]);
+    });
+
+    const has = (flags: string[], flag: string | null) => flag !== null && flags.includes(flag);
+    const lookup = (stem: string, accept: (flags: string[]) => boolean) => (
+        words.get(stem)?.some(flags => !has(flags, forbidden) && !has(flags, onlyInCompound) && accept(flags)) ?? false
+    );
+    const rulesFor = (index: Map<string, AffixRule[]>, char: string) => [...(index.get('') ?? []), ...(index.get(char) ?? [])];
+
+    // word = stem + suffix; `prefix` was stripped before (cross product), `outer` is a suffix
+    // stripped after this one that must be allowed by its continuation classes
+    const checkSuffixed = (word: string, prefix: AffixRule | null, outer: AffixRule | null): boolean => {
+        for (const rule of rulesFor(suffixes, word.slice(-1))) {
+            if (!word.endsWith(rule.append) || word.length <= rule.append.length) continue;
+            if ((prefix && !rule.cross) || (outer && !rule.continuation.includes(outer.flag))) continue;
+            const stem = word.slice(0, word.length - rule.append.length) + rule.strip;
+            if (rule.condition && !rule.condition.test(stem)) continue;
+            const complete = outer !== null || !rule.continuation.includes(needAffix ?? '');
+            if (complete && lookup(stem, flags => has(flags, rule.flag) && (!prefix || has(flags, prefix.flag) || rule.continuation.includes(prefix.flag)))) {
+                return true;
+            }
+            if (!outer && checkSuffixed(stem, prefix, rule)) return true;
+        }
+        return false;
+    };
+
+    const checkPrefixed = (word: string) => {
+        for (const rule of rulesFor(prefixes, word.charAt(0))) {
+            if (!word.startsWith(rule.append) || word.length <= rule.append.length) continue;
+            const stem = rule.strip + word.slice(rule.append.length);
+            if (rule.condition && !rule.condition.test(stem)) continue;
+            if (lookup(stem, flags => has(flags, rule.flag))) return true;
+            if (rule.cross && checkSuffixed(stem, rule, null)) return true;
+        }
+        return false;
+    };
+
+    const checkForm = (word: string) => {
+        if (words.get(word)?.some(flags => has(flags, forbidden))) return false;
+        return lookup(word, flags => !has(flags, needAffix)) || checkSuffixed(word, null, null) || checkPrefixed(word);
+    };
+
+    const elided = ELIDED_FORMS[language.slice(0, 2)] ?? [];
+    const isCorrect = (word: string): boolean => {
+        if (checkForm(word)) return true;
+        const lowered = lower(word);
+        if (isAllCaps(word) && (checkForm(lowered) || checkForm(capitalize(lowered)))) return true;
+        if (isCapitalized(word) && checkForm(lowered)) return true;
+        const apostrophe = word.indexOf("'");
+        if (apostrophe > 0) {
+            const head = word.slice(0, apostrophe);
+            const tail = word.slice(apostrophe + 1);
+            if (tail === 's' || tail === 'S') return isCorrect(head); // English possessive
+            if (tail && (elided.includes(lower(head)) || checkForm(`${head}'`) || checkForm(`${lowered.slice(0, apostrophe)}'`))) {
+                return isCorrect(tail);
+            }
+        }
+        return false;
+    };
+
+    const cache = new Map<string, boolean>();
+    const check = (word: string) => {
+        const normalized = word.replace(/’/g, "'");
+        let result = cache.get(normalized);
+        if (result === undefined) {
+            if (cache.size > 50000) cache.clear();
+            result = isCorrect(normalized);
+            cache.set(normalized, result);
+        }
+        return result;
+    };
+
+    // Similarity to the typed word: shared start and end, less the length difference
+    const similarity = (word: string, candidate: string) => {
+        let head = 0;
+        while (head < Math.min(word.length, candidate.length) && word[head] === candidate[head]) head++;
+        let tail = 0;
+        while (tail < Math.min(word.length, candidate.length) - head && word[word.length - 1 - tail] === candidate[candidate.length - 1 - tail]) tail++;
+        return head + tail - Math.abs(word.length - candidate.length) / 2;
+    };
+
+    // Case fixes and REP table entries first, then the closest single edits (swap, replace,
+    // delete, insert) and splits into two words
+    const suggest = (word: string) => {
+        const original = word.replace(/’/g, "'");
+        const base = lower(original);
+        const letters = Array.from(new Set(Array.from(lower(tryChars || DEFAULT_TRY)))).filter(char => /\p{L}/u.test(char));
+        const seen = new Set<string>([original]);
+        const preferred: string[] = [];
+        const edits: string[] = [];
+        const swaps = new Set<string>();
+        const consider = (candidate: string, list = edits) => {
+            if (edits.length >= MAX_SUGGESTIONS * 4 || seen.has(candidate)) return;
+            seen.add(candidate);
+            if (candidate.split(' ').every(part => part && isCorrect(part))) list.push(candidate);
+        };
+
+        consider(base, preferred);
+        consider(capitalize(base), preferred);
+        replacements.forEach(([from, to]) => {
+            const atStart = from.startsWith('^');
+            const atEnd = from.endsWith('$');
+            const search = from.replace(/^\^/, '').replace(/\$$/, '');
+            if (!search) return;
+            for (let at = base.indexOf(search); at >= 0; at = base.indexOf(search, at + 1)) {
+                if ((atStart && at !== 0) || (atEnd && at + search.length !== base.length)) continue;
+                consider(base.slice(0, at) + to + base.slice(at + search.length), preferred);
+            }
+        });
+        for (let i = 0; i + 1 < base.length; i++) {
+            const swapped = base.slice(0, i) + base[i + 1] + base[i] + base.slice(i + 2);
+            swaps.add(swapped);
+            consider(swapped);
+        }
+        for (let i = 0; i < base.length; i++) letters.forEach(char => consider(base.slice(0, i) + char + base.slice(i + 1)));
+        for (let i = 0; i < base.length; i++) consider(base.slice(0, i) + base.slice(i + 1));
+        for (let i = 0; i <= base.length; i++) letters.forEach(char => consider(base.slice(0, i) + char + base.slice(i)));
+        for (let i = 2; i + 1 < base.length; i++) consider(`${base.slice(0, i)} ${base.slice(i)}`);
+
+        const ranked = edits
+            // Two swapped letters are one slip, not two mismatches ("teh" is closer to "the" than to "tech")
+            .map((candidate, order) => ({ candidate, order, score: swaps.has(candidate) ? base.length - 0.5 : similarity(base, candidate) }))
+            .sort((a, b) => b.score - a.score || a.order - b.order)
+            .map(item => item.candidate);
+        // Give the suggestions the case the word was typed in
+        return [...preferred, ...ranked].map(candidate => {
+            if (isAllCaps(original)) return candidate.toLocaleUpperCase(locale);
+            if (isCapitalized(original)) return capitalize(candidate);
+            return candidate;
+        }).filter((candidate, index, list) => candidate !== original && list.indexOf(candidate) === index).slice(0, MAX_SUGGESTIONS);
+    };
+
+    return { language, check, suggest };
+};
+
+const WORD = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*/gu;
+// Product names (iPad), codes (A4, 3rd), addresses and paths are not words to check
+const SKIPPED_WORD = /\p{Ll}\p{Lu}/u;
+const SKIPPED_BEFORE = /[\p{N}_@/\\]$|\p{L}\.$/u;
+const SKIPPED_AFTER = /^[\p{N}_@/\\]|^\.\p{L}/u;
+const SKIPPED_SELECTOR = '.toc-container, [spellcheck="false"], code, kbd';
+const ABBREVIATIONS = new Set([
+    'etc', 'vs', 'mr', 'mrs', 'ms', 'dr', 'st', 'no', 'pp', 'ca', 'cf', 'fig', 'vol', 'ch',
+    'ecc', 'es', 'pag', 'sig', 'sigg', 'dott', 'prof', 'ing', 'avv', 'cap'
+]);
+
+interface RawIssue {
+    kind: SpellIssue['kind'];
+    start: number;
+    end: number;
+    message: string;
+    suggestions?: string[];
+}
+
+// The light grammar rules work on the text of one block
+const grammarIssues = (text: string, locale: string): RawIssue[] => {
+    const issues: RawIssue[] = [];
+    const words = Array.from(text.matchAll(WORD));
+    words.forEach((word, index) => {
+        const previous = words[index - 1];
+        if (!previous) return;
+        const gap = text.slice(previous.index! + previous[0].length, word.index!);
+        if (/^[ \u00A0]+$/.test(gap) && previous[0].toLocaleLowerCase(locale) === word[0].toLocaleLowerCase(locale)) {
+            issues.push({
+                kind: 'grammar',
+                start: previous.index! + previous[0].length,
+                end: word.index! + word[0].length,
+                message: `Repeated word "${word[0]}"`,
+                suggestions: ['']
+            });
+        }
+    });
+    for (const match of text.matchAll(/(?<=[\p{L}\p{N}])[ \u00A0]+(?=[,.;:!?](?:\s|$))/gu)) {
+        issues.push({ kind: 'grammar', start: match.index!, end: match.index! + match[0].length, message: 'Space before punctuation', suggestions: [''] });
+    }
+    for (const match of text.matchAll(/(?<=[\p{L}\p{N},.;:!?])[ \u00A0]{2,}(?=[\p{L}\p{N}])/gu)) {
+        issues.push({ kind: 'grammar', start: match.index!, end: match.index! + match[0].length, message: 'Double space', suggestions: [' '] });
+    }
+    for (const match of text.matchAll(/(?<![.…])[.!?][ \u00A0]+(\p{Ll}[\p{L}\p{M}]*)/gu)) {
+        const before = /[\p{L}]+$/u.exec(text.slice(0, match.index!))?.[0] ?? '';
+        if (before.length === 1 || ABBREVIATIONS.has(before.toLocaleLowerCase(locale))) continue;
+        const word = match[1];
+        const start = match.index! + match[0].length - word.length;
+        issues.push({
+            kind: 'grammar',
+            start,
+            end: start + word.length,
+            message: 'Sentence starts with a lowercase letter',
+            suggestions: [word.charAt(0).toLocaleUpperCase(locale) + word.slice(1)]
+        });
+    }
+    return issues;
+};
+
+const inWordList = (word: string, list: Set<string>) => list.has(word) || list.has(word.toLowerCase()) || list.has(word.replace(/’/g, "'"));
+
+/**
+ * Spelling and grammar issues on the pages of `workspace`, in document order (at most
+ * MAX_SPELL_ISSUES). Words of the document's dictionary and ignored words or phrases are
+ * not reported; a lowercase entry also covers the capitalized word.
+ */
+export const findSpellIssues = (
+    workspace: HTMLElement,
+    checker: SpellChecker,
+    customWords: string[],
+    ignored: string[] = []
+): SpellIssue[] => {
+    const locale = checker.language.replace('_', '-');
+    const accepted = new Set([...customWords, ...ignored]);
+    const issues: SpellIssue[] = [];
+    const pages = Array.from(workspace.querySelectorAll(':scope > .page')) as HTMLElement[];
+    pages.forEach((page, pageIndex) => {
+        collectRuns(page).forEach(run => {
+            if (issues.length >= MAX_SPELL_ISSUES || run.nodes[0].node.parentElement?.closest(SKIPPED_SELECTOR)) return;
+            const found: RawIssue[] = [];
+            for (const match of run.text.matchAll(WORD)) {
+                const word = match[0];
+                const start = match.index!;
+                const end = start + word.length;
+                if (Array.from(word).length < 2 || SKIPPED_WORD.test(word)) continue;
+                const before = run.text.slice(Math.max(0, start - 2), start);
+                if (SKIPPED_BEFORE.test(before) || SKIPPED_AFTER.test(run.text.slice(end, end + 2))) continue;
+                if (inWordList(word, accepted) || checker.check(word)) continue;
+                found.push({ kind: 'spelling', start, end, message: `"${word}" is not in the ${checker.language} dictionary` });
+            }
+            grammarIssues(run.text, locale).forEach(issue => {
+                if (!accepted.has(run.text.slice(issue.start, issue.end))) found.push(issue);
+            });
+            found.sort((a, b) => a.start - b.start).forEach(issue => {
+                if (issues.length >= MAX_SPELL_ISSUES) return;
+                issues.push({
+                    kind: issue.kind,
+                    range: runRange(run, issue.start, issue.end),
+                    pageIndex,
+                    text: run.text.slice(issue.start, issue.end),
+                    message: issue.message,
+                    suggestions: issue.suggestions
+                });
+            });
+        });
+    });
+    return issues;
+};
+
+/** The issue under a viewport point (the caret position of a right click), if any. */
+export const issueAtPoint = (issues: SpellIssue[], x: number, y: number) => {
+    const doc = document as Document & { caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null };
+    let node: Node | null = null;
+    let offset = 0;
+    if (typeof doc.caretRangeFromPoint === 'function') {
+        const range = doc.caretRangeFromPoint(x, y);
+        node = range?.startContainer ?? null;
+        offset = range?.startOffset ?? 0;
+    } else if (typeof doc.caretPositionFromPoint === 'function') {
+        const position = doc.caretPositionFromPoint(x, y);
+        node = position?.offsetNode ?? null;
+        offset = position?.offset ?? 0;
+    }
+    if (!node) return null;
+    return issues.find(issue => issue.range.startContainer.isConnected && issue.range.comparePoint(node!, offset) === 0) ?? null;
+};
+
+/** Paints the issues; a no-op where the Highlight API is missing. */
+export const highlightSpellIssues = (issues: SpellIssue[]) => {
+    if (typeof CSS === 'undefined' || !('highlights' in CSS) || typeof Highlight === 'undefined') return;
+    CSS.highlights.set(SPELLING_HIGHLIGHT, new Highlight(...issues.filter(issue => issue.kind === 'spelling').map(issue => issue.range)));
+    CSS.highlights.set(GRAMMAR_HIGHLIGHT, new Highlight(...issues.filter(issue => issue.kind === 'grammar').map(issue => issue.range)));
+};
+
+export const clearSpellHighlights = () => {
+    if (typeof CSS === 'undefined' || !('highlights' in CSS)) return;
+    CSS.highlights.delete(SPELLING_HIGHLIGHT);
+    CSS.highlights.delete(GRAMMAR_HIGHLIGHT);
+};
+
+// --- Dictionaries ---
+
+const DICTIONARY_DB_NAME = 'spywriter-dictionaries';
+const DICTIONARY_STORE = 'dictionaries';
+
+export const openDictionaryDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DICTIONARY_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DICTIONARY_STORE)) {
+            db.createObjectStore(DICTIONARY_STORE, { keyPath: 'id' });
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const loadDictionariesFromDb = async (): Promise<StoredDictionary[]> => {
+    try {
+        const db = await openDictionaryDb();
+        const tx = db.transaction(DICTIONARY_STORE, 'readonly');
+        const getAll = tx.objectStore(DICTIONARY_STORE).getAll();
+        return await new Promise<StoredDictionary[]>((resolve) => {
+            getAll.onsuccess = () => resolve(getAll.result || []);
+            getAll.onerror = () => resolve([]);
+        });
+    } catch {
+        return [];
+    }
+};
+
+export const saveDictionaryToDb = async (dictionary: StoredDictionary) => {
+    const db = await openDictionaryDb();
+    const tx = db.transaction(DICTIONARY_STORE, 'readwrite');
+    tx.objectStore(DICTIONARY_STORE).put(dictionary);
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const dictionaryName = (id: string) => BUILT_IN_DICTIONARIES.find(dictionary => dictionary.id === id)?.name ?? id;
+
+/**
+ * Reads a dictionary from a picked .aff and .dic file of the same name (e.g. de_DE.aff and
+ * de_DE.dic); the file name becomes the dictionary id, so installing en_US replaces the
+ * bundled English one on this device.
+ */
+export const readDictionaryFiles = async (files: File[]): Promise<StoredDictionary> => {
+    const stem = (file: File) => file.name.replace(/\.[^.]+$/, '');
+    const aff = files.find(file => /\.aff$/i.test(file.name));
+    const dic = aff ? files.find(file => /\.dic$/i.test(file.name) && stem(file) === stem(aff)) : undefined;
+    if (!aff || !dic) {
+        throw new Error('Pick the .aff and the .dic file of the dictionary together (same name, e.g. it_IT.aff and it_IT.dic).');
+    }
+    const decoded = decodeDictionary(await aff.arrayBuffer(), await dic.arrayBuffer());
+    const id = stem(aff);
+    return { id, name: dictionaryName(id), ...decoded };
+};
+
+/** The checker for a dictionary id: an installed copy first, then the bundled files. */
+export const loadSpellChecker = async (id: string): Promise<SpellChecker> => {
+    const installed = (await loadDictionariesFromDb()).find(dictionary => dictionary.id === id);
+    if (installed) return createSpellChecker(id, installed.aff, installed.dic);
+    try {
+        const [aff, dic] = await Promise.all(['aff', 'dic'].map(async extension => {
+            const response = await fetch(`/dictionaries/${id}.${extension}`);
+            // A dev server answers unknown paths with index.html and status 200
+            if (!response.ok || /text\/html/i.test(response.headers.get('content-type') ?? '')) {
+                throw new Error(String(response.status));
+            }
+            return response.arrayBuffer();
+        }));
+        const decoded = decodeDictionary(aff, dic);
+        return createSpellChecker(id, decoded.aff, decoded.dic);
+    } catch {
+        throw new Error(`The ${dictionaryName(id)} dictionary is not installed. Install its Hunspell .aff and .dic files from the spelling panel.`);
+    }
+};
@@ -0,0 +1,207 @@
+// utils/styleSheets.ts
+//
+// Named paragraph and character styles ("Instruction", "Answer key", "Vocabulary word").
+// A style sets some CSS properties and takes the rest from the style it is based on. The
+// resolved properties are written as class rules into a marked block of the document CSS
+// (like the layout override in utils/pageLayout.ts), so elements only carry the class —
+// `ps-…` on a block, `cs-…` on a span — and every element using a style follows it as soon
+// as the style, or any style it is based on, is edited. Exports read the same CSS.
+
+import { NamedStyle } from '../types';
+
+export const STYLE_SHEET_MARKER_START = '/* SPYWRITER_STYLE_SHEETS_START */';
+export const STYLE_SHEET_MARKER_END = '/* SPYWRITER_STYLE_SHEETS_END */';
+
+const STYLE_SHEET_BLOCK = /\/\* SPYWRITER_STYLE_SHEETS_START \*\/[\s\S]*?\/\* SPYWRITER_STYLE_SHEETS_END \*\//g;
+
+export const STYLE_PROPERTIES: Array<{ name: string; label: string; placeholder: string; paragraphOnly?: boolean }> = [
+    { name: 'font-family', label: 'Font', placeholder: 'Georgia, serif' },
+    { name: 'font-size', label: 'Size', placeholder: '12pt' },
+    { name: 'font-weight', label: 'Weight', placeholder: 'bold' },
+    { name: 'font-style', label: 'Style', placeholder: 'italic' },
+    { name: 'color', label: 'Color', placeholder: '#333333' },
+    { name: 'background-color', label: 'Highlight', placeholder: '#fff7cc' },
+    { name: 'text-decoration', label: 'Decoration', placeholder: 'underline' },
+    { name: 'text-transform', label: 'Case', placeholder: 'uppercase' },
+    { name: 'letter-spacing', label: 'Letter spacing', placeholder: '0.05em' },
+    { name: 'text-align', label: 'Alignment', placeholder: 'center', paragraphOnly: true },
+    { name: 'line-height', label: 'Line height', placeholder: '1.5', paragraphOnly: true },
+    { name: 'text-indent', label: 'First-line indent', placeholder: '0.3in', paragraphOnly: true },
+    { name: 'margin-top', label: 'Space before', placeholder: '12px', paragraphOnly: true },
+    { name: 'margin-bottom', label: 'Space after', placeholder: '6px', paragraphOnly: true }
+];
+
+const CLASS_PREFIX: Record<NamedStyle['kind'], string> = { paragraph: 'ps-', character: 'cs-' };
+
+export const isStyleClass = (className: string, kind: NamedStyle['kind']) => className.startsWith(CLASS_PREFIX[kind]);
+
+/** The style class an element carries, if any. */
+export const getElementStyleId = (element: Element | null, kind: NamedStyle['kind']) => (
+    element ? Array.from(element.classList).find(name => isStyleClass(name, kind)) ?? null : null
+);
+
+export const createStyleId = (kind: NamedStyle['kind'], name: string, styles: NamedStyle[]) => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'style';
+    const base = `${CLASS_PREFIX[kind]}${slug}`;
+    let id = base;
+    for (let n = 2; styles.some(style => style.id === id); n++) id = `${base}-${n}`;
+    return id;
+};
+
+/** Properties a style ends up with: its base chain first, its own on top. */
+export const resolveStyleProperties = (styles: NamedStyle[], id: string): Record<string, string> => {
+    const byId = new Map(styles.map(style => [style.id, style]));
+    const chain: NamedStyle[] = [];
+    const seen = new Set<string>();
+    for (let style = byId.get(id); style && !seen.has(style.id); style = style.basedOn ? byId.get(style.basedOn) : undefined) {
+        seen.add(style.id);
+        chain.unshift(style);
+    }
+    const paragraphOnly = new Set(STYLE_PROPERTIES.filter(property => property.paragraphOnly).map(property => property.name));
+    const kind = byId.get(id)?.kind;
+    return chain.reduce<Record<string, string>>((resolved, style) => {
+        Object.entries(style.properties).forEach(([name, value]) => {
+            if (!value.trim() || (kind === 'character' && paragraphOnly.has(name))) return;
+            resolved[name] = value.trim();
+        });
+        return resolved;
+    }, {});
+};
+
+/** Styles `style` may be based on: same kind, and not itself or a style based on it. */
+export const getBasedOnChoices = (styles: NamedStyle[], style: NamedStyle) => styles.filter(candidate => {
+    if (candidate.kind !== style.kind) return false;
+    const byId = new Map(styles.map(item => [item.id, item]));
+    const seen = new Set<string>();
+    for (let current: NamedStyle | undefined = candidate; current && !seen.has(current.id); current = current.basedOn ? byId.get(current.basedOn) : undefined) {
+        if (current.id === style.id) return false;
+        seen.add(current.id);
+    }
+    return true;
+});
+
+/**
+ * Removes a style. Styles based on it move to its own base and take over its properties,
+ * so they look the same as before.
+ */
+export const removeStyle = (styles: NamedStyle[], id: string): NamedStyle[] => {
+    const removed = styles.find(style => style.id === id);
+    if (!removed) return styles;
+    return styles
+        .filter(style => style.id !== id)
+        .map(style => (style.basedOn === id
+            ? { ...style, basedOn: removed.basedOn, properties: { ...removed.properties, ...style.properties } }
+            : style));
+};
+
+// Same `!important` weight as the rules "Update style" writes, so a named style wins over them
+const styleRule = (styles: NamedStyle[], style: NamedStyle) => {
+    const declarations = Object.entries(resolveStyleProperties(styles, style.id))
+        .map(([name, value]) => `    ${name}: ${value.replace(/[;{}]/g, '')} !important;`);
+    return `.editor-workspace .${style.id} {\n${declarations.join('\n')}\n}`;
+};
+
+export const styleSheetCss = (styles: NamedStyle[]) => styles
+    .filter(style => Object.keys(resolveStyleProperties(styles, style.id)).length > 0)
+    .map(style => styleRule(styles, style))
+    .join('\n');
+
+/** Writes (or replaces) the style sheet block of the document CSS. */
+export const applyStyleSheetCss = (cssContent: string, styles: NamedStyle[]) => {
+    const block = `${STYLE_SHEET_MARKER_START}\n${styleSheetCss(styles)}\n${STYLE_SHEET_MARKER_END}`;
+    STYLE_SHEET_BLOCK.lastIndex = 0;
+    if (STYLE_SHEET_BLOCK.test(cssContent)) {
+        return cssContent.replace(STYLE_SHEET_BLOCK, block);
+    }
+    return `${cssContent}\n${block}`.trim();
+};
+
+// Inline declarations of the style's properties would win over the class, so they go
+const stripInlineProperties = (root: HTMLElement, properties: string[]) => {
+    [root, ...(Array.from(root.querySelectorAll('span, b, i, strong, em, font')) as HTMLElement[])].forEach(el => {
+        properties.forEach(name => el.style.removeProperty(name));
+        if (el.getAttribute('style') === '') el.removeAttribute('style');
+    });
+};
+
+// Blocks a paragraph style goes on; chrome drawn into the pages never takes one
+const STYLE_BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+const CHROME_SELECTOR = '.page-footer, .master-layer, .toc-container';
+
+/** Innermost blocks the range touches (a blockquote's paragraphs, not the blockquote). */
+export const getStyleBlocks = (range: Range, root: HTMLElement) => {
+    const blocks = (Array.from(root.querySelectorAll(STYLE_BLOCK_SELECTOR)) as HTMLElement[])
+        .filter(block => !block.closest(CHROME_SELECTOR) && range.intersectsNode(block));
+    return blocks.filter(block => !blocks.some(other => other !== block && block.contains(other)));
+};
+
+/** Gives a block a paragraph style (null removes it). */
+export const setParagraphStyle = (block: HTMLElement, styles: NamedStyle[], id: string | null) => {
+    Array.from(block.classList).filter(name => isStyleClass(name, 'paragraph')).forEach(name => block.classList.remove(name));
+    if (!id) return;
+    block.classList.add(id);
+    stripInlineProperties(block, Object.keys(resolveStyleProperties(styles, id)));
+};
+
+const unwrapBareSpan = (span: HTMLElement) => {
+    if (span.tagName !== 'SPAN' || span.attributes.length > 0) return;
+    span.replaceWith(...Array.from(span.childNodes));
+};
+
+/**
+ * Gives the selected text a character style: wraps it in a span with the style's class, and
+ * drops character styles already inside it. Returns the new span.
+ */
+export const wrapCharacterStyle = (range: Range, styles: NamedStyle[], id: string) => {
+    const span = range.startContainer.ownerDocument!.createElement('span');
+    span.className = id;
+    span.appendChild(range.extractContents());
+    span.querySelectorAll('[class]').forEach(el => {
+        Array.from(el.classList).filter(name => isStyleClass(name, 'character')).forEach(name => el.classList.remove(name));
+        if (el.classList.length === 0) el.removeAttribute('class');
+        unwrapBareSpan(el as HTMLElement);
+    });
+    stripInlineProperties(span, Object.keys(resolveStyleProperties(styles, id)));
+    range.insertNode(span);
+    return span;
+};
+
+/** Character style over a selection that may cross blocks: one span per block. */
+export const applyCharacterStyle = (range: Range, root: HTMLElement, styles: NamedStyle[], id: string) => {
+    const blocks = getStyleBlocks(range, root);
+    if (blocks.length <= 1) return [wrapCharacterStyle(range, styles, id)];
+    return blocks.flatMap(block => {
+        const part = range.cloneRange();
+        if (!block.contains(range.startContainer)) part.setStart(block, 0);
+        if (!block.contains(range.endContainer)) part.setEnd(block, block.childNodes.length);
+        return part.collapsed || !part.toString().trim() ? [] : [wrapCharacterStyle(part, styles, id)];
+    });
+};
+
+/** Removes the character styles the range touches (spans left without attributes are unwrapped). */
+export const clearCharacterStyles = (range: Range, root: HTMLElement) => {
+    const start = range.startContainer.nodeType === Node.ELEMENT_NODE ? range.startContainer as Element : range.startContainer.parentElement;
+    const candidates = new Set<Element>(Array.from(root.querySelectorAll('[class*="cs-"]')).filter(el => range.intersectsNode(el)));
+    for (let el = start; el && el !== root; el = el.parentElement) {
+        if (getElementStyleId(el, 'character')) candidates.add(el);
+    }
+    candidates.forEach(el => {
+        Array.from(el.classList).filter(name => isStyleClass(name, 'character')).forEach(name => el.classList.remove(name));
+        if (el.classList.length === 0) el.removeAttribute('class');
+        unwrapBareSpan(el as HTMLElement);
+    });
+    return candidates.size > 0;
+};
+
+/**
+ * Elements using a removed style switch to the style it was based on, or lose the class.
+ * Bare spans left behind are unwrapped.
+ */
+export const replaceStyleUsage = (root: HTMLElement, id: string, replacement: string | null) => {
+    root.querySelectorAll(`.${CSS.escape(id)}`).forEach(el => {
+        el.classList.remove(id);
+        if (replacement) el.classList.add(replacement);
+        if (el.classList.length === 0) el.removeAttribute('class');
+        unwrapBareSpan(el as HTMLElement);
+    });
+};
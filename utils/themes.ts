@@ -0,0 +1,218 @@
+// utils/themes.ts
+//
+// Document themes: a palette, a heading/body font pair and the defaults for boxed shapes and
+// horizontal rules. A theme is written as CSS variables plus the rules that read them into a
+// marked block of the document CSS (like the style sheet block of utils/styleSheets.ts), so
+// switching theme restyles the whole book at once. Shapes already read `--shape-bg` and
+// `--shape-border`; a shape given its own colors keeps them unless the overrides are reset.
+// Themes travel as JSON files.
+
+import { BorderSettings, HRProperties, Theme } from '../types';
+import { DEFAULT_THEME } from '../constants';
+
+export const THEME_MARKER_START = '/* SPYWRITER_THEME_START */';
+export const THEME_MARKER_END = '/* SPYWRITER_THEME_END */';
+
+const THEME_BLOCK = /\/\* SPYWRITER_THEME_START \*\/[\s\S]*?\/\* SPYWRITER_THEME_END \*\//g;
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, .book-title, .book-subtitle';
+const BODY_SELECTOR = 'p, li, blockquote, td, th';
+const SHAPE_SELECTOR = '.mission-box, .shape-rectangle, .shape-circle, .shape-pill, .shape-speech';
+// Master layers and page numbers have their own fonts and colors
+const CHROME_SELECTOR = '.page-footer, .master-layer';
+
+const scoped = (selector: string) => selector.split(',').map(part => `.editor-workspace ${part.trim()}`).join(', ');
+
+// Values end up inside CSS rules and inline styles
+const cssValue = (value: string) => value.replace(/[;{}<>]/g, '').trim();
+
+export const themeCss = (theme: Theme) => {
+    const { palette, fonts, border } = theme;
+    return [
+        `.editor-workspace {`,
+        `    --theme-text: ${cssValue(palette.text)};`,
+        `    --theme-heading: ${cssValue(palette.heading)};`,
+        `    --theme-accent: ${cssValue(palette.accent)};`,
+        `    --theme-highlight: ${cssValue(palette.highlight)};`,
+        `    --theme-heading-font: ${cssValue(fonts.heading)};`,
+        `    --theme-body-font: ${cssValue(fonts.body)};`,
+        `    --shape-bg: ${cssValue(border.backgroundColor)};`,
+        `    --shape-border: ${cssValue(border.borderColor)};`,
+        `    --theme-border-width: ${border.borderWidth}px;`,
+        `    --theme-border-style: ${border.borderStyle};`,
+        `    --theme-border-radius: ${border.borderRadius}px;`,
+        `    --theme-box-padding: ${border.padding}px;`,
+        `}`,
+        `${scoped(HEADING_SELECTOR)} {`,
+        `    font-family: var(--theme-heading-font);`,
+        `    color: var(--theme-heading);`,
+        `}`,
+        `${scoped(BODY_SELECTOR)} {`,
+        `    font-family: var(--theme-body-font);`,
+        `    color: var(--theme-text);`,
+        `}`,
+        `${scoped(SHAPE_SELECTOR)} {`,
+        `    border: var(--theme-border-width) var(--theme-border-style) var(--shape-border);`,
+        `    background-color: var(--shape-bg);`,
+        `}`,
+        `${scoped('.mission-box, .shape-rectangle')} {`,
+        `    border-radius: var(--theme-border-radius);`,
+        `    padding: var(--theme-box-padding);`,
+        `}`,
+        `${scoped('.shape-cloud')} {`,
+        `    background-color: var(--theme-highlight);`,
+        `}`,
+        `${scoped('.tracing-line')} {`,
+        `    background-image: linear-gradient(var(--theme-accent) 1px, transparent 1px);`,
+        `}`,
+        `${scoped('.writing-lines')} {`,
+        `    background-image: linear-gradient(var(--theme-accent) 1px, transparent 1px), linear-gradient(var(--theme-highlight) 1px, transparent 1px);`,
+        `}`
+    ].join('\n');
+};
+
+/** Writes (or replaces) the theme block of the document CSS. */
+export const applyThemeCss = (cssContent: string, theme: Theme) => {
+    const block = `${THEME_MARKER_START}\n${themeCss(theme)}\n${THEME_MARKER_END}`;
+    THEME_BLOCK.lastIndex = 0;
+    if (THEME_BLOCK.test(cssContent)) {
+        return cssContent.replace(THEME_BLOCK, block);
+    }
+    return `${cssContent}\n${block}`.trim();
+};
+
+/** Gives a horizontal rule the look of `hr` (same styling as the rule properties panel). */
+export const applyRuleStyle = (rule: HTMLElement, hr: HRProperties) => {
+    rule.style.cssText = '';
+    rule.style.width = `${hr.width}%`;
+    rule.style.marginTop = '20px';
+    rule.style.marginBottom = '20px';
+    rule.style.marginLeft = hr.alignment === 'left' ? '0' : 'auto';
+    rule.style.marginRight = hr.alignment === 'right' ? '0' : 'auto';
+    rule.style.border = 'none';
+    if (hr.style === 'tapered') {
+        rule.style.height = `${hr.height}px`;
+        rule.style.background = `radial-gradient(ellipse at center, ${cssValue(hr.color)} 0%, transparent 80%)`;
+        rule.style.borderRadius = '4px';
+    } else {
+        rule.style.height = '0px';
+        rule.style.borderTopWidth = `${hr.height}px`;
+        rule.style.borderTopStyle = hr.style;
+        rule.style.borderTopColor = cssValue(hr.color);
+        rule.style.backgroundColor = 'transparent';
+    }
+};
+
+/** Markup for a new horizontal rule in the theme's default look. */
+export const themedRuleHtml = (theme: Theme) => {
+    const rule = document.createElement('hr');
+    applyRuleStyle(rule, theme.hr);
+    return rule.outerHTML;
+};
+
+const SHAPE_OVERRIDES = ['--shape-bg', '--shape-border', 'border-color', 'background-color'];
+
+/**
+ * Drops the fonts and colors set on single elements, so the whole book follows the theme,
+ * and restyles every horizontal rule. Named style classes are left alone. Returns whether
+ * anything changed.
+ */
+export const resetThemeOverrides = (workspace: HTMLElement, theme: Theme) => {
+    let changed = false;
+    const clear = (el: HTMLElement, properties: string[]) => {
+        properties.forEach(name => {
+            if (!el.style.getPropertyValue(name)) return;
+            el.style.removeProperty(name);
+            changed = true;
+        });
+        if (el.getAttribute('style') === '') el.removeAttribute('style');
+    };
+
+    (Array.from(workspace.querySelectorAll('.page [style]')) as HTMLElement[])
+        .filter(el => !el.closest(CHROME_SELECTOR))
+        .forEach(el => {
+            clear(el, ['font-family', 'color']);
+            if (el.matches(`${SHAPE_SELECTOR}, .shape-cloud`)) clear(el, SHAPE_OVERRIDES);
+        });
+    workspace.querySelectorAll('.page font[face], .page font[color]').forEach(font => {
+        if (font.closest(CHROME_SELECTOR)) return;
+        font.removeAttribute('face');
+        font.removeAttribute('color');
+        changed = true;
+    });
+    (Array.from(workspace.querySelectorAll('.page hr')) as HTMLElement[])
+        .filter(rule => !rule.closest(CHROME_SELECTOR))
+        .forEach(rule => {
+            const before = rule.style.cssText;
+            applyRuleStyle(rule, theme.hr);
+            if (rule.style.cssText !== before) changed = true;
+        });
+    return changed;
+};
+
+export const themeJson = (theme: Theme) => JSON.stringify({ format: 'spywriter-theme', ...theme }, null, 2);
+
+const BORDER_STYLES: BorderSettings['borderStyle'][] = ['solid', 'dashed', 'dotted', 'double', 'none'];
+const RULE_STYLES: HRProperties['style'][] = ['solid', 'dashed', 'dotted', 'tapered'];
+const ALIGNMENTS: HRProperties['alignment'][] = ['left', 'center', 'right'];
+
+const text = (value: unknown, fallback: string) => (typeof value === 'string' && cssValue(value) ? cssValue(value) : fallback);
+const number = (value: unknown, fallback: number, min: number, max: number) => (
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback
+);
+const choice = <T extends string>(value: unknown, choices: T[], fallback: T) => (choices.includes(value as T) ? value as T : fallback);
+// The keys of a JSON object; anything else has none
+const entries = (value: unknown): Record<string, unknown> => (
+    value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+);
+
+/**
+ * Reads a theme file. Missing or unusable values fall back to the Classic theme; the
+ * theme gets a fresh id so it never replaces a built-in one.
+ */
+export const parseThemeJson = (source: string): Theme => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(source.replace(/^\uFEFF/, ''));
+    } catch {
+        throw new Error('The theme file is not valid JSON.');
+    }
+    const data = entries(parsed);
+    if (!('palette' in data) || !data.palette || !('fonts' in data) || !data.fonts) {
+        throw new Error('This file is not a theme (it needs a palette and fonts).');
+    }
+    const base = DEFAULT_THEME;
+    const palette = entries(data.palette);
+    const fonts = entries(data.fonts);
+    const border = entries(data.border);
+    const hr = entries(data.hr);
+    return {
+        id: `theme-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported theme',
+        palette: {
+            text: text(palette.text, base.palette.text),
+            heading: text(palette.heading, base.palette.heading),
+            accent: text(palette.accent, base.palette.accent),
+            highlight: text(palette.highlight, base.palette.highlight)
+        },
+        fonts: {
+            heading: text(fonts.heading, base.fonts.heading),
+            body: text(fonts.body, base.fonts.body)
+        },
+        border: {
+            borderWidth: number(border.borderWidth, base.border.borderWidth, 0, 20),
+            borderColor: text(border.borderColor, base.border.borderColor),
+            borderRadius: number(border.borderRadius, base.border.borderRadius, 0, 50),
+            backgroundColor: text(border.backgroundColor, base.border.backgroundColor),
+            padding: number(border.padding, base.border.padding, 0, 60),
+            borderStyle: choice(border.borderStyle, BORDER_STYLES, base.border.borderStyle)
+        },
+        hr: {
+            color: text(hr.color, base.hr.color),
+            height: number(hr.height, base.hr.height, 1, 20),
+            width: number(hr.width, base.hr.width, 10, 100),
+            alignment: choice(hr.alignment, ALIGNMENTS, base.hr.alignment),
+            style: choice(hr.style, RULE_STYLES, base.hr.style)
+        }
+    };
+};
@@ -0,0 +1,16 @@
+// utils/xml.ts
+//
+// Text escaping for the XML parts the writers generate (DOCX and EPUB packages).
+
+// Characters XML 1.0 cannot carry at all, even escaped (text pasted from Word brings some)
+const INVALID_XML_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f￾￿]/g;
+
+/** Drops the characters XML 1.0 cannot carry, e.g. from markup serialized by the DOM. */
+export const stripInvalidXml = (text: string) => text.replace(INVALID_XML_CHARACTERS, '');
+
+/** Escapes text for XML content and attribute values, dropping characters XML 1.0 cannot carry. */
+export const escapeXml = (text: string) => stripInvalidXml(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
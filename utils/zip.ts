@@ -0,0 +1,195 @@
+// utils/zip.ts
+//
+// Minimal ZIP container support used by the project bundle and the OOXML/EPUB writers.
+// Writing always uses the STORE method (no compression) so it stays synchronous and
+// dependency-free. Reading supports STORE and DEFLATE (via DecompressionStream).
+
+export type ZipInput = string | Uint8Array;
+
+export interface ZipEntry {
+    path: string;
+    data: ZipInput;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+    if (crcTable) return crcTable;
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+    }
+    return crcTable;
+};
+
+export const crc32 = (data: Uint8Array): number => {
+    const table = getCrcTable();
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toBytes = (input: ZipInput): Uint8Array => {
+    return typeof input === 'string' ? textEncoder.encode(input) : input;
+};
+
+const getDosDateTime = (date: Date) => {
+    const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    return { time, day };
+};
+
+/**
+ * Builds a ZIP archive from the given entries. Entry order is preserved, which matters
+ * for formats like EPUB where `mimetype` must be the first (uncompressed) entry.
+ */
+export const createZip = (entries: ZipEntry[], date: Date = new Date()): Uint8Array => {
+    const { time, day } = getDosDateTime(date);
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const nameBytes = textEncoder.encode(entry.path);
+        const data = toBytes(entry.data);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + nameBytes.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true); // version needed
+        lv.setUint16(6, 0x0800, true); // UTF-8 names
+        lv.setUint16(8, 0, true); // STORE
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, day, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, nameBytes.length, true);
+        lv.setUint16(28, 0, true);
+        local.set(nameBytes, 30);
+
+        const central = new Uint8Array(46 + nameBytes.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true); // version made by
+        cv.setUint16(6, 20, true); // version needed
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, day, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, nameBytes.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(nameBytes, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const out = new Uint8Array(offset + centralSize + end.length);
+    let cursor = 0;
+    [...localParts, ...centralParts, end].forEach(part => {
+        out.set(part, cursor);
+        cursor += part.length;
+    });
+    return out;
+};
+
+export const createZipBlob = (entries: ZipEntry[], mimeType = 'application/zip'): Blob => {
+    return new Blob([createZip(entries)], { type: mimeType });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This environment cannot read compressed ZIP entries.');
+    }
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const buffer = await new Response(stream).arrayBuffer();
+    return new Uint8Array(buffer);
+};
+
+/**
+ * Reads every file entry of a ZIP archive into memory, keyed by its path.
+ * Directory entries are skipped.
+ */
+export const readZip = async (input: ArrayBuffer | Uint8Array): Promise<Map<string, Uint8Array>> => {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let endOffset = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) {
+        throw new Error('Not a ZIP archive.');
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let cursor = view.getUint32(endOffset + 16, true);
+    const files = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(cursor, true) !== 0x02014b50) {
+            throw new Error('Corrupt ZIP central directory.');
+        }
+        const method = view.getUint16(cursor + 10, true);
+        const compressedSize = view.getUint32(cursor + 20, true);
+        const nameLength = view.getUint16(cursor + 28, true);
+        const extraLength = view.getUint16(cursor + 30, true);
+        const commentLength = view.getUint16(cursor + 32, true);
+        const localOffset = view.getUint32(cursor + 42, true);
+        const name = textDecoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+        cursor += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            files.set(name, raw.slice());
+        } else if (method === 8) {
+            files.set(name, await inflateRaw(raw));
+        } else {
+            throw new Error(`Unsupported ZIP compression method ${method} for ${name}.`);
+        }
+    }
+
+    return files;
+};
+
+export const zipEntryText = (files: Map<string, Uint8Array>, path: string): string | null => {
+    const data = files.get(path);
+    return data ? textDecoder.decode(data) : null;
+};
+
+export const isZipData = (bytes: Uint8Array) => {
+    return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+};
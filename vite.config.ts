@@ -1,6 +1,63 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { BUNDLED_FONTS, bundledFontFile } from './constants';
+
+// Hunspell dictionaries of BUILT_IN_DICTIONARIES (constants.ts), from their npm packages. They
+// are served at /dictionaries/<id>.aff|.dic, where utils/spellcheck.ts fetches them, and copied
+// there in the build.
+const BUNDLED_DICTIONARIES: Record<string, string> = {
+  en_US: 'dictionary-en',
+  en_GB: 'dictionary-en-gb',
+  it_IT: 'dictionary-it'
+};
+
+const dictionaryFile = (id: string, extension: string) => path.resolve(__dirname, 'node_modules', BUNDLED_DICTIONARIES[id], `index.${extension}`);
+
+const bundledDictionaries = (): Plugin => ({
+  name: 'bundled-dictionaries',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const match = /^\/dictionaries\/(\w+)\.(aff|dic)$/.exec(req.url ?? '');
+      if (!match || !BUNDLED_DICTIONARIES[match[1]]) return next();
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.end(fs.readFileSync(dictionaryFile(match[1], match[2])));
+    });
+  },
+  generateBundle() {
+    Object.keys(BUNDLED_DICTIONARIES).forEach(id => ['aff', 'dic'].forEach(extension => {
+      this.emitFile({ type: 'asset', fileName: `dictionaries/${id}.${extension}`, source: fs.readFileSync(dictionaryFile(id, extension)) });
+    }));
+  }
+});
+
+// Font files of BUNDLED_FONTS (constants.ts) from their @fontsource packages, served at
+// /fonts/<file>.woff for the PDF writer (utils/fontFiles.ts) and copied there in the build.
+const BUNDLED_FONT_FILES = new Map(BUNDLED_FONTS.flatMap(font => font.subsets.flatMap(subset => font.weights.flatMap(weight => (
+  (font.italic ? [false, true] : [false]).map(italic => {
+    const fileName = bundledFontFile(font, subset, weight, italic);
+    return [fileName, path.resolve(__dirname, 'node_modules', '@fontsource', font.package, 'files', fileName)] as const;
+  })
+)))));
+
+const bundledFonts = (): Plugin => ({
+  name: 'bundled-fonts',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const match = /^\/fonts\/([\w.-]+)$/.exec(req.url ?? '');
+      const file = match && BUNDLED_FONT_FILES.get(match[1]);
+      if (!file) return next();
+      res.setHeader('Content-Type', 'font/woff');
+      res.end(fs.readFileSync(file));
+    });
+  },
+  generateBundle() {
+    BUNDLED_FONT_FILES.forEach((file, fileName) => {
+      this.emitFile({ type: 'asset', fileName: `fonts/${fileName}`, source: fs.readFileSync(file) });
+    });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +66,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), bundledDictionaries(), bundledFonts()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)